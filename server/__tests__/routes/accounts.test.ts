@@ -17,6 +17,7 @@ vi.mock('../../middleware/validation', () => ({
   validateQuery: () => (_req: any, _res: any, next: any) => next(),
   validateParams: () => (_req: any, _res: any, next: any) => next(),
   paginationSchema: { extend: () => ({}) },
+  dateRangeSchema: {},
   idParamSchema: {},
 }));
 
@@ -29,10 +30,15 @@ vi.mock('../../services', () => ({
     updateAccount: vi.fn(),
     deleteAccount: vi.fn(),
     getAccountBalance: vi.fn(),
+    getAccountRegister: vi.fn(),
+  },
+  reconciliationService: {
+    getReconciliations: vi.fn(),
+    createReconciliation: vi.fn(),
   },
 }));
 
-import { accountService } from '../../services';
+import { accountService, reconciliationService } from '../../services';
 
 describe('Accounts API Routes', () => {
   const app = createTestApp();
@@ -233,4 +239,62 @@ describe('Accounts API Routes', () => {
       );
     });
   });
+
+  describe('GET /api/accounts/:id/register', () => {
+    it('returns the register for the requested date range', async () => {
+      vi.mocked(accountService.getAccountRegister).mockResolvedValue({
+        account_id: 'acc-123',
+        currency: 'MXN',
+        start_date: '2026-03-01',
+        end_date: '2026-03-31',
+        opening_balance_cents: 50000,
+        closing_balance_cents: 60000,
+        entries: [],
+      });
+
+      const res = await request(app).get('/api/accounts/acc-123/register?startDate=2026-03-01&endDate=2026-03-31');
+
+      expect(res.status).toBe(200);
+      expect(res.body.closing_balance_cents).toBe(60000);
+      expect(accountService.getAccountRegister).toHaveBeenCalledWith('test-user-123', 'acc-123', {
+        startDate: '2026-03-01',
+        endDate: '2026-03-31',
+      });
+    });
+  });
+
+  describe('POST /api/accounts/:id/reconciliations', () => {
+    it('creates a reconciliation', async () => {
+      const reconciliation = {
+        id: 'rec-1',
+        user_id: 'test-user-123',
+        account_id: 'acc-123',
+        statement_date: '2026-03-31',
+        statement_balance_cents: 38000,
+        posting_count: 1,
+        created_at: '2026-04-01T12:00:00Z',
+        posting_ids: ['p2'],
+      };
+      vi.mocked(reconciliationService.createReconciliation).mockResolvedValue(reconciliation);
+
+      const body = { statement_date: '2026-03-31', statement_balance_cents: 38000, posting_ids: ['p2'] };
+      const res = await request(app).post('/api/accounts/acc-123/reconciliations').send(body);
+
+      expect(res.status).toBe(201);
+      expect(res.body.posting_ids).toEqual(['p2']);
+      expect(reconciliationService.createReconciliation).toHaveBeenCalledWith('test-user-123', 'acc-123', body);
+    });
+
+    it('returns 400 when the statement does not balance', async () => {
+      vi.mocked(reconciliationService.createReconciliation).mockRejectedValue(
+        new BadRequestError('Cleared balance differs from the statement by -30.00')
+      );
+
+      const res = await request(app)
+        .post('/api/accounts/acc-123/reconciliations')
+        .send({ statement_date: '2026-03-31', statement_balance_cents: 35000, posting_ids: [] });
+
+      expect(res.status).toBe(400);
+    });
+  });
 });
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { errorHandler, PeriodClosedError } from '../../middleware/errorHandler';
+import expensesRouter from '../../routes/expenses';
+import { transactionService, periodService } from '../../services';
+import { supabaseAdmin } from '../../lib/supabase';
+
+// Mock the auth middleware to bypass authentication
+vi.mock('../../middleware/auth', () => ({
+  authMiddleware: vi.fn((req: { userId?: string }, _res: unknown, next: () => void) => {
+    req.userId = 'test-user-123';
+    next();
+  }),
+}));
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+describe('Expenses API Routes', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/expenses', expensesRouter);
+  app.use(errorHandler);
+
+  const expenseId = '3b0e9c44-2f6d-4a8e-9d1c-7a5e2b1f0c11';
+  const existing = { id: expenseId, transaction_id: 'tx-1', amount: 100, date: '2026-03-10', splits: null };
+
+  // The expense lookup and the expense update
+  const mockExpenses = (expense: object = existing) => {
+    const update = vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({ single: vi.fn().mockResolvedValue({ data: { id: expenseId }, error: null }) }),
+      }),
+    });
+    const single = vi.fn().mockResolvedValue({ data: expense, error: null });
+    const eq = vi.fn().mockReturnValue({ eq: vi.fn().mockReturnValue({ single }) });
+    vi.mocked(supabaseAdmin.from).mockReturnValue({ select: vi.fn().mockReturnValue({ eq }), update } as never);
+    return update;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(periodService, 'assertPeriodsOpen').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('PUT /api/expenses/:id', () => {
+    it('checks both dates and moves the linked transaction to the new date', async () => {
+      const update = mockExpenses();
+      const updateSpy = vi.spyOn(transactionService, 'updateTransaction').mockResolvedValue({} as never);
+
+      const res = await request(app).put(`/api/expenses/${expenseId}`).send({ date: '2026-04-02', what: 'Market' });
+
+      expect(res.status).toBe(200);
+      expect(periodService.assertPeriodsOpen).toHaveBeenCalledWith('test-user-123', ['2026-03-10', '2026-04-02']);
+      expect(updateSpy).toHaveBeenCalledWith('test-user-123', 'tx-1', { date: '2026-04-02' });
+      expect(update).toHaveBeenCalledWith({ date: '2026-04-02', what: 'Market' });
+    });
+
+    it('keeps an expense in a closed period unchanged, even without a linked transaction', async () => {
+      const update = mockExpenses({ ...existing, transaction_id: null });
+      vi.mocked(periodService.assertPeriodsOpen).mockRejectedValue(new PeriodClosedError('2026-03'));
+
+      const res = await request(app).put(`/api/expenses/${expenseId}`).send({ what: 'Market' });
+
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('PERIOD_CLOSED');
+      expect(update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler';
+import periodsRouter from '../../routes/periods';
+import { periodService } from '../../services';
+
+// Mock the auth middleware to bypass authentication
+vi.mock('../../middleware/auth', () => ({
+  authMiddleware: vi.fn((req: { userId?: string }, _res: unknown, next: () => void) => {
+    req.userId = 'test-user-123';
+    next();
+  }),
+}));
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+describe('Periods API Routes', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/periods', periodsRouter);
+  app.use(errorHandler);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('POST /api/periods/:period/reopen', () => {
+    it('reopens a period once the request repeats it', async () => {
+      const reopenSpy = vi.spyOn(periodService, 'reopenPeriod').mockResolvedValue();
+
+      const res = await request(app)
+        .post('/api/periods/2026-03/reopen')
+        .send({ reason: 'Late supplier invoice', confirm_period: '2026-03' });
+
+      expect(res.status).toBe(204);
+      expect(reopenSpy).toHaveBeenCalledWith('test-user-123', '2026-03', 'Late supplier invoice');
+    });
+
+    it('rejects a reopen without a matching confirmation', async () => {
+      const reopenSpy = vi.spyOn(periodService, 'reopenPeriod').mockResolvedValue();
+
+      const res = await request(app)
+        .post('/api/periods/2026-03/reopen')
+        .send({ reason: 'Late supplier invoice', confirm_period: '2026-02' });
+
+      expect(res.status).toBe(400);
+      expect(res.body.code).toBe('BAD_REQUEST');
+      expect(reopenSpy).not.toHaveBeenCalled();
+    });
+  });
+});
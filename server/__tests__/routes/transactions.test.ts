@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { errorHandler } from '../../middleware/errorHandler';
+import transactionsRouter from '../../routes/transactions';
+import { transactionService, periodService } from '../../services';
+import { supabaseAdmin } from '../../lib/supabase';
+
+// Mock the auth middleware to bypass authentication
+vi.mock('../../middleware/auth', () => ({
+  authMiddleware: vi.fn((req: { userId?: string }, _res: unknown, next: () => void) => {
+    req.userId = 'test-user-123';
+    next();
+  }),
+}));
+
+// Mock the supabase client; the transaction service runs for real on top of it
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+describe('Transactions API Routes', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/transactions', transactionsRouter);
+  app.use(errorHandler);
+
+  const posted = {
+    id: '6f1c3a52-8a1e-4f43-9a57-3c2b8f0d1e01',
+    date: '2026-03-10',
+    description: 'Supermarket',
+    reference: null,
+    tags: [],
+    base_currency: 'MXN',
+    transaction_type: 'expense',
+    status: 'posted',
+    reverses_id: null,
+    reversed_by_id: null,
+    postings: [
+      { account_id: 'groceries', amount_cents: 10000, currency: 'MXN', is_debit: true, exchange_rate: null, booked_amount_cents: 10000, reconciled: false },
+      { account_id: 'checking', amount_cents: 10000, currency: 'MXN', is_debit: false, exchange_rate: null, booked_amount_cents: 10000, reconciled: false },
+    ],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(periodService, 'assertPeriodsOpen').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('DELETE /api/transactions/:id', () => {
+    it('voids a posted entry instead of removing it', async () => {
+      vi.spyOn(transactionService, 'getTransactionById')
+        .mockResolvedValueOnce(posted as never)
+        .mockResolvedValueOnce({ id: 'tx-void', status: 'voided', reverses_id: posted.id } as never);
+      vi.spyOn(transactionService, 'createTransaction').mockResolvedValue({ id: 'tx-void' } as never);
+      const update = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) }),
+      });
+      const remove = vi.fn();
+      vi.mocked(supabaseAdmin.from).mockReturnValue({ update, delete: remove } as never);
+
+      const res = await request(app).delete(`/api/transactions/${posted.id}`);
+
+      expect(res.status).toBe(200);
+      expect(res.body).toMatchObject({ id: 'tx-void', status: 'voided', reverses_id: posted.id });
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: 'voided', reversed_by_id: 'tx-void' }));
+      expect(remove).not.toHaveBeenCalled();
+    });
+
+    it('returns 409 for a reconciled entry and leaves it untouched', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue({
+        ...posted,
+        postings: [{ ...posted.postings[0], reconciled: true }, posted.postings[1]],
+      } as never);
+
+      const res = await request(app).delete(`/api/transactions/${posted.id}`);
+
+      expect(res.status).toBe(409);
+      expect(res.body.code).toBe('CONFLICT');
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -178,6 +178,18 @@ describe('AccountService', () => {
       expect(result.code).toBe('1200');
     });
 
+    it('throws BadRequestError when the code is outside the range for its type', async () => {
+      await expect(
+        accountService.createAccount(mockUserId, {
+          name: 'Savings',
+          code: '2200',
+          type: 'asset',
+          currency: 'MXN',
+        })
+      ).rejects.toThrow('Asset account codes must start with 1');
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+
     it('throws ConflictError when account code already exists', async () => {
       const existingAccount = { id: 'existing-id', code: '1200' };
 
@@ -230,6 +242,56 @@ describe('AccountService', () => {
     });
   });
 
+  describe('updateAccount re-parenting', () => {
+    const mockTree = [
+      { id: 'assets', code: '1000', type: 'asset', parent_id: null },
+      { id: mockAccountId, code: '1100', type: 'asset', parent_id: 'assets' },
+      { id: 'child', code: '1110', type: 'asset', parent_id: mockAccountId },
+      { id: 'income', code: '4000', type: 'income', parent_id: null },
+    ];
+
+    const mockQueries = () => {
+      const mockSelectQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { ...mockTree[1], user_id: mockUserId }, error: null }),
+      };
+      const mockTreeQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockResolvedValue({ data: mockTree, error: null }),
+      };
+      const mockUpdateQuery = {
+        update: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        select: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: { ...mockTree[1], parent_id: null }, error: null }),
+      };
+      vi.mocked(supabaseAdmin.from)
+        .mockReturnValueOnce(mockSelectQuery as never)
+        .mockReturnValueOnce(mockTreeQuery as never)
+        .mockReturnValueOnce(mockUpdateQuery as never);
+      return mockUpdateQuery;
+    };
+
+    it('moves an account to the top level', async () => {
+      const mockUpdateQuery = mockQueries();
+
+      await accountService.updateAccount(mockUserId, mockAccountId, { parent_id: null });
+
+      expect(mockUpdateQuery.update).toHaveBeenCalledWith({ parent_id: null });
+    });
+
+    it('rejects a parent that would create a loop or mix natures', async () => {
+      mockQueries();
+      await expect(accountService.updateAccount(mockUserId, mockAccountId, { parent_id: 'child' }))
+        .rejects.toThrow('An account cannot be moved under itself or one of its sub-accounts');
+
+      mockQueries();
+      await expect(accountService.updateAccount(mockUserId, mockAccountId, { parent_id: 'income' }))
+        .rejects.toThrow(BadRequestError);
+    });
+  });
+
   describe('deleteAccount', () => {
     it('deletes an account without postings', async () => {
       const mockAccount = { id: mockAccountId, name: 'Cash', user_id: mockUserId };
@@ -373,6 +435,46 @@ describe('AccountService', () => {
     });
   });
 
+  describe('getAccountRegister', () => {
+    const posting = (id: string, date: string, amount_cents: number, is_debit: boolean, created_at: string) => ({
+      id,
+      transaction_id: `tx-${id}`,
+      amount_cents,
+      is_debit,
+      transactions: { date, description: `Entry ${id}`, reference: null, created_at },
+    });
+
+    it('rolls earlier postings into the opening balance and runs the balance forward', async () => {
+      vi.spyOn(accountService, 'getAccountById').mockResolvedValue({ id: mockAccountId, type: 'asset', currency: 'MXN' } as never);
+      const mockPostingsQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        lte: vi.fn().mockResolvedValue({
+          data: [
+            posting('p3', '2026-03-05', 2000, false, '2026-03-05T10:00:00Z'),
+            posting('p1', '2026-02-20', 50000, true, '2026-02-20T10:00:00Z'),
+            posting('p2', '2026-03-05', 10000, true, '2026-03-05T09:00:00Z'),
+          ],
+          error: null,
+        }),
+      };
+      vi.mocked(supabaseAdmin.from).mockReturnValue(mockPostingsQuery as never);
+
+      const result = await accountService.getAccountRegister(mockUserId, mockAccountId, {
+        startDate: '2026-03-01',
+        endDate: '2026-03-31',
+      });
+
+      expect(mockPostingsQuery.lte).toHaveBeenCalledWith('transactions.date', '2026-03-31');
+      expect(result.opening_balance_cents).toBe(50000);
+      expect(result.closing_balance_cents).toBe(58000);
+      expect(result.entries.map((entry) => [entry.posting_id, entry.amount_cents, entry.balance_cents])).toEqual([
+        ['p2', 10000, 60000],
+        ['p3', -2000, 58000],
+      ]);
+    });
+  });
+
   describe('seedDefaultAccounts', () => {
     it('creates default chart of accounts', async () => {
       const mockInsertedAccounts = [
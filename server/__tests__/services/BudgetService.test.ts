@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { BudgetService } from '../../services/BudgetService';
+import { NotFoundError } from '../../middleware/errorHandler';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(() => ({
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      gte: vi.fn().mockReturnThis(),
+      lte: vi.fn().mockReturnThis(),
+      order: vi.fn().mockReturnThis(),
+      single: vi.fn(),
+    })),
+  },
+}));
+
+vi.mock('../../services/RatesService', () => ({
+  ratesService: {
+    getRate: vi.fn(),
+  },
+}));
+
+import { supabaseAdmin } from '../../lib/supabase';
+import { ratesService } from '../../services/RatesService';
+
+describe('BudgetService', () => {
+  let budgetService: BudgetService;
+  const mockUserId = 'user-123';
+
+  const makeBudget = (overrides: Record<string, unknown> = {}) => ({
+    id: 'budget-1',
+    user_id: mockUserId,
+    name: 'Fun money',
+    scope: 'rating',
+    category: null,
+    rating: 'discretionary',
+    monthly_limit: 1000,
+    currency: 'MXN',
+    rollover: false,
+    start_month: '2025-01',
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  const mockQueries = (budgets: unknown[], expenses: unknown[]) => {
+    const budgetsQuery = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      order: vi.fn().mockResolvedValue({ data: budgets, error: null }),
+    };
+    const expensesQuery = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      gte: vi.fn().mockReturnThis(),
+      lte: vi.fn().mockResolvedValue({ data: expenses, error: null }),
+    };
+
+    vi.mocked(supabaseAdmin.from)
+      .mockReturnValueOnce(budgetsQuery as never)
+      .mockReturnValueOnce(expensesQuery as never);
+
+    return { budgetsQuery, expensesQuery };
+  };
+
+  beforeEach(() => {
+    budgetService = new BudgetService();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getBudgetById', () => {
+    it('throws NotFoundError when budget does not exist', async () => {
+      const mockQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: null, error: { code: 'PGRST116' } }),
+      };
+
+      vi.mocked(supabaseAdmin.from).mockReturnValue(mockQuery as never);
+
+      await expect(budgetService.getBudgetById(mockUserId, 'missing')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getBudgetStatus', () => {
+    it('returns an empty report without querying expenses when there are no budgets', async () => {
+      const budgetsQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue({ data: [], error: null }),
+      };
+      vi.mocked(supabaseAdmin.from).mockReturnValueOnce(budgetsQuery as never);
+
+      const result = await budgetService.getBudgetStatus(mockUserId, '2025-03');
+
+      expect(result).toEqual({ month: '2025-03', budgets: [] });
+      expect(supabaseAdmin.from).toHaveBeenCalledTimes(1);
+    });
+
+    it('sums matching expenses for the month and converts other currencies', async () => {
+      vi.mocked(ratesService.getRate).mockResolvedValue(20);
+      const { expensesQuery } = mockQueries(
+        [makeBudget()],
+        [
+          { amount: 300, currency: 'MXN', rating: 'discretionary', category: null, date: '2025-03-02' },
+          { amount: 10, currency: 'USD', rating: 'discretionary', category: null, date: '2025-03-05' },
+          { amount: 500, currency: 'MXN', rating: 'essential', category: null, date: '2025-03-07' },
+        ]
+      );
+
+      const result = await budgetService.getBudgetStatus(mockUserId, '2025-03');
+
+      expect(expensesQuery.gte).toHaveBeenCalledWith('date', '2025-03-01');
+      expect(expensesQuery.lte).toHaveBeenCalledWith('date', '2025-03-31');
+      expect(ratesService.getRate).toHaveBeenCalledWith('USD', 'MXN');
+      expect(result.budgets[0].spent).toBe(500);
+      expect(result.budgets[0].remaining).toBe(500);
+      expect(result.budgets[0].percent_used).toBe(50);
+    });
+
+    it('fails rather than count a foreign amount without an exchange rate', async () => {
+      const { RatesService } = await vi.importActual<typeof import('../../services/RatesService')>('../../services/RatesService');
+      const realRates = new RatesService();
+      vi.spyOn(realRates as unknown as { getCachedRates: () => Promise<Record<string, number>> }, 'getCachedRates')
+        .mockResolvedValue({ MXN: 17 });
+      vi.mocked(ratesService.getRate).mockImplementation((from, to) => realRates.getRate(from, to));
+      mockQueries(
+        [makeBudget()],
+        [{ amount: 10, currency: 'XAU', rating: 'discretionary', category: null, date: '2025-03-05' }]
+      );
+
+      await expect(budgetService.getBudgetStatus(mockUserId, '2025-03')).rejects.toThrow('Unsupported currency pair: XAU/MXN');
+    });
+
+    it('carries unspent amounts forward for rollover budgets', async () => {
+      const { expensesQuery } = mockQueries(
+        [makeBudget({ rollover: true, scope: 'category', rating: null, category: 'Dining' })],
+        [
+          { amount: 200, currency: 'MXN', rating: 'discretionary', category: 'dining', date: '2025-01-10' },
+          { amount: 1300, currency: 'MXN', rating: 'discretionary', category: 'Dining', date: '2025-02-10' },
+          { amount: 100, currency: 'MXN', rating: 'discretionary', category: 'Dining', date: '2025-03-10' },
+        ]
+      );
+
+      const result = await budgetService.getBudgetStatus(mockUserId, '2025-03');
+
+      // Rollover needs history back to the start month
+      expect(expensesQuery.gte).toHaveBeenCalledWith('date', '2025-01-01');
+      // Jan leaves 800, Feb has 1800 and spends 1300, leaving 500 for March
+      expect(result.budgets[0].carried_over).toBe(500);
+      expect(result.budgets[0].limit).toBe(1500);
+      expect(result.budgets[0].spent).toBe(100);
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CategorizationService } from '../../services/CategorizationService';
+import { BadRequestError } from '../../middleware/errorHandler';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+import { supabaseAdmin } from '../../lib/supabase';
+
+describe('CategorizationService', () => {
+  let categorizationService: CategorizationService;
+  const mockUserId = 'user-123';
+
+  const makeRule = (overrides: Record<string, unknown> = {}) => ({
+    id: 'rule-1',
+    user_id: mockUserId,
+    name: 'Ride share',
+    priority: 10,
+    enabled: true,
+    description_pattern: 'uber|lyft',
+    min_amount: null,
+    max_amount: null,
+    currency: null,
+    account_id: null,
+    category: 'Transportation',
+    subcategory: 'Ride Share',
+    rating: null,
+    recurring: null,
+    created_at: '2025-01-01T00:00:00Z',
+    updated_at: '2025-01-01T00:00:00Z',
+    ...overrides,
+  });
+
+  const makeExpense = (overrides: Record<string, unknown> = {}) => ({
+    id: 'expense-1',
+    user_id: mockUserId,
+    what: 'UBER *TRIP',
+    amount: 120,
+    currency: 'MXN',
+    rating: 'discretionary',
+    date: '2025-01-10',
+    recurring: false,
+    category: null,
+    subcategory: null,
+    confidence: null,
+    explanation: null,
+    transaction_id: null,
+    transactions: null,
+    ...overrides,
+  });
+
+  const mockRulesQuery = (rules: unknown[]) => {
+    const query = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      order: vi.fn(),
+    };
+    // Second .order() resolves the chain
+    query.order.mockReturnValueOnce(query).mockResolvedValueOnce({ data: rules, error: null });
+    vi.mocked(supabaseAdmin.from).mockReturnValueOnce(query as never);
+    return query;
+  };
+
+  const mockExpensesQuery = (expenses: unknown[]) => {
+    const query = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockResolvedValue({ data: expenses, error: null }),
+    };
+    vi.mocked(supabaseAdmin.from).mockReturnValueOnce(query as never);
+    return query;
+  };
+
+  const mockUpdateQuery = () => {
+    const query = {
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn(),
+    };
+    // Second .eq() resolves the chain
+    query.eq.mockReturnValueOnce(query).mockResolvedValueOnce({ error: null });
+    vi.mocked(supabaseAdmin.from).mockReturnValueOnce(query as never);
+    return query;
+  };
+
+  beforeEach(() => {
+    categorizationService = new CategorizationService();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createRule', () => {
+    it('rejects a description pattern that does not compile', async () => {
+      await expect(
+        categorizationService.createRule(mockUserId, { name: 'Broken', description_pattern: '(uber', category: 'Transportation' })
+      ).rejects.toBeInstanceOf(BadRequestError);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+
+    it('rejects a description pattern that backtracks without bound', async () => {
+      await expect(
+        categorizationService.createRule(mockUserId, { name: 'Slow', description_pattern: '(a+)+$', category: 'Transportation' })
+      ).rejects.toThrow(/nests repeated quantifiers/);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+
+    it('rejects a rule without any action', async () => {
+      await expect(
+        categorizationService.createRule(mockUserId, { name: 'No action', description_pattern: 'uber' })
+      ).rejects.toThrow('at least one condition and one action');
+    });
+  });
+
+  describe('getCategorizationFields', () => {
+    it('returns only the fields the first matching rule sets', async () => {
+      mockRulesQuery([
+        makeRule(),
+        makeRule({ id: 'rule-2', priority: 20, description_pattern: 'trip', category: 'Travel', subcategory: null }),
+      ]);
+
+      const fields = await categorizationService.getCategorizationFields(mockUserId, {
+        description: 'Uber ride',
+        amount: 80,
+        currency: 'MXN',
+      });
+
+      expect(fields).toEqual({
+        category: 'Transportation',
+        subcategory: 'Ride Share',
+        confidence: 1,
+        explanation: 'Matched rule "Ride share"',
+      });
+    });
+
+    it('returns an empty object when no rule matches', async () => {
+      mockRulesQuery([makeRule()]);
+
+      const fields = await categorizationService.getCategorizationFields(mockUserId, {
+        description: 'Groceries',
+        amount: 80,
+        currency: 'MXN',
+      });
+
+      expect(fields).toEqual({});
+    });
+  });
+
+  describe('applyToHistory', () => {
+    it('updates only expenses whose categorization changes', async () => {
+      mockRulesQuery([
+        makeRule({ account_id: null }),
+        makeRule({ id: 'rule-2', priority: 20, description_pattern: null, account_id: 'card-1', category: 'Credit card', subcategory: null }),
+      ]);
+      mockExpensesQuery([
+        makeExpense(),
+        makeExpense({
+          id: 'expense-2',
+          what: 'Lyft',
+          category: 'Transportation',
+          subcategory: 'Ride Share',
+          confidence: 1,
+          explanation: 'Matched rule "Ride share"',
+        }),
+        makeExpense({ id: 'expense-3', what: 'Bookstore', transactions: { postings: [
+          { account_id: 'expenses-1', is_debit: true },
+          { account_id: 'card-1', is_debit: false },
+        ] } }),
+        makeExpense({ id: 'expense-4', what: 'Bookstore' }),
+      ]);
+      const firstUpdate = mockUpdateQuery();
+      const secondUpdate = mockUpdateQuery();
+
+      const result = await categorizationService.applyToHistory(mockUserId);
+
+      expect(result).toEqual({ processed: 4, updated: 2 });
+      expect(firstUpdate.update).toHaveBeenCalledWith(expect.objectContaining({ category: 'Transportation' }));
+      expect(firstUpdate.eq).toHaveBeenCalledWith('id', 'expense-1');
+      expect(secondUpdate.update).toHaveBeenCalledWith(expect.objectContaining({ category: 'Credit card' }));
+      expect(secondUpdate.eq).toHaveBeenCalledWith('id', 'expense-3');
+    });
+
+    it('skips the expense query when no rule is enabled', async () => {
+      mockRulesQuery([makeRule({ enabled: false })]);
+
+      const result = await categorizationService.applyToHistory(mockUserId);
+
+      expect(result).toEqual({ processed: 0, updated: 0 });
+      expect(supabaseAdmin.from).toHaveBeenCalledTimes(1);
+    });
+  });
+});
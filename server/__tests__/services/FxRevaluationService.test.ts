@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FxRevaluationService } from '../../services/FxRevaluationService';
+import { accountService } from '../../services/AccountService';
+import { ratesService } from '../../services/RatesService';
+import { transactionService } from '../../services/TransactionService';
+import { BadRequestError } from '../../middleware/errorHandler';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+import { supabaseAdmin } from '../../lib/supabase';
+
+describe('FxRevaluationService', () => {
+  let fxRevaluationService: FxRevaluationService;
+  const mockUserId = 'user-123';
+  const input = { date: '2026-03-31', base_currency: 'MXN', gain_loss_account_id: 'fx-gain' };
+
+  // USD 1,000 bought at 17.00 and a USD 200 card balance booked at 17.50
+  const postings = [
+    { account_id: 'usd-bank', amount_cents: 100000, currency: 'USD', is_debit: true, booked_amount_cents: 1700000, accounts: { name: 'USD Bank', type: 'asset' } },
+    { account_id: 'usd-card', amount_cents: 20000, currency: 'USD', is_debit: false, booked_amount_cents: 350000, accounts: { name: 'USD Card', type: 'liability' } },
+    { account_id: 'travel', amount_cents: 20000, currency: 'USD', is_debit: true, booked_amount_cents: 350000, accounts: { name: 'Travel', type: 'expense' } },
+  ];
+
+  const mockTables = () => {
+    const runInsert = vi.fn().mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        single: vi.fn().mockResolvedValue({ data: { id: 'run-1' }, error: null }),
+      }),
+    });
+    const query = {
+      eq: vi.fn().mockReturnThis(),
+      lte: vi.fn().mockReturnThis(),
+      neq: vi.fn().mockResolvedValue({ data: postings, error: null }),
+    };
+    vi.mocked(supabaseAdmin.from).mockImplementation((table: string) =>
+      (table === 'fx_revaluations' ? { insert: runInsert } : { select: vi.fn().mockReturnValue(query) }) as never
+    );
+    return { runInsert };
+  };
+
+  beforeEach(() => {
+    fxRevaluationService = new FxRevaluationService();
+    vi.clearAllMocks();
+    vi.spyOn(accountService, 'getAccountById').mockResolvedValue({ id: 'fx-gain', type: 'income' } as never);
+    vi.spyOn(ratesService, 'getRate').mockResolvedValue(18);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('posts the net gain on monetary balances at the new rate', async () => {
+    const { runInsert } = mockTables();
+    const createSpy = vi.spyOn(transactionService, 'createTransaction').mockResolvedValue({ id: 'tx-1' } as never);
+
+    const report = await fxRevaluationService.revalue(mockUserId, input);
+
+    // Bank: 1,000 x 18 = 18,000 vs 17,000 booked; card: -200 x 18 = -3,600 vs -3,500
+    expect(report.lines.map((line) => [line.account_id, line.adjustment_cents])).toEqual([
+      ['usd-bank', 100000],
+      ['usd-card', -10000],
+    ]);
+    expect(report.total_adjustment_cents).toBe(90000);
+    expect(createSpy.mock.calls[0][1].postings).toEqual([
+      { account_id: 'usd-bank', amount_cents: 0, currency: 'USD', is_debit: true, booked_amount_cents: 100000 },
+      { account_id: 'usd-card', amount_cents: 0, currency: 'USD', is_debit: false, booked_amount_cents: 10000 },
+      { account_id: 'fx-gain', amount_cents: 90000, currency: 'MXN', is_debit: false, booked_amount_cents: 90000 },
+    ]);
+    expect(runInsert).toHaveBeenCalledWith(expect.objectContaining({ transaction_id: 'tx-1', total_adjustment_cents: 90000 }));
+    expect(report).toMatchObject({ id: 'run-1', transaction_id: 'tx-1' });
+  });
+
+  it('only reports on a dry run', async () => {
+    mockTables();
+    const createSpy = vi.spyOn(transactionService, 'createTransaction');
+
+    const report = await fxRevaluationService.revalue(mockUserId, { ...input, dry_run: true });
+
+    expect(report.transaction_id).toBeNull();
+    expect(createSpy).not.toHaveBeenCalled();
+  });
+
+  it('rejects a gain/loss account that is not income or equity', async () => {
+    vi.spyOn(accountService, 'getAccountById').mockResolvedValue({ id: 'usd-bank', type: 'asset' } as never);
+
+    await expect(fxRevaluationService.revalue(mockUserId, input)).rejects.toThrow(BadRequestError);
+  });
+});
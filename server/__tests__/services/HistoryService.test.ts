@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { HistoryService } from '../../services/HistoryService';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+import { supabaseAdmin } from '../../lib/supabase';
+
+describe('HistoryService', () => {
+  let historyService: HistoryService;
+  const mockUserId = 'user-123';
+  const recordId = '6c1f1b7e-5a8b-4c55-9a51-2f7d0d4c9a10';
+
+  beforeEach(() => {
+    historyService = new HistoryService();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getHistory', () => {
+    it("returns the user's edits to the record with field names and no bookkeeping columns", async () => {
+      const eq = vi.fn();
+      const order = vi.fn().mockResolvedValue({
+        data: [
+          {
+            id: 'h-2',
+            user_id: mockUserId,
+            table_name: 'net_worth_accounts',
+            record_id: recordId,
+            changed_by: mockUserId,
+            created_at: '2026-03-02T10:00:00Z',
+            changes: {
+              exclude_from_total: { before: false, after: true },
+              balance: { before: 1200, after: 900 },
+              last_updated: { before: '2026-03-01', after: '2026-03-02' },
+            },
+          },
+          {
+            id: 'h-1',
+            user_id: mockUserId,
+            table_name: 'net_worth_accounts',
+            record_id: recordId,
+            changed_by: mockUserId,
+            created_at: '2026-03-01T10:00:00Z',
+            changes: { updated_at: { before: 'a', after: 'b' } },
+          },
+        ],
+        error: null,
+      });
+      eq.mockReturnValue({ eq, order });
+      vi.mocked(supabaseAdmin.from).mockReturnValue({ select: vi.fn().mockReturnValue({ eq }) } as never);
+
+      const history = await historyService.getHistory(mockUserId, 'net_worth_accounts', recordId);
+
+      expect(supabaseAdmin.from).toHaveBeenCalledWith('record_history');
+      expect(eq).toHaveBeenCalledWith('user_id', mockUserId);
+      expect(eq).toHaveBeenCalledWith('table_name', 'net_worth_accounts');
+      expect(eq).toHaveBeenCalledWith('record_id', recordId);
+      expect(history).toEqual([
+        {
+          id: 'h-2',
+          table_name: 'net_worth_accounts',
+          record_id: recordId,
+          changed_by: mockUserId,
+          created_at: '2026-03-02T10:00:00Z',
+          changes: [
+            { field: 'balance', before: 1200, after: 900 },
+            { field: 'excludeFromTotal', before: false, after: true },
+          ],
+        },
+      ]);
+    });
+  });
+});
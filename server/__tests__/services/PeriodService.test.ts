@@ -0,0 +1,88 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { PeriodService } from '../../services/PeriodService';
+import { BadRequestError, PeriodClosedError } from '../../middleware/errorHandler';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+import { supabaseAdmin } from '../../lib/supabase';
+
+describe('PeriodService', () => {
+  let periodService: PeriodService;
+  const mockUserId = 'user-123';
+
+  const mockClosedPeriods = (periods: string[]) => {
+    vi.mocked(supabaseAdmin.from).mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({
+          in: vi.fn().mockResolvedValue({ data: periods.map((period) => ({ period })), error: null }),
+        }),
+      }),
+    } as never);
+  };
+
+  beforeEach(() => {
+    periodService = new PeriodService();
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-04-15T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('assertPeriodsOpen', () => {
+    it('throws for a date in a closed month', async () => {
+      mockClosedPeriods(['2026-03']);
+
+      await expect(periodService.assertPeriodsOpen(mockUserId, ['2026-04-01', '2026-03-31'])).rejects.toThrow(PeriodClosedError);
+    });
+
+    it('passes when every month is open', async () => {
+      mockClosedPeriods([]);
+
+      await expect(periodService.assertPeriodsOpen(mockUserId, ['2026-04-01'])).resolves.toBeUndefined();
+    });
+  });
+
+  describe('closePeriod', () => {
+    it('closes an ended month and records the close', async () => {
+      vi.spyOn(periodService, 'getClosedPeriods').mockResolvedValue([]);
+      const closeInsert = vi.fn().mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          single: vi.fn().mockResolvedValue({ data: { id: 'close-1', period: '2026-03' }, error: null }),
+        }),
+      });
+      const eventInsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabaseAdmin.from).mockImplementation((table: string) =>
+        (table === 'period_closes' ? { insert: closeInsert } : { insert: eventInsert }) as never
+      );
+
+      const result = await periodService.closePeriod(mockUserId, '2026-03');
+
+      expect(result.period).toBe('2026-03');
+      expect(eventInsert).toHaveBeenCalledWith(expect.objectContaining({ period: '2026-03', action: 'close' }));
+    });
+
+    it('rejects the current month', async () => {
+      vi.spyOn(periodService, 'getClosedPeriods').mockResolvedValue([]);
+
+      await expect(periodService.closePeriod(mockUserId, '2026-04')).rejects.toThrow(BadRequestError);
+    });
+  });
+
+  describe('reopenPeriod', () => {
+    it('requires a reason', async () => {
+      vi.spyOn(periodService, 'getClosedPeriods').mockResolvedValue([{ period: '2026-03' }] as never);
+
+      await expect(periodService.reopenPeriod(mockUserId, '2026-03', '  ')).rejects.toThrow('A reason is required');
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+  });
+});
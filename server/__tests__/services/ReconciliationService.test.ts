@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ReconciliationService } from '../../services/ReconciliationService';
+import { accountService } from '../../services/AccountService';
+import { BadRequestError } from '../../middleware/errorHandler';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+import { supabaseAdmin } from '../../lib/supabase';
+
+describe('ReconciliationService', () => {
+  let reconciliationService: ReconciliationService;
+  const mockUserId = 'user-123';
+  const mockAccountId = 'account-456';
+
+  // Checking account: 500.00 deposit already reconciled, then a 120.00 payment and a 30.00 fee
+  const postings = [
+    { id: 'p1', amount_cents: 50000, is_debit: true, reconciled: true, transactions: { date: '2026-02-27' } },
+    { id: 'p2', amount_cents: 12000, is_debit: false, reconciled: false, transactions: { date: '2026-03-04' } },
+    { id: 'p3', amount_cents: 3000, is_debit: false, reconciled: false, transactions: { date: '2026-03-20' } },
+  ];
+
+  const mockTables = (postingsUpdate = vi.fn()) => {
+    const reconciliationsInsert = vi.fn().mockReturnValue({
+      select: vi.fn().mockReturnValue({
+        single: vi.fn().mockResolvedValue({
+          data: { id: 'rec-1', account_id: mockAccountId, created_at: '2026-04-01T12:00:00Z' },
+          error: null,
+        }),
+      }),
+    });
+    postingsUpdate.mockReturnValue({ in: vi.fn().mockResolvedValue({ error: null }) });
+
+    vi.mocked(supabaseAdmin.from).mockImplementation((table: string) => {
+      if (table === 'reconciliations') {
+        return { insert: reconciliationsInsert } as never;
+      }
+      return {
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              lte: vi.fn().mockResolvedValue({ data: postings, error: null }),
+            }),
+          }),
+        }),
+        update: postingsUpdate,
+      } as never;
+    });
+
+    return { reconciliationsInsert, postingsUpdate };
+  };
+
+  beforeEach(() => {
+    reconciliationService = new ReconciliationService();
+    vi.clearAllMocks();
+    vi.spyOn(accountService, 'getAccountById').mockResolvedValue({ id: mockAccountId, type: 'asset' } as never);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createReconciliation', () => {
+    it('marks the selected postings reconciled when the statement balances', async () => {
+      const { reconciliationsInsert, postingsUpdate } = mockTables();
+
+      const result = await reconciliationService.createReconciliation(mockUserId, mockAccountId, {
+        statement_date: '2026-03-31',
+        statement_balance_cents: 38000,
+        posting_ids: ['p2'],
+      });
+
+      expect(reconciliationsInsert).toHaveBeenCalledWith(expect.objectContaining({
+        statement_balance_cents: 38000,
+        posting_count: 1,
+      }));
+      expect(postingsUpdate).toHaveBeenCalledWith({
+        reconciled: true,
+        reconciled_at: '2026-04-01T12:00:00Z',
+        reconciliation_id: 'rec-1',
+      });
+      expect(result.posting_ids).toEqual(['p2']);
+    });
+
+    it('rejects a selection that leaves a difference to the statement', async () => {
+      const { reconciliationsInsert } = mockTables();
+
+      await expect(
+        reconciliationService.createReconciliation(mockUserId, mockAccountId, {
+          statement_date: '2026-03-31',
+          statement_balance_cents: 35000,
+          posting_ids: ['p2'],
+        })
+      ).rejects.toThrow(BadRequestError);
+      expect(reconciliationsInsert).not.toHaveBeenCalled();
+    });
+
+    it('rejects postings that are already reconciled', async () => {
+      mockTables();
+
+      await expect(
+        reconciliationService.createReconciliation(mockUserId, mockAccountId, {
+          statement_date: '2026-03-31',
+          statement_balance_cents: 50000,
+          posting_ids: ['p1'],
+        })
+      ).rejects.toThrow('already reconciled');
+    });
+  });
+});
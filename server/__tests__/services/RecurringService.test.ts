@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RecurringService } from '../../services/RecurringService';
+import { BadRequestError } from '../../middleware/errorHandler';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+import { supabaseAdmin } from '../../lib/supabase';
+
+describe('RecurringService', () => {
+  let recurringService: RecurringService;
+  const mockUserId = 'user-123';
+
+  const makeRule = (overrides: Record<string, unknown> = {}) => ({
+    id: 'rule-1',
+    user_id: mockUserId,
+    kind: 'expense',
+    source_id: 'expense-1',
+    description: 'Rent',
+    amount: 10000,
+    currency: 'MXN',
+    rating: 'essential',
+    frequency: 'monthly',
+    day_of_month: 5,
+    start_date: '2025-01-05',
+    end_date: null,
+    skip_dates: [],
+    paused: false,
+    last_generated_date: '2025-01-05',
+    created_at: '2025-01-05T00:00:00Z',
+    updated_at: '2025-01-05T00:00:00Z',
+    ...overrides,
+  });
+
+  const mockRulesQuery = (rules: unknown[]) => {
+    const query = {
+      select: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+      order: vi.fn().mockResolvedValue({ data: rules, error: null }),
+    };
+    vi.mocked(supabaseAdmin.from).mockReturnValueOnce(query as never);
+    return query;
+  };
+
+  const mockUpsertQuery = (created: number) => {
+    const query = {
+      upsert: vi.fn().mockReturnThis(),
+      select: vi.fn().mockResolvedValue({ data: Array.from({ length: created }, (_, i) => ({ id: `row-${i}` })), error: null }),
+    };
+    vi.mocked(supabaseAdmin.from).mockReturnValueOnce(query as never);
+    return query;
+  };
+
+  const mockUpdateQuery = () => {
+    const query = {
+      update: vi.fn().mockReturnThis(),
+      eq: vi.fn().mockReturnThis(),
+    };
+    // Second .eq() resolves the chain
+    query.eq.mockReturnValueOnce(query).mockResolvedValueOnce({ error: null });
+    vi.mocked(supabaseAdmin.from).mockReturnValueOnce(query as never);
+    return query;
+  };
+
+  beforeEach(() => {
+    recurringService = new RecurringService();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('generate', () => {
+    it('inserts occurrences after the last generated date and advances it', async () => {
+      mockRulesQuery([makeRule({ skip_dates: ['2025-03-05'] })]);
+      const upsert = mockUpsertQuery(2);
+      const update = mockUpdateQuery();
+
+      const result = await recurringService.generate(mockUserId, { asOfDate: '2025-04-10' });
+
+      const [rows, options] = upsert.upsert.mock.calls[0];
+      expect(rows.map((row: { date: string }) => row.date)).toEqual(['2025-02-05', '2025-04-05']);
+      expect(rows[0]).toMatchObject({
+        what: 'Rent',
+        recurring: false,
+        recurring_rule_id: 'rule-1',
+        recurring_source_id: 'expense-1',
+        occurrence_date: '2025-02-05',
+      });
+      expect(options).toEqual({ onConflict: 'recurring_rule_id,occurrence_date', ignoreDuplicates: true });
+      expect(update.update).toHaveBeenCalledWith({ last_generated_date: '2025-04-10' });
+      expect(result.expenses_created).toBe(2);
+    });
+
+    it('writes income occurrences as one-time entries', async () => {
+      mockRulesQuery([
+        makeRule({ kind: 'income', rating: null, frequency: 'weekly', day_of_month: null, description: 'Salary' }),
+      ]);
+      const upsert = mockUpsertQuery(1);
+      mockUpdateQuery();
+
+      const result = await recurringService.generate(mockUserId, { asOfDate: '2025-01-12' });
+
+      expect(supabaseAdmin.from).toHaveBeenNthCalledWith(2, 'income');
+      expect(upsert.upsert.mock.calls[0][0]).toEqual([
+        expect.objectContaining({ source: 'Salary', date: '2025-01-12', frequency: 'one-time' }),
+      ]);
+      expect(result.income_created).toBe(1);
+    });
+
+    it('skips paused rules and rules already generated through the date', async () => {
+      mockRulesQuery([
+        makeRule({ paused: true }),
+        makeRule({ id: 'rule-2', last_generated_date: '2025-04-10' }),
+      ]);
+
+      const result = await recurringService.generate(mockUserId, { asOfDate: '2025-04-10' });
+
+      expect(supabaseAdmin.from).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ as_of: '2025-04-10', expenses_created: 0, income_created: 0, rules_processed: 0 });
+    });
+  });
+
+  describe('skipOccurrence', () => {
+    it('rejects dates that are not occurrences of the rule', async () => {
+      const query = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        single: vi.fn().mockResolvedValue({ data: makeRule(), error: null }),
+      };
+      vi.mocked(supabaseAdmin.from).mockReturnValueOnce(query as never);
+
+      await expect(recurringService.skipOccurrence(mockUserId, 'rule-1', '2025-03-06')).rejects.toThrow(BadRequestError);
+    });
+  });
+});
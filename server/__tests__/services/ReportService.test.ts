@@ -86,6 +86,44 @@ describe('ReportService', () => {
       expect(creditCardBalance?.balance_cents).toBe(20000);
     });
 
+    it('orders sub-accounts under their parent and rolls balances up', async () => {
+      const nestedAccounts = [
+        ...mockAccounts,
+        { id: 'acc-1a', name: 'Petty Cash', type: 'asset', code: '1010', currency: 'MXN', parent_id: 'acc-1' },
+      ];
+      const nestedPostings = [
+        ...mockPostings,
+        { account_id: 'acc-1a', amount_cents: 5000, is_debit: true, transactions: { date: '2025-12-02', user_id: mockUserId } },
+        { account_id: 'acc-4', amount_cents: 5000, is_debit: false, transactions: { date: '2025-12-02', user_id: mockUserId } },
+      ];
+
+      const mockAccountsQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        order: vi.fn().mockResolvedValue({ data: nestedAccounts, error: null }),
+      };
+
+      const mockPostingsQuery = {
+        select: vi.fn().mockReturnThis(),
+        eq: vi.fn().mockReturnThis(),
+        lte: vi.fn().mockResolvedValue({ data: nestedPostings, error: null }),
+      };
+
+      vi.mocked(supabaseAdmin.from)
+        .mockReturnValueOnce(mockAccountsQuery as never)
+        .mockReturnValueOnce(mockPostingsQuery as never);
+
+      const result = await reportService.getTrialBalance(mockUserId, '2025-12-31');
+
+      expect(result.accounts.slice(0, 3).map((a) => [a.account_id, a.depth, a.balance_cents, a.subtotal_cents])).toEqual([
+        ['acc-1', 0, 100000, 105000],
+        ['acc-1a', 1, 5000, 5000],
+        ['acc-2', 0, 50000, 50000],
+      ]);
+      // Subtotals are for display; the totals still count each account once
+      expect(result.totals.debits_cents).toBe(185000);
+    });
+
     it('verifies trial balance is balanced (debits = credits)', async () => {
       const mockAccountsQuery = {
         select: vi.fn().mockReturnThis(),
@@ -114,6 +152,101 @@ describe('ReportService', () => {
     });
   });
 
+  describe('foreign currency postings', () => {
+    const fxAccounts = [
+      { id: 'acc-usd', name: 'USD Bank', type: 'asset', code: '1200', currency: 'USD' },
+      { id: 'acc-4', name: 'Opening Balance', type: 'equity', code: '3000', currency: 'MXN' },
+      { id: 'acc-fx', name: 'FX Gain/Loss', type: 'income', code: '4900', currency: 'MXN' },
+    ];
+
+    const mockBalanceQueries = (postings: object[]) => {
+      vi.mocked(supabaseAdmin.from)
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          order: vi.fn().mockResolvedValue({ data: fxAccounts, error: null }),
+        } as never)
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          lte: vi.fn().mockResolvedValue({ data: postings, error: null }),
+        } as never);
+    };
+
+    // USD 1,000 opened at 20.00 MXN, then revalued at 20.50: the asset line carries only a booked amount
+    const openingPostings = [
+      { account_id: 'acc-usd', amount_cents: 100000, booked_amount_cents: 2000000, is_debit: true, transactions: { date: '2025-12-01', user_id: mockUserId } },
+      { account_id: 'acc-4', amount_cents: 2000000, booked_amount_cents: 2000000, is_debit: false, transactions: { date: '2025-12-01', user_id: mockUserId } },
+    ];
+    const revaluationPostings = [
+      { account_id: 'acc-usd', amount_cents: 0, booked_amount_cents: 50000, is_debit: true, transactions: { date: '2025-12-31', user_id: mockUserId } },
+      { account_id: 'acc-fx', amount_cents: 50000, booked_amount_cents: 50000, is_debit: false, transactions: { date: '2025-12-31', user_id: mockUserId } },
+    ];
+
+    it('includes revaluation entries in the trial balance and balance sheet', async () => {
+      mockBalanceQueries([...openingPostings, ...revaluationPostings]);
+      const trialBalance = await reportService.getTrialBalance(mockUserId, '2025-12-31');
+
+      expect(trialBalance.accounts.find((a) => a.account_id === 'acc-usd')?.balance_cents).toBe(2050000);
+      expect(trialBalance.totals).toEqual({ debits_cents: 2050000, credits_cents: 2050000, is_balanced: true });
+
+      mockBalanceQueries([...openingPostings, ...revaluationPostings]);
+      const balanceSheet = await reportService.getBalanceSheet(mockUserId, '2025-12-31');
+
+      expect(balanceSheet.equity.retained_earnings_cents).toBe(50000);
+      expect(balanceSheet.totals.is_balanced).toBe(true);
+    });
+  });
+
+  describe('multi-currency entries', () => {
+    // USD 50.00 of travel at 20.00 MXN charged to a peso card: balanced on booked amounts only
+    const travelPostings = [
+      { account_id: 'acc-travel', amount_cents: 5000, booked_amount_cents: 100000, is_debit: true, transactions: { date: '2025-12-10', user_id: mockUserId } },
+      { account_id: 'acc-3', amount_cents: 100000, booked_amount_cents: 100000, is_debit: false, transactions: { date: '2025-12-10', user_id: mockUserId } },
+    ];
+    const travel = { id: 'acc-travel', name: 'Travel', type: 'expense', code: '5100', currency: 'USD' };
+
+    it('reports balances in the base currency', async () => {
+      vi.mocked(supabaseAdmin.from)
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          order: vi.fn().mockResolvedValue({ data: [mockAccounts[2], travel], error: null }),
+        } as never)
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          lte: vi.fn().mockResolvedValue({ data: travelPostings, error: null }),
+        } as never);
+
+      const result = await reportService.getTrialBalance(mockUserId, '2025-12-31');
+
+      expect(result.accounts.find((a) => a.account_id === 'acc-travel')?.balance_cents).toBe(100000);
+      expect(result.totals).toEqual({ debits_cents: 100000, credits_cents: 100000, is_balanced: true });
+    });
+
+    it('reports income statement amounts in the base currency', async () => {
+      vi.mocked(supabaseAdmin.from)
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          in: vi.fn().mockReturnThis(),
+          order: vi.fn().mockResolvedValue({ data: [travel], error: null }),
+        } as never)
+        .mockReturnValueOnce({
+          select: vi.fn().mockReturnThis(),
+          eq: vi.fn().mockReturnThis(),
+          gte: vi.fn().mockReturnThis(),
+          lte: vi.fn().mockResolvedValue({ data: travelPostings, error: null }),
+        } as never);
+
+      const result = await reportService.getIncomeStatement(mockUserId, '2025-12-01', '2025-12-31');
+
+      expect(result.expenses.total_cents).toBe(100000);
+      expect(result.net_income_cents).toBe(-100000);
+    });
+  });
+
   describe('getBalanceSheet', () => {
     it('returns balance sheet grouped by account type', async () => {
       const mockAccountsQuery = {
@@ -273,41 +406,183 @@ describe('ReportService', () => {
   });
 
   describe('getCashflow', () => {
-    it('returns cashflow summary for a period', async () => {
-      const incomeExpenseAccounts = mockAccounts.filter(a => a.type === 'income' || a.type === 'expense');
-      const incomeExpensePostings = mockPostings.filter(p => p.account_id === 'acc-5' || p.account_id === 'acc-6');
-
+    const mockCashflowQueries = (accounts: unknown[], postings: unknown[]) => {
       const mockAccountsQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
-        in: vi.fn().mockReturnThis(),
-        order: vi.fn().mockResolvedValue({ data: incomeExpenseAccounts, error: null }),
+        order: vi.fn().mockResolvedValue({ data: accounts, error: null }),
       };
 
       const mockPostingsQuery = {
         select: vi.fn().mockReturnThis(),
         eq: vi.fn().mockReturnThis(),
         gte: vi.fn().mockReturnThis(),
-        lte: vi.fn().mockResolvedValue({ data: incomeExpensePostings, error: null }),
+        lte: vi.fn().mockResolvedValue({ data: postings, error: null }),
       };
 
       vi.mocked(supabaseAdmin.from)
         .mockReturnValueOnce(mockAccountsQuery as any)
         .mockReturnValueOnce(mockPostingsQuery as any);
+    };
+
+    const posting = (transactionId: string, accountId: string, amount: number, isDebit: boolean) => ({
+      transaction_id: transactionId,
+      account_id: accountId,
+      amount_cents: amount,
+      booked_amount_cents: amount,
+      is_debit: isDebit,
+      transactions: { date: '2025-12-10', user_id: mockUserId },
+    });
+
+    it('groups cash movements by the nature of the counter-account', async () => {
+      const accounts = [
+        ...mockAccounts,
+        { id: 'acc-7', name: 'Brokerage', type: 'asset', code: '1500', currency: 'MXN' },
+      ];
+      mockCashflowQueries(accounts, [
+        // Salary into the bank
+        posting('tx-1', 'acc-2', 80000, true),
+        posting('tx-1', 'acc-5', 80000, false),
+        // Groceries paid in cash
+        posting('tx-2', 'acc-6', 30000, true),
+        posting('tx-2', 'acc-1', 30000, false),
+        // Credit card paid from the bank
+        posting('tx-3', 'acc-3', 20000, true),
+        posting('tx-3', 'acc-2', 20000, false),
+        // Bank to cash transfer
+        posting('tx-4', 'acc-1', 5000, true),
+        posting('tx-4', 'acc-2', 5000, false),
+        // Card purchase moves no cash
+        posting('tx-5', 'acc-6', 10000, true),
+        posting('tx-5', 'acc-3', 10000, false),
+        // Money moved into the brokerage account
+        posting('tx-6', 'acc-7', 15000, true),
+        posting('tx-6', 'acc-2', 15000, false),
+      ]);
 
       const result = await reportService.getCashflow(mockUserId, '2025-12-01', '2025-12-31');
 
-      expect(result.period.start_date).toBe('2025-12-01');
-      expect(result.period.end_date).toBe('2025-12-31');
+      expect(result.period).toEqual({ start_date: '2025-12-01', end_date: '2025-12-31' });
+      expect(result.operating.accounts.map((line) => [line.account_id, line.net_cents])).toEqual([
+        ['acc-5', 80000],
+        ['acc-6', -30000],
+      ]);
+      expect(result.operating.net_cents).toBe(50000);
+      expect(result.investing.accounts.map((line) => [line.account_id, line.net_cents])).toEqual([['acc-7', -15000]]);
+      expect(result.financing.accounts.map((line) => [line.account_id, line.net_cents])).toEqual([['acc-3', -20000]]);
 
-      // Inflows: 80000
       expect(result.inflows_cents).toBe(80000);
+      expect(result.outflows_cents).toBe(65000);
+      expect(result.net_cashflow_cents).toBe(15000);
+
+      // Net change across cash accounts matches the statement
+      expect(result.cash_accounts).toEqual([
+        { account_id: 'acc-1', account_name: 'Cash', account_code: '1000', net_change_cents: -25000 },
+        { account_id: 'acc-2', account_name: 'Bank', account_code: '1100', net_change_cents: 40000 },
+      ]);
+    });
+
+    it('splits a loan payment into financing principal and operating interest', async () => {
+      const accounts = [
+        ...mockAccounts,
+        { id: 'acc-8', name: 'Car Loan', type: 'liability', code: '2100', currency: 'MXN' },
+        { id: 'acc-9', name: 'Interest Expense', type: 'expense', code: '5100', currency: 'MXN' },
+      ];
+      mockCashflowQueries(accounts, [
+        posting('tx-1', 'acc-8', 40000, true),
+        posting('tx-1', 'acc-9', 10000, true),
+        posting('tx-1', 'acc-2', 50000, false),
+      ]);
+
+      const result = await reportService.getCashflow(mockUserId, '2025-12-01', '2025-12-31');
+
+      expect(result.financing.net_cents).toBe(-40000);
+      expect(result.operating.accounts).toEqual([
+        expect.objectContaining({ account_id: 'acc-9', inflow_cents: 0, outflow_cents: 10000, net_cents: -10000 }),
+      ]);
+      expect(result.net_cashflow_cents).toBe(-50000);
+    });
+  });
 
-      // Outflows: 30000
-      expect(result.outflows_cents).toBe(30000);
+  describe('getComparativeIncomeStatement', () => {
+    const statement = (start: string, end: string, salary: number, groceries: number) => ({
+      period: { start_date: start, end_date: end },
+      income: {
+        accounts: [{ account_id: 'acc-5', account_name: 'Salary', account_code: '4000', currency: 'MXN', amount_cents: salary }],
+        total_cents: salary,
+      },
+      expenses: {
+        accounts: [{ account_id: 'acc-6', account_name: 'Groceries', account_code: '5000', currency: 'MXN', amount_cents: groceries }],
+        total_cents: groceries,
+      },
+      net_income_cents: salary - groceries,
+    });
 
-      // Net cashflow: 50000
-      expect(result.net_cashflow_cents).toBe(50000);
+    it('builds one column per period with variances and trailing-twelve-month totals', async () => {
+      const spy = vi.spyOn(reportService, 'getIncomeStatement').mockImplementation(async (_userId, start, end) => {
+        if (start === '2025-01-01') return statement(start, end!, 960000, 360000);
+        return start === '2025-10-01' ? statement(start, end!, 80000, 40000) : statement(start!, end!, 100000, 30000);
+      });
+
+      const result = await reportService.getComparativeIncomeStatement(mockUserId, {
+        endDate: '2025-12-15',
+        granularity: 'quarter',
+        periods: 2,
+      });
+
+      expect(result.periods).toEqual([
+        { label: '2025-Q3', start_date: '2025-07-01', end_date: '2025-09-30' },
+        { label: '2025-Q4', start_date: '2025-10-01', end_date: '2025-12-31' },
+      ]);
+      expect(result.trailing_twelve_months).toEqual({ label: 'TTM', start_date: '2025-01-01', end_date: '2025-12-31' });
+
+      expect(result.income.lines[0]).toEqual({
+        account_id: 'acc-5',
+        account_name: 'Salary',
+        account_code: '4000',
+        amounts_cents: [100000, 80000],
+        variances: [null, { absolute_cents: -20000, percent: -20 }],
+        ttm_cents: 960000,
+      });
+      expect(result.net_income.amounts_cents).toEqual([70000, 40000]);
+      expect(result.net_income.ttm_cents).toBe(600000);
+      expect(spy).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('getComparativeBalanceSheet', () => {
+    it('compares balances as of each period end', async () => {
+      const balanceOf = (id: string, cents: number) => {
+        const account = mockAccounts.find((a) => a.id === id)!;
+        return {
+          account_id: id,
+          account_name: account.name,
+          account_type: account.type,
+          account_code: account.code,
+          currency: account.currency,
+          balance_cents: cents,
+        };
+      };
+      const sheet = (cash: number, card: number) => ({
+        as_of_date: '',
+        assets: { accounts: [balanceOf('acc-1', cash)], total_cents: cash },
+        liabilities: { accounts: [balanceOf('acc-3', card)], total_cents: card },
+        equity: { accounts: [], total_cents: 0, retained_earnings_cents: cash - card, total_with_retained_cents: cash - card },
+        totals: { total_assets_cents: cash, total_liabilities_equity_cents: cash, is_balanced: true },
+      });
+      const spy = vi.spyOn(reportService, 'getBalanceSheet').mockImplementation(async (_userId, asOfDate) =>
+        asOfDate === '2025-11-30' ? sheet(100000, 20000) : sheet(150000, 0)
+      );
+
+      const result = await reportService.getComparativeBalanceSheet(mockUserId, { endDate: '2025-12-31', periods: 2 });
+
+      expect(spy.mock.calls.map((call) => call[1])).toEqual(['2025-11-30', '2025-12-31']);
+      expect(result.assets.totals).toEqual({
+        amounts_cents: [100000, 150000],
+        variances: [null, { absolute_cents: 50000, percent: 50 }],
+      });
+      expect(result.liabilities.lines[0].variances[1]).toEqual({ absolute_cents: -20000, percent: -100 });
+      expect(result.net_worth.amounts_cents).toEqual([80000, 150000]);
     });
   });
 });
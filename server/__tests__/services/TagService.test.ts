@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TagService } from '../../services/TagService';
+import { ratesService } from '../../services/RatesService';
+import { BadRequestError, ConflictError } from '../../middleware/errorHandler';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+import { supabaseAdmin } from '../../lib/supabase';
+
+describe('TagService', () => {
+  let tagService: TagService;
+  const mockUserId = 'user-123';
+  const trip = { id: 'tag-trip', name: 'japan trip', color: '#3b82f6' };
+  const vacation = { id: 'tag-vacation', name: 'vacation', color: '#10b981' };
+
+  // Entries per table for the rewrite; every other query resolves to an empty result
+  const mockEntries = (rows: Record<string, Array<{ id: string; tags: string[] }>>) => {
+    const entryUpdate = vi.fn().mockReturnValue({
+      eq: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) }),
+    });
+    const tagDelete = vi.fn().mockReturnValue({
+      in: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) }),
+    });
+    vi.mocked(supabaseAdmin.from).mockImplementation((table: string) => {
+      if (table === 'tags') {
+        return { delete: tagDelete } as never;
+      }
+      return {
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            overlaps: vi.fn().mockResolvedValue({ data: rows[table] ?? [], error: null }),
+          }),
+        }),
+        update: entryUpdate,
+      } as never;
+    });
+    return { entryUpdate, tagDelete };
+  };
+
+  beforeEach(() => {
+    tagService = new TagService();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('updateTag', () => {
+    it('rejects a rename to a name that is already taken', async () => {
+      vi.spyOn(tagService, 'getTagById').mockResolvedValue(trip as never);
+      vi.mocked(supabaseAdmin.from).mockReturnValue({
+        select: vi.fn().mockReturnValue({
+          eq: vi.fn().mockReturnValue({
+            eq: vi.fn().mockReturnValue({
+              single: vi.fn().mockResolvedValue({ data: { id: 'tag-vacation' }, error: null }),
+            }),
+          }),
+        }),
+      } as never);
+
+      await expect(tagService.updateTag(mockUserId, trip.id, { name: ' Vacation ' })).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('mergeTags', () => {
+    it('renames the source tags on every entry and deletes them', async () => {
+      vi.spyOn(tagService, 'getTagById').mockImplementation(async (_userId, id) => (id === trip.id ? trip : vacation) as never);
+      const { entryUpdate, tagDelete } = mockEntries({
+        transactions: [{ id: 'tx-1', tags: ['vacation', 'japan trip'] }],
+        expenses: [{ id: 'exp-1', tags: ['food', 'vacation'] }],
+      });
+
+      const result = await tagService.mergeTags(mockUserId, trip.id, [vacation.id]);
+
+      expect(result).toEqual(trip);
+      expect(entryUpdate).toHaveBeenCalledWith({ tags: ['japan trip'] });
+      expect(entryUpdate).toHaveBeenCalledWith({ tags: ['food', 'japan trip'] });
+      expect(tagDelete).toHaveBeenCalled();
+    });
+
+    it('needs another tag to merge', async () => {
+      vi.spyOn(tagService, 'getTagById').mockResolvedValue(trip as never);
+
+      await expect(tagService.mergeTags(mockUserId, trip.id, [trip.id])).rejects.toThrow(BadRequestError);
+    });
+  });
+
+  describe('getTagReport', () => {
+    it('totals tagged expenses and income per tag in the report currency', async () => {
+      vi.spyOn(tagService, 'getTags').mockResolvedValue([trip] as never);
+      vi.spyOn(ratesService, 'getRate').mockResolvedValue(20);
+      const rows: Record<string, unknown[]> = {
+        expenses: [
+          { amount: 1000, currency: 'MXN', tags: ['japan trip'] },
+          { amount: 50, currency: 'USD', tags: ['japan trip', 'food'] },
+        ],
+        income: [{ amount: 300, currency: 'MXN', tags: ['japan trip'] }],
+      };
+      vi.mocked(supabaseAdmin.from).mockImplementation((table: string) => {
+        const query = {
+          eq: vi.fn().mockReturnThis(),
+          neq: vi.fn().mockReturnThis(),
+          gte: vi.fn().mockReturnThis(),
+          lte: vi.fn().mockResolvedValue({ data: rows[table], error: null }),
+        };
+        return { select: vi.fn().mockReturnValue(query) } as never;
+      });
+
+      const report = await tagService.getTagReport(mockUserId, { startDate: '2026-03-01', endDate: '2026-03-31' });
+
+      expect(report.tags).toEqual([
+        { tag: 'japan trip', color: '#3b82f6', expense_cents: 200000, income_cents: 30000, net_cents: -170000, entry_count: 3 },
+        { tag: 'food', color: null, expense_cents: 100000, income_cents: 0, net_cents: -100000, entry_count: 1 },
+      ]);
+    });
+  });
+});
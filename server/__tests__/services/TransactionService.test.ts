@@ -0,0 +1,406 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TransactionService } from '../../services/TransactionService';
+import { periodService } from '../../services/PeriodService';
+import {
+  BadRequestError,
+  UnbalancedTransactionError,
+  ConflictError,
+  PeriodClosedError,
+} from '../../middleware/errorHandler';
+import { supabaseAdmin } from '../../lib/supabase';
+
+// Mock the supabase client
+vi.mock('../../lib/supabase', () => ({
+  supabaseAdmin: {
+    from: vi.fn(),
+  },
+}));
+
+describe('TransactionService', () => {
+  let transactionService: TransactionService;
+  const mockUserId = 'user-123';
+
+  const expenseInput = {
+    date: '2026-03-10',
+    description: 'Expense: Supermarket',
+    amount_cents: 10000,
+    currency: 'MXN',
+    funding_account_id: 'card',
+    expense_account_id: 'groceries',
+  };
+
+  beforeEach(() => {
+    transactionService = new TransactionService();
+    vi.clearAllMocks();
+    vi.spyOn(periodService, 'assertPeriodsOpen').mockResolvedValue();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('createExpenseTransaction', () => {
+    it('debits the expense account and credits the funding account', async () => {
+      const createSpy = vi.spyOn(transactionService, 'createTransaction').mockResolvedValue({} as never);
+
+      await transactionService.createExpenseTransaction(mockUserId, expenseInput);
+
+      expect(createSpy).toHaveBeenCalledWith(mockUserId, expect.objectContaining({
+        transaction_type: 'expense',
+        postings: [
+          { account_id: 'groceries', amount_cents: 10000, currency: 'MXN', is_debit: true },
+          { account_id: 'card', amount_cents: 10000, currency: 'MXN', is_debit: false },
+        ],
+      }));
+    });
+
+    it('posts one debit per split line', async () => {
+      const createSpy = vi.spyOn(transactionService, 'createTransaction').mockResolvedValue({} as never);
+
+      await transactionService.createExpenseTransaction(mockUserId, {
+        ...expenseInput,
+        splits: [{ amount_cents: 7010 }, { amount_cents: 2990, expense_account_id: 'household' }],
+      });
+
+      expect(createSpy.mock.calls[0][1].postings).toEqual([
+        { account_id: 'groceries', amount_cents: 7010, currency: 'MXN', is_debit: true },
+        { account_id: 'household', amount_cents: 2990, currency: 'MXN', is_debit: true },
+        { account_id: 'card', amount_cents: 10000, currency: 'MXN', is_debit: false },
+      ]);
+    });
+
+    it('rejects split lines that do not add up to the total', async () => {
+      const createSpy = vi.spyOn(transactionService, 'createTransaction');
+
+      await expect(
+        transactionService.createExpenseTransaction(mockUserId, {
+          ...expenseInput,
+          splits: [{ amount_cents: 7000 }, { amount_cents: 2990 }],
+        })
+      ).rejects.toThrow(BadRequestError);
+      expect(createSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateExpenseTransaction', () => {
+    it('rebuilds postings keeping the funding account and currency', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue({
+        id: 'tx-1',
+        postings: [
+          { account_id: 'groceries', amount_cents: 10000, currency: 'USD', is_debit: true },
+          { account_id: 'card', amount_cents: 10000, currency: 'USD', is_debit: false },
+        ],
+      } as never);
+      const updateSpy = vi.spyOn(transactionService, 'updateTransaction').mockResolvedValue({} as never);
+
+      await transactionService.updateExpenseTransaction(mockUserId, 'tx-1', {
+        amount_cents: 9000,
+        splits: [{ amount_cents: 6000 }, { amount_cents: 3000, expense_account_id: 'household' }],
+      });
+
+      expect(updateSpy).toHaveBeenCalledWith(mockUserId, 'tx-1', {
+        postings: [
+          { account_id: 'groceries', amount_cents: 6000, currency: 'USD', is_debit: true },
+          { account_id: 'household', amount_cents: 3000, currency: 'USD', is_debit: true },
+          { account_id: 'card', amount_cents: 9000, currency: 'USD', is_debit: false },
+        ],
+      });
+    });
+  });
+
+  describe('createTransaction', () => {
+    // USD 100.00 booked at 17.5 against MXN 1,750.00
+    const multiCurrencyInput = {
+      date: '2026-03-10',
+      description: 'Online purchase',
+      base_currency: 'MXN',
+      postings: [
+        { account_id: 'shopping', amount_cents: 10000, currency: 'USD', is_debit: true, exchange_rate: 17.5, booked_amount_cents: 175000 },
+        { account_id: 'card', amount_cents: 175000, currency: 'MXN', is_debit: false },
+      ],
+    };
+
+    it('balances multi-currency postings on their booked amounts', async () => {
+      const postingsInsert = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabaseAdmin.from).mockImplementation((table: string) => {
+        if (table === 'accounts') {
+          return {
+            select: vi.fn().mockReturnValue({
+              in: vi.fn().mockReturnValue({
+                eq: vi.fn().mockResolvedValue({ data: [{ id: 'shopping' }, { id: 'card' }], error: null }),
+              }),
+            }),
+          } as never;
+        }
+        if (table === 'transactions') {
+          return {
+            insert: vi.fn().mockReturnValue({
+              select: vi.fn().mockReturnValue({
+                single: vi.fn().mockResolvedValue({ data: { id: 'tx-1' }, error: null }),
+              }),
+            }),
+          } as never;
+        }
+        return { insert: postingsInsert } as never;
+      });
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue({} as never);
+
+      await transactionService.createTransaction(mockUserId, multiCurrencyInput);
+
+      expect(postingsInsert).toHaveBeenCalledWith([
+        expect.objectContaining({ account_id: 'shopping', booked_amount_cents: 175000, transaction_id: 'tx-1' }),
+        expect.objectContaining({ account_id: 'card', booked_amount_cents: 175000, transaction_id: 'tx-1' }),
+      ]);
+    });
+
+    it('rejects postings whose booked amounts do not balance', async () => {
+      const [debit, credit] = multiCurrencyInput.postings;
+
+      await expect(
+        transactionService.createTransaction(mockUserId, {
+          ...multiCurrencyInput,
+          postings: [{ ...debit, booked_amount_cents: 170000 }, credit],
+        })
+      ).rejects.toThrow(UnbalancedTransactionError);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reconciled transactions', () => {
+    const reconciledTransaction = {
+      id: 'tx-1',
+      postings: [
+        { account_id: 'groceries', amount_cents: 10000, currency: 'MXN', is_debit: true, reconciled: false },
+        { account_id: 'checking', amount_cents: 10000, currency: 'MXN', is_debit: false, reconciled: true },
+      ],
+    };
+
+    it('blocks changes to postings and date but allows the description', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue(reconciledTransaction as never);
+      vi.mocked(supabaseAdmin.from).mockReturnValue({
+        update: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) }),
+      } as never);
+
+      await expect(
+        transactionService.updateTransaction(mockUserId, 'tx-1', { date: '2026-03-11' })
+      ).rejects.toThrow(ConflictError);
+      await expect(
+        transactionService.updateTransaction(mockUserId, 'tx-1', { description: 'Supermarket (receipt)' })
+      ).resolves.toBeDefined();
+    });
+
+    it('blocks deletion', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue(reconciledTransaction as never);
+
+      await expect(transactionService.deleteTransaction(mockUserId, 'tx-1')).rejects.toThrow(ConflictError);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('void and reverse', () => {
+    const original = {
+      id: 'tx-1',
+      date: '2026-03-10',
+      description: 'Supermarket',
+      reference: null,
+      tags: ['food'],
+      base_currency: 'MXN',
+      transaction_type: 'expense',
+      status: 'posted',
+      reverses_id: null,
+      reversed_by_id: null,
+      postings: [
+        { account_id: 'groceries', amount_cents: 10000, currency: 'MXN', is_debit: true, exchange_rate: null, booked_amount_cents: 10000, reconciled: false },
+        { account_id: 'checking', amount_cents: 10000, currency: 'MXN', is_debit: false, exchange_rate: null, booked_amount_cents: 10000, reconciled: false },
+      ],
+    };
+
+    const mockLinkUpdates = () => {
+      const update = vi.fn().mockReturnValue({
+        eq: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) }),
+      });
+      vi.mocked(supabaseAdmin.from).mockReturnValue({ update } as never);
+      return update;
+    };
+
+    it('voids with an offsetting entry on the original date and marks both voided', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue(original as never);
+      const createSpy = vi.spyOn(transactionService, 'createTransaction').mockResolvedValue({ id: 'tx-2' } as never);
+      const update = mockLinkUpdates();
+
+      await transactionService.voidTransaction(mockUserId, 'tx-1', 'Entered twice');
+
+      expect(createSpy).toHaveBeenCalledWith(mockUserId, expect.objectContaining({
+        date: '2026-03-10',
+        description: 'Void: Supermarket',
+        memo: 'Entered twice',
+        tags: ['food'],
+        postings: [
+          expect.objectContaining({ account_id: 'groceries', amount_cents: 10000, is_debit: false }),
+          expect.objectContaining({ account_id: 'checking', amount_cents: 10000, is_debit: true }),
+        ],
+      }));
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: 'voided', reverses_id: 'tx-1' }));
+      expect(update).toHaveBeenCalledWith(expect.objectContaining({ status: 'voided', reversed_by_id: 'tx-2' }));
+    });
+
+    it('reverses on a later date and leaves the original posted', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue(original as never);
+      const createSpy = vi.spyOn(transactionService, 'createTransaction').mockResolvedValue({ id: 'tx-2' } as never);
+      const update = mockLinkUpdates();
+
+      await transactionService.reverseTransaction(mockUserId, 'tx-1', '2026-04-01');
+
+      expect(createSpy).toHaveBeenCalledWith(mockUserId, expect.objectContaining({ date: '2026-04-01', description: 'Reversal: Supermarket' }));
+      expect(update).toHaveBeenCalledWith({ status: 'posted', voided_at: null, reversed_by_id: 'tx-2' });
+    });
+
+    it('rejects entries that are already cancelled, reconciled or reversed into the past', async () => {
+      const getSpy = vi.spyOn(transactionService, 'getTransactionById');
+
+      getSpy.mockResolvedValue({ ...original, reversed_by_id: 'tx-2' } as never);
+      await expect(transactionService.voidTransaction(mockUserId, 'tx-1')).rejects.toThrow('Transaction has already been reversed');
+
+      getSpy.mockResolvedValue({ ...original, postings: [{ ...original.postings[0], reconciled: true }] } as never);
+      await expect(transactionService.voidTransaction(mockUserId, 'tx-1')).rejects.toThrow(/reverse it instead/);
+
+      getSpy.mockResolvedValue(original as never);
+      await expect(transactionService.reverseTransaction(mockUserId, 'tx-1', '2026-03-01')).rejects.toThrow(ConflictError);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+
+    it('voids the entry behind a removed expense unless it is already cancelled', async () => {
+      const getSpy = vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue({ ...original, status: 'voided' } as never);
+      const voidSpy = vi.spyOn(transactionService, 'voidTransaction');
+
+      await transactionService.voidLinkedTransaction(mockUserId, 'tx-1', 'Expense deleted');
+      expect(voidSpy).not.toHaveBeenCalled();
+
+      getSpy.mockResolvedValue(original as never);
+      vi.mocked(periodService.assertPeriodsOpen).mockRejectedValue(new PeriodClosedError('2026-03'));
+      await expect(transactionService.voidLinkedTransaction(mockUserId, 'tx-1', 'Expense deleted')).rejects.toThrow(PeriodClosedError);
+      expect(voidSpy).toHaveBeenCalledWith(mockUserId, 'tx-1', 'Expense deleted');
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+
+    it('keeps the date and postings of reversed and reversing entries fixed', async () => {
+      const getSpy = vi.spyOn(transactionService, 'getTransactionById');
+      vi.mocked(supabaseAdmin.from).mockReturnValue({
+        update: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) }),
+      } as never);
+
+      getSpy.mockResolvedValue({ ...original, reversed_by_id: 'tx-2' } as never);
+      await expect(transactionService.updateTransaction(mockUserId, 'tx-1', { date: '2026-03-12' })).rejects.toThrow(
+        'Transaction is part of a void or reversal; its date and postings cannot change'
+      );
+
+      getSpy.mockResolvedValue({ ...original, id: 'tx-2', reverses_id: 'tx-1' } as never);
+      await expect(
+        transactionService.updateTransaction(mockUserId, 'tx-2', { postings: original.postings.map((posting) => ({ ...posting, amount_cents: 5000, exchange_rate: undefined, booked_amount_cents: undefined })) })
+      ).rejects.toThrow(ConflictError);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+
+      await expect(transactionService.updateTransaction(mockUserId, 'tx-2', { memo: 'Duplicate charge' })).resolves.toBeDefined();
+    });
+
+    it('keeps linked entries from being deleted', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue({ ...original, reverses_id: 'tx-0' } as never);
+
+      await expect(transactionService.deleteTransaction(mockUserId, 'tx-1')).rejects.toThrow(ConflictError);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('posting history', () => {
+    const food = { id: 'p-1', account_id: 'groceries', amount_cents: 10000, currency: 'MXN', is_debit: true, exchange_rate: null, booked_amount_cents: 10000, reconciled: false };
+    const card = { id: 'p-2', account_id: 'card', amount_cents: 10000, currency: 'MXN', is_debit: false, exchange_rate: null, booked_amount_cents: 10000, reconciled: false };
+
+    const mockTables = () => {
+      const recordHistory = vi.fn().mockResolvedValue({ error: null });
+      vi.mocked(supabaseAdmin.from).mockImplementation(((table: string) => {
+        if (table === 'accounts') {
+          const eq = vi.fn().mockResolvedValue({ data: [{ id: 'dining' }, { id: 'card' }], error: null });
+          return { select: vi.fn().mockReturnValue({ in: vi.fn().mockReturnValue({ eq }) }) };
+        }
+        if (table === 'record_history') return { insert: recordHistory };
+        return {
+          delete: vi.fn().mockReturnValue({ eq: vi.fn().mockResolvedValue({ error: null }) }),
+          insert: vi.fn().mockResolvedValue({ error: null }),
+        };
+      }) as never);
+      return recordHistory;
+    };
+
+    it('records an edit that replaces the postings with the old and the new lines', async () => {
+      const dining = { ...food, id: 'p-3', account_id: 'dining', amount_cents: 12000, booked_amount_cents: 12000 };
+      const newCard = { ...card, id: 'p-4', amount_cents: 12000, booked_amount_cents: 12000 };
+      vi.spyOn(transactionService, 'getTransactionById')
+        .mockResolvedValueOnce({ id: 'tx-1', date: '2026-03-10', status: 'posted', postings: [food, card] } as never)
+        .mockResolvedValueOnce({ id: 'tx-1', date: '2026-03-10', status: 'posted', postings: [dining, newCard] } as never);
+      const recordHistory = mockTables();
+
+      await transactionService.updateTransaction(mockUserId, 'tx-1', {
+        postings: [
+          { account_id: 'dining', amount_cents: 12000, currency: 'MXN', is_debit: true },
+          { account_id: 'card', amount_cents: 12000, currency: 'MXN', is_debit: false },
+        ],
+      });
+
+      expect(recordHistory).toHaveBeenCalledWith({
+        user_id: mockUserId,
+        table_name: 'transactions',
+        record_id: 'tx-1',
+        changed_by: mockUserId,
+        changes: { postings: { before: [food, card], after: [dining, newCard] } },
+      });
+    });
+
+    it('skips postings resubmitted unchanged', async () => {
+      vi.spyOn(transactionService, 'getTransactionById')
+        .mockResolvedValueOnce({ id: 'tx-1', date: '2026-03-10', status: 'posted', postings: [food, card] } as never)
+        .mockResolvedValueOnce({ id: 'tx-1', date: '2026-03-10', status: 'posted', postings: [{ ...food, id: 'p-3' }, { ...card, id: 'p-4' }] } as never);
+      const recordHistory = mockTables();
+
+      await transactionService.updateTransaction(mockUserId, 'tx-1', {
+        postings: [
+          { account_id: 'groceries', amount_cents: 10000, currency: 'MXN', is_debit: true },
+          { account_id: 'card', amount_cents: 10000, currency: 'MXN', is_debit: false },
+        ],
+      });
+
+      expect(recordHistory).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('closed periods', () => {
+    it('rejects tag and income amount changes in a closed month', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue({
+        id: 'tx-1',
+        date: '2026-03-10',
+        status: 'posted',
+        postings: [
+          { account_id: 'checking', amount_cents: 10000, currency: 'MXN', is_debit: true, reconciled: false },
+          { account_id: 'salary', amount_cents: 10000, currency: 'MXN', is_debit: false, reconciled: false },
+        ],
+      } as never);
+      vi.mocked(periodService.assertPeriodsOpen).mockRejectedValue(new PeriodClosedError('2026-03'));
+
+      await expect(transactionService.updateTransaction(mockUserId, 'tx-1', { tags: ['food'] })).rejects.toThrow(PeriodClosedError);
+      await expect(
+        transactionService.updateIncomeTransaction(mockUserId, 'tx-1', { amount_cents: 12000 })
+      ).rejects.toThrow(PeriodClosedError);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+
+    it('rejects moving a transaction into a closed month', async () => {
+      vi.spyOn(transactionService, 'getTransactionById').mockResolvedValue({ id: 'tx-1', date: '2026-04-02', postings: [] } as never);
+      const assertSpy = vi.spyOn(periodService, 'assertPeriodsOpen').mockRejectedValue(new PeriodClosedError('2026-03'));
+
+      await expect(
+        transactionService.updateTransaction(mockUserId, 'tx-1', { date: '2026-03-31' })
+      ).rejects.toThrow(PeriodClosedError);
+      expect(assertSpy).toHaveBeenCalledWith(mockUserId, ['2026-04-02', '2026-03-31']);
+      expect(supabaseAdmin.from).not.toHaveBeenCalled();
+    });
+  });
+});
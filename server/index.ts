@@ -15,6 +15,13 @@ import incomeRouter from './routes/income';
 import expensesRouter from './routes/expenses';
 import reportsRouter from './routes/reports';
 import ratesRouter from './routes/rates';
+import budgetsRouter from './routes/budgets';
+import recurringRouter from './routes/recurring';
+import categorizationRulesRouter from './routes/categorizationRules';
+import periodsRouter from './routes/periods';
+import fxRevaluationsRouter from './routes/fxRevaluations';
+import tagsRouter from './routes/tags';
+import historyRouter from './routes/history';
 import adminRouter from './routes/admin';
 
 const app = express();
@@ -40,6 +47,13 @@ app.use('/api/income', incomeRouter);
 app.use('/api/expenses', expensesRouter);
 app.use('/api/reports', reportsRouter);
 app.use('/api/rates', ratesRouter);
+app.use('/api/budgets', budgetsRouter);
+app.use('/api/recurring', recurringRouter);
+app.use('/api/categorization-rules', categorizationRulesRouter);
+app.use('/api/periods', periodsRouter);
+app.use('/api/fx-revaluations', fxRevaluationsRouter);
+app.use('/api/tags', tagsRouter);
+app.use('/api/history', historyRouter);
 app.use('/api/admin', adminRouter);
 
 // Error handler (must be last)
@@ -83,9 +97,46 @@ app.listen(PORT, () => {
   console.log('  GET  /api/reports/balance-sheet');
   console.log('  GET  /api/reports/income-statement');
   console.log('  GET  /api/reports/account-balances');
+  console.log('  GET  /api/reports/cashflow');
+  console.log('  GET  /api/reports/comparative/income-statement');
+  console.log('  GET  /api/reports/comparative/balance-sheet');
+  console.log('  GET  /api/reports/tags');
   console.log('  GET  /api/rates');
   console.log('  POST /api/rates/refresh');
   console.log('  GET  /api/rates/convert');
+  console.log('  GET  /api/budgets');
+  console.log('  POST /api/budgets');
+  console.log('  GET  /api/budgets/status');
+  console.log('  GET  /api/budgets/:id');
+  console.log('  PUT  /api/budgets/:id');
+  console.log('  DELETE /api/budgets/:id');
+  console.log('  GET  /api/recurring');
+  console.log('  POST /api/recurring');
+  console.log('  POST /api/recurring/generate');
+  console.log('  GET  /api/recurring/:id');
+  console.log('  GET  /api/recurring/:id/preview');
+  console.log('  PUT  /api/recurring/:id');
+  console.log('  POST /api/recurring/:id/skip');
+  console.log('  POST /api/recurring/:id/pause');
+  console.log('  POST /api/recurring/:id/resume');
+  console.log('  DELETE /api/recurring/:id');
+  console.log('  GET  /api/categorization-rules');
+  console.log('  POST /api/categorization-rules');
+  console.log('  POST /api/categorization-rules/apply');
+  console.log('  GET  /api/categorization-rules/:id');
+  console.log('  PUT  /api/categorization-rules/:id');
+  console.log('  DELETE /api/categorization-rules/:id');
+  console.log('  GET  /api/periods');
+  console.log('  POST /api/periods/:period/close');
+  console.log('  POST /api/periods/:period/reopen');
+  console.log('  GET  /api/fx-revaluations');
+  console.log('  POST /api/fx-revaluations');
+  console.log('  GET  /api/tags');
+  console.log('  POST /api/tags');
+  console.log('  PUT  /api/tags/:id');
+  console.log('  POST /api/tags/:id/merge');
+  console.log('  DELETE /api/tags/:id');
+  console.log('  GET  /api/history/:table/:id');
   console.log('  --- Admin Routes ---');
   console.log('  GET    /api/admin/users');
   console.log('  POST   /api/admin/users');
@@ -53,6 +53,12 @@ export class UnbalancedTransactionError extends AppError {
   }
 }
 
+export class PeriodClosedError extends AppError {
+  constructor(period: string) {
+    super(409, 'PERIOD_CLOSED', `Period ${period} is closed; reopen it before changing its transactions`);
+  }
+}
+
 export function errorHandler(
   error: Error,
   _req: Request,
@@ -2,8 +2,8 @@ import { Router, type Response, type NextFunction } from 'express';
 import { z } from 'zod';
 import type { AuthenticatedRequest } from '../types';
 import { authMiddleware } from '../middleware/auth';
-import { validate, validateParams, validateQuery, idParamSchema, paginationSchema } from '../middleware/validation';
-import { accountService } from '../services';
+import { validate, validateParams, validateQuery, idParamSchema, paginationSchema, dateRangeSchema } from '../middleware/validation';
+import { accountService, reconciliationService } from '../services';
 
 const router = Router();
 
@@ -13,6 +13,7 @@ const createAccountSchema = z.object({
   type: z.enum(['asset', 'liability', 'equity', 'income', 'expense']),
   code: z.string().min(1, 'Code is required').max(20),
   currency: z.string().length(3).default('MXN'),
+  parent_id: z.string().uuid().nullable().optional(),
   is_active: z.boolean().default(true),
 });
 
@@ -21,9 +22,16 @@ const updateAccountSchema = z.object({
   type: z.enum(['asset', 'liability', 'equity', 'income', 'expense']).optional(),
   code: z.string().min(1).max(20).optional(),
   currency: z.string().length(3).optional(),
+  parent_id: z.string().uuid().nullable().optional(),
   is_active: z.boolean().optional(),
 });
 
+const createReconciliationSchema = z.object({
+  statement_date: z.string().date(),
+  statement_balance_cents: z.number().int(),
+  posting_ids: z.array(z.string().uuid()).max(1000),
+});
+
 const listAccountsQuerySchema = paginationSchema.extend({
   type: z.enum(['asset', 'liability', 'equity', 'income', 'expense']).optional(),
   is_active: z.coerce.boolean().optional(),
@@ -124,4 +132,54 @@ router.get(
   }
 );
 
+// GET /api/accounts/:id/register - Get account postings with running balance
+router.get(
+  '/:id/register',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validateQuery(dateRangeSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const register = await accountService.getAccountRegister(req.userId, req.params.id, {
+        startDate: req.query.startDate as string | undefined,
+        endDate: req.query.endDate as string | undefined,
+      });
+      res.json(register);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/accounts/:id/reconciliations - Get reconciliation history
+router.get(
+  '/:id/reconciliations',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const reconciliations = await reconciliationService.getReconciliations(req.userId, req.params.id);
+      res.json(reconciliations);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/accounts/:id/reconciliations - Reconcile postings against a statement
+router.post(
+  '/:id/reconciliations',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(createReconciliationSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const reconciliation = await reconciliationService.createReconciliation(req.userId, req.params.id, req.body);
+      res.status(201).json(reconciliation);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,132 @@
+import { Router, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { validate, validateParams, validateQuery, idParamSchema } from '../middleware/validation';
+import { budgetService } from '../services';
+
+const router = Router();
+
+const monthSchema = z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Month must be YYYY-MM');
+
+// Validation schemas
+const createBudgetSchema = z
+  .object({
+    name: z.string().min(1, 'Name is required').max(100),
+    scope: z.enum(['category', 'rating']),
+    category: z.string().min(1).max(100).optional(),
+    rating: z.enum(['essential', 'discretionary', 'luxury']).optional(),
+    monthly_limit: z.number().positive('Limit must be positive'),
+    currency: z.string().length(3).default('MXN'),
+    rollover: z.boolean().default(false),
+    start_month: monthSchema,
+  })
+  .refine((data) => (data.scope === 'category' ? !!data.category : !!data.rating), {
+    message: 'Category budgets require a category, rating budgets require a rating',
+    path: ['scope'],
+  });
+
+const updateBudgetSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  monthly_limit: z.number().positive().optional(),
+  currency: z.string().length(3).optional(),
+  rollover: z.boolean().optional(),
+  start_month: monthSchema.optional(),
+});
+
+const statusQuerySchema = z.object({
+  month: monthSchema.optional(),
+});
+
+// GET /api/budgets - List all budgets for user
+router.get(
+  '/',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const budgets = await budgetService.getBudgets(req.userId);
+      res.json(budgets);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/budgets/status - Spent vs limit for a month (defaults to current month)
+router.get(
+  '/status',
+  authMiddleware,
+  validateQuery(statusQuerySchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const month = (req.query.month as string) || new Date().toISOString().slice(0, 7);
+      const result = await budgetService.getBudgetStatus(req.userId, month);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/budgets/:id - Get single budget
+router.get(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const budget = await budgetService.getBudgetById(req.userId, req.params.id);
+      res.json(budget);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/budgets - Create budget
+router.post(
+  '/',
+  authMiddleware,
+  validate(createBudgetSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const budget = await budgetService.createBudget(req.userId, req.body);
+      res.status(201).json(budget);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/budgets/:id - Update budget
+router.put(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(updateBudgetSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const budget = await budgetService.updateBudget(req.userId, req.params.id, req.body);
+      res.json(budget);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/budgets/:id - Delete budget
+router.delete(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      await budgetService.deleteBudget(req.userId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,139 @@
+import { Router, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { validate, validateParams, idParamSchema } from '../middleware/validation';
+import { categorizationService } from '../services';
+
+const router = Router();
+
+// Validation schemas
+const ruleFields = {
+  name: z.string().min(1, 'Name is required').max(100),
+  priority: z.number().int().min(0).max(10000),
+  enabled: z.boolean(),
+  description_pattern: z.string().min(1).max(200).nullable(),
+  min_amount: z.number().nonnegative().nullable(),
+  max_amount: z.number().nonnegative().nullable(),
+  currency: z.string().length(3).nullable(),
+  account_id: z.string().uuid().nullable(),
+  category: z.string().min(1).max(100).nullable(),
+  subcategory: z.string().min(1).max(100).nullable(),
+  rating: z.enum(['essential', 'discretionary', 'luxury']).nullable(),
+  recurring: z.boolean().nullable(),
+};
+
+const createRuleSchema = z.object({
+  name: ruleFields.name,
+  priority: ruleFields.priority.optional(),
+  enabled: ruleFields.enabled.optional(),
+  description_pattern: ruleFields.description_pattern.optional(),
+  min_amount: ruleFields.min_amount.optional(),
+  max_amount: ruleFields.max_amount.optional(),
+  currency: ruleFields.currency.optional(),
+  account_id: ruleFields.account_id.optional(),
+  category: ruleFields.category.optional(),
+  subcategory: ruleFields.subcategory.optional(),
+  rating: ruleFields.rating.optional(),
+  recurring: ruleFields.recurring.optional(),
+});
+
+const updateRuleSchema = createRuleSchema.partial();
+
+const applyRulesSchema = z.object({
+  startDate: z.string().date().optional(),
+  endDate: z.string().date().optional(),
+  onlyUncategorized: z.boolean().optional(),
+});
+
+// GET /api/categorization-rules - List rules in the order they are applied
+router.get(
+  '/',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rules = await categorizationService.getRules(req.userId);
+      res.json(rules);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/categorization-rules/apply - Re-run rules over existing expenses
+router.post(
+  '/apply',
+  authMiddleware,
+  validate(applyRulesSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await categorizationService.applyToHistory(req.userId, req.body);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/categorization-rules/:id - Get single rule
+router.get(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await categorizationService.getRuleById(req.userId, req.params.id);
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/categorization-rules - Create rule
+router.post(
+  '/',
+  authMiddleware,
+  validate(createRuleSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await categorizationService.createRule(req.userId, req.body);
+      res.status(201).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/categorization-rules/:id - Update rule
+router.put(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(updateRuleSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await categorizationService.updateRule(req.userId, req.params.id, req.body);
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/categorization-rules/:id - Delete rule
+router.delete(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      await categorizationService.deleteRule(req.userId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -12,17 +12,47 @@ import {
 } from '../middleware/validation';
 import { supabaseAdmin } from '../lib/supabase';
 import { NotFoundError, BadRequestError } from '../middleware/errorHandler';
+import { categorizationService, periodService, transactionService } from '../services';
+import { ExpenseSplitter } from '../../src/domain/splits';
 
 const router = Router();
 
 // Validation schemas
+const splitSchema = z.object({
+  amount: z.number().positive('Split amount must be positive'),
+  rating: z.enum(['essential', 'discretionary', 'luxury']),
+  category: z.string().max(100).optional(),
+  subcategory: z.string().max(100).optional(),
+  note: z.string().max(255).optional(),
+  expense_account_id: z.string().uuid().optional(), // Ledger account for this line; defaults to the expense account
+});
+
+type SplitInput = z.infer<typeof splitSchema>;
+
+const tagsSchema = z.array(z.string().min(1).max(50)).max(20);
+
+// Split lines must add up to the expense amount
+const assertValidSplits = (amount: number, splits: SplitInput[]): void => {
+  const splitError = ExpenseSplitter.validate(amount, splits);
+  if (splitError) throw new BadRequestError(splitError);
+};
+
+const toSplitPostings = (splits: SplitInput[]) =>
+  ExpenseSplitter.toCents(splits).map((amount_cents, i) => ({
+    amount_cents,
+    expense_account_id: splits[i].expense_account_id,
+  }));
+
 const createExpenseSchema = z.object({
   what: z.string().min(1, 'Description is required').max(255),
   amount: z.number().positive('Amount must be positive'),
+  currency: z.string().length(3).optional(),
   rating: z.enum(['essential', 'non_essential', 'luxury']),
   date: z.string().date(),
   category: z.string().max(100).optional(),
   subcategory: z.string().max(100).optional(),
+  splits: z.array(splitSchema).optional(),
+  tags: tagsSchema.optional(),
   funding_account_id: z.string().uuid().optional(),
   expense_account_id: z.string().uuid().optional(),
 });
@@ -34,45 +64,16 @@ const updateExpenseSchema = z.object({
   date: z.string().date().optional(),
   category: z.string().max(100).optional(),
   subcategory: z.string().max(100).optional(),
+  splits: z.array(splitSchema).optional(), // An empty list removes the split
+  tags: tagsSchema.optional(),
 });
 
 const listExpensesQuerySchema = paginationSchema.merge(dateRangeSchema).extend({
   rating: z.enum(['essential', 'non_essential', 'luxury']).optional(),
   category: z.string().optional(),
+  subcategory: z.string().optional(),
 });
 
-// Helper: Keyword-based categorization (fallback)
-function categorizeExpenseByKeyword(description: string) {
-  const lower = description.toLowerCase();
-
-  if (lower.includes('coffee') || lower.includes('starbucks') || lower.includes('dunkin')) {
-    return { category: 'Food & Dining', subcategory: 'Coffee & Tea', confidence: 0.95, explanation: 'Detected coffee-related keyword' };
-  }
-  if (lower.includes('uber') || lower.includes('lyft') || lower.includes('taxi')) {
-    return { category: 'Transportation', subcategory: 'Ride Share', confidence: 0.95, explanation: 'Detected ride-sharing service' };
-  }
-  if (lower.includes('amazon') || lower.includes('walmart') || lower.includes('target')) {
-    return { category: 'Shopping', subcategory: 'General', confidence: 0.85, explanation: 'Detected retail store' };
-  }
-  if (lower.includes('restaurant') || lower.includes('food') || lower.includes('lunch') || lower.includes('dinner')) {
-    return { category: 'Food & Dining', subcategory: 'Restaurants', confidence: 0.9, explanation: 'Detected food-related keyword' };
-  }
-  if (lower.includes('rent') || lower.includes('mortgage')) {
-    return { category: 'Bills & Utilities', subcategory: 'Rent/Mortgage', confidence: 0.95, explanation: 'Detected housing payment' };
-  }
-  if (lower.includes('gym') || lower.includes('fitness')) {
-    return { category: 'Healthcare', subcategory: 'Fitness', confidence: 0.9, explanation: 'Detected fitness-related keyword' };
-  }
-  if (lower.includes('electric') || lower.includes('gas') || lower.includes('water') || lower.includes('utility')) {
-    return { category: 'Bills & Utilities', subcategory: 'Utilities', confidence: 0.9, explanation: 'Detected utility payment' };
-  }
-  if (lower.includes('grocery') || lower.includes('supermarket') || lower.includes('market')) {
-    return { category: 'Food & Dining', subcategory: 'Groceries', confidence: 0.9, explanation: 'Detected grocery store' };
-  }
-
-  return { category: 'Other', subcategory: 'Miscellaneous', confidence: 0.5, explanation: 'Could not determine specific category' };
-}
-
 // GET /api/expenses - List expenses
 router.get(
   '/',
@@ -80,7 +81,7 @@ router.get(
   validateQuery(listExpensesQuerySchema),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const { page, limit, startDate, endDate, rating, category } = req.query as any;
+      const { page, limit, startDate, endDate, rating, category, subcategory } = req.query as any;
       const offset = (page - 1) * limit;
 
       let query = supabaseAdmin
@@ -105,6 +106,10 @@ router.get(
         query = query.eq('category', category);
       }
 
+      if (subcategory) {
+        query = query.eq('subcategory', subcategory);
+      }
+
       query = query.range(offset, offset + limit - 1);
 
       const { data, error, count } = await query;
@@ -162,71 +167,40 @@ router.post(
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
       const { funding_account_id, expense_account_id, ...expenseData } = req.body;
+      const splits: SplitInput[] = expenseData.splits ?? [];
       let transactionId: string | null = null;
 
-      // Convert amount to cents for transaction
-      const amountCents = Math.round(expenseData.amount * 100);
+      assertValidSplits(expenseData.amount, splits);
 
-      // If accounts provided, create a double-entry transaction
+      // If accounts provided, create a double-entry transaction with one debit per split line
       if (funding_account_id && expense_account_id) {
-        // Verify accounts belong to user
-        const { data: accounts, error: accountsError } = await supabaseAdmin
-          .from('accounts')
-          .select('id, type')
-          .in('id', [funding_account_id, expense_account_id])
-          .eq('user_id', req.userId);
-
-        if (accountsError) throw accountsError;
-
-        if (!accounts || accounts.length !== 2) {
-          throw new BadRequestError('One or more accounts not found');
-        }
-
-        // Create transaction
-        const { data: transaction, error: txError } = await supabaseAdmin
-          .from('transactions')
-          .insert({
-            user_id: req.userId,
-            date: expenseData.date,
-            description: `Expense: ${expenseData.what}`,
-            transaction_type: 'expense',
-          })
-          .select()
-          .single();
-
-        if (txError) throw txError;
+        const transaction = await transactionService.createExpenseTransaction(req.userId, {
+          date: expenseData.date,
+          description: `Expense: ${expenseData.what}`,
+          amount_cents: Math.round(expenseData.amount * 100),
+          currency: expenseData.currency || 'MXN',
+          funding_account_id,
+          expense_account_id,
+          splits: toSplitPostings(splits),
+          tags: expenseData.tags,
+        });
         transactionId = transaction.id;
-
-        // Create postings (debit expense, credit asset/liability)
-        const { error: postingsError } = await supabaseAdmin.from('postings').insert([
-          {
-            transaction_id: transactionId,
-            account_id: expense_account_id,
-            amount_cents: amountCents,
-            currency: 'MXN',
-            is_debit: true,
-          },
-          {
-            transaction_id: transactionId,
-            account_id: funding_account_id,
-            amount_cents: amountCents,
-            currency: 'MXN',
-            is_debit: false,
-          },
-        ]);
-
-        if (postingsError) {
-          // Rollback transaction
-          await supabaseAdmin.from('transactions').delete().eq('id', transactionId);
-          throw postingsError;
-        }
       }
 
+      // Apply the user's categorization rules; a matching rule wins over submitted values
+      const categorization = await categorizationService.getCategorizationFields(req.userId, {
+        description: expenseData.what,
+        amount: expenseData.amount,
+        currency: expenseData.currency || 'MXN',
+        accountId: funding_account_id || null,
+      });
+
       // Create expense entry
       const { data, error } = await supabaseAdmin
         .from('expenses')
         .insert({
           ...expenseData,
+          ...categorization,
           user_id: req.userId,
           transaction_id: transactionId,
         })
@@ -234,9 +208,9 @@ router.post(
         .single();
 
       if (error) {
-        // Rollback transaction if expense creation fails
+        // Void the transaction if expense creation fails
         if (transactionId) {
-          await supabaseAdmin.from('transactions').delete().eq('id', transactionId);
+          await transactionService.voidLinkedTransaction(req.userId, transactionId, 'Expense could not be saved');
         }
         throw error;
       }
@@ -248,49 +222,23 @@ router.post(
   }
 );
 
-// POST /api/expenses/:id/categorize - AI categorization
+// POST /api/expenses/:id/categorize - Apply categorization rules to one expense
 router.post(
   '/:id/categorize',
   authMiddleware,
   validateParams(idParamSchema),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      const { id } = req.params;
-
-      // Get the expense
-      const { data: expense, error: findError } = await supabaseAdmin
-        .from('expenses')
-        .select('what')
-        .eq('id', id)
-        .eq('user_id', req.userId)
-        .single();
-
-      if (findError && findError.code === 'PGRST116') {
-        throw new NotFoundError('Expense', id);
-      }
-      if (findError) throw findError;
-
-      // Categorize using keyword matching (can be extended with AI later)
-      const categorization = categorizeExpenseByKeyword(expense.what);
-
-      // Update the expense
-      const { data, error } = await supabaseAdmin
-        .from('expenses')
-        .update({
-          category: categorization.category,
-          subcategory: categorization.subcategory,
-          confidence: categorization.confidence,
-          explanation: categorization.explanation,
-        })
-        .eq('id', id)
-        .select()
-        .single();
-
-      if (error) throw error;
+      const { categorization, expense } = await categorizationService.categorizeExpense(req.userId, req.params.id);
 
       res.json({
-        ...categorization,
-        expense: data,
+        matched: categorization !== null,
+        rule_id: categorization?.ruleId ?? null,
+        category: categorization?.category ?? expense.category,
+        subcategory: categorization?.subcategory ?? expense.subcategory,
+        confidence: categorization?.confidence ?? expense.confidence,
+        explanation: categorization?.explanation ?? 'No categorization rule matched',
+        expense,
       });
     } catch (error) {
       next(error);
@@ -311,7 +259,7 @@ router.put(
       // Verify expense exists and belongs to user
       const { data: existing, error: findError } = await supabaseAdmin
         .from('expenses')
-        .select('id, transaction_id')
+        .select('id, transaction_id, amount, date, splits')
         .eq('id', id)
         .eq('user_id', req.userId)
         .single();
@@ -321,6 +269,33 @@ router.put(
       }
       if (findError) throw findError;
 
+      // Neither the current nor the new date may fall in a closed period
+      await periodService.assertPeriodsOpen(req.userId, req.body.date ? [existing.date, req.body.date] : [existing.date]);
+
+      // The linked transaction carries the same date and tags
+      const ledgerChanges = {
+        ...(req.body.date !== undefined && { date: req.body.date as string }),
+        ...(req.body.tags !== undefined && { tags: req.body.tags as string[] }),
+      };
+
+      // If amount or split lines changed, they must still add up and the
+      // linked transaction's postings are rebuilt to match
+      if (req.body.amount !== undefined || req.body.splits !== undefined) {
+        const amount: number = req.body.amount ?? Number(existing.amount);
+        const splits: SplitInput[] = req.body.splits ?? ((existing.splits ?? []) as unknown as SplitInput[]);
+        assertValidSplits(amount, splits);
+
+        if (existing.transaction_id) {
+          await transactionService.updateExpenseTransaction(req.userId, existing.transaction_id, {
+            amount_cents: Math.round(amount * 100),
+            splits: toSplitPostings(splits),
+            ...ledgerChanges,
+          });
+        }
+      } else if (Object.keys(ledgerChanges).length > 0 && existing.transaction_id) {
+        await transactionService.updateTransaction(req.userId, existing.transaction_id, ledgerChanges);
+      }
+
       // Update expense
       const { data, error } = await supabaseAdmin
         .from('expenses')
@@ -331,17 +306,6 @@ router.put(
 
       if (error) throw error;
 
-      // If amount changed and there's a linked transaction, update postings
-      if (req.body.amount && existing.transaction_id) {
-        const amountCents = Math.round(req.body.amount * 100);
-        const { error: postingsError } = await supabaseAdmin
-          .from('postings')
-          .update({ amount_cents: amountCents })
-          .eq('transaction_id', existing.transaction_id);
-
-        if (postingsError) throw postingsError;
-      }
-
       res.json(data);
     } catch (error) {
       next(error);
@@ -371,6 +335,11 @@ router.delete(
       }
       if (findError) throw findError;
 
+      // Void the linked transaction first; the expense stays when its period is closed or it is reconciled
+      if (expense.transaction_id) {
+        await transactionService.voidLinkedTransaction(req.userId, expense.transaction_id, 'Expense deleted');
+      }
+
       // Delete expense
       const { error } = await supabaseAdmin
         .from('expenses')
@@ -379,14 +348,6 @@ router.delete(
 
       if (error) throw error;
 
-      // Delete linked transaction if exists
-      if (expense.transaction_id) {
-        await supabaseAdmin
-          .from('transactions')
-          .delete()
-          .eq('id', expense.transaction_id);
-      }
-
       res.status(204).send();
     } catch (error) {
       next(error);
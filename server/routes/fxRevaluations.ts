@@ -0,0 +1,47 @@
+import { Router, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { fxRevaluationService } from '../services';
+
+const router = Router();
+
+// Validation schemas
+const revalueSchema = z.object({
+  date: z.string().date(),
+  base_currency: z.string().length(3).default('MXN'),
+  gain_loss_account_id: z.string().uuid(),
+  dry_run: z.boolean().default(false),
+});
+
+// GET /api/fx-revaluations - List past revaluation runs
+router.get(
+  '/',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const revaluations = await fxRevaluationService.getRevaluations(req.userId);
+      res.json(revaluations);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/fx-revaluations - Revalue foreign balances (dry_run previews the report)
+router.post(
+  '/',
+  authMiddleware,
+  validate(revalueSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const report = await fxRevaluationService.revalue(req.userId, req.body);
+      res.status(report.transaction_id ? 201 : 200).json(report);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,32 @@
+import { Router, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { validateParams } from '../middleware/validation';
+import { historyService } from '../services';
+import { HISTORY_TABLES, type HistoryTable } from '../../src/domain/history';
+
+const router = Router();
+
+// Validation schemas
+const recordParamSchema = z.object({
+  table: z.enum(HISTORY_TABLES as [HistoryTable, ...HistoryTable[]]),
+  id: z.string().uuid(),
+});
+
+// GET /api/history/:table/:id - Edit history of a record, newest first
+router.get(
+  '/:table/:id',
+  authMiddleware,
+  validateParams(recordParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const history = await historyService.getHistory(req.userId, req.params.table as HistoryTable, req.params.id);
+      res.json(history);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -11,11 +11,14 @@ import {
   dateRangeSchema,
 } from '../middleware/validation';
 import { supabaseAdmin } from '../lib/supabase';
-import { NotFoundError, BadRequestError } from '../middleware/errorHandler';
+import { NotFoundError } from '../middleware/errorHandler';
+import { periodService, transactionService } from '../services';
 
 const router = Router();
 
 // Validation schemas
+const tagsSchema = z.array(z.string().min(1).max(50)).max(20);
+
 const createIncomeSchema = z.object({
   source: z.string().min(1, 'Source is required').max(255),
   amount_cents: z.number().int().positive('Amount must be positive'),
@@ -24,6 +27,7 @@ const createIncomeSchema = z.object({
   category: z.string().max(100).optional(),
   is_recurring: z.boolean().default(false),
   recurrence_interval: z.enum(['weekly', 'biweekly', 'monthly', 'yearly']).optional(),
+  tags: tagsSchema.optional(),
   deposit_account_id: z.string().uuid().optional(),
   income_account_id: z.string().uuid().optional(),
 });
@@ -36,6 +40,7 @@ const updateIncomeSchema = z.object({
   category: z.string().max(100).optional(),
   is_recurring: z.boolean().optional(),
   recurrence_interval: z.enum(['weekly', 'biweekly', 'monthly', 'yearly']).optional().nullable(),
+  tags: tagsSchema.optional(),
 });
 
 const listIncomeQuerySchema = paginationSchema.merge(dateRangeSchema).extend({
@@ -136,57 +141,16 @@ router.post(
 
       // If accounts provided, create a double-entry transaction
       if (deposit_account_id && income_account_id) {
-        // Verify accounts belong to user
-        const { data: accounts, error: accountsError } = await supabaseAdmin
-          .from('accounts')
-          .select('id, type')
-          .in('id', [deposit_account_id, income_account_id])
-          .eq('user_id', req.userId);
-
-        if (accountsError) throw accountsError;
-
-        if (!accounts || accounts.length !== 2) {
-          throw new BadRequestError('One or more accounts not found');
-        }
-
-        // Create transaction
-        const { data: transaction, error: txError } = await supabaseAdmin
-          .from('transactions')
-          .insert({
-            user_id: req.userId,
-            date: incomeData.date,
-            description: `Income: ${incomeData.source}`,
-            transaction_type: 'income',
-          })
-          .select()
-          .single();
-
-        if (txError) throw txError;
+        const transaction = await transactionService.createIncomeTransaction(req.userId, {
+          date: incomeData.date,
+          description: `Income: ${incomeData.source}`,
+          amount_cents: incomeData.amount_cents,
+          currency: incomeData.currency,
+          deposit_account_id,
+          income_account_id,
+          tags: incomeData.tags,
+        });
         transactionId = transaction.id;
-
-        // Create postings (debit asset, credit income)
-        const { error: postingsError } = await supabaseAdmin.from('postings').insert([
-          {
-            transaction_id: transactionId,
-            account_id: deposit_account_id,
-            amount_cents: incomeData.amount_cents,
-            currency: incomeData.currency,
-            is_debit: true,
-          },
-          {
-            transaction_id: transactionId,
-            account_id: income_account_id,
-            amount_cents: incomeData.amount_cents,
-            currency: incomeData.currency,
-            is_debit: false,
-          },
-        ]);
-
-        if (postingsError) {
-          // Rollback transaction
-          await supabaseAdmin.from('transactions').delete().eq('id', transactionId);
-          throw postingsError;
-        }
       }
 
       // Create income entry
@@ -201,9 +165,9 @@ router.post(
         .single();
 
       if (error) {
-        // Rollback transaction if income creation fails
+        // Void the transaction if income creation fails
         if (transactionId) {
-          await supabaseAdmin.from('transactions').delete().eq('id', transactionId);
+          await transactionService.voidLinkedTransaction(req.userId, transactionId, 'Income could not be saved');
         }
         throw error;
       }
@@ -228,7 +192,7 @@ router.put(
       // Verify income exists and belongs to user
       const { data: existing, error: findError } = await supabaseAdmin
         .from('income')
-        .select('id, transaction_id')
+        .select('id, transaction_id, date')
         .eq('id', id)
         .eq('user_id', req.userId)
         .single();
@@ -238,6 +202,25 @@ router.put(
       }
       if (findError) throw findError;
 
+      // Neither the current nor the new date may fall in a closed period
+      await periodService.assertPeriodsOpen(req.userId, req.body.date ? [existing.date, req.body.date] : [existing.date]);
+
+      // The linked transaction carries the same date and tags
+      const ledgerChanges = {
+        ...(req.body.date !== undefined && { date: req.body.date as string }),
+        ...(req.body.tags !== undefined && { tags: req.body.tags as string[] }),
+      };
+
+      // If amount changed and there's a linked transaction, update postings
+      if (req.body.amount_cents && existing.transaction_id) {
+        await transactionService.updateIncomeTransaction(req.userId, existing.transaction_id, {
+          amount_cents: req.body.amount_cents,
+          ...ledgerChanges,
+        });
+      } else if (Object.keys(ledgerChanges).length > 0 && existing.transaction_id) {
+        await transactionService.updateTransaction(req.userId, existing.transaction_id, ledgerChanges);
+      }
+
       // Update income
       const { data, error } = await supabaseAdmin
         .from('income')
@@ -248,16 +231,6 @@ router.put(
 
       if (error) throw error;
 
-      // If amount changed and there's a linked transaction, update postings
-      if (req.body.amount_cents && existing.transaction_id) {
-        const { error: postingsError } = await supabaseAdmin
-          .from('postings')
-          .update({ amount_cents: req.body.amount_cents })
-          .eq('transaction_id', existing.transaction_id);
-
-        if (postingsError) throw postingsError;
-      }
-
       res.json(data);
     } catch (error) {
       next(error);
@@ -287,7 +260,12 @@ router.delete(
       }
       if (findError) throw findError;
 
-      // Delete income (transaction will cascade if linked)
+      // Void the linked transaction first; the income stays when its period is closed or it is reconciled
+      if (income.transaction_id) {
+        await transactionService.voidLinkedTransaction(req.userId, income.transaction_id, 'Income deleted');
+      }
+
+      // Delete income
       const { error } = await supabaseAdmin
         .from('income')
         .delete()
@@ -295,14 +273,6 @@ router.delete(
 
       if (error) throw error;
 
-      // Delete linked transaction if exists
-      if (income.transaction_id) {
-        await supabaseAdmin
-          .from('transactions')
-          .delete()
-          .eq('id', income.transaction_id);
-      }
-
       res.status(204).send();
     } catch (error) {
       next(error);
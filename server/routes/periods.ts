@@ -0,0 +1,72 @@
+import { Router, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { validate, validateParams } from '../middleware/validation';
+import { BadRequestError } from '../middleware/errorHandler';
+import { periodService } from '../services';
+
+const router = Router();
+
+// Validation schemas
+const periodParamSchema = z.object({
+  period: z.string().regex(/^\d{4}-(0[1-9]|1[0-2])$/, 'Period must be YYYY-MM'),
+});
+
+// Reopening lets closed entries change again, so the caller repeats the period to confirm
+const reopenSchema = z.object({
+  reason: z.string().trim().min(1, 'A reason is required to reopen a period').max(500),
+  confirm_period: z.string(),
+});
+
+// GET /api/periods - Closed periods and the close/reopen audit trail
+router.get(
+  '/',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const periods = await periodService.getPeriods(req.userId);
+      res.json(periods);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/periods/:period/close - Close a month against further changes
+router.post(
+  '/:period/close',
+  authMiddleware,
+  validateParams(periodParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const close = await periodService.closePeriod(req.userId, req.params.period);
+      res.status(201).json(close);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/periods/:period/reopen - Reopen a closed month, recording why.
+// Only the owner can reach their periods; the confirmation guards against a stray request.
+router.post(
+  '/:period/reopen',
+  authMiddleware,
+  validateParams(periodParamSchema),
+  validate(reopenSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      if (req.body.confirm_period !== req.params.period) {
+        throw new BadRequestError(`Confirm the reopen by repeating the period ${req.params.period}`);
+      }
+
+      await periodService.reopenPeriod(req.userId, req.params.period, req.body.reason);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,221 @@
+import { Router, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { validate, validateParams, validateQuery, idParamSchema } from '../middleware/validation';
+import { recurringService } from '../services';
+
+const router = Router();
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// Validation schemas
+const createRuleSchema = z
+  .object({
+    kind: z.enum(['expense', 'income']),
+    source_id: z.string().uuid().optional(),
+    description: z.string().min(1, 'Description is required').max(255),
+    amount: z.number().positive('Amount must be positive'),
+    currency: z.string().length(3).default('MXN'),
+    rating: z.enum(['essential', 'discretionary', 'luxury']).optional(),
+    frequency: z.enum(['weekly', 'bi-weekly', 'monthly']),
+    day_of_month: z.number().int().min(1).max(31).optional(),
+    start_date: z.string().date(),
+    end_date: z.string().date().optional(),
+    skip_dates: z.array(z.string().date()).default([]),
+  })
+  .refine((data) => data.kind === 'income' || !!data.rating, {
+    message: 'Recurring expenses require a rating',
+    path: ['rating'],
+  })
+  .refine((data) => !data.end_date || data.end_date >= data.start_date, {
+    message: 'End date must be on or after the start date',
+    path: ['end_date'],
+  });
+
+const updateRuleSchema = z.object({
+  description: z.string().min(1).max(255).optional(),
+  amount: z.number().positive().optional(),
+  currency: z.string().length(3).optional(),
+  rating: z.enum(['essential', 'discretionary', 'luxury']).optional(),
+  frequency: z.enum(['weekly', 'bi-weekly', 'monthly']).optional(),
+  day_of_month: z.number().int().min(1).max(31).nullable().optional(),
+  end_date: z.string().date().nullable().optional(),
+});
+
+const listRulesQuerySchema = z.object({
+  kind: z.enum(['expense', 'income']).optional(),
+  source_id: z.string().uuid().optional(),
+});
+
+const skipSchema = z.object({
+  date: z.string().date(),
+});
+
+const previewQuerySchema = z.object({
+  after: z.string().date().optional(),
+  count: z.coerce.number().int().min(1).max(52).default(6),
+});
+
+const generateSchema = z.object({
+  kind: z.enum(['expense', 'income']).optional(),
+  as_of: z.string().date().optional(),
+});
+
+// GET /api/recurring - List recurring rules
+router.get(
+  '/',
+  authMiddleware,
+  validateQuery(listRulesQuerySchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { kind, source_id } = req.query as z.infer<typeof listRulesQuerySchema>;
+      const rules = await recurringService.getRules(req.userId, { kind, sourceId: source_id });
+      res.json(rules);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/recurring/generate - Materialize due occurrences (defaults to today)
+router.post(
+  '/generate',
+  authMiddleware,
+  validate(generateSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { kind, as_of } = req.body as z.infer<typeof generateSchema>;
+      const result = await recurringService.generate(req.userId, { kind, asOfDate: as_of || today() });
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/recurring/:id - Get single rule
+router.get(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await recurringService.getRuleById(req.userId, req.params.id);
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/recurring/:id/preview - Upcoming occurrence dates
+router.get(
+  '/:id/preview',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validateQuery(previewQuerySchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const { after, count } = req.query as unknown as z.infer<typeof previewQuerySchema>;
+      const dates = await recurringService.previewOccurrences(req.userId, req.params.id, after || today(), count);
+      res.json({ dates });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/recurring - Create rule
+router.post(
+  '/',
+  authMiddleware,
+  validate(createRuleSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await recurringService.createRule(req.userId, req.body);
+      res.status(201).json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/recurring/:id - Update rule
+router.put(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(updateRuleSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await recurringService.updateRule(req.userId, req.params.id, req.body);
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/recurring/:id/skip - Skip one occurrence
+router.post(
+  '/:id/skip',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(skipSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await recurringService.skipOccurrence(req.userId, req.params.id, req.body.date);
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/recurring/:id/pause - Stop generating occurrences
+router.post(
+  '/:id/pause',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await recurringService.setPaused(req.userId, req.params.id, true, today());
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/recurring/:id/resume - Resume a paused rule
+router.post(
+  '/:id/resume',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const rule = await recurringService.setPaused(req.userId, req.params.id, false, today());
+      res.json(rule);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/recurring/:id - Delete rule (generated transactions are kept)
+router.delete(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      await recurringService.deleteRule(req.userId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
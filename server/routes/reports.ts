@@ -3,7 +3,7 @@ import { z } from 'zod';
 import type { AuthenticatedRequest } from '../types';
 import { authMiddleware } from '../middleware/auth';
 import { validateQuery } from '../middleware/validation';
-import { reportService } from '../services';
+import { reportService, tagService, type ComparativeReportOptions, type TagReportOptions } from '../services';
 
 const router = Router();
 
@@ -14,6 +14,20 @@ const reportQuerySchema = z.object({
   endDate: z.string().date().optional(),
 });
 
+// Query schema for comparative reports
+const comparativeQuerySchema = z.object({
+  endDate: z.string().date().optional(),
+  granularity: z.enum(['month', 'quarter', 'year']).default('month'),
+  periods: z.coerce.number().int().min(2).max(24).default(3),
+});
+
+// Query schema for the per-tag report
+const tagReportQuerySchema = z.object({
+  startDate: z.string().date().optional(),
+  endDate: z.string().date().optional(),
+  currency: z.string().length(3).optional(),
+});
+
 // GET /api/reports/trial-balance
 router.get(
   '/trial-balance',
@@ -124,4 +138,49 @@ router.get(
   }
 );
 
+// GET /api/reports/comparative/income-statement
+router.get(
+  '/comparative/income-statement',
+  authMiddleware,
+  validateQuery(comparativeQuerySchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await reportService.getComparativeIncomeStatement(req.userId, req.query as ComparativeReportOptions);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/reports/comparative/balance-sheet
+router.get(
+  '/comparative/balance-sheet',
+  authMiddleware,
+  validateQuery(comparativeQuerySchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await reportService.getComparativeBalanceSheet(req.userId, req.query as ComparativeReportOptions);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// GET /api/reports/tags
+router.get(
+  '/tags',
+  authMiddleware,
+  validateQuery(tagReportQuerySchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const result = await tagService.getTagReport(req.userId, req.query as TagReportOptions);
+      res.json(result);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,103 @@
+import { Router, type Response, type NextFunction } from 'express';
+import { z } from 'zod';
+import type { AuthenticatedRequest } from '../types';
+import { authMiddleware } from '../middleware/auth';
+import { validate, validateParams, idParamSchema } from '../middleware/validation';
+import { tagService } from '../services';
+
+const router = Router();
+
+// Validation schemas
+const tagFields = {
+  name: z.string().min(1, 'Name is required').max(50),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Color must be a hex color like #3b82f6'),
+};
+
+const createTagSchema = z.object({
+  name: tagFields.name,
+  color: tagFields.color.optional(),
+});
+
+const updateTagSchema = createTagSchema.partial();
+
+const mergeTagsSchema = z.object({
+  source_ids: z.array(z.string().uuid()).min(1, 'Choose at least one tag to merge'),
+});
+
+// GET /api/tags - List tags
+router.get(
+  '/',
+  authMiddleware,
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const tags = await tagService.getTags(req.userId);
+      res.json(tags);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/tags - Create tag
+router.post(
+  '/',
+  authMiddleware,
+  validate(createTagSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const tag = await tagService.createTag(req.userId, req.body);
+      res.status(201).json(tag);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// PUT /api/tags/:id - Rename or recolor tag
+router.put(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(updateTagSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const tag = await tagService.updateTag(req.userId, req.params.id, req.body);
+      res.json(tag);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/tags/:id/merge - Merge other tags into this one
+router.post(
+  '/:id/merge',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(mergeTagsSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const tag = await tagService.mergeTags(req.userId, req.params.id, req.body.source_ids);
+      res.json(tag);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/tags/:id - Delete tag and remove it from entries
+router.delete(
+  '/:id',
+  authMiddleware,
+  validateParams(idParamSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      await tagService.deleteTag(req.userId, req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
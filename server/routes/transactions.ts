@@ -20,12 +20,19 @@ const postingSchema = z.object({
   amount_cents: z.number().int().positive(),
   currency: z.string().length(3),
   is_debit: z.boolean(),
+  exchange_rate: z.number().positive().optional(),
+  booked_amount_cents: z.number().int().positive().optional(),
 });
 
+const tagsSchema = z.array(z.string().min(1).max(50)).max(20);
+
 const createTransactionSchema = z.object({
   date: z.string().date(),
   description: z.string().min(1, 'Description is required').max(255),
   memo: z.string().max(500).optional(),
+  reference: z.string().max(100).optional(),
+  tags: tagsSchema.optional(),
+  base_currency: z.string().length(3).optional(),
   transaction_type: z.enum(['income', 'expense', 'transfer', 'adjustment']).optional(),
   postings: z.array(postingSchema).min(2, 'At least 2 postings required'),
 });
@@ -34,6 +41,9 @@ const updateTransactionSchema = z.object({
   date: z.string().date().optional(),
   description: z.string().min(1).max(255).optional(),
   memo: z.string().max(500).optional(),
+  reference: z.string().max(100).optional(),
+  tags: tagsSchema.optional(),
+  base_currency: z.string().length(3).optional(),
   transaction_type: z.enum(['income', 'expense', 'transfer', 'adjustment']).optional(),
   postings: z.array(postingSchema).min(2).optional(),
 });
@@ -41,6 +51,17 @@ const updateTransactionSchema = z.object({
 const listTransactionsQuerySchema = paginationSchema.merge(dateRangeSchema).extend({
   type: z.enum(['income', 'expense', 'transfer', 'adjustment']).optional(),
   account_id: z.string().uuid().optional(),
+  tag: z.string().min(1).max(50).optional(),
+  include_voided: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+});
+
+const voidTransactionSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+const reverseTransactionSchema = z.object({
+  date: z.string().date(),
+  reason: z.string().max(500).optional(),
 });
 
 // GET /api/transactions - List transactions
@@ -108,15 +129,52 @@ router.put(
   }
 );
 
-// DELETE /api/transactions/:id - Delete transaction
+// POST /api/transactions/:id/void - Cancel a transaction on its own date
+router.post(
+  '/:id/void',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(voidTransactionSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const reversal = await transactionService.voidTransaction(req.userId, req.params.id, req.body.reason);
+      res.status(201).json(reversal);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// POST /api/transactions/:id/reverse - Cancel a transaction on a later date
+router.post(
+  '/:id/reverse',
+  authMiddleware,
+  validateParams(idParamSchema),
+  validate(reverseTransactionSchema),
+  async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    try {
+      const reversal = await transactionService.reverseTransaction(
+        req.userId,
+        req.params.id,
+        req.body.date,
+        req.body.reason
+      );
+      res.status(201).json(reversal);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// DELETE /api/transactions/:id - Void transaction; posted entries are never removed
 router.delete(
   '/:id',
   authMiddleware,
   validateParams(idParamSchema),
   async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
     try {
-      await transactionService.deleteTransaction(req.userId, req.params.id);
-      res.status(204).send();
+      const reversal = await transactionService.deleteTransaction(req.userId, req.params.id);
+      res.json(reversal);
     } catch (error) {
       next(error);
     }
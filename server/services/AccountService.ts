@@ -1,5 +1,8 @@
 import { supabaseAdmin } from '../lib/supabase';
 import { NotFoundError, BadRequestError, ConflictError } from '../middleware/errorHandler';
+import { AccountRegister } from '../../src/domain/register';
+import { AccountTree, type TreeAccount } from '../../src/domain/accountTree';
+import type { RegisterMovement } from '../../src/domain/register';
 import type { Database } from '../../src/types/database';
 
 type Account = Database['public']['Tables']['accounts']['Row'];
@@ -23,6 +26,38 @@ export interface PaginatedAccounts {
   };
 }
 
+export interface AccountRegisterRange {
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface AccountRegisterResult {
+  account_id: string;
+  currency: string;
+  start_date: string | null;
+  end_date: string | null;
+  opening_balance_cents: number;
+  closing_balance_cents: number;
+  entries: Array<{
+    posting_id: string;
+    transaction_id: string;
+    date: string;
+    description: string;
+    reference: string | null;
+    amount_cents: number;
+    balance_cents: number;
+  }>;
+}
+
+// Posting joined with its transaction, as selected for the register
+interface RegisterPostingRow {
+  id: string;
+  transaction_id: string;
+  amount_cents: number;
+  is_debit: boolean;
+  transactions: { date: string; description: string; reference: string | null; created_at: string };
+}
+
 export class AccountService {
   /**
    * Get all accounts for a user with optional filtering and pagination
@@ -100,16 +135,47 @@ export class AccountService {
     return data;
   }
 
+  /**
+   * All of a user's accounts in the shape the account tree works with
+   */
+  private async getTreeAccounts(userId: string): Promise<TreeAccount[]> {
+    const { data, error } = await supabaseAdmin
+      .from('accounts')
+      .select('id, code, type, parent_id')
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    return (data || []).map((row) => ({ id: row.id, code: row.code, nature: row.type, parentId: row.parent_id }));
+  }
+
   /**
    * Create a new account
    */
   async createAccount(userId: string, accountData: Omit<AccountInsert, 'user_id'>): Promise<Account> {
+    const codeError = AccountTree.validateCode(accountData.code, accountData.type);
+    if (codeError) {
+      throw new BadRequestError(codeError);
+    }
+
     // Check for duplicate code
     const existing = await this.getAccountByCode(userId, accountData.code);
     if (existing) {
       throw new ConflictError(`Account with code '${accountData.code}' already exists`);
     }
 
+    if (accountData.parent_id) {
+      const parentError = AccountTree.validateParent(
+        await this.getTreeAccounts(userId),
+        null,
+        accountData.parent_id,
+        accountData.type
+      );
+      if (parentError) {
+        throw new BadRequestError(parentError);
+      }
+    }
+
     const { data, error } = await supabaseAdmin
       .from('accounts')
       .insert({
@@ -134,7 +200,15 @@ export class AccountService {
    */
   async updateAccount(userId: string, accountId: string, updates: AccountUpdate): Promise<Account> {
     // Verify account exists and belongs to user
-    await this.getAccountById(userId, accountId);
+    const account = await this.getAccountById(userId, accountId);
+    const nature = updates.type ?? account.type;
+
+    if (updates.code !== undefined || updates.type !== undefined) {
+      const codeError = AccountTree.validateCode(updates.code ?? account.code, nature);
+      if (codeError) {
+        throw new BadRequestError(codeError);
+      }
+    }
 
     // If updating code, check for duplicates
     if (updates.code) {
@@ -144,6 +218,19 @@ export class AccountService {
       }
     }
 
+    // Re-parenting or changing type must keep the tree within one nature
+    if (updates.parent_id !== undefined || updates.type !== undefined) {
+      const accounts = await this.getTreeAccounts(userId);
+      const parentId = updates.parent_id !== undefined ? updates.parent_id : account.parent_id;
+      const parentError = AccountTree.validateParent(accounts, accountId, parentId, nature);
+      if (parentError) {
+        throw new BadRequestError(parentError);
+      }
+      if (accounts.some((item) => item.parentId === accountId && item.nature !== nature)) {
+        throw new BadRequestError('Move sub-accounts out before changing the account type');
+      }
+    }
+
     const { data, error } = await supabaseAdmin
       .from('accounts')
       .update(updates)
@@ -233,6 +320,66 @@ export class AccountService {
     };
   }
 
+  /**
+   * Get an account's postings in date order with a running balance.
+   * Postings before startDate roll into the opening balance.
+   */
+  async getAccountRegister(
+    userId: string,
+    accountId: string,
+    range: AccountRegisterRange = {}
+  ): Promise<AccountRegisterResult> {
+    const account = await this.getAccountById(userId, accountId);
+
+    let query = supabaseAdmin
+      .from('postings')
+      .select('id, transaction_id, amount_cents, is_debit, transactions!inner(date, description, reference, created_at, user_id)')
+      .eq('account_id', accountId)
+      .eq('transactions.user_id', userId);
+
+    if (range.endDate) {
+      query = query.lte('transactions.date', range.endDate);
+    }
+
+    const { data: postings, error } = await query;
+
+    if (error) throw error;
+
+    // Same-day postings keep the order their transactions were entered in
+    const rows = ((postings || []) as unknown as RegisterPostingRow[])
+      .slice()
+      .sort((a, b) => a.transactions.created_at.localeCompare(b.transactions.created_at));
+
+    const movements: RegisterMovement[] = rows.map((posting) => ({
+      id: posting.id,
+      transactionId: posting.transaction_id,
+      date: posting.transactions.date,
+      description: posting.transactions.description,
+      reference: posting.transactions.reference || undefined,
+      amountCents: AccountRegister.signedAmount(account.type, posting.is_debit, posting.amount_cents),
+    }));
+
+    const register = AccountRegister.build(movements, { from: range.startDate, to: range.endDate });
+
+    return {
+      account_id: accountId,
+      currency: account.currency,
+      start_date: range.startDate || null,
+      end_date: range.endDate || null,
+      opening_balance_cents: register.openingBalanceCents,
+      closing_balance_cents: register.closingBalanceCents,
+      entries: register.entries.map((entry) => ({
+        posting_id: entry.id,
+        transaction_id: entry.transactionId as string,
+        date: entry.date,
+        description: entry.description,
+        reference: entry.reference || null,
+        amount_cents: entry.amountCents,
+        balance_cents: entry.balanceCents,
+      })),
+    };
+  }
+
   /**
    * Get balances for all accounts
    */
@@ -256,7 +403,7 @@ export class AccountService {
     // Get all postings up to date
     const { data: postings, error: postingsError } = await supabaseAdmin
       .from('postings')
-      .select('account_id, amount_cents, is_debit, transactions!inner(date, user_id)')
+      .select('account_id, amount_cents, booked_amount_cents, is_debit, transactions!inner(date, user_id)')
       .eq('transactions.user_id', userId)
       .lte('transactions.date', date);
 
@@ -270,7 +417,8 @@ export class AccountService {
       const account = accounts.find((a) => a.id === posting.account_id);
       if (!account) return;
 
-      let amount = posting.amount_cents;
+      // Booked (base currency) amount; revaluation lines carry only a booked amount
+      let amount = posting.booked_amount_cents ?? posting.amount_cents;
 
       // Assets & Expenses: Debits increase, Credits decrease
       // Liabilities, Equity & Income: Credits increase, Debits decrease
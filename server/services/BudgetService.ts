@@ -0,0 +1,228 @@
+import { supabaseAdmin } from '../lib/supabase';
+import { NotFoundError, ConflictError } from '../middleware/errorHandler';
+import { ratesService } from './RatesService';
+import { ExpenseSplitter, type ExpenseSplit } from '../../src/domain/splits';
+import type { Database } from '../../src/types/database';
+
+type Budget = Database['public']['Tables']['budgets']['Row'];
+type BudgetInsert = Database['public']['Tables']['budgets']['Insert'];
+type BudgetUpdate = Database['public']['Tables']['budgets']['Update'];
+
+export interface BudgetStatus {
+  budget: Budget;
+  month: string;
+  limit: number;
+  carried_over: number;
+  spent: number;
+  remaining: number;
+  percent_used: number;
+}
+
+export interface BudgetStatusReport {
+  month: string;
+  budgets: BudgetStatus[];
+}
+
+export class BudgetService {
+  /**
+   * Get all budgets for a user
+   */
+  async getBudgets(userId: string): Promise<Budget[]> {
+    const { data, error } = await supabaseAdmin
+      .from('budgets')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  /**
+   * Get a single budget by ID
+   */
+  async getBudgetById(userId: string, budgetId: string): Promise<Budget> {
+    const { data, error } = await supabaseAdmin
+      .from('budgets')
+      .select('*')
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code === 'PGRST116') {
+      throw new NotFoundError('Budget', budgetId);
+    }
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Create a new budget (one per category or rating)
+   */
+  async createBudget(userId: string, budgetData: Omit<BudgetInsert, 'user_id'>): Promise<Budget> {
+    const { data, error } = await supabaseAdmin
+      .from('budgets')
+      .insert({
+        ...budgetData,
+        category: budgetData.scope === 'category' ? budgetData.category : null,
+        rating: budgetData.scope === 'rating' ? budgetData.rating : null,
+        user_id: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictError('A budget for this category or rating already exists');
+      }
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Update an existing budget
+   */
+  async updateBudget(userId: string, budgetId: string, updates: BudgetUpdate): Promise<Budget> {
+    // Verify budget exists and belongs to user
+    await this.getBudgetById(userId, budgetId);
+
+    const { data, error } = await supabaseAdmin
+      .from('budgets')
+      .update(updates)
+      .eq('id', budgetId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Delete a budget
+   */
+  async deleteBudget(userId: string, budgetId: string): Promise<void> {
+    await this.getBudgetById(userId, budgetId);
+
+    const { error } = await supabaseAdmin
+      .from('budgets')
+      .delete()
+      .eq('id', budgetId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Get spent-vs-limit for every budget in a month (YYYY-MM).
+   * Budgets with rollover carry unspent amounts forward from their start month;
+   * overspending never carries a negative balance.
+   */
+  async getBudgetStatus(userId: string, month: string): Promise<BudgetStatusReport> {
+    const budgets = await this.getBudgets(userId);
+    if (budgets.length === 0) {
+      return { month, budgets: [] };
+    }
+
+    // Only fetch expenses as far back as the earliest rollover month needed
+    const earliestMonth = budgets.reduce(
+      (earliest, budget) =>
+        budget.rollover && budget.start_month < earliest ? budget.start_month : earliest,
+      month
+    );
+    const [year, monthIndex] = month.split('-').map(Number);
+    const endDate = new Date(Date.UTC(year, monthIndex, 0)).toISOString().split('T')[0];
+
+    const { data: expenses, error } = await supabaseAdmin
+      .from('expenses')
+      .select('amount, currency, rating, category, date, splits')
+      .eq('user_id', userId)
+      .gte('date', `${earliestMonth}-01`)
+      .lte('date', endDate);
+
+    if (error) throw error;
+
+    // Each line of a split expense counts against its own category and rating
+    const expenseLines = (expenses || []).flatMap((expense) =>
+      ExpenseSplitter.expand({
+        ...expense,
+        category: expense.category ?? undefined,
+        splits: (expense.splits ?? []) as unknown as ExpenseSplit[],
+      })
+    );
+
+    // Resolve each currency pair once; getRate throws for a pair it has no rate for,
+    // so a foreign amount is never counted at face value
+    const rates = new Map<string, number>();
+    for (const expense of expenseLines) {
+      for (const budget of budgets) {
+        const key = `${expense.currency}:${budget.currency}`;
+        if (expense.currency !== budget.currency && !rates.has(key)) {
+          rates.set(key, await ratesService.getRate(expense.currency, budget.currency));
+        }
+      }
+    }
+
+    const spentIn = (budget: Budget, targetMonth: string): number =>
+      expenseLines
+        .filter((expense) => expense.date.startsWith(targetMonth) && this.matchesBudget(expense, budget))
+        .reduce((total, expense) => {
+          const rate =
+            expense.currency === budget.currency
+              ? 1
+              : rates.get(`${expense.currency}:${budget.currency}`)!;
+          return total + Number(expense.amount) * rate;
+        }, 0);
+
+    return {
+      month,
+      budgets: budgets.map((budget) => {
+        const monthlyLimit = Number(budget.monthly_limit);
+        let carriedOver = 0;
+
+        if (budget.rollover) {
+          for (let m = budget.start_month; m < month; m = this.nextMonth(m)) {
+            carriedOver = Math.max(0, monthlyLimit + carriedOver - spentIn(budget, m));
+          }
+        }
+
+        const limit = month < budget.start_month ? 0 : monthlyLimit + carriedOver;
+        const spent = spentIn(budget, month);
+
+        return {
+          budget,
+          month,
+          limit,
+          carried_over: carriedOver,
+          spent,
+          remaining: limit - spent,
+          percent_used: limit > 0 ? (spent / limit) * 100 : spent > 0 ? 100 : 0,
+        };
+      }),
+    };
+  }
+
+  private matchesBudget(
+    expense: { rating: string; category?: string | null },
+    budget: Budget
+  ): boolean {
+    if (budget.scope === 'rating') {
+      return expense.rating === budget.rating;
+    }
+    if (!expense.category || !budget.category) return false;
+    return expense.category.trim().toLowerCase() === budget.category.trim().toLowerCase();
+  }
+
+  private nextMonth(month: string): string {
+    const [year, monthIndex] = month.split('-').map(Number);
+    const next = new Date(Date.UTC(year, monthIndex, 1));
+    return `${next.getUTCFullYear()}-${String(next.getUTCMonth() + 1).padStart(2, '0')}`;
+  }
+}
+
+export const budgetService = new BudgetService();
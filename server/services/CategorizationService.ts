@@ -0,0 +1,292 @@
+import { supabaseAdmin } from '../lib/supabase';
+import { NotFoundError, BadRequestError } from '../middleware/errorHandler';
+import {
+  CategorizationEngine,
+  type CategorizationRule as EngineRule,
+  type CategorizableExpense,
+  type CategorizationResult,
+} from '../../src/domain/categorization';
+import type { Database } from '../../src/types/database';
+
+type CategorizationRule = Database['public']['Tables']['categorization_rules']['Row'];
+type CategorizationRuleInsert = Database['public']['Tables']['categorization_rules']['Insert'];
+type CategorizationRuleUpdate = Database['public']['Tables']['categorization_rules']['Update'];
+type Expense = Database['public']['Tables']['expenses']['Row'];
+type ExpenseUpdate = Database['public']['Tables']['expenses']['Update'];
+
+export interface ApplyRulesOptions {
+  startDate?: string;
+  endDate?: string;
+  onlyUncategorized?: boolean; // Leave expenses that already have a category alone
+}
+
+export interface ApplyRulesResult {
+  processed: number;
+  updated: number;
+}
+
+export interface CategorizeExpenseResult {
+  categorization: CategorizationResult | null;
+  expense: Expense;
+}
+
+type ExpenseWithPostings = Expense & {
+  transactions: { postings: { account_id: string; is_debit: boolean }[] } | null;
+};
+
+const toEngineRule = (rule: CategorizationRule): EngineRule => ({
+  id: rule.id,
+  name: rule.name,
+  priority: rule.priority,
+  enabled: rule.enabled,
+  descriptionPattern: rule.description_pattern,
+  minAmount: rule.min_amount != null ? Number(rule.min_amount) : null,
+  maxAmount: rule.max_amount != null ? Number(rule.max_amount) : null,
+  currency: rule.currency,
+  accountId: rule.account_id,
+  category: rule.category,
+  subcategory: rule.subcategory,
+  rating: rule.rating,
+  recurring: rule.recurring,
+});
+
+// The funding account is the credited side of the expense's transaction
+const fundingAccountOf = (expense: ExpenseWithPostings): string | null =>
+  expense.transactions?.postings.find((posting) => !posting.is_debit)?.account_id ?? null;
+
+const toCategorizable = (expense: Expense, accountId: string | null): CategorizableExpense => ({
+  description: expense.what,
+  amount: Number(expense.amount),
+  currency: expense.currency,
+  accountId,
+});
+
+// Columns to write for a categorization; only fields the rule sets
+const toExpenseUpdate = (result: CategorizationResult): ExpenseUpdate => ({
+  ...(result.category !== undefined && { category: result.category }),
+  ...(result.subcategory !== undefined && { subcategory: result.subcategory }),
+  ...(result.rating !== undefined && { rating: result.rating }),
+  ...(result.recurring !== undefined && { recurring: result.recurring }),
+  confidence: result.confidence,
+  explanation: result.explanation,
+});
+
+const isUnchanged = (expense: Expense, update: ExpenseUpdate): boolean =>
+  (Object.keys(update) as (keyof Expense)[]).every((key) => expense[key] === update[key as keyof typeof update]);
+
+export class CategorizationService {
+  /**
+   * Get all categorization rules for a user, in the order they are applied
+   */
+  async getRules(userId: string): Promise<CategorizationRule[]> {
+    const { data, error } = await supabaseAdmin
+      .from('categorization_rules')
+      .select('*')
+      .eq('user_id', userId)
+      .order('priority', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  /**
+   * Get a single categorization rule by ID
+   */
+  async getRuleById(userId: string, ruleId: string): Promise<CategorizationRule> {
+    const { data, error } = await supabaseAdmin
+      .from('categorization_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code === 'PGRST116') {
+      throw new NotFoundError('Categorization rule', ruleId);
+    }
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Create a categorization rule
+   */
+  async createRule(userId: string, ruleData: Omit<CategorizationRuleInsert, 'user_id'>): Promise<CategorizationRule> {
+    this.assertValidRule(toEngineRule({ ...ruleData, user_id: userId } as CategorizationRule));
+
+    const { data, error } = await supabaseAdmin
+      .from('categorization_rules')
+      .insert({ ...ruleData, user_id: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Update a categorization rule
+   */
+  async updateRule(userId: string, ruleId: string, updates: CategorizationRuleUpdate): Promise<CategorizationRule> {
+    const existing = await this.getRuleById(userId, ruleId);
+    this.assertValidRule(toEngineRule({ ...existing, ...updates }));
+
+    const { data, error } = await supabaseAdmin
+      .from('categorization_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Delete a categorization rule
+   */
+  async deleteRule(userId: string, ruleId: string): Promise<void> {
+    await this.getRuleById(userId, ruleId);
+
+    const { error } = await supabaseAdmin
+      .from('categorization_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Columns the first matching rule sets on an expense that is about to be
+   * created, or an empty object when no rule matches
+   */
+  async getCategorizationFields(userId: string, expense: CategorizableExpense): Promise<ExpenseUpdate> {
+    const rules = await this.getRules(userId);
+    const categorization = CategorizationEngine.categorize(rules.map(toEngineRule), expense);
+    return categorization ? toExpenseUpdate(categorization) : {};
+  }
+
+  /**
+   * Re-categorize one stored expense. The expense is left untouched when no rule matches.
+   */
+  async categorizeExpense(userId: string, expenseId: string): Promise<CategorizeExpenseResult> {
+    const { data: expense, error: findError } = await supabaseAdmin
+      .from('expenses')
+      .select('*')
+      .eq('id', expenseId)
+      .eq('user_id', userId)
+      .single();
+
+    if (findError && findError.code === 'PGRST116') {
+      throw new NotFoundError('Expense', expenseId);
+    }
+    if (findError) throw findError;
+
+    const accountId = expense.transaction_id ? await this.getFundingAccountId(expense.transaction_id) : null;
+    const rules = await this.getRules(userId);
+    const categorization = CategorizationEngine.categorize(rules.map(toEngineRule), toCategorizable(expense, accountId));
+
+    if (!categorization) {
+      return { categorization: null, expense };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('expenses')
+      .update(toExpenseUpdate(categorization))
+      .eq('id', expenseId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return { categorization, expense: data };
+  }
+
+  /**
+   * Re-run the rules over existing expenses ("re-run on history").
+   * Only expenses whose values actually change are written.
+   */
+  async applyToHistory(userId: string, options: ApplyRulesOptions = {}): Promise<ApplyRulesResult> {
+    const rules = (await this.getRules(userId)).map(toEngineRule);
+    if (!rules.some((rule) => rule.enabled)) {
+      return { processed: 0, updated: 0 };
+    }
+
+    let query = supabaseAdmin
+      .from('expenses')
+      .select('*, transactions(postings(account_id, is_debit))')
+      .eq('user_id', userId);
+
+    if (options.startDate) {
+      query = query.gte('date', options.startDate);
+    }
+    if (options.endDate) {
+      query = query.lte('date', options.endDate);
+    }
+    if (options.onlyUncategorized) {
+      query = query.is('category', null);
+    }
+
+    const { data: expenses, error } = await query;
+
+    if (error) throw error;
+
+    let updated = 0;
+    for (const expense of (expenses || []) as ExpenseWithPostings[]) {
+      const categorization = CategorizationEngine.categorize(rules, toCategorizable(expense, fundingAccountOf(expense)));
+      if (!categorization) continue;
+
+      const update = toExpenseUpdate(categorization);
+      if (isUnchanged(expense, update)) continue;
+
+      const { error: updateError } = await supabaseAdmin
+        .from('expenses')
+        .update(update)
+        .eq('id', expense.id)
+        .eq('user_id', userId);
+
+      if (updateError) throw updateError;
+      updated++;
+    }
+
+    return { processed: expenses?.length || 0, updated };
+  }
+
+  private async getFundingAccountId(transactionId: string): Promise<string | null> {
+    const { data, error } = await supabaseAdmin
+      .from('postings')
+      .select('account_id')
+      .eq('transaction_id', transactionId)
+      .eq('is_debit', false)
+      .limit(1);
+
+    if (error) throw error;
+
+    return data?.[0]?.account_id ?? null;
+  }
+
+  // Rules must compile and have at least one condition and one action
+  private assertValidRule(rule: EngineRule): void {
+    if (rule.descriptionPattern) {
+      const patternError = CategorizationEngine.validatePattern(rule.descriptionPattern);
+      if (patternError) {
+        throw new BadRequestError(`Invalid description pattern: ${patternError}`);
+      }
+    }
+    if (!CategorizationEngine.isComplete(rule)) {
+      throw new BadRequestError('A rule needs at least one condition and one action');
+    }
+    if (rule.minAmount != null && rule.maxAmount != null && rule.maxAmount < rule.minAmount) {
+      throw new BadRequestError('Maximum amount must not be less than minimum amount');
+    }
+  }
+}
+
+export const categorizationService = new CategorizationService();
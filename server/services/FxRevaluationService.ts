@@ -0,0 +1,173 @@
+import { supabaseAdmin } from '../lib/supabase';
+import { BadRequestError } from '../middleware/errorHandler';
+import { accountService } from './AccountService';
+import { ratesService } from './RatesService';
+import { transactionService } from './TransactionService';
+import { FxRevaluation, type ForeignPosting, type RevaluationLine } from '../../src/domain/fxRevaluation';
+import type { Database, Json } from '../../src/types/database';
+
+type FxRevaluationRow = Database['public']['Tables']['fx_revaluations']['Row'];
+
+export interface RevaluationInput {
+  date: string;
+  base_currency: string;
+  gain_loss_account_id: string;
+  dry_run?: boolean; // Report only; nothing is posted
+}
+
+export interface RevaluationReportLine {
+  account_id: string;
+  account_name: string;
+  currency: string;
+  balance_cents: number;
+  booked_balance_cents: number;
+  rate: number;
+  revalued_cents: number;
+  adjustment_cents: number;
+}
+
+export interface RevaluationReport {
+  id: string | null;
+  revaluation_date: string;
+  base_currency: string;
+  gain_loss_account_id: string;
+  transaction_id: string | null;
+  total_adjustment_cents: number;
+  lines: RevaluationReportLine[];
+}
+
+// Foreign posting joined with its account and transaction
+interface RevaluablePostingRow {
+  account_id: string;
+  amount_cents: number;
+  currency: string;
+  is_debit: boolean;
+  booked_amount_cents: number | null;
+  accounts: { name: string; type: string };
+}
+
+// Only monetary balances are revalued; income and expense stay at historical rates
+const REVALUED_ACCOUNT_TYPES = ['asset', 'liability'];
+const GAIN_LOSS_ACCOUNT_TYPES = ['income', 'equity'];
+
+export class FxRevaluationService {
+  /**
+   * Get past revaluation runs, newest first
+   */
+  async getRevaluations(userId: string): Promise<FxRevaluationRow[]> {
+    const { data, error } = await supabaseAdmin
+      .from('fx_revaluations')
+      .select('*')
+      .eq('user_id', userId)
+      .order('revaluation_date', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  /**
+   * Revalue foreign-currency asset and liability balances booked in the base
+   * currency at the rates for the given date, posting one adjusting entry with
+   * the net gain or loss to the chosen income or equity account.
+   */
+  async revalue(userId: string, input: RevaluationInput): Promise<RevaluationReport> {
+    const gainLossAccount = await accountService.getAccountById(userId, input.gain_loss_account_id);
+    if (!GAIN_LOSS_ACCOUNT_TYPES.includes(gainLossAccount.type)) {
+      throw new BadRequestError('The FX gain/loss account must be an income or equity account');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('postings')
+      .select('account_id, amount_cents, currency, is_debit, booked_amount_cents, accounts!inner(name, type), transactions!inner(date, user_id, base_currency)')
+      .eq('transactions.user_id', userId)
+      .eq('transactions.base_currency', input.base_currency)
+      .lte('transactions.date', input.date)
+      .neq('currency', input.base_currency);
+
+    if (error) throw error;
+
+    const rows = ((data || []) as unknown as RevaluablePostingRow[])
+      .filter((row) => REVALUED_ACCOUNT_TYPES.includes(row.accounts.type));
+    const accountNames = new Map(rows.map((row) => [row.account_id, row.accounts.name]));
+    const postings: ForeignPosting[] = rows.map((row) => ({
+      accountId: row.account_id,
+      currency: row.currency,
+      isDebit: row.is_debit,
+      amountCents: row.amount_cents,
+      bookedCents: row.booked_amount_cents ?? row.amount_cents,
+    }));
+
+    const balances = FxRevaluation.balances(postings, input.base_currency);
+    const currencies = [...new Set(balances.map((balance) => balance.currency))];
+    const rates: Record<string, number> = {};
+    for (const currency of currencies) {
+      rates[currency] = await ratesService.getRate(currency, input.base_currency, input.date);
+    }
+
+    const lines = FxRevaluation.revalue(balances, rates);
+    const report: RevaluationReport = {
+      id: null,
+      revaluation_date: input.date,
+      base_currency: input.base_currency,
+      gain_loss_account_id: input.gain_loss_account_id,
+      transaction_id: null,
+      total_adjustment_cents: FxRevaluation.totalAdjustment(lines),
+      lines: lines.map((line) => this.toReportLine(line, accountNames.get(line.accountId) ?? '')),
+    };
+
+    const adjustments = FxRevaluation.toPostings(lines, input.gain_loss_account_id, input.base_currency);
+    if (input.dry_run || adjustments.length === 0) {
+      return report;
+    }
+
+    const transaction = await transactionService.createTransaction(userId, {
+      date: input.date,
+      description: `FX revaluation ${input.date}`,
+      reference: `FX-${input.date}`,
+      tags: ['fx-revaluation'],
+      base_currency: input.base_currency,
+      transaction_type: 'adjustment',
+      postings: adjustments.map((posting) => ({
+        account_id: posting.accountId,
+        amount_cents: posting.amountCents,
+        currency: posting.currency,
+        is_debit: posting.isDebit,
+        booked_amount_cents: posting.bookedCents,
+      })),
+    });
+
+    const { data: run, error: insertError } = await supabaseAdmin
+      .from('fx_revaluations')
+      .insert({
+        user_id: userId,
+        revaluation_date: input.date,
+        base_currency: input.base_currency,
+        gain_loss_account_id: input.gain_loss_account_id,
+        transaction_id: transaction.id,
+        total_adjustment_cents: report.total_adjustment_cents,
+        lines: report.lines as unknown as Json,
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    return { ...report, id: run.id, transaction_id: transaction.id };
+  }
+
+  private toReportLine(line: RevaluationLine, accountName: string): RevaluationReportLine {
+    return {
+      account_id: line.accountId,
+      account_name: accountName,
+      currency: line.currency,
+      balance_cents: line.balanceCents,
+      booked_balance_cents: line.bookedBalanceCents,
+      rate: line.rate,
+      revalued_cents: line.revaluedCents,
+      adjustment_cents: line.adjustmentCents,
+    };
+  }
+}
+
+export const fxRevaluationService = new FxRevaluationService();
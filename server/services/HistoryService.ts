@@ -0,0 +1,76 @@
+import { supabaseAdmin } from '../lib/supabase';
+import { RecordHistory, type FieldChange, type HistoryTable } from '../../src/domain/history';
+import type { Database } from '../../src/types/database';
+
+type HistoryRow = Database['public']['Tables']['record_history']['Row'];
+type Posting = Database['public']['Tables']['postings']['Row'];
+
+// Posting columns kept in history; the posting trigger records the same ones
+const POSTING_COLUMNS = [
+  'id',
+  'account_id',
+  'amount_cents',
+  'booked_amount_cents',
+  'currency',
+  'is_debit',
+  'exchange_rate',
+  'reconciled',
+] as const;
+
+const postingLine = (posting: Posting) =>
+  Object.fromEntries(POSTING_COLUMNS.map((column) => [column, posting[column] ?? null]));
+
+export type RecordHistoryEntry = Omit<HistoryRow, 'changes' | 'user_id'> & { changes: FieldChange[] };
+
+export class HistoryService {
+  /**
+   * Get the edits made to a record, newest first. History is kept after the
+   * record is deleted, so an unknown record has an empty history rather than a 404.
+   */
+  async getHistory(userId: string, table: HistoryTable, recordId: string): Promise<RecordHistoryEntry[]> {
+    const { data, error } = await supabaseAdmin
+      .from('record_history')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('table_name', table)
+      .eq('record_id', recordId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return (data || [])
+      .map((row: HistoryRow) => ({
+        id: row.id,
+        table_name: row.table_name,
+        record_id: row.record_id,
+        changed_by: row.changed_by,
+        created_at: row.created_at,
+        changes: RecordHistory.fromColumns(row.changes),
+      }))
+      .filter((entry) => entry.changes.length > 0);
+  }
+
+  /**
+   * Record a transaction edit that replaced its postings as one 'postings' change
+   * listing the old lines and the new ones. Replaced postings are deleted and
+   * inserted anew, which the posting trigger leaves to this call.
+   */
+  async recordPostingReplacement(userId: string, transactionId: string, before: Posting[], after: Posting[]): Promise<void> {
+    const [was, is] = [before.map(postingLine), after.map(postingLine)];
+    // Lines resubmitted unchanged only get new ids
+    const withoutIds = (lines: Record<string, unknown>[]) => JSON.stringify(lines.map((line) => ({ ...line, id: null })));
+    if (withoutIds(was) === withoutIds(is)) return;
+
+    const { error } = await supabaseAdmin.from('record_history').insert({
+      user_id: userId,
+      table_name: 'transactions',
+      record_id: transactionId,
+      changed_by: userId,
+      changes: { postings: { before: was, after: is } },
+    });
+
+    if (error) throw error;
+  }
+}
+
+export const historyService = new HistoryService();
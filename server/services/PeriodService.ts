@@ -0,0 +1,119 @@
+import { supabaseAdmin } from '../lib/supabase';
+import { BadRequestError, PeriodClosedError } from '../middleware/errorHandler';
+import { PeriodLock } from '../../src/domain/periodClose';
+import type { Database } from '../../src/types/database';
+
+type PeriodClose = Database['public']['Tables']['period_closes']['Row'];
+type PeriodCloseEvent = Database['public']['Tables']['period_close_events']['Row'];
+
+export interface PeriodsOverview {
+  closes: PeriodClose[];
+  events: PeriodCloseEvent[];
+}
+
+export class PeriodService {
+  /**
+   * Get the closed periods, newest first
+   */
+  async getClosedPeriods(userId: string): Promise<PeriodClose[]> {
+    const { data, error } = await supabaseAdmin
+      .from('period_closes')
+      .select('*')
+      .eq('user_id', userId)
+      .order('period', { ascending: false });
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  /**
+   * Get closed periods together with the close/reopen audit trail
+   */
+  async getPeriods(userId: string): Promise<PeriodsOverview> {
+    const { data: events, error } = await supabaseAdmin
+      .from('period_close_events')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return { closes: await this.getClosedPeriods(userId), events: events || [] };
+  }
+
+  /**
+   * Throw when any of the dates falls in a closed period
+   */
+  async assertPeriodsOpen(userId: string, dates: string[]): Promise<void> {
+    const periods = [...new Set(dates.map(PeriodLock.periodOf))];
+    if (periods.length === 0) return;
+
+    const { data, error } = await supabaseAdmin
+      .from('period_closes')
+      .select('period')
+      .eq('user_id', userId)
+      .in('period', periods);
+
+    if (error) throw error;
+
+    const closed = PeriodLock.findClosed((data || []).map((row) => row.period), dates);
+    if (closed) {
+      throw new PeriodClosedError(closed);
+    }
+  }
+
+  /**
+   * Close a month that has ended and record it in the audit trail
+   */
+  async closePeriod(userId: string, period: string): Promise<PeriodClose> {
+    const closed = (await this.getClosedPeriods(userId)).map((row) => row.period);
+    const today = new Date().toISOString().slice(0, 10);
+    const validationError = PeriodLock.validateClose(period, closed, today);
+    if (validationError) {
+      throw new BadRequestError(validationError);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('period_closes')
+      .insert({ user_id: userId, period, closed_by: userId })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    await this.recordEvent(userId, period, 'close');
+    return data;
+  }
+
+  /**
+   * Reopen a closed month; the reason is kept in the audit trail
+   */
+  async reopenPeriod(userId: string, period: string, reason: string): Promise<void> {
+    const closed = (await this.getClosedPeriods(userId)).map((row) => row.period);
+    const validationError = PeriodLock.validateReopen(period, closed, reason);
+    if (validationError) {
+      throw new BadRequestError(validationError);
+    }
+
+    const { error } = await supabaseAdmin
+      .from('period_closes')
+      .delete()
+      .eq('user_id', userId)
+      .eq('period', period);
+
+    if (error) throw error;
+
+    await this.recordEvent(userId, period, 'reopen', reason.trim());
+  }
+
+  private async recordEvent(userId: string, period: string, action: PeriodCloseEvent['action'], reason?: string) {
+    const { error } = await supabaseAdmin
+      .from('period_close_events')
+      .insert({ user_id: userId, period, action, reason: reason ?? null, actor_id: userId });
+
+    if (error) throw error;
+  }
+}
+
+export const periodService = new PeriodService();
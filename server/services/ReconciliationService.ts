@@ -0,0 +1,113 @@
+import { supabaseAdmin } from '../lib/supabase';
+import { BadRequestError } from '../middleware/errorHandler';
+import { accountService } from './AccountService';
+import { AccountRegister } from '../../src/domain/register';
+import { Reconciler, type ReconcilableItem } from '../../src/domain/reconciliation';
+import type { Database } from '../../src/types/database';
+
+type Reconciliation = Database['public']['Tables']['reconciliations']['Row'];
+
+export interface CreateReconciliationInput {
+  statement_date: string;
+  statement_balance_cents: number;
+  posting_ids: string[];
+}
+
+export interface ReconciliationWithPostings extends Reconciliation {
+  posting_ids: string[];
+}
+
+// Posting joined with its transaction date, as selected for reconciliation
+interface ReconcilablePostingRow {
+  id: string;
+  amount_cents: number;
+  is_debit: boolean;
+  reconciled: boolean;
+  transactions: { date: string };
+}
+
+export class ReconciliationService {
+  /**
+   * Get an account's reconciliation history, newest statement first
+   */
+  async getReconciliations(userId: string, accountId: string): Promise<ReconciliationWithPostings[]> {
+    await accountService.getAccountById(userId, accountId);
+
+    const { data, error } = await supabaseAdmin
+      .from('reconciliations')
+      .select('*, postings(id)')
+      .eq('user_id', userId)
+      .eq('account_id', accountId)
+      .order('statement_date', { ascending: false });
+
+    if (error) throw error;
+
+    const rows = (data || []) as unknown as Array<Reconciliation & { postings: { id: string }[] | null }>;
+    return rows.map(({ postings, ...reconciliation }) => ({
+      ...reconciliation,
+      posting_ids: (postings || []).map((posting) => posting.id),
+    }));
+  }
+
+  /**
+   * Reconcile an account against a statement. The selected postings plus those
+   * already reconciled must add up to the statement's ending balance; they are
+   * then marked reconciled and locked against edits.
+   */
+  async createReconciliation(
+    userId: string,
+    accountId: string,
+    input: CreateReconciliationInput
+  ): Promise<ReconciliationWithPostings> {
+    const account = await accountService.getAccountById(userId, accountId);
+
+    const { data: postings, error: postingsError } = await supabaseAdmin
+      .from('postings')
+      .select('id, amount_cents, is_debit, reconciled, transactions!inner(date, user_id)')
+      .eq('account_id', accountId)
+      .eq('transactions.user_id', userId)
+      .lte('transactions.date', input.statement_date);
+
+    if (postingsError) throw postingsError;
+
+    const items: ReconcilableItem[] = ((postings || []) as unknown as ReconcilablePostingRow[]).map((posting) => ({
+      id: posting.id,
+      date: posting.transactions.date,
+      amountCents: AccountRegister.signedAmount(account.type, posting.is_debit, posting.amount_cents),
+      reconciled: posting.reconciled,
+    }));
+
+    const postingIds = [...new Set(input.posting_ids)];
+    const validationError = Reconciler.validate(items, postingIds, input.statement_date, input.statement_balance_cents);
+    if (validationError) {
+      throw new BadRequestError(validationError);
+    }
+
+    const { data: reconciliation, error: insertError } = await supabaseAdmin
+      .from('reconciliations')
+      .insert({
+        user_id: userId,
+        account_id: accountId,
+        statement_date: input.statement_date,
+        statement_balance_cents: input.statement_balance_cents,
+        posting_count: postingIds.length,
+      })
+      .select()
+      .single();
+
+    if (insertError) throw insertError;
+
+    if (postingIds.length > 0) {
+      const { error: updateError } = await supabaseAdmin
+        .from('postings')
+        .update({ reconciled: true, reconciled_at: reconciliation.created_at, reconciliation_id: reconciliation.id })
+        .in('id', postingIds);
+
+      if (updateError) throw updateError;
+    }
+
+    return { ...reconciliation, posting_ids: postingIds };
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
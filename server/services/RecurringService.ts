@@ -0,0 +1,296 @@
+import { supabaseAdmin } from '../lib/supabase';
+import { NotFoundError, ConflictError, BadRequestError } from '../middleware/errorHandler';
+import { RecurrenceCalculator, type RecurrenceSchedule } from '../../src/domain/recurrence';
+import type { Database, RecurringKind } from '../../src/types/database';
+
+type RecurringRule = Database['public']['Tables']['recurring_rules']['Row'];
+type RecurringRuleInsert = Database['public']['Tables']['recurring_rules']['Insert'];
+type RecurringRuleUpdate = Database['public']['Tables']['recurring_rules']['Update'];
+
+export interface RecurringRuleFilters {
+  kind?: RecurringKind;
+  sourceId?: string;
+}
+
+export interface GenerateOptions {
+  kind?: RecurringKind;
+  asOfDate: string; // Generate occurrences up to and including this date (YYYY-MM-DD)
+}
+
+export interface GenerateResult {
+  as_of: string;
+  expenses_created: number;
+  income_created: number;
+  rules_processed: number;
+}
+
+const toSchedule = (rule: RecurringRule): RecurrenceSchedule => ({
+  frequency: rule.frequency,
+  startDate: rule.start_date,
+  dayOfMonth: rule.day_of_month,
+  endDate: rule.end_date,
+  skipDates: rule.skip_dates || [],
+  paused: rule.paused,
+});
+
+export class RecurringService {
+  /**
+   * Get all recurring rules for a user
+   */
+  async getRules(userId: string, filters: RecurringRuleFilters = {}): Promise<RecurringRule[]> {
+    let query = supabaseAdmin
+      .from('recurring_rules')
+      .select('*')
+      .eq('user_id', userId);
+
+    if (filters.kind) {
+      query = query.eq('kind', filters.kind);
+    }
+
+    if (filters.sourceId) {
+      query = query.eq('source_id', filters.sourceId);
+    }
+
+    const { data, error } = await query.order('start_date', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  /**
+   * Get a single recurring rule by ID
+   */
+  async getRuleById(userId: string, ruleId: string): Promise<RecurringRule> {
+    const { data, error } = await supabaseAdmin
+      .from('recurring_rules')
+      .select('*')
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code === 'PGRST116') {
+      throw new NotFoundError('Recurring rule', ruleId);
+    }
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Create a recurring rule.
+   * Rules created from an existing expense/income treat that row as the first
+   * occurrence, so generation resumes after its start date.
+   */
+  async createRule(userId: string, ruleData: Omit<RecurringRuleInsert, 'user_id'>): Promise<RecurringRule> {
+    if (ruleData.kind === 'expense' && !ruleData.rating) {
+      throw new BadRequestError('Recurring expenses require a rating');
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('recurring_rules')
+      .insert({
+        ...ruleData,
+        day_of_month: ruleData.frequency === 'monthly' ? ruleData.day_of_month ?? null : null,
+        rating: ruleData.kind === 'expense' ? ruleData.rating : null,
+        last_generated_date: ruleData.last_generated_date ?? (ruleData.source_id ? ruleData.start_date : null),
+        user_id: userId,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      if (error.code === '23505') {
+        throw new ConflictError('A recurring rule for this transaction already exists');
+      }
+      throw error;
+    }
+
+    return data;
+  }
+
+  /**
+   * Update an existing recurring rule
+   */
+  async updateRule(userId: string, ruleId: string, updates: RecurringRuleUpdate): Promise<RecurringRule> {
+    await this.getRuleById(userId, ruleId);
+
+    const { data, error } = await supabaseAdmin
+      .from('recurring_rules')
+      .update(updates)
+      .eq('id', ruleId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Delete a recurring rule. Already generated transactions are kept.
+   */
+  async deleteRule(userId: string, ruleId: string): Promise<void> {
+    await this.getRuleById(userId, ruleId);
+
+    const { error } = await supabaseAdmin
+      .from('recurring_rules')
+      .delete()
+      .eq('id', ruleId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Skip a single occurrence of a rule
+   */
+  async skipOccurrence(userId: string, ruleId: string, date: string): Promise<RecurringRule> {
+    const rule = await this.getRuleById(userId, ruleId);
+
+    if (!RecurrenceCalculator.isOccurrence(toSchedule(rule), date)) {
+      throw new BadRequestError(`${date} is not an occurrence of this rule`);
+    }
+
+    const skipDates = Array.from(new Set([...(rule.skip_dates || []), date])).sort();
+    return this.updateRule(userId, ruleId, { skip_dates: skipDates });
+  }
+
+  /**
+   * Pause or resume a rule. Occurrences that fell while paused are not
+   * back-filled on resume.
+   */
+  async setPaused(userId: string, ruleId: string, paused: boolean, today: string): Promise<RecurringRule> {
+    const rule = await this.getRuleById(userId, ruleId);
+    if (paused) {
+      return this.updateRule(userId, ruleId, { paused });
+    }
+
+    const yesterday = new Date(Date.parse(`${today}T00:00:00Z`) - 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+    const lastGenerated = rule.last_generated_date && rule.last_generated_date > yesterday
+      ? rule.last_generated_date
+      : yesterday;
+
+    return this.updateRule(userId, ruleId, { paused, last_generated_date: lastGenerated });
+  }
+
+  /**
+   * Upcoming occurrences of a rule after a date
+   */
+  async previewOccurrences(userId: string, ruleId: string, after: string, count: number): Promise<string[]> {
+    const rule = await this.getRuleById(userId, ruleId);
+    const schedule = toSchedule(rule);
+    const occurrences: string[] = [];
+
+    let cursor = after;
+    while (occurrences.length < count) {
+      const next = RecurrenceCalculator.nextOccurrence(schedule, cursor);
+      if (!next) break;
+      occurrences.push(next);
+      cursor = next;
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * Materialize every due occurrence up to asOfDate as expense/income rows.
+   * Idempotent: each (rule, occurrence date) pair is inserted at most once, and
+   * a rule's last_generated_date only moves forward after its rows are written.
+   */
+  async generate(userId: string, options: GenerateOptions): Promise<GenerateResult> {
+    const rules = await this.getRules(userId, { kind: options.kind });
+    const result: GenerateResult = {
+      as_of: options.asOfDate,
+      expenses_created: 0,
+      income_created: 0,
+      rules_processed: 0,
+    };
+
+    for (const rule of rules) {
+      if (rule.paused) continue;
+
+      const from = rule.last_generated_date
+        ? RecurrenceCalculator.dayAfter(rule.last_generated_date)
+        : rule.start_date;
+      if (from > options.asOfDate) continue;
+
+      const dates = RecurrenceCalculator.occurrencesBetween(toSchedule(rule), from, options.asOfDate);
+      result.rules_processed++;
+
+      if (dates.length > 0) {
+        const created = rule.kind === 'expense'
+          ? await this.insertExpenses(userId, rule, dates)
+          : await this.insertIncome(userId, rule, dates);
+
+        if (rule.kind === 'expense') {
+          result.expenses_created += created;
+        } else {
+          result.income_created += created;
+        }
+      }
+
+      const { error } = await supabaseAdmin
+        .from('recurring_rules')
+        .update({ last_generated_date: options.asOfDate })
+        .eq('id', rule.id)
+        .eq('user_id', userId);
+
+      if (error) throw error;
+    }
+
+    return result;
+  }
+
+  private async insertExpenses(userId: string, rule: RecurringRule, dates: string[]): Promise<number> {
+    const rows = dates.map((date) => ({
+      user_id: userId,
+      what: rule.description,
+      amount: rule.amount,
+      currency: rule.currency,
+      rating: rule.rating!,
+      recurring: false, // Generated instances are not templates themselves
+      date,
+      recurring_rule_id: rule.id,
+      recurring_source_id: rule.source_id,
+      occurrence_date: date,
+    }));
+
+    const { data, error } = await supabaseAdmin
+      .from('expenses')
+      .upsert(rows, { onConflict: 'recurring_rule_id,occurrence_date', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+
+    return data?.length || 0;
+  }
+
+  private async insertIncome(userId: string, rule: RecurringRule, dates: string[]): Promise<number> {
+    const rows = dates.map((date) => ({
+      user_id: userId,
+      source: rule.description,
+      amount: rule.amount,
+      currency: rule.currency,
+      date,
+      frequency: 'one-time' as const, // Generated instances are not templates themselves
+      recurring_rule_id: rule.id,
+      recurring_source_id: rule.source_id,
+      occurrence_date: date,
+    }));
+
+    const { data, error } = await supabaseAdmin
+      .from('income')
+      .upsert(rows, { onConflict: 'recurring_rule_id,occurrence_date', ignoreDuplicates: true })
+      .select('id');
+
+    if (error) throw error;
+
+    return data?.length || 0;
+  }
+}
+
+export const recurringService = new RecurringService();
@@ -1,13 +1,27 @@
 import { supabaseAdmin } from '../lib/supabase';
 import { accountService } from './AccountService';
-
+import { AccountTree } from '../../src/domain/accountTree';
+import { Reversal, type TransactionStatus } from '../../src/domain/reversal';
+import type { AccountNature } from '../../src/domain/ledger';
+import {
+  Comparative,
+  type ComparativeAmount,
+  type ComparativeGranularity,
+  type ComparativePeriod,
+  type ComparativeTotals,
+} from '../../src/domain/comparative';
+
+// Report amounts are booked base currency amounts, whatever the account's own currency
 export interface AccountBalance {
   account_id: string;
   account_name: string;
   account_type: string;
   account_code: string;
-  currency: string;
-  balance_cents: number;
+  currency: string; // The account's own currency
+  parent_id: string | null;
+  depth: number; // 0 for top-level accounts
+  balance_cents: number; // In the base currency
+  subtotal_cents: number; // Balance including all sub-accounts
 }
 
 export interface TrialBalance {
@@ -54,7 +68,10 @@ export interface IncomeStatement {
       account_name: string;
       account_code: string;
       currency: string;
+      parent_id: string | null;
+      depth: number;
       amount_cents: number;
+      subtotal_cents: number;
     }>;
     total_cents: number;
   };
@@ -64,13 +81,193 @@ export interface IncomeStatement {
       account_name: string;
       account_code: string;
       currency: string;
+      parent_id: string | null;
+      depth: number;
       amount_cents: number;
+      subtotal_cents: number;
     }>;
     total_cents: number;
   };
   net_income_cents: number;
 }
 
+export type CashflowActivity = 'operating' | 'investing' | 'financing';
+
+export interface CashflowLine {
+  account_id: string;
+  account_name: string;
+  account_code: string;
+  account_type: string;
+  inflow_cents: number;
+  outflow_cents: number;
+  net_cents: number;
+}
+
+export interface CashflowSection {
+  accounts: CashflowLine[];
+  inflows_cents: number;
+  outflows_cents: number;
+  net_cents: number;
+}
+
+export interface CashflowStatement {
+  period: {
+    start_date: string;
+    end_date: string;
+  };
+  operating: CashflowSection;
+  investing: CashflowSection;
+  financing: CashflowSection;
+  cash_accounts: Array<{
+    account_id: string;
+    account_name: string;
+    account_code: string;
+    net_change_cents: number;
+  }>;
+  inflows_cents: number;
+  outflows_cents: number;
+  net_cashflow_cents: number;
+}
+
+export interface ComparativeReportVariance {
+  absolute_cents: number;
+  percent: number | null;
+}
+
+export interface ComparativeReportTotals {
+  amounts_cents: number[];
+  variances: Array<ComparativeReportVariance | null>;
+  ttm_cents?: number; // Income statement only
+}
+
+export interface ComparativeReportLine extends ComparativeReportTotals {
+  account_id: string;
+  account_name: string;
+  account_code: string;
+}
+
+export interface ComparativeReportSection {
+  lines: ComparativeReportLine[];
+  totals: ComparativeReportTotals;
+}
+
+export interface ComparativeReportPeriod {
+  label: string;
+  start_date: string;
+  end_date: string;
+}
+
+export interface ComparativeReportOptions {
+  endDate?: string;
+  granularity?: ComparativeGranularity;
+  periods?: number;
+}
+
+export interface ComparativeIncomeStatement {
+  granularity: ComparativeGranularity;
+  periods: ComparativeReportPeriod[];
+  trailing_twelve_months: ComparativeReportPeriod;
+  income: ComparativeReportSection;
+  expenses: ComparativeReportSection;
+  net_income: ComparativeReportTotals;
+}
+
+export interface ComparativeBalanceSheet {
+  granularity: ComparativeGranularity;
+  periods: ComparativeReportPeriod[]; // Balances are as of each end_date
+  assets: ComparativeReportSection;
+  liabilities: ComparativeReportSection;
+  equity: ComparativeReportSection;
+  retained_earnings: ComparativeReportTotals;
+  net_worth: ComparativeReportTotals;
+}
+
+const toReportPeriod = (period: ComparativePeriod): ComparativeReportPeriod => ({
+  label: period.label,
+  start_date: period.startDate,
+  end_date: period.endDate,
+});
+
+const toReportTotals = (totals: ComparativeTotals, ttmCents?: number): ComparativeReportTotals => ({
+  amounts_cents: totals.amounts,
+  variances: totals.variances.map((variance) =>
+    variance ? { absolute_cents: variance.absoluteCents, percent: variance.percent } : null
+  ),
+  ...(ttmCents !== undefined ? { ttm_cents: ttmCents } : {}),
+});
+
+const toReportSection = (
+  columns: ComparativeAmount[][],
+  ttmByAccount?: Map<string, number>
+): ComparativeReportSection => {
+  const lines = Comparative.lines(columns);
+  const ttmTotal = ttmByAccount ? [...ttmByAccount.values()].reduce((sum, cents) => sum + cents, 0) : undefined;
+  return {
+    lines: lines.map((line) => ({
+      account_id: line.accountId,
+      account_name: line.accountName,
+      account_code: line.accountCode,
+      ...toReportTotals(line, ttmByAccount ? ttmByAccount.get(line.accountId) || 0 : undefined),
+    })),
+    totals: toReportTotals(Comparative.totals(lines, columns.length), ttmTotal),
+  };
+};
+
+interface CashflowPostingRow {
+  transaction_id: string;
+  account_id: string;
+  amount_cents: number;
+  booked_amount_cents: number | null;
+  is_debit: boolean;
+  transactions?: { status?: TransactionStatus | null } | null;
+}
+
+// Booked (base currency) amount of a posting, so multi-currency entries add up;
+// revaluation lines on foreign accounts carry only a booked amount
+const bookedCents = (posting: { amount_cents: number; booked_amount_cents?: number | null }): number =>
+  posting.booked_amount_cents ?? posting.amount_cents;
+
+// A voided entry and the entry voiding it cancel out, so reports leave both out
+const isReportedPosting = (posting: { transactions?: { status?: TransactionStatus | null } | null }): boolean =>
+  Reversal.isReported(posting.transactions ?? {});
+
+/**
+ * Order lines parent-first and add each account's subtotal including its sub-accounts
+ */
+const withRollups = <T extends { account_id: string; account_code: string; parent_id: string | null }>(
+  lines: T[],
+  nature: (line: T) => AccountNature,
+  amount: (line: T) => number
+): Array<T & { depth: number; subtotal_cents: number }> => {
+  const byId = new Map(lines.map((line) => [line.account_id, line]));
+  const tree = AccountTree.build(
+    lines.map((line) => ({ id: line.account_id, code: line.account_code, nature: nature(line), parentId: line.parent_id }))
+  );
+  const subtotals = AccountTree.rollup(tree, new Map(lines.map((line) => [line.account_id, amount(line)])));
+  return AccountTree.flatten(tree).map((node) => ({
+    ...byId.get(node.account.id)!,
+    depth: node.depth,
+    subtotal_cents: subtotals.get(node.account.id) ?? 0,
+  }));
+};
+
+// Same heuristic the client uses to pick out cash-like asset accounts
+const CASH_ACCOUNT_KEYWORDS = ['cash', 'checking', 'savings', 'wallet', 'bank'];
+
+const isCashAccount = (account: { type: string; name: string; code: string }): boolean => {
+  if (account.type !== 'asset') return false;
+  const name = account.name.toLowerCase();
+  return CASH_ACCOUNT_KEYWORDS.some((keyword) => name.includes(keyword)) || /^10\d{2}/.test(account.code);
+};
+
+// Counter-account nature decides the section: income and expenses are operating,
+// other assets are investing, debt and equity are financing
+const activityOf = (accountType: string): CashflowActivity => {
+  if (accountType === 'asset') return 'investing';
+  if (accountType === 'liability' || accountType === 'equity') return 'financing';
+  return 'operating';
+};
+
 export class ReportService {
   /**
    * Calculate account balances as of a specific date
@@ -79,7 +276,7 @@ export class ReportService {
     // Get all user accounts
     const { data: accounts, error: accountsError } = await supabaseAdmin
       .from('accounts')
-      .select('id, name, type, code, currency')
+      .select('id, name, type, code, currency, parent_id')
       .eq('user_id', userId)
       .eq('is_active', true)
       .order('code');
@@ -90,7 +287,7 @@ export class ReportService {
     // Get all postings up to asOfDate
     const { data: postings, error: postingsError } = await supabaseAdmin
       .from('postings')
-      .select('account_id, amount_cents, is_debit, transactions!inner(date, user_id)')
+      .select('account_id, amount_cents, booked_amount_cents, is_debit, transactions!inner(date, user_id, status)')
       .eq('transactions.user_id', userId)
       .lte('transactions.date', asOfDate);
 
@@ -100,11 +297,11 @@ export class ReportService {
     const balanceMap = new Map<string, number>();
     accounts.forEach((account) => balanceMap.set(account.id, 0));
 
-    postings?.forEach((posting: any) => {
+    postings?.filter(isReportedPosting).forEach((posting: any) => {
       const account = accounts.find((a) => a.id === posting.account_id);
       if (!account) return;
 
-      let amount = posting.amount_cents;
+      let amount = bookedCents(posting);
 
       // Assets & Expenses: Debits increase, Credits decrease
       // Liabilities, Equity & Income: Credits increase, Debits decrease
@@ -117,14 +314,17 @@ export class ReportService {
       balanceMap.set(account.id, (balanceMap.get(account.id) || 0) + amount);
     });
 
-    return accounts.map((account) => ({
+    const balances = accounts.map((account) => ({
       account_id: account.id,
       account_name: account.name,
       account_type: account.type,
       account_code: account.code,
       currency: account.currency,
+      parent_id: account.parent_id ?? null,
       balance_cents: balanceMap.get(account.id) || 0,
     }));
+
+    return withRollups(balances, (line) => line.account_type as AccountNature, (line) => line.balance_cents);
   }
 
   /**
@@ -225,7 +425,7 @@ export class ReportService {
     // Get income and expense accounts
     const { data: accounts, error: accountsError } = await supabaseAdmin
       .from('accounts')
-      .select('id, name, type, code, currency')
+      .select('id, name, type, code, currency, parent_id')
       .eq('user_id', userId)
       .in('type', ['income', 'expense'])
       .order('code');
@@ -243,7 +443,7 @@ export class ReportService {
     // Get postings in date range
     const { data: postings, error: postingsError } = await supabaseAdmin
       .from('postings')
-      .select('account_id, amount_cents, is_debit, transactions!inner(date, user_id)')
+      .select('account_id, amount_cents, booked_amount_cents, is_debit, transactions!inner(date, user_id, status)')
       .eq('transactions.user_id', userId)
       .gte('transactions.date', start)
       .lte('transactions.date', end);
@@ -254,11 +454,11 @@ export class ReportService {
     const balanceMap = new Map<string, number>();
     accounts.forEach((account) => balanceMap.set(account.id, 0));
 
-    postings?.forEach((posting: any) => {
+    postings?.filter(isReportedPosting).forEach((posting: any) => {
       const account = accounts.find((a) => a.id === posting.account_id);
       if (!account) return;
 
-      let amount = posting.amount_cents;
+      let amount = bookedCents(posting);
 
       // Income: Credits increase, Debits decrease
       // Expenses: Debits increase, Credits decrease
@@ -271,25 +471,35 @@ export class ReportService {
       balanceMap.set(account.id, (balanceMap.get(account.id) || 0) + amount);
     });
 
-    const incomeAccounts = accounts
-      .filter((a) => a.type === 'income')
-      .map((a) => ({
-        account_id: a.id,
-        account_name: a.name,
-        account_code: a.code,
-        currency: a.currency,
-        amount_cents: balanceMap.get(a.id) || 0,
-      }));
-
-    const expenseAccounts = accounts
-      .filter((a) => a.type === 'expense')
-      .map((a) => ({
-        account_id: a.id,
-        account_name: a.name,
-        account_code: a.code,
-        currency: a.currency,
-        amount_cents: balanceMap.get(a.id) || 0,
-      }));
+    const incomeAccounts = withRollups(
+      accounts
+        .filter((a) => a.type === 'income')
+        .map((a) => ({
+          account_id: a.id,
+          account_name: a.name,
+          account_code: a.code,
+          currency: a.currency,
+          parent_id: a.parent_id ?? null,
+          amount_cents: balanceMap.get(a.id) || 0,
+        })),
+      () => 'income',
+      (line) => line.amount_cents
+    );
+
+    const expenseAccounts = withRollups(
+      accounts
+        .filter((a) => a.type === 'expense')
+        .map((a) => ({
+          account_id: a.id,
+          account_name: a.name,
+          account_code: a.code,
+          currency: a.currency,
+          parent_id: a.parent_id ?? null,
+          amount_cents: balanceMap.get(a.id) || 0,
+        })),
+      () => 'expense',
+      (line) => line.amount_cents
+    );
 
     const totalIncome = incomeAccounts.reduce((sum, a) => sum + a.amount_cents, 0);
     const totalExpenses = expenseAccounts.reduce((sum, a) => sum + a.amount_cents, 0);
@@ -311,6 +521,86 @@ export class ReportService {
     };
   }
 
+  /**
+   * Income statement for consecutive periods side by side, with each period compared
+   * to the one before and trailing-twelve-month totals ending with the last period
+   */
+  async getComparativeIncomeStatement(
+    userId: string,
+    options: ComparativeReportOptions = {}
+  ): Promise<ComparativeIncomeStatement> {
+    const granularity = options.granularity || 'month';
+    const endDate = options.endDate || new Date().toISOString().split('T')[0];
+    const periods = Comparative.periods(endDate, granularity, options.periods || 3);
+    const ttm = Comparative.trailingTwelveMonths(periods[periods.length - 1].endDate);
+
+    const statements = await Promise.all(
+      periods.map((period) => this.getIncomeStatement(userId, period.startDate, period.endDate))
+    );
+    const ttmStatement = await this.getIncomeStatement(userId, ttm.startDate, ttm.endDate);
+
+    const toAmounts = (accounts: IncomeStatement['income']['accounts']): ComparativeAmount[] =>
+      accounts.map((account) => ({
+        accountId: account.account_id,
+        accountName: account.account_name,
+        accountCode: account.account_code,
+        amountCents: account.amount_cents,
+      }));
+    const toTtm = (accounts: IncomeStatement['income']['accounts']) =>
+      new Map(accounts.map((account) => [account.account_id, account.amount_cents]));
+
+    const incomeColumns = statements.map((statement) => toAmounts(statement.income.accounts));
+    const expenseColumns = statements.map((statement) => toAmounts(statement.expenses.accounts));
+    const incomeTotals = Comparative.totals(Comparative.lines(incomeColumns), periods.length);
+    const expenseTotals = Comparative.totals(Comparative.lines(expenseColumns), periods.length);
+
+    return {
+      granularity,
+      periods: periods.map(toReportPeriod),
+      trailing_twelve_months: toReportPeriod(ttm),
+      income: toReportSection(incomeColumns, toTtm(ttmStatement.income.accounts)),
+      expenses: toReportSection(expenseColumns, toTtm(ttmStatement.expenses.accounts)),
+      net_income: toReportTotals(Comparative.difference(incomeTotals, expenseTotals), ttmStatement.net_income_cents),
+    };
+  }
+
+  /**
+   * Balance sheet as of the end of consecutive periods, with each period compared to the one before
+   */
+  async getComparativeBalanceSheet(
+    userId: string,
+    options: ComparativeReportOptions = {}
+  ): Promise<ComparativeBalanceSheet> {
+    const granularity = options.granularity || 'month';
+    const endDate = options.endDate || new Date().toISOString().split('T')[0];
+    const periods = Comparative.periods(endDate, granularity, options.periods || 3);
+
+    const sheets = await Promise.all(periods.map((period) => this.getBalanceSheet(userId, period.endDate)));
+
+    const toAmounts = (accounts: AccountBalance[]): ComparativeAmount[] =>
+      accounts.map((account) => ({
+        accountId: account.account_id,
+        accountName: account.account_name,
+        accountCode: account.account_code,
+        amountCents: account.balance_cents,
+      }));
+
+    const assets = toReportSection(sheets.map((sheet) => toAmounts(sheet.assets.accounts)));
+    const liabilities = toReportSection(sheets.map((sheet) => toAmounts(sheet.liabilities.accounts)));
+    const retained = sheets.map((sheet) => sheet.equity.retained_earnings_cents);
+    const netWorth = sheets.map((sheet) => sheet.assets.total_cents - sheet.liabilities.total_cents);
+
+    return {
+      granularity,
+      periods: periods.map(toReportPeriod),
+      assets,
+      liabilities,
+      equity: toReportSection(sheets.map((sheet) => toAmounts(sheet.equity.accounts))),
+      retained_earnings: toReportTotals(Comparative.totals([{ amounts: retained, variances: [] }], periods.length)),
+      net_worth: toReportTotals(Comparative.totals([{ amounts: netWorth, variances: [] }], periods.length)),
+    };
+  }
+
   /**
    * Get all account balances (simplified view)
    */
@@ -348,21 +638,120 @@ export class ReportService {
   }
 
   /**
-   * Get cashflow summary for a period
+   * Generate cash flow statement for a date range.
+   * Each cash posting is attributed to the non-cash postings of its transaction, so a
+   * loan payment splits into principal (financing) and interest (operating). Transfers
+   * between cash accounts net to zero and are left out.
    */
-  async getCashflow(userId: string, startDate?: string, endDate?: string): Promise<{
-    period: { start_date: string; end_date: string };
-    inflows_cents: number;
-    outflows_cents: number;
-    net_cashflow_cents: number;
-  }> {
-    const incomeStatement = await this.getIncomeStatement(userId, startDate, endDate);
+  async getCashflow(userId: string, startDate?: string, endDate?: string): Promise<CashflowStatement> {
+    const end = endDate || new Date().toISOString().split('T')[0];
+    const start =
+      startDate ||
+      new Date(new Date().getFullYear(), new Date().getMonth(), 1).toISOString().split('T')[0];
+
+    const { data: accounts, error: accountsError } = await supabaseAdmin
+      .from('accounts')
+      .select('id, name, type, code, currency')
+      .eq('user_id', userId)
+      .order('code');
+
+    if (accountsError) throw accountsError;
+
+    const { data: postings, error: postingsError } = await supabaseAdmin
+      .from('postings')
+      .select('transaction_id, account_id, amount_cents, booked_amount_cents, is_debit, transactions!inner(date, user_id, status)')
+      .eq('transactions.user_id', userId)
+      .gte('transactions.date', start)
+      .lte('transactions.date', end);
+
+    if (postingsError) throw postingsError;
+
+    const accountsById = new Map((accounts || []).map((account) => [account.id, account]));
+    const cashAccountIds = new Set((accounts || []).filter(isCashAccount).map((account) => account.id));
+
+    // Group postings by transaction; only transactions that move cash matter
+    const byTransaction = new Map<string, CashflowPostingRow[]>();
+    ((postings || []) as CashflowPostingRow[]).filter(isReportedPosting).forEach((posting) => {
+      const group = byTransaction.get(posting.transaction_id) || [];
+      group.push(posting);
+      byTransaction.set(posting.transaction_id, group);
+    });
+
+    // Signed cash effect per account: positive is money coming in
+    const cashEffect = new Map<string, number>();
+    const cashChange = new Map<string, number>();
+    const addTo = (map: Map<string, number>, accountId: string, cents: number) => {
+      map.set(accountId, (map.get(accountId) || 0) + cents);
+    };
+
+    byTransaction.forEach((group) => {
+      if (!group.some((posting) => cashAccountIds.has(posting.account_id))) return;
+
+      group.forEach((posting) => {
+        const amount = bookedCents(posting);
+        if (cashAccountIds.has(posting.account_id)) {
+          addTo(cashChange, posting.account_id, posting.is_debit ? amount : -amount);
+        } else {
+          // A credit to the counter-account is the cash that came in for it
+          addTo(cashEffect, posting.account_id, posting.is_debit ? -amount : amount);
+        }
+      });
+    });
+
+    const emptySection = (): CashflowSection => ({ accounts: [], inflows_cents: 0, outflows_cents: 0, net_cents: 0 });
+    const sections: Record<CashflowActivity, CashflowSection> = {
+      operating: emptySection(),
+      investing: emptySection(),
+      financing: emptySection(),
+    };
+
+    (accounts || []).forEach((account) => {
+      const net = cashEffect.get(account.id);
+      if (!net) return;
+
+      const section = sections[activityOf(account.type)];
+      const line: CashflowLine = {
+        account_id: account.id,
+        account_name: account.name,
+        account_code: account.code,
+        account_type: account.type,
+        inflow_cents: Math.max(net, 0),
+        outflow_cents: Math.max(-net, 0),
+        net_cents: net,
+      };
+      section.accounts.push(line);
+      section.inflows_cents += line.inflow_cents;
+      section.outflows_cents += line.outflow_cents;
+      section.net_cents += net;
+    });
+
+    const cashAccounts = [...cashChange.entries()]
+      .filter(([accountId]) => accountsById.has(accountId))
+      .map(([accountId, net]) => {
+        const account = accountsById.get(accountId)!;
+        return {
+          account_id: accountId,
+          account_name: account.name,
+          account_code: account.code,
+          net_change_cents: net,
+        };
+      })
+      .sort((a, b) => a.account_code.localeCompare(b.account_code));
+
+    const all = Object.values(sections);
+    const inflows = all.reduce((sum, section) => sum + section.inflows_cents, 0);
+    const outflows = all.reduce((sum, section) => sum + section.outflows_cents, 0);
 
     return {
-      period: incomeStatement.period,
-      inflows_cents: incomeStatement.income.total_cents,
-      outflows_cents: incomeStatement.expenses.total_cents,
-      net_cashflow_cents: incomeStatement.net_income_cents,
+      period: {
+        start_date: start,
+        end_date: end,
+      },
+      ...sections,
+      cash_accounts: cashAccounts,
+      inflows_cents: inflows,
+      outflows_cents: outflows,
+      net_cashflow_cents: inflows - outflows,
     };
   }
 }
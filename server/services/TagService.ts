@@ -0,0 +1,274 @@
+import { supabaseAdmin } from '../lib/supabase';
+import { NotFoundError, BadRequestError, ConflictError } from '../middleware/errorHandler';
+import { ratesService } from './RatesService';
+import { Tags, TAG_COLORS, type TaggedAmount, type TagSummary } from '../../src/domain/tags';
+import type { Database } from '../../src/types/database';
+
+type Tag = Database['public']['Tables']['tags']['Row'];
+
+// Tables whose rows carry a `tags` array of tag names
+const TAGGED_TABLES = ['transactions', 'expenses', 'income'] as const;
+
+export interface TagReportOptions {
+  startDate?: string;
+  endDate?: string;
+  currency?: string; // Report currency; defaults to MXN
+}
+
+export interface TagReport {
+  period: { start_date: string | null; end_date: string | null };
+  currency: string;
+  tags: Array<{
+    tag: string;
+    color: string | null; // Null for names used on entries without a tag definition
+    expense_cents: number;
+    income_cents: number;
+    net_cents: number;
+    entry_count: number;
+  }>;
+}
+
+export class TagService {
+  /**
+   * Get all tags for a user, by name
+   */
+  async getTags(userId: string): Promise<Tag[]> {
+    const { data, error } = await supabaseAdmin
+      .from('tags')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  /**
+   * Get a single tag by ID
+   */
+  async getTagById(userId: string, tagId: string): Promise<Tag> {
+    const { data, error } = await supabaseAdmin
+      .from('tags')
+      .select('*')
+      .eq('id', tagId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error && error.code === 'PGRST116') {
+      throw new NotFoundError('Tag', tagId);
+    }
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Create a tag; names are stored in canonical form and unique per user
+   */
+  async createTag(userId: string, tagData: { name: string; color?: string }): Promise<Tag> {
+    const name = this.assertValidName(tagData.name);
+    await this.assertNameAvailable(userId, name);
+
+    const { data, error } = await supabaseAdmin
+      .from('tags')
+      .insert({
+        user_id: userId,
+        name,
+        color: this.assertValidColor(tagData.color ?? TAG_COLORS[0]),
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Rename or recolor a tag. A new name is written to every entry that carries the old one.
+   */
+  async updateTag(userId: string, tagId: string, updates: { name?: string; color?: string }): Promise<Tag> {
+    const tag = await this.getTagById(userId, tagId);
+    const name = updates.name !== undefined ? this.assertValidName(updates.name) : tag.name;
+
+    if (name !== tag.name) {
+      await this.assertNameAvailable(userId, name);
+      await this.rewriteEntries(userId, [tag.name], name);
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from('tags')
+      .update({
+        name,
+        ...(updates.color !== undefined && { color: this.assertValidColor(updates.color) }),
+      })
+      .eq('id', tagId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error) throw error;
+
+    return data;
+  }
+
+  /**
+   * Fold the source tags into the target: entries get the target's name and the sources are deleted
+   */
+  async mergeTags(userId: string, targetId: string, sourceIds: string[]): Promise<Tag> {
+    const target = await this.getTagById(userId, targetId);
+    const ids = [...new Set(sourceIds)].filter((id) => id !== targetId);
+    if (ids.length === 0) {
+      throw new BadRequestError('Choose at least one other tag to merge');
+    }
+
+    const sources = await Promise.all(ids.map((id) => this.getTagById(userId, id)));
+    await this.rewriteEntries(userId, sources.map((source) => source.name), target.name);
+
+    const { error } = await supabaseAdmin
+      .from('tags')
+      .delete()
+      .in('id', ids)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    return target;
+  }
+
+  /**
+   * Delete a tag and remove its name from every entry
+   */
+  async deleteTag(userId: string, tagId: string): Promise<void> {
+    const tag = await this.getTagById(userId, tagId);
+    await this.rewriteEntries(userId, [tag.name], null);
+
+    const { error } = await supabaseAdmin
+      .from('tags')
+      .delete()
+      .eq('id', tagId)
+      .eq('user_id', userId);
+
+    if (error) throw error;
+  }
+
+  /**
+   * Spending and income per tag over a date range, converted to one currency.
+   * Built from expenses and income entries; an entry with several tags counts toward each.
+   */
+  async getTagReport(userId: string, options: TagReportOptions = {}): Promise<TagReport> {
+    const currency = options.currency ?? 'MXN';
+
+    const fetchTagged = async (table: 'expenses' | 'income') => {
+      let query = supabaseAdmin
+        .from(table)
+        .select('amount, currency, tags')
+        .eq('user_id', userId)
+        .neq('tags', '{}');
+
+      if (options.startDate) {
+        query = query.gte('date', options.startDate);
+      }
+      if (options.endDate) {
+        query = query.lte('date', options.endDate);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+      return (data || []) as Array<{ amount: number; currency: string; tags: string[] }>;
+    };
+
+    const [expenses, income, tags] = await Promise.all([
+      fetchTagged('expenses'),
+      fetchTagged('income'),
+      this.getTags(userId),
+    ]);
+
+    // Resolve each currency once
+    const rates = new Map<string, number>([[currency, 1]]);
+    for (const entry of [...expenses, ...income]) {
+      if (!rates.has(entry.currency)) {
+        rates.set(entry.currency, await ratesService.getRate(entry.currency, currency));
+      }
+    }
+
+    const toAmount = (kind: TaggedAmount['kind']) => (entry: { amount: number; currency: string; tags: string[] }): TaggedAmount => ({
+      kind,
+      tags: entry.tags,
+      amountCents: Math.round(Number(entry.amount) * (rates.get(entry.currency) || 1) * 100),
+    });
+
+    const colors = new Map(tags.map((tag) => [tag.name, tag.color]));
+    const summaries: TagSummary[] = Tags.summarize([...expenses.map(toAmount('expense')), ...income.map(toAmount('income'))]);
+
+    return {
+      period: { start_date: options.startDate ?? null, end_date: options.endDate ?? null },
+      currency,
+      tags: summaries.map((summary) => ({
+        tag: summary.tag,
+        color: colors.get(summary.tag) ?? null,
+        expense_cents: summary.expenseCents,
+        income_cents: summary.incomeCents,
+        net_cents: summary.netCents,
+        entry_count: summary.entryCount,
+      })),
+    };
+  }
+
+  /**
+   * Replace tag names on every transaction, expense and income entry of the user
+   * that carries one of them; `to` null removes them
+   */
+  private async rewriteEntries(userId: string, from: string[], to: string | null): Promise<void> {
+    for (const table of TAGGED_TABLES) {
+      const { data: rows, error } = await supabaseAdmin
+        .from(table)
+        .select('id, tags')
+        .eq('user_id', userId)
+        .overlaps('tags', from);
+
+      if (error) throw error;
+
+      for (const row of (rows || []) as Array<{ id: string; tags: string[] }>) {
+        const { error: updateError } = await supabaseAdmin
+          .from(table)
+          .update({ tags: Tags.replace(row.tags, from, to) })
+          .eq('id', row.id)
+          .eq('user_id', userId);
+
+        if (updateError) throw updateError;
+      }
+    }
+  }
+
+  private assertValidName(name: string): string {
+    const nameError = Tags.validateName(name);
+    if (nameError) throw new BadRequestError(nameError);
+    return Tags.normalize(name);
+  }
+
+  private assertValidColor(color: string): string {
+    if (!Tags.isValidColor(color)) {
+      throw new BadRequestError('Tag color must be a hex color like #3b82f6');
+    }
+    return color.toLowerCase();
+  }
+
+  private async assertNameAvailable(userId: string, name: string): Promise<void> {
+    const { data: existing, error } = await supabaseAdmin
+      .from('tags')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('name', name)
+      .single();
+
+    if (error && error.code !== 'PGRST116') throw error;
+
+    if (existing) {
+      throw new ConflictError(`Tag '${name}' already exists; merge the tags instead`);
+    }
+  }
+}
+
+export const tagService = new TagService();
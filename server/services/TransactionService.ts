@@ -1,6 +1,10 @@
 import { supabaseAdmin } from '../lib/supabase';
-import { NotFoundError, BadRequestError, UnbalancedTransactionError } from '../middleware/errorHandler';
+import { NotFoundError, BadRequestError, UnbalancedTransactionError, ConflictError } from '../middleware/errorHandler';
 import { accountService } from './AccountService';
+import { periodService } from './PeriodService';
+import { historyService } from './HistoryService';
+import { Reconciler, LOCKED_TRANSACTION_FIELDS } from '../../src/domain/reconciliation';
+import { Reversal, type ReversalKind } from '../../src/domain/reversal';
 import type { Database } from '../../src/types/database';
 
 type Transaction = Database['public']['Tables']['transactions']['Row'];
@@ -13,21 +17,34 @@ export interface PostingInput {
   amount_cents: number;
   currency: string;
   is_debit: boolean;
+  exchange_rate?: number; // Base units per posting currency unit
+  booked_amount_cents?: number; // Base currency value; defaults to amount_cents
 }
 
 export interface CreateTransactionInput {
   date: string;
   description: string;
   memo?: string;
+  reference?: string;
+  tags?: string[];
+  base_currency?: string;
   transaction_type?: 'income' | 'expense' | 'transfer' | 'adjustment';
   postings: PostingInput[];
 }
 
+// One line of a split expense; lines without an account post to the expense's default account
+export interface ExpenseSplitPostingInput {
+  amount_cents: number;
+  expense_account_id?: string;
+}
+
 export interface TransactionFilters {
   startDate?: string;
   endDate?: string;
   type?: 'income' | 'expense' | 'transfer' | 'adjustment';
   account_id?: string;
+  tag?: string; // Only transactions carrying this tag
+  include_voided?: boolean; // Voided entries are left out unless asked for
   page?: number;
   limit?: number;
 }
@@ -51,11 +68,56 @@ export class TransactionService {
    * Validate that debits equal credits
    */
   private validateBalance(postings: PostingInput[]): boolean {
-    const debits = postings.filter((p) => p.is_debit).reduce((sum, p) => sum + p.amount_cents, 0);
-    const credits = postings.filter((p) => !p.is_debit).reduce((sum, p) => sum + p.amount_cents, 0);
+    const booked = (p: PostingInput) => p.booked_amount_cents ?? p.amount_cents;
+    const debits = postings.filter((p) => p.is_debit).reduce((sum, p) => sum + booked(p), 0);
+    const credits = postings.filter((p) => !p.is_debit).reduce((sum, p) => sum + booked(p), 0);
     return debits === credits;
   }
 
+  /**
+   * Posting rows for a transaction; same-currency postings are booked at their own amount
+   */
+  private toPostingRows(transactionId: string, postings: PostingInput[]) {
+    return postings.map((p) => ({
+      ...p,
+      booked_amount_cents: p.booked_amount_cents ?? p.amount_cents,
+      transaction_id: transactionId,
+    }));
+  }
+
+  /**
+   * Build expense postings: one debit per split line (or a single debit when
+   * not split) and one credit to the funding account for the total
+   */
+  private buildExpensePostings(data: {
+    amount_cents: number;
+    currency: string;
+    funding_account_id: string;
+    expense_account_id: string;
+    splits?: ExpenseSplitPostingInput[];
+  }): PostingInput[] {
+    const splits = data.splits?.length ? data.splits : [{ amount_cents: data.amount_cents }];
+    const splitTotal = splits.reduce((sum, split) => sum + split.amount_cents, 0);
+    if (splitTotal !== data.amount_cents) {
+      throw new BadRequestError('Split lines must add up to the expense total');
+    }
+
+    return [
+      ...splits.map((split) => ({
+        account_id: split.expense_account_id ?? data.expense_account_id,
+        amount_cents: split.amount_cents,
+        currency: data.currency,
+        is_debit: true,
+      })),
+      {
+        account_id: data.funding_account_id,
+        amount_cents: data.amount_cents,
+        currency: data.currency,
+        is_debit: false,
+      },
+    ];
+  }
+
   /**
    * Verify all accounts belong to user
    */
@@ -78,7 +140,7 @@ export class TransactionService {
    * Get all transactions for a user with optional filtering
    */
   async getTransactions(userId: string, filters: TransactionFilters = {}): Promise<PaginatedTransactions> {
-    const { startDate, endDate, type, account_id, page = 1, limit = 20 } = filters;
+    const { startDate, endDate, type, account_id, tag, include_voided = false, page = 1, limit = 20 } = filters;
     const offset = (page - 1) * limit;
 
     // If filtering by account, get transaction IDs first
@@ -117,6 +179,14 @@ export class TransactionService {
       query = query.eq('transaction_type', type);
     }
 
+    if (tag) {
+      query = query.contains('tags', [tag]);
+    }
+
+    if (!include_voided) {
+      query = query.neq('status', 'voided');
+    }
+
     if (transactionIds) {
       query = query.in('id', transactionIds);
     }
@@ -168,6 +238,8 @@ export class TransactionService {
       throw new UnbalancedTransactionError();
     }
 
+    await periodService.assertPeriodsOpen(userId, [input.date]);
+
     // Verify account ownership
     await this.verifyAccountOwnership(
       userId,
@@ -187,12 +259,9 @@ export class TransactionService {
     if (txError) throw txError;
 
     // Create postings
-    const postingsData = postings.map((p) => ({
-      ...p,
-      transaction_id: transaction.id,
-    }));
-
-    const { error: postingsError } = await supabaseAdmin.from('postings').insert(postingsData);
+    const { error: postingsError } = await supabaseAdmin
+      .from('postings')
+      .insert(this.toPostingRows(transaction.id, postings));
 
     if (postingsError) {
       // Rollback transaction
@@ -215,7 +284,35 @@ export class TransactionService {
     const { postings, ...transactionData } = updates;
 
     // Verify transaction exists
-    await this.getTransactionById(userId, transactionId);
+    const existing = await this.getTransactionById(userId, transactionId);
+
+    if (existing.status === 'voided') {
+      throw new ConflictError('Voided transactions cannot be edited');
+    }
+
+    const movesMoney = LOCKED_TRANSACTION_FIELDS.some((field) => updates[field] !== undefined);
+
+    if (Reconciler.isLocked(existing) && movesMoney) {
+      throw new ConflictError('Transaction has reconciled postings; its date and postings cannot change');
+    }
+
+    // A reversed entry and the entry reversing it must keep offsetting each other
+    const reversalError = Reversal.validate(
+      {
+        date: existing.date,
+        status: existing.status,
+        reversesId: existing.reverses_id,
+        reversedById: existing.reversed_by_id,
+      },
+      'void',
+      existing.date
+    );
+    if (reversalError && movesMoney) {
+      throw new ConflictError('Transaction is part of a void or reversal; its date and postings cannot change');
+    }
+
+    // Neither the current nor the new date may fall in a closed period
+    await periodService.assertPeriodsOpen(userId, updates.date ? [existing.date, updates.date] : [existing.date]);
 
     // Update transaction header if data provided
     if (Object.keys(transactionData).length > 0) {
@@ -249,33 +346,130 @@ export class TransactionService {
       if (deleteError) throw deleteError;
 
       // Create new postings
-      const postingsData = postings.map((p) => ({
-        ...p,
-        transaction_id: transactionId,
-      }));
-
-      const { error: postingsError } = await supabaseAdmin.from('postings').insert(postingsData);
+      const { error: postingsError } = await supabaseAdmin
+        .from('postings')
+        .insert(this.toPostingRows(transactionId, postings));
 
       if (postingsError) throw postingsError;
+
+      const updated = await this.getTransactionById(userId, transactionId);
+      await historyService.recordPostingReplacement(userId, transactionId, existing.postings, updated.postings);
+      return updated;
     }
 
     return this.getTransactionById(userId, transactionId);
   }
 
   /**
-   * Delete a transaction (cascades to postings)
+   * Posted transactions are never removed: deleting one voids it, so the entry and
+   * its offset stay in the audit trail
    */
-  async deleteTransaction(userId: string, transactionId: string): Promise<void> {
-    // Verify transaction exists
-    await this.getTransactionById(userId, transactionId);
+  async deleteTransaction(userId: string, transactionId: string, reason?: string): Promise<TransactionWithPostings> {
+    return this.voidTransaction(userId, transactionId, reason);
+  }
+
+  /**
+   * Void a transaction: an offsetting entry on the same date cancels it and both
+   * are marked voided, so reports leave them out
+   */
+  async voidTransaction(userId: string, transactionId: string, reason?: string): Promise<TransactionWithPostings> {
+    const original = await this.getTransactionById(userId, transactionId);
+
+    if (Reconciler.isLocked(original)) {
+      throw new ConflictError('Transaction has reconciled postings; reverse it instead of voiding');
+    }
+
+    return this.createReversal(userId, original, 'void', original.date, reason);
+  }
+
+  /**
+   * Void the transaction behind an expense or income entry that is being removed.
+   * One already voided or reversed is left as it is; the period and reconciliation
+   * checks still apply to the rest, so the caller keeps its entry when they fail.
+   */
+  async voidLinkedTransaction(userId: string, transactionId: string, reason: string): Promise<void> {
+    const linked = await this.getTransactionById(userId, transactionId);
+    if (linked.status === 'voided' || linked.reversed_by_id) return;
+
+    await this.voidTransaction(userId, transactionId, reason);
+  }
+
+  /**
+   * Reverse a transaction with an offsetting entry on a later date; the original
+   * stays posted and counts until the reversal date
+   */
+  async reverseTransaction(
+    userId: string,
+    transactionId: string,
+    date: string,
+    reason?: string
+  ): Promise<TransactionWithPostings> {
+    const original = await this.getTransactionById(userId, transactionId);
+    return this.createReversal(userId, original, 'reverse', date, reason);
+  }
+
+  /**
+   * Post the offsetting entry and link it and the original to each other
+   */
+  private async createReversal(
+    userId: string,
+    original: TransactionWithPostings,
+    kind: ReversalKind,
+    date: string,
+    reason?: string
+  ): Promise<TransactionWithPostings> {
+    const reversalError = Reversal.validate(
+      {
+        date: original.date,
+        status: original.status,
+        reversesId: original.reverses_id,
+        reversedById: original.reversed_by_id,
+      },
+      kind,
+      date
+    );
+    if (reversalError) {
+      throw new ConflictError(reversalError);
+    }
+
+    const reversal = await this.createTransaction(userId, {
+      date,
+      description: Reversal.description(kind, original.description),
+      memo: reason?.trim() || undefined,
+      reference: original.reference ?? undefined,
+      tags: original.tags,
+      base_currency: original.base_currency ?? undefined,
+      transaction_type: original.transaction_type ?? undefined,
+      postings: original.postings.map((posting) => ({
+        account_id: posting.account_id,
+        amount_cents: posting.amount_cents,
+        currency: posting.currency,
+        is_debit: !posting.is_debit,
+        exchange_rate: posting.exchange_rate ?? undefined,
+        booked_amount_cents: posting.booked_amount_cents ?? undefined,
+      })),
+    });
+
+    const status = kind === 'void' ? 'voided' : 'posted';
+    const voidedAt = kind === 'void' ? new Date().toISOString() : null;
 
-    const { error } = await supabaseAdmin
+    const { error: reversalUpdateError } = await supabaseAdmin
       .from('transactions')
-      .delete()
-      .eq('id', transactionId)
+      .update({ status, voided_at: voidedAt, reverses_id: original.id })
+      .eq('id', reversal.id)
       .eq('user_id', userId);
 
-    if (error) throw error;
+    if (reversalUpdateError) throw reversalUpdateError;
+
+    const { error: originalUpdateError } = await supabaseAdmin
+      .from('transactions')
+      .update({ status, voided_at: voidedAt, reversed_by_id: reversal.id })
+      .eq('id', original.id)
+      .eq('user_id', userId);
+
+    if (originalUpdateError) throw originalUpdateError;
+
+    return this.getTransactionById(userId, reversal.id);
   }
 
   /**
@@ -291,12 +485,14 @@ export class TransactionService {
       deposit_account_id: string;
       income_account_id: string;
       memo?: string;
+      tags?: string[];
     }
   ): Promise<TransactionWithPostings> {
     return this.createTransaction(userId, {
       date: data.date,
       description: data.description,
       memo: data.memo,
+      tags: data.tags,
       transaction_type: 'income',
       postings: [
         {
@@ -327,28 +523,78 @@ export class TransactionService {
       currency: string;
       funding_account_id: string;
       expense_account_id: string;
+      splits?: ExpenseSplitPostingInput[];
       memo?: string;
+      tags?: string[];
     }
   ): Promise<TransactionWithPostings> {
     return this.createTransaction(userId, {
       date: data.date,
       description: data.description,
       memo: data.memo,
+      tags: data.tags,
       transaction_type: 'expense',
-      postings: [
-        {
-          account_id: data.expense_account_id,
-          amount_cents: data.amount_cents,
-          currency: data.currency,
-          is_debit: true,
-        },
-        {
-          account_id: data.funding_account_id,
-          amount_cents: data.amount_cents,
-          currency: data.currency,
-          is_debit: false,
-        },
-      ],
+      postings: this.buildExpensePostings(data),
+    });
+  }
+
+  /**
+   * Rebuild the postings of an expense transaction after its amount or split
+   * lines change. The funding account and currency are kept; lines without an
+   * account post to the account of the first existing debit. A new date or tags
+   * are applied in the same update.
+   */
+  async updateExpenseTransaction(
+    userId: string,
+    transactionId: string,
+    data: {
+      amount_cents: number;
+      splits?: ExpenseSplitPostingInput[];
+      date?: string;
+      tags?: string[];
+    }
+  ): Promise<TransactionWithPostings> {
+    const { amount_cents, splits, ...changes } = data;
+    const transaction = await this.getTransactionById(userId, transactionId);
+    const credit = transaction.postings.find((p) => !p.is_debit);
+    const debit = transaction.postings.find((p) => p.is_debit);
+
+    if (!credit || !debit) {
+      throw new BadRequestError('Transaction is not an expense transaction');
+    }
+
+    return this.updateTransaction(userId, transactionId, {
+      ...changes,
+      postings: this.buildExpensePostings({
+        amount_cents,
+        currency: credit.currency,
+        funding_account_id: credit.account_id,
+        expense_account_id: debit.account_id,
+        splits,
+      }),
+    });
+  }
+
+  /**
+   * Set a new amount on both postings of an income transaction; the accounts and
+   * currency are kept. A new date or tags are applied in the same update.
+   */
+  async updateIncomeTransaction(
+    userId: string,
+    transactionId: string,
+    data: { amount_cents: number; date?: string; tags?: string[] }
+  ): Promise<TransactionWithPostings> {
+    const { amount_cents, ...changes } = data;
+    const transaction = await this.getTransactionById(userId, transactionId);
+
+    return this.updateTransaction(userId, transactionId, {
+      ...changes,
+      postings: transaction.postings.map((posting) => ({
+        account_id: posting.account_id,
+        amount_cents,
+        currency: posting.currency,
+        is_debit: posting.is_debit,
+      })),
     });
   }
 
@@ -2,12 +2,21 @@ export { AccountService, accountService } from './AccountService';
 export { TransactionService, transactionService } from './TransactionService';
 export { ReportService, reportService } from './ReportService';
 export { RatesService, ratesService } from './RatesService';
+export { BudgetService, budgetService } from './BudgetService';
+export { RecurringService, recurringService } from './RecurringService';
+export { CategorizationService, categorizationService } from './CategorizationService';
+export { ReconciliationService, reconciliationService } from './ReconciliationService';
+export { PeriodService, periodService } from './PeriodService';
+export { FxRevaluationService, fxRevaluationService } from './FxRevaluationService';
+export { TagService, tagService } from './TagService';
+export { HistoryService, historyService } from './HistoryService';
 
 // Re-export types
-export type { AccountFilters, PaginatedAccounts } from './AccountService';
+export type { AccountFilters, PaginatedAccounts, AccountRegisterRange, AccountRegisterResult } from './AccountService';
 export type {
   PostingInput,
   CreateTransactionInput,
+  ExpenseSplitPostingInput,
   TransactionFilters,
   TransactionWithPostings,
   PaginatedTransactions,
@@ -17,5 +26,20 @@ export type {
   TrialBalance,
   BalanceSheet,
   IncomeStatement,
+  CashflowActivity,
+  CashflowLine,
+  CashflowSection,
+  CashflowStatement,
+  ComparativeReportOptions,
+  ComparativeIncomeStatement,
+  ComparativeBalanceSheet,
 } from './ReportService';
 export type { ExchangeRates, ConversionResult } from './RatesService';
+export type { BudgetStatus, BudgetStatusReport } from './BudgetService';
+export type { RecurringRuleFilters, GenerateOptions, GenerateResult } from './RecurringService';
+export type { ApplyRulesOptions, ApplyRulesResult, CategorizeExpenseResult } from './CategorizationService';
+export type { CreateReconciliationInput, ReconciliationWithPostings } from './ReconciliationService';
+export type { PeriodsOverview } from './PeriodService';
+export type { RevaluationInput, RevaluationReport, RevaluationReportLine } from './FxRevaluationService';
+export type { TagReportOptions, TagReport } from './TagService';
+export type { RecordHistoryEntry } from './HistoryService';
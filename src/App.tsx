@@ -8,11 +8,17 @@ import { useExpenseStore } from './stores/expenseStore';
 import { useIncomeStore } from './stores/incomeStore';
 import { useAccountStore } from './stores/accountStore';
 import { useLedgerAccountStore } from './stores/ledgerAccountStore';
-import { checkAndGenerateRecurring } from './utils/recurringUtils';
+import { useBudgetStore } from './stores/budgetStore';
+import { useCategorizationRuleStore } from './stores/categorizationRuleStore';
+import { usePeriodStore } from './stores/periodStore';
+import { useTagStore } from './stores/tagStore';
+import { useHoldingStore } from './stores/holdingStore';
+import { useYieldAccrualStore } from './stores/yieldAccrualStore';
 import { AuthForm } from './components/Auth/AuthForm';
 import { Dashboard } from './components/Dashboard/Dashboard';
 import { NetWorthPage } from './components/NetWorth/NetWorthPage';
 import { ChartOfAccountsPage } from './components/ChartOfAccounts/ChartOfAccountsPage';
+import { ReportsPage } from './components/Reports/ReportsPage';
 import { IncomePage } from './components/Income/IncomePage';
 import { ExpensePage } from './components/Expense/ExpensePage';
 import { AdminPage } from './components/Admin/AdminPage';
@@ -21,8 +27,9 @@ import { Navigation } from './components/Navigation/Navigation';
 import { ErrorBoundary } from './components/ErrorBoundary/ErrorBoundary';
 import { SettingsModal } from './components/Settings/SettingsModal';
 import { Settings as SettingsIcon } from 'lucide-react';
+import { getTodayLocalString } from './utils/dateFormat';
 
-type TabType = 'dashboard' | 'expenses' | 'income' | 'networth' | 'accounts' | 'admin';
+type TabType = 'dashboard' | 'expenses' | 'income' | 'networth' | 'accounts' | 'reports' | 'admin';
 
 function App() {
   const { t, i18n } = useTranslation();
@@ -33,7 +40,7 @@ function App() {
   const [dataLoadError, setDataLoadError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>(() => {
     const saved = localStorage.getItem('fintonico-active-tab');
-    const validTabs: TabType[] = ['dashboard', 'expenses', 'income', 'networth', 'accounts', 'admin'];
+    const validTabs: TabType[] = ['dashboard', 'expenses', 'income', 'networth', 'accounts', 'reports', 'admin'];
     if (saved && validTabs.includes(saved as TabType)) {
       return saved as TabType;
     }
@@ -54,7 +61,6 @@ function App() {
   useEffect(() => {
     checkUser();
     initializeDefaultAccounts();
-    checkAndGenerateRecurring();
     initializeTheme();
   }, [checkUser, initializeDefaultAccounts, initializeTheme]);
 
@@ -65,6 +71,13 @@ function App() {
       { name: 'income', store: useIncomeStore },
       { name: 'accounts', store: useAccountStore },
       { name: 'ledger', store: useLedgerAccountStore },
+      { name: 'journal', store: useLedgerStore },
+      { name: 'periods', store: usePeriodStore },
+      { name: 'budgets', store: useBudgetStore },
+      { name: 'categorization rules', store: useCategorizationRuleStore },
+      { name: 'tags', store: useTagStore },
+      { name: 'holdings', store: useHoldingStore },
+      { name: 'yield accruals', store: useYieldAccrualStore },
       { name: 'snapshots', store: useSnapshotStore },
     ];
     return stores
@@ -80,6 +93,13 @@ function App() {
       { name: 'income', store: useIncomeStore },
       { name: 'accounts', store: useAccountStore },
       { name: 'ledger', store: useLedgerAccountStore },
+      { name: 'journal', store: useLedgerStore },
+      { name: 'periods', store: usePeriodStore },
+      { name: 'budgets', store: useBudgetStore },
+      { name: 'categorization rules', store: useCategorizationRuleStore },
+      { name: 'tags', store: useTagStore },
+      { name: 'holdings', store: useHoldingStore },
+      { name: 'yield accruals', store: useYieldAccrualStore },
       { name: 'snapshots', store: useSnapshotStore },
     ];
 
@@ -116,8 +136,47 @@ function App() {
             useIncomeStore.getState().fetchAll(),
             useAccountStore.getState().fetchAll(),
             useLedgerAccountStore.getState().fetchAll(),
+            useLedgerStore.getState().fetchAll(),
+            usePeriodStore.getState().fetchAll(),
+            useBudgetStore.getState().fetchAll(),
+            useCategorizationRuleStore.getState().fetchAll(),
+            useTagStore.getState().fetchAll(),
+            useHoldingStore.getState().fetchAll(),
+            useYieldAccrualStore.getState().fetchAll(),
           ]);
 
+          // Materialize recurring expenses/income that came due since the last visit
+          await Promise.all([
+            useExpenseStore.getState().isReady() && useExpenseStore.getState().generateRecurring(),
+            useIncomeStore.getState().isReady() && useIncomeStore.getState().generateRecurring(),
+          ]);
+
+          // Start the month's payment status afresh and refresh card statements from the ledger
+          if (useAccountStore.getState().isReady()) {
+            const today = getTodayLocalString();
+            try {
+              await useAccountStore.getState().rollOverPaidStatus(today);
+              if (useLedgerStore.getState().initializationStatus === 'success') {
+                await useLedgerStore.getState().syncCardStatements(today);
+              }
+            } catch (error) {
+              console.error('Failed to refresh card statements:', error);
+            }
+          }
+
+          // Credit interest on accounts with yield terms for periods that ended since the last visit
+          if (
+            useAccountStore.getState().isReady() &&
+            useYieldAccrualStore.getState().isReady() &&
+            useLedgerStore.getState().initializationStatus === 'success'
+          ) {
+            try {
+              await useYieldAccrualStore.getState().postAccruals(getTodayLocalString());
+            } catch (error) {
+              console.error('Failed to post yield accruals:', error);
+            }
+          }
+
           // Only fetch snapshots after accounts loaded successfully
           if (useAccountStore.getState().isReady()) {
             await useSnapshotStore.getState().fetchAll();
@@ -255,6 +314,12 @@ function App() {
             </ErrorBoundary>
           )}
 
+          {activeTab === 'reports' && (
+            <ErrorBoundary>
+              <ReportsPage />
+            </ErrorBoundary>
+          )}
+
           {activeTab === 'admin' && showAdmin && (
             <ErrorBoundary>
               <AdminPage />
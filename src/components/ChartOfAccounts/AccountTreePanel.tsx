@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, ChevronRight, FolderTree, Plus } from 'lucide-react';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { AccountTree } from '../../domain/accountTree';
+import type { AccountNature } from '../../domain/ledger';
+
+const NATURES: AccountNature[] = ['asset', 'liability', 'equity', 'income', 'expense'];
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const AccountTreePanel: React.FC = () => {
+  const { t } = useTranslation();
+  const accounts = useLedgerStore((state) => state.accounts);
+  const getAccountBalance = useLedgerStore((state) => state.getAccountBalance);
+  const addAccount = useLedgerStore((state) => state.addAccount);
+  const moveAccount = useLedgerStore((state) => state.moveAccount);
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  // Subscribing refreshes balances when entries change
+  useLedgerStore((state) => state.transactions);
+
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ code: '', name: '', nature: 'asset' as AccountNature, parentId: '' });
+
+  const activeAccounts = accounts.filter((account) => account.isActive);
+  const amounts = new Map(activeAccounts.map((account) => [account.id, getAccountBalance(account.id).getAmountMinor()]));
+
+  const toggle = (accountId: string) => {
+    setCollapsed((current) => {
+      const next = new Set(current);
+      if (next.has(accountId)) {
+        next.delete(accountId);
+      } else {
+        next.add(accountId);
+      }
+      return next;
+    });
+  };
+
+  const handleDrop = async (parentId: string | null) => {
+    const accountId = dragging;
+    setDragging(null);
+    setDropTarget(null);
+    if (!accountId || accountId === parentId) return;
+
+    setError(null);
+    try {
+      await moveAccount(accountId, parentId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('accountTree.failed'));
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    try {
+      await addAccount({
+        code: form.code.trim(),
+        name: form.name.trim(),
+        nature: form.nature,
+        parentId: form.parentId || undefined,
+      });
+      setForm({ code: '', name: '', nature: form.nature, parentId: '' });
+      setShowForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('accountTree.failed'));
+    }
+  };
+
+  // Drop handlers shared by account rows and nature headers
+  const dropProps = (key: string, parentId: string | null) => ({
+    onDragOver: (e: React.DragEvent) => {
+      if (!dragging) return;
+      e.preventDefault();
+      setDropTarget(key);
+    },
+    onDragLeave: () => setDropTarget((current) => (current === key ? null : current)),
+    onDrop: (e: React.DragEvent) => {
+      e.preventDefault();
+      handleDrop(parentId);
+    },
+  });
+
+  const highlight = (key: string) => (dropTarget === key ? 'bg-blue-50 dark:bg-blue-900/30' : '');
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-3">
+          <FolderTree className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{t('accountTree.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('accountTree.description')}</p>
+          </div>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="inline-flex items-center gap-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Plus className="w-3 h-3" />
+          {t('accountTree.newAccount')}
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="flex flex-wrap items-center gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+          <input
+            type="text"
+            value={form.code}
+            onChange={(e) => setForm({ ...form, code: e.target.value })}
+            placeholder={t('accountTree.code')}
+            maxLength={10}
+            className={`${inputClass} w-24`}
+            required
+          />
+          <input
+            type="text"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+            placeholder={t('accountTree.name')}
+            maxLength={255}
+            className={`${inputClass} flex-1 min-w-[8rem]`}
+            required
+          />
+          <select
+            value={form.nature}
+            onChange={(e) => setForm({ ...form, nature: e.target.value as AccountNature, parentId: '' })}
+            className={inputClass}
+            aria-label={t('accountTree.nature')}
+          >
+            {NATURES.map((nature) => (
+              <option key={nature} value={nature}>{t(`accountTree.natures.${nature}`)}</option>
+            ))}
+          </select>
+          <select
+            value={form.parentId}
+            onChange={(e) => setForm({ ...form, parentId: e.target.value })}
+            className={inputClass}
+            aria-label={t('accountTree.parent')}
+          >
+            <option value="">{t('accountTree.noParent')}</option>
+            {activeAccounts
+              .filter((account) => account.nature === form.nature)
+              .sort((a, b) => a.code.localeCompare(b.code))
+              .map((account) => (
+                <option key={account.id} value={account.id}>{account.code} · {account.name}</option>
+              ))}
+          </select>
+          <button type="submit" className="px-3 py-1 text-sm rounded bg-blue-600 text-white hover:bg-blue-700">
+            {t('accountTree.create')}
+          </button>
+        </form>
+      )}
+
+      {error && <p className="px-4 pt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="divide-y divide-gray-100 dark:divide-gray-700">
+        {NATURES.map((nature) => {
+          const roots = AccountTree.build(activeAccounts.filter((account) => account.nature === nature));
+          const subtotals = AccountTree.rollup(roots, amounts);
+          const total = roots.reduce((sum, node) => sum + (subtotals.get(node.account.id) ?? 0), 0);
+
+          return (
+            <div key={nature}>
+              <div
+                {...dropProps(nature, null)}
+                className={`flex items-center justify-between px-4 py-1.5 bg-gray-50 dark:bg-gray-700/50 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 ${highlight(nature)}`}
+              >
+                <span>{t(`accountTree.natures.${nature}`)}</span>
+                <span className="tabular-nums">{formatAmount(total / 100)}</span>
+              </div>
+              <ul>
+                {AccountTree.flatten(roots, collapsed).map(({ account, depth, children }) => {
+                  const hasChildren = children.length > 0;
+                  return (
+                    <li
+                      key={account.id}
+                      draggable
+                      onDragStart={() => setDragging(account.id)}
+                      onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                      {...dropProps(account.id, account.id)}
+                      className={`flex items-center gap-2 px-4 py-1.5 text-sm cursor-move ${highlight(account.id)} ${dragging === account.id ? 'opacity-50' : ''}`}
+                      style={{ paddingLeft: `${1 + depth * 1.25}rem` }}
+                    >
+                      {hasChildren ? (
+                        <button
+                          onClick={() => toggle(account.id)}
+                          className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                          aria-label={collapsed.has(account.id) ? t('accountTree.expand') : t('accountTree.collapse')}
+                        >
+                          {collapsed.has(account.id) ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                        </button>
+                      ) : (
+                        <span className="w-4" />
+                      )}
+                      <span className="text-xs text-gray-500 dark:text-gray-400">{account.code}</span>
+                      <span className={`text-gray-900 dark:text-white ${hasChildren ? 'font-medium' : ''}`}>{account.name}</span>
+                      <span className="ml-auto tabular-nums text-gray-700 dark:text-gray-300">
+                        {formatAmount((amounts.get(account.id) ?? 0) / 100)}
+                      </span>
+                      <span className="w-32 text-right tabular-nums font-semibold text-gray-900 dark:text-white" title={t('accountTree.subtotal')}>
+                        {hasChildren && formatAmount((subtotals.get(account.id) ?? 0) / 100)}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          );
+        })}
+      </div>
+      <p className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700">{t('accountTree.dragHint')}</p>
+    </div>
+  );
+};
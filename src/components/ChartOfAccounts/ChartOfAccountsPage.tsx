@@ -5,6 +5,9 @@ import { CreditCard, Plus, Trash2, ChevronDown, Copy, Check, X, Upload } from 'l
 import type { LedgerAccount, LedgerAccountNormalBalance } from '../../types';
 import { ImportModal } from '../Shared/ImportModal';
 import { parseLedgerAccountXLSX } from '../../utils/xlsx';
+import { JournalListing } from './JournalListing';
+import { PeriodClosePanel } from './PeriodClosePanel';
+import { AccountTreePanel } from './AccountTreePanel';
 
 // Copyable Cell Component - shows copy button on hover
 interface CopyableCellProps {
@@ -716,6 +719,15 @@ export const ChartOfAccountsPage: React.FC = () => {
         </div>
       )}
 
+      {/* Account Hierarchy */}
+      <AccountTreePanel />
+
+      {/* General Journal */}
+      <JournalListing />
+
+      {/* Month-end Close */}
+      <PeriodClosePanel />
+
       {/* Import Modal */}
       <ImportModal
         isOpen={isImportModalOpen}
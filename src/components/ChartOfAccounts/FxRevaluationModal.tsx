@@ -0,0 +1,160 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeftRight } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { getTodayLocalString } from '../../utils/dateFormat';
+import type { FxRevaluationReport } from '../../domain/fxRevaluation';
+
+interface FxRevaluationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const FxRevaluationModal: React.FC<FxRevaluationModalProps> = ({ isOpen, onClose }) => {
+  const { t } = useTranslation();
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  const accounts = useLedgerStore((state) => state.accounts);
+  const revalueForeignBalances = useLedgerStore((state) => state.revalueForeignBalances);
+
+  // Unrealized gains and losses land in an income or equity account
+  const gainLossAccounts = accounts.filter((account) => account.isActive && (account.nature === 'income' || account.nature === 'equity'));
+
+  const [date, setDate] = useState(getTodayLocalString());
+  const [gainLossAccountId, setGainLossAccountId] = useState('');
+  const [report, setReport] = useState<FxRevaluationReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setDate(getTodayLocalString());
+      setReport(null);
+      setError(null);
+    }
+  }, [isOpen]);
+
+  const selectedAccountId = gainLossAccountId || (gainLossAccounts.find((account) => account.id === 'fx-gain') ?? gainLossAccounts[0])?.id || '';
+  const accountLabel = (accountId: string) => {
+    const account = accounts.find((item) => item.id === accountId);
+    return account ? `${account.code} - ${account.name}` : accountId;
+  };
+
+  const run = async (dryRun: boolean) => {
+    setError(null);
+    setIsRunning(true);
+    try {
+      setReport(await revalueForeignBalances(date, selectedAccountId, dryRun));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('fxRevaluation.failed'));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const format = (cents: number, currency = report?.baseCurrency) => formatAmount(cents / 100, currency);
+  const isPreview = report !== null && report.transactionId === null;
+  const canPost = isPreview && report.totalAdjustmentCents !== 0 && !isRunning;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('fxRevaluation.title')}
+      description={t('fxRevaluation.description')}
+      icon={<ArrowLeftRight className="w-5 h-5" />}
+      size="xl"
+    >
+      <div className="flex flex-wrap items-end gap-3 mb-4">
+        <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+          {t('fxRevaluation.date')}
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => { setDate(e.target.value); setReport(null); }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+          {t('fxRevaluation.gainLossAccount')}
+          <select
+            value={selectedAccountId}
+            onChange={(e) => { setGainLossAccountId(e.target.value); setReport(null); }}
+            className={inputClass}
+          >
+            {gainLossAccounts.map((account) => (
+              <option key={account.id} value={account.id}>{account.code} - {account.name}</option>
+            ))}
+          </select>
+        </label>
+        <button
+          onClick={() => run(true)}
+          disabled={!selectedAccountId || isRunning}
+          className="px-3 py-1.5 text-sm text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+        >
+          {t('fxRevaluation.preview')}
+        </button>
+      </div>
+
+      {report && (
+        report.lines.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">{t('fxRevaluation.empty')}</p>
+        ) : (
+          <div className="overflow-x-auto mb-3">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="px-3 py-1.5 text-left font-medium">{t('fxRevaluation.account')}</th>
+                  <th className="px-3 py-1.5 text-right font-medium">{t('fxRevaluation.balance')}</th>
+                  <th className="px-3 py-1.5 text-right font-medium">{t('fxRevaluation.booked')}</th>
+                  <th className="px-3 py-1.5 text-right font-medium">{t('fxRevaluation.rate')}</th>
+                  <th className="px-3 py-1.5 text-right font-medium">{t('fxRevaluation.revalued')}</th>
+                  <th className="px-3 py-1.5 text-right font-medium">{t('fxRevaluation.adjustment')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.lines.map((line) => (
+                  <tr key={`${line.accountId}:${line.currency}`} className="border-b border-gray-100 dark:border-gray-700">
+                    <td className="px-3 py-1.5 text-gray-900 dark:text-white">{accountLabel(line.accountId)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-gray-600 dark:text-gray-300">{format(line.balanceCents, line.currency)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-gray-600 dark:text-gray-300">{format(line.bookedBalanceCents)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-gray-600 dark:text-gray-300">{line.rate.toFixed(4)}</td>
+                    <td className="px-3 py-1.5 text-right tabular-nums text-gray-600 dark:text-gray-300">{format(line.revaluedCents)}</td>
+                    <td className={`px-3 py-1.5 text-right tabular-nums ${line.adjustmentCents < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                      {format(line.adjustmentCents)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-900 dark:text-white">
+                  <td className="px-3 py-1.5" colSpan={5}>
+                    {report.totalAdjustmentCents < 0 ? t('fxRevaluation.totalLoss') : t('fxRevaluation.totalGain')}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{format(report.totalAdjustmentCents)}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )
+      )}
+
+      {report?.transactionId && <p className="mb-3 text-sm text-green-600 dark:text-green-400">{t('fxRevaluation.posted')}</p>}
+      {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end">
+        <button
+          onClick={() => run(false)}
+          disabled={!canPost}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('fxRevaluation.post')}
+        </button>
+      </div>
+    </Modal>
+  );
+};
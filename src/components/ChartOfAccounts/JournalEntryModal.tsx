@@ -0,0 +1,295 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BookOpen, Trash2, Plus } from 'lucide-react';
+import { Modal, modalButtonStyles } from '../Shared/Modal';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { JournalEntry, JOURNAL_TRANSACTION_TYPES } from '../../domain/journal';
+import { isCurrencySupported } from '../../config/currencies';
+import { getTodayLocalString, parseLocalDate } from '../../utils/dateFormat';
+import { formStyles } from '../../styles/formStyles';
+import { TagPicker } from '../Shared/TagPicker';
+import type { JournalEntryDraft, JournalLine, JournalSide } from '../../domain/journal';
+import type { TransactionType } from '../../domain/ledger';
+
+interface JournalEntryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Form values are kept as strings and converted on save
+interface JournalLineForm {
+  accountId: string;
+  side: JournalSide;
+  amount: string;
+  currency: string;
+  exchangeRate: string;
+}
+
+const emptyLine = (side: JournalSide, currency: string): JournalLineForm => ({
+  accountId: '',
+  side,
+  amount: '',
+  currency,
+  exchangeRate: '',
+});
+
+const fromLineForm = (line: JournalLineForm): JournalLine => ({
+  accountId: line.accountId,
+  side: line.side,
+  amount: parseFloat(line.amount) || 0,
+  currency: line.currency,
+  exchangeRate: parseFloat(line.exchangeRate) || undefined,
+});
+
+export const JournalEntryModal: React.FC<JournalEntryModalProps> = ({ isOpen, onClose }) => {
+  const { t } = useTranslation();
+  const accounts = useLedgerStore((state) => state.accounts);
+  const addJournalEntry = useLedgerStore((state) => state.addJournalEntry);
+  const { baseCurrency, enabledCurrencies, convertAmount, formatAmount } = useCurrencyStore();
+
+  const [date, setDate] = useState(getTodayLocalString());
+  const [description, setDescription] = useState('');
+  const [memo, setMemo] = useState('');
+  const [reference, setReference] = useState('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [transactionType, setTransactionType] = useState<TransactionType>('adjustment');
+  const [lines, setLines] = useState<JournalLineForm[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const currencies = enabledCurrencies.filter(isCurrencySupported);
+  const activeAccounts = accounts
+    .filter((account) => account.isActive)
+    .sort((a, b) => a.code.localeCompare(b.code));
+
+  useEffect(() => {
+    if (isOpen) {
+      setDate(getTodayLocalString());
+      setDescription('');
+      setMemo('');
+      setReference('');
+      setTags([]);
+      setTransactionType('adjustment');
+      setLines([emptyLine('debit', baseCurrency), emptyLine('credit', baseCurrency)]);
+      setError(null);
+    }
+  }, [isOpen, baseCurrency]);
+
+  const draft: JournalEntryDraft = {
+    date: parseLocalDate(date),
+    description,
+    memo,
+    reference,
+    tags,
+    transactionType,
+    baseCurrency,
+    lines: lines.map(fromLineForm),
+  };
+  const balance = JournalEntry.balance(draft.lines, baseCurrency);
+  const validationErrors = JournalEntry.validate(draft);
+
+  const updateLine = <K extends keyof JournalLineForm>(index: number, key: K, value: JournalLineForm[K]) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, [key]: value } : line)));
+  };
+
+  // Prefill the booked rate from current exchange rates when a foreign currency is picked
+  const changeCurrency = (index: number, currency: string) => {
+    setLines((current) => current.map((line, i) => {
+      if (i !== index) return line;
+      const exchangeRate = currency === baseCurrency ? '' : String(convertAmount(1, currency, baseCurrency));
+      return { ...line, currency, exchangeRate };
+    }));
+  };
+
+  // New lines take the opposite side of whatever is out of balance
+  const addLine = () => {
+    const side: JournalSide = balance.difference.isNegative() ? 'debit' : 'credit';
+    setLines((current) => [...current, emptyLine(side, baseCurrency)]);
+  };
+
+  const removeLine = (index: number) => {
+    setLines((current) => current.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await addJournalEntry(draft);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post journal entry');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const footer = (
+    <>
+      <button onClick={onClose} disabled={isBusy} className={modalButtonStyles.secondary}>
+        {t('cancel')}
+      </button>
+      <button onClick={handleSave} disabled={isBusy || validationErrors.length > 0} className={modalButtonStyles.primary}>
+        {t('journal.post')}
+      </button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('journal.newEntry')}
+      description={t('journal.entryDescription', { currency: baseCurrency })}
+      icon={<BookOpen className="w-5 h-5" />}
+      size="lg"
+      footer={footer}
+    >
+      {error && (
+        <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="grid grid-cols-12 gap-2 mb-4">
+        <div className="col-span-4">
+          <label className={formStyles.label.base}>{t('journal.date')}</label>
+          <input type="date" value={date} onChange={(e) => setDate(e.target.value)} className={formStyles.input.base} />
+        </div>
+        <div className="col-span-8">
+          <label className={formStyles.label.base}>{t('journal.descriptionLabel')}</label>
+          <input value={description} onChange={(e) => setDescription(e.target.value)} maxLength={500} className={formStyles.input.base} />
+        </div>
+        <div className="col-span-4">
+          <label className={formStyles.label.base}>{t('journal.type')}</label>
+          <select
+            value={transactionType}
+            onChange={(e) => setTransactionType(e.target.value as TransactionType)}
+            className={formStyles.input.base}
+          >
+            {JOURNAL_TRANSACTION_TYPES.map((type) => (
+              <option key={type} value={type}>{t(`journal.types.${type}`)}</option>
+            ))}
+          </select>
+        </div>
+        <div className="col-span-4">
+          <label className={formStyles.label.base}>{t('journal.reference')}</label>
+          <input value={reference} onChange={(e) => setReference(e.target.value)} maxLength={100} className={formStyles.input.base} />
+        </div>
+        <div className="col-span-4">
+          <TagPicker label={t('journal.tags')} value={tags} onChange={setTags} />
+        </div>
+        <div className="col-span-12">
+          <label className={formStyles.label.base}>{t('journal.memo')}</label>
+          <input value={memo} onChange={(e) => setMemo(e.target.value)} maxLength={500} className={formStyles.input.base} />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {lines.map((line, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-end border-b border-gray-100 dark:border-gray-700 pb-2">
+            <div className="col-span-4">
+              <label className={formStyles.label.base}>{t('journal.account')}</label>
+              <select
+                value={line.accountId}
+                onChange={(e) => updateLine(index, 'accountId', e.target.value)}
+                className={formStyles.input.base}
+              >
+                <option value="">{t('journal.selectAccount')}</option>
+                {activeAccounts.map((account) => (
+                  <option key={account.id} value={account.id}>{account.code} - {account.name}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={formStyles.label.base}>{t('journal.side')}</label>
+              <select
+                value={line.side}
+                onChange={(e) => updateLine(index, 'side', e.target.value as JournalSide)}
+                className={formStyles.input.base}
+              >
+                <option value="debit">{t('journal.debit')}</option>
+                <option value="credit">{t('journal.credit')}</option>
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={formStyles.label.base}>{t('journal.amount')}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={line.amount}
+                onChange={(e) => updateLine(index, 'amount', e.target.value)}
+                className={formStyles.input.base}
+              />
+            </div>
+            <div className="col-span-1">
+              <label className={formStyles.label.base}>{t('journal.currency')}</label>
+              <select
+                value={line.currency}
+                onChange={(e) => changeCurrency(index, e.target.value)}
+                className={formStyles.input.base}
+              >
+                {currencies.map((currency) => (
+                  <option key={currency} value={currency}>{currency}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={formStyles.label.base}>{t('journal.rate')}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.0001"
+                value={line.currency === baseCurrency ? '1' : line.exchangeRate}
+                onChange={(e) => updateLine(index, 'exchangeRate', e.target.value)}
+                disabled={line.currency === baseCurrency}
+                className={`${formStyles.input.base} disabled:opacity-50`}
+              />
+            </div>
+            <div className="col-span-1 flex justify-center pb-2">
+              <button
+                onClick={() => removeLine(index)}
+                disabled={lines.length <= 2}
+                className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30 transition-colors"
+                title={t('journal.removeLine')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={addLine}
+            className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            {t('journal.addLine')}
+          </button>
+          <div className="text-right text-sm">
+            <p className="text-gray-500 dark:text-gray-400">
+              {t('journal.totals', {
+                debits: formatAmount(balance.debits.toMajorUnits(), baseCurrency),
+                credits: formatAmount(balance.credits.toMajorUnits(), baseCurrency),
+              })}
+            </p>
+            <p className={`font-medium ${balance.isBalanced ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+              {balance.isBalanced
+                ? t('journal.balanced')
+                : t('journal.outOfBalance', { amount: formatAmount(balance.difference.abs().toMajorUnits(), baseCurrency) })}
+            </p>
+          </div>
+        </div>
+
+        {validationErrors.length > 0 && balance.isBalanced && (
+          <ul className="text-xs text-red-600 dark:text-red-400 list-disc pl-4">
+            {validationErrors.map((message) => (
+              <li key={message}>{message}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
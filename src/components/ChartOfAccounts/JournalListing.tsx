@@ -0,0 +1,280 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeftRight, BookOpen, CheckCheck, Lock, Plus, ScrollText, X } from 'lucide-react';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { usePeriodStore } from '../../stores/periodStore';
+import { useTagStore } from '../../stores/tagStore';
+import { parseLocalDate, toLocalDateString } from '../../utils/dateFormat';
+import { JournalEntryModal } from './JournalEntryModal';
+import { ReconcileModal } from './ReconcileModal';
+import { FxRevaluationModal } from './FxRevaluationModal';
+import { TransactionDetailModal } from './TransactionDetailModal';
+import { AccountRegisterModal, type RegisterTarget } from '../Shared/AccountRegisterModal';
+import { JOURNAL_TRANSACTION_TYPES } from '../../domain/journal';
+import type { TransactionType } from '../../domain/ledger';
+
+// Include entries booked at any time on the last day of the range
+const endOfDay = (date: Date): Date => {
+  date.setHours(23, 59, 59, 999);
+  return date;
+};
+
+const filterInputClass =
+  'px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const JournalListing: React.FC = () => {
+  const { t } = useTranslation();
+  const accounts = useLedgerStore((state) => state.accounts);
+  // Subscribing to transactions re-renders the journal after a new entry
+  useLedgerStore((state) => state.transactions);
+  const getTransactions = useLedgerStore((state) => state.getTransactions);
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  // Subscribing to closes re-renders the lock markers after a close or reopen
+  usePeriodStore((state) => state.closes);
+  const isPeriodClosed = usePeriodStore((state) => state.isClosed);
+  const tags = useTagStore((state) => state.tags);
+
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [registerTarget, setRegisterTarget] = useState<RegisterTarget | null>(null);
+  const [reconcileAccountId, setReconcileAccountId] = useState<string | null>(null);
+  const [isRevaluationOpen, setIsRevaluationOpen] = useState(false);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [accountFilter, setAccountFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<TransactionType | ''>('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [tagFilter, setTagFilter] = useState('');
+  const [showVoided, setShowVoided] = useState(false);
+
+  const hasActiveFilters = accountFilter !== '' || typeFilter !== '' || dateFrom !== '' || dateTo !== '' || tagFilter !== '';
+
+  const clearFilters = () => {
+    setAccountFilter('');
+    setTypeFilter('');
+    setDateFrom('');
+    setDateTo('');
+    setTagFilter('');
+  };
+
+  const accountsById = useMemo(() => new Map(accounts.map((account) => [account.id, account])), [accounts]);
+  const sortedAccounts = useMemo(() => [...accounts].sort((a, b) => a.code.localeCompare(b.code)), [accounts]);
+  const tagColors = useMemo(() => new Map(tags.map((tag) => [tag.name, tag.color])), [tags]);
+  const sortedTags = useMemo(() => [...tags].sort((a, b) => a.name.localeCompare(b.name)), [tags]);
+
+  const entries = getTransactions({
+    accountIds: accountFilter ? [accountFilter] : undefined,
+    type: typeFilter || undefined,
+    dateFrom: dateFrom ? parseLocalDate(dateFrom) : undefined,
+    dateTo: dateTo ? endOfDay(parseLocalDate(dateTo)) : undefined,
+    tag: tagFilter || undefined,
+    includeVoided: showVoided,
+  });
+
+  const accountLabel = (accountId: string) => {
+    const account = accountsById.get(accountId);
+    return account ? `${account.code} - ${account.name}` : accountId;
+  };
+
+  const openRegister = (accountId: string) => {
+    setRegisterTarget({ kind: 'ledger', accountId, name: accountLabel(accountId) });
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-3">
+          <BookOpen className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{t('journal.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('journal.count', { count: entries.length })}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setIsRevaluationOpen(true)}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+          >
+            <ArrowLeftRight className="w-3.5 h-3.5" />
+            {t('fxRevaluation.open')}
+          </button>
+          <button
+            onClick={() => setIsEditorOpen(true)}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            {t('journal.newEntry')}
+          </button>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 px-4 py-2 bg-gray-50 dark:bg-gray-700/50">
+        <select value={accountFilter} onChange={(e) => setAccountFilter(e.target.value)} className={filterInputClass}>
+          <option value="">{t('journal.allAccounts')}</option>
+          {sortedAccounts.map((account) => (
+            <option key={account.id} value={account.id}>{account.code} - {account.name}</option>
+          ))}
+        </select>
+        <select value={typeFilter} onChange={(e) => setTypeFilter(e.target.value as TransactionType | '')} className={filterInputClass}>
+          <option value="">{t('journal.allTypes')}</option>
+          {JOURNAL_TRANSACTION_TYPES.map((type) => (
+            <option key={type} value={type}>{t(`journal.types.${type}`)}</option>
+          ))}
+        </select>
+        <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className={filterInputClass} aria-label={t('journal.dateFrom')} />
+        <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className={filterInputClass} aria-label={t('journal.dateTo')} />
+        {sortedTags.length > 0 && (
+          <select value={tagFilter} onChange={(e) => setTagFilter(e.target.value)} className={filterInputClass}>
+            <option value="">{t('tags.allTags')}</option>
+            {sortedTags.map((tag) => (
+              <option key={tag.id} value={tag.name}>{tag.name}</option>
+            ))}
+          </select>
+        )}
+        <label className="inline-flex items-center gap-1.5 text-xs text-gray-600 dark:text-gray-300">
+          <input type="checkbox" checked={showVoided} onChange={(e) => setShowVoided(e.target.checked)} />
+          {t('reversal.showVoided')}
+        </label>
+        {accountFilter && (
+          <button
+            onClick={() => openRegister(accountFilter)}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <ScrollText className="w-3 h-3" />
+            {t('register.open')}
+          </button>
+        )}
+        {accountFilter && (
+          <button
+            onClick={() => setReconcileAccountId(accountFilter)}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <CheckCheck className="w-3 h-3" />
+            {t('reconcile.open')}
+          </button>
+        )}
+        {hasActiveFilters && (
+          <button
+            onClick={clearFilters}
+            className="inline-flex items-center gap-1 px-2 py-1 text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+          >
+            <X className="w-3 h-3" />
+            {t('journal.clearFilters')}
+          </button>
+        )}
+      </div>
+
+      <div className="overflow-x-auto overflow-y-auto max-h-[500px]">
+        {entries.length === 0 ? (
+          <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">{t('journal.empty')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700 text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium w-28">{t('journal.date')}</th>
+                <th className="px-4 py-2 text-left font-medium">{t('journal.descriptionLabel')}</th>
+                <th className="px-4 py-2 text-left font-medium">{t('journal.account')}</th>
+                <th className="px-4 py-2 text-right font-medium w-32">{t('journal.debit')}</th>
+                <th className="px-4 py-2 text-right font-medium w-32">{t('journal.credit')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <React.Fragment key={entry.id}>
+                  {entry.postings.map((posting, index) => {
+                    const original = posting.originalDebitAmount ?? posting.originalCreditAmount;
+                    const booked = posting.bookedDebitAmount ?? posting.bookedCreditAmount;
+                    const amount = original ? formatAmount(original.toMajorUnits(), original.getCurrency()) : '';
+                    // Foreign lines also show what was booked in the base currency
+                    const bookedNote = original && booked && original.getCurrency() !== booked.getCurrency()
+                      ? ` (${formatAmount(booked.toMajorUnits(), booked.getCurrency())})`
+                      : '';
+                    const isLast = index === entry.postings.length - 1;
+                    return (
+                      <tr key={posting.id} className={isLast ? 'border-b border-gray-200 dark:border-gray-700' : ''}>
+                        <td className="px-4 py-1.5 align-top text-gray-600 dark:text-gray-300">
+                          {index === 0 && entry.date.toLocaleDateString()}
+                          {index === 0 && isPeriodClosed(toLocalDateString(entry.date)) && (
+                            <Lock className="inline w-3 h-3 ml-1 text-amber-600 dark:text-amber-400" aria-label={t('periods.locked')} />
+                          )}
+                        </td>
+                        <td className="px-4 py-1.5 align-top">
+                          {index === 0 && (
+                            <div>
+                              <button
+                                onClick={() => setDetailId(entry.id)}
+                                className={`text-left hover:text-blue-600 dark:hover:text-blue-400 hover:underline ${
+                                  entry.status === 'voided' ? 'text-gray-400 dark:text-gray-500 line-through' : 'text-gray-900 dark:text-white'
+                                }`}
+                                title={t('reversal.open')}
+                              >
+                                {entry.description}
+                              </button>
+                              {(entry.status === 'voided' || entry.reversedById) && (
+                                <span className="ml-2 px-1.5 py-0.5 text-[10px] rounded bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                                  {entry.status === 'voided' ? t('reversal.status.voided') : t('reversal.status.reversed')}
+                                </span>
+                              )}
+                              <p className="text-xs text-gray-500 dark:text-gray-400">
+                                {[
+                                  entry.transactionType && t(`journal.types.${entry.transactionType}`),
+                                  entry.reference,
+                                  entry.memo,
+                                ].filter(Boolean).join(' · ')}
+                              </p>
+                              {entry.tags && entry.tags.length > 0 && (
+                                <div className="flex flex-wrap gap-1 mt-1">
+                                  {entry.tags.map((tag) => (
+                                    <button
+                                      key={tag}
+                                      type="button"
+                                      onClick={() => setTagFilter(tag)}
+                                      className="px-1.5 py-0.5 text-[10px] rounded text-white hover:opacity-80"
+                                      style={{ backgroundColor: tagColors.get(tag) ?? '#6b7280' }}
+                                    >
+                                      {tag}
+                                    </button>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </td>
+                        <td className={`px-4 py-1.5 align-top text-gray-700 dark:text-gray-300 ${posting.originalCreditAmount ? 'pl-8' : ''}`}>
+                          <button
+                            onClick={() => openRegister(posting.accountId)}
+                            className="text-left hover:text-blue-600 dark:hover:text-blue-400 hover:underline"
+                            title={t('register.open')}
+                          >
+                            {accountLabel(posting.accountId)}
+                          </button>
+                        </td>
+                        <td className="px-4 py-1.5 align-top text-right tabular-nums text-gray-900 dark:text-white">
+                          {posting.originalDebitAmount && `${amount}${bookedNote}`}
+                        </td>
+                        <td className="px-4 py-1.5 align-top text-right tabular-nums text-gray-900 dark:text-white">
+                          {posting.originalCreditAmount && `${amount}${bookedNote}`}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <JournalEntryModal isOpen={isEditorOpen} onClose={() => setIsEditorOpen(false)} />
+      <AccountRegisterModal target={registerTarget} onClose={() => setRegisterTarget(null)} />
+      <ReconcileModal
+        accountId={reconcileAccountId}
+        accountName={reconcileAccountId ? accountLabel(reconcileAccountId) : ''}
+        onClose={() => setReconcileAccountId(null)}
+      />
+      <FxRevaluationModal isOpen={isRevaluationOpen} onClose={() => setIsRevaluationOpen(false)} />
+      <TransactionDetailModal transactionId={detailId} onClose={() => setDetailId(null)} onNavigate={setDetailId} />
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarCheck, Lock, LockOpen } from 'lucide-react';
+import { usePeriodStore } from '../../stores/periodStore';
+
+// Months that have ended, most recent first
+const MONTHS_SHOWN = 12;
+
+const recentPeriods = (): string[] => {
+  const today = new Date();
+  return Array.from({ length: MONTHS_SHOWN }, (_, index) => {
+    const date = new Date(today.getFullYear(), today.getMonth() - index - 1, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+};
+
+const formatPeriod = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+export const PeriodClosePanel: React.FC = () => {
+  const { t } = useTranslation();
+  const closes = usePeriodStore((state) => state.closes);
+  const events = usePeriodStore((state) => state.events);
+  const closePeriod = usePeriodStore((state) => state.closePeriod);
+  const reopenPeriod = usePeriodStore((state) => state.reopenPeriod);
+
+  const [takeSnapshot, setTakeSnapshot] = useState(true);
+  const [reopening, setReopening] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const closesByPeriod = new Map(closes.map((close) => [close.period, close]));
+
+  const handleClose = async (period: string) => {
+    setError(null);
+    try {
+      await closePeriod(period, { takeSnapshot });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('periods.failed'));
+    }
+  };
+
+  const handleReopen = async (period: string) => {
+    setError(null);
+    try {
+      await reopenPeriod(period, reason);
+      setReopening(null);
+      setReason('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('periods.failed'));
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-hidden">
+      <div className="flex items-center justify-between p-4 border-b border-gray-200 dark:border-gray-700">
+        <div className="flex items-center gap-3">
+          <CalendarCheck className="w-5 h-5 text-blue-600 dark:text-blue-400" />
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{t('periods.title')}</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('periods.description')}</p>
+          </div>
+        </div>
+        <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+          <input type="checkbox" checked={takeSnapshot} onChange={(e) => setTakeSnapshot(e.target.checked)} />
+          {t('periods.takeSnapshot')}
+        </label>
+      </div>
+
+      {error && <p className="px-4 pt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+        {recentPeriods().map((period) => {
+          const close = closesByPeriod.get(period);
+          return (
+            <li key={period} className="flex flex-wrap items-center gap-3 px-4 py-2 text-sm">
+              <span className="w-40 text-gray-900 dark:text-white capitalize">{formatPeriod(period)}</span>
+              {close ? (
+                <span className="inline-flex items-center gap-1 text-xs text-amber-700 dark:text-amber-400">
+                  <Lock className="w-3 h-3" />
+                  {t('periods.closedOn', { date: new Date(close.closedAt).toLocaleDateString() })}
+                </span>
+              ) : (
+                <span className="inline-flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                  <LockOpen className="w-3 h-3" />
+                  {t('periods.open')}
+                </span>
+              )}
+              <div className="ml-auto flex items-center gap-2">
+                {close && reopening === period ? (
+                  <>
+                    <input
+                      type="text"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      placeholder={t('periods.reasonPlaceholder')}
+                      maxLength={500}
+                      className="px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <button onClick={() => handleReopen(period)} className="text-xs text-red-600 dark:text-red-400 hover:underline">
+                      {t('periods.confirmReopen')}
+                    </button>
+                    <button onClick={() => setReopening(null)} className="text-xs text-gray-500 hover:underline">
+                      {t('periods.cancel')}
+                    </button>
+                  </>
+                ) : close ? (
+                  <button
+                    onClick={() => { setReopening(period); setReason(''); }}
+                    className="text-xs text-gray-600 dark:text-gray-300 hover:underline"
+                  >
+                    {t('periods.reopen')}
+                  </button>
+                ) : (
+                  <button onClick={() => handleClose(period)} className="text-xs text-blue-600 dark:text-blue-400 hover:underline">
+                    {t('periods.close')}
+                  </button>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      {events.length > 0 && (
+        <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+          <h3 className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-2">{t('periods.history')}</h3>
+          <ul className="space-y-1">
+            {events.slice(0, 10).map((event) => (
+              <li key={event.id} className="text-xs text-gray-600 dark:text-gray-300">
+                {new Date(event.createdAt).toLocaleString()} · {t(`periods.actions.${event.action}`, { period: event.period })}
+                {event.reason && <span className="text-gray-500 dark:text-gray-400"> — {event.reason}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
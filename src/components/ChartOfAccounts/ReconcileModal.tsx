@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCheck } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { getLedgerAccountRegister, getReconcilableItems } from '../../selectors/finance';
+import { Reconciler } from '../../domain/reconciliation';
+import { formatDate, getTodayLocalString } from '../../utils/dateFormat';
+
+interface ReconcileModalProps {
+  accountId: string | null;
+  accountName: string;
+  onClose: () => void;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const ReconcileModal: React.FC<ReconcileModalProps> = ({ accountId, accountName, onClose }) => {
+  const { t } = useTranslation();
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  const baseCurrency = useCurrencyStore((state) => state.baseCurrency);
+  const reconciliations = useLedgerStore((state) => state.reconciliations);
+  const fetchReconciliations = useLedgerStore((state) => state.fetchReconciliations);
+  const reconcileAccount = useLedgerStore((state) => state.reconcileAccount);
+  // Subscribing re-renders the candidates after postings are reconciled
+  useLedgerStore((state) => state.transactions);
+
+  const [statementDate, setStatementDate] = useState(getTodayLocalString());
+  const [statementBalance, setStatementBalance] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (accountId) {
+      setStatementDate(getTodayLocalString());
+      setStatementBalance('');
+      setSelectedIds([]);
+      setError(null);
+      fetchReconciliations(accountId).catch(() => {
+        // History stays as last loaded; reconciling still works
+      });
+    }
+  }, [accountId, fetchReconciliations]);
+
+  if (!accountId) return null;
+
+  const format = (cents: number) => formatAmount(cents / 100, baseCurrency);
+  const statementBalanceCents = statementBalance.trim() === '' ? NaN : Math.round(parseFloat(statementBalance) * 100);
+
+  const candidates = getLedgerAccountRegister(accountId, { to: statementDate }).entries.filter((entry) => !entry.reconciled);
+  const items = getReconcilableItems(accountId).filter((item) => item.reconciled || item.date <= statementDate);
+  const status = Reconciler.status(items, selectedIds, Number.isNaN(statementBalanceCents) ? 0 : statementBalanceCents);
+  const canFinish = status.isBalanced && !Number.isNaN(statementBalanceCents) && !isSaving;
+
+  const history = reconciliations
+    .filter((reconciliation) => reconciliation.accountId === accountId)
+    .sort((a, b) => b.statementDate.localeCompare(a.statementDate));
+
+  const toggle = (id: string) => {
+    setSelectedIds((current) => current.includes(id) ? current.filter((item) => item !== id) : [...current, id]);
+  };
+
+  const handleFinish = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      // Ticked postings dated after a changed statement date are left out
+      const candidateIds = new Set(candidates.map((entry) => entry.id));
+      await reconcileAccount(accountId, statementDate, statementBalanceCents, selectedIds.filter((id) => candidateIds.has(id)));
+      setSelectedIds([]);
+      setStatementBalance('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('reconcile.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const summary = [
+    { label: t('reconcile.cleared'), cents: status.clearedBalanceCents },
+    { label: t('reconcile.statement'), cents: Number.isNaN(statementBalanceCents) ? 0 : statementBalanceCents },
+    { label: t('reconcile.difference'), cents: status.differenceCents },
+  ];
+
+  return (
+    <Modal
+      isOpen={accountId !== null}
+      onClose={onClose}
+      title={t('reconcile.title', { name: accountName })}
+      description={t('reconcile.description')}
+      icon={<CheckCheck className="w-5 h-5" />}
+      size="xl"
+    >
+      <div className="flex flex-wrap items-end gap-3 mb-3">
+        <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+          {t('reconcile.statementDate')}
+          <input type="date" value={statementDate} onChange={(e) => setStatementDate(e.target.value)} className={inputClass} />
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-gray-500 dark:text-gray-400">
+          {t('reconcile.statementBalance')}
+          <input
+            type="number"
+            step="0.01"
+            value={statementBalance}
+            onChange={(e) => setStatementBalance(e.target.value)}
+            className={`${inputClass} w-40 text-right`}
+          />
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2 mb-4">
+        {summary.map((item, index) => (
+          <div key={item.label} className="rounded-lg bg-gray-50 dark:bg-gray-700/50 px-3 py-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{item.label}</p>
+            <p className={`text-sm font-semibold tabular-nums ${
+              index === 2 && !status.isBalanced ? 'text-red-600 dark:text-red-400' : 'text-gray-900 dark:text-white'
+            }`}>
+              {format(item.cents)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-y-auto max-h-[300px] mb-3">
+        {candidates.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">{t('reconcile.empty')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <tbody>
+              {candidates.map((entry) => (
+                <tr key={entry.id} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="px-3 py-1.5 w-8">
+                    <input
+                      type="checkbox"
+                      checked={selectedIds.includes(entry.id)}
+                      onChange={() => toggle(entry.id)}
+                      aria-label={entry.description}
+                    />
+                  </td>
+                  <td className="px-3 py-1.5 w-24 text-gray-600 dark:text-gray-300">{formatDate(entry.date)}</td>
+                  <td className="px-3 py-1.5 text-gray-900 dark:text-white">{entry.description}</td>
+                  <td className={`px-3 py-1.5 text-right tabular-nums ${entry.amountCents < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                    {format(entry.amountCents)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {error && <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={handleFinish}
+          disabled={!canFinish}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {t('reconcile.finish')}
+        </button>
+      </div>
+
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">{t('reconcile.history')}</h3>
+        {history.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('reconcile.noHistory')}</p>
+        ) : (
+          <ul className="space-y-1">
+            {history.map((reconciliation) => (
+              <li key={reconciliation.id} className="flex justify-between text-xs text-gray-600 dark:text-gray-300">
+                <span>{formatDate(reconciliation.statementDate)}</span>
+                <span>{t('reconcile.postingCount', { count: reconciliation.postingIds.length })}</span>
+                <span className="tabular-nums">{format(reconciliation.statementBalanceCents)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Ban, FileText, Undo2 } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { Reversal } from '../../domain/reversal';
+import type { Transaction } from '../../domain/ledger';
+import { getTodayLocalString, parseLocalDate, toLocalDateString } from '../../utils/dateFormat';
+
+interface TransactionDetailModalProps {
+  transactionId: string | null;
+  onClose: () => void;
+  onNavigate: (transactionId: string) => void;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+// Where an entry sits in a void or reversal chain
+const statusOf = (transaction: Transaction): string => {
+  if (transaction.status === 'voided') return transaction.reversesId ? 'voidEntry' : 'voided';
+  if (transaction.reversedById) return 'reversed';
+  if (transaction.reversesId) return 'reversal';
+  return 'posted';
+};
+
+export const TransactionDetailModal: React.FC<TransactionDetailModalProps> = ({ transactionId, onClose, onNavigate }) => {
+  const { t } = useTranslation();
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  const transactions = useLedgerStore((state) => state.transactions);
+  const getAccount = useLedgerStore((state) => state.getAccount);
+  const voidTransaction = useLedgerStore((state) => state.voidTransaction);
+  const reverseTransaction = useLedgerStore((state) => state.reverseTransaction);
+
+  const [reason, setReason] = useState('');
+  const [reverseDate, setReverseDate] = useState(getTodayLocalString());
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setReason('');
+    setReverseDate(getTodayLocalString());
+    setError(null);
+  }, [transactionId]);
+
+  const transaction = transactions.find((tx) => tx.id === transactionId);
+  if (!transaction) return null;
+
+  const chain = Reversal.chain(transactions, transaction.id);
+  const links = {
+    date: toLocalDateString(transaction.date),
+    status: transaction.status ?? 'posted',
+    reversesId: transaction.reversesId ?? null,
+    reversedById: transaction.reversedById ?? null,
+  };
+  // Offer the actions only while the entry can still be cancelled
+  const canCancel = Reversal.validate(links, 'void', links.date) === null;
+
+  const accountLabel = (accountId: string) => {
+    const account = getAccount(accountId);
+    return account ? `${account.code} - ${account.name}` : accountId;
+  };
+
+  const cancel = async (kind: 'void' | 'reverse') => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      const reversal = kind === 'void'
+        ? await voidTransaction(transaction.id, reason)
+        : await reverseTransaction(transaction.id, parseLocalDate(reverseDate), reason);
+      onNavigate(reversal.id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('reversal.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={transaction.description}
+      description={`${transaction.date.toLocaleDateString()} · ${t(`reversal.status.${statusOf(transaction)}`)}`}
+      icon={<FileText className="w-5 h-5" />}
+      size="lg"
+    >
+      {transaction.memo && <p className="mb-3 text-sm text-gray-600 dark:text-gray-300">{transaction.memo}</p>}
+
+      <table className="w-full text-sm mb-4">
+        <thead>
+          <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+            <th className="px-3 py-1.5 text-left font-medium">{t('journal.account')}</th>
+            <th className="px-3 py-1.5 text-right font-medium">{t('journal.debit')}</th>
+            <th className="px-3 py-1.5 text-right font-medium">{t('journal.credit')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {transaction.postings.map((posting) => {
+            const amount = posting.originalDebitAmount ?? posting.originalCreditAmount;
+            const formatted = amount ? formatAmount(amount.toMajorUnits(), amount.getCurrency()) : '';
+            return (
+              <tr key={posting.id} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                <td className="px-3 py-1.5">{accountLabel(posting.accountId)}</td>
+                <td className="px-3 py-1.5 text-right tabular-nums">{posting.originalDebitAmount && formatted}</td>
+                <td className="px-3 py-1.5 text-right tabular-nums">{posting.originalCreditAmount && formatted}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {chain.length > 1 && (
+        <div className="mb-4">
+          <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{t('reversal.chain')}</h3>
+          <ol className="space-y-1">
+            {chain.map((entry) => (
+              <li key={entry.id}>
+                <button
+                  onClick={() => onNavigate(entry.id)}
+                  disabled={entry.id === transaction.id}
+                  className="w-full flex items-center justify-between gap-3 px-3 py-1.5 text-sm text-left rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50 disabled:bg-blue-50 dark:disabled:bg-blue-900/20"
+                >
+                  <span className="text-gray-900 dark:text-white">
+                    <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">{entry.date.toLocaleDateString()}</span>
+                    {entry.description}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{t(`reversal.status.${statusOf(entry)}`)}</span>
+                </button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {canCancel && (
+        <div className="pt-3 border-t border-gray-200 dark:border-gray-700 space-y-2">
+          <input
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            maxLength={500}
+            placeholder={t('reversal.reasonPlaceholder')}
+            className={`${inputClass} w-full`}
+          />
+          <div className="flex flex-wrap items-center justify-end gap-2">
+            <button
+              onClick={() => cancel('void')}
+              disabled={isSaving}
+              title={t('reversal.voidHint')}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-red-600 dark:text-red-400 border border-red-200 dark:border-red-800 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Ban className="w-3.5 h-3.5" />
+              {t('reversal.void')}
+            </button>
+            <input
+              type="date"
+              value={reverseDate}
+              min={links.date}
+              onChange={(e) => e.target.value && setReverseDate(e.target.value)}
+              className={inputClass}
+              aria-label={t('reversal.date')}
+            />
+            <button
+              onClick={() => cancel('reverse')}
+              disabled={isSaving}
+              title={t('reversal.reverseHint')}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+            >
+              <Undo2 className="w-3.5 h-3.5" />
+              {t('reversal.reverse')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </Modal>
+  );
+};
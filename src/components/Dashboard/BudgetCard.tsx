@@ -0,0 +1,232 @@
+import React, { useState, useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useTranslation } from 'react-i18next';
+import { Plus, Trash2, X, Target, RefreshCw } from 'lucide-react';
+import { useBudgetStore } from '../../stores/budgetStore';
+import { useExpenseStore } from '../../stores/expenseStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { calculateBudgetProgress } from '../../utils/budgetUtils';
+import { getCategoryOptions } from '../../utils/categoryUtils';
+import type { BudgetScope, ExpenseRating } from '../../types';
+
+interface BudgetCardProps {
+  /** Month to show in YYYY-MM format */
+  month: string;
+}
+
+const RATINGS: ExpenseRating[] = ['essential', 'discretionary', 'luxury'];
+
+// Bar color by how much of the limit is used
+const getBarColor = (percentUsed: number): string => {
+  if (percentUsed >= 100) return 'bg-red-500';
+  if (percentUsed >= 80) return 'bg-yellow-500';
+  return 'bg-green-500';
+};
+
+export const BudgetCard: React.FC<BudgetCardProps> = ({ month }) => {
+  const { t } = useTranslation();
+  const { budgets, addBudget, deleteBudget } = useBudgetStore(
+    useShallow((state) => ({ budgets: state.budgets, addBudget: state.addBudget, deleteBudget: state.deleteBudget }))
+  );
+  const { expenses } = useExpenseStore(
+    useShallow((state) => ({ expenses: state.expenses }))
+  );
+  const { formatAmount, baseCurrency, convertAmount, enabledCurrencies } = useCurrencyStore(
+    useShallow((state) => ({
+      formatAmount: state.formatAmount,
+      baseCurrency: state.baseCurrency,
+      convertAmount: state.convertAmount,
+      enabledCurrencies: state.enabledCurrencies,
+    }))
+  );
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [scope, setScope] = useState<BudgetScope>('rating');
+  const [category, setCategory] = useState('');
+  const [rating, setRating] = useState<ExpenseRating>('discretionary');
+  const [limit, setLimit] = useState('');
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [rollover, setRollover] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Suggest the categories expenses already use
+  const categoryOptions = useMemo(() => getCategoryOptions(expenses), [expenses]);
+
+  const progress = useMemo(() => {
+    return budgets.map((budget) => calculateBudgetProgress(budget, expenses, month, convertAmount));
+  }, [budgets, expenses, month, convertAmount]);
+
+  const resetForm = () => {
+    setIsAdding(false);
+    setCategory('');
+    setLimit('');
+    setRollover(false);
+    setFormError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      await addBudget({
+        scope,
+        category: scope === 'category' ? category : undefined,
+        rating: scope === 'rating' ? rating : undefined,
+        name: scope === 'rating' ? t(`dashboard.${rating}`) : category,
+        monthlyLimit: parseFloat(limit),
+        currency,
+        rollover,
+        startMonth: month,
+      });
+      resetForm();
+    } catch (error) {
+      setFormError(error instanceof Error ? error.message : t('budgets.addFailed'));
+    }
+  };
+
+  const inputClass = 'w-full text-sm border border-gray-300 dark:border-gray-600 rounded px-2 py-1 bg-white dark:bg-gray-700 text-gray-700 dark:text-gray-300';
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white flex items-center gap-2">
+          <Target className="w-4 h-4" />
+          {t('budgets.title')}
+        </h4>
+        <button
+          onClick={() => (isAdding ? resetForm() : setIsAdding(true))}
+          className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+          title={isAdding ? t('cancel') : t('budgets.add')}
+        >
+          {isAdding ? <X className="w-4 h-4" /> : <Plus className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {isAdding && (
+        <form onSubmit={handleSubmit} className="space-y-2 mb-4 p-3 bg-gray-50 dark:bg-gray-900/50 rounded-lg">
+          <div className="flex gap-2">
+            <select
+              value={scope}
+              onChange={(e) => setScope(e.target.value as BudgetScope)}
+              className={inputClass}
+            >
+              <option value="rating">{t('budgets.byRating')}</option>
+              <option value="category">{t('budgets.byCategory')}</option>
+            </select>
+            {scope === 'rating' ? (
+              <select
+                value={rating}
+                onChange={(e) => setRating(e.target.value as ExpenseRating)}
+                className={inputClass}
+              >
+                {RATINGS.map((r) => (
+                  <option key={r} value={r}>{t(`dashboard.${r}`)}</option>
+                ))}
+              </select>
+            ) : (
+              <input
+                type="text"
+                value={category}
+                onChange={(e) => setCategory(e.target.value)}
+                placeholder={t('budgets.categoryPlaceholder')}
+                className={inputClass}
+                list="budget-category-options"
+              />
+            )}
+            <datalist id="budget-category-options">
+              {categoryOptions.map((option) => (
+                <option key={option.category} value={option.category} />
+              ))}
+            </datalist>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={limit}
+              onChange={(e) => setLimit(e.target.value)}
+              placeholder={t('budgets.monthlyLimit')}
+              className={inputClass}
+            />
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className={`${inputClass} w-24`}
+            >
+              {enabledCurrencies.map((c) => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+          </div>
+          <label className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400">
+            <input
+              type="checkbox"
+              checked={rollover}
+              onChange={(e) => setRollover(e.target.checked)}
+            />
+            {t('budgets.rollover')}
+          </label>
+          {formError && <p className="text-xs text-red-600 dark:text-red-400">{formError}</p>}
+          <button
+            type="submit"
+            disabled={!limit || (scope === 'category' && !category.trim())}
+            className="w-full px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50 rounded transition-colors"
+          >
+            {t('budgets.add')}
+          </button>
+        </form>
+      )}
+
+      {progress.length === 0 ? (
+        <p className="text-xs text-gray-500 dark:text-gray-400 italic">{t('budgets.empty')}</p>
+      ) : (
+        <div className="space-y-3">
+          {progress.map(({ budget, limit: available, spent, remaining, percentUsed, carriedOver }) => (
+            <div key={budget.id} className="group">
+              <div className="flex items-center justify-between text-xs mb-1">
+                <span className="font-medium text-gray-700 dark:text-gray-300 flex items-center gap-1 truncate">
+                  {budget.name}
+                  {budget.rollover && (
+                    <span title={t('budgets.rollover')}>
+                      <RefreshCw className="w-3 h-3 text-blue-500" />
+                    </span>
+                  )}
+                </span>
+                <div className="flex items-center gap-1">
+                  <span className="text-gray-600 dark:text-gray-400">
+                    {formatAmount(spent, budget.currency)} / {formatAmount(available, budget.currency)}
+                  </span>
+                  <button
+                    onClick={() => deleteBudget(budget.id)}
+                    className="p-0.5 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                    title={t('budgets.delete')}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+              <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={`h-full ${getBarColor(percentUsed)} transition-all`}
+                  style={{ width: `${Math.min(percentUsed, 100)}%` }}
+                />
+              </div>
+              <div className="flex items-center justify-between text-xs mt-1">
+                <span className={remaining < 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-500 dark:text-gray-400'}>
+                  {remaining < 0
+                    ? t('budgets.over', { amount: formatAmount(-remaining, budget.currency) })
+                    : t('budgets.left', { amount: formatAmount(remaining, budget.currency) })}
+                </span>
+                {carriedOver > 0 && (
+                  <span className="text-blue-600 dark:text-blue-400">
+                    {t('budgets.carried', { amount: formatAmount(carriedOver, budget.currency) })}
+                  </span>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -7,9 +7,13 @@ import { useExpenseStore } from '../../stores/expenseStore';
 import { useIncomeStore } from '../../stores/incomeStore';
 import { TrendingUp, TrendingDown, Wallet, DollarSign, Filter, ChevronLeft, ChevronRight, ChevronUp, ChevronDown, Landmark, PiggyBank, ArrowUpDown, Scissors, LayoutGrid } from 'lucide-react';
 import { formatDate } from '../../utils/dateFormat';
+import { excludeProjectedOccurrences } from '../../utils/recurringUtils';
+import { getCategoryBreakdown } from '../../utils/categoryUtils';
+import { ExpenseSplitter } from '../../domain/splits';
 import { useDateRange } from '../../hooks/finance/useDateRange';
 import { useMonthNavigation } from '../../hooks/useMonthNavigation';
 import { CurrencyBadge } from '../Shared/CurrencyBadge';
+import { BudgetCard } from './BudgetCard';
 import { getNetWorthAt, getMoMChange } from '../../selectors/finance';
 import { useSnapshotStore } from '../../stores/snapshotStore';
 import { Money } from '../../domain/money';
@@ -35,7 +39,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
   
   const [entryFilter, setEntryFilter] = useState<'all' | 'income' | 'expense'>('all');
   const [viewMode, setViewMode] = useState<'month' | 'year' | 'custom'>('month');
-  const { selectedDate, navigateMonth, navigateYear, formattedMonth } = useMonthNavigation();
+  const { selectedDate, navigateMonth, navigateYear, formattedMonth, monthString } = useMonthNavigation();
   const [customStartDate, setCustomStartDate] = useState('');
   const [customEndDate, setCustomEndDate] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
@@ -97,7 +101,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
   // Recurring income: shows in periods from creation date onwards (not before)
   // One-time income: only shows in the period it was created
   const filteredIncomes = useMemo(() => {
-    return incomes.filter((income) => {
+    return excludeProjectedOccurrences(incomes, (income) => income.frequency !== 'one-time').filter((income) => {
       const incomeDate = parseLocalDate(income.date);
 
       if (income.frequency === 'one-time') {
@@ -115,7 +119,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
   // Recurring expenses: shows in periods from creation date onwards (not before)
   // One-time expenses: only shows in the period it was created
   const filteredExpenses = useMemo(() => {
-    return expenses.filter((expense) => {
+    return excludeProjectedOccurrences(expenses, (expense) => !!expense.recurring).filter((expense) => {
       const expenseDate = parseLocalDate(expense.date);
 
       if (expense.recurring) {
@@ -143,15 +147,24 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
     }, 0);
   }, [filteredExpenses, convertAmount, baseCurrency]);
 
+  // Split expenses count each line under its own rating and category
+  const expenseLines = useMemo(() => ExpenseSplitter.expandAll(filteredExpenses), [filteredExpenses]);
+
   // Calculate expense breakdown by rating
   const expensesByRating = useMemo(() => {
     const breakdown: Record<string, number> = {};
-    filteredExpenses.forEach((expense) => {
+    expenseLines.forEach((expense) => {
       const converted = convertAmount(expense.amount, expense.currency, baseCurrency);
       breakdown[expense.rating] = (breakdown[expense.rating] || 0) + converted;
     });
     return breakdown;
-  }, [filteredExpenses, convertAmount, baseCurrency]);
+  }, [expenseLines, convertAmount, baseCurrency]);
+
+  // Calculate expense breakdown by category and subcategory
+  const expensesByCategory = useMemo(
+    () => getCategoryBreakdown(expenseLines, convertAmount, baseCurrency),
+    [expenseLines, convertAmount, baseCurrency]
+  );
 
   // Calculate recurring expenses total for the period (only those created on or before the period)
   const recurringExpensesTotal = useMemo(() => {
@@ -625,8 +638,8 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
 
         </div>
 
-        {/* Right Column: Insights Panel (1/3 width) */}
-        <div className="lg:col-span-1">
+        {/* Right Column: Insights Panel + Budgets (1/3 width) */}
+        <div className="lg:col-span-1 space-y-4 sm:space-y-6">
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
             {/* Tabs */}
             <div className="flex border-b border-gray-200 dark:border-gray-700">
@@ -749,6 +762,41 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
                           ) : null;
                         })}
                       </div>
+
+                      {/* Category breakdown */}
+                      <div className="w-full mt-5 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-3">
+                        <h4 className={styles.sectionHeader}>{t('dashboard.byCategory')}</h4>
+                        {expensesByCategory.map(({ category, amount, subcategories }) => {
+                          const percent = (amount / periodExpenses) * 100;
+                          const namedSubcategories = subcategories.filter((sub) => sub.subcategory);
+
+                          return (
+                            <div key={category ?? ''} className="space-y-1">
+                              <div className="flex items-center justify-between text-xs">
+                                <span className={category ? 'text-gray-700 dark:text-gray-300' : 'italic text-gray-500 dark:text-gray-400'}>
+                                  {category ?? t('expenses.uncategorized')}
+                                </span>
+                                <span className="font-medium text-gray-900 dark:text-white">
+                                  {formatAmount(amount)} <span className="text-gray-400">({percent.toFixed(0)}%)</span>
+                                </span>
+                              </div>
+                              <div className="h-1.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                                <div className="h-full bg-blue-500 rounded-full" style={{ width: `${Math.min(percent, 100)}%` }} />
+                              </div>
+                              {namedSubcategories.length > 0 && (
+                                <div className="pl-3 space-y-0.5">
+                                  {namedSubcategories.map(({ subcategory, amount: subAmount }) => (
+                                    <div key={subcategory} className="flex items-center justify-between text-[11px] text-gray-500 dark:text-gray-400">
+                                      <span>{subcategory}</span>
+                                      <span>{formatAmount(subAmount)}</span>
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
                     </div>
                   ) : (
                     <div className="flex flex-col items-center py-8">
@@ -811,6 +859,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ onNavigate }) => {
               )}
             </div>
           </div>
+
+          {/* Budgets: spent vs limit for the selected month */}
+          <BudgetCard month={monthString} />
         </div>
       </div>
 
@@ -0,0 +1,388 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useShallow } from 'zustand/react/shallow';
+import { Wand2, Pencil, Trash2, Plus, RefreshCw } from 'lucide-react';
+import { Modal, modalButtonStyles } from '../Shared/Modal';
+import { ToggleSwitch } from '../Shared/ToggleSwitch';
+import { useCategorizationRuleStore } from '../../stores/categorizationRuleStore';
+import { useExpenseStore } from '../../stores/expenseStore';
+import { useAccountStore } from '../../stores/accountStore';
+import { formStyles } from '../../styles/formStyles';
+import type { CategorizationRule, ExpenseRating } from '../../types';
+
+interface CategorizationRulesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Form values are kept as strings and converted on save
+interface RuleForm {
+  name: string;
+  descriptionPattern: string;
+  minAmount: string;
+  maxAmount: string;
+  currency: string;
+  accountId: string;
+  category: string;
+  subcategory: string;
+  rating: '' | ExpenseRating;
+  recurring: '' | 'yes' | 'no';
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  descriptionPattern: '',
+  minAmount: '',
+  maxAmount: '',
+  currency: '',
+  accountId: '',
+  category: '',
+  subcategory: '',
+  rating: '',
+  recurring: '',
+};
+
+const toForm = (rule: CategorizationRule): RuleForm => ({
+  name: rule.name,
+  descriptionPattern: rule.descriptionPattern ?? '',
+  minAmount: rule.minAmount != null ? String(rule.minAmount) : '',
+  maxAmount: rule.maxAmount != null ? String(rule.maxAmount) : '',
+  currency: rule.currency ?? '',
+  accountId: rule.accountId ?? '',
+  category: rule.category ?? '',
+  subcategory: rule.subcategory ?? '',
+  rating: rule.rating ?? '',
+  recurring: rule.recurring == null ? '' : rule.recurring ? 'yes' : 'no',
+});
+
+const fromForm = (form: RuleForm) => ({
+  name: form.name,
+  descriptionPattern: form.descriptionPattern || null,
+  minAmount: form.minAmount ? parseFloat(form.minAmount) : null,
+  maxAmount: form.maxAmount ? parseFloat(form.maxAmount) : null,
+  currency: form.currency || null,
+  accountId: form.accountId || null,
+  category: form.category || null,
+  subcategory: form.subcategory || null,
+  rating: form.rating || null,
+  recurring: form.recurring ? form.recurring === 'yes' : null,
+});
+
+export const CategorizationRulesModal: React.FC<CategorizationRulesModalProps> = ({ isOpen, onClose }) => {
+  const { t } = useTranslation();
+  const { rules, addRule, updateRule, deleteRule, addDefaultRules } = useCategorizationRuleStore(
+    useShallow((state) => ({ rules: state.rules, addRule: state.addRule, updateRule: state.updateRule, deleteRule: state.deleteRule, addDefaultRules: state.addDefaultRules }))
+  );
+  const applyCategorizationRules = useExpenseStore((state) => state.applyCategorizationRules);
+  const accounts = useAccountStore((state) => state.accounts);
+
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const sortedRules = [...rules].sort((a, b) => a.priority - b.priority);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rule');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const openForm = (rule?: CategorizationRule) => {
+    setForm(rule ? toForm(rule) : EMPTY_FORM);
+    setEditingId(rule?.id ?? null);
+    setError(null);
+    setMessage(null);
+  };
+
+  const closeForm = () => {
+    setForm(null);
+    setEditingId(null);
+  };
+
+  const handleSave = () => run(async () => {
+    if (!form) return;
+    if (editingId) {
+      await updateRule(editingId, fromForm(form));
+    } else {
+      await addRule(fromForm(form));
+    }
+    closeForm();
+  });
+
+  const handleApply = () => run(async () => {
+    const updated = await applyCategorizationRules();
+    setMessage(t('rules.applied', { count: updated }));
+  });
+
+  const updateForm = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => {
+    setForm((current) => current && { ...current, [key]: value });
+  };
+
+  const describeRule = (rule: CategorizationRule): string => {
+    const conditions = [
+      rule.descriptionPattern && `/${rule.descriptionPattern}/`,
+      rule.minAmount != null && `≥ ${rule.minAmount}`,
+      rule.maxAmount != null && `≤ ${rule.maxAmount}`,
+      rule.currency,
+      rule.accountId && (accounts.find((account) => account.id === rule.accountId)?.name ?? rule.accountId),
+    ].filter(Boolean);
+    const actions = [
+      [rule.category, rule.subcategory].filter(Boolean).join(' › '),
+      rule.rating && t(`expenses.${rule.rating}`),
+      rule.recurring != null && (rule.recurring ? t('rules.recurringYes') : t('rules.recurringNo')),
+    ].filter(Boolean);
+    return `${conditions.join(', ')} → ${actions.join(', ')}`;
+  };
+
+  const footer = form ? (
+    <>
+      <button onClick={closeForm} disabled={isBusy} className={modalButtonStyles.secondary}>
+        {t('cancel')}
+      </button>
+      <button onClick={handleSave} disabled={isBusy || !form.name.trim()} className={modalButtonStyles.primary}>
+        {t('save')}
+      </button>
+    </>
+  ) : (
+    <>
+      <button onClick={handleApply} disabled={isBusy || rules.length === 0} className={modalButtonStyles.secondary}>
+        <span className="inline-flex items-center gap-1">
+          <RefreshCw className="w-4 h-4" />
+          {t('rules.applyToHistory')}
+        </span>
+      </button>
+      <button onClick={onClose} className={modalButtonStyles.primary}>
+        {t('close')}
+      </button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={editingId ? t('rules.editRule') : form ? t('rules.newRule') : t('rules.title')}
+      description={form ? undefined : t('rules.description')}
+      icon={<Wand2 className="w-5 h-5" />}
+      size="lg"
+      footer={footer}
+    >
+      {error && (
+        <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+      {message && (
+        <p className="mb-3 text-sm text-green-600 dark:text-green-400">{message}</p>
+      )}
+
+      {form ? (
+        <div className="space-y-4">
+          <div>
+            <label className={formStyles.label.base}>{t('rules.name')}</label>
+            <input
+              type="text"
+              value={form.name}
+              onChange={(e) => updateForm('name', e.target.value)}
+              className={formStyles.input.base}
+              maxLength={100}
+              autoFocus
+            />
+          </div>
+
+          <fieldset className="space-y-3">
+            <legend className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+              {t('rules.conditions')}
+            </legend>
+            <div>
+              <label className={formStyles.label.base}>{t('rules.descriptionPattern')}</label>
+              <input
+                type="text"
+                value={form.descriptionPattern}
+                onChange={(e) => updateForm('descriptionPattern', e.target.value)}
+                className={`${formStyles.input.base} font-mono`}
+                placeholder="uber|lyft"
+                maxLength={200}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={formStyles.label.base}>{t('rules.minAmount')}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.minAmount}
+                  onChange={(e) => updateForm('minAmount', e.target.value)}
+                  className={formStyles.input.base}
+                />
+              </div>
+              <div>
+                <label className={formStyles.label.base}>{t('rules.maxAmount')}</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.maxAmount}
+                  onChange={(e) => updateForm('maxAmount', e.target.value)}
+                  className={formStyles.input.base}
+                />
+              </div>
+              <div>
+                <label className={formStyles.label.base}>{t('rules.currency')}</label>
+                <input
+                  type="text"
+                  value={form.currency}
+                  onChange={(e) => updateForm('currency', e.target.value.toUpperCase())}
+                  className={formStyles.input.base}
+                  placeholder={t('rules.any')}
+                  maxLength={3}
+                />
+              </div>
+              <div>
+                <label className={formStyles.label.base}>{t('rules.account')}</label>
+                <select
+                  value={form.accountId}
+                  onChange={(e) => updateForm('accountId', e.target.value)}
+                  className={formStyles.input.base}
+                >
+                  <option value="">{t('rules.any')}</option>
+                  {accounts.map((account) => (
+                    <option key={account.id} value={account.id}>{account.name}</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </fieldset>
+
+          <fieldset className="space-y-3">
+            <legend className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">
+              {t('rules.actions')}
+            </legend>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className={formStyles.label.base}>{t('rules.category')}</label>
+                <input
+                  type="text"
+                  value={form.category}
+                  onChange={(e) => updateForm('category', e.target.value)}
+                  className={formStyles.input.base}
+                  maxLength={100}
+                />
+              </div>
+              <div>
+                <label className={formStyles.label.base}>{t('rules.subcategory')}</label>
+                <input
+                  type="text"
+                  value={form.subcategory}
+                  onChange={(e) => updateForm('subcategory', e.target.value)}
+                  className={formStyles.input.base}
+                  maxLength={100}
+                />
+              </div>
+              <div>
+                <label className={formStyles.label.base}>{t('rules.rating')}</label>
+                <select
+                  value={form.rating}
+                  onChange={(e) => updateForm('rating', e.target.value as RuleForm['rating'])}
+                  className={formStyles.input.base}
+                >
+                  <option value="">{t('rules.unchanged')}</option>
+                  <option value="essential">{t('expenses.essential')}</option>
+                  <option value="discretionary">{t('expenses.discretionary')}</option>
+                  <option value="luxury">{t('expenses.luxury')}</option>
+                </select>
+              </div>
+              <div>
+                <label className={formStyles.label.base}>{t('rules.recurring')}</label>
+                <select
+                  value={form.recurring}
+                  onChange={(e) => updateForm('recurring', e.target.value as RuleForm['recurring'])}
+                  className={formStyles.input.base}
+                >
+                  <option value="">{t('rules.unchanged')}</option>
+                  <option value="yes">{t('rules.recurringYes')}</option>
+                  <option value="no">{t('rules.recurringNo')}</option>
+                </select>
+              </div>
+            </div>
+          </fieldset>
+        </div>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          <Wand2 className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+          <p className="text-sm mb-4">{t('rules.empty')}</p>
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={() => run(async () => { await addDefaultRules(); })}
+              disabled={isBusy}
+              className={modalButtonStyles.secondary}
+            >
+              {t('rules.addStarterRules')}
+            </button>
+            <button onClick={() => openForm()} disabled={isBusy} className={modalButtonStyles.primary}>
+              {t('rules.addRule')}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('rules.orderHint')}</p>
+          <ul className="border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-100 dark:divide-gray-700">
+            {sortedRules.map((rule) => (
+              <li key={rule.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                <ToggleSwitch
+                  checked={rule.enabled}
+                  onChange={(enabled) => run(async () => { await updateRule(rule.id, { enabled }); })}
+                  ariaLabel={t('rules.enabled')}
+                  size="sm"
+                  disabled={isBusy}
+                />
+                <div className="flex-1 min-w-0">
+                  <p className={`font-medium truncate ${rule.enabled ? 'text-gray-900 dark:text-white' : 'text-gray-400 dark:text-gray-500'}`}>
+                    {rule.name}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={describeRule(rule)}>
+                    {describeRule(rule)}
+                  </p>
+                </div>
+                <button
+                  onClick={() => openForm(rule)}
+                  disabled={isBusy}
+                  className="p-1 rounded text-gray-400 hover:text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 transition-colors"
+                  title={t('rules.editRule')}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => run(() => deleteRule(rule.id))}
+                  disabled={isBusy}
+                  className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 transition-colors"
+                  title={t('delete')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={() => openForm()}
+            disabled={isBusy}
+            className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            {t('rules.addRule')}
+          </button>
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -1,14 +1,27 @@
-import React, { useState, useRef, useEffect, useMemo, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useMemo, useCallback, useId } from 'react';
 import { createPortal } from 'react-dom';
 import { useShallow } from 'zustand/react/shallow';
 import { useTranslation } from 'react-i18next';
 import { useExpenseStore } from '../../stores/expenseStore';
+import type { NewExpense } from '../../stores/expenseStore';
+import { useCategorizationRuleStore } from '../../stores/categorizationRuleStore';
 import { useCurrencyStore } from '../../stores/currencyStore';
 import { useMonthNavigation } from '../../hooks/useMonthNavigation';
-import { Plus, Trash2, ChevronDown, ChevronLeft, ChevronRight, Calendar, RefreshCw, Home, ShoppingBag, Sparkles, Filter, X, ArrowUpDown, ArrowUp, ArrowDown, Upload } from 'lucide-react';
+import { Plus, Trash2, ChevronDown, ChevronLeft, ChevronRight, Calendar, RefreshCw, Home, ShoppingBag, Sparkles, Filter, X, ArrowUpDown, ArrowUp, ArrowDown, Upload, Copy, Wand2, Split, History } from 'lucide-react';
 import type { Expense, ExpenseRating } from '../../types';
 import { ImportModal } from '../Shared/ImportModal';
+import type { DuplicateMatch, ImportMerge } from '../Shared/ImportModal';
+import { DuplicatesModal } from '../Shared/DuplicatesModal';
+import { CategorizationRulesModal } from './CategorizationRulesModal';
+import { SplitExpenseModal } from './SplitExpenseModal';
+import { RecordHistoryModal, type HistoryTarget } from '../Shared/RecordHistoryModal';
+import { excludeProjectedOccurrences } from '../../utils/recurringUtils';
 import { parseExpenseXLSX } from '../../utils/xlsx';
+import { statementToExpenseRows } from '../../utils/bankStatement';
+import { findDuplicate, findDuplicateGroups, expenseToCandidate } from '../../utils/duplicates';
+import { getCategoryOptions, matchesCategoryFilter, UNCATEGORIZED } from '../../utils/categoryUtils';
+import type { CategoryOption } from '../../utils/categoryUtils';
+import { ExpenseSplitter } from '../../domain/splits';
 
 // Format date for display (compact format: Dec 11)
 const formatDateCompact = (dateStr: string, locale: string = 'en-US'): string => {
@@ -548,12 +561,124 @@ const DatePickerCell: React.FC<DatePickerCellProps> = ({ value, onChange }) => {
   );
 };
 
+// Category / Subcategory Cell - free text with suggestions from known categories
+interface CategoryCellProps {
+  category?: string;
+  subcategory?: string;
+  options: CategoryOption[];
+  onChange: (category: string, subcategory: string) => void;
+}
+
+const CategoryCell: React.FC<CategoryCellProps> = ({ category = '', subcategory = '', options, onChange }) => {
+  const { t } = useTranslation();
+  const [isEditing, setIsEditing] = useState(false);
+  const [localCategory, setLocalCategory] = useState(category);
+  const [localSubcategory, setLocalSubcategory] = useState(subcategory);
+  const categoryListId = useId();
+  const subcategoryListId = useId();
+
+  useEffect(() => {
+    setLocalCategory(category);
+    setLocalSubcategory(subcategory);
+  }, [category, subcategory]);
+
+  const subcategoryOptions = options.find(
+    (option) => option.category.toLowerCase() === localCategory.trim().toLowerCase()
+  )?.subcategories ?? [];
+
+  const commit = () => {
+    setIsEditing(false);
+    const nextCategory = localCategory.trim();
+    // A subcategory only makes sense within a category
+    const nextSubcategory = nextCategory ? localSubcategory.trim() : '';
+    if (nextCategory !== category || nextSubcategory !== subcategory) {
+      onChange(nextCategory, nextSubcategory);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      commit();
+    } else if (e.key === 'Escape') {
+      setLocalCategory(category);
+      setLocalSubcategory(subcategory);
+      setIsEditing(false);
+    }
+  };
+
+  // Commit once focus leaves both inputs
+  const handleBlur = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) {
+      commit();
+    }
+  };
+
+  if (isEditing) {
+    const inputClass = 'w-full px-2 py-1 text-sm bg-white dark:bg-gray-800 border-2 border-red-500 rounded-md outline-none';
+    return (
+      <div className="flex flex-col gap-1" onBlur={handleBlur}>
+        <input
+          value={localCategory}
+          onChange={(e) => setLocalCategory(e.target.value)}
+          onKeyDown={handleKeyDown}
+          list={categoryListId}
+          placeholder={t('expenses.categoryHeader')}
+          maxLength={100}
+          className={inputClass}
+          autoFocus
+        />
+        <input
+          value={localSubcategory}
+          onChange={(e) => setLocalSubcategory(e.target.value)}
+          onKeyDown={handleKeyDown}
+          list={subcategoryListId}
+          placeholder={t('expenses.subcategoryHeader')}
+          maxLength={100}
+          disabled={!localCategory.trim()}
+          className={`${inputClass} text-xs disabled:opacity-50`}
+        />
+        <datalist id={categoryListId}>
+          {options.map((option) => (
+            <option key={option.category} value={option.category} />
+          ))}
+        </datalist>
+        <datalist id={subcategoryListId}>
+          {subcategoryOptions.map((option) => (
+            <option key={option} value={option} />
+          ))}
+        </datalist>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      onClick={() => setIsEditing(true)}
+      className="px-2 py-1.5 text-sm cursor-text hover:bg-gray-100 dark:hover:bg-gray-700/50 rounded-md transition-colors min-h-[32px] flex flex-col justify-center"
+    >
+      {category ? (
+        <>
+          <span className="text-gray-700 dark:text-gray-300 truncate">{category}</span>
+          {subcategory && (
+            <span className="text-xs text-gray-500 dark:text-gray-400 truncate">{subcategory}</span>
+          )}
+        </>
+      ) : (
+        <span className="text-gray-400 dark:text-gray-500 italic">{t('expenses.uncategorized')}</span>
+      )}
+    </div>
+  );
+};
+
 // Expense Row Component
 interface ExpenseRowProps {
   expense: Expense;
-  onUpdate: (id: string, updates: Partial<Expense>) => void;
+  onUpdate: (id: string, updates: Partial<NewExpense>) => void;
   onDelete: (id: string) => void;
+  onSplit: (expense: Expense) => void;
+  onHistory: (expense: Expense) => void;
   enabledCurrencies: string[];
+  categoryOptions: CategoryOption[];
   index: number;
   hideDate?: boolean;
   hideRecurring?: boolean;
@@ -563,13 +688,19 @@ const ExpenseRow: React.FC<ExpenseRowProps> = ({
   expense,
   onUpdate,
   onDelete,
+  onSplit,
+  onHistory,
   enabledCurrencies,
+  categoryOptions,
   index,
   hideDate = false,
   hideRecurring = false,
 }) => {
-  const { i18n } = useTranslation();
+  const { t, i18n } = useTranslation();
   const isEven = index % 2 === 0;
+  const isSplit = ExpenseSplitter.isSplit(expense);
+  const splitCategories = [...new Set((expense.splits ?? []).map((line) => line.category?.trim()).filter(Boolean))];
+  const splitCellClass = 'w-full px-2 py-1.5 text-sm rounded-md hover:bg-gray-100 dark:hover:bg-gray-700/50 transition-colors min-h-[32px]';
 
   return (
     <tr className={`group border-b border-gray-200 dark:border-gray-700 hover:bg-blue-50 dark:hover:bg-gray-700/50 transition-colors ${isEven ? 'bg-gray-50/50 dark:bg-gray-800/30' : ''}`}>
@@ -583,16 +714,26 @@ const ExpenseRow: React.FC<ExpenseRowProps> = ({
       </td>
 
       {/* Amount */}
+      {/* The total of a split expense is changed together with its lines */}
       <td className="py-1 px-1 border-l border-gray-300 dark:border-gray-600 w-28">
-        <EditableCell
-          value={String(expense.amount)}
-          onChange={(val) => onUpdate(expense.id, { amount: parseFloat(val) || 0 })}
-          type="currency"
-          placeholder="0.00"
-          align="right"
-          className="text-red-700 dark:text-red-400 font-medium"
-          locale={i18n.language}
-        />
+        {isSplit ? (
+          <button
+            onClick={() => onSplit(expense)}
+            className={`${splitCellClass} text-right text-red-700 dark:text-red-400 font-medium`}
+          >
+            {formatNumberWithCommas(expense.amount, i18n.language)}
+          </button>
+        ) : (
+          <EditableCell
+            value={String(expense.amount)}
+            onChange={(val) => onUpdate(expense.id, { amount: parseFloat(val) || 0 })}
+            type="currency"
+            placeholder="0.00"
+            align="right"
+            className="text-red-700 dark:text-red-400 font-medium"
+            locale={i18n.language}
+          />
+        )}
       </td>
 
       {/* Currency */}
@@ -606,10 +747,42 @@ const ExpenseRow: React.FC<ExpenseRowProps> = ({
 
       {/* Rating */}
       <td className="py-1 px-1 border-l border-gray-200 dark:border-gray-700 w-32">
-        <RatingDropdown
-          value={expense.rating}
-          onChange={(rating) => onUpdate(expense.id, { rating })}
-        />
+        {isSplit ? (
+          <button
+            onClick={() => onSplit(expense)}
+            className={`${splitCellClass} flex items-center gap-1.5 text-blue-700 dark:text-blue-400`}
+          >
+            <Split className="w-3.5 h-3.5" />
+            {t('splits.lines', { count: expense.splits?.length ?? 0 })}
+          </button>
+        ) : (
+          <RatingDropdown
+            value={expense.rating}
+            onChange={(rating) => onUpdate(expense.id, { rating })}
+          />
+        )}
+      </td>
+
+      {/* Category / Subcategory */}
+      <td className="py-1 px-1 border-l border-gray-200 dark:border-gray-700 w-36">
+        {isSplit ? (
+          <button
+            onClick={() => onSplit(expense)}
+            className={`${splitCellClass} text-left truncate text-gray-700 dark:text-gray-300`}
+            title={splitCategories.join(', ')}
+          >
+            {splitCategories.length > 0 ? splitCategories.join(', ') : (
+              <span className="text-gray-400 dark:text-gray-500 italic">{t('expenses.uncategorized')}</span>
+            )}
+          </button>
+        ) : (
+          <CategoryCell
+            category={expense.category}
+            subcategory={expense.subcategory}
+            options={categoryOptions}
+            onChange={(category, subcategory) => onUpdate(expense.id, { category, subcategory })}
+          />
+        )}
       </td>
 
       {/* Date - conditionally rendered */}
@@ -634,15 +807,31 @@ const ExpenseRow: React.FC<ExpenseRowProps> = ({
         </td>
       )}
 
-      {/* Delete */}
-      <td className="py-1 px-1 border-l border-gray-200 dark:border-gray-700 w-10">
-        <button
-          onClick={() => onDelete(expense.id)}
-          className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
-          title="Delete expense"
-        >
-          <Trash2 className="w-3.5 h-3.5" />
-        </button>
+      {/* History / Split / Delete */}
+      <td className="py-1 px-1 border-l border-gray-200 dark:border-gray-700 w-20">
+        <div className="flex items-center justify-center gap-0.5">
+          <button
+            onClick={() => onHistory(expense)}
+            className="p-1 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+            title={t('history.title')}
+          >
+            <History className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => onSplit(expense)}
+            className="p-1 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+            title={t('splits.title')}
+          >
+            <Split className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => onDelete(expense.id)}
+            className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+            title="Delete expense"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
       </td>
     </tr>
   );
@@ -692,9 +881,14 @@ interface MonthlyTableHeaderProps {
   setDescriptionFilter: (v: string) => void;
   currencyFilter: string;
   setCurrencyFilter: (v: string) => void;
+  ratingFilter: string;
+  setRatingFilter: (v: string) => void;
   categoryFilter: string;
   setCategoryFilter: (v: string) => void;
+  subcategoryFilter: string;
+  setSubcategoryFilter: (v: string) => void;
   enabledCurrencies: string[];
+  categoryOptions: CategoryOption[];
   hasActiveFilters: boolean;
   onClearFilters: () => void;
   isOpen: boolean;
@@ -709,9 +903,14 @@ const MonthlyTableHeader: React.FC<MonthlyTableHeaderProps> = ({
   setDescriptionFilter,
   currencyFilter,
   setCurrencyFilter,
+  ratingFilter,
+  setRatingFilter,
   categoryFilter,
   setCategoryFilter,
+  subcategoryFilter,
+  setSubcategoryFilter,
   enabledCurrencies,
+  categoryOptions,
   hasActiveFilters,
   onClearFilters,
   isOpen,
@@ -741,6 +940,9 @@ const MonthlyTableHeader: React.FC<MonthlyTableHeaderProps> = ({
           {t('expenses.currencyHeader')}
         </th>
         <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 border-l border-gray-200 dark:border-gray-700 w-32">
+          {t('expenses.ratingHeader')}
+        </th>
+        <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 border-l border-gray-200 dark:border-gray-700 w-36">
           {t('expenses.categoryHeader')}
         </th>
         <th className="px-2 py-2 border-l border-gray-200 dark:border-gray-700 w-24">
@@ -753,7 +955,7 @@ const MonthlyTableHeader: React.FC<MonthlyTableHeaderProps> = ({
             align="left"
           />
         </th>
-        <th className="w-10 border-l border-gray-200 dark:border-gray-700">
+        <th className="w-20 border-l border-gray-200 dark:border-gray-700">
           <button
             onClick={onToggle}
             className={`p-1.5 rounded-md transition-colors ${
@@ -769,7 +971,7 @@ const MonthlyTableHeader: React.FC<MonthlyTableHeaderProps> = ({
       </tr>
       {isOpen && (
         <tr className="bg-gray-50/50 dark:bg-gray-800/50 border-b border-gray-200 dark:border-gray-700">
-          <td colSpan={6} className="px-3 py-2">
+          <td colSpan={7} className="px-3 py-2">
             <div className="flex items-center gap-3 flex-wrap">
               {/* Description Filter */}
               <input
@@ -792,18 +994,51 @@ const MonthlyTableHeader: React.FC<MonthlyTableHeaderProps> = ({
                 ))}
               </select>
 
+              {/* Rating Filter */}
+              <select
+                value={ratingFilter}
+                onChange={(e) => setRatingFilter(e.target.value)}
+                className="px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded outline-none focus:border-red-500 text-gray-900 dark:text-white"
+              >
+                <option value="">{t('expenses.allRatings')}</option>
+                {RATING_OPTIONS.map((r) => (
+                  <option key={r.value} value={r.value}>{t(`expenses.${r.value}`)}</option>
+                ))}
+              </select>
+
               {/* Category Filter */}
               <select
                 value={categoryFilter}
-                onChange={(e) => setCategoryFilter(e.target.value)}
+                onChange={(e) => {
+                  setCategoryFilter(e.target.value);
+                  setSubcategoryFilter('');
+                }}
                 className="px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded outline-none focus:border-red-500 text-gray-900 dark:text-white"
               >
                 <option value="">{t('expenses.allCategories')}</option>
-                {RATING_OPTIONS.map((r) => (
-                  <option key={r.value} value={r.value}>{t(`expenses.${r.value}`)}</option>
+                <option value={UNCATEGORIZED}>{t('expenses.uncategorized')}</option>
+                {categoryOptions.map((option) => (
+                  <option key={option.category} value={option.category}>{option.category}</option>
                 ))}
               </select>
 
+              {/* Subcategory Filter - only within a category that has subcategories */}
+              {(() => {
+                const subcategories = categoryOptions.find((option) => option.category === categoryFilter)?.subcategories ?? [];
+                return subcategories.length > 0 && (
+                  <select
+                    value={subcategoryFilter}
+                    onChange={(e) => setSubcategoryFilter(e.target.value)}
+                    className="px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded outline-none focus:border-red-500 text-gray-900 dark:text-white"
+                  >
+                    <option value="">{t('expenses.allSubcategories')}</option>
+                    {subcategories.map((subcategory) => (
+                      <option key={subcategory} value={subcategory}>{subcategory}</option>
+                    ))}
+                  </select>
+                );
+              })()}
+
               {/* Clear Filters */}
               {hasActiveFilters && (
                 <button
@@ -828,9 +1063,14 @@ interface RecurringTableHeaderProps {
   setDescriptionFilter: (v: string) => void;
   currencyFilter: string;
   setCurrencyFilter: (v: string) => void;
+  ratingFilter: string;
+  setRatingFilter: (v: string) => void;
   categoryFilter: string;
   setCategoryFilter: (v: string) => void;
+  subcategoryFilter: string;
+  setSubcategoryFilter: (v: string) => void;
   enabledCurrencies: string[];
+  categoryOptions: CategoryOption[];
   hasActiveFilters: boolean;
   onClearFilters: () => void;
   isOpen: boolean;
@@ -845,9 +1085,14 @@ const RecurringTableHeader: React.FC<RecurringTableHeaderProps> = ({
   setDescriptionFilter,
   currencyFilter,
   setCurrencyFilter,
+  ratingFilter,
+  setRatingFilter,
   categoryFilter,
   setCategoryFilter,
+  subcategoryFilter,
+  setSubcategoryFilter,
   enabledCurrencies,
+  categoryOptions,
   hasActiveFilters,
   onClearFilters,
   isOpen,
@@ -877,6 +1122,9 @@ const RecurringTableHeader: React.FC<RecurringTableHeaderProps> = ({
           {t('expenses.currencyHeader')}
         </th>
         <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 border-l border-gray-200 dark:border-gray-700 w-32">
+          {t('expenses.ratingHeader')}
+        </th>
+        <th className="px-2 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 border-l border-gray-200 dark:border-gray-700 w-36">
           {t('expenses.categoryHeader')}
         </th>
         <th className="px-2 py-2 border-l border-gray-200 dark:border-gray-700 w-24">
@@ -889,7 +1137,7 @@ const RecurringTableHeader: React.FC<RecurringTableHeaderProps> = ({
             align="left"
           />
         </th>
-        <th className="w-10 border-l border-gray-200 dark:border-gray-700">
+        <th className="w-20 border-l border-gray-200 dark:border-gray-700">
           <button
             onClick={onToggle}
             className={`p-1.5 rounded-md transition-colors ${
@@ -905,7 +1153,7 @@ const RecurringTableHeader: React.FC<RecurringTableHeaderProps> = ({
       </tr>
       {isOpen && (
         <tr className="bg-gray-50/50 dark:bg-gray-800/50 border-b border-gray-200 dark:border-gray-700">
-          <td colSpan={6} className="px-3 py-2">
+          <td colSpan={7} className="px-3 py-2">
             <div className="flex items-center gap-3 flex-wrap">
               {/* Description Filter */}
               <input
@@ -928,18 +1176,51 @@ const RecurringTableHeader: React.FC<RecurringTableHeaderProps> = ({
                 ))}
               </select>
 
+              {/* Rating Filter */}
+              <select
+                value={ratingFilter}
+                onChange={(e) => setRatingFilter(e.target.value)}
+                className="px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded outline-none focus:border-red-500 text-gray-900 dark:text-white"
+              >
+                <option value="">{t('expenses.allRatings')}</option>
+                {RATING_OPTIONS.map((r) => (
+                  <option key={r.value} value={r.value}>{t(`expenses.${r.value}`)}</option>
+                ))}
+              </select>
+
               {/* Category Filter */}
               <select
                 value={categoryFilter}
-                onChange={(e) => setCategoryFilter(e.target.value)}
+                onChange={(e) => {
+                  setCategoryFilter(e.target.value);
+                  setSubcategoryFilter('');
+                }}
                 className="px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded outline-none focus:border-red-500 text-gray-900 dark:text-white"
               >
                 <option value="">{t('expenses.allCategories')}</option>
-                {RATING_OPTIONS.map((r) => (
-                  <option key={r.value} value={r.value}>{t(`expenses.${r.value}`)}</option>
+                <option value={UNCATEGORIZED}>{t('expenses.uncategorized')}</option>
+                {categoryOptions.map((option) => (
+                  <option key={option.category} value={option.category}>{option.category}</option>
                 ))}
               </select>
 
+              {/* Subcategory Filter - only within a category that has subcategories */}
+              {(() => {
+                const subcategories = categoryOptions.find((option) => option.category === categoryFilter)?.subcategories ?? [];
+                return subcategories.length > 0 && (
+                  <select
+                    value={subcategoryFilter}
+                    onChange={(e) => setSubcategoryFilter(e.target.value)}
+                    className="px-2 py-1 text-xs bg-white dark:bg-gray-700 border border-gray-200 dark:border-gray-600 rounded outline-none focus:border-red-500 text-gray-900 dark:text-white"
+                  >
+                    <option value="">{t('expenses.allSubcategories')}</option>
+                    {subcategories.map((subcategory) => (
+                      <option key={subcategory} value={subcategory}>{subcategory}</option>
+                    ))}
+                  </select>
+                );
+              })()}
+
               {/* Clear Filters */}
               {hasActiveFilters && (
                 <button
@@ -961,17 +1242,22 @@ const RecurringTableHeader: React.FC<RecurringTableHeaderProps> = ({
 // Main Component
 export const ExpensePage: React.FC = () => {
   const { t } = useTranslation();
-  const { expenses, addExpense, deleteExpense, error: storeError, clearError } = useExpenseStore(
-    useShallow((state) => ({ expenses: state.expenses, addExpense: state.addExpense, deleteExpense: state.deleteExpense, error: state.error, clearError: state.clearError }))
+  const { expenses, addExpense, updateExpense, deleteExpense, bulkImport, error: storeError, clearError } = useExpenseStore(
+    useShallow((state) => ({ expenses: state.expenses, addExpense: state.addExpense, updateExpense: state.updateExpense, deleteExpense: state.deleteExpense, bulkImport: state.bulkImport, error: state.error, clearError: state.clearError }))
   );
   const [quickAddError, setQuickAddError] = useState<string | null>(null);
   const { baseCurrency, enabledCurrencies, formatAmount, convertAmount } = useCurrencyStore(
     useShallow((state) => ({ baseCurrency: state.baseCurrency, enabledCurrencies: state.enabledCurrencies, formatAmount: state.formatAmount, convertAmount: state.convertAmount }))
   );
   const { selectedDate, navigateMonth, formattedMonth } = useMonthNavigation();
+  const rules = useCategorizationRuleStore((state) => state.rules);
 
   // Import modal state
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+  const [isRulesModalOpen, setIsRulesModalOpen] = useState(false);
+  const [splittingExpense, setSplittingExpense] = useState<Expense | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<HistoryTarget | null>(null);
 
   // Quick Add form state
   const [quickRating, setQuickRating] = useState<ExpenseRating>('discretionary');
@@ -985,13 +1271,17 @@ export const ExpensePage: React.FC = () => {
   // Monthly expenses filter states
   const [monthlyDescFilter, setMonthlyDescFilter] = useState('');
   const [monthlyCurrencyFilter, setMonthlyCurrencyFilter] = useState('');
+  const [monthlyRatingFilter, setMonthlyRatingFilter] = useState('');
   const [monthlyCategoryFilter, setMonthlyCategoryFilter] = useState('');
+  const [monthlySubcategoryFilter, setMonthlySubcategoryFilter] = useState('');
   const [isMonthlyFilterOpen, setIsMonthlyFilterOpen] = useState(false);
 
   // Recurring expenses filter states
   const [recurringDescFilter, setRecurringDescFilter] = useState('');
   const [recurringCurrencyFilter, setRecurringCurrencyFilter] = useState('');
+  const [recurringRatingFilter, setRecurringRatingFilter] = useState('');
   const [recurringCategoryFilter, setRecurringCategoryFilter] = useState('');
+  const [recurringSubcategoryFilter, setRecurringSubcategoryFilter] = useState('');
   const [isRecurringFilterOpen, setIsRecurringFilterOpen] = useState(false);
 
   // Sort states for monthly expenses
@@ -1002,8 +1292,8 @@ export const ExpensePage: React.FC = () => {
   const [recurringSortColumn, setRecurringSortColumn] = useState<SortColumn>(null);
   const [recurringSortDirection, setRecurringSortDirection] = useState<SortDirection>('desc');
 
-  const hasMonthlyFilters = monthlyDescFilter !== '' || monthlyCurrencyFilter !== '' || monthlyCategoryFilter !== '';
-  const hasRecurringFilters = recurringDescFilter !== '' || recurringCurrencyFilter !== '' || recurringCategoryFilter !== '';
+  const hasMonthlyFilters = monthlyDescFilter !== '' || monthlyCurrencyFilter !== '' || monthlyRatingFilter !== '' || monthlyCategoryFilter !== '';
+  const hasRecurringFilters = recurringDescFilter !== '' || recurringCurrencyFilter !== '' || recurringRatingFilter !== '' || recurringCategoryFilter !== '';
 
   // Handle sort toggle for monthly expenses
   const handleMonthlySort = (column: 'amount' | 'date') => {
@@ -1028,13 +1318,17 @@ export const ExpensePage: React.FC = () => {
   const clearMonthlyFilters = () => {
     setMonthlyDescFilter('');
     setMonthlyCurrencyFilter('');
+    setMonthlyRatingFilter('');
     setMonthlyCategoryFilter('');
+    setMonthlySubcategoryFilter('');
   };
 
   const clearRecurringFilters = () => {
     setRecurringDescFilter('');
     setRecurringCurrencyFilter('');
+    setRecurringRatingFilter('');
     setRecurringCategoryFilter('');
+    setRecurringSubcategoryFilter('');
   };
 
   // Separate recurring and monthly expenses
@@ -1054,7 +1348,8 @@ export const ExpensePage: React.FC = () => {
     const startOfMonth = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1);
     const endOfMonth = new Date(selectedDate.getFullYear(), selectedDate.getMonth() + 1, 0, 23, 59, 59);
 
-    return expenses.filter((expense) => {
+    // Occurrences generated from a recurring template are already counted above
+    return excludeProjectedOccurrences(expenses, (expense) => !!expense.recurring).filter((expense) => {
       if (expense.recurring) return false;
       const expenseDate = parseLocalDate(expense.date);
       return expenseDate >= startOfMonth && expenseDate <= endOfMonth;
@@ -1070,7 +1365,12 @@ export const ExpensePage: React.FC = () => {
       if (recurringCurrencyFilter && expense.currency !== recurringCurrencyFilter) {
         return false;
       }
-      if (recurringCategoryFilter && expense.rating !== recurringCategoryFilter) {
+      // A split expense matches when any of its lines does
+      const lines = ExpenseSplitter.expand(expense);
+      if (recurringRatingFilter && !lines.some((line) => line.rating === recurringRatingFilter)) {
+        return false;
+      }
+      if (!lines.some((line) => matchesCategoryFilter(line, recurringCategoryFilter, recurringSubcategoryFilter))) {
         return false;
       }
       return true;
@@ -1089,7 +1389,7 @@ export const ExpensePage: React.FC = () => {
       // Default sort: alphabetically by description
       return a.what.localeCompare(b.what);
     });
-  }, [allRecurringExpenses, recurringDescFilter, recurringCurrencyFilter, recurringCategoryFilter, recurringSortColumn, recurringSortDirection, convertAmount, baseCurrency]);
+  }, [allRecurringExpenses, recurringDescFilter, recurringCurrencyFilter, recurringRatingFilter, recurringCategoryFilter, recurringSubcategoryFilter, recurringSortColumn, recurringSortDirection, convertAmount, baseCurrency]);
 
   // Apply filters to monthly expenses
   const filteredMonthlyExpenses = useMemo(() => {
@@ -1100,7 +1400,12 @@ export const ExpensePage: React.FC = () => {
       if (monthlyCurrencyFilter && expense.currency !== monthlyCurrencyFilter) {
         return false;
       }
-      if (monthlyCategoryFilter && expense.rating !== monthlyCategoryFilter) {
+      // A split expense matches when any of its lines does
+      const lines = ExpenseSplitter.expand(expense);
+      if (monthlyRatingFilter && !lines.some((line) => line.rating === monthlyRatingFilter)) {
+        return false;
+      }
+      if (!lines.some((line) => matchesCategoryFilter(line, monthlyCategoryFilter, monthlySubcategoryFilter))) {
         return false;
       }
       return true;
@@ -1119,7 +1424,7 @@ export const ExpensePage: React.FC = () => {
       // Default sort: by date descending
       return parseLocalDate(b.date).getTime() - parseLocalDate(a.date).getTime();
     });
-  }, [allMonthlyExpenses, monthlyDescFilter, monthlyCurrencyFilter, monthlyCategoryFilter, monthlySortColumn, monthlySortDirection, convertAmount, baseCurrency]);
+  }, [allMonthlyExpenses, monthlyDescFilter, monthlyCurrencyFilter, monthlyRatingFilter, monthlyCategoryFilter, monthlySubcategoryFilter, monthlySortColumn, monthlySortDirection, convertAmount, baseCurrency]);
 
   // Calculate totals
   const recurringTotal = useMemo(() => {
@@ -1141,14 +1446,14 @@ export const ExpensePage: React.FC = () => {
       discretionary: 0,
       luxury: 0,
     };
-    // Add monthly expenses
-    allMonthlyExpenses.forEach((expense) => {
+    // Add monthly expenses (split expenses count each line under its own rating)
+    ExpenseSplitter.expandAll(allMonthlyExpenses).forEach((expense) => {
       if (breakdown[expense.rating] !== undefined) {
         breakdown[expense.rating] += convertAmount(expense.amount, expense.currency, baseCurrency);
       }
     });
     // Add recurring expenses
-    allRecurringExpenses.forEach((expense) => {
+    ExpenseSplitter.expandAll(allRecurringExpenses).forEach((expense) => {
       if (breakdown[expense.rating] !== undefined) {
         breakdown[expense.rating] += convertAmount(expense.amount, expense.currency, baseCurrency);
       }
@@ -1156,22 +1461,17 @@ export const ExpensePage: React.FC = () => {
     return breakdown;
   }, [allMonthlyExpenses, allRecurringExpenses, convertAmount, baseCurrency]);
 
-  // Update expense handler
-  const handleUpdateExpense = async (id: string, updates: Partial<Expense>) => {
-    const expense = expenses.find((e) => e.id === id);
-    if (!expense) return;
-
-    await deleteExpense(id);
-    await addExpense({
-      what: updates.what ?? expense.what,
-      amount: updates.amount ?? expense.amount,
-      currency: updates.currency ?? expense.currency,
-      rating: updates.rating ?? expense.rating,
-      date: updates.date ?? expense.date,
-      recurring: updates.recurring ?? expense.recurring,
-    });
+  // Update expense handler - edits in place so a hand-picked category is not re-categorized
+  const handleUpdateExpense = async (id: string, updates: Partial<NewExpense>) => {
+    await updateExpense(id, updates);
   };
 
+  // Category suggestions: categories in use plus those the categorization rules assign
+  const categoryOptions = useMemo(
+    () => getCategoryOptions(ExpenseSplitter.expandAll(expenses), rules),
+    [expenses, rules]
+  );
+
   // CSV validation function for ImportModal
   const validateExpenseRow = useCallback((row: Record<string, string>, _index: number): { isValid: boolean; errors: string[] } => {
     const errors: string[] = [];
@@ -1193,69 +1493,93 @@ export const ExpensePage: React.FC = () => {
       errors.push('Invalid amount');
     }
 
-    // Validate category
-    const category = row.category?.toLowerCase() || 'discretionary';
-    if (row.category && !validRatings.includes(category)) {
-      errors.push('Invalid category');
+    // Validate rating
+    const rating = row.rating?.toLowerCase() || 'discretionary';
+    if (row.rating && !validRatings.includes(rating)) {
+      errors.push('Invalid rating');
     }
 
     return { isValid: errors.length === 0, errors };
   }, []);
 
+  // Import row as a duplicate candidate
+  const rowToCandidate = useCallback((row: Record<string, string>) => expenseToCandidate({
+    what: row.description,
+    amount: parseFloat(row.amount),
+    currency: row.currency?.toUpperCase() || baseCurrency,
+    date: row.date,
+  }), [baseCurrency]);
+
+  // Duplicate check for ImportModal: existing expenses first, then earlier rows in the file
+  const findImportDuplicate = useCallback((row: Record<string, string>, previousRows: Record<string, string>[]): DuplicateMatch | null => {
+    const candidate = rowToCandidate(row);
+    const existing = findDuplicate(candidate, expenses, expenseToCandidate);
+    if (existing) {
+      return { id: existing.id, label: `${existing.date} · ${existing.what} · ${formatAmount(existing.amount, existing.currency)}` };
+    }
+    const earlier = findDuplicate(candidate, previousRows, rowToCandidate);
+    return earlier ? { label: `${earlier.date} · ${earlier.description} · ${earlier.amount} ${candidate.currency}` } : null;
+  }, [expenses, rowToCandidate, formatAmount]);
+
   // CSV import handler for ImportModal
-  const handleImportRows = useCallback(async (rows: Record<string, string>[]): Promise<{ success: boolean; message: string; count?: number }> => {
+  const handleImportRows = useCallback(async (
+    rows: Record<string, string>[],
+    merges: ImportMerge[] = []
+  ): Promise<{ success: boolean; message: string; count?: number }> => {
     const MAX_IMPORT_ROWS = 500;
 
-    if (rows.length > MAX_IMPORT_ROWS) {
+    if (rows.length + merges.length > MAX_IMPORT_ROWS) {
       return {
         success: false,
-        message: `Too many rows (${rows.length}). Maximum ${MAX_IMPORT_ROWS} rows per import.`,
+        message: `Too many rows (${rows.length + merges.length}). Maximum ${MAX_IMPORT_ROWS} rows per import.`,
       };
     }
 
-    // Build set of existing expenses for duplicate detection
-    const existingKeys = new Set(
-      expenses.map((e) => `${e.date}|${e.what.toLowerCase()}|${e.amount}|${e.currency}`)
-    );
-
-    let importedCount = 0;
-    let skippedDuplicates = 0;
-
-    for (const row of rows) {
-      const amount = parseFloat(row.amount);
-      const currency = row.currency?.toUpperCase() || baseCurrency;
-      const category = (row.category?.toLowerCase() || 'discretionary') as ExpenseRating;
-
-      // Check for duplicate
-      const key = `${row.date}|${row.description.toLowerCase()}|${amount}|${currency}`;
-      if (existingKeys.has(key)) {
-        skippedDuplicates++;
-        continue;
-      }
-
-      existingKeys.add(key);
-
-      await addExpense({
-        what: row.description,
-        amount,
-        currency,
-        rating: category,
+    // Duplicates were already resolved row by row in the preview
+    const imported = await bulkImport(rows.map((row) => ({
+      what: row.description,
+      amount: parseFloat(row.amount),
+      currency: row.currency?.toUpperCase() || baseCurrency,
+      rating: (row.rating?.toLowerCase() || 'discretionary') as ExpenseRating,
+      date: row.date,
+      recurring: row.recurring?.toLowerCase() === 'true',
+      category: row.category?.trim() || undefined,
+      subcategory: (row.category?.trim() && row.subcategory?.trim()) || undefined,
+    })));
+
+    // Merging keeps the existing description and category and takes the imported date and amount
+    for (const { row, targetId } of merges) {
+      await updateExpense(targetId, {
+        amount: parseFloat(row.amount),
+        currency: row.currency?.toUpperCase() || baseCurrency,
         date: row.date,
-        recurring: row.recurring?.toLowerCase() === 'true',
       });
-      importedCount++;
     }
 
     const messages: string[] = [];
-    if (importedCount > 0) messages.push(`${importedCount} imported`);
-    if (skippedDuplicates > 0) messages.push(`${skippedDuplicates} duplicates skipped`);
+    if (imported.length > 0) messages.push(`${imported.length} imported`);
+    if (merges.length > 0) messages.push(`${merges.length} merged`);
 
     return {
-      success: importedCount > 0,
+      success: imported.length + merges.length > 0,
       message: messages.join(', ') || 'No expenses imported',
-      count: importedCount,
+      count: imported.length,
     };
-  }, [expenses, baseCurrency, addExpense]);
+  }, [baseCurrency, bulkImport, updateExpense]);
+
+  // Likely duplicates among existing expenses, computed only while the tool is open
+  const duplicateGroups = useMemo(() => {
+    if (!isDuplicatesModalOpen) return [];
+    return findDuplicateGroups(expenses, expenseToCandidate).map((group) =>
+      group.map((e) => ({ id: e.id, date: e.date, description: e.what, amount: e.amount, currency: e.currency }))
+    );
+  }, [expenses, isDuplicatesModalOpen]);
+
+  const handleDeleteDuplicates = useCallback(async (ids: string[]) => {
+    for (const id of ids) {
+      await deleteExpense(id);
+    }
+  }, [deleteExpense]);
 
   // XLSX parse wrapper for ImportModal
   const parseFileForModal = useCallback(async (file: File): Promise<{ data: Record<string, string>[]; errors: string[] }> => {
@@ -1401,15 +1725,33 @@ export const ExpensePage: React.FC = () => {
         {/* Month Navigation - Compact */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 px-3 py-1.5">
           <div className="flex items-center justify-between">
-            {/* Import Button */}
-            <button
-              onClick={() => setIsImportModalOpen(true)}
-              className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
-              title="Import expenses from CSV"
-            >
-              <Upload className="w-3.5 h-3.5" />
-              <span className="hidden sm:inline">{t('expenses.import')}</span>
-            </button>
+            {/* Import / Find Duplicates / Rules Buttons */}
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setIsImportModalOpen(true)}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                title="Import expenses from CSV"
+              >
+                <Upload className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">{t('expenses.import')}</span>
+              </button>
+              <button
+                onClick={() => setIsDuplicatesModalOpen(true)}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                title={t('duplicates.find')}
+              >
+                <Copy className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">{t('duplicates.find')}</span>
+              </button>
+              <button
+                onClick={() => setIsRulesModalOpen(true)}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                title={t('rules.title')}
+              >
+                <Wand2 className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">{t('rules.button')}</span>
+              </button>
+            </div>
 
             {/* Month Navigation */}
             <div className="flex items-center gap-1">
@@ -1468,9 +1810,14 @@ export const ExpensePage: React.FC = () => {
                 setDescriptionFilter={setRecurringDescFilter}
                 currencyFilter={recurringCurrencyFilter}
                 setCurrencyFilter={setRecurringCurrencyFilter}
+                ratingFilter={recurringRatingFilter}
+                setRatingFilter={setRecurringRatingFilter}
                 categoryFilter={recurringCategoryFilter}
                 setCategoryFilter={setRecurringCategoryFilter}
+                subcategoryFilter={recurringSubcategoryFilter}
+                setSubcategoryFilter={setRecurringSubcategoryFilter}
                 enabledCurrencies={enabledCurrencies}
+                categoryOptions={categoryOptions}
                 hasActiveFilters={hasRecurringFilters}
                 onClearFilters={clearRecurringFilters}
                 isOpen={isRecurringFilterOpen}
@@ -1486,14 +1833,17 @@ export const ExpensePage: React.FC = () => {
                     expense={expense}
                     onUpdate={handleUpdateExpense}
                     onDelete={deleteExpense}
+                    onSplit={setSplittingExpense}
+                    onHistory={(expense) => setHistoryTarget({ table: 'expenses', recordId: expense.id, name: expense.what })}
                     enabledCurrencies={enabledCurrencies}
+                    categoryOptions={categoryOptions}
                     index={index}
                     hideRecurring
                   />
                 ))}
                 {filteredRecurringExpenses.length === 0 && (
                   <tr>
-                    <td colSpan={6} className="py-6 text-center text-gray-500 dark:text-gray-400 text-sm">
+                    <td colSpan={7} className="py-6 text-center text-gray-500 dark:text-gray-400 text-sm">
                       {t('expenses.emptyRecurring')}
                     </td>
                   </tr>
@@ -1533,9 +1883,14 @@ export const ExpensePage: React.FC = () => {
                 setDescriptionFilter={setMonthlyDescFilter}
                 currencyFilter={monthlyCurrencyFilter}
                 setCurrencyFilter={setMonthlyCurrencyFilter}
+                ratingFilter={monthlyRatingFilter}
+                setRatingFilter={setMonthlyRatingFilter}
                 categoryFilter={monthlyCategoryFilter}
                 setCategoryFilter={setMonthlyCategoryFilter}
+                subcategoryFilter={monthlySubcategoryFilter}
+                setSubcategoryFilter={setMonthlySubcategoryFilter}
                 enabledCurrencies={enabledCurrencies}
+                categoryOptions={categoryOptions}
                 hasActiveFilters={hasMonthlyFilters}
                 onClearFilters={clearMonthlyFilters}
                 isOpen={isMonthlyFilterOpen}
@@ -1551,14 +1906,17 @@ export const ExpensePage: React.FC = () => {
                     expense={expense}
                     onUpdate={handleUpdateExpense}
                     onDelete={deleteExpense}
+                    onSplit={setSplittingExpense}
+                    onHistory={(expense) => setHistoryTarget({ table: 'expenses', recordId: expense.id, name: expense.what })}
                     enabledCurrencies={enabledCurrencies}
+                    categoryOptions={categoryOptions}
                     index={index}
                     hideRecurring
                   />
                 ))}
                 {filteredMonthlyExpenses.length === 0 && (
                   <tr>
-                    <td colSpan={6} className="py-6 text-center text-gray-500 dark:text-gray-400 text-sm">
+                    <td colSpan={7} className="py-6 text-center text-gray-500 dark:text-gray-400 text-sm">
                       {t('expenses.emptyMonthly')}
                     </td>
                   </tr>
@@ -1578,6 +1936,38 @@ export const ExpensePage: React.FC = () => {
         parseFile={parseFileForModal}
         validateRow={validateExpenseRow}
         onImport={handleImportRows}
+        mapStatementLines={statementToExpenseRows}
+        findDuplicate={findImportDuplicate}
+      />
+
+      {/* Duplicates Modal */}
+      <DuplicatesModal
+        isOpen={isDuplicatesModalOpen}
+        onClose={() => setIsDuplicatesModalOpen(false)}
+        entityName="expenses"
+        groups={duplicateGroups}
+        formatAmount={formatAmount}
+        onDelete={handleDeleteDuplicates}
+      />
+
+      {/* Split Expense Modal */}
+      <SplitExpenseModal
+        expense={splittingExpense}
+        categoryOptions={categoryOptions}
+        onClose={() => setSplittingExpense(null)}
+      />
+
+      {/* Edit History Modal */}
+      <RecordHistoryModal
+        target={historyTarget}
+        onClose={() => setHistoryTarget(null)}
+        onRestore={(id, values) => updateExpense(id, values as Partial<NewExpense>)}
+      />
+
+      {/* Categorization Rules Modal */}
+      <CategorizationRulesModal
+        isOpen={isRulesModalOpen}
+        onClose={() => setIsRulesModalOpen(false)}
       />
     </div>
   );
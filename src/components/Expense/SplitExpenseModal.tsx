@@ -0,0 +1,221 @@
+import React, { useEffect, useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Split, Trash2, Plus } from 'lucide-react';
+import { Modal, modalButtonStyles } from '../Shared/Modal';
+import { useExpenseStore } from '../../stores/expenseStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { ExpenseSplitter, MIN_SPLIT_LINES } from '../../domain/splits';
+import type { CategoryOption } from '../../utils/categoryUtils';
+import { formStyles } from '../../styles/formStyles';
+import type { Expense, ExpenseRating, ExpenseSplit } from '../../types';
+
+interface SplitExpenseModalProps {
+  expense: Expense | null;
+  categoryOptions: CategoryOption[];
+  onClose: () => void;
+}
+
+// Form values are kept as strings and converted on save
+interface SplitLineForm {
+  amount: string;
+  rating: ExpenseRating;
+  category: string;
+  subcategory: string;
+  note: string;
+}
+
+const RATINGS: ExpenseRating[] = ['essential', 'discretionary', 'luxury'];
+
+const toLineForm = (line: Partial<ExpenseSplit>): SplitLineForm => ({
+  amount: line.amount != null ? String(line.amount) : '',
+  rating: line.rating ?? 'discretionary',
+  category: line.category ?? '',
+  subcategory: line.subcategory ?? '',
+  note: line.note ?? '',
+});
+
+const fromLineForm = (line: SplitLineForm): ExpenseSplit => ({
+  amount: parseFloat(line.amount) || 0,
+  rating: line.rating,
+  category: line.category || undefined,
+  subcategory: line.category ? line.subcategory || undefined : undefined,
+  note: line.note || undefined,
+});
+
+// Existing lines, or the whole expense as the first line followed by an empty one
+const initialLines = (expense: Expense): SplitLineForm[] =>
+  ExpenseSplitter.isSplit(expense)
+    ? (expense.splits ?? []).map(toLineForm)
+    : [toLineForm(expense), toLineForm({ rating: expense.rating })];
+
+export const SplitExpenseModal: React.FC<SplitExpenseModalProps> = ({ expense, categoryOptions, onClose }) => {
+  const { t } = useTranslation();
+  const updateExpense = useExpenseStore((state) => state.updateExpense);
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  const categoryListId = useId();
+
+  const [lines, setLines] = useState<SplitLineForm[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  useEffect(() => {
+    if (expense) {
+      setLines(initialLines(expense));
+      setError(null);
+    }
+  }, [expense]);
+
+  if (!expense) return null;
+
+  const splits = lines.map(fromLineForm);
+  const remaining = ExpenseSplitter.remaining(expense.amount, splits);
+  const validationError = ExpenseSplitter.validate(expense.amount, splits);
+
+  const updateLine = <K extends keyof SplitLineForm>(index: number, key: K, value: SplitLineForm[K]) => {
+    setLines((current) => current.map((line, i) => (i === index ? { ...line, [key]: value } : line)));
+  };
+
+  // New lines take whatever is left of the total
+  const addLine = () => {
+    setLines((current) => [
+      ...current,
+      toLineForm({ amount: remaining > 0 ? remaining : undefined, rating: expense.rating }),
+    ]);
+  };
+
+  const removeLine = (index: number) => {
+    setLines((current) => current.filter((_, i) => i !== index));
+  };
+
+  const save = async (nextSplits: ExpenseSplit[]) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await updateExpense(expense.id, { splits: nextSplits });
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to split expense');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const footer = (
+    <>
+      {ExpenseSplitter.isSplit(expense) && (
+        <button onClick={() => save([])} disabled={isBusy} className={modalButtonStyles.secondary}>
+          {t('splits.remove')}
+        </button>
+      )}
+      <button onClick={onClose} disabled={isBusy} className={modalButtonStyles.secondary}>
+        {t('cancel')}
+      </button>
+      <button onClick={() => save(splits)} disabled={isBusy || validationError !== null} className={modalButtonStyles.primary}>
+        {t('save')}
+      </button>
+    </>
+  );
+
+  return (
+    <Modal
+      isOpen={expense !== null}
+      onClose={onClose}
+      title={t('splits.title')}
+      description={t('splits.description', { what: expense.what, amount: formatAmount(expense.amount, expense.currency) })}
+      icon={<Split className="w-5 h-5" />}
+      size="lg"
+      footer={footer}
+    >
+      {error && (
+        <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <div className="space-y-3">
+        {lines.map((line, index) => (
+          <div key={index} className="grid grid-cols-12 gap-2 items-end border-b border-gray-100 dark:border-gray-700 pb-3">
+            <div className="col-span-3">
+              <label className={formStyles.label.base}>{t('splits.amount')}</label>
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={line.amount}
+                onChange={(e) => updateLine(index, 'amount', e.target.value)}
+                className={formStyles.input.base}
+              />
+            </div>
+            <div className="col-span-3">
+              <label className={formStyles.label.base}>{t('expenses.ratingHeader')}</label>
+              <select
+                value={line.rating}
+                onChange={(e) => updateLine(index, 'rating', e.target.value as ExpenseRating)}
+                className={formStyles.input.base}
+              >
+                {RATINGS.map((rating) => (
+                  <option key={rating} value={rating}>{t(`expenses.${rating}`)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-3">
+              <label className={formStyles.label.base}>{t('expenses.categoryHeader')}</label>
+              <input
+                value={line.category}
+                onChange={(e) => updateLine(index, 'category', e.target.value)}
+                list={categoryListId}
+                maxLength={100}
+                className={formStyles.input.base}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className={formStyles.label.base}>{t('expenses.subcategoryHeader')}</label>
+              <input
+                value={line.subcategory}
+                onChange={(e) => updateLine(index, 'subcategory', e.target.value)}
+                disabled={!line.category.trim()}
+                maxLength={100}
+                className={`${formStyles.input.base} disabled:opacity-50`}
+              />
+            </div>
+            <div className="col-span-1 flex justify-center pb-2">
+              <button
+                onClick={() => removeLine(index)}
+                disabled={lines.length <= MIN_SPLIT_LINES}
+                className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-30 transition-colors"
+                title={t('splits.removeLine')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="col-span-12">
+              <input
+                value={line.note}
+                onChange={(e) => updateLine(index, 'note', e.target.value)}
+                placeholder={t('splits.note')}
+                maxLength={255}
+                className={`${formStyles.input.base} text-xs`}
+              />
+            </div>
+          </div>
+        ))}
+        <datalist id={categoryListId}>
+          {categoryOptions.map((option) => (
+            <option key={option.category} value={option.category} />
+          ))}
+        </datalist>
+
+        <div className="flex items-center justify-between">
+          <button
+            onClick={addLine}
+            className="inline-flex items-center gap-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            {t('splits.addLine')}
+          </button>
+          <span className={`text-sm font-medium ${remaining === 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {t('splits.remaining', { amount: formatAmount(remaining, expense.currency) })}
+          </span>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -12,6 +12,7 @@ import { getTodayLocalString } from '../../utils/dateFormat';
 import { AmountCurrencyInput } from '../Shared/AmountCurrencyInput';
 import { FormField } from '../Shared/FormField';
 import { ToggleSwitch } from '../Shared/ToggleSwitch';
+import { TagPicker } from '../Shared/TagPicker';
 
 const RATING_CONFIG = {
   essential: {
@@ -43,6 +44,7 @@ export const ExpenseForm: React.FC = () => {
     rating: 'discretionary' as keyof typeof RATING_CONFIG,
     date: getTodayLocalString(),
     recurring: false,
+    tags: [] as string[],
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<ValidationError>({});
@@ -86,6 +88,7 @@ export const ExpenseForm: React.FC = () => {
         rating: form.rating,
         date: form.date,
         recurring: form.recurring,
+        tags: form.tags,
       });
 
       setForm({
@@ -93,6 +96,7 @@ export const ExpenseForm: React.FC = () => {
         rating: 'discretionary',
         date: getTodayLocalString(),
         recurring: false,
+        tags: [],
       });
       resetCurrency();
     } catch {
@@ -138,6 +142,12 @@ export const ExpenseForm: React.FC = () => {
           error={errors.date}
         />
 
+        <TagPicker
+          label="Tags"
+          value={form.tags}
+          onChange={(tags) => setForm(prev => ({ ...prev, tags }))}
+        />
+
         {/* Priority Selection - Compact */}
         <div>
           <label className="block text-sm font-medium mb-2 text-gray-900 dark:text-gray-100">
@@ -5,11 +5,17 @@ import { useTranslation } from 'react-i18next';
 import { useIncomeStore } from '../../stores/incomeStore';
 import { useCurrencyStore } from '../../stores/currencyStore';
 import { useMonthNavigation } from '../../hooks/useMonthNavigation';
-import { DollarSign, Plus, Trash2, ChevronDown, ChevronLeft, ChevronRight, Calendar, Filter, X, ArrowUpDown, ArrowUp, ArrowDown, Upload } from 'lucide-react';
+import { DollarSign, Plus, Trash2, ChevronDown, ChevronLeft, ChevronRight, Calendar, Filter, X, ArrowUpDown, ArrowUp, ArrowDown, Upload, Copy, History } from 'lucide-react';
 import type { Income } from '../../types';
-import type { IncomeFrequency } from '../../stores/incomeStore';
+import type { IncomeFrequency, NewIncome } from '../../stores/incomeStore';
 import { ImportModal } from '../Shared/ImportModal';
+import type { DuplicateMatch, ImportMerge } from '../Shared/ImportModal';
+import { RecordHistoryModal, type HistoryTarget } from '../Shared/RecordHistoryModal';
+import { DuplicatesModal } from '../Shared/DuplicatesModal';
 import { parseIncomeXLSX } from '../../utils/xlsx';
+import { statementToIncomeRows } from '../../utils/bankStatement';
+import { excludeProjectedOccurrences } from '../../utils/recurringUtils';
+import { findDuplicate, findDuplicateGroups, incomeToCandidate } from '../../utils/duplicates';
 
 // Format date for display (compact format: Dec 11)
 const formatDateCompact = (dateStr: string, locale: string = 'en-US'): string => {
@@ -542,6 +548,7 @@ interface IncomeRowProps {
   income: Income;
   onUpdate: (id: string, updates: Partial<Income>) => void;
   onDelete: (id: string) => void;
+  onHistory: (income: Income) => void;
   enabledCurrencies: string[];
   index: number;
 }
@@ -550,10 +557,11 @@ const IncomeRow: React.FC<IncomeRowProps> = ({
   income,
   onUpdate,
   onDelete,
+  onHistory,
   enabledCurrencies,
   index,
 }) => {
-  const { i18n } = useTranslation();
+  const { t, i18n } = useTranslation();
   const isEven = index % 2 === 0;
 
   return (
@@ -605,15 +613,24 @@ const IncomeRow: React.FC<IncomeRowProps> = ({
         />
       </td>
 
-      {/* Delete */}
-      <td className="py-1 px-1 border-l border-gray-200 dark:border-gray-700 w-10">
-        <button
-          onClick={() => onDelete(income.id)}
-          className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
-          title="Delete income"
-        >
-          <Trash2 className="w-3.5 h-3.5" />
-        </button>
+      {/* History / Delete */}
+      <td className="py-1 px-1 border-l border-gray-200 dark:border-gray-700 w-16">
+        <div className="flex items-center justify-center gap-0.5">
+          <button
+            onClick={() => onHistory(income)}
+            className="p-1 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+            title={t('history.title')}
+          >
+            <History className="w-3.5 h-3.5" />
+          </button>
+          <button
+            onClick={() => onDelete(income.id)}
+            className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+            title="Delete income"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
       </td>
     </tr>
   );
@@ -724,7 +741,7 @@ const TableHeaderWithFilter: React.FC<TableHeaderWithFilterProps> = ({
             align="left"
           />
         </th>
-        <th className="w-10 border-l border-gray-200 dark:border-gray-700">
+        <th className="w-16 border-l border-gray-200 dark:border-gray-700">
           <button
             onClick={onToggle}
             className={`p-1.5 rounded-md transition-colors ${
@@ -796,8 +813,8 @@ const TableHeaderWithFilter: React.FC<TableHeaderWithFilterProps> = ({
 // Main Component
 export const IncomePage: React.FC = () => {
   const { t } = useTranslation();
-  const { incomes, addIncome, deleteIncome } = useIncomeStore(
-    useShallow((state) => ({ incomes: state.incomes, addIncome: state.addIncome, deleteIncome: state.deleteIncome }))
+  const { incomes, addIncome, updateIncome, deleteIncome, bulkImport } = useIncomeStore(
+    useShallow((state) => ({ incomes: state.incomes, addIncome: state.addIncome, updateIncome: state.updateIncome, deleteIncome: state.deleteIncome, bulkImport: state.bulkImport }))
   );
   const { baseCurrency, enabledCurrencies, formatAmount, convertAmount } = useCurrencyStore(
     useShallow((state) => ({ baseCurrency: state.baseCurrency, enabledCurrencies: state.enabledCurrencies, formatAmount: state.formatAmount, convertAmount: state.convertAmount }))
@@ -806,6 +823,8 @@ export const IncomePage: React.FC = () => {
 
   // Import modal state
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isDuplicatesModalOpen, setIsDuplicatesModalOpen] = useState(false);
+  const [historyTarget, setHistoryTarget] = useState<HistoryTarget | null>(null);
 
   // Quick Add form state
   const [quickFrequency, setQuickFrequency] = useState<IncomeFrequency>('one-time');
@@ -846,7 +865,7 @@ export const IncomePage: React.FC = () => {
     const startOfMonth = new Date(selectedDate.getFullYear(), selectedDate.getMonth(), 1);
     const endOfMonth = new Date(selectedDate.getFullYear(), selectedDate.getMonth() + 1, 0, 23, 59, 59);
 
-    return incomes.filter((income) => {
+    return excludeProjectedOccurrences(incomes, (income) => income.frequency !== 'one-time').filter((income) => {
       const incomeDate = parseLocalDate(income.date);
 
       // Recurring income: show if created on or before the selected month
@@ -956,59 +975,81 @@ export const IncomePage: React.FC = () => {
     return { isValid: errors.length === 0, errors };
   }, []);
 
+  // Import row as a duplicate candidate
+  const rowToCandidate = useCallback((row: Record<string, string>) => incomeToCandidate({
+    source: row.source,
+    amount: parseFloat(row.amount),
+    currency: row.currency?.toUpperCase() || baseCurrency,
+    date: row.date,
+  }), [baseCurrency]);
+
+  // Duplicate check for ImportModal: existing income first, then earlier rows in the file
+  const findImportDuplicate = useCallback((row: Record<string, string>, previousRows: Record<string, string>[]): DuplicateMatch | null => {
+    const candidate = rowToCandidate(row);
+    const existing = findDuplicate(candidate, incomes, incomeToCandidate);
+    if (existing) {
+      return { id: existing.id, label: `${existing.date} · ${existing.source} · ${formatAmount(existing.amount, existing.currency)}` };
+    }
+    const earlier = findDuplicate(candidate, previousRows, rowToCandidate);
+    return earlier ? { label: `${earlier.date} · ${earlier.source} · ${earlier.amount} ${candidate.currency}` } : null;
+  }, [incomes, rowToCandidate, formatAmount]);
+
   // CSV import handler for ImportModal
-  const handleImportRows = useCallback(async (rows: Record<string, string>[]): Promise<{ success: boolean; message: string; count?: number }> => {
+  const handleImportRows = useCallback(async (
+    rows: Record<string, string>[],
+    merges: ImportMerge[] = []
+  ): Promise<{ success: boolean; message: string; count?: number }> => {
     const MAX_IMPORT_ROWS = 500;
 
-    if (rows.length > MAX_IMPORT_ROWS) {
+    if (rows.length + merges.length > MAX_IMPORT_ROWS) {
       return {
         success: false,
-        message: `Too many rows (${rows.length}). Maximum ${MAX_IMPORT_ROWS} rows per import.`,
+        message: `Too many rows (${rows.length + merges.length}). Maximum ${MAX_IMPORT_ROWS} rows per import.`,
       };
     }
 
-    // Build set of existing income for duplicate detection
-    const existingKeys = new Set(
-      incomes.map((i) => `${i.date}|${i.source.toLowerCase()}|${i.amount}|${i.currency}`)
-    );
-
-    let importedCount = 0;
-    let skippedDuplicates = 0;
-
-    for (const row of rows) {
-      const amount = parseFloat(row.amount);
-      const currency = row.currency?.toUpperCase() || baseCurrency;
-      const frequency = (row.frequency?.toLowerCase() || 'one-time') as IncomeFrequency;
-
-      // Check for duplicate
-      const key = `${row.date}|${row.source.toLowerCase()}|${amount}|${currency}`;
-      if (existingKeys.has(key)) {
-        skippedDuplicates++;
-        continue;
-      }
-
-      existingKeys.add(key);
-
-      await addIncome({
-        source: row.source,
-        amount,
-        currency,
-        frequency,
+    // Duplicates were already resolved row by row in the preview
+    const imported = await bulkImport(rows.map((row) => ({
+      source: row.source,
+      amount: parseFloat(row.amount),
+      currency: row.currency?.toUpperCase() || baseCurrency,
+      frequency: (row.frequency?.toLowerCase() || 'one-time') as IncomeFrequency,
+      date: row.date,
+    })));
+
+    // Merging keeps the existing source and frequency and takes the imported date and amount
+    for (const { row, targetId } of merges) {
+      await updateIncome(targetId, {
+        amount: parseFloat(row.amount),
+        currency: row.currency?.toUpperCase() || baseCurrency,
         date: row.date,
       });
-      importedCount++;
     }
 
     const messages: string[] = [];
-    if (importedCount > 0) messages.push(`${importedCount} imported`);
-    if (skippedDuplicates > 0) messages.push(`${skippedDuplicates} duplicates skipped`);
+    if (imported.length > 0) messages.push(`${imported.length} imported`);
+    if (merges.length > 0) messages.push(`${merges.length} merged`);
 
     return {
-      success: importedCount > 0,
+      success: imported.length + merges.length > 0,
       message: messages.join(', ') || 'No income imported',
-      count: importedCount,
+      count: imported.length,
     };
-  }, [incomes, baseCurrency, addIncome]);
+  }, [baseCurrency, bulkImport, updateIncome]);
+
+  // Likely duplicates among existing income, computed only while the tool is open
+  const duplicateGroups = useMemo(() => {
+    if (!isDuplicatesModalOpen) return [];
+    return findDuplicateGroups(incomes, incomeToCandidate).map((group) =>
+      group.map((i) => ({ id: i.id, date: i.date, description: i.source, amount: i.amount, currency: i.currency }))
+    );
+  }, [incomes, isDuplicatesModalOpen]);
+
+  const handleDeleteDuplicates = useCallback(async (ids: string[]) => {
+    for (const id of ids) {
+      await deleteIncome(id);
+    }
+  }, [deleteIncome]);
 
   // XLSX parse wrapper for ImportModal
   const parseFileForModal = useCallback(async (file: File): Promise<{ data: Record<string, string>[]; errors: string[] }> => {
@@ -1129,15 +1170,25 @@ export const IncomePage: React.FC = () => {
         {/* Month Navigation - Compact */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 px-3 py-1.5">
           <div className="flex items-center justify-between">
-            {/* Import Button */}
-            <button
-              onClick={() => setIsImportModalOpen(true)}
-              className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
-              title="Import income from CSV"
-            >
-              <Upload className="w-3.5 h-3.5" />
-              <span className="hidden sm:inline">{t('income.import')}</span>
-            </button>
+            {/* Import / Find Duplicates Buttons */}
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => setIsImportModalOpen(true)}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                title="Import income from CSV"
+              >
+                <Upload className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">{t('income.import')}</span>
+              </button>
+              <button
+                onClick={() => setIsDuplicatesModalOpen(true)}
+                className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded transition-colors"
+                title={t('duplicates.find')}
+              >
+                <Copy className="w-3.5 h-3.5" />
+                <span className="hidden sm:inline">{t('duplicates.find')}</span>
+              </button>
+            </div>
 
             {/* Month Navigation */}
             <div className="flex items-center gap-1">
@@ -1194,6 +1245,7 @@ export const IncomePage: React.FC = () => {
                   income={income}
                   onUpdate={handleUpdateIncome}
                   onDelete={deleteIncome}
+                  onHistory={(income) => setHistoryTarget({ table: 'income', recordId: income.id, name: income.source })}
                   enabledCurrencies={enabledCurrencies}
                   index={index}
                 />
@@ -1219,6 +1271,25 @@ export const IncomePage: React.FC = () => {
         parseFile={parseFileForModal}
         validateRow={validateIncomeRow}
         onImport={handleImportRows}
+        mapStatementLines={statementToIncomeRows}
+        findDuplicate={findImportDuplicate}
+      />
+
+      {/* Duplicates Modal */}
+      <DuplicatesModal
+        isOpen={isDuplicatesModalOpen}
+        onClose={() => setIsDuplicatesModalOpen(false)}
+        entityName="income"
+        groups={duplicateGroups}
+        formatAmount={formatAmount}
+        onDelete={handleDeleteDuplicates}
+      />
+
+      {/* Edit History Modal */}
+      <RecordHistoryModal
+        target={historyTarget}
+        onClose={() => setHistoryTarget(null)}
+        onRestore={(id, values) => updateIncome(id, values as Partial<NewIncome>)}
       />
     </div>
   );
@@ -6,6 +6,7 @@ import { sanitizeDescription } from '../../utils/sanitization';
 import { useCurrencyInput } from '../../hooks/useCurrencyInput';
 import { AmountCurrencyInput } from '../Shared/AmountCurrencyInput';
 import { FormField } from '../Shared/FormField';
+import { TagPicker } from '../Shared/TagPicker';
 import { formStyles } from '../../styles/formStyles';
 
 export const IncomeForm: React.FC = () => {
@@ -13,6 +14,7 @@ export const IncomeForm: React.FC = () => {
   const [frequency, setFrequency] = useState<'one-time' | 'weekly' | 'bi-weekly' | 'monthly'>('one-time');
   const [showFrequencyDropdown, setShowFrequencyDropdown] = useState(false);
   const [date, setDate] = useState(getTodayLocalString());
+  const [tags, setTags] = useState<string[]>([]);
   const dropdownRef = useRef<HTMLDivElement>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -84,6 +86,7 @@ export const IncomeForm: React.FC = () => {
         currency,
         frequency,
         date,
+        tags,
       });
 
       // Reset form
@@ -91,6 +94,7 @@ export const IncomeForm: React.FC = () => {
       resetCurrency();
       setFrequency('one-time');
       setDate(getTodayLocalString());
+      setTags([]);
 
     } catch (error) {
       console.error('Failed to add income:', error);
@@ -181,6 +185,8 @@ export const IncomeForm: React.FC = () => {
           </div>
         </div>
 
+        <TagPicker label="Tags" value={tags} onChange={setTags} />
+
         <button
           type="submit"
           disabled={isSubmitting || !source.trim() || !amount}
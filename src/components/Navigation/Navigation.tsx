@@ -12,6 +12,7 @@ import {
   Landmark,
   Settings,
   BookOpen,
+  BarChart3,
   Shield
 } from 'lucide-react';
 import { useTranslation } from 'react-i18next';
@@ -52,6 +53,7 @@ export const Navigation: React.FC<NavigationProps> = ({
     { id: 'expenses', label: t('nav.expenses'), icon: Wallet },
     { id: 'networth', label: t('nav.netWorth'), icon: Landmark },
     { id: 'accounts', label: t('nav.accounts'), icon: BookOpen },
+    { id: 'reports', label: t('nav.reports'), icon: BarChart3 },
     ...(showAdmin ? [{ id: 'admin', label: t('nav.admin'), icon: Shield }] : []),
   ];
 
@@ -0,0 +1,184 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CreditCard } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useAccountStore } from '../../stores/accountStore';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { CardCycles, DEFAULT_MIN_PAYMENT_PERCENT } from '../../domain/cardCycles';
+import type { CardTerms } from '../../domain/cardCycles';
+import { getCardActivity } from '../../selectors/finance';
+import { getTodayLocalString } from '../../utils/dateFormat';
+
+interface CardCycleModalProps {
+  // Rendered with a key per account, so the form starts from that card's terms
+  accountId: string | null;
+  onClose: () => void;
+}
+
+interface TermsDraft {
+  closingDay: string;
+  graceDays: string;
+  apr: string;
+  minPaymentPercent: string;
+  minPaymentFloor: string;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const toDraft = (terms: CardTerms | undefined): TermsDraft => ({
+  closingDay: terms ? String(terms.closingDay) : '',
+  graceDays: terms ? String(terms.graceDays) : '20',
+  apr: terms ? String(terms.apr) : '',
+  minPaymentPercent: String(terms?.minPaymentPercent ?? DEFAULT_MIN_PAYMENT_PERCENT),
+  minPaymentFloor: terms?.minPaymentFloor ? String(terms.minPaymentFloor) : '',
+});
+
+const fromDraft = (draft: TermsDraft): CardTerms => ({
+  closingDay: Number(draft.closingDay),
+  graceDays: Number(draft.graceDays),
+  apr: parseFloat(draft.apr) || 0,
+  minPaymentPercent: parseFloat(draft.minPaymentPercent),
+  minPaymentFloor: parseFloat(draft.minPaymentFloor) || undefined,
+});
+
+export const CardCycleModal: React.FC<CardCycleModalProps> = ({ accountId, onClose }) => {
+  const { t } = useTranslation();
+  const account = useAccountStore((state) => state.accounts.find((item) => item.id === accountId));
+  const updateAccount = useAccountStore((state) => state.updateAccount);
+  const ledgerAccount = useLedgerStore((state) => state.accounts.find((item) => item.id === account?.ledgerAccountId));
+  // Subscribing keeps the statement current as transactions are posted
+  useLedgerStore((state) => state.transactions);
+  const syncCardStatements = useLedgerStore((state) => state.syncCardStatements);
+  const { formatAmount } = useCurrencyStore();
+
+  const [draft, setDraft] = useState<TermsDraft>(() => toDraft(account?.cardTerms));
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!account) return null;
+
+  const today = getTodayLocalString();
+  const terms = fromDraft(draft);
+  const termsError = CardCycles.validate(terms);
+  // Preview follows the form, so the effect of new terms shows before saving
+  const statement = !termsError && ledgerAccount
+    ? CardCycles.statement(terms, getCardActivity(ledgerAccount.id, account.currency), today)
+    : null;
+  const money = (cents: number) => formatAmount(cents / 100, account.currency);
+
+  const setField = (field: keyof TermsDraft, value: string) => setDraft((current) => ({ ...current, [field]: value }));
+
+  const save = async (cardTerms: CardTerms | undefined) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await updateAccount(account.id, { cardTerms });
+      await syncCardStatements(today);
+      if (cardTerms) onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('cards.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const footer = (
+    <div className="flex items-center justify-between gap-2">
+      <div>
+        {account.cardTerms && (
+          <button
+            onClick={() => save(undefined)}
+            disabled={isSaving}
+            className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {t('cards.removeTerms')}
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          {t('cards.cancel')}
+        </button>
+        <button
+          onClick={() => save(terms)}
+          disabled={isSaving || termsError !== null}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {t('cards.saveTerms')}
+        </button>
+      </div>
+    </div>
+  );
+
+  const summary: [string, string][] = statement
+    ? [
+        [t('cards.cycle'), `${statement.cycle.start} – ${statement.cycle.closing}`],
+        [t('cards.dueDate'), statement.cycle.due],
+        [t('cards.statementBalance'), money(statement.statementCents)],
+        [t('cards.paidSinceClosing'), money(statement.paidCents)],
+        [t('cards.paymentToAvoidInterest'), money(statement.paymentToAvoidInterestCents)],
+        [t('cards.minimumPayment'), money(statement.minimumPaymentCents)],
+        [t('cards.interestIfMinimum'), money(statement.interestIfMinimumCents)],
+        [t('cards.currentBalance'), money(statement.currentBalanceCents)],
+      ]
+    : [];
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={t('cards.title')}
+      description={account.name}
+      icon={<CreditCard className="w-5 h-5" />}
+      size="lg"
+      footer={footer}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex flex-col gap-1">
+            {t('cards.closingDay')}
+            <input type="number" min="1" max="31" step="1" value={draft.closingDay} onChange={(e) => setField('closingDay', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('cards.graceDays')}
+            <input type="number" min="0" step="1" value={draft.graceDays} onChange={(e) => setField('graceDays', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('cards.apr')}
+            <input type="number" min="0" step="0.01" value={draft.apr} onChange={(e) => setField('apr', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('cards.minPaymentPercent')}
+            <input type="number" min="0" step="0.1" value={draft.minPaymentPercent} onChange={(e) => setField('minPaymentPercent', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('cards.minPaymentFloor')}
+            <input type="number" min="0" step="0.01" value={draft.minPaymentFloor} onChange={(e) => setField('minPaymentFloor', e.target.value)} placeholder="-" className={inputClass} />
+          </label>
+        </div>
+
+        {termsError && draft.closingDay !== '' && <p className="text-sm text-amber-600 dark:text-amber-400">{termsError}</p>}
+
+        {!ledgerAccount && <p className="text-sm text-gray-500 dark:text-gray-400">{t('cards.notLinked')}</p>}
+
+        {statement && (
+          <dl className="grid grid-cols-2 gap-3 text-sm">
+            {summary.map(([label, value]) => (
+              <div key={label} className="rounded-lg border border-gray-200 dark:border-gray-700 px-3 py-2">
+                <dt className="text-xs text-gray-500 dark:text-gray-400">{label}</dt>
+                <dd className="tabular-nums font-medium text-gray-900 dark:text-white">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
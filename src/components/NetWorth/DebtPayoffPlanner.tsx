@@ -0,0 +1,267 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Target, ArrowUp, ArrowDown, Download } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useAccountStore } from '../../stores/accountStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { DebtPayoff, PAYOFF_STRATEGIES } from '../../domain/debtPayoff';
+import type { PayoffDebt, PayoffStrategy } from '../../domain/debtPayoff';
+import { getPayoffDebts } from '../../selectors/finance';
+import { downloadCSV, exportPayoffScheduleToCSV } from '../../utils/csv';
+import { getTodayLocalString } from '../../utils/dateFormat';
+
+interface DebtPayoffPlannerProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Per-debt edits to the rate and minimum, as typed
+interface DebtOverride {
+  annualRate?: string;
+  minimum?: string;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const DebtPayoffPlanner: React.FC<DebtPayoffPlannerProps> = ({ isOpen, onClose }) => {
+  const { t } = useTranslation();
+  // Subscribing re-reads the debts when balances change
+  useAccountStore((state) => state.accounts);
+  const { baseCurrency, formatAmount } = useCurrencyStore();
+
+  const [budget, setBudget] = useState('');
+  const [strategy, setStrategy] = useState<PayoffStrategy>('avalanche');
+  const [customOrder, setCustomOrder] = useState<string[]>([]);
+  const [overrides, setOverrides] = useState<Record<string, DebtOverride>>({});
+
+  useEffect(() => {
+    if (isOpen) {
+      setBudget('');
+      setOverrides({});
+      setCustomOrder([]);
+    }
+  }, [isOpen]);
+
+  const debts: PayoffDebt[] = getPayoffDebts().map((debt) => {
+    const override = overrides[debt.id] ?? {};
+    return {
+      ...debt,
+      annualRate: override.annualRate !== undefined ? parseFloat(override.annualRate) || 0 : debt.annualRate,
+      minimumCents: override.minimum !== undefined ? Math.round((parseFloat(override.minimum) || 0) * 100) : debt.minimumCents,
+    };
+  });
+  const minimumsCents = debts.reduce((sum, debt) => sum + Math.min(debt.minimumCents, debt.balanceCents), 0);
+  const budgetCents = budget === '' ? minimumsCents : Math.round((parseFloat(budget) || 0) * 100);
+  const startPeriod = getTodayLocalString().slice(0, 7);
+
+  const error = DebtPayoff.validate(debts, budgetCents);
+  const plans = error
+    ? []
+    : PAYOFF_STRATEGIES.map((item) => DebtPayoff.plan(debts, budgetCents, item, startPeriod, customOrder));
+  const plan = plans.find((item) => item.strategy === strategy);
+  // Custom starts from the avalanche order until the user moves something
+  const order = plan?.order ?? debts.map((debt) => debt.id);
+
+  const money = (cents: number) => formatAmount(cents / 100, baseCurrency);
+  const nameOf = (id: string) => debts.find((debt) => debt.id === id)?.name ?? id;
+
+  const setOverride = (id: string, field: keyof DebtOverride, value: string) =>
+    setOverrides((current) => ({ ...current, [id]: { ...current[id], [field]: value } }));
+
+  const move = (id: string, offset: number) => {
+    const next = [...order];
+    const from = next.indexOf(id);
+    const to = from + offset;
+    if (to < 0 || to >= next.length) return;
+    [next[from], next[to]] = [next[to], next[from]];
+    setCustomOrder(next);
+  };
+
+  const footer = (
+    <div className="flex items-center justify-end gap-2">
+      <button
+        onClick={onClose}
+        className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+      >
+        {t('payoff.close')}
+      </button>
+      <button
+        onClick={() => plan && downloadCSV(exportPayoffScheduleToCSV(plan), `debt-payoff-${plan.strategy}.csv`)}
+        disabled={!plan}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+      >
+        <Download className="w-4 h-4" />
+        {t('payoff.export')}
+      </button>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('payoff.title')}
+      description={t('payoff.description', { currency: baseCurrency })}
+      icon={<Target className="w-5 h-5" />}
+      size="xl"
+      footer={footer}
+    >
+      {debts.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('payoff.empty')}</p>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex flex-col gap-1">
+              {t('payoff.budget')}
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={budget}
+                onChange={(e) => setBudget(e.target.value)}
+                placeholder={(minimumsCents / 100).toFixed(2)}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('payoff.strategy')}
+              <select
+                value={strategy}
+                onChange={(e) => {
+                  setStrategy(e.target.value as PayoffStrategy);
+                  if (e.target.value === 'custom' && customOrder.length === 0) setCustomOrder(order);
+                }}
+                className={inputClass}
+              >
+                {PAYOFF_STRATEGIES.map((item) => (
+                  <option key={item} value={item}>{t(`payoff.strategies.${item}`)}</option>
+                ))}
+              </select>
+            </label>
+            <span className="pb-1.5 text-xs text-gray-500 dark:text-gray-400">{t('payoff.minimums', { amount: money(minimumsCents) })}</span>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="px-2 py-1.5 text-left font-medium">{t('payoff.debt')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('payoff.balance')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('payoff.rate')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('payoff.minimum')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('payoff.paidOff')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('payoff.interest')}</th>
+                {strategy === 'custom' && <th className="px-2 py-1.5"></th>}
+              </tr>
+            </thead>
+            <tbody>
+              {order.map((id, index) => {
+                const debt = debts.find((item) => item.id === id)!;
+                const result = plan?.debts.find((item) => item.debtId === id);
+                return (
+                  <tr key={id} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                    <td className="px-2 py-1">{debt.name}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">{money(debt.balanceCents)}</td>
+                    <td className="px-2 py-1 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={overrides[id]?.annualRate ?? String(debt.annualRate)}
+                        onChange={(e) => setOverride(id, 'annualRate', e.target.value)}
+                        className={`${inputClass} w-20 text-right`}
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-right">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={overrides[id]?.minimum ?? (debt.minimumCents / 100).toFixed(2)}
+                        onChange={(e) => setOverride(id, 'minimum', e.target.value)}
+                        className={`${inputClass} w-28 text-right`}
+                      />
+                    </td>
+                    <td className="px-2 py-1 text-right tabular-nums">{result ? result.payoffPeriod ?? t('payoff.never') : '-'}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">{result ? money(result.interestCents) : '-'}</td>
+                    {strategy === 'custom' && (
+                      <td className="px-2 py-1 text-right whitespace-nowrap">
+                        <button onClick={() => move(id, -1)} disabled={index === 0} className="p-1 text-gray-400 hover:text-blue-500 disabled:opacity-30" title={t('payoff.moveUp')}>
+                          <ArrowUp className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => move(id, 1)} disabled={index === order.length - 1} className="p-1 text-gray-400 hover:text-blue-500 disabled:opacity-30" title={t('payoff.moveDown')}>
+                          <ArrowDown className="w-3.5 h-3.5" />
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {error && <p className="text-sm text-amber-600 dark:text-amber-400">{error}</p>}
+
+          {plans.length > 0 && (
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              {plans.map((item) => (
+                <button
+                  key={item.strategy}
+                  onClick={() => setStrategy(item.strategy)}
+                  className={`rounded-lg border px-3 py-2 text-left transition-colors ${
+                    item.strategy === strategy
+                      ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/20'
+                      : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+                  }`}
+                >
+                  <div className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{t(`payoff.strategies.${item.strategy}`)}</div>
+                  <div className="font-medium text-gray-900 dark:text-white">
+                    {item.isComplete ? t('payoff.debtFreeIn', { period: item.payoffPeriod, count: item.months.length }) : t('payoff.notPaidOff')}
+                  </div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 tabular-nums">{t('payoff.totalInterest', { amount: money(item.totalInterestCents) })}</div>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {plan && (
+            <div className="max-h-80 overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                  <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="px-2 py-1.5 text-left font-medium">{t('payoff.month')}</th>
+                    {plan.order.map((id) => (
+                      <th key={id} className="px-2 py-1.5 text-right font-medium whitespace-nowrap">{nameOf(id)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.months.map((month) => (
+                    <tr key={month.month} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                      <td className="px-2 py-1 whitespace-nowrap">{month.period}</td>
+                      {plan.order.map((id) => {
+                        const payment = month.payments.find((item) => item.debtId === id);
+                        return (
+                          <td key={id} className="px-2 py-1 text-right tabular-nums whitespace-nowrap">
+                            {payment ? (
+                              <>
+                                <div>{money(payment.paymentCents)}</div>
+                                <div className="text-xs text-gray-400">{money(payment.balanceCents)}</div>
+                              </>
+                            ) : (
+                              <span className="text-gray-300 dark:text-gray-600">-</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
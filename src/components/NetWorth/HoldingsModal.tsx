@@ -0,0 +1,409 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BarChart3, Trash2, Upload, ChevronDown, ChevronRight } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useAccountStore } from '../../stores/accountStore';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { useHoldingStore } from '../../stores/holdingStore';
+import { COST_BASIS_METHODS, TRADE_KINDS } from '../../domain/holdings';
+import type { CostBasisMethod, TradeKind } from '../../domain/holdings';
+import { getHoldingValuations } from '../../selectors/finance';
+import { parsePriceCSV, readCSVFile } from '../../utils/csv';
+import { getTodayLocalString } from '../../utils/dateFormat';
+
+interface HoldingsModalProps {
+  // Rendered with a key per account
+  accountId: string | null;
+  onClose: () => void;
+}
+
+interface TradeDraft {
+  kind: TradeKind;
+  symbol: string;
+  date: string;
+  quantity: string;
+  price: string;
+  fees: string;
+  amount: string;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const emptyTrade = (): TradeDraft => ({
+  kind: 'buy',
+  symbol: '',
+  date: getTodayLocalString(),
+  quantity: '',
+  price: '',
+  fees: '',
+  amount: '',
+});
+
+const gainClass = (cents: number | null) =>
+  cents === null || cents === 0
+    ? ''
+    : cents > 0 ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400';
+
+export const HoldingsModal: React.FC<HoldingsModalProps> = ({ accountId, onClose }) => {
+  const { t } = useTranslation();
+  const account = useAccountStore((state) => state.accounts.find((item) => item.id === accountId));
+  const updateAccount = useAccountStore((state) => state.updateAccount);
+  const ledgerAccounts = useLedgerStore((state) => state.accounts);
+  const allTrades = useHoldingStore((state) => state.trades);
+  // Subscribing re-values the positions when prices change
+  useHoldingStore((state) => state.prices);
+  const addTrade = useHoldingStore((state) => state.addTrade);
+  const deleteTrade = useHoldingStore((state) => state.deleteTrade);
+  const setCostBasisMethod = useHoldingStore((state) => state.setCostBasisMethod);
+  const savePrices = useHoldingStore((state) => state.savePrices);
+  const { formatAmount } = useCurrencyStore();
+
+  const [draft, setDraft] = useState<TradeDraft>(emptyTrade);
+  const [cashAccountId, setCashAccountId] = useState('');
+  const [priceDraft, setPriceDraft] = useState({ symbol: '', date: getTodayLocalString(), price: '' });
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const cashAccounts = useMemo(
+    () => ledgerAccounts.filter((item) => item.nature === 'asset' && item.isActive && item.id !== account?.ledgerAccountId),
+    [ledgerAccounts, account?.ledgerAccountId]
+  );
+
+  if (!account) return null;
+
+  const today = getTodayLocalString();
+  const trades = allTrades.filter((trade) => trade.accountId === account.id);
+  const valuations = getHoldingValuations(account.id, today);
+  const open = valuations.filter((item) => item.quantity > 0);
+  const method: CostBasisMethod = account.costBasisMethod ?? 'fifo';
+  const hasSales = trades.some((trade) => trade.kind === 'sell');
+  const cashSide = cashAccountId || cashAccounts[0]?.id || '';
+  const money = (cents: number) => formatAmount(cents / 100, account.currency);
+  const sum = (values: Array<number | null>) => values.reduce<number>((total, value) => total + (value ?? 0), 0);
+  const marketValueCents = sum(open.map((item) => item.marketValueCents));
+  const isFullyPriced = open.every((item) => item.marketValueCents !== null);
+
+  const setField = (field: keyof TradeDraft, value: string) => setDraft((current) => ({ ...current, [field]: value }));
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    setError(null);
+    setMessage(null);
+    setIsSaving(true);
+    try {
+      await action();
+      if (success) setMessage(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('holdings.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const submitTrade = () =>
+    run(async () => {
+      await addTrade(
+        account.id,
+        {
+          kind: draft.kind,
+          symbol: draft.symbol,
+          date: draft.date,
+          quantity: parseFloat(draft.quantity) || 0,
+          price: parseFloat(draft.price) || 0,
+          fees: parseFloat(draft.fees) || 0,
+          amount: parseFloat(draft.amount) || 0,
+        },
+        cashSide
+      );
+      setDraft((current) => ({ ...emptyTrade(), kind: current.kind, date: current.date }));
+    }, t('holdings.tradePosted'));
+
+  const submitPrice = () =>
+    run(async () => {
+      await savePrices([{ symbol: priceDraft.symbol, date: priceDraft.date, price: parseFloat(priceDraft.price) }], account.currency);
+      setPriceDraft((current) => ({ ...current, symbol: '', price: '' }));
+    }, t('holdings.priceSaved'));
+
+  const importPrices = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    await run(async () => {
+      const { data, errors } = parsePriceCSV(await readCSVFile(file));
+      if (errors.length > 0) throw new Error(errors.slice(0, 3).join('; '));
+      const count = await savePrices(data, account.currency);
+      setMessage(t('holdings.pricesImported', { count }));
+    });
+  };
+
+  const footer = (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-sm text-gray-600 dark:text-gray-300">
+        {t('holdings.marketValue')}: <span className="font-medium tabular-nums">{money(marketValueCents)}</span>
+      </span>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          {t('holdings.close')}
+        </button>
+        <button
+          onClick={() => run(() => updateAccount(account.id, { balance: marketValueCents / 100 }), t('holdings.balanceUpdated'))}
+          disabled={isSaving || open.length === 0 || !isFullyPriced}
+          title={isFullyPriced ? undefined : t('holdings.missingPrices')}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {t('holdings.useMarketValue')}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={t('holdings.title')}
+      description={account.name}
+      icon={<BarChart3 className="w-5 h-5" />}
+      size="xl"
+      footer={footer}
+    >
+      <div className="space-y-5">
+        <div className="flex flex-wrap items-end gap-4 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex flex-col gap-1">
+            {t('holdings.costBasisMethod')}
+            <select
+              value={method}
+              onChange={(e) => run(() => setCostBasisMethod(account.id, e.target.value as CostBasisMethod))}
+              disabled={isSaving || hasSales}
+              className={inputClass}
+            >
+              {COST_BASIS_METHODS.map((item) => (
+                <option key={item} value={item}>{t(`holdings.methods.${item}`)}</option>
+              ))}
+            </select>
+          </label>
+          {hasSales && <span className="pb-1.5 text-xs text-gray-500 dark:text-gray-400">{t('holdings.methodLocked')}</span>}
+        </div>
+
+        {valuations.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('holdings.empty')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th className="px-2 py-1.5 text-left font-medium">{t('holdings.symbol')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('holdings.quantity')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('holdings.costBasis')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('holdings.price')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('holdings.marketValue')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('holdings.unrealized')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('holdings.realized')}</th>
+                <th className="px-2 py-1.5 text-right font-medium">{t('holdings.dividends')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {valuations.map((item) => (
+                <React.Fragment key={item.symbol}>
+                  <tr className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                    <td className="px-2 py-1">
+                      <button
+                        onClick={() => setExpanded(expanded === item.symbol ? null : item.symbol)}
+                        disabled={item.lots.length === 0}
+                        className="inline-flex items-center gap-1 font-medium disabled:cursor-default"
+                        title={t('holdings.lots')}
+                      >
+                        {expanded === item.symbol ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                        {item.symbol}
+                      </button>
+                    </td>
+                    <td className="px-2 py-1 text-right tabular-nums">{item.quantity}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">{money(item.costBasisCents)}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">
+                      {item.price ? (
+                        <>
+                          <div>{formatAmount(item.price.price, account.currency)}</div>
+                          <div className="text-xs text-gray-400">{item.price.date}</div>
+                        </>
+                      ) : (
+                        <span className="text-xs text-amber-600 dark:text-amber-400">{t('holdings.noPrice')}</span>
+                      )}
+                    </td>
+                    <td className="px-2 py-1 text-right tabular-nums">{item.marketValueCents === null ? '-' : money(item.marketValueCents)}</td>
+                    <td className={`px-2 py-1 text-right tabular-nums ${gainClass(item.unrealizedGainCents)}`}>
+                      {item.unrealizedGainCents === null ? '-' : money(item.unrealizedGainCents)}
+                    </td>
+                    <td className={`px-2 py-1 text-right tabular-nums ${gainClass(item.realizedGainCents)}`}>{money(item.realizedGainCents)}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">{money(item.dividendCents)}</td>
+                  </tr>
+                  {expanded === item.symbol && item.lots.map((lot, index) => (
+                    <tr key={index} className="text-xs text-gray-500 dark:text-gray-400">
+                      <td className="px-2 py-0.5 pl-7">{lot.date}</td>
+                      <td className="px-2 py-0.5 text-right tabular-nums">{lot.quantity}</td>
+                      <td className="px-2 py-0.5 text-right tabular-nums">{money(lot.costCents)}</td>
+                      <td colSpan={5}></td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{t('holdings.newTrade')}</h3>
+          <div className="flex flex-wrap items-end gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex flex-col gap-1">
+              {t('holdings.kind')}
+              <select value={draft.kind} onChange={(e) => setField('kind', e.target.value)} className={inputClass}>
+                {TRADE_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>{t(`holdings.kinds.${kind}`)}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('holdings.symbol')}
+              <input value={draft.symbol} onChange={(e) => setField('symbol', e.target.value)} placeholder="AAPL" className={`${inputClass} w-24 uppercase`} />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('holdings.date')}
+              <input type="date" value={draft.date} onChange={(e) => setField('date', e.target.value)} className={inputClass} />
+            </label>
+            {draft.kind === 'dividend' ? (
+              <label className="flex flex-col gap-1">
+                {t('holdings.amount')}
+                <input type="number" min="0" step="0.01" value={draft.amount} onChange={(e) => setField('amount', e.target.value)} className={`${inputClass} w-28`} />
+              </label>
+            ) : (
+              <>
+                <label className="flex flex-col gap-1">
+                  {t('holdings.quantity')}
+                  <input type="number" min="0" step="any" value={draft.quantity} onChange={(e) => setField('quantity', e.target.value)} className={`${inputClass} w-28`} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  {t('holdings.price')}
+                  <input type="number" min="0" step="any" value={draft.price} onChange={(e) => setField('price', e.target.value)} className={`${inputClass} w-28`} />
+                </label>
+                <label className="flex flex-col gap-1">
+                  {t('holdings.fees')}
+                  <input type="number" min="0" step="0.01" value={draft.fees} onChange={(e) => setField('fees', e.target.value)} placeholder="0" className={`${inputClass} w-20`} />
+                </label>
+              </>
+            )}
+            <label className="flex flex-col gap-1">
+              {draft.kind === 'buy' ? t('holdings.payFrom') : t('holdings.depositTo')}
+              <select value={cashSide} onChange={(e) => setCashAccountId(e.target.value)} className={inputClass}>
+                {cashAccounts.map((item) => (
+                  <option key={item.id} value={item.id}>{item.code} - {item.name}</option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={submitTrade}
+              disabled={isSaving || !draft.symbol.trim() || !cashSide}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('holdings.postTrade')}
+            </button>
+          </div>
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{t('holdings.prices')}</h3>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isSaving}
+              className="inline-flex items-center gap-1.5 px-2 py-1 text-xs font-medium text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+              title={t('holdings.importHint')}
+            >
+              <Upload className="w-3.5 h-3.5" />
+              {t('holdings.importPrices')}
+            </button>
+            <input ref={fileInputRef} type="file" accept=".csv" onChange={importPrices} className="hidden" />
+          </div>
+          <div className="flex flex-wrap items-end gap-3 text-sm text-gray-700 dark:text-gray-300">
+            <label className="flex flex-col gap-1">
+              {t('holdings.symbol')}
+              <input
+                value={priceDraft.symbol}
+                onChange={(e) => setPriceDraft((current) => ({ ...current, symbol: e.target.value }))}
+                list="holding-symbols"
+                className={`${inputClass} w-24 uppercase`}
+              />
+              <datalist id="holding-symbols">
+                {valuations.map((item) => <option key={item.symbol} value={item.symbol} />)}
+              </datalist>
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('holdings.date')}
+              <input type="date" value={priceDraft.date} onChange={(e) => setPriceDraft((current) => ({ ...current, date: e.target.value }))} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              {t('holdings.price')}
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={priceDraft.price}
+                onChange={(e) => setPriceDraft((current) => ({ ...current, price: e.target.value }))}
+                className={`${inputClass} w-28`}
+              />
+            </label>
+            <button
+              onClick={submitPrice}
+              disabled={isSaving || !priceDraft.symbol.trim() || priceDraft.price === ''}
+              className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+            >
+              {t('holdings.savePrice')}
+            </button>
+          </div>
+        </section>
+
+        {trades.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{t('holdings.trades')}</h3>
+            <div className="max-h-60 overflow-auto">
+              <table className="w-full text-sm">
+                <tbody>
+                  {[...trades].reverse().map((trade) => (
+                    <tr key={trade.id} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                      <td className="px-2 py-1 whitespace-nowrap">{trade.date}</td>
+                      <td className="px-2 py-1">{t(`holdings.kinds.${trade.kind}`)}</td>
+                      <td className="px-2 py-1 font-medium">{trade.symbol}</td>
+                      <td className="px-2 py-1 text-right tabular-nums">
+                        {trade.kind === 'dividend'
+                          ? formatAmount(trade.amount, account.currency)
+                          : `${trade.quantity} × ${formatAmount(trade.price, account.currency)}`}
+                      </td>
+                      <td className="px-2 py-1 text-right">
+                        <button
+                          onClick={() => run(() => deleteTrade(trade.id))}
+                          disabled={isSaving}
+                          className="p-1 text-gray-400 hover:text-red-500 disabled:opacity-40"
+                          title={t('holdings.deleteTrade')}
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,72 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useAccountStore } from '../../stores/accountStore';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { getOpeningBalanceCheck } from '../../selectors/finance';
+import type { BalanceCheckStatus } from '../../domain/openingBalances';
+
+const STATUS_CLASSES: Record<BalanceCheckStatus, string> = {
+  matched: 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400',
+  diverged: 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400',
+  unlinked: 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-400',
+};
+
+// Net worth balances next to the ledger balances of their linked accounts
+export const LedgerBalanceCheck: React.FC = () => {
+  const { t } = useTranslation();
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  // Subscribing recomputes the check when either side changes
+  useAccountStore((state) => state.accounts);
+  useLedgerStore((state) => state.transactions);
+  useLedgerStore((state) => state.accounts);
+
+  const lines = getOpeningBalanceCheck();
+  if (lines.length === 0) return null;
+
+  const diverged = lines.filter((line) => line.status === 'diverged').length;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{t('openingBalances.checkTitle')}</h3>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          {diverged > 0 ? t('openingBalances.divergedCount', { count: diverged }) : t('openingBalances.allMatched')}
+        </span>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+              <th className="px-3 py-2 text-left font-medium">{t('journal.account')}</th>
+              <th className="px-3 py-2 text-right font-medium">{t('openingBalances.netWorth')}</th>
+              <th className="px-3 py-2 text-right font-medium">{t('openingBalances.ledger')}</th>
+              <th className="px-3 py-2 text-right font-medium">{t('openingBalances.difference')}</th>
+              <th className="px-3 py-2 text-right font-medium">{t('openingBalances.status')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line) => {
+              const format = (cents: number) => formatAmount(cents / 100, line.currency);
+              return (
+                <tr key={line.accountId} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                  <td className="px-3 py-1.5">{line.name}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{format(line.netWorthCents)}</td>
+                  <td className="px-3 py-1.5 text-right tabular-nums">{line.ledgerCents === null ? '—' : format(line.ledgerCents)}</td>
+                  <td className={`px-3 py-1.5 text-right tabular-nums ${line.status === 'diverged' ? 'text-red-600 dark:text-red-400' : ''}`}>
+                    {line.status === 'unlinked' ? '—' : format(line.differenceCents)}
+                  </td>
+                  <td className="px-3 py-1.5 text-right">
+                    <span className={`px-1.5 py-0.5 text-xs rounded ${STATUS_CLASSES[line.status]}`}>
+                      {t(`openingBalances.statuses.${line.status}`)}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,275 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { CalendarClock, Plus, Trash2 } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useAccountStore } from '../../stores/accountStore';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { Amortization } from '../../domain/amortization';
+import type { LoanTerms } from '../../domain/amortization';
+import { getTodayLocalString } from '../../utils/dateFormat';
+
+interface LoanScheduleModalProps {
+  // Rendered with a key per account, so the form starts from that account's terms
+  accountId: string | null;
+  onClose: () => void;
+}
+
+interface TermsDraft {
+  principal: string;
+  annualRate: string;
+  termMonths: string;
+  startDate: string;
+  extraMonthly: string;
+  extraPayments: { date: string; amount: string }[];
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const toDraft = (terms: LoanTerms | undefined, balance: number): TermsDraft => ({
+  principal: String(terms?.principal ?? Math.abs(balance)),
+  annualRate: terms ? String(terms.annualRate) : '',
+  termMonths: terms ? String(terms.termMonths) : '',
+  startDate: terms?.startDate ?? getTodayLocalString(),
+  extraMonthly: terms?.extraMonthly ? String(terms.extraMonthly) : '',
+  extraPayments: (terms?.extraPayments ?? []).map((extra) => ({ date: extra.date, amount: String(extra.amount) })),
+});
+
+const fromDraft = (draft: TermsDraft): LoanTerms => ({
+  principal: parseFloat(draft.principal),
+  annualRate: parseFloat(draft.annualRate) || 0,
+  termMonths: Number(draft.termMonths),
+  startDate: draft.startDate,
+  extraMonthly: parseFloat(draft.extraMonthly) || undefined,
+  extraPayments: draft.extraPayments.length > 0
+    ? draft.extraPayments.map((extra) => ({ date: extra.date, amount: parseFloat(extra.amount) }))
+    : undefined,
+});
+
+export const LoanScheduleModal: React.FC<LoanScheduleModalProps> = ({ accountId, onClose }) => {
+  const { t } = useTranslation();
+  const account = useAccountStore((state) => state.accounts.find((item) => item.id === accountId));
+  const updateAccount = useAccountStore((state) => state.updateAccount);
+  const ledgerAccounts = useLedgerStore((state) => state.accounts);
+  const transactions = useLedgerStore((state) => state.transactions);
+  const postLoanPayment = useLedgerStore((state) => state.postLoanPayment);
+  const { formatAmount } = useCurrencyStore();
+
+  const [draft, setDraft] = useState<TermsDraft>(() => toDraft(account?.loanTerms, account?.balance ?? 0));
+  const [cashAccountId, setCashAccountId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const cashAccounts = useMemo(
+    () => ledgerAccounts.filter((item) => item.nature === 'asset' && item.isActive),
+    [ledgerAccounts]
+  );
+  const posted = useMemo(
+    () => (accountId ? Amortization.postedPeriods(transactions, accountId) : new Set<number>()),
+    [transactions, accountId]
+  );
+
+  if (!account) return null;
+
+  const terms = fromDraft(draft);
+  const termsError = Amortization.validate(terms);
+  const schedule = termsError ? null : Amortization.schedule(terms);
+  // Payments follow the saved terms, so edits have to be saved before posting.
+  // Both sides go through the draft so stored key order does not matter.
+  const isSaved = Boolean(account.loanTerms) &&
+    JSON.stringify(fromDraft(toDraft(account.loanTerms, account.balance))) === JSON.stringify(terms);
+  const payFrom = cashAccountId || cashAccounts[0]?.id || '';
+  const money = (cents: number) => formatAmount(cents / 100, account.currency);
+
+  const setField = (field: Exclude<keyof TermsDraft, 'extraPayments'>, value: string) =>
+    setDraft((current) => ({ ...current, [field]: value }));
+  const setExtra = (index: number, field: 'date' | 'amount', value: string) =>
+    setDraft((current) => ({
+      ...current,
+      extraPayments: current.extraPayments.map((extra, i) => (i === index ? { ...extra, [field]: value } : extra)),
+    }));
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('loans.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const footer = (
+    <div className="flex items-center justify-between gap-2">
+      <div>
+        {account.loanTerms && (
+          <button
+            onClick={() => run(() => updateAccount(account.id, { loanTerms: undefined }))}
+            disabled={isSaving}
+            className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {t('loans.removeTerms')}
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          {t('loans.close')}
+        </button>
+        <button
+          onClick={() => run(() => updateAccount(account.id, { loanTerms: terms }))}
+          disabled={isSaving || termsError !== null || isSaved}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {t('loans.saveTerms')}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={t('loans.title')}
+      description={account.name}
+      icon={<CalendarClock className="w-5 h-5" />}
+      size="xl"
+      footer={footer}
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 sm:grid-cols-5 gap-3 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex flex-col gap-1">
+            {t('loans.principal')}
+            <input type="number" min="0" step="0.01" value={draft.principal} onChange={(e) => setField('principal', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('loans.annualRate')}
+            <input type="number" min="0" step="0.01" value={draft.annualRate} onChange={(e) => setField('annualRate', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('loans.termMonths')}
+            <input type="number" min="1" step="1" value={draft.termMonths} onChange={(e) => setField('termMonths', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('loans.startDate')}
+            <input type="date" value={draft.startDate} onChange={(e) => setField('startDate', e.target.value)} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('loans.extraMonthly')}
+            <input type="number" min="0" step="0.01" value={draft.extraMonthly} onChange={(e) => setField('extraMonthly', e.target.value)} placeholder="-" className={inputClass} />
+          </label>
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{t('loans.extraPayments')}</h3>
+            <button
+              onClick={() => setDraft((current) => ({ ...current, extraPayments: [...current.extraPayments, { date: getTodayLocalString(), amount: '' }] }))}
+              className="p-1 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors"
+              title={t('loans.addExtra')}
+            >
+              <Plus className="w-4 h-4" />
+            </button>
+          </div>
+          {draft.extraPayments.map((extra, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input type="date" value={extra.date} onChange={(e) => setExtra(index, 'date', e.target.value)} className={inputClass} />
+              <input type="number" min="0" step="0.01" value={extra.amount} onChange={(e) => setExtra(index, 'amount', e.target.value)} className={`${inputClass} w-32`} />
+              <button
+                onClick={() => setDraft((current) => ({ ...current, extraPayments: current.extraPayments.filter((_, i) => i !== index) }))}
+                className="p-1 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md transition-colors"
+                title={t('loans.removeExtra')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {termsError && <p className="text-sm text-amber-600 dark:text-amber-400">{termsError}</p>}
+
+        {schedule && (
+          <>
+            <dl className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+              {[
+                [t('loans.monthlyPayment'), money(schedule.paymentCents)],
+                [t('loans.totalInterest'), money(schedule.totalInterestCents)],
+                [t('loans.payoffDate'), schedule.payoffDate ?? '-'],
+                [t('loans.monthsSaved'), String(schedule.monthsSaved)],
+              ].map(([label, value]) => (
+                <div key={label} className="rounded-lg border border-gray-200 dark:border-gray-700 px-3 py-2">
+                  <dt className="text-xs text-gray-500 dark:text-gray-400">{label}</dt>
+                  <dd className="tabular-nums font-medium text-gray-900 dark:text-white">{value}</dd>
+                </div>
+              ))}
+            </dl>
+
+            <div className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <label className="flex items-center gap-2">
+                {t('loans.payFrom')}
+                <select value={payFrom} onChange={(e) => setCashAccountId(e.target.value)} className={inputClass}>
+                  {cashAccounts.map((item) => (
+                    <option key={item.id} value={item.id}>{item.code} - {item.name}</option>
+                  ))}
+                </select>
+              </label>
+              {!isSaved && <span className="text-xs text-gray-500 dark:text-gray-400">{t('loans.saveToPost')}</span>}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white dark:bg-gray-800">
+                  <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="px-2 py-1.5 text-right font-medium">#</th>
+                    <th className="px-2 py-1.5 text-left font-medium">{t('loans.date')}</th>
+                    <th className="px-2 py-1.5 text-right font-medium">{t('loans.payment')}</th>
+                    <th className="px-2 py-1.5 text-right font-medium">{t('loans.interest')}</th>
+                    <th className="px-2 py-1.5 text-right font-medium">{t('loans.principalPaid')}</th>
+                    <th className="px-2 py-1.5 text-right font-medium">{t('loans.extra')}</th>
+                    <th className="px-2 py-1.5 text-right font-medium">{t('loans.balance')}</th>
+                    <th className="px-2 py-1.5"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {schedule.rows.map((row) => (
+                    <tr key={row.period} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                      <td className="px-2 py-1 text-right tabular-nums text-gray-400">{row.period}</td>
+                      <td className="px-2 py-1">{row.date}</td>
+                      <td className="px-2 py-1 text-right tabular-nums">{money(row.paymentCents)}</td>
+                      <td className="px-2 py-1 text-right tabular-nums">{money(row.interestCents)}</td>
+                      <td className="px-2 py-1 text-right tabular-nums">{money(row.principalCents)}</td>
+                      <td className="px-2 py-1 text-right tabular-nums">{row.extraCents > 0 ? money(row.extraCents) : '-'}</td>
+                      <td className="px-2 py-1 text-right tabular-nums">{money(row.balanceCents)}</td>
+                      <td className="px-2 py-1 text-right">
+                        {posted.has(row.period) ? (
+                          <span className="text-xs text-green-600 dark:text-green-400">{t('loans.posted')}</span>
+                        ) : (
+                          <button
+                            onClick={() => run(() => postLoanPayment(account.id, row.period, payFrom))}
+                            disabled={isSaving || !isSaved || !payFrom}
+                            className="px-2 py-0.5 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-40"
+                          >
+                            {t('loans.post')}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
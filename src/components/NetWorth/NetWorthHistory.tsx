@@ -2,7 +2,14 @@ import React, { useState, useMemo, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
 import { useSnapshotStore, type NetWorthSnapshot } from '../../stores/snapshotStore';
 import { useCurrencyStore } from '../../stores/currencyStore';
-import { TrendingUp, TrendingDown, ChevronDown, ChevronUp, History, Calendar, BarChart3, LineChart as LineChartIcon } from 'lucide-react';
+import { TrendingUp, TrendingDown, ChevronDown, ChevronUp, History, Calendar, BarChart3, LineChart as LineChartIcon, Telescope } from 'lucide-react';
+import { NetWorthProjection, DEFAULT_PROJECTION_ASSUMPTIONS, MAX_PROJECTION_YEARS, MIN_PROJECTION_YEARS } from '../../domain/projection';
+import type { ProjectionAssumptions, ProjectionPoint } from '../../domain/projection';
+import { getProjectionInput } from '../../selectors/finance';
+import { useAccountStore } from '../../stores/accountStore';
+import { useIncomeStore } from '../../stores/incomeStore';
+import { useExpenseStore } from '../../stores/expenseStore';
+import { getTodayLocalString } from '../../utils/dateFormat';
 
 // Format month string (YYYY-MM) to display format (Jan 2025)
 const formatMonth = (monthStr: string, locale: string): string => {
@@ -32,19 +39,26 @@ const formatCompactAmount = (amount: number): string => {
 // Chart display modes
 type ChartMode = 'net-worth' | 'breakdown';
 
+// Projection assumptions as typed, so fields can be cleared while editing
+type AssumptionsDraft = Record<keyof ProjectionAssumptions, string>;
+
+const inputClass =
+  'w-20 px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
 // Enhanced SVG Line Chart Component
 interface LineChartProps {
   data: NetWorthSnapshot[];
+  projection: ProjectionPoint[]; // Drawn after the history, with a band between the scenarios
   formatAmount: (amount: number) => string;
   mode: ChartMode;
 }
 
-const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
+const LineChart: React.FC<LineChartProps> = ({ data, projection, formatAmount, mode }) => {
   const { t, i18n } = useTranslation();
   const containerRef = useRef<HTMLDivElement>(null);
   const [hoveredPoint, setHoveredPoint] = useState<{ index: number; x: number; y: number } | null>(null);
 
-  if (data.length === 0) {
+  if (data.length === 0 && projection.length === 0) {
     return (
       <div className="flex items-center justify-center h-48 sm:h-56 md:h-64 text-gray-500 dark:text-gray-400 text-sm">
         {t('history.noHistoryChart')}
@@ -56,6 +70,10 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
   const netWorthValues = data.map(d => d.netWorthBase);
   const assetValues = data.map(d => d.totalsByNature.asset);
   const liabilityValues = data.map(d => Math.abs(d.totalsByNature.liability));
+  const projectedValues = projection.map(p => p.netWorthCents / 100);
+  const pessimisticValues = projection.map(p => p.pessimisticCents / 100);
+  const optimisticValues = projection.map(p => p.optimisticCents / 100);
+  const periods = [...data.map(d => d.monthEndLocal), ...projection.map(p => p.period)];
 
   // Calculate min/max across all visible series
   let allValues: number[];
@@ -64,6 +82,7 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
   } else {
     allValues = netWorthValues;
   }
+  allValues = [...allValues, ...projectedValues, ...pessimisticValues, ...optimisticValues];
 
   const minValue = Math.min(...allValues);
   const maxValue = Math.max(...allValues);
@@ -85,10 +104,10 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
   const chartWidth = width - leftPadding - rightPadding;
   const chartHeight = height - topPadding - bottomPadding;
 
-  // Generate points for each series
-  const generatePoints = (values: number[]) => {
+  // Generate points for each series; projected series start after the history
+  const generatePoints = (values: number[], offset = 0) => {
     return values.map((value, i) => {
-      const x = leftPadding + (i / Math.max(data.length - 1, 1)) * chartWidth;
+      const x = leftPadding + ((i + offset) / Math.max(periods.length - 1, 1)) * chartWidth;
       const y = topPadding + chartHeight - ((value - paddedMin) / paddedRange) * chartHeight;
       return { x, y, value };
     });
@@ -97,6 +116,12 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
   const netWorthPoints = generatePoints(netWorthValues);
   const assetPoints = generatePoints(assetValues);
   const liabilityPoints = generatePoints(liabilityValues);
+  // The projection continues from the last snapshot
+  const lastPoint = netWorthPoints.slice(-1);
+  const projectedPoints = [...lastPoint, ...generatePoints(projectedValues, data.length)];
+  const pessimisticPoints = [...lastPoint, ...generatePoints(pessimisticValues, data.length)];
+  const optimisticPoints = [...lastPoint, ...generatePoints(optimisticValues, data.length)];
+  const hoverPoints = [...netWorthPoints, ...generatePoints(projectedValues, data.length)];
 
   // Create SVG path from points
   const createPath = (points: { x: number; y: number }[]) => {
@@ -110,6 +135,11 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
     return `${path} L ${points[points.length - 1].x} ${baseY} L ${points[0].x} ${baseY} Z`;
   };
 
+  // Area between two series, e.g. the pessimistic and optimistic scenarios
+  const createBandPath = (lower: { x: number; y: number }[], upper: { x: number; y: number }[]) => {
+    return `${createPath(upper)} ${[...lower].reverse().map(p => `L ${p.x} ${p.y}`).join(' ')} Z`;
+  };
+
   // Determine net worth color based on trend
   const isPositiveTrend = data.length >= 2 && data[data.length - 1].netWorthBase >= data[0].netWorthBase;
   const netWorthColor = isPositiveTrend ? '#3b82f6' : '#8b5cf6'; // Blue or purple for net worth
@@ -124,23 +154,23 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
 
   // Generate X-axis labels (show more labels for longer ranges)
   const getXAxisLabels = () => {
-    if (data.length <= 2) {
-      return data.map((d, i) => ({
-        label: formatMonthShort(d.monthEndLocal, i18n.language),
-        x: leftPadding + (i / Math.max(data.length - 1, 1)) * chartWidth,
+    if (periods.length <= 2) {
+      return periods.map((period, i) => ({
+        label: formatMonthShort(period, i18n.language),
+        x: leftPadding + (i / Math.max(periods.length - 1, 1)) * chartWidth,
       }));
     }
 
     // For longer ranges, show ~4-6 evenly spaced labels
-    const labelCount = Math.min(data.length, 6);
-    const step = (data.length - 1) / (labelCount - 1);
+    const labelCount = Math.min(periods.length, 6);
+    const step = (periods.length - 1) / (labelCount - 1);
     const labels = [];
 
     for (let i = 0; i < labelCount; i++) {
       const dataIndex = Math.round(i * step);
       labels.push({
-        label: formatMonthShort(data[dataIndex].monthEndLocal, i18n.language),
-        x: leftPadding + (dataIndex / Math.max(data.length - 1, 1)) * chartWidth,
+        label: formatMonthShort(periods[dataIndex], i18n.language),
+        x: leftPadding + (dataIndex / Math.max(periods.length - 1, 1)) * chartWidth,
       });
     }
 
@@ -161,7 +191,7 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
     let closestIndex = 0;
     let closestDist = Infinity;
 
-    netWorthPoints.forEach((p, i) => {
+    hoverPoints.forEach((p, i) => {
       const dist = Math.abs(p.x - svgX);
       if (dist < closestDist) {
         closestDist = dist;
@@ -171,7 +201,7 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
 
     // Only show tooltip if we're within chart area
     if (svgX >= leftPadding && svgX <= leftPadding + chartWidth) {
-      const tooltipX = (netWorthPoints[closestIndex].x / width) * rect.width;
+      const tooltipX = (hoverPoints[closestIndex].x / width) * rect.width;
       setHoveredPoint({
         index: closestIndex,
         x: tooltipX,
@@ -238,7 +268,7 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
         ))}
 
         {/* Breakdown mode: show assets and liabilities */}
-        {mode === 'breakdown' && (
+        {mode === 'breakdown' && data.length > 0 && (
           <>
             {/* Assets area and line */}
             <path d={createAreaPath(assetPoints)} fill="rgba(34, 197, 94, 0.15)" />
@@ -265,25 +295,45 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
         )}
 
         {/* Net worth area and line (always shown) */}
-        <path
-          d={createAreaPath(netWorthPoints)}
-          fill={mode === 'breakdown' ? 'rgba(59, 130, 246, 0.1)' : (isPositiveTrend ? 'rgba(34, 197, 94, 0.15)' : 'rgba(239, 68, 68, 0.15)')}
-        />
-        <path
-          d={createPath(netWorthPoints)}
-          fill="none"
-          stroke={mode === 'breakdown' ? netWorthColor : (isPositiveTrend ? '#22c55e' : '#ef4444')}
-          strokeWidth="0.5"
-          strokeLinecap="round"
-          strokeLinejoin="round"
-        />
+        {data.length > 0 && (
+          <>
+            <path
+              d={createAreaPath(netWorthPoints)}
+              fill={mode === 'breakdown' ? 'rgba(59, 130, 246, 0.1)' : (isPositiveTrend ? 'rgba(34, 197, 94, 0.15)' : 'rgba(239, 68, 68, 0.15)')}
+            />
+            <path
+              d={createPath(netWorthPoints)}
+              fill="none"
+              stroke={mode === 'breakdown' ? netWorthColor : (isPositiveTrend ? '#22c55e' : '#ef4444')}
+              strokeWidth="0.5"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </>
+        )}
+
+        {/* Projection: pessimistic to optimistic band and the base case dashed */}
+        {projection.length > 0 && (
+          <>
+            <path d={createBandPath(pessimisticPoints, optimisticPoints)} fill="rgba(99, 102, 241, 0.15)" />
+            <path
+              d={createPath(projectedPoints)}
+              fill="none"
+              stroke="#6366f1"
+              strokeWidth="0.5"
+              strokeDasharray="1.5,1"
+              strokeLinecap="round"
+              strokeLinejoin="round"
+            />
+          </>
+        )}
 
         {/* Hover indicator line */}
         {hoveredPoint !== null && (
           <line
-            x1={netWorthPoints[hoveredPoint.index].x}
+            x1={hoverPoints[hoveredPoint.index].x}
             y1={topPadding}
-            x2={netWorthPoints[hoveredPoint.index].x}
+            x2={hoverPoints[hoveredPoint.index].x}
             y2={topPadding + chartHeight}
             stroke="currentColor"
             strokeOpacity={0.3}
@@ -295,7 +345,7 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
         {/* Data points on hover */}
         {hoveredPoint !== null && (
           <>
-            {mode === 'breakdown' && (
+            {mode === 'breakdown' && hoveredPoint.index < data.length && (
               <>
                 <circle
                   cx={assetPoints[hoveredPoint.index].x}
@@ -312,17 +362,17 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
               </>
             )}
             <circle
-              cx={netWorthPoints[hoveredPoint.index].x}
-              cy={netWorthPoints[hoveredPoint.index].y}
+              cx={hoverPoints[hoveredPoint.index].x}
+              cy={hoverPoints[hoveredPoint.index].y}
               r="1.2"
-              fill={mode === 'breakdown' ? netWorthColor : (isPositiveTrend ? '#22c55e' : '#ef4444')}
+              fill={hoveredPoint.index >= data.length ? '#6366f1' : mode === 'breakdown' ? netWorthColor : (isPositiveTrend ? '#22c55e' : '#ef4444')}
             />
           </>
         )}
       </svg>
 
       {/* Tooltip */}
-      {hoveredPoint !== null && (
+      {hoveredPoint !== null && hoveredPoint.index < data.length && (
         <div
           className="absolute pointer-events-none bg-gray-900 dark:bg-gray-700 text-white text-xs px-3 py-2 rounded-lg shadow-lg z-10 min-w-[120px]"
           style={{
@@ -353,6 +403,34 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
         </div>
       )}
 
+      {/* Tooltip for projected months */}
+      {hoveredPoint !== null && hoveredPoint.index >= data.length && (
+        <div
+          className="absolute pointer-events-none bg-gray-900 dark:bg-gray-700 text-white text-xs px-3 py-2 rounded-lg shadow-lg z-10 min-w-[120px]"
+          style={{
+            left: Math.min(Math.max(hoveredPoint.x, 60), containerRef.current ? containerRef.current.offsetWidth - 60 : hoveredPoint.x),
+            top: 8,
+            transform: 'translateX(-50%)',
+          }}
+        >
+          <div className="font-semibold mb-1 border-b border-gray-700 dark:border-gray-600 pb-1">
+            {formatMonth(projection[hoveredPoint.index - data.length].period, i18n.language)}
+          </div>
+          <div className="flex justify-between gap-3">
+            <span className="text-green-400">{t('projection.optimistic')}</span>
+            <span>{formatAmount(projection[hoveredPoint.index - data.length].optimisticCents / 100)}</span>
+          </div>
+          <div className="flex justify-between gap-3">
+            <span className="text-indigo-300">{t('projection.base')}</span>
+            <span className="font-medium">{formatAmount(projection[hoveredPoint.index - data.length].netWorthCents / 100)}</span>
+          </div>
+          <div className="flex justify-between gap-3">
+            <span className="text-red-400">{t('projection.pessimistic')}</span>
+            <span>{formatAmount(projection[hoveredPoint.index - data.length].pessimisticCents / 100)}</span>
+          </div>
+        </div>
+      )}
+
       {/* Legend for breakdown mode */}
       {mode === 'breakdown' && (
         <div className="flex items-center justify-center gap-4 mt-2 text-xs">
@@ -370,6 +448,20 @@ const LineChart: React.FC<LineChartProps> = ({ data, formatAmount, mode }) => {
           </div>
         </div>
       )}
+
+      {/* Legend for the projection */}
+      {projection.length > 0 && (
+        <div className="flex items-center justify-center gap-4 mt-2 text-xs">
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-0.5 border-t border-dashed border-indigo-500"></div>
+            <span className="text-gray-600 dark:text-gray-400">{t('projection.base')}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <div className="w-3 h-2 bg-indigo-500/20 rounded-sm"></div>
+            <span className="text-gray-600 dark:text-gray-400">{t('projection.range')}</span>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -382,6 +474,17 @@ export const NetWorthHistory: React.FC = () => {
   const [isExpanded, setIsExpanded] = useState(false);
   const [filterMonths, setFilterMonths] = useState<6 | 12 | 24 | 0>(12); // 0 = all
   const [chartMode, setChartMode] = useState<ChartMode>('net-worth');
+  const [showProjection, setShowProjection] = useState(false);
+  const [assumptionsDraft, setAssumptionsDraft] = useState<AssumptionsDraft>(() => ({
+    years: String(DEFAULT_PROJECTION_ASSUMPTIONS.years),
+    growthRate: String(DEFAULT_PROJECTION_ASSUMPTIONS.growthRate),
+    inflationRate: String(DEFAULT_PROJECTION_ASSUMPTIONS.inflationRate),
+    spread: String(DEFAULT_PROJECTION_ASSUMPTIONS.spread),
+  }));
+  // Subscribing re-runs the projection when balances or recurring entries change
+  useAccountStore((state) => state.accounts);
+  useIncomeStore((state) => state.incomes);
+  useExpenseStore((state) => state.expenses);
 
   // Get filtered history
   const history = useMemo(() => {
@@ -396,6 +499,22 @@ export const NetWorthHistory: React.FC = () => {
     return getHistory(startMonth);
   }, [getHistory, filterMonths]);
 
+  const assumptions: ProjectionAssumptions = {
+    years: Number(assumptionsDraft.years),
+    growthRate: parseFloat(assumptionsDraft.growthRate),
+    inflationRate: parseFloat(assumptionsDraft.inflationRate),
+    spread: parseFloat(assumptionsDraft.spread),
+  };
+  const assumptionsError = showProjection ? NetWorthProjection.validate(assumptions) : null;
+
+  const projection = showProjection && !assumptionsError
+    ? NetWorthProjection.project(getProjectionInput(), assumptions, getTodayLocalString().slice(0, 7))
+    : [];
+  const projectedEnd = projection.length > 0 ? projection[projection.length - 1] : null;
+
+  const setAssumption = (field: keyof ProjectionAssumptions, value: string) =>
+    setAssumptionsDraft((current) => ({ ...current, [field]: value }));
+
   // Calculate change from first to last
   const periodChange = useMemo(() => {
     if (history.length < 2) return null;
@@ -514,8 +633,64 @@ export const NetWorthHistory: React.FC = () => {
               >
                 <BarChart3 className="w-4 h-4" />
               </button>
+              <button
+                onClick={() => setShowProjection(!showProjection)}
+                className={`p-1.5 rounded-md transition-colors ${
+                  showProjection
+                    ? 'bg-indigo-100 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-400'
+                    : 'text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700'
+                }`}
+                title={t('projection.toggle')}
+              >
+                <Telescope className="w-4 h-4" />
+              </button>
             </div>
-            <LineChart data={history} formatAmount={formatAmount} mode={chartMode} />
+
+            {/* Projection assumptions */}
+            {showProjection && (
+              <div className="mb-3 space-y-2">
+                <div className="flex items-end gap-3 flex-wrap text-xs text-gray-600 dark:text-gray-400">
+                  <label className="flex flex-col gap-1">
+                    {t('projection.years')}
+                    <input
+                      type="number"
+                      min={MIN_PROJECTION_YEARS}
+                      max={MAX_PROJECTION_YEARS}
+                      step="1"
+                      value={assumptionsDraft.years}
+                      onChange={(e) => setAssumption('years', e.target.value)}
+                      className={inputClass}
+                    />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    {t('projection.growthRate')}
+                    <input type="number" step="0.1" value={assumptionsDraft.growthRate} onChange={(e) => setAssumption('growthRate', e.target.value)} className={inputClass} />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    {t('projection.inflationRate')}
+                    <input type="number" step="0.1" value={assumptionsDraft.inflationRate} onChange={(e) => setAssumption('inflationRate', e.target.value)} className={inputClass} />
+                  </label>
+                  <label className="flex flex-col gap-1">
+                    {t('projection.spread')}
+                    <input type="number" min="0" step="0.1" value={assumptionsDraft.spread} onChange={(e) => setAssumption('spread', e.target.value)} className={inputClass} />
+                  </label>
+                </div>
+                {assumptionsError && <p className="text-xs text-amber-600 dark:text-amber-400">{assumptionsError}</p>}
+                {projectedEnd && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300">
+                    {t('projection.summary', {
+                      period: formatMonth(projectedEnd.period, i18n.language),
+                      base: formatAmount(projectedEnd.netWorthCents / 100),
+                      low: formatAmount(projectedEnd.pessimisticCents / 100),
+                      high: formatAmount(projectedEnd.optimisticCents / 100),
+                    })}
+                  </p>
+                )}
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t('projection.note')}</p>
+              </div>
+            )}
+
+            <LineChart data={history} projection={projection} formatAmount={formatAmount} mode={chartMode} />
           </div>
 
           {/* Table */}
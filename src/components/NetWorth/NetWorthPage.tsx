@@ -6,11 +6,20 @@ import { useAccountStore } from '../../stores/accountStore';
 import { useCurrencyStore } from '../../stores/currencyStore';
 import { useSnapshotStore, type AccountSnapshot } from '../../stores/snapshotStore';
 import { useMonthNavigation } from '../../hooks/useMonthNavigation';
-import { TrendingUp, TrendingDown, Plus, Trash2, ChevronDown, ChevronRight, ChevronLeft, Check, EyeOff, Eye, X, Filter, ArrowUpDown, ArrowUp, ArrowDown, Calendar, Upload } from 'lucide-react';
+import { TrendingUp, TrendingDown, Plus, Trash2, ChevronDown, ChevronRight, ChevronLeft, Check, EyeOff, Eye, X, Filter, ArrowUpDown, ArrowUp, ArrowDown, Calendar, Upload, Scale, History, CalendarClock, CreditCard, Target, BarChart3, Percent } from 'lucide-react';
 import type { AccountType, Account } from '../../types';
 import { ImportModal } from '../Shared/ImportModal';
+import { AccountRegisterModal, type RegisterTarget } from '../Shared/AccountRegisterModal';
+import { RecordHistoryModal, type HistoryTarget } from '../Shared/RecordHistoryModal';
 import { parseAccountXLSX } from '../../utils/xlsx';
 import { NetWorthHistory } from './NetWorthHistory';
+import { OpeningBalancesWizard } from './OpeningBalancesWizard';
+import { LedgerBalanceCheck } from './LedgerBalanceCheck';
+import { LoanScheduleModal } from './LoanScheduleModal';
+import { CardCycleModal } from './CardCycleModal';
+import { HoldingsModal } from './HoldingsModal';
+import { YieldAccrualModal } from './YieldAccrualModal';
+import { DebtPayoffPlanner } from './DebtPayoffPlanner';
 
 // Format number with thousand separators
 const formatNumberWithCommas = (value: number | string, locale?: string): string => {
@@ -514,6 +523,12 @@ interface AccountRowProps {
   onUpdate: (updates: Partial<Account>) => void;
   onToggleExclude: () => void;
   onDelete: () => void;
+  onOpenRegister: () => void;
+  onOpenHistory: () => void;
+  onOpenSchedule?: () => void; // Loans and mortgages only
+  onOpenCardCycle?: () => void; // Credit cards only
+  onOpenHoldings?: () => void; // Investment and exchange accounts only
+  onOpenYield?: () => void; // Assets with an estimated yield only
   enabledCurrencies: string[];
   index: number;
   readOnly?: boolean;
@@ -526,12 +541,21 @@ const AccountRow: React.FC<AccountRowProps> = ({
   onUpdate,
   onToggleExclude,
   onDelete,
+  onOpenRegister,
+  onOpenHistory,
+  onOpenSchedule,
+  onOpenCardCycle,
+  onOpenHoldings,
+  onOpenYield,
   enabledCurrencies,
   index,
   readOnly = false,
 }) => {
+  const { t } = useTranslation();
   const isExcluded = account.excludeFromTotal || false;
   const isDisabled = readOnly || isExcluded;
+  // Cards with terms take their payments and paid status from the statement
+  const isFromStatement = Boolean(account.cardTerms);
   const isEven = index % 2 === 0;
 
   // Calculate returns based on yield (for any asset type with yield)
@@ -607,7 +631,7 @@ const AccountRow: React.FC<AccountRowProps> = ({
             type="currency"
             placeholder="-"
             align="right"
-            disabled={isDisabled}
+            disabled={isDisabled || isFromStatement}
             className="text-orange-700 dark:text-orange-400"
           />
         </td>
@@ -625,7 +649,7 @@ const AccountRow: React.FC<AccountRowProps> = ({
             type="currency"
             placeholder="-"
             align="right"
-            disabled={isDisabled}
+            disabled={isDisabled || isFromStatement}
             className="text-yellow-700 dark:text-yellow-400"
           />
         </td>
@@ -692,17 +716,21 @@ const AccountRow: React.FC<AccountRowProps> = ({
                 isPaidThisMonth,
                 lastPaidDate: isPaidThisMonth ? new Date().toISOString().split('T')[0] : account.lastPaidDate
               })}
-              disabled={isDisabled}
+              disabled={isDisabled || isFromStatement}
             />
           </div>
         </td>
       )}
 
-      {/* Last Updated */}
+      {/* Last Updated - opens the account register */}
       <td className="py-1 px-1 w-16 border-l border-gray-200 dark:border-gray-700">
-        <div className="px-1 py-1.5 text-xs text-gray-400 dark:text-gray-500 text-center whitespace-nowrap">
+        <button
+          onClick={onOpenRegister}
+          className="w-full px-1 py-1.5 text-xs text-gray-400 dark:text-gray-500 text-center whitespace-nowrap rounded hover:text-blue-600 dark:hover:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 transition-colors"
+          title={t('register.open')}
+        >
           {formatDateCompact(account.lastUpdated)}
-        </div>
+        </button>
       </td>
 
       {/* Exclude Toggle */}
@@ -714,17 +742,62 @@ const AccountRow: React.FC<AccountRowProps> = ({
         />
       </td>
 
-      {/* Delete */}
-      <td className="py-1 px-1 w-10 border-l border-gray-200 dark:border-gray-700">
-        {!readOnly && (
+      {/* Holdings / Yield / Schedule / History / Delete */}
+      <td className={`py-1 px-1 ${isLiability ? 'w-24' : 'w-32'} border-l border-gray-200 dark:border-gray-700`}>
+        <div className="flex items-center justify-center gap-0.5">
+          {onOpenHoldings && (
+            <button
+              onClick={onOpenHoldings}
+              className="p-1.5 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+              title={t('holdings.title')}
+            >
+              <BarChart3 className="w-4 h-4" />
+            </button>
+          )}
+          {onOpenYield && (
+            <button
+              onClick={onOpenYield}
+              className="p-1.5 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+              title={t('yield.title')}
+            >
+              <Percent className="w-4 h-4" />
+            </button>
+          )}
+          {onOpenCardCycle && (
+            <button
+              onClick={onOpenCardCycle}
+              className="p-1.5 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+              title={t('cards.title')}
+            >
+              <CreditCard className="w-4 h-4" />
+            </button>
+          )}
+          {onOpenSchedule && (
+            <button
+              onClick={onOpenSchedule}
+              className="p-1.5 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+              title={t('loans.title')}
+            >
+              <CalendarClock className="w-4 h-4" />
+            </button>
+          )}
           <button
-            onClick={onDelete}
-            className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
-            title="Delete account"
+            onClick={onOpenHistory}
+            className="p-1.5 text-gray-400 hover:text-blue-500 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+            title={t('history.title')}
           >
-            <Trash2 className="w-4 h-4" />
+            <History className="w-4 h-4" />
           </button>
-        )}
+          {!readOnly && (
+            <button
+              onClick={onDelete}
+              className="p-1.5 text-gray-400 hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md opacity-0 group-hover:opacity-100 transition-all"
+              title="Delete account"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
       </td>
     </tr>
   );
@@ -1039,7 +1112,7 @@ const AssetsTableHeader: React.FC<AssetsTableHeaderProps> = ({
         <th className="px-2 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-400 border-l border-gray-200 dark:border-gray-700 w-10">
           {t('netWorth.exclHeader')}
         </th>
-        <th className="w-10 border-l border-gray-200 dark:border-gray-700">
+        <th className="w-32 border-l border-gray-200 dark:border-gray-700">
           <button
             onClick={(e) => { e.stopPropagation(); onToggle(); }}
             className={`p-1.5 rounded-md transition-colors ${
@@ -1214,7 +1287,7 @@ const LiabilitiesTableHeader: React.FC<LiabilitiesTableHeaderProps> = ({
         <th className="px-2 py-2 text-center text-xs font-medium text-gray-500 dark:text-gray-400 border-l border-gray-200 dark:border-gray-700 w-10">
           {t('netWorth.exclHeader')}
         </th>
-        <th className="w-10 border-l border-gray-200 dark:border-gray-700">
+        <th className="w-24 border-l border-gray-200 dark:border-gray-700">
           <button
             onClick={(e) => { e.stopPropagation(); onToggle(); }}
             className={`p-1.5 rounded-md transition-colors ${
@@ -1320,6 +1393,14 @@ export const NetWorthPage: React.FC = () => {
 
   // Import modal state
   const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isOpeningBalancesOpen, setIsOpeningBalancesOpen] = useState(false);
+  const [isPayoffPlannerOpen, setIsPayoffPlannerOpen] = useState(false);
+  const [registerTarget, setRegisterTarget] = useState<RegisterTarget | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<HistoryTarget | null>(null);
+  const [scheduleAccountId, setScheduleAccountId] = useState<string | null>(null);
+  const [cardCycleAccountId, setCardCycleAccountId] = useState<string | null>(null);
+  const [holdingsAccountId, setHoldingsAccountId] = useState<string | null>(null);
+  const [yieldAccountId, setYieldAccountId] = useState<string | null>(null);
 
   // Month selector state (using custom hook)
   const { selectedDate, setSelectedDate, isCurrentMonth, monthString } = useMonthNavigation();
@@ -1704,17 +1785,35 @@ export const NetWorthPage: React.FC = () => {
       <div className="sticky top-16 z-20 -mx-4 px-4 py-2 bg-gray-100 dark:bg-gray-900">
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-3">
           <div className="flex items-center justify-between">
-            {/* Import Button - Left (only show for current month) */}
+            {/* Import and Opening Balances Buttons - Left (only show for current month) */}
             <div className="flex-1">
               {isViewingCurrentMonth ? (
-                <button
-                  onClick={() => setIsImportModalOpen(true)}
-                  className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
-                  title="Import accounts from CSV"
-                >
-                  <Upload className="w-3.5 h-3.5" />
-                  <span className="hidden sm:inline">{t('netWorth.importCSV')}</span>
-                </button>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setIsImportModalOpen(true)}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title="Import accounts from CSV"
+                  >
+                    <Upload className="w-3.5 h-3.5" />
+                    <span className="hidden sm:inline">{t('netWorth.importCSV')}</span>
+                  </button>
+                  <button
+                    onClick={() => setIsOpeningBalancesOpen(true)}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title={t('openingBalances.buttonHint')}
+                  >
+                    <Scale className="w-3.5 h-3.5" />
+                    <span className="hidden sm:inline">{t('openingBalances.button')}</span>
+                  </button>
+                  <button
+                    onClick={() => setIsPayoffPlannerOpen(true)}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                    title={t('payoff.buttonHint')}
+                  >
+                    <Target className="w-3.5 h-3.5" />
+                    <span className="hidden sm:inline">{t('payoff.button')}</span>
+                  </button>
+                </div>
               ) : (
                 <div className="flex items-center gap-2 text-amber-600 dark:text-amber-400">
                   <Eye className="w-4 h-4" />
@@ -1887,6 +1986,10 @@ export const NetWorthPage: React.FC = () => {
                       onUpdate={(updates) => updateAccount(account.id, updates)}
                       onToggleExclude={() => toggleExcludeFromTotal(account.id)}
                       onDelete={() => deleteAccount(account.id)}
+                      onOpenRegister={() => setRegisterTarget({ kind: 'networth', accountId: account.id, name: account.name })}
+                      onOpenHistory={() => setHistoryTarget({ table: 'net_worth_accounts', recordId: account.id, name: account.name })}
+                      onOpenHoldings={account.type === 'investment' || account.type === 'exchange' ? () => setHoldingsAccountId(account.id) : undefined}
+                      onOpenYield={account.estimatedYield || account.yieldTerms ? () => setYieldAccountId(account.id) : undefined}
                       enabledCurrencies={enabledCurrencies}
                       index={index}
                       readOnly={!isViewingCurrentMonth}
@@ -1959,6 +2062,10 @@ export const NetWorthPage: React.FC = () => {
                       onUpdate={(updates) => updateAccount(account.id, updates)}
                       onToggleExclude={() => toggleExcludeFromTotal(account.id)}
                       onDelete={() => deleteAccount(account.id)}
+                      onOpenRegister={() => setRegisterTarget({ kind: 'networth', accountId: account.id, name: account.name })}
+                      onOpenHistory={() => setHistoryTarget({ table: 'net_worth_accounts', recordId: account.id, name: account.name })}
+                      onOpenSchedule={account.type === 'loan' || account.type === 'mortgage' ? () => setScheduleAccountId(account.id) : undefined}
+                      onOpenCardCycle={account.type === 'credit-card' ? () => setCardCycleAccountId(account.id) : undefined}
                       enabledCurrencies={enabledCurrencies}
                       index={index}
                       readOnly={!isViewingCurrentMonth}
@@ -1983,6 +2090,9 @@ export const NetWorthPage: React.FC = () => {
       {/* Net Worth History */}
       <NetWorthHistory />
 
+      {/* Net worth vs ledger */}
+      <LedgerBalanceCheck />
+
       {/* Empty State */}
       {accounts.length === 0 && (
         <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 p-8 text-center">
@@ -2017,6 +2127,26 @@ export const NetWorthPage: React.FC = () => {
         validateRow={validateAccountRow}
         onImport={handleImportRows}
       />
+
+      <AccountRegisterModal target={registerTarget} onClose={() => setRegisterTarget(null)} />
+
+      <RecordHistoryModal
+        target={historyTarget}
+        onClose={() => setHistoryTarget(null)}
+        onRestore={(id, values) => updateAccount(id, values as Partial<Account>)}
+      />
+
+      <OpeningBalancesWizard isOpen={isOpeningBalancesOpen} onClose={() => setIsOpeningBalancesOpen(false)} />
+
+      <DebtPayoffPlanner isOpen={isPayoffPlannerOpen} onClose={() => setIsPayoffPlannerOpen(false)} />
+
+      <LoanScheduleModal key={scheduleAccountId ?? 'none'} accountId={scheduleAccountId} onClose={() => setScheduleAccountId(null)} />
+
+      <CardCycleModal key={cardCycleAccountId ?? 'none'} accountId={cardCycleAccountId} onClose={() => setCardCycleAccountId(null)} />
+
+      <HoldingsModal key={holdingsAccountId ?? 'none'} accountId={holdingsAccountId} onClose={() => setHoldingsAccountId(null)} />
+
+      <YieldAccrualModal key={yieldAccountId ?? 'none'} accountId={yieldAccountId} onClose={() => setYieldAccountId(null)} />
     </div>
   );
 };
@@ -0,0 +1,192 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Scale } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useAccountStore } from '../../stores/accountStore';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { OpeningBalances, OPENING_BALANCE_CODE, OPENING_BALANCE_NAME } from '../../domain/openingBalances';
+import { getTodayLocalString } from '../../utils/dateFormat';
+
+interface OpeningBalancesWizardProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+// Stands in for the equity account in the preview until it exists
+const EQUITY_PREVIEW_ID = 'opening-balance-equity';
+
+export const OpeningBalancesWizard: React.FC<OpeningBalancesWizardProps> = ({ isOpen, onClose }) => {
+  const { t } = useTranslation();
+  const netWorthAccounts = useAccountStore((state) => state.accounts);
+  const ledgerAccounts = useLedgerStore((state) => state.accounts);
+  const transactions = useLedgerStore((state) => state.transactions);
+  const postOpeningBalances = useLedgerStore((state) => state.postOpeningBalances);
+  const { baseCurrency, convertAmount, formatAmount } = useCurrencyStore();
+
+  // Accounts whose ledger side already has entries cannot be opened again
+  const postedLedgerIds = useMemo(
+    () => new Set(transactions.flatMap((tx) => tx.postings.map((posting) => posting.accountId))),
+    [transactions]
+  );
+  const candidates = useMemo(
+    () => netWorthAccounts.filter((account) => account.balance !== 0),
+    [netWorthAccounts]
+  );
+  const isPosted = (ledgerAccountId?: string) => Boolean(ledgerAccountId && postedLedgerIds.has(ledgerAccountId));
+
+  const [excluded, setExcluded] = useState<string[]>([]);
+  const [date, setDate] = useState(getTodayLocalString());
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setExcluded([]);
+      setDate(getTodayLocalString());
+      setError(null);
+    }
+  }, [isOpen]);
+
+  // Everything not yet in the ledger starts selected
+  const selected = candidates
+    .filter((account) => !isPosted(account.ledgerAccountId) && !excluded.includes(account.id))
+    .map((account) => account.id);
+
+  const labelOf = (id: string): string => {
+    if (id === EQUITY_PREVIEW_ID) {
+      const equity = ledgerAccounts.find((account) => account.code === OPENING_BALANCE_CODE);
+      return equity ? `${equity.code} - ${equity.name}` : t('openingBalances.newAccount', { name: OPENING_BALANCE_NAME });
+    }
+    const netWorth = netWorthAccounts.find((account) => account.id === id);
+    const ledger = ledgerAccounts.find((account) => account.id === netWorth?.ledgerAccountId);
+    return ledger ? `${ledger.code} - ${ledger.name}` : t('openingBalances.newAccount', { name: netWorth?.name ?? id });
+  };
+
+  // Preview keyed by net worth account; the store swaps in the real ledger ids when posting
+  const lines = OpeningBalances.toJournalLines(
+    candidates
+      .filter((account) => selected.includes(account.id))
+      .map((account) => ({
+        ledgerAccountId: account.id,
+        nature: OpeningBalances.natureOf(account.type),
+        balanceCents: Math.round(account.balance * 100),
+        currency: account.currency,
+        exchangeRate: convertAmount(1, account.currency, baseCurrency),
+      })),
+    EQUITY_PREVIEW_ID,
+    baseCurrency
+  );
+
+  const toggle = (id: string) =>
+    setExcluded((current) => (current.includes(id) ? current.filter((item) => item !== id) : [...current, id]));
+
+  const post = async () => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await postOpeningBalances(date, selected);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('openingBalances.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const footer = (
+    <div className="flex items-center justify-end gap-2">
+      <button
+        onClick={onClose}
+        className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+      >
+        {t('openingBalances.cancel')}
+      </button>
+      <button
+        onClick={post}
+        disabled={isSaving || lines.length === 0}
+        className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+      >
+        {t('openingBalances.post')}
+      </button>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('openingBalances.title')}
+      description={t('openingBalances.description')}
+      icon={<Scale className="w-5 h-5" />}
+      size="lg"
+      footer={footer}
+    >
+      {candidates.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('openingBalances.empty')}</p>
+      ) : (
+        <div className="space-y-4">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            {t('openingBalances.date')}
+            <input type="date" value={date} onChange={(e) => e.target.value && setDate(e.target.value)} className={inputClass} />
+          </label>
+
+          <ul className="space-y-1">
+            {candidates.map((account) => {
+              const posted = isPosted(account.ledgerAccountId);
+              return (
+                <li key={account.id}>
+                  <label className={`flex items-center justify-between gap-3 px-3 py-1.5 text-sm rounded-lg border border-gray-200 dark:border-gray-700 ${posted ? 'opacity-50' : ''}`}>
+                    <span className="flex items-center gap-2 text-gray-900 dark:text-white">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(account.id)}
+                        disabled={posted}
+                        onChange={() => toggle(account.id)}
+                      />
+                      {account.name}
+                      {posted && <span className="text-xs text-gray-500 dark:text-gray-400">{t('openingBalances.alreadyPosted')}</span>}
+                    </span>
+                    <span className="tabular-nums text-gray-700 dark:text-gray-300">{formatAmount(account.balance, account.currency)}</span>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+
+          {lines.length > 0 && (
+            <div>
+              <h3 className="mb-1 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">{t('openingBalances.preview')}</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                    <th className="px-3 py-1.5 text-left font-medium">{t('journal.account')}</th>
+                    <th className="px-3 py-1.5 text-right font-medium">{t('journal.debit')}</th>
+                    <th className="px-3 py-1.5 text-right font-medium">{t('journal.credit')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => {
+                    const formatted = formatAmount(line.amount, line.currency);
+                    return (
+                      <tr key={line.accountId} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                        <td className="px-3 py-1.5">{labelOf(line.accountId)}</td>
+                        <td className="px-3 py-1.5 text-right tabular-nums">{line.side === 'debit' && formatted}</td>
+                        <td className="px-3 py-1.5 text-right tabular-nums">{line.side === 'credit' && formatted}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      )}
+    </Modal>
+  );
+};
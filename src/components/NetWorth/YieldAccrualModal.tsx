@@ -0,0 +1,253 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Percent } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useAccountStore } from '../../stores/accountStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { usePeriodStore } from '../../stores/periodStore';
+import { useYieldAccrualStore } from '../../stores/yieldAccrualStore';
+import { YieldAccruals, YIELD_FREQUENCIES, YIELD_METHODS } from '../../domain/yieldAccrual';
+import type { YieldFrequency, YieldMethod, YieldTerms } from '../../domain/yieldAccrual';
+import { getTodayLocalString } from '../../utils/dateFormat';
+
+interface YieldAccrualModalProps {
+  // Rendered with a key per account, so the form starts from that account's terms
+  accountId: string | null;
+  onClose: () => void;
+}
+
+interface TermsDraft {
+  method: YieldMethod;
+  frequency: YieldFrequency;
+  startDate: string;
+  principal: string;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+const toDraft = (terms: YieldTerms | undefined, balance: number): TermsDraft => ({
+  method: terms?.method ?? 'compound',
+  frequency: terms?.frequency ?? 'monthly',
+  startDate: terms?.startDate ?? getTodayLocalString(),
+  principal: String(terms?.principal ?? (balance > 0 ? balance : '')),
+});
+
+const fromDraft = (draft: TermsDraft): YieldTerms => ({
+  method: draft.method,
+  frequency: draft.frequency,
+  startDate: draft.startDate,
+  principal: draft.method === 'simple' ? parseFloat(draft.principal) || 0 : undefined,
+});
+
+export const YieldAccrualModal: React.FC<YieldAccrualModalProps> = ({ accountId, onClose }) => {
+  const { t } = useTranslation();
+  const account = useAccountStore((state) => state.accounts.find((item) => item.id === accountId));
+  const updateAccount = useAccountStore((state) => state.updateAccount);
+  const allAccruals = useYieldAccrualStore((state) => state.accruals);
+  const postAccruals = useYieldAccrualStore((state) => state.postAccruals);
+  const undoAccrual = useYieldAccrualStore((state) => state.undoAccrual);
+  const isClosed = usePeriodStore((state) => state.isClosed);
+  const { formatAmount } = useCurrencyStore();
+
+  const [draft, setDraft] = useState<TermsDraft>(() => toDraft(account?.yieldTerms, account?.balance ?? 0));
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  if (!account) return null;
+
+  const today = getTodayLocalString();
+  const rate = account.estimatedYield ?? 0;
+  const accruals = allAccruals.filter((accrual) => accrual.accountId === account.id);
+  const accruedThrough = accruals.reduce<string | null>(
+    (latest, accrual) => (!latest || accrual.periodEnd > latest ? accrual.periodEnd : latest),
+    null
+  );
+  const latestPosted = accruals
+    .filter((accrual) => accrual.status === 'posted')
+    .reduce<string | null>((latest, accrual) => (!latest || accrual.periodEnd > latest ? accrual.periodEnd : latest), null);
+
+  const terms = fromDraft(draft);
+  const termsError = YieldAccruals.validate(terms);
+  // Preview follows the form, so the effect of new terms shows before saving
+  const lines = termsError
+    ? []
+    : YieldAccruals.plan(terms, rate, Math.round(account.balance * 100), accruedThrough, today)
+        .filter((line) => !isClosed(line.periodEnd));
+  const money = (cents: number) => formatAmount(cents / 100, account.currency);
+
+  const setField = <K extends keyof TermsDraft>(field: K, value: TermsDraft[K]) =>
+    setDraft((current) => ({ ...current, [field]: value }));
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    setError(null);
+    setMessage(null);
+    setIsSaving(true);
+    try {
+      await action();
+      if (success) setMessage(success);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('yield.failed'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const postDue = () =>
+    run(async () => {
+      await updateAccount(account.id, { yieldTerms: terms });
+      const posted = await postAccruals(today, [account.id]);
+      setMessage(t('yield.posted', { count: posted }));
+    });
+
+  const footer = (
+    <div className="flex items-center justify-between gap-2">
+      <div>
+        {account.yieldTerms && (
+          <button
+            onClick={() => run(() => updateAccount(account.id, { yieldTerms: undefined }))}
+            disabled={isSaving}
+            className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors disabled:opacity-50"
+          >
+            {t('yield.removeTerms')}
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+        >
+          {t('yield.close')}
+        </button>
+        <button
+          onClick={() => run(() => updateAccount(account.id, { yieldTerms: terms }), t('yield.saved'))}
+          disabled={isSaving || termsError !== null}
+          className="px-3 py-1.5 text-sm font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {t('yield.saveTerms')}
+        </button>
+        <button
+          onClick={postDue}
+          disabled={isSaving || termsError !== null || lines.length === 0}
+          className="px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          {t('yield.post')}
+        </button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={t('yield.title')}
+      description={account.name}
+      icon={<Percent className="w-5 h-5" />}
+      size="lg"
+      footer={footer}
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-300">
+          {rate > 0 ? t('yield.rate', { rate }) : t('yield.noRate')}
+        </p>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex flex-col gap-1">
+            {t('yield.method')}
+            <select value={draft.method} onChange={(e) => setField('method', e.target.value as YieldMethod)} className={inputClass}>
+              {YIELD_METHODS.map((method) => (
+                <option key={method} value={method}>{t(`yield.methods.${method}`)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('yield.frequency')}
+            <select value={draft.frequency} onChange={(e) => setField('frequency', e.target.value as YieldFrequency)} className={inputClass}>
+              {YIELD_FREQUENCIES.map((frequency) => (
+                <option key={frequency} value={frequency}>{t(`yield.frequencies.${frequency}`)}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            {t('yield.startDate')}
+            <input type="date" value={draft.startDate} onChange={(e) => setField('startDate', e.target.value)} className={inputClass} />
+          </label>
+          {draft.method === 'simple' && (
+            <label className="flex flex-col gap-1">
+              {t('yield.principal')}
+              <input type="number" min="0" step="0.01" value={draft.principal} onChange={(e) => setField('principal', e.target.value)} className={inputClass} />
+            </label>
+          )}
+        </div>
+
+        {termsError && <p className="text-sm text-amber-600 dark:text-amber-400">{termsError}</p>}
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{t('yield.due')}</h3>
+          {lines.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('yield.nothingDue')}</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                  <th className="px-2 py-1.5 text-left font-medium">{t('yield.periodEnd')}</th>
+                  <th className="px-2 py-1.5 text-right font-medium">{t('yield.base')}</th>
+                  <th className="px-2 py-1.5 text-right font-medium">{t('yield.interest')}</th>
+                  <th className="px-2 py-1.5 text-right font-medium">{t('yield.balance')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => (
+                  <tr key={line.periodEnd} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                    <td className="px-2 py-1 whitespace-nowrap">{line.periodEnd}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">{money(line.baseCents)}</td>
+                    <td className="px-2 py-1 text-right tabular-nums text-green-600 dark:text-green-400">{money(line.interestCents)}</td>
+                    <td className="px-2 py-1 text-right tabular-nums">{money(line.balanceCents)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
+
+        {accruals.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-semibold text-gray-900 dark:text-white">{t('yield.history')}</h3>
+            <div className="max-h-60 overflow-auto">
+              <table className="w-full text-sm">
+                <tbody>
+                  {[...accruals].reverse().map((accrual) => (
+                    <tr key={accrual.id} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+                      <td className="px-2 py-1 whitespace-nowrap">{accrual.periodEnd}</td>
+                      <td className={`px-2 py-1 text-right tabular-nums ${accrual.status === 'undone' ? 'line-through text-gray-400' : ''}`}>
+                        {formatAmount(accrual.amount, accrual.currency)}
+                      </td>
+                      <td className="px-2 py-1 text-xs text-gray-500 dark:text-gray-400">{t(`yield.status.${accrual.status}`)}</td>
+                      <td className="px-2 py-1 text-right">
+                        {accrual.status === 'posted' && accrual.periodEnd === latestPosted && (
+                          <button
+                            onClick={() => run(() => undoAccrual(accrual.id), t('yield.undone'))}
+                            disabled={isSaving}
+                            className="px-2 py-0.5 text-xs text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded disabled:opacity-40"
+                          >
+                            {t('yield.undo')}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </section>
+        )}
+
+        {message && <p className="text-sm text-green-600 dark:text-green-400">{message}</p>}
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { BarChart3, Tags as TagsIcon } from 'lucide-react';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { getComparativeBalanceSheet, getComparativeIncomeStatement } from '../../selectors/finance';
+import { COMPARATIVE_GRANULARITIES } from '../../domain/comparative';
+import type { ComparativeGranularity, ComparativeSection, ComparativeTotals, Variance } from '../../domain/comparative';
+import { getTodayLocalString } from '../../utils/dateFormat';
+import { TagReportTable } from './TagReportTable';
+import { TagManagerModal } from './TagManagerModal';
+
+type ReportKind = 'income-statement' | 'balance-sheet' | 'tags';
+
+const PERIOD_COUNTS = [2, 3, 4, 6, 12];
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const ReportsPage: React.FC = () => {
+  const { t } = useTranslation();
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  const baseCurrency = useCurrencyStore((state) => state.baseCurrency);
+  // Subscribing recomputes the report when entries or accounts change
+  useLedgerStore((state) => state.transactions);
+  useLedgerStore((state) => state.accounts);
+
+  const [kind, setKind] = useState<ReportKind>('income-statement');
+  const [granularity, setGranularity] = useState<ComparativeGranularity>('month');
+  const [count, setCount] = useState(3);
+  const [endDate, setEndDate] = useState(getTodayLocalString());
+  // The tag report covers a date range instead of comparative periods
+  const [startDate, setStartDate] = useState(`${getTodayLocalString().slice(0, 4)}-01-01`);
+  const [isTagManagerOpen, setIsTagManagerOpen] = useState(false);
+
+  const isIncomeStatement = kind === 'income-statement';
+  const isTagReport = kind === 'tags';
+  const incomeStatement = isIncomeStatement ? getComparativeIncomeStatement(endDate, granularity, count) : null;
+  const balanceSheet = kind === 'balance-sheet' ? getComparativeBalanceSheet(endDate, granularity, count) : null;
+  const report = incomeStatement ?? balanceSheet;
+
+  const format = (cents: number) => formatAmount(cents / 100, report?.currency ?? baseCurrency);
+  // The variance columns compare the last period with the one before it
+  const latestVariance = (totals: ComparativeTotals): Variance | null => totals.variances[totals.variances.length - 1] ?? null;
+
+  const amountCells = (totals: ComparativeTotals) => {
+    const variance = latestVariance(totals);
+    return (
+      <>
+        {totals.amounts.map((amount, index) => (
+          <td key={index} className="px-3 py-1.5 text-right tabular-nums">{format(amount)}</td>
+        ))}
+        <td className="px-3 py-1.5 text-right tabular-nums text-gray-500 dark:text-gray-400">{variance ? format(variance.absoluteCents) : '—'}</td>
+        <td className="px-3 py-1.5 text-right tabular-nums text-gray-500 dark:text-gray-400">
+          {variance?.percent != null ? `${variance.percent > 0 ? '+' : ''}${variance.percent.toFixed(1)}%` : '—'}
+        </td>
+        {isIncomeStatement && (
+          <td className="px-3 py-1.5 text-right tabular-nums border-l border-gray-200 dark:border-gray-700">
+            {format(totals.ttmCents ?? 0)}
+          </td>
+        )}
+      </>
+    );
+  };
+
+  const renderTotal = (label: string, totals: ComparativeTotals) => (
+    <tr key={label} className="border-b border-gray-200 dark:border-gray-700 font-semibold text-gray-900 dark:text-white">
+      <td className="px-3 py-1.5">{label}</td>
+      {amountCells(totals)}
+    </tr>
+  );
+
+  const columnCount = (report?.periods.length ?? 0) + 3 + (isIncomeStatement ? 1 : 0);
+
+  const renderSection = (title: string, section: ComparativeSection) => (
+    <React.Fragment key={title}>
+      <tr className="bg-gray-50 dark:bg-gray-700/50">
+        <td colSpan={columnCount} className="px-3 py-1.5 text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+          {title}
+        </td>
+      </tr>
+      {section.lines.map((line) => (
+        <tr key={line.accountId} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+          <td className="px-3 py-1.5">
+            <span className="text-xs text-gray-500 dark:text-gray-400 mr-2">{line.accountCode}</span>
+            {line.accountName}
+          </td>
+          {amountCells(line)}
+        </tr>
+      ))}
+      {renderTotal(t('reports.total', { section: title }), section.totals)}
+    </React.Fragment>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm p-4 sm:p-5 border border-gray-200 dark:border-gray-700">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-3">
+            <BarChart3 className="w-6 h-6 text-blue-600 dark:text-blue-400" />
+            <div>
+              <h1 className="text-xl font-semibold text-gray-900 dark:text-white">{t('reports.title')}</h1>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t('reports.description')}</p>
+            </div>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <select value={kind} onChange={(e) => setKind(e.target.value as ReportKind)} className={inputClass}>
+              <option value="income-statement">{t('reports.incomeStatement')}</option>
+              <option value="balance-sheet">{t('reports.balanceSheet')}</option>
+              <option value="tags">{t('tags.report')}</option>
+            </select>
+            {isTagReport ? (
+              <>
+                <input
+                  type="date"
+                  value={startDate}
+                  onChange={(e) => e.target.value && setStartDate(e.target.value)}
+                  className={inputClass}
+                  aria-label={t('tags.startDate')}
+                />
+                <span className="text-gray-400">–</span>
+              </>
+            ) : (
+              <>
+                <select
+                  value={granularity}
+                  onChange={(e) => setGranularity(e.target.value as ComparativeGranularity)}
+                  className={inputClass}
+                  aria-label={t('reports.granularity')}
+                >
+                  {COMPARATIVE_GRANULARITIES.map((item) => (
+                    <option key={item} value={item}>{t(`reports.granularities.${item}`)}</option>
+                  ))}
+                </select>
+                <select value={count} onChange={(e) => setCount(Number(e.target.value))} className={inputClass} aria-label={t('reports.periods')}>
+                  {PERIOD_COUNTS.map((item) => (
+                    <option key={item} value={item}>{t('reports.periodCount', { count: item })}</option>
+                  ))}
+                </select>
+              </>
+            )}
+            <input
+              type="date"
+              value={endDate}
+              onChange={(e) => e.target.value && setEndDate(e.target.value)}
+              className={inputClass}
+              aria-label={t('reports.endDate')}
+            />
+            {isTagReport && (
+              <button
+                onClick={() => setIsTagManagerOpen(true)}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+              >
+                <TagsIcon className="w-3.5 h-3.5" />
+                {t('tags.manage')}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-xl shadow-sm border border-gray-200 dark:border-gray-700 overflow-x-auto">
+        {report ? (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+                <th className="px-3 py-2 text-left font-medium">{t('reports.account')}</th>
+                {report.periods.map((period) => (
+                  <th key={period.label} className="px-3 py-2 text-right font-medium whitespace-nowrap">{period.label}</th>
+                ))}
+                <th className="px-3 py-2 text-right font-medium">{t('reports.change')}</th>
+                <th className="px-3 py-2 text-right font-medium">{t('reports.changePercent')}</th>
+                {incomeStatement && (
+                  <th
+                    className="px-3 py-2 text-right font-medium border-l border-gray-200 dark:border-gray-700"
+                    title={`${incomeStatement.trailingTwelveMonths.startDate} – ${incomeStatement.trailingTwelveMonths.endDate}`}
+                  >
+                    {t('reports.ttm')}
+                  </th>
+                )}
+              </tr>
+            </thead>
+            <tbody>
+              {incomeStatement && (
+                <>
+                  {renderSection(t('reports.income'), incomeStatement.income)}
+                  {renderSection(t('reports.expenses'), incomeStatement.expenses)}
+                  {renderTotal(t('reports.netIncome'), incomeStatement.netIncome)}
+                </>
+              )}
+              {balanceSheet && (
+                <>
+                  {renderSection(t('reports.assets'), balanceSheet.assets)}
+                  {renderSection(t('reports.liabilities'), balanceSheet.liabilities)}
+                  {renderSection(t('reports.equity'), balanceSheet.equity)}
+                  {renderTotal(t('reports.netWorth'), balanceSheet.netWorth)}
+                </>
+              )}
+            </tbody>
+          </table>
+        ) : (
+          <TagReportTable startDate={startDate} endDate={endDate} />
+        )}
+      </div>
+
+      <TagManagerModal isOpen={isTagManagerOpen} onClose={() => setIsTagManagerOpen(false)} />
+    </div>
+  );
+};
@@ -0,0 +1,164 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Merge, Plus, Tags as TagsIcon, Trash2 } from 'lucide-react';
+import { Modal } from '../Shared/Modal';
+import { useTagStore } from '../../stores/tagStore';
+import type { Tag } from '../../types';
+
+interface TagManagerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const inputClass =
+  'px-2 py-1 text-sm rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const TagManagerModal: React.FC<TagManagerModalProps> = ({ isOpen, onClose }) => {
+  const { t } = useTranslation();
+  const tags = useTagStore((state) => state.tags);
+  const addTag = useTagStore((state) => state.addTag);
+  const updateTag = useTagStore((state) => state.updateTag);
+  const mergeTags = useTagStore((state) => state.mergeTags);
+  const deleteTag = useTagStore((state) => state.deleteTag);
+
+  const [newName, setNewName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedTags = [...tags].sort((a, b) => a.name.localeCompare(b.name));
+  const selectedTags = sortedTags.filter((tag) => selectedIds.includes(tag.id));
+  const targetId = selectedIds.includes(mergeTargetId) ? mergeTargetId : selectedTags[0]?.id ?? '';
+
+  const attempt = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('tags.failed'));
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    attempt(async () => {
+      await addTag(newName);
+      setNewName('');
+    });
+  };
+
+  const handleRename = (tag: Tag, name: string) => {
+    if (name.trim() && name !== tag.name) {
+      attempt(() => updateTag(tag.id, { name }));
+    }
+  };
+
+  const handleDelete = (tag: Tag) => {
+    if (window.confirm(t('tags.confirmDelete', { name: tag.name }))) {
+      attempt(async () => {
+        await deleteTag(tag.id);
+        setSelectedIds((ids) => ids.filter((id) => id !== tag.id));
+      });
+    }
+  };
+
+  const handleMerge = () => {
+    attempt(async () => {
+      await mergeTags(targetId, selectedIds);
+      setSelectedIds([]);
+    });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((item) => item !== id) : [...ids, id]));
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('tags.manage')}
+      description={t('tags.manageDescription')}
+      icon={<TagsIcon className="w-5 h-5" />}
+      size="lg"
+    >
+      <form onSubmit={handleAdd} className="flex items-center gap-2 mb-4">
+        <input
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          maxLength={50}
+          placeholder={t('tags.newPlaceholder')}
+          className={`${inputClass} flex-1`}
+        />
+        <button
+          type="submit"
+          disabled={!newName.trim()}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-3.5 h-3.5" />
+          {t('tags.add')}
+        </button>
+      </form>
+
+      {sortedTags.length === 0 ? (
+        <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">{t('tags.empty')}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700 mb-4">
+          {sortedTags.map((tag) => (
+            <li key={tag.id} className="flex items-center gap-2 py-1.5">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(tag.id)}
+                onChange={() => toggleSelected(tag.id)}
+                aria-label={t('tags.select', { name: tag.name })}
+              />
+              <input
+                type="color"
+                value={tag.color}
+                onChange={(e) => attempt(() => updateTag(tag.id, { color: e.target.value }))}
+                aria-label={t('tags.color', { name: tag.name })}
+                className="w-7 h-7 p-0 border-0 bg-transparent cursor-pointer"
+              />
+              {/* Keyed by name so a rejected rename resets the field */}
+              <input
+                key={tag.name}
+                defaultValue={tag.name}
+                maxLength={50}
+                onBlur={(e) => handleRename(tag, e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className={`${inputClass} flex-1`}
+              />
+              <button
+                onClick={() => handleDelete(tag)}
+                aria-label={t('tags.delete', { name: tag.name })}
+                className="p-1.5 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {selectedTags.length > 1 && (
+        <div className="flex flex-wrap items-center gap-2 mb-3 text-sm text-gray-600 dark:text-gray-300">
+          {t('tags.mergeInto')}
+          <select value={targetId} onChange={(e) => setMergeTargetId(e.target.value)} className={inputClass}>
+            {selectedTags.map((tag) => (
+              <option key={tag.id} value={tag.id}>{tag.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleMerge}
+            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 border border-blue-200 dark:border-blue-800 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-lg transition-colors"
+          >
+            <Merge className="w-3.5 h-3.5" />
+            {t('tags.merge', { count: selectedTags.length })}
+          </button>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </Modal>
+  );
+};
@@ -0,0 +1,60 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { useExpenseStore } from '../../stores/expenseStore';
+import { useIncomeStore } from '../../stores/incomeStore';
+import { useTagStore } from '../../stores/tagStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { getTagReport } from '../../selectors/finance';
+
+interface TagReportTableProps {
+  startDate: string;
+  endDate: string;
+}
+
+export const TagReportTable: React.FC<TagReportTableProps> = ({ startDate, endDate }) => {
+  const { t } = useTranslation();
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  // Subscribing recomputes the report when entries or tags change
+  useExpenseStore((state) => state.expenses);
+  useIncomeStore((state) => state.incomes);
+  useTagStore((state) => state.tags);
+
+  const report = getTagReport(startDate, endDate);
+  const format = (cents: number) => formatAmount(cents / 100, report.currency);
+
+  if (report.lines.length === 0) {
+    return <p className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">{t('tags.reportEmpty')}</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="border-b border-gray-200 dark:border-gray-700 text-xs text-gray-500 dark:text-gray-400">
+          <th className="px-3 py-2 text-left font-medium">{t('tags.tag')}</th>
+          <th className="px-3 py-2 text-right font-medium">{t('reports.expenses')}</th>
+          <th className="px-3 py-2 text-right font-medium">{t('reports.income')}</th>
+          <th className="px-3 py-2 text-right font-medium">{t('tags.net')}</th>
+          <th className="px-3 py-2 text-right font-medium">{t('tags.entries')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {report.lines.map((line) => (
+          <tr key={line.tag} className="border-b border-gray-100 dark:border-gray-700 text-gray-700 dark:text-gray-300">
+            <td className="px-3 py-1.5">
+              <span className="inline-flex items-center gap-2">
+                <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: line.color ?? '#6b7280' }} />
+                {line.tag}
+              </span>
+            </td>
+            <td className="px-3 py-1.5 text-right tabular-nums">{format(line.expenseCents)}</td>
+            <td className="px-3 py-1.5 text-right tabular-nums">{format(line.incomeCents)}</td>
+            <td className={`px-3 py-1.5 text-right tabular-nums ${line.netCents < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+              {format(line.netCents)}
+            </td>
+            <td className="px-3 py-1.5 text-right tabular-nums text-gray-500 dark:text-gray-400">{line.entryCount}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+};
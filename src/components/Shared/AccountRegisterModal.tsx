@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Lock, ScrollText } from 'lucide-react';
+import { Modal } from './Modal';
+import { useLedgerStore } from '../../stores/ledgerStore';
+import { useAccountStore } from '../../stores/accountStore';
+import { useSnapshotStore } from '../../stores/snapshotStore';
+import { useCurrencyStore } from '../../stores/currencyStore';
+import { getLedgerAccountRegister, getNetWorthAccountRegister } from '../../selectors/finance';
+import { formatDate } from '../../utils/dateFormat';
+
+export interface RegisterTarget {
+  kind: 'ledger' | 'networth';
+  accountId: string;
+  name: string;
+}
+
+interface AccountRegisterModalProps {
+  target: RegisterTarget | null;
+  onClose: () => void;
+}
+
+const dateInputClass =
+  'px-2 py-1 text-xs rounded border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white';
+
+export const AccountRegisterModal: React.FC<AccountRegisterModalProps> = ({ target, onClose }) => {
+  const { t } = useTranslation();
+  const formatAmount = useCurrencyStore((state) => state.formatAmount);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  // Subscribing re-renders the register when its source data changes
+  useLedgerStore((state) => state.transactions);
+  useAccountStore((state) => state.accounts);
+  useSnapshotStore((state) => state.snapshots);
+
+  useEffect(() => {
+    if (target) {
+      setDateFrom('');
+      setDateTo('');
+    }
+  }, [target]);
+
+  if (!target) return null;
+
+  const range = { from: dateFrom || undefined, to: dateTo || undefined };
+  const register = target.kind === 'ledger'
+    ? getLedgerAccountRegister(target.accountId, range)
+    : getNetWorthAccountRegister(target.accountId, range);
+  const format = (cents: number) => formatAmount(cents / 100, register.currency);
+
+  const summary = [
+    { label: t('register.opening'), cents: register.openingBalanceCents },
+    { label: t('register.increases'), cents: register.increasesCents },
+    { label: t('register.decreases'), cents: -register.decreasesCents },
+    { label: t('register.closing'), cents: register.closingBalanceCents },
+  ];
+
+  return (
+    <Modal
+      isOpen={target !== null}
+      onClose={onClose}
+      title={t('register.title', { name: target.name })}
+      description={t(target.kind === 'ledger' ? 'register.ledgerDescription' : 'register.netWorthDescription')}
+      icon={<ScrollText className="w-5 h-5" />}
+      size="xl"
+    >
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <label className="text-xs text-gray-500 dark:text-gray-400">{t('register.from')}</label>
+        <input type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} className={dateInputClass} />
+        <label className="text-xs text-gray-500 dark:text-gray-400">{t('register.to')}</label>
+        <input type="date" value={dateTo} onChange={(e) => setDateTo(e.target.value)} className={dateInputClass} />
+      </div>
+
+      <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4">
+        {summary.map((item) => (
+          <div key={item.label} className="rounded-lg bg-gray-50 dark:bg-gray-700/50 px-3 py-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400">{item.label}</p>
+            <p className="text-sm font-semibold tabular-nums text-gray-900 dark:text-white">{format(item.cents)}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="overflow-y-auto max-h-[400px]">
+        {register.entries.length === 0 ? (
+          <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">{t('register.empty')}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-gray-50 dark:bg-gray-700 text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium w-24">{t('register.date')}</th>
+                <th className="px-3 py-2 text-left font-medium">{t('register.description')}</th>
+                <th className="px-3 py-2 text-right font-medium w-32">{t('register.amount')}</th>
+                <th className="px-3 py-2 text-right font-medium w-32">{t('register.balance')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {register.entries.map((entry) => (
+                <tr key={entry.id} className="border-b border-gray-100 dark:border-gray-700">
+                  <td className="px-3 py-1.5 text-gray-600 dark:text-gray-300">{formatDate(entry.date)}</td>
+                  <td className="px-3 py-1.5 text-gray-900 dark:text-white">
+                    {entry.description || t(`register.sources.${entry.source ?? 'posting'}`)}
+                    {entry.reference && (
+                      <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{entry.reference}</span>
+                    )}
+                    {entry.reconciled && (
+                      <Lock className="inline w-3 h-3 ml-2 text-gray-400" aria-label={t('register.reconciled')} />
+                    )}
+                  </td>
+                  <td className={`px-3 py-1.5 text-right tabular-nums ${entry.amountCents < 0 ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+                    {format(entry.amountCents)}
+                  </td>
+                  <td className="px-3 py-1.5 text-right tabular-nums text-gray-900 dark:text-white">{format(entry.balanceCents)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </Modal>
+  );
+};
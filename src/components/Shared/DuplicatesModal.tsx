@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Copy, Trash2, Check } from 'lucide-react';
+import { Modal, modalButtonStyles } from './Modal';
+
+export interface DuplicateEntry {
+  id: string;
+  date: string;
+  description: string;
+  amount: number;
+  currency: string;
+}
+
+interface DuplicatesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entityName: string; // e.g., "expenses", "income"
+  groups: DuplicateEntry[][]; // Each group is ordered oldest first
+  formatAmount: (amount: number, currency: string) => string;
+  onDelete: (ids: string[]) => Promise<void>;
+}
+
+export const DuplicatesModal: React.FC<DuplicatesModalProps> = ({
+  isOpen,
+  onClose,
+  entityName,
+  groups,
+  formatAmount,
+  onDelete,
+}) => {
+  const { t } = useTranslation();
+  const [deletingIds, setDeletingIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = async (ids: string[]) => {
+    setDeletingIds(ids);
+    setError(null);
+    try {
+      await onDelete(ids);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete');
+    } finally {
+      setDeletingIds([]);
+    }
+  };
+
+  const isBusy = deletingIds.length > 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={t('duplicates.title', { entity: entityName })}
+      description={t('duplicates.description')}
+      icon={<Copy className="w-5 h-5" />}
+      size="lg"
+      footer={
+        <button onClick={onClose} className={modalButtonStyles.secondary}>
+          {t('duplicates.done')}
+        </button>
+      }
+    >
+      {error && (
+        <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {groups.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+          <Check className="w-10 h-10 mx-auto mb-3 text-green-500" />
+          <p className="text-sm">{t('duplicates.none', { entity: entityName })}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {t('duplicates.groupCount', { count: groups.length })}
+          </p>
+          {groups.map((group) => (
+            <div
+              key={group.map((entry) => entry.id).join('|')}
+              className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden"
+            >
+              <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+                {group.map((entry) => (
+                  <li key={entry.id} className="flex items-center gap-3 px-3 py-2 text-sm">
+                    <span className="w-24 flex-shrink-0 text-gray-500 dark:text-gray-400">{entry.date}</span>
+                    <span className="flex-1 truncate text-gray-800 dark:text-gray-200" title={entry.description}>
+                      {entry.description}
+                    </span>
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {formatAmount(entry.amount, entry.currency)}
+                    </span>
+                    <button
+                      onClick={() => handleDelete([entry.id])}
+                      disabled={isBusy}
+                      className="p-1 rounded text-gray-400 hover:text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 disabled:opacity-50 transition-colors"
+                      title={t('delete')}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+              <div className="flex justify-end px-3 py-2 bg-gray-50 dark:bg-gray-700/50">
+                <button
+                  onClick={() => handleDelete(group.slice(1).map((entry) => entry.id))}
+                  disabled={isBusy}
+                  className="text-xs font-medium text-blue-600 dark:text-blue-400 hover:underline disabled:opacity-50"
+                >
+                  {t('duplicates.keepFirst')}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -1,18 +1,34 @@
 import React, { useState, useRef, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { useTranslation } from 'react-i18next';
-import { X, Download, Upload, FileText, Check, AlertCircle, Info, Lock } from 'lucide-react';
+import { X, Download, Upload, FileText, Check, AlertCircle, Info, Lock, Copy } from 'lucide-react';
 import type { XLSXTemplateType } from '../../utils/xlsx';
 import {
   getXLSXTemplateInfo,
   downloadXLSXTemplate,
 } from '../../utils/xlsx';
+import { isBankStatementFile, readBankStatementFile } from '../../utils/bankStatement';
+import type { BankStatementFormat, BankStatementLine } from '../../utils/bankStatement';
 import { useAuthStore } from '../../stores/authStore';
 
+export interface DuplicateMatch {
+  id?: string; // Existing entry the row duplicates; absent when it repeats an earlier row in the file
+  label: string; // Shown in the preview, e.g. "2025-01-05 · Starbucks · 12.50 USD"
+}
+
+export type DuplicateAction = 'skip' | 'merge' | 'import';
+
+export interface ImportMerge {
+  row: Record<string, string>;
+  targetId: string;
+}
+
 export interface ParsedRow {
   data: Record<string, string>;
   isValid: boolean;
   errors: string[];
+  duplicate?: DuplicateMatch;
+  duplicateAction?: DuplicateAction;
 }
 
 export interface ImportModalProps {
@@ -22,7 +38,21 @@ export interface ImportModalProps {
   entityName: string; // e.g., "expenses", "income", "accounts"
   parseFile: (file: File) => Promise<{ data: Record<string, string>[]; errors: string[] }>;
   validateRow: (row: Record<string, string>, index: number) => { isValid: boolean; errors: string[] };
-  onImport: (rows: Record<string, string>[]) => Promise<{ success: boolean; message: string; count?: number }>;
+  onImport: (
+    rows: Record<string, string>[],
+    merges?: ImportMerge[]
+  ) => Promise<{ success: boolean; message: string; count?: number }>;
+  // Maps OFX/QFX/CAMT.053 statement lines to template rows; bank files are rejected when omitted
+  mapStatementLines?: (lines: BankStatementLine[]) => Record<string, string>[];
+  // Flags likely duplicates of existing entries or of earlier rows; flagged rows are skipped unless the user chooses otherwise
+  findDuplicate?: (row: Record<string, string>, previousRows: Record<string, string>[]) => DuplicateMatch | null;
+}
+
+interface StatementSummary {
+  format: BankStatementFormat;
+  accountId?: string;
+  lineCount: number;
+  skippedCount: number; // Lines that don't apply to this entity (e.g. credits when importing expenses)
 }
 
 type Tab = 'template' | 'upload' | 'preview';
@@ -35,6 +65,8 @@ export const ImportModal: React.FC<ImportModalProps> = ({
   parseFile,
   validateRow,
   onImport,
+  mapStatementLines,
+  findDuplicate,
 }) => {
   const { t } = useTranslation();
   const [activeTab, setActiveTab] = useState<Tab>('template');
@@ -45,6 +77,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({
   const [isImporting, setIsImporting] = useState(false);
   const [isParsing, setIsParsing] = useState(false);
   const [importResult, setImportResult] = useState<{ success: boolean; message: string } | null>(null);
+  const [statementSummary, setStatementSummary] = useState<StatementSummary | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const { canImport } = useAuthStore();
@@ -60,6 +93,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     setIsImporting(false);
     setIsParsing(false);
     setImportResult(null);
+    setStatementSummary(null);
   }, []);
 
   const handleClose = useCallback(() => {
@@ -67,10 +101,29 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     onClose();
   }, [onClose, resetState]);
 
+  // Bank statements are parsed here and mapped into the page's template rows
+  const parseStatementFile = useCallback(async (
+    file: File,
+    mapLines: (lines: BankStatementLine[]) => Record<string, string>[]
+  ): Promise<{ data: Record<string, string>[]; errors: string[] }> => {
+    const { statement, errors } = await readBankStatementFile(file);
+    if (!statement) return { data: [], errors };
+
+    const data = mapLines(statement.lines);
+    setStatementSummary({
+      format: statement.format,
+      accountId: statement.accountId,
+      lineCount: statement.lines.length,
+      skippedCount: statement.lines.length - data.length,
+    });
+    return { data, errors };
+  }, []);
+
   const processFile = useCallback(async (file: File) => {
     const fileName = file.name.toLowerCase();
-    if (!fileName.endsWith('.xlsx') && !fileName.endsWith('.xls')) {
-      setParseErrors([t('import.excelError')]);
+    const isStatement = !!mapStatementLines && isBankStatementFile(fileName);
+    if (!isStatement && !fileName.endsWith('.xlsx') && !fileName.endsWith('.xls')) {
+      setParseErrors([mapStatementLines ? t('import.fileTypeError') : t('import.excelError')]);
       setActiveTab('preview');
       return;
     }
@@ -78,9 +131,12 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     setIsParsing(true);
     setParseErrors([]);
     setParsedRows([]);
+    setStatementSummary(null);
 
     try {
-      const { data, errors } = await parseFile(file);
+      const { data, errors } = isStatement
+        ? await parseStatementFile(file, mapStatementLines)
+        : await parseFile(file);
 
       if (errors.length > 0 && data.length === 0) {
         setParseErrors(errors);
@@ -99,6 +155,20 @@ export const ImportModal: React.FC<ImportModalProps> = ({
         };
       });
 
+      // Flag likely duplicates among valid rows
+      if (findDuplicate) {
+        const previousRows: Record<string, string>[] = [];
+        validatedRows.forEach((row) => {
+          if (!row.isValid) return;
+          const duplicate = findDuplicate(row.data, previousRows);
+          if (duplicate) {
+            row.duplicate = duplicate;
+            row.duplicateAction = 'skip';
+          }
+          previousRows.push(row.data);
+        });
+      }
+
       setParsedRows(validatedRows);
       setParseErrors(errors);
       setActiveTab('preview');
@@ -108,7 +178,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     } finally {
       setIsParsing(false);
     }
-  }, [parseFile, validateRow, t]);
+  }, [parseFile, parseStatementFile, mapStatementLines, validateRow, findDuplicate, t]);
 
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -138,19 +208,25 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     downloadXLSXTemplate(templateType);
   }, [templateType]);
 
-  const handleImport = useCallback(async () => {
-    const rowsToImport = skipInvalid
-      ? parsedRows.filter(r => r.isValid).map(r => r.data)
-      : parsedRows.map(r => r.data);
+  const handleDuplicateAction = useCallback((rowIdx: number, action: DuplicateAction) => {
+    setParsedRows(rows => rows.map((row, idx) => (idx === rowIdx ? { ...row, duplicateAction: action } : row)));
+  }, []);
+
+  const selectedRows = skipInvalid ? parsedRows.filter(r => r.isValid) : parsedRows;
+  const rowsToImport = selectedRows.filter(r => !r.duplicate || r.duplicateAction === 'import');
+  const rowsToMerge = selectedRows.filter(r => r.duplicate?.id && r.duplicateAction === 'merge');
 
-    if (rowsToImport.length === 0) {
+  const handleImport = useCallback(async () => {
+    if (rowsToImport.length === 0 && rowsToMerge.length === 0) {
       setImportResult({ success: false, message: t('import.noValidRows') });
       return;
     }
 
+    const merges: ImportMerge[] = rowsToMerge.map(r => ({ row: r.data, targetId: r.duplicate!.id! }));
+
     setIsImporting(true);
     try {
-      const result = await onImport(rowsToImport);
+      const result = await onImport(rowsToImport.map(r => r.data), merges.length > 0 ? merges : undefined);
       setImportResult(result);
       if (result.success) {
         // Close modal after successful import
@@ -164,10 +240,11 @@ export const ImportModal: React.FC<ImportModalProps> = ({
     } finally {
       setIsImporting(false);
     }
-  }, [parsedRows, skipInvalid, onImport, handleClose, t]);
+  }, [rowsToImport, rowsToMerge, onImport, handleClose, t]);
 
   const validCount = parsedRows.filter(r => r.isValid).length;
   const invalidCount = parsedRows.filter(r => !r.isValid).length;
+  const duplicateCount = parsedRows.filter(r => r.isValid && r.duplicate).length;
 
   if (!isOpen) return null;
 
@@ -365,13 +442,13 @@ export const ImportModal: React.FC<ImportModalProps> = ({
               <input
                 ref={fileInputRef}
                 type="file"
-                accept=".xlsx,.xls"
+                accept={mapStatementLines ? '.xlsx,.xls,.ofx,.qfx,.xml' : '.xlsx,.xls'}
                 onChange={handleFileSelect}
                 className="hidden"
               />
 
               <div className="text-center text-xs text-gray-500 dark:text-gray-400">
-                <p>{t('import.supportedFormats')}</p>
+                <p>{mapStatementLines ? t('import.supportedFormatsStatements') : t('import.supportedFormats')}</p>
                 <p className="mt-1">
                   {t('import.needTemplate')}{' '}
                   <button
@@ -403,6 +480,25 @@ export const ImportModal: React.FC<ImportModalProps> = ({
                 </div>
               )}
 
+              {/* Bank Statement Summary */}
+              {statementSummary && (
+                <div className="flex items-start gap-2 p-3 bg-blue-50 dark:bg-blue-900/20 rounded-lg">
+                  <Info className="w-4 h-4 text-blue-500 flex-shrink-0 mt-0.5" />
+                  <div className="text-xs text-blue-700 dark:text-blue-300 space-y-0.5">
+                    <p>
+                      {t('import.statementLoaded', {
+                        format: statementSummary.format === 'ofx' ? 'OFX/QFX' : 'CAMT.053',
+                        count: statementSummary.lineCount,
+                      })}
+                      {statementSummary.accountId && ` (${statementSummary.accountId})`}
+                    </p>
+                    {statementSummary.skippedCount > 0 && (
+                      <p>{t('import.statementSkipped', { count: statementSummary.skippedCount, entity: entityName })}</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
               {/* Summary */}
               {parsedRows.length > 0 && (
                 <div className="flex items-center gap-4 text-sm">
@@ -417,6 +513,21 @@ export const ImportModal: React.FC<ImportModalProps> = ({
                       {t('import.invalidRows', { count: invalidCount })}
                     </span>
                   )}
+                  {duplicateCount > 0 && (
+                    <span className="text-amber-700 dark:text-amber-400">
+                      {t('import.duplicateRows', { count: duplicateCount })}
+                    </span>
+                  )}
+                </div>
+              )}
+
+              {/* Duplicate Hint */}
+              {duplicateCount > 0 && (
+                <div className="flex items-start gap-2 p-3 bg-amber-50 dark:bg-amber-900/20 rounded-lg">
+                  <Copy className="w-4 h-4 text-amber-500 flex-shrink-0 mt-0.5" />
+                  <p className="text-xs text-amber-700 dark:text-amber-300">
+                    {t('import.duplicatesHint')}
+                  </p>
                 </div>
               )}
 
@@ -447,7 +558,7 @@ export const ImportModal: React.FC<ImportModalProps> = ({
                         <tr
                           key={rowIdx}
                           className={`border-b border-gray-100 dark:border-gray-700 last:border-0 ${
-                            !row.isValid ? 'bg-red-50/50 dark:bg-red-900/10' : ''
+                            !row.isValid ? 'bg-red-50/50 dark:bg-red-900/10' : row.duplicate ? 'bg-amber-50/50 dark:bg-amber-900/10' : ''
                           }`}
                         >
                           <td className="px-2 py-1.5 text-gray-500 dark:text-gray-500">
@@ -463,7 +574,23 @@ export const ImportModal: React.FC<ImportModalProps> = ({
                             </td>
                           ))}
                           <td className="px-2 py-1.5">
-                            {row.isValid ? (
+                            {row.isValid && row.duplicate ? (
+                              <div
+                                className="flex items-center gap-1"
+                                title={t('import.duplicateOf', { label: row.duplicate.label })}
+                              >
+                                <Copy className="w-4 h-4 text-amber-500 flex-shrink-0" />
+                                <select
+                                  value={row.duplicateAction}
+                                  onChange={(e) => handleDuplicateAction(rowIdx, e.target.value as DuplicateAction)}
+                                  className="text-xs bg-transparent border border-gray-200 dark:border-gray-600 rounded px-1 py-0.5 text-gray-700 dark:text-gray-300"
+                                >
+                                  <option value="skip">{t('import.duplicateSkip')}</option>
+                                  {row.duplicate.id && <option value="merge">{t('import.duplicateMerge')}</option>}
+                                  <option value="import">{t('import.duplicateImport')}</option>
+                                </select>
+                              </div>
+                            ) : row.isValid ? (
                               <Check className="w-4 h-4 text-green-500" />
                             ) : (
                               <span
@@ -549,10 +676,10 @@ export const ImportModal: React.FC<ImportModalProps> = ({
             {activeTab === 'preview' && parsedRows.length > 0 && userCanImport && (
               <button
                 onClick={handleImport}
-                disabled={isImporting || (skipInvalid && validCount === 0)}
+                disabled={isImporting || (rowsToImport.length === 0 && rowsToMerge.length === 0)}
                 className="px-4 py-2 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:bg-blue-400 disabled:cursor-not-allowed rounded-lg transition-colors"
               >
-                {isImporting ? t('import.importing') : t('import.importCount', { count: skipInvalid ? validCount : parsedRows.length, entity: entityName })}
+                {isImporting ? t('import.importing') : t('import.importCount', { count: rowsToImport.length + rowsToMerge.length, entity: entityName })}
               </button>
             )}
             {activeTab === 'template' && (
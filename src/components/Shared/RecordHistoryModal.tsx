@@ -0,0 +1,117 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { History, RotateCcw } from 'lucide-react';
+import { Modal } from './Modal';
+import { useHistoryStore } from '../../stores/historyStore';
+import { RecordHistory } from '../../domain/history';
+import type { HistoryTable } from '../../domain/history';
+
+export interface HistoryTarget {
+  table: HistoryTable;
+  recordId: string;
+  name: string;
+}
+
+interface RecordHistoryModalProps {
+  target: HistoryTarget | null;
+  onClose: () => void;
+  // Applies the restored field values through the record's own store
+  onRestore: (recordId: string, values: Record<string, unknown>) => Promise<unknown>;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) {
+    return value.every((item) => typeof item !== 'object') ? value.join(', ') : JSON.stringify(value);
+  }
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const RecordHistoryModal: React.FC<RecordHistoryModalProps> = ({ target, onClose, onRestore }) => {
+  const { t } = useTranslation();
+  // Subscribing refreshes the list when a fetch or a restore records new entries
+  useHistoryStore((state) => state.entries);
+  const loading = useHistoryStore((state) => state.loading);
+  const fetchHistory = useHistoryStore((state) => state.fetchHistory);
+  const getHistory = useHistoryStore((state) => state.getHistory);
+
+  const [error, setError] = useState<string | null>(null);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setError(null);
+    if (target) {
+      fetchHistory(target.table, target.recordId);
+    }
+  }, [target, fetchHistory]);
+
+  if (!target) return null;
+
+  const history = getHistory(target.table, target.recordId);
+
+  const restore = async (entryId: string) => {
+    const values = RecordHistory.restorePatch(history, entryId);
+    if (!values) return;
+
+    setError(null);
+    setRestoringId(entryId);
+    try {
+      await onRestore(target.recordId, values);
+      await fetchHistory(target.table, target.recordId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('history.restoreFailed'));
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen
+      onClose={onClose}
+      title={t('history.title')}
+      description={target.name}
+      icon={<History className="w-5 h-5" />}
+      size="lg"
+    >
+      {history.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{loading ? t('history.loading') : t('history.empty')}</p>
+      ) : (
+        <ol className="space-y-3">
+          {history.map((entry) => (
+            <li key={entry.id} className="rounded-lg border border-gray-200 dark:border-gray-700">
+              <div className="flex items-center justify-between gap-3 px-3 py-1.5 border-b border-gray-100 dark:border-gray-700">
+                <span className="text-xs text-gray-500 dark:text-gray-400">{new Date(entry.changedAt).toLocaleString()}</span>
+                <button
+                  onClick={() => restore(entry.id)}
+                  disabled={restoringId !== null}
+                  title={t('history.restoreHint')}
+                  className="inline-flex items-center gap-1 px-2 py-1 text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md transition-colors disabled:opacity-50"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  {t('history.restore')}
+                </button>
+              </div>
+              <table className="w-full text-sm">
+                <tbody>
+                  {entry.changes.map((change) => (
+                    <tr key={change.field} className="text-gray-700 dark:text-gray-300">
+                      <td className="px-3 py-1 w-1/3 text-gray-500 dark:text-gray-400">
+                        {t(`history.fields.${change.field}`, { defaultValue: change.field })}
+                      </td>
+                      <td className="px-3 py-1 line-through text-gray-400 dark:text-gray-500 break-all">{formatValue(change.before)}</td>
+                      <td className="px-3 py-1 break-all">{formatValue(change.after)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {error && <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>}
+    </Modal>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useId, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Tag as TagIcon, X } from 'lucide-react';
+import { useTagStore } from '../../stores/tagStore';
+import { Tags } from '../../domain/tags';
+import { formStyles } from '../../styles/formStyles';
+
+interface TagPickerProps {
+  label: string;
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Untagged names (e.g. from imports) are shown in gray
+const FALLBACK_COLOR = '#6b7280';
+
+export const TagPicker: React.FC<TagPickerProps> = ({ label, value, onChange }) => {
+  const { t } = useTranslation();
+  const listId = useId();
+  const tags = useTagStore((state) => state.tags);
+  const getTagByName = useTagStore((state) => state.getTagByName);
+  const addTag = useTagStore((state) => state.addTag);
+
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Picking an unknown name creates the tag so it can be renamed and merged later
+  const commit = async () => {
+    const name = Tags.normalize(draft);
+    if (!name) return;
+    setError(null);
+    try {
+      if (!getTagByName(name)) {
+        await addTag(name);
+      }
+      if (!value.includes(name)) {
+        onChange([...value, name]);
+      }
+      setDraft('');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('tags.failed'));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      commit();
+    } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <label className={formStyles.label.base}>
+        <TagIcon className="w-4 h-4 text-gray-600 dark:text-gray-400" />
+        {label}
+      </label>
+      <div className="flex flex-wrap items-center gap-1.5">
+        {value.map((name) => (
+          <span
+            key={name}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs text-white"
+            style={{ backgroundColor: getTagByName(name)?.color ?? FALLBACK_COLOR }}
+          >
+            {name}
+            <button
+              type="button"
+              onClick={() => onChange(value.filter((tag) => tag !== name))}
+              aria-label={t('tags.remove', { name })}
+              className="hover:opacity-75"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        ))}
+        <input
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+          onBlur={commit}
+          list={listId}
+          maxLength={50}
+          placeholder={t('tags.placeholder')}
+          className={`${formStyles.input.base} flex-1 min-w-[8rem]`}
+        />
+        <datalist id={listId}>
+          {tags
+            .filter((tag) => !value.includes(tag.name))
+            .map((tag) => (
+              <option key={tag.id} value={tag.name} />
+            ))}
+        </datalist>
+      </div>
+      {error && <p className={formStyles.error}>{error}</p>}
+    </div>
+  );
+};
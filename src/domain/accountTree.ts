@@ -0,0 +1,123 @@
+// Hierarchical chart of accounts: accounts nest under a parent of the same nature
+// and reports roll balances up into subtotals at every level. The leading digit
+// of an account code identifies its nature.
+import type { AccountNature } from './ledger';
+
+export interface TreeAccount {
+  id: string;
+  code: string;
+  nature: AccountNature;
+  parentId?: string | null;
+}
+
+export interface AccountTreeNode<T extends TreeAccount> {
+  account: T;
+  depth: number; // 0 for top-level accounts
+  children: AccountTreeNode<T>[];
+}
+
+// Leading digits allowed per nature; 5 to 9 are all expense classes
+export const CODE_PREFIXES: Record<AccountNature, string[]> = {
+  asset: ['1'],
+  liability: ['2'],
+  equity: ['3'],
+  income: ['4'],
+  expense: ['5', '6', '7', '8', '9'],
+};
+
+const CODE_PATTERN = /^\d{4,10}$/;
+
+export class AccountTree {
+  /**
+   * Error message for a code outside its nature's range, or null when valid
+   */
+  static validateCode(code: string, nature: AccountNature): string | null {
+    if (!CODE_PATTERN.test(code)) {
+      return 'Account code must be 4 to 10 digits';
+    }
+    const prefixes = CODE_PREFIXES[nature];
+    if (!prefixes.includes(code[0])) {
+      const range = prefixes.length === 1 ? prefixes[0] : `${prefixes[0]}-${prefixes[prefixes.length - 1]}`;
+      return `${nature[0].toUpperCase()}${nature.slice(1)} account codes must start with ${range}`;
+    }
+    return null;
+  }
+
+  /**
+   * Error message when `parentId` cannot hold the account, or null when valid.
+   * `accountId` is null for an account that does not exist yet.
+   */
+  static validateParent(
+    accounts: TreeAccount[],
+    accountId: string | null,
+    parentId: string | null | undefined,
+    nature: AccountNature
+  ): string | null {
+    if (!parentId) return null;
+
+    const byId = new Map(accounts.map((account) => [account.id, account]));
+    const parent = byId.get(parentId);
+    if (!parent) {
+      return 'Parent account not found';
+    }
+    if (parent.nature !== nature) {
+      return 'Parent account must have the same nature';
+    }
+
+    // Walk up from the new parent; meeting the account itself would close a loop
+    for (let current: TreeAccount | undefined = parent; current; current = current.parentId ? byId.get(current.parentId) : undefined) {
+      if (current.id === accountId) {
+        return 'An account cannot be moved under itself or one of its sub-accounts';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Nested trees sorted by code. Accounts whose parent is missing become top-level.
+   */
+  static build<T extends TreeAccount>(accounts: T[]): AccountTreeNode<T>[] {
+    const ids = new Set(accounts.map((account) => account.id));
+    const childrenOf = new Map<string | null, T[]>();
+    for (const account of accounts) {
+      const key = account.parentId && ids.has(account.parentId) ? account.parentId : null;
+      childrenOf.set(key, [...(childrenOf.get(key) ?? []), account]);
+    }
+
+    const grow = (parentId: string | null, depth: number, seen: Set<string>): AccountTreeNode<T>[] =>
+      (childrenOf.get(parentId) ?? [])
+        .filter((account) => !seen.has(account.id))
+        .sort((a, b) => a.code.localeCompare(b.code))
+        .map((account) => ({
+          account,
+          depth,
+          children: grow(account.id, depth + 1, new Set(seen).add(account.id)),
+        }));
+
+    return grow(null, 0, new Set());
+  }
+
+  /**
+   * Depth-first list of nodes, parents before children. Children of collapsed ids are skipped.
+   */
+  static flatten<T extends TreeAccount>(nodes: AccountTreeNode<T>[], collapsed: Set<string> = new Set()): AccountTreeNode<T>[] {
+    return nodes.flatMap((node) => [
+      node,
+      ...(collapsed.has(node.account.id) ? [] : AccountTree.flatten(node.children, collapsed)),
+    ]);
+  }
+
+  /**
+   * Each account's own amount plus that of all its sub-accounts
+   */
+  static rollup<T extends TreeAccount>(nodes: AccountTreeNode<T>[], amounts: Map<string, number>): Map<string, number> {
+    const subtotals = new Map<string, number>();
+    const visit = (node: AccountTreeNode<T>): number => {
+      const subtotal = node.children.reduce((sum, child) => sum + visit(child), amounts.get(node.account.id) ?? 0);
+      subtotals.set(node.account.id, subtotal);
+      return subtotal;
+    };
+    nodes.forEach(visit);
+    return subtotals;
+  }
+}
@@ -0,0 +1,203 @@
+// Loan amortization: the monthly payment for a fixed-rate loan and the schedule
+// that splits each payment into interest and principal until the loan is paid off.
+// Extra payments go straight to principal, so they shorten the schedule rather
+// than lowering the payment. Amounts are worked in cents so every row adds up.
+import type { JournalLine } from './journal';
+import type { TransactionStatus } from './reversal';
+
+export const INTEREST_EXPENSE_CODE = '5800';
+export const INTEREST_EXPENSE_NAME = 'Interest Expense';
+
+// Tag on the ledger entry for each posted payment
+export const LOAN_PAYMENT_TAG = 'loan-payment';
+
+const MAX_TERM_MONTHS = 600;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface ExtraPayment {
+  date: string; // YYYY-MM-DD; paid with the first payment on or after it
+  amount: number; // Major units
+}
+
+export interface LoanTerms {
+  principal: number; // Amount borrowed, major units
+  annualRate: number; // Percent, e.g. 9.5
+  termMonths: number;
+  startDate: string; // YYYY-MM-DD; the first payment falls a month later
+  extraMonthly?: number; // Extra principal paid with every payment
+  extraPayments?: ExtraPayment[]; // One-off prepayments
+}
+
+export interface AmortizationRow {
+  period: number; // 1-based
+  date: string; // YYYY-MM-DD
+  paymentCents: number; // Interest plus principal plus extra
+  interestCents: number;
+  principalCents: number; // Scheduled principal
+  extraCents: number; // Extra principal paid this period
+  balanceCents: number; // Remaining after the payment
+}
+
+export interface AmortizationSchedule {
+  paymentCents: number; // Scheduled monthly payment, without extras
+  rows: AmortizationRow[];
+  totalInterestCents: number;
+  totalPaidCents: number;
+  payoffDate: string | null;
+  monthsSaved: number; // Against the full term, from extra payments
+}
+
+export interface LoanPaymentAccounts {
+  loanAccountId: string; // Liability reduced by the principal
+  interestAccountId: string; // Expense charged with the interest
+  cashAccountId: string; // Asset the payment comes out of
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export class Amortization {
+  /**
+   * Error message for terms that cannot produce a schedule, or null when they can
+   */
+  static validate(terms: LoanTerms): string | null {
+    if (!Number.isFinite(terms.principal) || terms.principal <= 0) {
+      return 'Principal must be greater than zero';
+    }
+    if (!Number.isFinite(terms.annualRate) || terms.annualRate < 0 || terms.annualRate >= 100) {
+      return 'Interest rate must be between 0 and 100';
+    }
+    if (!Number.isInteger(terms.termMonths) || terms.termMonths < 1 || terms.termMonths > MAX_TERM_MONTHS) {
+      return `Term must be between 1 and ${MAX_TERM_MONTHS} months`;
+    }
+    if (!DATE_PATTERN.test(terms.startDate)) {
+      return 'Start date is required';
+    }
+    if (terms.extraMonthly !== undefined && (!Number.isFinite(terms.extraMonthly) || terms.extraMonthly < 0)) {
+      return 'Extra monthly payment cannot be negative';
+    }
+    const invalidExtra = (terms.extraPayments ?? []).some(
+      (extra) => !DATE_PATTERN.test(extra.date) || !Number.isFinite(extra.amount) || extra.amount <= 0
+    );
+    if (invalidExtra) {
+      return 'Extra payments need a date and an amount greater than zero';
+    }
+    return null;
+  }
+
+  /**
+   * Level monthly payment that repays the principal over the term
+   */
+  static monthlyPaymentCents(principalCents: number, annualRate: number, termMonths: number): number {
+    const rate = annualRate / 100 / 12;
+    if (rate === 0) {
+      return Math.ceil(principalCents / termMonths);
+    }
+    return Math.round((principalCents * rate) / (1 - Math.pow(1 + rate, -termMonths)));
+  }
+
+  /**
+   * Date of the nth payment, a month apart from the start; short months use their last day
+   */
+  static paymentDate(startDate: string, period: number): string {
+    const [year, month, day] = startDate.split('-').map(Number);
+    const index = month - 1 + period;
+    const paymentYear = year + Math.floor(index / 12);
+    const paymentMonth = index % 12;
+    const lastDay = new Date(Date.UTC(paymentYear, paymentMonth + 1, 0)).getUTCDate();
+    return `${paymentYear}-${pad(paymentMonth + 1)}-${pad(Math.min(day, lastDay))}`;
+  }
+
+  /**
+   * Full schedule until the balance reaches zero. The final payment absorbs rounding.
+   */
+  static schedule(terms: LoanTerms): AmortizationSchedule {
+    const rate = terms.annualRate / 100 / 12;
+    const paymentCents = Amortization.monthlyPaymentCents(Math.round(terms.principal * 100), terms.annualRate, terms.termMonths);
+    const extraMonthlyCents = Math.round((terms.extraMonthly ?? 0) * 100);
+
+    const rows: AmortizationRow[] = [];
+    let balance = Math.round(terms.principal * 100);
+    let previousDate = terms.startDate;
+
+    for (let period = 1; balance > 0 && period <= terms.termMonths; period++) {
+      const date = Amortization.paymentDate(terms.startDate, period);
+      const interestCents = Math.round(balance * rate);
+      const principalCents = period === terms.termMonths ? balance : Math.min(paymentCents - interestCents, balance);
+
+      // The first period also takes extra payments made on the start date
+      const oneOffCents = (terms.extraPayments ?? [])
+        .filter((extra) => (period === 1 ? extra.date >= previousDate : extra.date > previousDate) && extra.date <= date)
+        .reduce((sum, extra) => sum + Math.round(extra.amount * 100), 0);
+      const extraCents = Math.min(extraMonthlyCents + oneOffCents, balance - principalCents);
+
+      balance -= principalCents + extraCents;
+      rows.push({
+        period,
+        date,
+        paymentCents: interestCents + principalCents + extraCents,
+        interestCents,
+        principalCents,
+        extraCents,
+        balanceCents: balance,
+      });
+      previousDate = date;
+    }
+
+    return {
+      paymentCents,
+      rows,
+      totalInterestCents: rows.reduce((sum, row) => sum + row.interestCents, 0),
+      totalPaidCents: rows.reduce((sum, row) => sum + row.paymentCents, 0),
+      payoffDate: rows.length > 0 ? rows[rows.length - 1].date : null,
+      monthsSaved: terms.termMonths - rows.length,
+    };
+  }
+
+  /**
+   * Reference on the ledger entry for a posted payment, one per loan and period
+   */
+  static reference(netWorthAccountId: string, period: number): string {
+    return `loan:${netWorthAccountId}:${period}`;
+  }
+
+  /**
+   * Periods already in the ledger; voided or reversed payments can be posted again
+   */
+  static postedPeriods(
+    transactions: Array<{ reference?: string; status?: TransactionStatus; reversedById?: string }>,
+    netWorthAccountId: string
+  ): Set<number> {
+    const prefix = `loan:${netWorthAccountId}:`;
+    return new Set(
+      transactions
+        .filter((tx) => tx.reference?.startsWith(prefix) && tx.status !== 'voided' && !tx.reversedById)
+        .map((tx) => Number(tx.reference!.slice(prefix.length)))
+    );
+  }
+
+  /**
+   * Journal lines for one payment: principal reduces the loan, interest is an
+   * expense, and the whole payment comes out of the cash account
+   */
+  static toJournalLines(
+    row: AmortizationRow,
+    accounts: LoanPaymentAccounts,
+    currency: string,
+    exchangeRate?: number
+  ): JournalLine[] {
+    const line = (accountId: string, side: JournalLine['side'], cents: number): JournalLine => ({
+      accountId,
+      side,
+      amount: cents / 100,
+      currency,
+      exchangeRate,
+    });
+
+    const lines = [line(accounts.loanAccountId, 'debit', row.principalCents + row.extraCents)];
+    if (row.interestCents > 0) {
+      lines.push(line(accounts.interestAccountId, 'debit', row.interestCents));
+    }
+    lines.push(line(accounts.cashAccountId, 'credit', row.paymentCents));
+    return lines;
+  }
+}
@@ -0,0 +1,135 @@
+// Credit card statement cycles: each cycle closes on the card's closing day and
+// its statement balance falls due a grace period later. Paying the statement in
+// full by then avoids interest; paying only the minimum leaves the rest to accrue
+// at the card's APR. Card activity comes from the linked ledger account: charges
+// raise what is owed, payments and refunds lower it.
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_GRACE_DAYS = 60;
+
+export const DEFAULT_MIN_PAYMENT_PERCENT = 5;
+
+export interface CardTerms {
+  closingDay: number; // 1-31; short months close on their last day
+  graceDays: number; // Days from closing to the payment due date
+  apr: number; // Annual percentage rate, e.g. 45
+  minPaymentPercent: number; // Of the statement balance
+  minPaymentFloor?: number; // Major units; the minimum is never lower unless the statement is
+}
+
+export interface CardCycle {
+  start: string; // YYYY-MM-DD, the day after the previous closing
+  closing: string;
+  due: string;
+}
+
+export interface CardActivity {
+  date: string; // YYYY-MM-DD
+  amountCents: number; // Positive for charges, negative for payments and refunds
+}
+
+export interface CardStatement {
+  cycle: CardCycle; // The latest closed cycle
+  statementCents: number; // Owed at closing
+  paidCents: number; // Paid since closing
+  paymentToAvoidInterestCents: number; // Still to pay by the due date
+  minimumPaymentCents: number; // Still to pay by the due date to stay current
+  interestIfMinimumCents: number; // Next cycle's interest when only the minimum is paid
+  currentBalanceCents: number; // Owed today, including charges after closing
+  isPaid: boolean;
+  lastPaymentDate: string | null; // Latest payment since closing
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toDateString = (date: Date) =>
+  `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`;
+
+const addDays = (date: string, days: number): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return toDateString(new Date(Date.UTC(year, month - 1, day + days)));
+};
+
+export class CardCycles {
+  /**
+   * Error message for terms that cannot produce a statement, or null when they can
+   */
+  static validate(terms: CardTerms): string | null {
+    if (!Number.isInteger(terms.closingDay) || terms.closingDay < 1 || terms.closingDay > 31) {
+      return 'Closing day must be between 1 and 31';
+    }
+    if (!Number.isInteger(terms.graceDays) || terms.graceDays < 0 || terms.graceDays > MAX_GRACE_DAYS) {
+      return `Grace period must be between 0 and ${MAX_GRACE_DAYS} days`;
+    }
+    if (!Number.isFinite(terms.apr) || terms.apr < 0 || terms.apr >= 200) {
+      return 'APR must be between 0 and 200';
+    }
+    if (!Number.isFinite(terms.minPaymentPercent) || terms.minPaymentPercent <= 0 || terms.minPaymentPercent > 100) {
+      return 'Minimum payment must be between 0 and 100 percent';
+    }
+    if (terms.minPaymentFloor !== undefined && (!Number.isFinite(terms.minPaymentFloor) || terms.minPaymentFloor < 0)) {
+      return 'Minimum payment floor cannot be negative';
+    }
+    return null;
+  }
+
+  /**
+   * Closing date in a month; month is 0-based and may run past either end of the year
+   */
+  static closingDate(year: number, month: number, closingDay: number): string {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    return toDateString(new Date(Date.UTC(year, month, Math.min(closingDay, lastDay))));
+  }
+
+  /**
+   * The latest cycle to have closed on or before the date
+   */
+  static cycleAsOf(terms: CardTerms, asOf: string): CardCycle {
+    if (!DATE_PATTERN.test(asOf)) {
+      throw new Error(`Invalid date: ${asOf}`);
+    }
+    const [year, month] = asOf.split('-').map(Number);
+    const thisMonth = CardCycles.closingDate(year, month - 1, terms.closingDay);
+    const offset = thisMonth <= asOf ? 0 : -1;
+    const closing = CardCycles.closingDate(year, month - 1 + offset, terms.closingDay);
+    const previous = CardCycles.closingDate(year, month - 2 + offset, terms.closingDay);
+    return { start: addDays(previous, 1), closing, due: addDays(closing, terms.graceDays) };
+  }
+
+  /**
+   * Minimum payment for a statement balance: the percentage, raised to the floor,
+   * never more than the balance itself
+   */
+  static minimumPaymentCents(statementCents: number, terms: CardTerms): number {
+    if (statementCents <= 0) return 0;
+    const percent = Math.round((statementCents * terms.minPaymentPercent) / 100);
+    const floor = Math.round((terms.minPaymentFloor ?? 0) * 100);
+    return Math.min(Math.max(percent, floor), statementCents);
+  }
+
+  /**
+   * Statement for the latest closed cycle, with what is still due as of the date
+   */
+  static statement(terms: CardTerms, activity: CardActivity[], asOf: string): CardStatement {
+    const cycle = CardCycles.cycleAsOf(terms, asOf);
+    const upTo = (date: string) =>
+      activity.filter((item) => item.date <= date).reduce((sum, item) => sum + item.amountCents, 0);
+
+    const statementCents = Math.max(upTo(cycle.closing), 0);
+    const payments = activity.filter((item) => item.amountCents < 0 && item.date > cycle.closing && item.date <= asOf);
+    const paidCents = payments.reduce((sum, item) => sum - item.amountCents, 0);
+    const minimumCents = CardCycles.minimumPaymentCents(statementCents, terms);
+
+    return {
+      cycle,
+      statementCents,
+      paidCents,
+      paymentToAvoidInterestCents: Math.max(statementCents - paidCents, 0),
+      minimumPaymentCents: Math.max(minimumCents - paidCents, 0),
+      interestIfMinimumCents: Math.round(((statementCents - minimumCents) * terms.apr) / 100 / 12),
+      currentBalanceCents: upTo(asOf),
+      isPaid: paidCents >= statementCents,
+      lastPaymentDate: payments.reduce<string | null>((latest, item) => (!latest || item.date > latest ? item.date : latest), null),
+    };
+  }
+}
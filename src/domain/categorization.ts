@@ -0,0 +1,196 @@
+// User-defined rules that categorize expenses
+
+import type { ExpenseRating } from '../types';
+
+export interface CategorizationConditions {
+  descriptionPattern?: string | null; // Case-insensitive regular expression
+  minAmount?: number | null; // Inclusive
+  maxAmount?: number | null; // Inclusive
+  currency?: string | null;
+  accountId?: string | null; // Funding account (ledger account the expense is paid from)
+}
+
+export interface CategorizationActions {
+  category?: string | null;
+  subcategory?: string | null;
+  rating?: ExpenseRating | null;
+  recurring?: boolean | null;
+}
+
+export interface CategorizationRule extends CategorizationConditions, CategorizationActions {
+  id: string;
+  name: string;
+  priority: number; // Lower runs first; the first matching rule wins
+  enabled: boolean;
+}
+
+export interface CategorizableExpense {
+  description: string;
+  amount: number;
+  currency: string;
+  accountId?: string | null;
+}
+
+export interface CategorizationResult {
+  ruleId: string;
+  ruleName: string;
+  category?: string;
+  subcategory?: string;
+  rating?: ExpenseRating;
+  recurring?: boolean;
+  confidence: number;
+  explanation: string;
+}
+
+export const MAX_PATTERN_LENGTH = 200;
+
+// Descriptions are matched on their first characters only, which bounds the work per match
+export const MAX_MATCHED_TEXT_LENGTH = 500;
+
+const hasValue = <T>(value: T | null | undefined): value is T => value !== null && value !== undefined && value !== '';
+
+interface PatternGroup {
+  repeats: boolean; // Holds a quantifier that repeats (*, +, {n,} or {n,m} with m > 1)
+  lastRepeated: string | null; // Source of the repeated atom just before, if nothing fixed followed it
+}
+
+/**
+ * Why a pattern could take exponential or polynomial time to fail a match, or null.
+ * A repeated group holding a repeated atom, e.g. (a+)+, and back-to-back repeats of
+ * atoms that match the same text, e.g. a*a* or .*.*, are the shapes that backtrack.
+ */
+function unsafeQuantifier(pattern: string): string | null {
+  const groups: PatternGroup[] = [{ repeats: false, lastRepeated: null }];
+  let atom: { source: string; repeats: boolean } | null = null;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const group = groups[groups.length - 1];
+    const char = pattern[i];
+    const quantifier = /^(?:[*+?]|\{(\d+)(,(\d*))?\})/.exec(pattern.slice(i));
+
+    if (quantifier && atom) {
+      const [token, , comma, upper] = quantifier;
+      const repeats = token === '*' || token === '+' || (comma !== undefined && (upper === '' || Number(upper) > 1));
+      if (repeats) {
+        if (atom.repeats) return 'Pattern nests repeated quantifiers, e.g. (a+)+';
+        const previous = group.lastRepeated;
+        if (previous !== null && (previous === atom.source || previous === '.' || atom.source === '.')) {
+          return 'Pattern repeats overlapping quantifiers back to back, e.g. a*a*';
+        }
+        group.repeats = true;
+        group.lastRepeated = atom.source;
+      }
+      i += token.length - 1;
+      if (pattern[i + 1] === '?') i++; // Lazy quantifier
+      atom = null;
+      continue;
+    }
+
+    // An atom that is not repeated ends any back-to-back run
+    if (atom) group.lastRepeated = null;
+    atom = null;
+
+    if (char === '\\') {
+      atom = { source: pattern.slice(i, i + 2), repeats: false };
+      i++;
+    } else if (char === '[') {
+      let end = i + 1;
+      if (pattern[end] === '^') end++;
+      if (pattern[end] === ']') end++;
+      while (end < pattern.length && pattern[end] !== ']') end += pattern[end] === '\\' ? 2 : 1;
+      atom = { source: pattern.slice(i, end + 1), repeats: false };
+      i = end;
+    } else if (char === '(') {
+      groups.push({ repeats: false, lastRepeated: null });
+    } else if (char === ')' && groups.length > 1) {
+      const closed = groups.pop()!;
+      if (closed.repeats) groups[groups.length - 1].repeats = true;
+      atom = { source: '()', repeats: closed.repeats };
+    } else if (char === '|') {
+      group.lastRepeated = null;
+    } else if (char !== '^' && char !== '$') {
+      atom = { source: char, repeats: false };
+    }
+  }
+  return null;
+}
+
+export class CategorizationEngine {
+  /**
+   * Error message for an invalid description pattern, or null when it compiles
+   * and cannot backtrack without bound
+   */
+  static validatePattern(pattern: string): string | null {
+    if (pattern.length > MAX_PATTERN_LENGTH) {
+      return `Pattern must be at most ${MAX_PATTERN_LENGTH} characters`;
+    }
+    try {
+      new RegExp(pattern, 'i');
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid pattern';
+    }
+    return unsafeQuantifier(pattern);
+  }
+
+  /**
+   * Whether a rule has at least one condition and at least one action
+   */
+  static isComplete(rule: CategorizationConditions & CategorizationActions): boolean {
+    const hasCondition = [rule.descriptionPattern, rule.minAmount, rule.maxAmount, rule.currency, rule.accountId].some(hasValue);
+    const hasAction = [rule.category, rule.subcategory, rule.rating, rule.recurring].some(hasValue);
+    return hasCondition && hasAction;
+  }
+
+  /**
+   * Whether every condition of a rule holds for an expense.
+   * Invalid patterns never match; long descriptions are matched on their start.
+   */
+  static matches(rule: CategorizationConditions, expense: CategorizableExpense): boolean {
+    if (hasValue(rule.descriptionPattern)) {
+      if (CategorizationEngine.validatePattern(rule.descriptionPattern)) return false;
+      const description = expense.description.slice(0, MAX_MATCHED_TEXT_LENGTH);
+      if (!new RegExp(rule.descriptionPattern, 'i').test(description)) return false;
+    }
+    if (hasValue(rule.minAmount) && expense.amount < rule.minAmount) return false;
+    if (hasValue(rule.maxAmount) && expense.amount > rule.maxAmount) return false;
+    if (hasValue(rule.currency) && rule.currency.toUpperCase() !== expense.currency.toUpperCase()) return false;
+    if (hasValue(rule.accountId) && rule.accountId !== expense.accountId) return false;
+    return true;
+  }
+
+  /**
+   * The actions of the first enabled rule (by priority) matching an expense,
+   * or null when none matches
+   */
+  static categorize(rules: CategorizationRule[], expense: CategorizableExpense): CategorizationResult | null {
+    const rule = [...rules]
+      .filter((candidate) => candidate.enabled)
+      .sort((a, b) => a.priority - b.priority)
+      .find((candidate) => CategorizationEngine.matches(candidate, expense));
+
+    if (!rule) return null;
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      category: hasValue(rule.category) ? rule.category : undefined,
+      subcategory: hasValue(rule.subcategory) ? rule.subcategory : undefined,
+      rating: hasValue(rule.rating) ? rule.rating : undefined,
+      recurring: hasValue(rule.recurring) ? rule.recurring : undefined,
+      confidence: 1,
+      explanation: `Matched rule "${rule.name}"`,
+    };
+  }
+}
+
+// Starter rules equivalent to the keyword categorization the API server used to hardcode
+export const DEFAULT_CATEGORIZATION_RULES: Omit<CategorizationRule, 'id' | 'enabled'>[] = [
+  { name: 'Coffee', priority: 10, descriptionPattern: 'coffee|starbucks|dunkin', category: 'Food & Dining', subcategory: 'Coffee & Tea' },
+  { name: 'Ride share', priority: 20, descriptionPattern: 'uber|lyft|taxi', category: 'Transportation', subcategory: 'Ride Share' },
+  { name: 'Retail', priority: 30, descriptionPattern: 'amazon|walmart|target', category: 'Shopping', subcategory: 'General' },
+  { name: 'Restaurants', priority: 40, descriptionPattern: 'restaurant|food|lunch|dinner', category: 'Food & Dining', subcategory: 'Restaurants' },
+  { name: 'Housing', priority: 50, descriptionPattern: 'rent|mortgage', category: 'Bills & Utilities', subcategory: 'Rent/Mortgage', rating: 'essential' },
+  { name: 'Fitness', priority: 60, descriptionPattern: 'gym|fitness', category: 'Healthcare', subcategory: 'Fitness' },
+  { name: 'Utilities', priority: 70, descriptionPattern: 'electric|gas|water|utility', category: 'Bills & Utilities', subcategory: 'Utilities', rating: 'essential' },
+  { name: 'Groceries', priority: 80, descriptionPattern: 'grocery|supermarket|market', category: 'Food & Dining', subcategory: 'Groceries', rating: 'essential' },
+];
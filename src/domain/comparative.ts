@@ -0,0 +1,145 @@
+// Comparative statements: the same report over consecutive periods side by side,
+// each column compared with the one before it. Dates are YYYY-MM-DD strings.
+
+export type ComparativeGranularity = 'month' | 'quarter' | 'year';
+
+export const COMPARATIVE_GRANULARITIES: ComparativeGranularity[] = ['month', 'quarter', 'year'];
+
+export interface ComparativePeriod {
+  label: string; // 2026-03, 2026-Q1 or 2026
+  startDate: string;
+  endDate: string;
+}
+
+export interface Variance {
+  absoluteCents: number;
+  percent: number | null; // Null when the previous amount is zero
+}
+
+export interface ComparativeAmount {
+  accountId: string;
+  accountName: string;
+  accountCode: string;
+  amountCents: number;
+}
+
+export interface ComparativeTotals {
+  amounts: number[]; // One per period, oldest first
+  variances: Array<Variance | null>; // Against the previous period; null for the first
+  ttmCents?: number; // Trailing twelve months, for flow statements
+}
+
+export interface ComparativeLine extends ComparativeTotals {
+  accountId: string;
+  accountName: string;
+  accountCode: string;
+}
+
+export interface ComparativeSection {
+  lines: ComparativeLine[];
+  totals: ComparativeTotals;
+}
+
+const MONTHS_PER_PERIOD: Record<ComparativeGranularity, number> = { month: 1, quarter: 3, year: 12 };
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const lastDayOfMonth = (year: number, month: number) => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+// Month index counted from year 0 so periods can be shifted with plain arithmetic
+const toMonthIndex = (year: number, month: number) => year * 12 + (month - 1);
+
+const fromMonthIndex = (index: number) => ({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+
+export class Comparative {
+  /**
+   * The `count` periods ending with the one that contains `endDate`, oldest first
+   */
+  static periods(endDate: string, granularity: ComparativeGranularity, count: number): ComparativePeriod[] {
+    const [year, month] = endDate.split('-').map(Number);
+    const size = MONTHS_PER_PERIOD[granularity];
+    // Quarters and years start on their calendar boundary
+    const lastStart = toMonthIndex(year, month) - ((month - 1) % size);
+
+    return Array.from({ length: count }, (_, index) => {
+      const start = fromMonthIndex(lastStart - (count - 1 - index) * size);
+      const end = fromMonthIndex(lastStart - (count - 1 - index) * size + size - 1);
+      const label =
+        granularity === 'month'
+          ? `${start.year}-${pad(start.month)}`
+          : granularity === 'quarter'
+            ? `${start.year}-Q${Math.ceil(start.month / 3)}`
+            : `${start.year}`;
+      return {
+        label,
+        startDate: `${start.year}-${pad(start.month)}-01`,
+        endDate: `${end.year}-${pad(end.month)}-${pad(lastDayOfMonth(end.year, end.month))}`,
+      };
+    });
+  }
+
+  /**
+   * Twelve whole months ending with the month that contains `endDate`
+   */
+  static trailingTwelveMonths(endDate: string): ComparativePeriod {
+    const [period] = Comparative.periods(endDate, 'month', 12);
+    const [last] = Comparative.periods(endDate, 'month', 1);
+    return { label: 'TTM', startDate: period.startDate, endDate: last.endDate };
+  }
+
+  /**
+   * Change from `previous` to `current`; the percentage is relative to the size of `previous`
+   */
+  static variance(current: number, previous: number): Variance {
+    const absoluteCents = current - previous;
+    const percent = previous === 0 ? null : Math.round((absoluteCents / Math.abs(previous)) * 10000) / 100;
+    return { absoluteCents, percent };
+  }
+
+  /**
+   * Merge per-period account amounts into one line per account, sorted by code.
+   * Accounts missing from a period count as zero there.
+   */
+  static lines(columns: ComparativeAmount[][]): ComparativeLine[] {
+    const byAccount = new Map<string, ComparativeLine>();
+    columns.forEach((column, index) => {
+      for (const amount of column) {
+        const line = byAccount.get(amount.accountId) ?? {
+          accountId: amount.accountId,
+          accountName: amount.accountName,
+          accountCode: amount.accountCode,
+          amounts: columns.map(() => 0),
+          variances: [],
+        };
+        line.amounts[index] += amount.amountCents;
+        byAccount.set(amount.accountId, line);
+      }
+    });
+
+    return [...byAccount.values()]
+      .map((line) => ({ ...line, variances: Comparative.variances(line.amounts) }))
+      .sort((a, b) => a.accountCode.localeCompare(b.accountCode));
+  }
+
+  /**
+   * Column totals across lines
+   */
+  static totals(lines: ComparativeTotals[], periodCount: number): ComparativeTotals {
+    const amounts = Array.from({ length: periodCount }, (_, index) =>
+      lines.reduce((sum, line) => sum + line.amounts[index], 0)
+    );
+    return { amounts, variances: Comparative.variances(amounts) };
+  }
+
+  /**
+   * Column-wise difference of two totals, e.g. income less expenses
+   */
+  static difference(minuend: ComparativeTotals, subtrahend: ComparativeTotals): ComparativeTotals {
+    const amounts = minuend.amounts.map((amount, index) => amount - subtrahend.amounts[index]);
+    return { amounts, variances: Comparative.variances(amounts) };
+  }
+
+  private static variances(amounts: number[]): Array<Variance | null> {
+    return amounts.map((amount, index) => (index === 0 ? null : Comparative.variance(amount, amounts[index - 1])));
+  }
+}
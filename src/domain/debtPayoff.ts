@@ -0,0 +1,167 @@
+// Debt payoff planning: each month every debt accrues interest and gets its
+// minimum payment, and whatever is left of the monthly budget goes to one debt at
+// a time in strategy order, rolling on to the next once it is cleared. Avalanche
+// targets the highest rate first, which costs the least interest; snowball
+// targets the smallest balance first, which clears whole debts soonest.
+
+export type PayoffStrategy = 'avalanche' | 'snowball' | 'custom';
+
+export const PAYOFF_STRATEGIES: PayoffStrategy[] = ['avalanche', 'snowball', 'custom'];
+
+// Fifty years; a plan still running by then never pays off
+const MAX_MONTHS = 600;
+
+export interface PayoffDebt {
+  id: string;
+  name: string;
+  balanceCents: number; // Amount owed
+  annualRate: number; // Percent
+  minimumCents: number; // Required monthly payment
+}
+
+export interface PayoffPayment {
+  debtId: string;
+  paymentCents: number;
+  interestCents: number;
+  balanceCents: number; // After the payment
+}
+
+export interface PayoffMonth {
+  month: number; // 1-based
+  period: string; // YYYY-MM
+  payments: PayoffPayment[]; // Debts still open at the start of the month, in plan order
+}
+
+export interface PayoffDebtResult {
+  debtId: string;
+  name: string;
+  payoffMonth: number | null; // Null when the plan never clears it
+  payoffPeriod: string | null;
+  interestCents: number;
+}
+
+export interface PayoffPlan {
+  strategy: PayoffStrategy;
+  order: string[]; // Debt ids, first target first
+  months: PayoffMonth[];
+  debts: PayoffDebtResult[];
+  totalInterestCents: number;
+  totalPaidCents: number;
+  payoffPeriod: string | null; // Month the last debt clears
+  isComplete: boolean; // False when the budget cannot clear every debt
+}
+
+const addMonths = (period: string, months: number): string => {
+  const [year, month] = period.split('-').map(Number);
+  const index = year * 12 + month - 1 + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+export class DebtPayoff {
+  /**
+   * Error message when the debts and budget cannot be planned, or null when they can
+   */
+  static validate(debts: PayoffDebt[], budgetCents: number): string | null {
+    const open = debts.filter((debt) => debt.balanceCents > 0);
+    if (open.length === 0) {
+      return 'There are no debts to pay off';
+    }
+    if (open.some((debt) => !Number.isFinite(debt.annualRate) || debt.annualRate < 0 || debt.minimumCents < 0)) {
+      return 'Rates and minimum payments cannot be negative';
+    }
+    const minimums = open.reduce((sum, debt) => sum + Math.min(debt.minimumCents, debt.balanceCents), 0);
+    if (!Number.isFinite(budgetCents) || budgetCents <= 0 || budgetCents < minimums) {
+      return 'The monthly budget must cover every minimum payment';
+    }
+    return null;
+  }
+
+  /**
+   * Target order for a strategy. Custom keeps the given order; debts it leaves out follow, avalanche-style.
+   */
+  static order(debts: PayoffDebt[], strategy: PayoffStrategy, customOrder: string[] = []): string[] {
+    const byRate = (a: PayoffDebt, b: PayoffDebt) => b.annualRate - a.annualRate || a.balanceCents - b.balanceCents;
+    const byBalance = (a: PayoffDebt, b: PayoffDebt) => a.balanceCents - b.balanceCents || b.annualRate - a.annualRate;
+
+    if (strategy === 'custom') {
+      const known = customOrder.filter((id) => debts.some((debt) => debt.id === id));
+      const rest = debts.filter((debt) => !known.includes(debt.id)).sort(byRate);
+      return [...known, ...rest.map((debt) => debt.id)];
+    }
+    return [...debts].sort(strategy === 'avalanche' ? byRate : byBalance).map((debt) => debt.id);
+  }
+
+  /**
+   * Month-by-month plan starting with the payment due in `startPeriod` (YYYY-MM)
+   */
+  static plan(
+    debts: PayoffDebt[],
+    budgetCents: number,
+    strategy: PayoffStrategy,
+    startPeriod: string,
+    customOrder: string[] = []
+  ): PayoffPlan {
+    const open = debts.filter((debt) => debt.balanceCents > 0);
+    const order = DebtPayoff.order(open, strategy, customOrder);
+    const byId = new Map(open.map((debt) => [debt.id, debt]));
+    const balances = new Map(open.map((debt) => [debt.id, debt.balanceCents]));
+    const interest = new Map(open.map((debt) => [debt.id, 0]));
+    const paidOff = new Map<string, number>();
+    const months: PayoffMonth[] = [];
+
+    for (let month = 1; month <= MAX_MONTHS && paidOff.size < open.length; month++) {
+      const active = order.filter((id) => !paidOff.has(id));
+      const payments = new Map<string, PayoffPayment>();
+
+      // Interest first, then every minimum
+      let remaining = budgetCents;
+      for (const id of active) {
+        const accrued = Math.round((balances.get(id)! * byId.get(id)!.annualRate) / 100 / 12);
+        const owed = balances.get(id)! + accrued;
+        const payment = Math.min(byId.get(id)!.minimumCents, owed, remaining);
+        remaining -= payment;
+        interest.set(id, interest.get(id)! + accrued);
+        payments.set(id, { debtId: id, paymentCents: payment, interestCents: accrued, balanceCents: owed - payment });
+      }
+
+      // The rest goes to targets in order
+      for (const id of active) {
+        if (remaining <= 0) break;
+        const payment = payments.get(id)!;
+        const extra = Math.min(remaining, payment.balanceCents);
+        payment.paymentCents += extra;
+        payment.balanceCents -= extra;
+        remaining -= extra;
+      }
+
+      for (const payment of payments.values()) {
+        balances.set(payment.debtId, payment.balanceCents);
+        if (payment.balanceCents === 0) paidOff.set(payment.debtId, month);
+      }
+      months.push({ month, period: addMonths(startPeriod, month - 1), payments: active.map((id) => payments.get(id)!) });
+    }
+
+    const results = order.map((id): PayoffDebtResult => {
+      const month = paidOff.get(id) ?? null;
+      return {
+        debtId: id,
+        name: byId.get(id)!.name,
+        payoffMonth: month,
+        payoffPeriod: month === null ? null : addMonths(startPeriod, month - 1),
+        interestCents: interest.get(id)!,
+      };
+    });
+    const isComplete = paidOff.size === open.length;
+
+    return {
+      strategy,
+      order,
+      months,
+      debts: results,
+      totalInterestCents: results.reduce((sum, debt) => sum + debt.interestCents, 0),
+      totalPaidCents: months.reduce((sum, item) => sum + item.payments.reduce((total, payment) => total + payment.paymentCents, 0), 0),
+      payoffPeriod: isComplete && months.length > 0 ? months[months.length - 1].period : null,
+      isComplete,
+    };
+  }
+}
@@ -0,0 +1,111 @@
+// Unrealized FX revaluation: restate the base-currency value of foreign-currency
+// balances at a new rate. Adjustments move only the booked (base) value; the
+// foreign amount held does not change, so revaluation postings carry a zero
+// original amount.
+
+export interface ForeignPosting {
+  accountId: string;
+  currency: string; // Currency of the original amount
+  isDebit: boolean;
+  amountCents: number; // Original amount, in `currency`
+  bookedCents: number; // Base currency value when booked
+}
+
+// Balances are debit-positive so assets and liabilities revalue the same way
+export interface ForeignBalance {
+  accountId: string;
+  currency: string;
+  balanceCents: number; // Foreign amount held
+  bookedBalanceCents: number; // Base currency value carried in the books
+}
+
+export interface RevaluationLine extends ForeignBalance {
+  rate: number; // Base currency units per foreign unit
+  revaluedCents: number; // Base currency value at `rate`
+  adjustmentCents: number; // Positive: debit the account (gain on an asset)
+}
+
+export interface FxRevaluationReport {
+  date: string; // YYYY-MM-DD
+  baseCurrency: string;
+  lines: RevaluationLine[];
+  totalAdjustmentCents: number;
+  transactionId: string | null; // Null when nothing was posted
+}
+
+export interface RevaluationPosting {
+  accountId: string;
+  currency: string;
+  isDebit: boolean;
+  amountCents: number; // Foreign amount; zero on revaluation lines
+  bookedCents: number;
+}
+
+export class FxRevaluation {
+  /**
+   * Foreign-currency balances per account and currency; base-currency postings are ignored
+   */
+  static balances(postings: ForeignPosting[], baseCurrency: string): ForeignBalance[] {
+    const byKey = new Map<string, ForeignBalance>();
+    for (const posting of postings) {
+      if (posting.currency === baseCurrency) continue;
+      const key = `${posting.accountId}:${posting.currency}`;
+      const balance = byKey.get(key) ?? {
+        accountId: posting.accountId,
+        currency: posting.currency,
+        balanceCents: 0,
+        bookedBalanceCents: 0,
+      };
+      const sign = posting.isDebit ? 1 : -1;
+      balance.balanceCents += sign * posting.amountCents;
+      balance.bookedBalanceCents += sign * posting.bookedCents;
+      byKey.set(key, balance);
+    }
+    return [...byKey.values()];
+  }
+
+  /**
+   * Revalue balances at the given rates (base units per foreign unit).
+   * Currencies without a rate are left out.
+   */
+  static revalue(balances: ForeignBalance[], rates: Record<string, number>): RevaluationLine[] {
+    return balances
+      .filter((balance) => rates[balance.currency] > 0)
+      .map((balance) => {
+        const rate = rates[balance.currency];
+        const revaluedCents = Math.round(balance.balanceCents * rate);
+        return { ...balance, rate, revaluedCents, adjustmentCents: revaluedCents - balance.bookedBalanceCents };
+      });
+  }
+
+  /**
+   * Net gain (positive) or loss across all lines
+   */
+  static totalAdjustment(lines: RevaluationLine[]): number {
+    return lines.reduce((sum, line) => sum + line.adjustmentCents, 0);
+  }
+
+  /**
+   * Balanced postings for the adjusting entry; the net goes to the gain/loss account.
+   * Returns an empty list when nothing needs adjusting.
+   */
+  static toPostings(lines: RevaluationLine[], gainLossAccountId: string, baseCurrency: string): RevaluationPosting[] {
+    const adjusted = lines.filter((line) => line.adjustmentCents !== 0);
+    if (adjusted.length === 0) return [];
+
+    const postings: RevaluationPosting[] = adjusted.map((line) => ({
+      accountId: line.accountId,
+      currency: line.currency,
+      isDebit: line.adjustmentCents > 0,
+      amountCents: 0,
+      bookedCents: Math.abs(line.adjustmentCents),
+    }));
+
+    const total = FxRevaluation.totalAdjustment(adjusted);
+    if (total !== 0) {
+      const offset = Math.abs(total);
+      postings.push({ accountId: gainLossAccountId, currency: baseCurrency, isDebit: total < 0, amountCents: offset, bookedCents: offset });
+    }
+    return postings;
+  }
+}
@@ -0,0 +1,119 @@
+// Record history: each edit to an expense, income entry, net worth account or
+// ledger transaction is kept as the list of fields it changed, with the values
+// before and after. The database records edits with a trigger on column names;
+// field names here are the app's camelCase names, so both read the same way.
+// A transaction's postings are compared one by one, so an edit lists only the
+// postings it changed.
+
+export type HistoryTable = 'expenses' | 'income' | 'net_worth_accounts' | 'transactions';
+
+export const HISTORY_TABLES: HistoryTable[] = ['expenses', 'income', 'net_worth_accounts', 'transactions'];
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface HistoryEntry {
+  id: string;
+  table: HistoryTable;
+  recordId: string;
+  changedBy: string | null; // Null for local edits
+  changedAt: string; // ISO timestamp
+  changes: FieldChange[];
+}
+
+// Bookkeeping fields that change on every write; the trigger skips the same columns
+const IGNORED_FIELDS = new Set(['id', 'userId', 'createdAt', 'updatedAt', 'lastUpdated', 'amountCents', 'voidedAt']);
+
+// Field holding a transaction's postings; the trigger on postings records under the same name
+const POSTINGS_FIELD = 'postings';
+
+type Line = Record<string, unknown>;
+
+const isSame = (a: unknown, b: unknown): boolean => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+const isLineList = (value: unknown): value is Line[] =>
+  Array.isArray(value) && value.every((item) => item !== null && typeof item === 'object');
+
+export class RecordHistory {
+  /**
+   * App field name for a column, e.g. exclude_from_total -> excludeFromTotal
+   */
+  static fieldName(column: string): string {
+    return column.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase());
+  }
+
+  /**
+   * Fields that differ between two versions of a record, by field name
+   */
+  static diff(before: object, after: object): FieldChange[] {
+    const previous = before as Record<string, unknown>;
+    const next = after as Record<string, unknown>;
+    return [...new Set([...Object.keys(previous), ...Object.keys(next)])]
+      .filter((field) => !IGNORED_FIELDS.has(RecordHistory.fieldName(field)) && !isSame(previous[field], next[field]))
+      .sort()
+      .map((field) => {
+        const [was, is] = [previous[field], next[field]];
+        return field === POSTINGS_FIELD && isLineList(was) && isLineList(is)
+          ? RecordHistory.postingChanges(was, is)
+          : { field, before: was ?? null, after: is ?? null };
+      });
+  }
+
+  /**
+   * The postings an edit changed, matched by id: before holds the old version of
+   * each changed or removed posting, after the new version of each changed or added one
+   */
+  static postingChanges(before: Line[], after: Line[]): FieldChange {
+    const previous = new Map(before.map((posting) => [posting.id, posting]));
+    const next = new Map(after.map((posting) => [posting.id, posting]));
+    return {
+      field: POSTINGS_FIELD,
+      before: before.filter((posting) => !isSame(posting, next.get(posting.id))),
+      after: after.filter((posting) => !isSame(posting, previous.get(posting.id))),
+    };
+  }
+
+  /**
+   * Changes as stored by the trigger, {column: {before, after}}, by field name
+   */
+  static fromColumns(changes: unknown): FieldChange[] {
+    if (!changes || typeof changes !== 'object') return [];
+    return Object.entries(changes as Record<string, { before?: unknown; after?: unknown }>)
+      .map(([column, change]) => {
+        const field = RecordHistory.fieldName(column);
+        // Posting columns are read by field name too
+        const read = (value: unknown) =>
+          field === POSTINGS_FIELD && isLineList(value)
+            ? value.map((posting) =>
+                Object.fromEntries(Object.entries(posting).map(([key, item]) => [RecordHistory.fieldName(key), item]))
+              )
+            : value ?? null;
+        return { field, before: read(change?.before), after: read(change?.after) };
+      })
+      .filter((change) => !IGNORED_FIELDS.has(change.field))
+      .sort((a, b) => a.field.localeCompare(b.field));
+  }
+
+  /**
+   * Field values that put a record back the way it was before the given edit,
+   * undoing it and every later one. `entries` is the record's history, newest first.
+   * Posting changes list only some postings, so they are shown but not restored.
+   * Null when the edit is not in the history.
+   */
+  static restorePatch(entries: HistoryEntry[], entryId: string): Record<string, unknown> | null {
+    const index = entries.findIndex((entry) => entry.id === entryId);
+    if (index === -1) return null;
+
+    // Walking back from the newest edit, the oldest value seen for a field wins
+    const patch: Record<string, unknown> = {};
+    for (const entry of entries.slice(0, index + 1)) {
+      for (const change of entry.changes.filter((item) => item.field !== POSTINGS_FIELD)) {
+        patch[change.field] = change.before;
+      }
+    }
+    return patch;
+  }
+}
@@ -0,0 +1,304 @@
+// Investment holdings: positions inside investment and exchange accounts, replayed
+// from buy, sell and dividend trades in date order. Buys open lots; sells drain lots
+// first-in first-out and take cost out of the position either lot by lot (FIFO) or
+// at the average cost of everything held. Positions are valued with the latest known
+// price. Quantities keep eight decimals for crypto; money is worked in cents.
+import type { JournalLine } from './journal';
+import type { AccountType } from '../types';
+
+export type CostBasisMethod = 'fifo' | 'average';
+export type TradeKind = 'buy' | 'sell' | 'dividend';
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'average'];
+export const TRADE_KINDS: TradeKind[] = ['buy', 'sell', 'dividend'];
+export const HOLDING_ACCOUNT_TYPES: AccountType[] = ['investment', 'exchange'];
+
+export const REALIZED_GAIN_CODE = '4100';
+export const REALIZED_GAIN_NAME = 'Realized Investment Gains';
+export const REALIZED_LOSS_CODE = '5810';
+export const REALIZED_LOSS_NAME = 'Realized Investment Losses';
+
+// Tag on the ledger entry for each posted trade
+export const INVESTMENT_TRADE_TAG = 'investment-trade';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const SYMBOL_PATTERN = /^[A-Z0-9][A-Z0-9.\-/:]{0,19}$/;
+const QUANTITY_SCALE = 1e8;
+
+export interface TradeInput {
+  symbol: string; // Upper case, e.g. AAPL or BTC
+  kind: TradeKind;
+  date: string; // YYYY-MM-DD
+  quantity: number; // Units bought or sold; zero for dividends
+  price: number; // Per unit, major units of the account currency
+  fees: number; // Major units; added to a buy's cost, taken from a sale's proceeds
+  amount: number; // Dividends only: cash received, major units
+}
+
+export interface PricePoint {
+  symbol: string;
+  date: string; // YYYY-MM-DD
+  price: number; // Per unit, major units
+}
+
+export interface HoldingLot {
+  date: string; // Purchase date
+  quantity: number; // Still held
+  costCents: number; // Purchase cost of the quantity still held, fees included
+}
+
+export interface HoldingPosition {
+  symbol: string;
+  quantity: number;
+  costBasisCents: number; // By the account's method; under average cost it can differ from the lot costs
+  lots: HoldingLot[]; // Oldest first
+  realizedGainCents: number; // From sales, after fees
+  dividendCents: number;
+}
+
+export interface HoldingValuation extends HoldingPosition {
+  price: PricePoint | null; // Latest on or before the valuation date
+  marketValueCents: number | null; // Null without a price
+  unrealizedGainCents: number | null;
+}
+
+// What one trade does to cash and cost basis
+export interface TradeEffect {
+  cashCents: number; // Received; negative when paid out
+  basisCents: number; // Cost added by a buy or taken out by a sale
+  gainCents: number; // Realized by a sale; negative for a loss
+  incomeCents: number; // Dividend received
+}
+
+export interface TradeAccounts {
+  holdingAccountId: string; // Asset carrying the positions at cost
+  cashAccountId: string; // Asset paying for buys and receiving proceeds
+  incomeAccountId?: string; // Income credited with dividends; needed for dividends only
+  gainAccountId?: string; // Needed for sales at a gain
+  lossAccountId?: string; // Needed for sales at a loss
+}
+
+const roundQuantity = (quantity: number) => Math.round(quantity * QUANTITY_SCALE) / QUANTITY_SCALE;
+
+// Stable, so trades on the same day keep the order they were entered in
+const byDate = <T extends { date: string }>(trades: T[]): T[] =>
+  trades.map((trade, index) => ({ trade, index }))
+    .sort((a, b) => a.trade.date.localeCompare(b.trade.date) || a.index - b.index)
+    .map(({ trade }) => trade);
+
+const emptyPosition = (symbol: string): HoldingPosition => ({
+  symbol,
+  quantity: 0,
+  costBasisCents: 0,
+  lots: [],
+  realizedGainCents: 0,
+  dividendCents: 0,
+});
+
+// Applies one trade to a position in place; sales beyond the quantity held sell what there is
+const apply = (position: HoldingPosition, trade: TradeInput, method: CostBasisMethod): TradeEffect => {
+  const feesCents = Math.round(trade.fees * 100);
+
+  if (trade.kind === 'dividend') {
+    const incomeCents = Math.round(trade.amount * 100);
+    position.dividendCents += incomeCents;
+    return { cashCents: incomeCents, basisCents: 0, gainCents: 0, incomeCents };
+  }
+
+  if (trade.kind === 'buy') {
+    const costCents = Math.round(trade.quantity * trade.price * 100) + feesCents;
+    position.lots.push({ date: trade.date, quantity: trade.quantity, costCents });
+    position.quantity = roundQuantity(position.quantity + trade.quantity);
+    position.costBasisCents += costCents;
+    return { cashCents: -costCents, basisCents: costCents, gainCents: 0, incomeCents: 0 };
+  }
+
+  const quantity = Math.min(trade.quantity, position.quantity);
+  let remaining = quantity;
+  let fifoCents = 0;
+  while (remaining > 0 && position.lots.length > 0) {
+    const lot = position.lots[0];
+    if (lot.quantity <= remaining) {
+      fifoCents += lot.costCents;
+      remaining = roundQuantity(remaining - lot.quantity);
+      position.lots.shift();
+    } else {
+      const lotCents = Math.round((lot.costCents * remaining) / lot.quantity);
+      fifoCents += lotCents;
+      lot.costCents -= lotCents;
+      lot.quantity = roundQuantity(lot.quantity - remaining);
+      remaining = 0;
+    }
+  }
+
+  const held = position.quantity;
+  position.quantity = roundQuantity(held - quantity);
+  // Selling out takes the whole basis, so no rounding residue is left behind
+  const basisCents = position.quantity === 0
+    ? position.costBasisCents
+    : method === 'fifo'
+      ? fifoCents
+      : Math.round((position.costBasisCents * quantity) / held);
+  const proceedsCents = Math.round(quantity * trade.price * 100) - feesCents;
+  position.costBasisCents -= basisCents;
+  position.realizedGainCents += proceedsCents - basisCents;
+  return { cashCents: proceedsCents, basisCents, gainCents: proceedsCents - basisCents, incomeCents: 0 };
+};
+
+export class Holdings {
+  /**
+   * Canonical symbol: trimmed and upper case
+   */
+  static normalizeSymbol(symbol: string): string {
+    return symbol.trim().toUpperCase();
+  }
+
+  /**
+   * Error message for a trade that cannot be recorded on its own, or null when it can
+   */
+  static validate(trade: TradeInput): string | null {
+    if (!SYMBOL_PATTERN.test(trade.symbol)) {
+      return 'Symbol must be 1 to 20 letters, digits or . - / :';
+    }
+    if (!DATE_PATTERN.test(trade.date)) {
+      return 'Trade date is required';
+    }
+    if (trade.kind === 'dividend') {
+      return Number.isFinite(trade.amount) && trade.amount > 0 ? null : 'Dividend amount must be greater than zero';
+    }
+    if (!Number.isFinite(trade.quantity) || trade.quantity <= 0) {
+      return 'Quantity must be greater than zero';
+    }
+    if (!Number.isFinite(trade.price) || trade.price < 0) {
+      return 'Price cannot be negative';
+    }
+    if (!Number.isFinite(trade.fees) || trade.fees < 0) {
+      return 'Fees cannot be negative';
+    }
+    if (trade.kind === 'sell' && Math.round(trade.fees * 100) > Math.round(trade.quantity * trade.price * 100)) {
+      return 'Fees cannot be more than the sale amount';
+    }
+    return null;
+  }
+
+  /**
+   * Error message for a price that cannot be stored, or null when it can
+   */
+  static validatePrice(price: PricePoint): string | null {
+    if (!SYMBOL_PATTERN.test(price.symbol)) {
+      return 'Symbol must be 1 to 20 letters, digits or . - / :';
+    }
+    if (!DATE_PATTERN.test(price.date)) {
+      return 'Price date is required';
+    }
+    if (!Number.isFinite(price.price) || price.price < 0) {
+      return 'Price cannot be negative';
+    }
+    return null;
+  }
+
+  /**
+   * Error message when the trades ever sell more of a symbol than is held at the time, or null
+   */
+  static validateSequence(trades: TradeInput[]): string | null {
+    const held = new Map<string, number>();
+    for (const trade of byDate(trades)) {
+      if (trade.kind === 'dividend') continue;
+      const quantity = held.get(trade.symbol) ?? 0;
+      if (trade.kind === 'sell' && trade.quantity > quantity) {
+        return `Cannot sell ${trade.quantity} ${trade.symbol} on ${trade.date}; only ${quantity} held`;
+      }
+      held.set(trade.symbol, roundQuantity(quantity + (trade.kind === 'buy' ? trade.quantity : -trade.quantity)));
+    }
+    return null;
+  }
+
+  /**
+   * The latest sale of the trade's symbol dated after it, if any. Buys and sells before
+   * it cannot change once it is posted, since its cost basis and gain are already booked.
+   */
+  static lockingSale<T extends TradeInput>(trades: T[], trade: TradeInput): T | null {
+    if (trade.kind === 'dividend') return null;
+    return byDate(trades)
+      .filter((item) => item !== trade && item.kind === 'sell' && item.symbol === trade.symbol && item.date > trade.date)
+      .pop() ?? null;
+  }
+
+  /**
+   * Open and closed positions by symbol, as of the last trade
+   */
+  static positions(trades: TradeInput[], method: CostBasisMethod): HoldingPosition[] {
+    const positions = new Map<string, HoldingPosition>();
+    for (const trade of byDate(trades)) {
+      const position = positions.get(trade.symbol) ?? emptyPosition(trade.symbol);
+      positions.set(trade.symbol, position);
+      apply(position, trade, method);
+    }
+    return [...positions.values()].sort((a, b) => a.symbol.localeCompare(b.symbol));
+  }
+
+  /**
+   * What a new trade does, given the trades recorded before it
+   */
+  static effect(trades: TradeInput[], trade: TradeInput, method: CostBasisMethod): TradeEffect {
+    const earlier = trades.filter((item) => item.symbol === trade.symbol && item.date <= trade.date);
+    const position = Holdings.positions(earlier, method)[0] ?? emptyPosition(trade.symbol);
+    return apply(position, trade, method);
+  }
+
+  /**
+   * Latest price for a symbol on or before `asOf`
+   */
+  static latestPrice(prices: PricePoint[], symbol: string, asOf: string): PricePoint | null {
+    return prices
+      .filter((price) => price.symbol === symbol && price.date <= asOf)
+      .reduce<PricePoint | null>((latest, price) => (!latest || price.date >= latest.date ? price : latest), null);
+  }
+
+  /**
+   * Market value and unrealized gain of a position at a price
+   */
+  static value(position: HoldingPosition, price: PricePoint | null): HoldingValuation {
+    const marketValueCents = price ? Math.round(position.quantity * price.price * 100) : null;
+    return {
+      ...position,
+      price,
+      marketValueCents,
+      unrealizedGainCents: marketValueCents === null ? null : marketValueCents - position.costBasisCents,
+    };
+  }
+
+  /**
+   * Journal lines for one trade. Positions are carried at cost, so a sale credits the
+   * basis it removes and books the difference from the proceeds as a gain or loss.
+   */
+  static toJournalLines(
+    trade: TradeInput,
+    effect: TradeEffect,
+    accounts: TradeAccounts,
+    currency: string,
+    exchangeRate?: number
+  ): JournalLine[] {
+    const line = (accountId: string, side: JournalLine['side'], cents: number): JournalLine => ({
+      accountId,
+      side,
+      amount: cents / 100,
+      currency,
+      exchangeRate,
+    });
+
+    if (trade.kind === 'dividend') {
+      return [line(accounts.cashAccountId, 'debit', effect.incomeCents), line(accounts.incomeAccountId!, 'credit', effect.incomeCents)];
+    }
+    if (trade.kind === 'buy') {
+      return [line(accounts.holdingAccountId, 'debit', effect.basisCents), line(accounts.cashAccountId, 'credit', effect.basisCents)];
+    }
+
+    const lines: JournalLine[] = [];
+    if (effect.cashCents > 0) lines.push(line(accounts.cashAccountId, 'debit', effect.cashCents));
+    if (effect.gainCents < 0) lines.push(line(accounts.lossAccountId!, 'debit', -effect.gainCents));
+    if (effect.basisCents > 0) lines.push(line(accounts.holdingAccountId, 'credit', effect.basisCents));
+    if (effect.gainCents > 0) lines.push(line(accounts.gainAccountId!, 'credit', effect.gainCents));
+    return lines;
+  }
+}
@@ -0,0 +1,157 @@
+// General journal entries: free-form transactions entered line by line.
+// Each line is booked into the base currency at its own rate so that
+// multi-currency entries balance on their booked amounts.
+import { Money } from './money';
+import { isCurrencySupported } from '../config/currencies';
+import { LedgerValidator, TransactionBuilder, type Transaction, type TransactionType } from './ledger';
+
+export type JournalSide = 'debit' | 'credit';
+
+// Manual entries default to adjustments
+export const JOURNAL_TRANSACTION_TYPES: TransactionType[] = ['adjustment', 'income', 'expense', 'transfer'];
+
+export interface JournalLine {
+  accountId: string;
+  side: JournalSide;
+  amount: number; // Major units of the line currency
+  currency: string;
+  exchangeRate?: number; // Base currency units per line currency unit; required when the currencies differ
+  description?: string;
+}
+
+export interface JournalEntryDraft {
+  date: Date;
+  description: string;
+  memo?: string;
+  reference?: string;
+  tags?: string[];
+  transactionType?: TransactionType;
+  baseCurrency: string;
+  lines: JournalLine[];
+}
+
+export interface JournalBalance {
+  debits: Money; // Booked totals in the base currency
+  credits: Money;
+  difference: Money; // Debits minus credits
+  isBalanced: boolean;
+}
+
+export class JournalEntry {
+  /**
+   * Line amount in the base currency at the line's booked rate
+   */
+  static bookedAmount(line: JournalLine, baseCurrency: string): Money {
+    const rate = line.currency.toUpperCase() === baseCurrency.toUpperCase() ? 1 : line.exchangeRate ?? 0;
+    return Money.fromMajorUnits(line.amount * rate, baseCurrency);
+  }
+
+  /**
+   * Booked debit and credit totals, for the live balance check while editing
+   */
+  static balance(lines: JournalLine[], baseCurrency: string): JournalBalance {
+    const zero = Money.fromMinorUnits(0, baseCurrency);
+    const total = (side: JournalSide) =>
+      lines
+        .filter((line) => line.side === side && Number.isFinite(line.amount) && isCurrencySupported(line.currency))
+        .reduce((sum, line) => sum.add(JournalEntry.bookedAmount(line, baseCurrency)), zero);
+
+    const debits = total('debit');
+    const credits = total('credit');
+    const difference = debits.subtract(credits);
+    return { debits, credits, difference, isBalanced: difference.isZero() && !debits.isZero() };
+  }
+
+  /**
+   * Everything wrong with a draft, empty when it can be posted
+   */
+  static validate(draft: JournalEntryDraft): string[] {
+    const errors: string[] = [];
+
+    if (Number.isNaN(draft.date.getTime())) {
+      errors.push('Date is required');
+    }
+    if (!draft.description.trim()) {
+      errors.push('Description is required');
+    }
+
+    draft.lines.forEach((line, index) => {
+      if (!line.accountId) {
+        errors.push(`Line ${index + 1} needs an account`);
+      }
+      if (!Number.isFinite(line.amount) || line.amount <= 0) {
+        errors.push(`Line ${index + 1} needs a positive amount`);
+      }
+      if (!isCurrencySupported(line.currency)) {
+        errors.push(`Line ${index + 1} uses an unsupported currency (${line.currency})`);
+        return;
+      }
+      const isForeign = line.currency.toUpperCase() !== draft.baseCurrency.toUpperCase();
+      if (isForeign && !(line.exchangeRate && line.exchangeRate > 0)) {
+        errors.push(`Line ${index + 1} needs an exchange rate to ${draft.baseCurrency}`);
+      }
+    });
+
+    if (errors.length > 0) return errors;
+
+    return LedgerValidator.validateTransaction({
+      ...JournalEntry.assemble(draft),
+      id: 'draft',
+      createdAt: draft.date,
+      updatedAt: draft.date,
+    }).errors;
+  }
+
+  /**
+   * Build a validated ledger transaction from a draft. Throws when the draft is invalid.
+   */
+  static toTransaction(draft: JournalEntryDraft): Transaction {
+    const errors = JournalEntry.validate(draft);
+    if (errors.length > 0) {
+      throw new Error(`Invalid journal entry: ${errors.join(', ')}`);
+    }
+
+    const builder = new TransactionBuilder(draft.description.trim(), draft.baseCurrency, draft.date);
+    draft.lines.forEach((line) => {
+      const original = Money.fromMajorUnits(line.amount, line.currency);
+      const booked = JournalEntry.bookedAmount(line, draft.baseCurrency);
+      const rate = original.getCurrency() === booked.getCurrency() ? undefined : line.exchangeRate;
+      if (line.side === 'debit') {
+        builder.debit(line.accountId, original, booked, rate, line.description);
+      } else {
+        builder.credit(line.accountId, original, booked, rate, line.description);
+      }
+    });
+    if (draft.reference?.trim()) builder.reference(draft.reference.trim());
+    if (draft.tags?.length) builder.tags(draft.tags);
+
+    return {
+      ...builder.build(),
+      memo: draft.memo?.trim() || undefined,
+      transactionType: draft.transactionType ?? 'adjustment',
+    };
+  }
+
+  // The draft as a ledger transaction with placeholder posting ids, for validation
+  private static assemble(draft: JournalEntryDraft): Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'> {
+    return {
+      date: draft.date,
+      description: draft.description,
+      baseCurrency: draft.baseCurrency,
+      postings: draft.lines.map((line, index) => {
+        const original = Money.fromMajorUnits(line.amount, line.currency);
+        const booked = JournalEntry.bookedAmount(line, draft.baseCurrency);
+        const isDebit = line.side === 'debit';
+        return {
+          id: String(index),
+          accountId: line.accountId,
+          originalDebitAmount: isDebit ? original : null,
+          originalCreditAmount: isDebit ? null : original,
+          bookedDebitAmount: isDebit ? booked : null,
+          bookedCreditAmount: isDebit ? null : booked,
+          reconciled: false,
+        };
+      }),
+    };
+  }
+}
@@ -1,5 +1,6 @@
 // Double-entry ledger domain models for accounting-grade financial tracking
 import { Money } from './money';
+import type { TransactionStatus } from './reversal';
 
 export type AccountNature = 'asset' | 'liability' | 'income' | 'expense' | 'equity';
 
@@ -24,21 +25,28 @@ export interface Posting {
   // Base currency amounts booked at transaction date exchange rate
   bookedDebitAmount: Money | null; // Base currency equivalent at transaction date
   bookedCreditAmount: Money | null;
-  // Exchange rate used for booking (original currency per base currency unit)
+  // Exchange rate used for booking (base currency units per original currency unit)
   exchangeRate?: number; // Only populated if original currency differs from base
   description?: string;
   reconciled: boolean;
   reconciledAt?: Date;
 }
 
+export type TransactionType = 'income' | 'expense' | 'transfer' | 'adjustment';
+
 export interface Transaction {
   id: string;
   date: Date;
   description: string;
+  memo?: string;
   reference?: string; // External reference (invoice #, check #, etc.)
+  transactionType?: TransactionType;
   postings: Posting[]; // Must have ≥2 postings and balance to zero
   baseCurrency: string; // Base currency for booked amounts
   tags?: string[];
+  status?: TransactionStatus; // Missing means posted
+  reversesId?: string; // The transaction this entry voids or reverses
+  reversedById?: string; // The entry that voided or reversed this one
   createdAt: Date;
   updatedAt: Date;
   createdBy?: string; // User who created the transaction
@@ -0,0 +1,140 @@
+// Opening balances: bring the balances entered on the net worth page into the
+// ledger as one dated journal entry against an equity account, then check where
+// the two have drifted apart. Net worth accounts link to the ledger account that
+// mirrors them; liabilities are compared as the amount owed.
+import { CODE_PREFIXES } from './accountTree';
+import { JournalEntry, type JournalLine } from './journal';
+import type { AccountType } from '../types';
+
+export const OPENING_BALANCE_CODE = '3000';
+export const OPENING_BALANCE_NAME = 'Opening Balance';
+
+const LIABILITY_TYPES: AccountType[] = ['loan', 'credit-card', 'mortgage'];
+
+// Differences below a cent are rounding, not divergence
+const TOLERANCE_CENTS = 1;
+
+export type OpeningNature = 'asset' | 'liability';
+
+export interface OpeningBalanceItem {
+  ledgerAccountId: string;
+  nature: OpeningNature;
+  balanceCents: number; // As entered on the net worth page, in `currency`
+  currency: string;
+  exchangeRate?: number; // Base units per `currency` unit; required when foreign
+}
+
+export interface BalanceCheckAccount {
+  id: string;
+  name: string;
+  type: AccountType;
+  currency: string;
+  balanceCents: number; // Net worth balance, in `currency`
+  ledgerAccountId?: string;
+}
+
+export type BalanceCheckStatus = 'unlinked' | 'matched' | 'diverged';
+
+export interface BalanceCheckLine {
+  accountId: string;
+  name: string;
+  currency: string;
+  ledgerAccountId: string | null;
+  netWorthCents: number; // Amount held, or owed for liabilities
+  ledgerCents: number | null; // Same sign convention; null when unlinked
+  differenceCents: number; // Net worth minus ledger
+  status: BalanceCheckStatus;
+}
+
+export class OpeningBalances {
+  static natureOf(type: AccountType): OpeningNature {
+    return LIABILITY_TYPES.includes(type) ? 'liability' : 'asset';
+  }
+
+  /**
+   * First unused four-digit code in the nature's range, e.g. 1004 after 1001-1003
+   */
+  static nextCode(existingCodes: string[], nature: OpeningNature): string {
+    const taken = new Set(existingCodes);
+    const prefix = CODE_PREFIXES[nature][0];
+    for (let n = 1; n <= 999; n++) {
+      const code = `${prefix}${String(n).padStart(3, '0')}`;
+      if (!taken.has(code)) return code;
+    }
+    throw new Error(`No free ${nature} account codes left`);
+  }
+
+  /**
+   * Journal lines for the opening entry: each balance on its normal side and the
+   * booked difference against the equity account. Zero balances are skipped.
+   */
+  static toJournalLines(items: OpeningBalanceItem[], equityAccountId: string, baseCurrency: string): JournalLine[] {
+    const lines: JournalLine[] = items
+      .filter((item) => item.balanceCents !== 0)
+      .map((item) => {
+        // Liabilities are owed whichever sign they were entered with; a negative asset is an overdraft
+        const owed = item.nature === 'liability' ? Math.abs(item.balanceCents) : -item.balanceCents;
+        const isForeign = item.currency.toUpperCase() !== baseCurrency.toUpperCase();
+        return {
+          accountId: item.ledgerAccountId,
+          side: owed > 0 ? 'credit' : 'debit',
+          amount: Math.abs(owed) / 100,
+          currency: item.currency,
+          exchangeRate: isForeign ? item.exchangeRate : undefined,
+        };
+      });
+    if (lines.length === 0) return [];
+
+    const { difference } = JournalEntry.balance(lines, baseCurrency);
+    if (!difference.isZero()) {
+      lines.push({
+        accountId: equityAccountId,
+        side: difference.isNegative() ? 'debit' : 'credit',
+        amount: difference.abs().toMajorUnits(),
+        currency: baseCurrency,
+      });
+    }
+    return lines;
+  }
+
+  /**
+   * Compare each net worth balance with its linked ledger balance, largest gaps first
+   */
+  static compare(
+    accounts: BalanceCheckAccount[],
+    ledgerBalanceOf: (ledgerAccountId: string, currency: string) => number | null
+  ): BalanceCheckLine[] {
+    const lines = accounts.map((account): BalanceCheckLine => {
+      const isLiability = OpeningBalances.natureOf(account.type) === 'liability';
+      const netWorthCents = isLiability ? Math.abs(account.balanceCents) : account.balanceCents;
+      const ledgerCents = account.ledgerAccountId ? ledgerBalanceOf(account.ledgerAccountId, account.currency) : null;
+
+      if (ledgerCents === null) {
+        return {
+          accountId: account.id,
+          name: account.name,
+          currency: account.currency,
+          ledgerAccountId: null,
+          netWorthCents,
+          ledgerCents: null,
+          differenceCents: netWorthCents,
+          status: 'unlinked',
+        };
+      }
+
+      const differenceCents = netWorthCents - ledgerCents;
+      return {
+        accountId: account.id,
+        name: account.name,
+        currency: account.currency,
+        ledgerAccountId: account.ledgerAccountId ?? null,
+        netWorthCents,
+        ledgerCents,
+        differenceCents,
+        status: Math.abs(differenceCents) < TOLERANCE_CENTS ? 'matched' : 'diverged',
+      };
+    });
+
+    return lines.sort((a, b) => Math.abs(b.differenceCents) - Math.abs(a.differenceCents) || a.name.localeCompare(b.name));
+  }
+}
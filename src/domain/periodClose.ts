@@ -0,0 +1,69 @@
+// Month-end close: a closed month's transactions are frozen so reports and
+// net-worth snapshots taken for it stay true. Periods are YYYY-MM strings.
+
+export const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export type PeriodCloseAction = 'close' | 'reopen';
+
+export interface PeriodClose {
+  id: string;
+  period: string; // YYYY-MM
+  closedAt: string;
+}
+
+// Audit record; every reopen carries the reason it was needed
+export interface PeriodCloseEvent {
+  id: string;
+  period: string;
+  action: PeriodCloseAction;
+  reason?: string;
+  createdAt: string;
+}
+
+export class PeriodLock {
+  /**
+   * Period a YYYY-MM-DD date belongs to
+   */
+  static periodOf(date: string): string {
+    return date.slice(0, 7);
+  }
+
+  /**
+   * First closed period among the given dates, or null when all are open
+   */
+  static findClosed(closedPeriods: string[], dates: string[]): string | null {
+    const closed = new Set(closedPeriods);
+    const period = dates.map(PeriodLock.periodOf).find((item) => closed.has(item));
+    return period ?? null;
+  }
+
+  /**
+   * Error message for a month that cannot be closed, or null when valid.
+   * Only months that have ended can be closed.
+   */
+  static validateClose(period: string, closedPeriods: string[], today: string): string | null {
+    if (!PERIOD_PATTERN.test(period)) {
+      return 'Period must be YYYY-MM';
+    }
+    if (closedPeriods.includes(period)) {
+      return `Period ${period} is already closed`;
+    }
+    if (period >= PeriodLock.periodOf(today)) {
+      return 'Only months that have ended can be closed';
+    }
+    return null;
+  }
+
+  /**
+   * Error message for a reopen that cannot be done, or null when valid
+   */
+  static validateReopen(period: string, closedPeriods: string[], reason: string): string | null {
+    if (!closedPeriods.includes(period)) {
+      return `Period ${period} is not closed`;
+    }
+    if (!reason.trim()) {
+      return 'A reason is required to reopen a period';
+    }
+    return null;
+  }
+}
@@ -0,0 +1,153 @@
+// Net worth projection: rolls today's balances forward month by month. Assets grow
+// at their estimated yield, or at the assumed growth rate when they have none;
+// debts accrue interest and get their monthly payment; recurring income less
+// recurring expenses, rising with inflation, is saved and grows at the growth rate.
+// Debt payments come out of those savings. The optimistic and pessimistic
+// scenarios move every asset return up or down by the spread.
+import type { RecurrenceFrequency } from './recurrence';
+
+export const MIN_PROJECTION_YEARS = 1;
+export const MAX_PROJECTION_YEARS = 30;
+
+export interface ProjectionAssumptions {
+  years: number; // 1 to 30
+  growthRate: number; // Percent a year, for assets without an estimated yield and for savings
+  inflationRate: number; // Percent a year; recurring income and expenses rise with it
+  spread: number; // Percentage points added to or taken from asset returns for the other scenarios
+}
+
+export const DEFAULT_PROJECTION_ASSUMPTIONS: ProjectionAssumptions = {
+  years: 10,
+  growthRate: 4,
+  inflationRate: 4,
+  spread: 2,
+};
+
+export interface ProjectedAsset {
+  balanceCents: number;
+  annualRate: number | null; // Estimated yield in percent; null grows at the assumed rate
+}
+
+export interface ProjectedDebt {
+  balanceCents: number; // Amount owed
+  annualRate: number; // Percent
+  paymentCents: number; // Monthly
+}
+
+export interface ProjectionInput {
+  assets: ProjectedAsset[];
+  debts: ProjectedDebt[];
+  monthlyIncomeCents: number; // Recurring, at today's amounts
+  monthlyExpenseCents: number; // Likewise
+}
+
+export interface ProjectionPoint {
+  period: string; // YYYY-MM
+  assetCents: number; // Base scenario
+  liabilityCents: number; // Owed, as a positive amount
+  netWorthCents: number;
+  pessimisticCents: number; // Net worth in the pessimistic scenario
+  optimisticCents: number;
+}
+
+// Occurrences per month of each recurrence frequency
+const PER_MONTH: Record<RecurrenceFrequency, number> = { weekly: 52 / 12, 'bi-weekly': 26 / 12, monthly: 1 };
+
+const addMonths = (period: string, months: number): string => {
+  const [year, month] = period.split('-').map(Number);
+  const index = year * 12 + month - 1 + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+};
+
+interface ScenarioMonth {
+  assetCents: number;
+  liabilityCents: number;
+}
+
+// One scenario with every asset return moved by `shift` percentage points
+const simulate = (input: ProjectionInput, assumptions: ProjectionAssumptions, shift: number): ScenarioMonth[] => {
+  const monthlyRate = (annualRate: number) => (annualRate + shift) / 100 / 12;
+  const assets = input.assets.map((asset) => ({
+    balance: asset.balanceCents,
+    rate: monthlyRate(asset.annualRate ?? assumptions.growthRate),
+  }));
+  const debts = input.debts.map((debt) => ({ ...debt }));
+  const savingsRate = monthlyRate(assumptions.growthRate);
+  let savings = 0;
+
+  const months: ScenarioMonth[] = [];
+  for (let month = 1; month <= assumptions.years * 12; month++) {
+    for (const asset of assets) {
+      asset.balance += Math.round(asset.balance * asset.rate);
+    }
+    savings += Math.round(savings * savingsRate);
+
+    let paid = 0;
+    for (const debt of debts) {
+      const owed = debt.balanceCents + Math.round((debt.balanceCents * debt.annualRate) / 100 / 12);
+      const payment = Math.min(debt.paymentCents, owed);
+      debt.balanceCents = owed - payment;
+      paid += payment;
+    }
+
+    // Today's amounts for the first year, raised with inflation at the start of each year after
+    const inflation = Math.pow(1 + assumptions.inflationRate / 100, Math.floor((month - 1) / 12));
+    savings += Math.round((input.monthlyIncomeCents - input.monthlyExpenseCents) * inflation) - paid;
+
+    months.push({
+      assetCents: assets.reduce((sum, asset) => sum + asset.balance, 0) + savings,
+      liabilityCents: debts.reduce((sum, debt) => sum + debt.balanceCents, 0),
+    });
+  }
+  return months;
+};
+
+export class NetWorthProjection {
+  /**
+   * Error message for assumptions that cannot be projected, or null when they can
+   */
+  static validate(assumptions: ProjectionAssumptions): string | null {
+    if (
+      !Number.isInteger(assumptions.years) ||
+      assumptions.years < MIN_PROJECTION_YEARS ||
+      assumptions.years > MAX_PROJECTION_YEARS
+    ) {
+      return `Years must be between ${MIN_PROJECTION_YEARS} and ${MAX_PROJECTION_YEARS}`;
+    }
+    if (!Number.isFinite(assumptions.growthRate) || assumptions.growthRate <= -100 || assumptions.growthRate >= 100) {
+      return 'Growth rate must be between -100 and 100';
+    }
+    if (!Number.isFinite(assumptions.inflationRate) || assumptions.inflationRate <= -100 || assumptions.inflationRate >= 100) {
+      return 'Inflation rate must be between -100 and 100';
+    }
+    if (!Number.isFinite(assumptions.spread) || assumptions.spread < 0 || assumptions.spread >= 100) {
+      return 'Spread must be between 0 and 100';
+    }
+    return null;
+  }
+
+  /**
+   * Monthly equivalent of an amount recurring at a frequency
+   */
+  static monthlyCents(amountCents: number, frequency: RecurrenceFrequency): number {
+    return Math.round(amountCents * PER_MONTH[frequency]);
+  }
+
+  /**
+   * One point per month for the months after `startPeriod` (YYYY-MM), the current month
+   */
+  static project(input: ProjectionInput, assumptions: ProjectionAssumptions, startPeriod: string): ProjectionPoint[] {
+    const base = simulate(input, assumptions, 0);
+    const pessimistic = simulate(input, assumptions, -assumptions.spread);
+    const optimistic = simulate(input, assumptions, assumptions.spread);
+
+    return base.map((month, index) => ({
+      period: addMonths(startPeriod, index + 1),
+      assetCents: month.assetCents,
+      liabilityCents: month.liabilityCents,
+      netWorthCents: month.assetCents - month.liabilityCents,
+      pessimisticCents: pessimistic[index].assetCents - pessimistic[index].liabilityCents,
+      optimisticCents: optimistic[index].assetCents - optimistic[index].liabilityCents,
+    }));
+  }
+}
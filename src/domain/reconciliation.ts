@@ -0,0 +1,79 @@
+// Bank reconciliation: ticking off an account's postings against a bank statement
+// until the cleared balance matches the statement's ending balance.
+
+export interface Reconciliation {
+  id: string;
+  accountId: string;
+  statementDate: string; // YYYY-MM-DD
+  statementBalanceCents: number;
+  postingIds: string[]; // Postings cleared by this statement
+  createdAt: string;
+}
+
+export interface ReconcilableItem {
+  id: string;
+  date: string; // YYYY-MM-DD
+  amountCents: number; // Signed effect on the account balance
+  reconciled: boolean;
+}
+
+export interface ReconciliationStatus {
+  clearedBalanceCents: number; // Previously reconciled plus selected postings
+  differenceCents: number; // Statement balance minus cleared balance
+  isBalanced: boolean;
+}
+
+// Fields that move money; a transaction with reconciled postings keeps them fixed
+export const LOCKED_TRANSACTION_FIELDS = ['date', 'postings'] as const;
+
+export class Reconciler {
+  /**
+   * Cleared balance and remaining difference for the postings selected so far
+   */
+  static status(items: ReconcilableItem[], selectedIds: string[], statementBalanceCents: number): ReconciliationStatus {
+    const selected = new Set(selectedIds);
+    const clearedBalanceCents = items
+      .filter((item) => item.reconciled || selected.has(item.id))
+      .reduce((sum, item) => sum + item.amountCents, 0);
+    const differenceCents = statementBalanceCents - clearedBalanceCents;
+    return { clearedBalanceCents, differenceCents, isBalanced: differenceCents === 0 };
+  }
+
+  /**
+   * Error message for a reconciliation that cannot be completed, or null when valid
+   */
+  static validate(
+    items: ReconcilableItem[],
+    selectedIds: string[],
+    statementDate: string,
+    statementBalanceCents: number
+  ): string | null {
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(statementDate)) {
+      return 'A statement date is required';
+    }
+    if (!Number.isInteger(statementBalanceCents)) {
+      return 'A statement ending balance is required';
+    }
+
+    const byId = new Map(items.map((item) => [item.id, item]));
+    for (const id of selectedIds) {
+      const item = byId.get(id);
+      if (!item) return 'Selected postings must belong to the account';
+      if (item.reconciled) return 'Selected postings are already reconciled';
+      if (item.date > statementDate) return 'Selected postings must be dated on or before the statement date';
+    }
+
+    const { differenceCents } = Reconciler.status(items, selectedIds, statementBalanceCents);
+    if (differenceCents !== 0) {
+      return `Cleared balance differs from the statement by ${(differenceCents / 100).toFixed(2)}`;
+    }
+    return null;
+  }
+
+  /**
+   * Whether a transaction has reconciled postings and can no longer change amounts or dates
+   */
+  static isLocked(transaction: { postings: Array<{ reconciled?: boolean | null }> }): boolean {
+    return transaction.postings.some((posting) => posting.reconciled === true);
+  }
+}
@@ -0,0 +1,105 @@
+// Recurrence schedules for recurring expenses and income.
+// Pure date math on YYYY-MM-DD strings (UTC) so the client and the API server
+// produce identical occurrence dates.
+
+export type RecurrenceFrequency = 'weekly' | 'bi-weekly' | 'monthly';
+
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  startDate: string; // First occurrence (YYYY-MM-DD)
+  dayOfMonth?: number | null; // Monthly only; defaults to startDate's day, clamped to month end
+  endDate?: string | null; // Last date an occurrence may fall on (inclusive)
+  skipDates?: string[]; // Individual occurrences to leave out
+  paused?: boolean; // Paused schedules produce no occurrences
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (date: string): Date => {
+  if (!DATE_PATTERN.test(date)) {
+    throw new Error(`Invalid date: ${date}`);
+  }
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+const formatDate = (date: Date): string => date.toISOString().split('T')[0];
+
+const daysInMonth = (year: number, monthIndex: number): number =>
+  new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+
+export class RecurrenceCalculator {
+  /**
+   * The n-th occurrence (0-based) of a schedule, ignoring skip/pause/end date
+   */
+  static nthOccurrence(schedule: RecurrenceSchedule, n: number): string {
+    const start = parseDate(schedule.startDate);
+
+    if (schedule.frequency === 'weekly' || schedule.frequency === 'bi-weekly') {
+      const intervalDays = schedule.frequency === 'weekly' ? 7 : 14;
+      return formatDate(new Date(start.getTime() + n * intervalDays * DAY_MS));
+    }
+
+    // Monthly: same day each month, clamped (e.g. the 31st falls on Feb 28/29).
+    // A dayOfMonth before the start day moves the first occurrence to the next month.
+    const day = schedule.dayOfMonth || start.getUTCDate();
+    const monthAt = (offset: number): Date => {
+      const year = start.getUTCFullYear() + Math.floor((start.getUTCMonth() + offset) / 12);
+      const month = (start.getUTCMonth() + offset) % 12;
+      return new Date(Date.UTC(year, month, Math.min(day, daysInMonth(year, month))));
+    };
+    const firstOffset = monthAt(0) < start ? 1 : 0;
+    return formatDate(monthAt(n + firstOffset));
+  }
+
+  /**
+   * All occurrences falling within [from, to] (inclusive), honouring
+   * pause, end date and skipped dates
+   */
+  static occurrencesBetween(schedule: RecurrenceSchedule, from: string, to: string): string[] {
+    if (schedule.paused) return [];
+
+    const upper = schedule.endDate && schedule.endDate < to ? schedule.endDate : to;
+    const skipped = new Set(schedule.skipDates || []);
+    const occurrences: string[] = [];
+
+    for (let n = 0; ; n++) {
+      const occurrence = RecurrenceCalculator.nthOccurrence(schedule, n);
+      if (occurrence > upper) break;
+      if (occurrence >= from && !skipped.has(occurrence)) {
+        occurrences.push(occurrence);
+      }
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * The first occurrence strictly after a date, or null when the schedule has ended
+   */
+  static nextOccurrence(schedule: RecurrenceSchedule, after: string): string | null {
+    if (schedule.paused) return null;
+
+    const skipped = new Set(schedule.skipDates || []);
+    for (let n = 0; ; n++) {
+      const occurrence = RecurrenceCalculator.nthOccurrence(schedule, n);
+      if (schedule.endDate && occurrence > schedule.endDate) return null;
+      if (occurrence > after && !skipped.has(occurrence)) return occurrence;
+    }
+  }
+
+  /**
+   * Whether a date is a (non-skipped) occurrence of the schedule
+   */
+  static isOccurrence(schedule: RecurrenceSchedule, date: string): boolean {
+    return RecurrenceCalculator.occurrencesBetween({ ...schedule, paused: false }, date, date).length > 0;
+  }
+
+  /**
+   * The day after a YYYY-MM-DD date
+   */
+  static dayAfter(date: string): string {
+    return formatDate(new Date(parseDate(date).getTime() + DAY_MS));
+  }
+}
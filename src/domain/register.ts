@@ -0,0 +1,80 @@
+// Account register: an account's movements in date order with a running balance.
+// Works in minor units and YYYY-MM-DD dates so the client and the API server
+// build the same register from their own data.
+import type { AccountNature } from './ledger';
+
+// Net-worth accounts have no postings; their history comes from month-end
+// snapshots and the account's current balance
+export type RegisterSource = 'posting' | 'snapshot' | 'current';
+
+export interface RegisterMovement {
+  id: string;
+  date: string; // YYYY-MM-DD
+  description: string;
+  source?: RegisterSource; // Defaults to 'posting'
+  amountCents: number; // Signed: positive increases the account balance
+  reference?: string;
+  transactionId?: string;
+  reconciled?: boolean; // Posting cleared by a bank reconciliation
+}
+
+export interface RegisterEntry extends RegisterMovement {
+  balanceCents: number; // Running balance after this movement
+}
+
+export interface RegisterRange {
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string; // YYYY-MM-DD, inclusive
+}
+
+export interface AccountRegisterView {
+  openingBalanceCents: number; // Balance before the first day of the range
+  closingBalanceCents: number; // Balance at the end of the range
+  increasesCents: number;
+  decreasesCents: number; // Positive total of the movements that lowered the balance
+  entries: RegisterEntry[];
+}
+
+export class AccountRegister {
+  /**
+   * Signed effect of a posting on an account's balance.
+   * Assets and expenses grow with debits; liabilities, equity and income with credits.
+   */
+  static signedAmount(nature: AccountNature, isDebit: boolean, amountCents: number): number {
+    const debitNormal = nature === 'asset' || nature === 'expense';
+    return isDebit === debitNormal ? amountCents : -amountCents;
+  }
+
+  /**
+   * Build the register for a date range. Movements before the range roll into the
+   * opening balance; movements after it are ignored.
+   */
+  static build(movements: RegisterMovement[], range: RegisterRange = {}): AccountRegisterView {
+    const sorted = [...movements].sort((a, b) => a.date.localeCompare(b.date));
+
+    let balance = 0;
+    let openingBalanceCents = 0;
+    let increasesCents = 0;
+    let decreasesCents = 0;
+    const entries: RegisterEntry[] = [];
+
+    for (const movement of sorted) {
+      if (range.to && movement.date > range.to) break;
+
+      balance += movement.amountCents;
+      if (range.from && movement.date < range.from) {
+        openingBalanceCents = balance;
+        continue;
+      }
+
+      if (movement.amountCents >= 0) {
+        increasesCents += movement.amountCents;
+      } else {
+        decreasesCents -= movement.amountCents;
+      }
+      entries.push({ ...movement, balanceCents: balance });
+    }
+
+    return { openingBalanceCents, closingBalanceCents: balance, increasesCents, decreasesCents, entries };
+  }
+}
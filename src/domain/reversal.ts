@@ -0,0 +1,110 @@
+// Voiding and reversing: posted transactions are never removed. An offsetting
+// transaction with every debit and credit swapped cancels the original and links
+// back to it. A void cancels on the original date and hides both entries from
+// reports; a reversal cancels on a later date, so the original counts until then.
+import type { Posting, Transaction } from './ledger';
+
+export type TransactionStatus = 'posted' | 'voided';
+export type ReversalKind = 'void' | 'reverse';
+
+export interface ReversibleTransaction {
+  date: string; // YYYY-MM-DD
+  status: TransactionStatus;
+  reversesId: string | null; // Set on the offsetting entry
+  reversedById: string | null; // Set on the original once cancelled
+}
+
+export interface ReversalLinks {
+  id: string;
+  status?: TransactionStatus;
+  reversesId?: string;
+  reversedById?: string;
+}
+
+export class Reversal {
+  /**
+   * Error message when the transaction cannot be voided or reversed on the date, or null when it can
+   */
+  static validate(transaction: ReversibleTransaction, kind: ReversalKind, date: string): string | null {
+    if (transaction.status === 'voided') {
+      return 'Transaction is already voided';
+    }
+    if (transaction.reversedById) {
+      return 'Transaction has already been reversed';
+    }
+    if (transaction.reversesId) {
+      return 'A reversing entry cannot itself be voided or reversed';
+    }
+    if (kind === 'reverse' && date < transaction.date) {
+      return 'A reversal cannot be dated before the original transaction';
+    }
+    return null;
+  }
+
+  /**
+   * Description of the offsetting entry
+   */
+  static description(kind: ReversalKind, description: string): string {
+    return kind === 'void' ? `Void: ${description}` : `Reversal: ${description}`;
+  }
+
+  /**
+   * Whether an entry counts in reports; voided entries only show when asked for
+   */
+  static isReported(transaction: { status?: TransactionStatus | null }, includeVoided = false): boolean {
+    return includeVoided || transaction.status !== 'voided';
+  }
+
+  /**
+   * The offsetting ledger transaction: the same lines on the opposite side, with new posting ids
+   */
+  static offset(
+    transaction: Transaction,
+    kind: ReversalKind,
+    date: Date,
+    reason?: string
+  ): Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'> {
+    const swap = (posting: Posting): Posting => ({
+      id: crypto.randomUUID(),
+      accountId: posting.accountId,
+      originalDebitAmount: posting.originalCreditAmount,
+      originalCreditAmount: posting.originalDebitAmount,
+      bookedDebitAmount: posting.bookedCreditAmount,
+      bookedCreditAmount: posting.bookedDebitAmount,
+      exchangeRate: posting.exchangeRate,
+      description: posting.description,
+      reconciled: false,
+    });
+
+    return {
+      date,
+      description: Reversal.description(kind, transaction.description),
+      memo: reason?.trim() || undefined,
+      reference: transaction.reference,
+      transactionType: transaction.transactionType,
+      baseCurrency: transaction.baseCurrency,
+      tags: transaction.tags,
+      postings: transaction.postings.map(swap),
+      status: kind === 'void' ? 'voided' : 'posted',
+      reversesId: transaction.id,
+    };
+  }
+
+  /**
+   * The entries linked to a transaction by voids and reversals, original first
+   */
+  static chain<T extends ReversalLinks>(transactions: T[], id: string): T[] {
+    const byId = new Map(transactions.map((transaction) => [transaction.id, transaction]));
+    let current = byId.get(id);
+    while (current?.reversesId && byId.has(current.reversesId)) {
+      current = byId.get(current.reversesId);
+    }
+
+    const chain: T[] = [];
+    while (current && !chain.includes(current)) {
+      chain.push(current);
+      current = current.reversedById ? byId.get(current.reversedById) : undefined;
+    }
+    return chain;
+  }
+}
@@ -0,0 +1,92 @@
+// Split expenses: one expense (e.g. a supermarket receipt) divided into lines
+// with their own amount, rating and category
+
+import type { ExpenseRating } from '../types';
+
+export interface ExpenseSplit {
+  amount: number;
+  rating: ExpenseRating;
+  category?: string;
+  subcategory?: string;
+  note?: string;
+}
+
+export interface Splittable {
+  amount: number;
+  rating: ExpenseRating;
+  category?: string;
+  subcategory?: string;
+  splits?: ExpenseSplit[];
+}
+
+export const MIN_SPLIT_LINES = 2;
+
+const toCents = (amount: number): number => Math.round(amount * 100);
+
+export class ExpenseSplitter {
+  /**
+   * Whether an expense is divided into split lines
+   */
+  static isSplit(expense: Pick<Splittable, 'splits'>): boolean {
+    return (expense.splits?.length ?? 0) > 0;
+  }
+
+  /**
+   * Amount of the total not yet assigned to a line (negative when over-assigned)
+   */
+  static remaining(total: number, splits: ExpenseSplit[]): number {
+    const assignedCents = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+    return (toCents(total) - assignedCents) / 100;
+  }
+
+  /**
+   * Error message for an invalid set of split lines, or null when valid.
+   * An empty list is valid and means the expense is not split.
+   */
+  static validate(total: number, splits: ExpenseSplit[]): string | null {
+    if (splits.length === 0) return null;
+    if (splits.length < MIN_SPLIT_LINES) {
+      return `A split needs at least ${MIN_SPLIT_LINES} lines`;
+    }
+    if (splits.some((split) => !Number.isFinite(split.amount) || toCents(split.amount) <= 0)) {
+      return 'Every split line needs a positive amount';
+    }
+    if (ExpenseSplitter.remaining(total, splits) !== 0) {
+      return 'Split lines must add up to the expense total';
+    }
+    return null;
+  }
+
+  /**
+   * One entry per split line carrying the line's amount, rating and category,
+   * or the expense itself when it is not split. Use this wherever spending is
+   * broken down by rating or category.
+   */
+  static expand<T extends Splittable>(expense: T): T[] {
+    const splits = expense.splits ?? [];
+    if (splits.length === 0) return [expense];
+
+    return splits.map((split) => ({
+      ...expense,
+      amount: split.amount,
+      rating: split.rating,
+      category: split.category,
+      subcategory: split.subcategory,
+      splits: undefined,
+    }));
+  }
+
+  /**
+   * Expand every expense in a list into its split lines
+   */
+  static expandAll<T extends Splittable>(expenses: T[]): T[] {
+    return expenses.flatMap((expense) => ExpenseSplitter.expand(expense));
+  }
+
+  /**
+   * Amount of each line in cents, for ledger postings
+   */
+  static toCents(splits: ExpenseSplit[]): number[] {
+    return splits.map((split) => toCents(split.amount));
+  }
+}
@@ -0,0 +1,89 @@
+// Tags group entries across accounts and categories, e.g. a trip or a home
+// renovation. Entries store tag names, so renaming or merging a tag rewrites
+// the names on every entry that carries it.
+
+export const MAX_TAG_LENGTH = 50;
+
+export const TAG_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#6b7280'];
+
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+export interface TaggedAmount {
+  tags: string[];
+  kind: 'income' | 'expense';
+  amountCents: number; // In the report currency
+}
+
+export interface TagSummary {
+  tag: string;
+  expenseCents: number;
+  incomeCents: number;
+  netCents: number; // Income less expenses
+  entryCount: number;
+}
+
+export class Tags {
+  /**
+   * Canonical form of a tag name: trimmed, single-spaced and lower case
+   */
+  static normalize(name: string): string {
+    return name.trim().replace(/\s+/g, ' ').toLowerCase();
+  }
+
+  /**
+   * Error message for an unusable tag name, or null when valid
+   */
+  static validateName(name: string): string | null {
+    const normalized = Tags.normalize(name);
+    if (!normalized) {
+      return 'Tag name is required';
+    }
+    if (normalized.length > MAX_TAG_LENGTH) {
+      return `Tag names can be at most ${MAX_TAG_LENGTH} characters`;
+    }
+    return null;
+  }
+
+  /**
+   * Canonical names for a list of tags, without blanks or duplicates
+   */
+  static normalizeList(tags: string[]): string[] {
+    return [...new Set(tags.map(Tags.normalize).filter(Boolean))];
+  }
+
+  static isValidColor(color: string): boolean {
+    return COLOR_PATTERN.test(color);
+  }
+
+  /**
+   * Replace every name in `from` with `to` (or drop them when `to` is null),
+   * keeping the original order and no duplicates
+   */
+  static replace(tags: string[], from: string[], to: string | null): string[] {
+    const replaced = tags.flatMap((tag) => (from.includes(tag) ? (to ? [to] : []) : [tag]));
+    return [...new Set(replaced)];
+  }
+
+  /**
+   * Totals per tag, largest spending first. An entry with several tags counts toward each of them.
+   */
+  static summarize(entries: TaggedAmount[]): TagSummary[] {
+    const byTag = new Map<string, TagSummary>();
+    for (const entry of entries) {
+      for (const tag of new Set(entry.tags)) {
+        const summary = byTag.get(tag) ?? { tag, expenseCents: 0, incomeCents: 0, netCents: 0, entryCount: 0 };
+        if (entry.kind === 'expense') {
+          summary.expenseCents += entry.amountCents;
+          summary.netCents -= entry.amountCents;
+        } else {
+          summary.incomeCents += entry.amountCents;
+          summary.netCents += entry.amountCents;
+        }
+        summary.entryCount++;
+        byTag.set(tag, summary);
+      }
+    }
+
+    return [...byTag.values()].sort((a, b) => b.expenseCents - a.expenseCents || a.tag.localeCompare(b.tag));
+  }
+}
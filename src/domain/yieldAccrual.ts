@@ -0,0 +1,174 @@
+// Yield accrual: interest credited to an interest-bearing account at the end of
+// each accrual period, at the account's estimated yield. Periods end on calendar
+// month, quarter or year ends; a period the terms start partway through earns
+// interest for the days it covers. Simple interest is worked on a fixed principal,
+// compound interest on the balance including what was credited before.
+import type { JournalLine } from './journal';
+import type { TransactionStatus } from './reversal';
+
+export type YieldMethod = 'simple' | 'compound';
+export type YieldFrequency = 'monthly' | 'quarterly' | 'annually';
+
+export const YIELD_METHODS: YieldMethod[] = ['simple', 'compound'];
+export const YIELD_FREQUENCIES: YieldFrequency[] = ['monthly', 'quarterly', 'annually'];
+
+// Tag on the ledger entry for each posted accrual
+export const YIELD_ACCRUAL_TAG = 'yield-accrual';
+
+// Source prefix of the income recorded for each accrual
+export const INVESTMENT_YIELD_PREFIX = 'Investment yield:';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS_PER_PERIOD: Record<YieldFrequency, number> = { monthly: 1, quarterly: 3, annually: 12 };
+
+export interface YieldTerms {
+  method: YieldMethod;
+  frequency: YieldFrequency;
+  startDate: string; // YYYY-MM-DD; interest accrues from this day
+  principal?: number; // Simple interest only: the amount interest is paid on, major units
+}
+
+export interface AccrualLine {
+  periodEnd: string; // YYYY-MM-DD
+  baseCents: number; // Amount the interest was worked on
+  interestCents: number;
+  balanceCents: number; // Account balance once credited
+}
+
+export interface YieldAccrualAccounts {
+  accountId: string; // Asset credited with the interest
+  incomeAccountId: string; // Income the interest is booked to
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Last day of a month given as a 0-based index counted from year 0
+const monthEnd = (index: number): string => {
+  const year = Math.floor(index / 12);
+  const month = index % 12;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return `${year}-${pad(month + 1)}-${pad(lastDay)}`;
+};
+
+const dayNumber = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return Date.UTC(year, month - 1, day) / DAY_MS;
+};
+
+export class YieldAccruals {
+  /**
+   * Error message for terms that cannot accrue, or null when they can
+   */
+  static validate(terms: YieldTerms): string | null {
+    if (!YIELD_METHODS.includes(terms.method)) {
+      return 'Invalid interest method';
+    }
+    if (!YIELD_FREQUENCIES.includes(terms.frequency)) {
+      return 'Invalid accrual frequency';
+    }
+    if (!DATE_PATTERN.test(terms.startDate)) {
+      return 'Start date is required';
+    }
+    if (terms.method === 'simple' && (!Number.isFinite(terms.principal) || (terms.principal ?? 0) <= 0)) {
+      return 'Principal must be greater than zero';
+    }
+    return null;
+  }
+
+  /**
+   * Period ends after `after` (exclusive, when given) up to `asOf`, from the start date on
+   */
+  static periodEnds(terms: YieldTerms, after: string | null, asOf: string): string[] {
+    const [year, month] = terms.startDate.split('-').map(Number);
+    const step = MONTHS_PER_PERIOD[terms.frequency];
+    // First calendar period end on or after the start
+    let index = year * 12 + month - 1;
+    index += (step - 1) - (index % step);
+
+    const ends: string[] = [];
+    for (let end = monthEnd(index); end <= asOf; index += step, end = monthEnd(index)) {
+      if (!after || end > after) ends.push(end);
+    }
+    return ends;
+  }
+
+  /**
+   * Interest for the period ending `periodEnd`, prorated by day when the terms start partway through it
+   */
+  static interestCents(terms: YieldTerms, annualRate: number, baseCents: number, periodEnd: string): number {
+    const [year, month] = periodEnd.split('-').map(Number);
+    const periodStart = monthEnd(year * 12 + month - 1 - MONTHS_PER_PERIOD[terms.frequency]);
+    const periodDays = dayNumber(periodEnd) - dayNumber(periodStart);
+    const accruedDays = Math.min(dayNumber(periodEnd) - dayNumber(terms.startDate) + 1, periodDays);
+    const periodsPerYear = 12 / MONTHS_PER_PERIOD[terms.frequency];
+    return Math.max(Math.round((baseCents * annualRate) / 100 / periodsPerYear * (accruedDays / periodDays)), 0);
+  }
+
+  /**
+   * Accruals due up to `asOf` for periods after `accruedThrough`, starting from the
+   * current balance. Periods that would earn nothing are left out.
+   */
+  static plan(
+    terms: YieldTerms,
+    annualRate: number,
+    balanceCents: number,
+    accruedThrough: string | null,
+    asOf: string
+  ): AccrualLine[] {
+    if (!(annualRate > 0)) return [];
+
+    const lines: AccrualLine[] = [];
+    let balance = balanceCents;
+    for (const periodEnd of YieldAccruals.periodEnds(terms, accruedThrough, asOf)) {
+      const baseCents = terms.method === 'simple' ? Math.round((terms.principal ?? 0) * 100) : balance;
+      const interestCents = YieldAccruals.interestCents(terms, annualRate, baseCents, periodEnd);
+      if (interestCents === 0) continue;
+      balance += interestCents;
+      lines.push({ periodEnd, baseCents, interestCents, balanceCents: balance });
+    }
+    return lines;
+  }
+
+  /**
+   * Reference on the ledger entry for a posted accrual, one per account and period
+   */
+  static reference(netWorthAccountId: string, periodEnd: string): string {
+    return `yield:${netWorthAccountId}:${periodEnd}`;
+  }
+
+  /**
+   * Period ends already in the ledger; voided or reversed accruals can be posted again
+   */
+  static postedPeriods(
+    transactions: Array<{ reference?: string; status?: TransactionStatus; reversedById?: string }>,
+    netWorthAccountId: string
+  ): Set<string> {
+    const prefix = `yield:${netWorthAccountId}:`;
+    return new Set(
+      transactions
+        .filter((tx) => tx.reference?.startsWith(prefix) && tx.status !== 'voided' && !tx.reversedById)
+        .map((tx) => tx.reference!.slice(prefix.length))
+    );
+  }
+
+  /**
+   * Journal lines for one accrual: the account grows by the interest, booked as income
+   */
+  static toJournalLines(
+    interestCents: number,
+    accounts: YieldAccrualAccounts,
+    currency: string,
+    exchangeRate?: number
+  ): JournalLine[] {
+    const line = (accountId: string, side: JournalLine['side']): JournalLine => ({
+      accountId,
+      side,
+      amount: interestCents / 100,
+      currency,
+      exchangeRate,
+    });
+    return [line(accounts.accountId, 'debit'), line(accounts.incomeAccountId, 'credit')];
+  }
+}
@@ -40,6 +40,7 @@ const resources = {
       "nav.expenses": "Expenses",
       "nav.netWorth": "Net Worth",
       "nav.accounts": "Accounts",
+      "nav.reports": "Reports",
       "nav.admin": "Admin",
       "nav.lightMode": "Light Mode",
       "nav.darkMode": "Dark Mode",
@@ -103,6 +104,7 @@ const resources = {
       "dashboard.pageOf":
         "Page {{current}} of {{total}} ({{count}} total)",
       "dashboard.expenseBreakdown": "Expense Breakdown",
+      "dashboard.byCategory": "By Category",
       "dashboard.essential": "Essential",
       "dashboard.discretionary": "Discretionary",
       "dashboard.luxury": "Luxury",
@@ -121,6 +123,21 @@ const resources = {
       "dashboard.tip2": "Review non-essential expenses monthly",
       "dashboard.tip3": "Track spending patterns over time",
 
+      // ── Budgets ──────────────────────────────────────────────────────
+      "budgets.title": "Budgets",
+      "budgets.add": "Add Budget",
+      "budgets.delete": "Delete budget",
+      "budgets.byRating": "By rating",
+      "budgets.byCategory": "By category",
+      "budgets.categoryPlaceholder": "Category",
+      "budgets.monthlyLimit": "Monthly limit",
+      "budgets.rollover": "Roll over unspent amount",
+      "budgets.empty": "No budgets yet. Add one to track spending against a limit.",
+      "budgets.left": "{{amount}} left",
+      "budgets.over": "{{amount}} over",
+      "budgets.carried": "+{{amount}} rolled over",
+      "budgets.addFailed": "Failed to add budget",
+
       // ── Income ───────────────────────────────────────────────────────
       "income.quickAdd": "Quick Add",
       "income.source": "Source",
@@ -164,13 +181,18 @@ const resources = {
       "expenses.descriptionHeader": "Description",
       "expenses.amountHeader": "Amount",
       "expenses.currencyHeader": "Currency",
+      "expenses.ratingHeader": "Rating",
       "expenses.categoryHeader": "Category",
+      "expenses.subcategoryHeader": "Subcategory",
       "expenses.dateHeader": "Date",
       "expenses.dueDateHeader": "Due Date",
       "expenses.searchDescription": "Search description...",
       "expenses.search": "Search...",
       "expenses.allCurrencies": "All Currencies",
+      "expenses.allRatings": "All Ratings",
       "expenses.allCategories": "All Categories",
+      "expenses.allSubcategories": "All Subcategories",
+      "expenses.uncategorized": "Uncategorized",
       "expenses.clear": "Clear",
       "expenses.emptyRecurring":
         "No recurring expenses. Mark an expense as recurring to have it appear here.",
@@ -406,6 +428,486 @@ const resources = {
       "import.selectFile": "Select File",
       "import.excelError":
         "Please select an Excel file (.xlsx or .xls extension)",
+      "import.fileTypeError":
+        "Please select an Excel file (.xlsx, .xls) or a bank statement (.ofx, .qfx, CAMT.053 .xml)",
+      "import.supportedFormatsStatements":
+        "Supported formats: Excel (.xlsx, .xls), bank statements (OFX, QFX, CAMT.053)",
+      "import.statementLoaded": "{{format}} statement with {{count}} transactions",
+      "import.statementSkipped": "{{count}} transactions don't apply to {{entity}} and were left out",
+      "import.duplicateRows": "{{count}} likely duplicates",
+      "import.duplicatesHint":
+        "Some rows look like entries you already have. They are skipped unless you choose to merge them into the existing entry or import them anyway.",
+      "import.duplicateOf": "Looks like: {{label}}",
+      "import.duplicateSkip": "Skip",
+      "import.duplicateMerge": "Merge",
+      "import.duplicateImport": "Import",
+
+      // ── Duplicates ───────────────────────────────────────────────────
+      "duplicates.find": "Find duplicates",
+      "duplicates.title": "Duplicate {{entity}}",
+      "duplicates.description": "Same amount and currency, close dates and similar descriptions",
+      "duplicates.none": "No likely duplicate {{entity}} found",
+      "duplicates.groupCount": "{{count}} groups of likely duplicates",
+      "duplicates.keepFirst": "Keep oldest, delete the rest",
+      "duplicates.done": "Done",
+
+      // ── Categorization Rules ─────────────────────────────────────────
+      "rules.button": "Rules",
+      "rules.title": "Categorization rules",
+      "rules.description": "Rules set the category, rating and recurring flag of new and imported expenses",
+      "rules.empty": "No rules yet. Start from the built-in keyword rules or add your own.",
+      "rules.addStarterRules": "Add starter rules",
+      "rules.addRule": "Add rule",
+      "rules.newRule": "New rule",
+      "rules.editRule": "Edit rule",
+      "rules.orderHint": "Rules run top to bottom; the first matching rule wins",
+      "rules.enabled": "Enabled",
+      "rules.name": "Name",
+      "rules.conditions": "When",
+      "rules.actions": "Then",
+      "rules.descriptionPattern": "Description matches (regular expression)",
+      "rules.minAmount": "Minimum amount",
+      "rules.maxAmount": "Maximum amount",
+      "rules.currency": "Currency",
+      "rules.account": "Paid from account",
+      "rules.any": "Any",
+      "rules.category": "Category",
+      "rules.subcategory": "Subcategory",
+      "rules.rating": "Rating",
+      "rules.recurring": "Recurring",
+      "rules.recurringYes": "Recurring",
+      "rules.recurringNo": "One-time",
+      "rules.unchanged": "Leave unchanged",
+      "rules.applyToHistory": "Re-run on history",
+      "rules.applied": "{{count}} expenses updated",
+
+      // ── Split Expenses ───────────────────────────────────────────────
+      "splits.title": "Split expense",
+      "splits.description": "Divide {{what}} ({{amount}}) into lines with their own rating and category",
+      "splits.lines": "Split · {{count}} lines",
+      "splits.amount": "Amount",
+      "splits.note": "Note (optional)",
+      "splits.addLine": "Add line",
+      "splits.removeLine": "Remove line",
+      "splits.remaining": "Left to assign: {{amount}}",
+      "splits.remove": "Remove split",
+
+      // ── Journal ──────────────────────────────────────────────────────
+      "journal.title": "General Journal",
+      "journal.count": "{{count}} entries",
+      "journal.newEntry": "New journal entry",
+      "journal.entryDescription": "Debit and credit lines must balance in {{currency}} at their booked rates",
+      "journal.post": "Post entry",
+      "journal.date": "Date",
+      "journal.descriptionLabel": "Description",
+      "journal.memo": "Memo",
+      "journal.reference": "Reference",
+      "journal.tags": "Tags",
+      "journal.type": "Type",
+      "journal.types.adjustment": "Adjustment",
+      "journal.types.income": "Income",
+      "journal.types.expense": "Expense",
+      "journal.types.transfer": "Transfer",
+      "journal.account": "Account",
+      "journal.selectAccount": "Select account",
+      "journal.side": "Side",
+      "journal.debit": "Debit",
+      "journal.credit": "Credit",
+      "journal.amount": "Amount",
+      "journal.currency": "Currency",
+      "journal.rate": "Booked rate",
+      "journal.addLine": "Add line",
+      "journal.removeLine": "Remove line",
+      "journal.totals": "Debits {{debits}} · Credits {{credits}}",
+      "journal.balanced": "Balanced",
+      "journal.outOfBalance": "Out of balance by {{amount}}",
+      "journal.allAccounts": "All accounts",
+      "journal.allTypes": "All types",
+      "journal.dateFrom": "From date",
+      "journal.dateTo": "To date",
+      "journal.clearFilters": "Clear filters",
+      "journal.empty": "No journal entries match these filters",
+
+      // ── Account Register ─────────────────────────────────────────────
+      "register.open": "View register",
+      "register.title": "Register · {{name}}",
+      "register.ledgerDescription": "Every posting to this account with its running balance",
+      "register.netWorthDescription": "Balance changes recorded in month-end snapshots and today's balance",
+      "register.from": "From",
+      "register.to": "To",
+      "register.opening": "Opening balance",
+      "register.increases": "Increases",
+      "register.decreases": "Decreases",
+      "register.closing": "Closing balance",
+      "register.date": "Date",
+      "register.description": "Description",
+      "register.amount": "Amount",
+      "register.balance": "Balance",
+      "register.empty": "No movements in this period",
+      "register.sources.posting": "Posting",
+      "register.sources.snapshot": "Month-end balance",
+      "register.sources.current": "Current balance",
+      "register.reconciled": "Reconciled",
+
+      // ── Reconciliation ───────────────────────────────────────────────
+      "reconcile.open": "Reconcile",
+      "reconcile.title": "Reconcile · {{name}}",
+      "reconcile.description": "Tick the postings that appear on the bank statement until the difference is zero",
+      "reconcile.statementDate": "Statement date",
+      "reconcile.statementBalance": "Statement ending balance",
+      "reconcile.cleared": "Cleared balance",
+      "reconcile.statement": "Statement balance",
+      "reconcile.difference": "Difference",
+      "reconcile.empty": "No unreconciled postings up to the statement date",
+      "reconcile.finish": "Finish reconciliation",
+      "reconcile.failed": "Failed to reconcile",
+      "reconcile.history": "Reconciliation history",
+      "reconcile.noHistory": "This account has not been reconciled yet",
+      "reconcile.postingCount": "{{count}} postings",
+
+      // ── Period Close ─────────────────────────────────────────────────
+      "periods.title": "Month-end close",
+      "periods.description": "Closed months are locked; their journal entries cannot be added, edited or deleted",
+      "periods.takeSnapshot": "Save net worth snapshot when closing",
+      "periods.open": "Open",
+      "periods.closedOn": "Closed {{date}}",
+      "periods.close": "Close month",
+      "periods.reopen": "Reopen",
+      "periods.reasonPlaceholder": "Reason for reopening",
+      "periods.confirmReopen": "Confirm reopen",
+      "periods.cancel": "Cancel",
+      "periods.failed": "Failed to update period",
+      "periods.history": "Close history",
+      "periods.actions.close": "Closed {{period}}",
+      "periods.actions.reopen": "Reopened {{period}}",
+      "periods.locked": "Closed period",
+
+      // ── FX Revaluation ───────────────────────────────────────────────
+      "fxRevaluation.open": "Revalue FX",
+      "fxRevaluation.title": "FX revaluation",
+      "fxRevaluation.description": "Restate foreign-currency balances at current rates and post the unrealized gain or loss",
+      "fxRevaluation.date": "Revaluation date",
+      "fxRevaluation.gainLossAccount": "Gain/loss account",
+      "fxRevaluation.preview": "Preview",
+      "fxRevaluation.post": "Post adjustment",
+      "fxRevaluation.posted": "Adjusting entry posted",
+      "fxRevaluation.empty": "No foreign-currency balances to revalue",
+      "fxRevaluation.account": "Account",
+      "fxRevaluation.balance": "Balance",
+      "fxRevaluation.booked": "Booked",
+      "fxRevaluation.rate": "Rate",
+      "fxRevaluation.revalued": "Revalued",
+      "fxRevaluation.adjustment": "Adjustment",
+      "fxRevaluation.totalGain": "Unrealized gain",
+      "fxRevaluation.totalLoss": "Unrealized loss",
+      "fxRevaluation.failed": "Failed to revalue balances",
+
+      // ── Reports ──────────────────────────────────────────────────────
+      "reports.title": "Reports",
+      "reports.description": "Compare statements across periods",
+      "reports.incomeStatement": "Income statement",
+      "reports.balanceSheet": "Balance sheet",
+      "reports.granularity": "Period length",
+      "reports.granularities.month": "Monthly",
+      "reports.granularities.quarter": "Quarterly",
+      "reports.granularities.year": "Yearly",
+      "reports.periods": "Number of periods",
+      "reports.periodCount": "{{count}} periods",
+      "reports.endDate": "Last period includes",
+      "reports.account": "Account",
+      "reports.change": "Change",
+      "reports.changePercent": "Change %",
+      "reports.ttm": "Last 12 months",
+      "reports.income": "Income",
+      "reports.expenses": "Expenses",
+      "reports.netIncome": "Net income",
+      "reports.assets": "Assets",
+      "reports.liabilities": "Liabilities",
+      "reports.equity": "Equity",
+      "reports.netWorth": "Net worth",
+      "reports.total": "Total {{section}}",
+
+      // ── Account Tree ─────────────────────────────────────────────────
+      "accountTree.title": "Account Hierarchy",
+      "accountTree.description": "Nest sub-accounts and see subtotals at every level",
+      "accountTree.newAccount": "New account",
+      "accountTree.code": "Code",
+      "accountTree.name": "Name",
+      "accountTree.nature": "Type",
+      "accountTree.parent": "Parent account",
+      "accountTree.noParent": "No parent (top level)",
+      "accountTree.create": "Create",
+      "accountTree.expand": "Expand",
+      "accountTree.collapse": "Collapse",
+      "accountTree.subtotal": "Subtotal including sub-accounts",
+      "accountTree.dragHint": "Drag an account onto another to nest it, or onto a type header to move it to the top level.",
+      "accountTree.failed": "Could not update the account",
+      "accountTree.natures.asset": "Assets",
+      "accountTree.natures.liability": "Liabilities",
+      "accountTree.natures.equity": "Equity",
+      "accountTree.natures.income": "Income",
+      "accountTree.natures.expense": "Expenses",
+
+      // ── Tags ─────────────────────────────────────────────────────────
+      "tags.placeholder": "Add a tag…",
+      "tags.remove": "Remove tag {{name}}",
+      "tags.failed": "Could not save the tag",
+      "tags.allTags": "All tags",
+      "tags.report": "Spending by tag",
+      "tags.reportEmpty": "No tagged expenses or income in this range",
+      "tags.startDate": "Start date",
+      "tags.tag": "Tag",
+      "tags.net": "Net",
+      "tags.entries": "Entries",
+      "tags.manage": "Manage tags",
+      "tags.manageDescription": "Rename, recolor, merge or delete tags. Changes apply to every tagged entry.",
+      "tags.newPlaceholder": "New tag name",
+      "tags.add": "Add",
+      "tags.empty": "No tags yet",
+      "tags.select": "Select {{name}}",
+      "tags.color": "Color for {{name}}",
+      "tags.delete": "Delete {{name}}",
+      "tags.confirmDelete": "Delete the tag {{name}}? It will be removed from every entry.",
+      "tags.mergeInto": "Merge selected tags into",
+      "tags.merge": "Merge {{count}} tags",
+
+      // ── Voids & Reversals ────────────────────────────────────────────
+      "reversal.showVoided": "Show voided",
+      "reversal.open": "Open transaction",
+      "reversal.chain": "Reversal chain",
+      "reversal.status.posted": "Posted",
+      "reversal.status.voided": "Voided",
+      "reversal.status.voidEntry": "Void entry",
+      "reversal.status.reversed": "Reversed",
+      "reversal.status.reversal": "Reversing entry",
+      "reversal.reasonPlaceholder": "Reason (optional)",
+      "reversal.void": "Void",
+      "reversal.voidHint": "Cancel on the original date and hide both entries from reports",
+      "reversal.reverse": "Reverse on",
+      "reversal.reverseHint": "Cancel on the chosen date; the original counts until then",
+      "reversal.date": "Reversal date",
+      "reversal.failed": "Could not cancel the transaction",
+
+      // ── Opening Balances ─────────────────────────────────────────────
+      "openingBalances.button": "Opening balances",
+      "openingBalances.buttonHint": "Bring these balances into the ledger",
+      "openingBalances.title": "Opening balances",
+      "openingBalances.description": "Post one dated entry that brings these balances into the ledger",
+      "openingBalances.date": "As of",
+      "openingBalances.empty": "Add accounts with a balance first",
+      "openingBalances.alreadyPosted": "Already in the ledger",
+      "openingBalances.preview": "Entry preview",
+      "openingBalances.newAccount": "{{name}} (new account)",
+      "openingBalances.post": "Post opening balances",
+      "openingBalances.cancel": "Cancel",
+      "openingBalances.failed": "Could not post the opening balances",
+      "openingBalances.checkTitle": "Net worth vs ledger",
+      "openingBalances.allMatched": "Every linked account matches",
+      "openingBalances.divergedCount": "{{count}} accounts differ",
+      "openingBalances.netWorth": "Net worth",
+      "openingBalances.ledger": "Ledger",
+      "openingBalances.difference": "Difference",
+      "openingBalances.status": "Status",
+      "openingBalances.statuses.matched": "Matches",
+      "openingBalances.statuses.diverged": "Differs",
+      "openingBalances.statuses.unlinked": "Not in ledger",
+
+      // ── Edit History ─────────────────────────────────────────────────
+      "history.title": "Edit history",
+      "history.loading": "Loading history…",
+      "history.empty": "No edits yet",
+      "history.restore": "Restore",
+      "history.restoreHint": "Put back the values from before this edit",
+      "history.restoreFailed": "Could not restore this version",
+      "history.fields.what": "Description",
+      "history.fields.source": "Source",
+      "history.fields.name": "Name",
+      "history.fields.amount": "Amount",
+      "history.fields.balance": "Balance",
+      "history.fields.currency": "Currency",
+      "history.fields.rating": "Rating",
+      "history.fields.frequency": "Frequency",
+      "history.fields.date": "Date",
+      "history.fields.category": "Category",
+      "history.fields.subcategory": "Subcategory",
+      "history.fields.recurring": "Recurring",
+      "history.fields.splits": "Split lines",
+      "history.fields.tags": "Tags",
+      "history.fields.type": "Type",
+      "history.fields.excludeFromTotal": "Excluded from total",
+      "history.fields.dueDate": "Due date",
+      "history.fields.estimatedYield": "Estimated yield",
+      "history.fields.loanTerms": "Loan terms",
+      "history.fields.cardTerms": "Card terms",
+      "history.fields.costBasisMethod": "Cost basis method",
+      "history.fields.yieldTerms": "Yield terms",
+      "history.fields.postings": "Postings",
+
+      // ── Loans ────────────────────────────────────────────────────────
+      "loans.title": "Loan schedule",
+      "loans.principal": "Principal",
+      "loans.annualRate": "Annual rate %",
+      "loans.termMonths": "Term (months)",
+      "loans.startDate": "Start date",
+      "loans.extraMonthly": "Extra per month",
+      "loans.extraPayments": "Extra payments",
+      "loans.addExtra": "Add a one-off extra payment",
+      "loans.removeExtra": "Remove extra payment",
+      "loans.monthlyPayment": "Monthly payment",
+      "loans.totalInterest": "Total interest",
+      "loans.payoffDate": "Payoff date",
+      "loans.monthsSaved": "Months saved",
+      "loans.payFrom": "Pay from",
+      "loans.saveToPost": "Save the terms to post payments",
+      "loans.date": "Date",
+      "loans.payment": "Payment",
+      "loans.interest": "Interest",
+      "loans.principalPaid": "Principal",
+      "loans.extra": "Extra",
+      "loans.balance": "Balance",
+      "loans.post": "Post",
+      "loans.posted": "Posted",
+      "loans.saveTerms": "Save terms",
+      "loans.removeTerms": "Remove terms",
+      "loans.close": "Close",
+      "loans.failed": "Could not update the loan",
+
+      // ── Credit Cards ─────────────────────────────────────────────────
+      "cards.title": "Card statement",
+      "cards.closingDay": "Closing day",
+      "cards.graceDays": "Grace days",
+      "cards.apr": "APR %",
+      "cards.minPaymentPercent": "Minimum %",
+      "cards.minPaymentFloor": "Minimum at least",
+      "cards.notLinked": "Link this card to the ledger with Opening balances to compute its statements",
+      "cards.cycle": "Statement cycle",
+      "cards.dueDate": "Payment due",
+      "cards.statementBalance": "Statement balance",
+      "cards.paidSinceClosing": "Paid since closing",
+      "cards.paymentToAvoidInterest": "To avoid interest",
+      "cards.minimumPayment": "Minimum payment",
+      "cards.interestIfMinimum": "Interest if only the minimum is paid",
+      "cards.currentBalance": "Current balance",
+      "cards.saveTerms": "Save terms",
+      "cards.removeTerms": "Remove terms",
+      "cards.cancel": "Cancel",
+      "cards.failed": "Could not update the card",
+
+      // ── Debt Payoff ──────────────────────────────────────────────────
+      "payoff.button": "Payoff plan",
+      "payoff.buttonHint": "Plan how to pay off your debts",
+      "payoff.title": "Debt payoff planner",
+      "payoff.description": "Amounts in {{currency}}",
+      "payoff.empty": "No liabilities with a balance to plan",
+      "payoff.budget": "Monthly budget",
+      "payoff.strategy": "Strategy",
+      "payoff.strategies.avalanche": "Avalanche (highest rate first)",
+      "payoff.strategies.snowball": "Snowball (smallest balance first)",
+      "payoff.strategies.custom": "Custom order",
+      "payoff.minimums": "Minimum payments: {{amount}}",
+      "payoff.debt": "Debt",
+      "payoff.balance": "Balance",
+      "payoff.rate": "Rate %",
+      "payoff.minimum": "Minimum",
+      "payoff.paidOff": "Paid off",
+      "payoff.interest": "Interest",
+      "payoff.never": "Never",
+      "payoff.moveUp": "Pay earlier",
+      "payoff.moveDown": "Pay later",
+      "payoff.debtFreeIn": "Debt-free {{period}} ({{count}} months)",
+      "payoff.notPaidOff": "Not paid off in 50 years",
+      "payoff.totalInterest": "Total interest {{amount}}",
+      "payoff.month": "Month",
+      "payoff.export": "Export CSV",
+      "payoff.close": "Close",
+
+      // ── Holdings ─────────────────────────────────────────────────────
+      "holdings.title": "Holdings",
+      "holdings.empty": "No trades yet. Record a buy to open a position.",
+      "holdings.costBasisMethod": "Cost basis",
+      "holdings.methods.fifo": "First in, first out",
+      "holdings.methods.average": "Average cost",
+      "holdings.methodLocked": "Fixed once a sale has been recorded",
+      "holdings.symbol": "Symbol",
+      "holdings.quantity": "Quantity",
+      "holdings.costBasis": "Cost basis",
+      "holdings.price": "Price",
+      "holdings.marketValue": "Market value",
+      "holdings.unrealized": "Unrealized",
+      "holdings.realized": "Realized",
+      "holdings.dividends": "Dividends",
+      "holdings.lots": "Show lots",
+      "holdings.noPrice": "No price",
+      "holdings.newTrade": "New trade",
+      "holdings.kind": "Type",
+      "holdings.kinds.buy": "Buy",
+      "holdings.kinds.sell": "Sell",
+      "holdings.kinds.dividend": "Dividend",
+      "holdings.date": "Date",
+      "holdings.amount": "Amount",
+      "holdings.fees": "Fees",
+      "holdings.payFrom": "Pay from",
+      "holdings.depositTo": "Deposit to",
+      "holdings.postTrade": "Post trade",
+      "holdings.tradePosted": "Trade posted to the ledger",
+      "holdings.prices": "Prices",
+      "holdings.savePrice": "Save price",
+      "holdings.priceSaved": "Price saved",
+      "holdings.importPrices": "Import CSV",
+      "holdings.importHint": "CSV with symbol, date and price columns",
+      "holdings.pricesImported": "{{count}} prices imported",
+      "holdings.trades": "Trades",
+      "holdings.deleteTrade": "Delete trade and void its entry",
+      "holdings.useMarketValue": "Use as balance",
+      "holdings.balanceUpdated": "Balance set to the market value",
+      "holdings.missingPrices": "Every open position needs a price",
+      "holdings.failed": "Could not update holdings",
+      "holdings.close": "Close",
+
+      // ── Yield accrual ────────────────────────────────────────────────
+      "yield.title": "Yield accrual",
+      "yield.rate": "Interest at the account's estimated yield of {{rate}}% a year is credited at the end of each period",
+      "yield.noRate": "Set an estimated yield on the account to accrue interest",
+      "yield.method": "Interest",
+      "yield.methods.simple": "Simple",
+      "yield.methods.compound": "Compound",
+      "yield.frequency": "Credited",
+      "yield.frequencies.monthly": "Monthly",
+      "yield.frequencies.quarterly": "Quarterly",
+      "yield.frequencies.annually": "Annually",
+      "yield.startDate": "Accrues from",
+      "yield.principal": "Principal",
+      "yield.due": "Due to post",
+      "yield.nothingDue": "Nothing is due yet",
+      "yield.periodEnd": "Period end",
+      "yield.base": "Earned on",
+      "yield.interest": "Interest",
+      "yield.balance": "Balance after",
+      "yield.history": "Accruals",
+      "yield.status.posted": "Posted",
+      "yield.status.undone": "Undone",
+      "yield.undo": "Undo",
+      "yield.undone": "Accrual undone",
+      "yield.post": "Post due",
+      "yield.posted": "Accruals posted: {{count}}",
+      "yield.saveTerms": "Save terms",
+      "yield.saved": "Terms saved",
+      "yield.removeTerms": "Stop accruing",
+      "yield.close": "Close",
+      "yield.failed": "Could not update the yield accrual",
+
+      // ── Projection ───────────────────────────────────────────────────
+      "projection.toggle": "Projection",
+      "projection.years": "Years",
+      "projection.growthRate": "Growth % a year",
+      "projection.inflationRate": "Inflation % a year",
+      "projection.spread": "Range ± %",
+      "projection.base": "Projected",
+      "projection.optimistic": "Optimistic",
+      "projection.pessimistic": "Pessimistic",
+      "projection.range": "Optimistic to pessimistic",
+      "projection.summary": "By {{period}}: {{base}} (between {{low}} and {{high}})",
+      "projection.note": "Assets grow at their estimated yield, or at the growth rate without one. Recurring income less recurring expenses is saved; debts are paid at their minimums.",
     },
   },
   es: {
@@ -445,6 +947,7 @@ const resources = {
       "nav.expenses": "Gastos",
       "nav.netWorth": "Patrimonio Neto",
       "nav.accounts": "Cuentas",
+      "nav.reports": "Reportes",
       "nav.admin": "Administración",
       "nav.lightMode": "Modo Claro",
       "nav.darkMode": "Modo Oscuro",
@@ -511,6 +1014,7 @@ const resources = {
       "dashboard.pageOf":
         "Página {{current}} de {{total}} ({{count}} en total)",
       "dashboard.expenseBreakdown": "Desglose de Gastos",
+      "dashboard.byCategory": "Por Categoría",
       "dashboard.essential": "Esencial",
       "dashboard.discretionary": "Discrecional",
       "dashboard.luxury": "Lujo",
@@ -533,6 +1037,22 @@ const resources = {
       "dashboard.tip3":
         "Rastrea los patrones de gasto a lo largo del tiempo",
 
+      // ── Presupuestos ─────────────────────────────────────────────────
+      "budgets.title": "Presupuestos",
+      "budgets.add": "Agregar Presupuesto",
+      "budgets.delete": "Eliminar presupuesto",
+      "budgets.byRating": "Por clasificación",
+      "budgets.byCategory": "Por categoría",
+      "budgets.categoryPlaceholder": "Categoría",
+      "budgets.monthlyLimit": "Límite mensual",
+      "budgets.rollover": "Acumular el monto no gastado",
+      "budgets.empty":
+        "Aún no hay presupuestos. Agrega uno para comparar tu gasto contra un límite.",
+      "budgets.left": "Quedan {{amount}}",
+      "budgets.over": "{{amount}} excedido",
+      "budgets.carried": "+{{amount}} acumulado",
+      "budgets.addFailed": "No se pudo agregar el presupuesto",
+
       // ── Ingresos ─────────────────────────────────────────────────────
       "income.quickAdd": "Agregar Rápido",
       "income.source": "Fuente",
@@ -576,13 +1096,18 @@ const resources = {
       "expenses.descriptionHeader": "Descripción",
       "expenses.amountHeader": "Monto",
       "expenses.currencyHeader": "Moneda",
+      "expenses.ratingHeader": "Clasificación",
       "expenses.categoryHeader": "Categoría",
+      "expenses.subcategoryHeader": "Subcategoría",
       "expenses.dateHeader": "Fecha",
       "expenses.dueDateHeader": "Fecha de Vencimiento",
       "expenses.searchDescription": "Buscar descripción...",
       "expenses.search": "Buscar...",
       "expenses.allCurrencies": "Todas las Monedas",
+      "expenses.allRatings": "Todas las Clasificaciones",
       "expenses.allCategories": "Todas las Categorías",
+      "expenses.allSubcategories": "Todas las Subcategorías",
+      "expenses.uncategorized": "Sin categoría",
       "expenses.clear": "Limpiar",
       "expenses.emptyRecurring":
         "Sin gastos recurrentes. Marca un gasto como recurrente para que aparezca aquí.",
@@ -838,6 +1363,486 @@ const resources = {
       "import.selectFile": "Seleccionar Archivo",
       "import.excelError":
         "Selecciona un archivo de Excel (extensión .xlsx o .xls)",
+      "import.fileTypeError":
+        "Selecciona un archivo de Excel (.xlsx, .xls) o un estado de cuenta (.ofx, .qfx, CAMT.053 .xml)",
+      "import.supportedFormatsStatements":
+        "Formatos soportados: Excel (.xlsx, .xls), estados de cuenta (OFX, QFX, CAMT.053)",
+      "import.statementLoaded": "Estado de cuenta {{format}} con {{count}} movimientos",
+      "import.statementSkipped": "{{count}} movimientos no aplican a {{entity}} y se omitieron",
+      "import.duplicateRows": "{{count}} posibles duplicados",
+      "import.duplicatesHint":
+        "Algunas filas parecen registros que ya tienes. Se omiten a menos que elijas combinarlas con el registro existente o importarlas de todos modos.",
+      "import.duplicateOf": "Parece: {{label}}",
+      "import.duplicateSkip": "Omitir",
+      "import.duplicateMerge": "Combinar",
+      "import.duplicateImport": "Importar",
+
+      // ── Duplicados ───────────────────────────────────────────────────
+      "duplicates.find": "Buscar duplicados",
+      "duplicates.title": "{{entity}} duplicados",
+      "duplicates.description": "Mismo monto y moneda, fechas cercanas y descripciones similares",
+      "duplicates.none": "No se encontraron {{entity}} duplicados",
+      "duplicates.groupCount": "{{count}} grupos de posibles duplicados",
+      "duplicates.keepFirst": "Conservar el más antiguo y eliminar el resto",
+      "duplicates.done": "Listo",
+
+      // ── Reglas de categorización ─────────────────────────────────────
+      "rules.button": "Reglas",
+      "rules.title": "Reglas de categorización",
+      "rules.description": "Las reglas asignan la categoría, la clasificación y el indicador recurrente de los gastos nuevos e importados",
+      "rules.empty": "Aún no hay reglas. Empieza con las reglas de palabras clave incluidas o agrega las tuyas.",
+      "rules.addStarterRules": "Agregar reglas iniciales",
+      "rules.addRule": "Agregar regla",
+      "rules.newRule": "Nueva regla",
+      "rules.editRule": "Editar regla",
+      "rules.orderHint": "Las reglas se evalúan de arriba abajo; gana la primera que coincida",
+      "rules.enabled": "Activa",
+      "rules.name": "Nombre",
+      "rules.conditions": "Cuando",
+      "rules.actions": "Entonces",
+      "rules.descriptionPattern": "La descripción coincide con (expresión regular)",
+      "rules.minAmount": "Monto mínimo",
+      "rules.maxAmount": "Monto máximo",
+      "rules.currency": "Moneda",
+      "rules.account": "Pagado desde la cuenta",
+      "rules.any": "Cualquiera",
+      "rules.category": "Categoría",
+      "rules.subcategory": "Subcategoría",
+      "rules.rating": "Clasificación",
+      "rules.recurring": "Recurrente",
+      "rules.recurringYes": "Recurrente",
+      "rules.recurringNo": "Única vez",
+      "rules.unchanged": "Sin cambios",
+      "rules.applyToHistory": "Volver a aplicar al historial",
+      "rules.applied": "{{count}} gastos actualizados",
+
+      // ── Dividir gastos ───────────────────────────────────────────────
+      "splits.title": "Dividir gasto",
+      "splits.description": "Divide {{what}} ({{amount}}) en líneas con su propia clasificación y categoría",
+      "splits.lines": "Dividido · {{count}} líneas",
+      "splits.amount": "Monto",
+      "splits.note": "Nota (opcional)",
+      "splits.addLine": "Agregar línea",
+      "splits.removeLine": "Quitar línea",
+      "splits.remaining": "Por asignar: {{amount}}",
+      "splits.remove": "Quitar división",
+
+      // ── Diario ───────────────────────────────────────────────────────
+      "journal.title": "Libro Diario",
+      "journal.count": "{{count}} asientos",
+      "journal.newEntry": "Nuevo asiento",
+      "journal.entryDescription": "Los cargos y abonos deben cuadrar en {{currency}} a sus tipos de cambio registrados",
+      "journal.post": "Registrar asiento",
+      "journal.date": "Fecha",
+      "journal.descriptionLabel": "Descripción",
+      "journal.memo": "Nota",
+      "journal.reference": "Referencia",
+      "journal.tags": "Etiquetas",
+      "journal.type": "Tipo",
+      "journal.types.adjustment": "Ajuste",
+      "journal.types.income": "Ingreso",
+      "journal.types.expense": "Gasto",
+      "journal.types.transfer": "Transferencia",
+      "journal.account": "Cuenta",
+      "journal.selectAccount": "Selecciona una cuenta",
+      "journal.side": "Lado",
+      "journal.debit": "Cargo",
+      "journal.credit": "Abono",
+      "journal.amount": "Monto",
+      "journal.currency": "Moneda",
+      "journal.rate": "Tipo de cambio",
+      "journal.addLine": "Agregar línea",
+      "journal.removeLine": "Quitar línea",
+      "journal.totals": "Cargos {{debits}} · Abonos {{credits}}",
+      "journal.balanced": "Cuadrado",
+      "journal.outOfBalance": "Descuadre de {{amount}}",
+      "journal.allAccounts": "Todas las cuentas",
+      "journal.allTypes": "Todos los tipos",
+      "journal.dateFrom": "Desde",
+      "journal.dateTo": "Hasta",
+      "journal.clearFilters": "Limpiar filtros",
+      "journal.empty": "Ningún asiento coincide con estos filtros",
+
+      // ── Auxiliar de cuenta ───────────────────────────────────────────
+      "register.open": "Ver auxiliar",
+      "register.title": "Auxiliar · {{name}}",
+      "register.ledgerDescription": "Cada movimiento de esta cuenta con su saldo acumulado",
+      "register.netWorthDescription": "Cambios de saldo registrados en los cortes de fin de mes y el saldo de hoy",
+      "register.from": "Desde",
+      "register.to": "Hasta",
+      "register.opening": "Saldo inicial",
+      "register.increases": "Aumentos",
+      "register.decreases": "Disminuciones",
+      "register.closing": "Saldo final",
+      "register.date": "Fecha",
+      "register.description": "Descripción",
+      "register.amount": "Monto",
+      "register.balance": "Saldo",
+      "register.empty": "Sin movimientos en este periodo",
+      "register.sources.posting": "Movimiento",
+      "register.sources.snapshot": "Saldo de fin de mes",
+      "register.sources.current": "Saldo actual",
+      "register.reconciled": "Conciliado",
+
+      // ── Conciliación ─────────────────────────────────────────────────
+      "reconcile.open": "Conciliar",
+      "reconcile.title": "Conciliar · {{name}}",
+      "reconcile.description": "Marca los movimientos que aparecen en el estado de cuenta hasta que la diferencia sea cero",
+      "reconcile.statementDate": "Fecha del estado de cuenta",
+      "reconcile.statementBalance": "Saldo final del estado de cuenta",
+      "reconcile.cleared": "Saldo conciliado",
+      "reconcile.statement": "Saldo del estado de cuenta",
+      "reconcile.difference": "Diferencia",
+      "reconcile.empty": "No hay movimientos sin conciliar hasta la fecha del estado de cuenta",
+      "reconcile.finish": "Terminar conciliación",
+      "reconcile.failed": "No se pudo conciliar",
+      "reconcile.history": "Historial de conciliaciones",
+      "reconcile.noHistory": "Esta cuenta aún no se ha conciliado",
+      "reconcile.postingCount": "{{count}} movimientos",
+
+      // ── Cierre de periodo ────────────────────────────────────────────
+      "periods.title": "Cierre de mes",
+      "periods.description": "Los meses cerrados quedan bloqueados; sus asientos no se pueden agregar, editar ni eliminar",
+      "periods.takeSnapshot": "Guardar corte de patrimonio al cerrar",
+      "periods.open": "Abierto",
+      "periods.closedOn": "Cerrado el {{date}}",
+      "periods.close": "Cerrar mes",
+      "periods.reopen": "Reabrir",
+      "periods.reasonPlaceholder": "Motivo de la reapertura",
+      "periods.confirmReopen": "Confirmar reapertura",
+      "periods.cancel": "Cancelar",
+      "periods.failed": "No se pudo actualizar el periodo",
+      "periods.history": "Historial de cierres",
+      "periods.actions.close": "Se cerró {{period}}",
+      "periods.actions.reopen": "Se reabrió {{period}}",
+      "periods.locked": "Periodo cerrado",
+
+      // ── Revaluación cambiaria ────────────────────────────────────────
+      "fxRevaluation.open": "Revaluar divisas",
+      "fxRevaluation.title": "Revaluación cambiaria",
+      "fxRevaluation.description": "Actualiza los saldos en moneda extranjera al tipo de cambio actual y registra la ganancia o pérdida no realizada",
+      "fxRevaluation.date": "Fecha de revaluación",
+      "fxRevaluation.gainLossAccount": "Cuenta de ganancia/pérdida",
+      "fxRevaluation.preview": "Vista previa",
+      "fxRevaluation.post": "Registrar ajuste",
+      "fxRevaluation.posted": "Asiento de ajuste registrado",
+      "fxRevaluation.empty": "No hay saldos en moneda extranjera para revaluar",
+      "fxRevaluation.account": "Cuenta",
+      "fxRevaluation.balance": "Saldo",
+      "fxRevaluation.booked": "Registrado",
+      "fxRevaluation.rate": "Tipo de cambio",
+      "fxRevaluation.revalued": "Revaluado",
+      "fxRevaluation.adjustment": "Ajuste",
+      "fxRevaluation.totalGain": "Ganancia no realizada",
+      "fxRevaluation.totalLoss": "Pérdida no realizada",
+      "fxRevaluation.failed": "No se pudieron revaluar los saldos",
+
+      // ── Reportes ─────────────────────────────────────────────────────
+      "reports.title": "Reportes",
+      "reports.description": "Compara estados financieros entre periodos",
+      "reports.incomeStatement": "Estado de resultados",
+      "reports.balanceSheet": "Balance general",
+      "reports.granularity": "Duración del periodo",
+      "reports.granularities.month": "Mensual",
+      "reports.granularities.quarter": "Trimestral",
+      "reports.granularities.year": "Anual",
+      "reports.periods": "Número de periodos",
+      "reports.periodCount": "{{count}} periodos",
+      "reports.endDate": "El último periodo incluye",
+      "reports.account": "Cuenta",
+      "reports.change": "Variación",
+      "reports.changePercent": "Variación %",
+      "reports.ttm": "Últimos 12 meses",
+      "reports.income": "Ingresos",
+      "reports.expenses": "Gastos",
+      "reports.netIncome": "Utilidad neta",
+      "reports.assets": "Activos",
+      "reports.liabilities": "Pasivos",
+      "reports.equity": "Capital",
+      "reports.netWorth": "Patrimonio neto",
+      "reports.total": "Total {{section}}",
+
+      // ── Árbol de cuentas ─────────────────────────────────────────────
+      "accountTree.title": "Jerarquía de cuentas",
+      "accountTree.description": "Anida subcuentas y consulta subtotales en cada nivel",
+      "accountTree.newAccount": "Nueva cuenta",
+      "accountTree.code": "Código",
+      "accountTree.name": "Nombre",
+      "accountTree.nature": "Tipo",
+      "accountTree.parent": "Cuenta padre",
+      "accountTree.noParent": "Sin padre (nivel superior)",
+      "accountTree.create": "Crear",
+      "accountTree.expand": "Expandir",
+      "accountTree.collapse": "Contraer",
+      "accountTree.subtotal": "Subtotal con subcuentas",
+      "accountTree.dragHint": "Arrastra una cuenta sobre otra para anidarla, o sobre el encabezado de un tipo para moverla al nivel superior.",
+      "accountTree.failed": "No se pudo actualizar la cuenta",
+      "accountTree.natures.asset": "Activos",
+      "accountTree.natures.liability": "Pasivos",
+      "accountTree.natures.equity": "Capital",
+      "accountTree.natures.income": "Ingresos",
+      "accountTree.natures.expense": "Gastos",
+
+      // ── Etiquetas ────────────────────────────────────────────────────
+      "tags.placeholder": "Agregar etiqueta…",
+      "tags.remove": "Quitar etiqueta {{name}}",
+      "tags.failed": "No se pudo guardar la etiqueta",
+      "tags.allTags": "Todas las etiquetas",
+      "tags.report": "Gasto por etiqueta",
+      "tags.reportEmpty": "No hay gastos ni ingresos etiquetados en este rango",
+      "tags.startDate": "Fecha inicial",
+      "tags.tag": "Etiqueta",
+      "tags.net": "Neto",
+      "tags.entries": "Movimientos",
+      "tags.manage": "Administrar etiquetas",
+      "tags.manageDescription": "Renombra, cambia el color, combina o elimina etiquetas. Los cambios se aplican a cada movimiento etiquetado.",
+      "tags.newPlaceholder": "Nombre de la nueva etiqueta",
+      "tags.add": "Agregar",
+      "tags.empty": "Aún no hay etiquetas",
+      "tags.select": "Seleccionar {{name}}",
+      "tags.color": "Color de {{name}}",
+      "tags.delete": "Eliminar {{name}}",
+      "tags.confirmDelete": "¿Eliminar la etiqueta {{name}}? Se quitará de todos los movimientos.",
+      "tags.mergeInto": "Combinar las etiquetas seleccionadas en",
+      "tags.merge": "Combinar {{count}} etiquetas",
+
+      // ── Anulaciones y reversiones ────────────────────────────────────
+      "reversal.showVoided": "Mostrar anuladas",
+      "reversal.open": "Abrir transacción",
+      "reversal.chain": "Cadena de reversiones",
+      "reversal.status.posted": "Registrada",
+      "reversal.status.voided": "Anulada",
+      "reversal.status.voidEntry": "Asiento de anulación",
+      "reversal.status.reversed": "Revertida",
+      "reversal.status.reversal": "Asiento de reversión",
+      "reversal.reasonPlaceholder": "Motivo (opcional)",
+      "reversal.void": "Anular",
+      "reversal.voidHint": "Cancela en la fecha original y oculta ambos asientos de los reportes",
+      "reversal.reverse": "Revertir el",
+      "reversal.reverseHint": "Cancela en la fecha elegida; la original cuenta hasta entonces",
+      "reversal.date": "Fecha de reversión",
+      "reversal.failed": "No se pudo cancelar la transacción",
+
+      // ── Saldos iniciales ─────────────────────────────────────────────
+      "openingBalances.button": "Saldos iniciales",
+      "openingBalances.buttonHint": "Llevar estos saldos al libro mayor",
+      "openingBalances.title": "Saldos iniciales",
+      "openingBalances.description": "Registra un asiento fechado que lleva estos saldos al libro mayor",
+      "openingBalances.date": "Al",
+      "openingBalances.empty": "Primero agrega cuentas con saldo",
+      "openingBalances.alreadyPosted": "Ya está en el libro mayor",
+      "openingBalances.preview": "Vista previa del asiento",
+      "openingBalances.newAccount": "{{name}} (cuenta nueva)",
+      "openingBalances.post": "Registrar saldos iniciales",
+      "openingBalances.cancel": "Cancelar",
+      "openingBalances.failed": "No se pudieron registrar los saldos iniciales",
+      "openingBalances.checkTitle": "Patrimonio vs libro mayor",
+      "openingBalances.allMatched": "Todas las cuentas vinculadas coinciden",
+      "openingBalances.divergedCount": "{{count}} cuentas difieren",
+      "openingBalances.netWorth": "Patrimonio",
+      "openingBalances.ledger": "Libro mayor",
+      "openingBalances.difference": "Diferencia",
+      "openingBalances.status": "Estado",
+      "openingBalances.statuses.matched": "Coincide",
+      "openingBalances.statuses.diverged": "Difiere",
+      "openingBalances.statuses.unlinked": "Fuera del libro",
+
+      // ── Historial de cambios ─────────────────────────────────────────
+      "history.title": "Historial de cambios",
+      "history.loading": "Cargando historial…",
+      "history.empty": "Sin cambios todavía",
+      "history.restore": "Restaurar",
+      "history.restoreHint": "Volver a los valores de antes de este cambio",
+      "history.restoreFailed": "No se pudo restaurar esta versión",
+      "history.fields.what": "Descripción",
+      "history.fields.source": "Fuente",
+      "history.fields.name": "Nombre",
+      "history.fields.amount": "Monto",
+      "history.fields.balance": "Saldo",
+      "history.fields.currency": "Moneda",
+      "history.fields.rating": "Clasificación",
+      "history.fields.frequency": "Frecuencia",
+      "history.fields.date": "Fecha",
+      "history.fields.category": "Categoría",
+      "history.fields.subcategory": "Subcategoría",
+      "history.fields.recurring": "Recurrente",
+      "history.fields.splits": "Líneas divididas",
+      "history.fields.tags": "Etiquetas",
+      "history.fields.type": "Tipo",
+      "history.fields.excludeFromTotal": "Excluida del total",
+      "history.fields.dueDate": "Fecha de pago",
+      "history.fields.estimatedYield": "Rendimiento estimado",
+      "history.fields.loanTerms": "Condiciones del préstamo",
+      "history.fields.cardTerms": "Condiciones de la tarjeta",
+      "history.fields.costBasisMethod": "Método de costo base",
+      "history.fields.yieldTerms": "Condiciones de rendimiento",
+      "history.fields.postings": "Partidas",
+
+      // ── Préstamos ────────────────────────────────────────────────────
+      "loans.title": "Tabla de amortización",
+      "loans.principal": "Monto del préstamo",
+      "loans.annualRate": "Tasa anual %",
+      "loans.termMonths": "Plazo (meses)",
+      "loans.startDate": "Fecha de inicio",
+      "loans.extraMonthly": "Extra por mes",
+      "loans.extraPayments": "Pagos extra",
+      "loans.addExtra": "Agregar un pago extra único",
+      "loans.removeExtra": "Quitar pago extra",
+      "loans.monthlyPayment": "Pago mensual",
+      "loans.totalInterest": "Intereses totales",
+      "loans.payoffDate": "Fecha de liquidación",
+      "loans.monthsSaved": "Meses ahorrados",
+      "loans.payFrom": "Pagar desde",
+      "loans.saveToPost": "Guarda las condiciones para registrar pagos",
+      "loans.date": "Fecha",
+      "loans.payment": "Pago",
+      "loans.interest": "Interés",
+      "loans.principalPaid": "Capital",
+      "loans.extra": "Extra",
+      "loans.balance": "Saldo",
+      "loans.post": "Registrar",
+      "loans.posted": "Registrado",
+      "loans.saveTerms": "Guardar condiciones",
+      "loans.removeTerms": "Quitar condiciones",
+      "loans.close": "Cerrar",
+      "loans.failed": "No se pudo actualizar el préstamo",
+
+      // ── Tarjetas de crédito ──────────────────────────────────────────
+      "cards.title": "Estado de cuenta",
+      "cards.closingDay": "Día de corte",
+      "cards.graceDays": "Días de gracia",
+      "cards.apr": "Tasa anual %",
+      "cards.minPaymentPercent": "Mínimo %",
+      "cards.minPaymentFloor": "Mínimo de al menos",
+      "cards.notLinked": "Vincula esta tarjeta al libro mayor con Saldos iniciales para calcular sus estados de cuenta",
+      "cards.cycle": "Periodo del estado",
+      "cards.dueDate": "Fecha límite de pago",
+      "cards.statementBalance": "Saldo al corte",
+      "cards.paidSinceClosing": "Pagado desde el corte",
+      "cards.paymentToAvoidInterest": "Pago para no generar intereses",
+      "cards.minimumPayment": "Pago mínimo",
+      "cards.interestIfMinimum": "Intereses si solo pagas el mínimo",
+      "cards.currentBalance": "Saldo actual",
+      "cards.saveTerms": "Guardar condiciones",
+      "cards.removeTerms": "Quitar condiciones",
+      "cards.cancel": "Cancelar",
+      "cards.failed": "No se pudo actualizar la tarjeta",
+
+      // ── Pago de deudas ───────────────────────────────────────────────
+      "payoff.button": "Plan de pago",
+      "payoff.buttonHint": "Planea cómo liquidar tus deudas",
+      "payoff.title": "Planificador de pago de deudas",
+      "payoff.description": "Montos en {{currency}}",
+      "payoff.empty": "No hay pasivos con saldo para planear",
+      "payoff.budget": "Presupuesto mensual",
+      "payoff.strategy": "Estrategia",
+      "payoff.strategies.avalanche": "Avalancha (tasa más alta primero)",
+      "payoff.strategies.snowball": "Bola de nieve (saldo más bajo primero)",
+      "payoff.strategies.custom": "Orden personalizado",
+      "payoff.minimums": "Pagos mínimos: {{amount}}",
+      "payoff.debt": "Deuda",
+      "payoff.balance": "Saldo",
+      "payoff.rate": "Tasa %",
+      "payoff.minimum": "Mínimo",
+      "payoff.paidOff": "Liquidada",
+      "payoff.interest": "Intereses",
+      "payoff.never": "Nunca",
+      "payoff.moveUp": "Pagar antes",
+      "payoff.moveDown": "Pagar después",
+      "payoff.debtFreeIn": "Sin deudas en {{period}} ({{count}} meses)",
+      "payoff.notPaidOff": "No se liquida en 50 años",
+      "payoff.totalInterest": "Intereses totales {{amount}}",
+      "payoff.month": "Mes",
+      "payoff.export": "Exportar CSV",
+      "payoff.close": "Cerrar",
+
+      // ── Posiciones ───────────────────────────────────────────────────
+      "holdings.title": "Posiciones",
+      "holdings.empty": "Aún no hay operaciones. Registra una compra para abrir una posición.",
+      "holdings.costBasisMethod": "Costo base",
+      "holdings.methods.fifo": "Primeras entradas, primeras salidas",
+      "holdings.methods.average": "Costo promedio",
+      "holdings.methodLocked": "No se puede cambiar después de registrar una venta",
+      "holdings.symbol": "Símbolo",
+      "holdings.quantity": "Cantidad",
+      "holdings.costBasis": "Costo base",
+      "holdings.price": "Precio",
+      "holdings.marketValue": "Valor de mercado",
+      "holdings.unrealized": "No realizada",
+      "holdings.realized": "Realizada",
+      "holdings.dividends": "Dividendos",
+      "holdings.lots": "Ver lotes",
+      "holdings.noPrice": "Sin precio",
+      "holdings.newTrade": "Nueva operación",
+      "holdings.kind": "Tipo",
+      "holdings.kinds.buy": "Compra",
+      "holdings.kinds.sell": "Venta",
+      "holdings.kinds.dividend": "Dividendo",
+      "holdings.date": "Fecha",
+      "holdings.amount": "Monto",
+      "holdings.fees": "Comisiones",
+      "holdings.payFrom": "Pagar desde",
+      "holdings.depositTo": "Depositar en",
+      "holdings.postTrade": "Registrar operación",
+      "holdings.tradePosted": "Operación registrada en el libro mayor",
+      "holdings.prices": "Precios",
+      "holdings.savePrice": "Guardar precio",
+      "holdings.priceSaved": "Precio guardado",
+      "holdings.importPrices": "Importar CSV",
+      "holdings.importHint": "CSV con columnas symbol, date y price",
+      "holdings.pricesImported": "{{count}} precios importados",
+      "holdings.trades": "Operaciones",
+      "holdings.deleteTrade": "Eliminar la operación y anular su asiento",
+      "holdings.useMarketValue": "Usar como saldo",
+      "holdings.balanceUpdated": "Saldo actualizado al valor de mercado",
+      "holdings.missingPrices": "Cada posición abierta necesita un precio",
+      "holdings.failed": "No se pudieron actualizar las posiciones",
+      "holdings.close": "Cerrar",
+
+      // ── Rendimientos ─────────────────────────────────────────────────
+      "yield.title": "Rendimientos",
+      "yield.rate": "Los intereses al rendimiento estimado de la cuenta de {{rate}}% anual se abonan al final de cada periodo",
+      "yield.noRate": "Define un rendimiento estimado en la cuenta para acumular intereses",
+      "yield.method": "Interés",
+      "yield.methods.simple": "Simple",
+      "yield.methods.compound": "Compuesto",
+      "yield.frequency": "Se abona",
+      "yield.frequencies.monthly": "Mensual",
+      "yield.frequencies.quarterly": "Trimestral",
+      "yield.frequencies.annually": "Anual",
+      "yield.startDate": "Acumula desde",
+      "yield.principal": "Capital",
+      "yield.due": "Por registrar",
+      "yield.nothingDue": "Aún no hay nada por registrar",
+      "yield.periodEnd": "Fin del periodo",
+      "yield.base": "Sobre",
+      "yield.interest": "Interés",
+      "yield.balance": "Saldo después",
+      "yield.history": "Rendimientos registrados",
+      "yield.status.posted": "Registrado",
+      "yield.status.undone": "Deshecho",
+      "yield.undo": "Deshacer",
+      "yield.undone": "Rendimiento deshecho",
+      "yield.post": "Registrar pendientes",
+      "yield.posted": "Rendimientos registrados: {{count}}",
+      "yield.saveTerms": "Guardar condiciones",
+      "yield.saved": "Condiciones guardadas",
+      "yield.removeTerms": "Dejar de acumular",
+      "yield.close": "Cerrar",
+      "yield.failed": "No se pudo actualizar el rendimiento",
+
+      // ── Proyección ───────────────────────────────────────────────────
+      "projection.toggle": "Proyección",
+      "projection.years": "Años",
+      "projection.growthRate": "Crecimiento % anual",
+      "projection.inflationRate": "Inflación % anual",
+      "projection.spread": "Rango ± %",
+      "projection.base": "Proyectado",
+      "projection.optimistic": "Optimista",
+      "projection.pessimistic": "Pesimista",
+      "projection.range": "De pesimista a optimista",
+      "projection.summary": "Para {{period}}: {{base}} (entre {{low}} y {{high}})",
+      "projection.note": "Los activos crecen a su rendimiento estimado, o a la tasa de crecimiento si no tienen uno. Se ahorran los ingresos recurrentes menos los gastos recurrentes; las deudas se pagan con su pago mínimo.",
     },
   },
 };
@@ -0,0 +1,34 @@
+import { supabase } from './supabase';
+
+// Express API base URL; empty uses the Vite /api proxy
+const apiBaseUrl = import.meta.env.VITE_API_URL || '';
+
+/**
+ * Call the Fintonico API server with the current session's access token.
+ * Throws with the server's error message on non-2xx responses.
+ */
+export async function apiRequest<T>(path: string, options: { method?: string; body?: unknown } = {}): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not authenticated');
+
+  const response = await fetch(`${apiBaseUrl}/api${path}`, {
+    method: options.method || 'GET',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session.access_token}`,
+    },
+    body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+  });
+
+  if (response.status === 204) {
+    return undefined as T;
+  }
+
+  const payload = await response.json().catch(() => null);
+  if (!response.ok) {
+    const message = payload && typeof payload.error === 'string' ? payload.error : response.statusText;
+    throw new Error(message);
+  }
+
+  return payload as T;
+}
@@ -3,10 +3,34 @@ import { useLedgerStore } from '../stores/ledgerStore';
 import { useCurrencyStore } from '../stores/currencyStore';
 import { useAccountStore } from '../stores/accountStore';
 import { useSnapshotStore } from '../stores/snapshotStore';
+import { useExpenseStore } from '../stores/expenseStore';
+import { useIncomeStore } from '../stores/incomeStore';
+import { useTagStore } from '../stores/tagStore';
 import { Money } from '../domain/money';
+import { AccountRegister } from '../domain/register';
+import type { AccountRegisterView, RegisterMovement, RegisterRange } from '../domain/register';
+import type { ReconcilableItem } from '../domain/reconciliation';
+import { Comparative } from '../domain/comparative';
+import type { ComparativeAmount, ComparativeGranularity, ComparativePeriod, ComparativeSection, ComparativeTotals } from '../domain/comparative';
+import { Tags } from '../domain/tags';
+import { OpeningBalances } from '../domain/openingBalances';
+import type { BalanceCheckLine } from '../domain/openingBalances';
+import { Reversal } from '../domain/reversal';
+import type { TaggedAmount, TagSummary } from '../domain/tags';
+import { parseLocalDate, toLocalDateString } from '../utils/dateFormat';
 import type { AccountNature } from '../domain/ledger';
 import type { AccountType } from '../types';
-import type { Transaction } from '../domain/ledger';
+import type { Posting, Transaction } from '../domain/ledger';
+import { CardCycles } from '../domain/cardCycles';
+import type { CardActivity, CardStatement } from '../domain/cardCycles';
+import { Amortization } from '../domain/amortization';
+import type { PayoffDebt } from '../domain/debtPayoff';
+import { Holdings } from '../domain/holdings';
+import type { HoldingValuation } from '../domain/holdings';
+import { useHoldingStore } from '../stores/holdingStore';
+import { NetWorthProjection } from '../domain/projection';
+import type { ProjectionInput } from '../domain/projection';
+import { getExpenseSchedule, getIncomeSchedule } from '../utils/recurringUtils';
 
 // Date utility for consistent date handling
 const startOfDay = (date: Date): Date => {
@@ -657,6 +681,362 @@ export const getCombinedTransactions = (
     .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 };
 
+// Account register selectors
+export interface AccountRegisterResult extends AccountRegisterView {
+  currency: string;
+}
+
+// Ledger account register in the base currency, from booked posting amounts
+export const getLedgerAccountRegister = (accountId: string, range: RegisterRange = {}): AccountRegisterResult => {
+  const ledgerStore = useLedgerStore.getState();
+  const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+  const account = ledgerStore.getAccount(accountId);
+  if (!account) {
+    return { ...AccountRegister.build([]), currency: baseCurrency };
+  }
+
+  const toBaseCents = (money: Money): number => {
+    if (money.getCurrency() === baseCurrency) return money.getAmountMinor();
+    return Math.round(convertAmount(money.toMajorUnits(), money.getCurrency(), baseCurrency) * 100);
+  };
+
+  // getTransactions is newest first; the register runs oldest first
+  const transactions = [...ledgerStore.getTransactions({ accountIds: [accountId] })].reverse();
+  const movements: RegisterMovement[] = transactions.flatMap(transaction =>
+    transaction.postings
+      .filter(posting => posting.accountId === accountId)
+      .map(posting => {
+        const booked = posting.bookedDebitAmount ?? posting.bookedCreditAmount;
+        const amountCents = booked ? toBaseCents(booked) : 0;
+        return {
+          id: posting.id,
+          transactionId: transaction.id,
+          date: toLocalDateString(transaction.date),
+          description: posting.description || transaction.description,
+          reference: transaction.reference,
+          reconciled: posting.reconciled,
+          amountCents: AccountRegister.signedAmount(account.nature, posting.bookedDebitAmount !== null, amountCents),
+        };
+      })
+  );
+
+  return { ...AccountRegister.build(movements, range), currency: baseCurrency };
+};
+
+// Postings of a ledger account as reconciliation candidates, signed in the base currency
+export const getReconcilableItems = (accountId: string): ReconcilableItem[] => {
+  return getLedgerAccountRegister(accountId).entries.map(entry => ({
+    id: entry.id,
+    date: entry.date,
+    amountCents: entry.amountCents,
+    reconciled: entry.reconciled === true,
+  }));
+};
+
+// Net-worth account register in the account currency, built from month-end
+// snapshots with today's balance as the latest movement
+export const getNetWorthAccountRegister = (accountId: string, range: RegisterRange = {}): AccountRegisterResult => {
+  const account = useAccountStore.getState().accounts.find(acc => acc.id === accountId);
+  const snapshots = useSnapshotStore.getState().getHistory();
+  const currency = account?.currency ?? useCurrencyStore.getState().baseCurrency;
+
+  const movements: RegisterMovement[] = [];
+  let previousCents = 0;
+  const addBalance = (id: string, date: string, balance: number, source: 'snapshot' | 'current') => {
+    const balanceCents = Math.round(balance * 100);
+    if (balanceCents === previousCents && movements.length > 0) return;
+    movements.push({ id, date, description: '', source, amountCents: balanceCents - previousCents });
+    previousCents = balanceCents;
+  };
+
+  for (const snapshot of snapshots) {
+    const accountSnapshot = snapshot.accountSnapshots?.find(item => item.accountId === accountId);
+    if (!accountSnapshot) continue;
+    const [year, month] = snapshot.monthEndLocal.split('-').map(Number);
+    addBalance(`snapshot-${snapshot.monthEndLocal}`, toLocalDateString(new Date(year, month, 0)), accountSnapshot.balance, 'snapshot');
+  }
+
+  if (account) {
+    const today = toLocalDateString(new Date());
+    const lastUpdated = account.lastUpdated?.slice(0, 10) || today;
+    // A balance edited before the last snapshot is already part of that snapshot
+    const lastDate = movements[movements.length - 1]?.date;
+    addBalance('current', lastDate && lastUpdated < lastDate ? today : lastUpdated, account.balance, 'current');
+  }
+
+  return { ...AccountRegister.build(movements, range), currency };
+};
+
+// Comparative statement selectors
+export interface ComparativeIncomeStatementView {
+  periods: ComparativePeriod[];
+  trailingTwelveMonths: ComparativePeriod;
+  income: ComparativeSection;
+  expenses: ComparativeSection;
+  netIncome: ComparativeTotals;
+  currency: string;
+}
+
+export interface ComparativeBalanceSheetView {
+  periods: ComparativePeriod[]; // Balances are as of each endDate
+  assets: ComparativeSection;
+  liabilities: ComparativeSection;
+  equity: ComparativeSection;
+  netWorth: ComparativeTotals;
+  currency: string;
+}
+
+// Accounts with nothing in any period are left out
+const toComparativeSection = (columns: ComparativeAmount[][], ttm?: Map<string, number>): ComparativeSection => {
+  const lines = Comparative.lines(columns)
+    .filter(line => line.amounts.some(amount => amount !== 0) || (ttm?.get(line.accountId) ?? 0) !== 0)
+    .map(line => (ttm ? { ...line, ttmCents: ttm.get(line.accountId) ?? 0 } : line));
+  const totals = Comparative.totals(lines, columns.length);
+  return {
+    lines,
+    totals: ttm ? { ...totals, ttmCents: [...ttm.values()].reduce((sum, cents) => sum + cents, 0) } : totals,
+  };
+};
+
+export const getComparativeIncomeStatement = (
+  endDate: string,
+  granularity: ComparativeGranularity,
+  count: number
+): ComparativeIncomeStatementView => {
+  const ledgerStore = useLedgerStore.getState();
+  const { baseCurrency } = useCurrencyStore.getState();
+
+  const periods = Comparative.periods(endDate, granularity, count);
+  const trailingTwelveMonths = Comparative.trailingTwelveMonths(periods[periods.length - 1].endDate);
+  const statementFor = (period: ComparativePeriod) =>
+    ledgerStore.getIncomeStatement(parseLocalDate(period.startDate), parseLocalDate(period.endDate), baseCurrency);
+
+  const toAmounts = (items: Array<{ account: { id: string; name: string; code: string }; amount: Money }>): ComparativeAmount[] =>
+    items.map(item => ({
+      accountId: item.account.id,
+      accountName: item.account.name,
+      accountCode: item.account.code,
+      amountCents: item.amount.getAmountMinor(),
+    }));
+  const toTtm = (amounts: ComparativeAmount[]) => new Map(amounts.map(amount => [amount.accountId, amount.amountCents]));
+
+  const statements = periods.map(statementFor);
+  const ttmStatement = statementFor(trailingTwelveMonths);
+
+  const income = toComparativeSection(statements.map(statement => toAmounts(statement.income)), toTtm(toAmounts(ttmStatement.income)));
+  const expenses = toComparativeSection(statements.map(statement => toAmounts(statement.expenses)), toTtm(toAmounts(ttmStatement.expenses)));
+
+  return {
+    periods,
+    trailingTwelveMonths,
+    income,
+    expenses,
+    netIncome: {
+      ...Comparative.difference(income.totals, expenses.totals),
+      ttmCents: (income.totals.ttmCents ?? 0) - (expenses.totals.ttmCents ?? 0),
+    },
+    currency: baseCurrency,
+  };
+};
+
+export const getComparativeBalanceSheet = (
+  endDate: string,
+  granularity: ComparativeGranularity,
+  count: number
+): ComparativeBalanceSheetView => {
+  const ledgerStore = useLedgerStore.getState();
+  const { baseCurrency } = useCurrencyStore.getState();
+
+  const periods = Comparative.periods(endDate, granularity, count);
+  const columnsFor = (nature: AccountNature): ComparativeAmount[][] =>
+    periods.map(period => {
+      const asOf = endOfDay(parseLocalDate(period.endDate));
+      return ledgerStore.getAccountsByNature(nature).map(account => ({
+        accountId: account.id,
+        accountName: account.name,
+        accountCode: account.code,
+        amountCents: ledgerStore.getAccountBalance(account.id, asOf).getAmountMinor(),
+      }));
+    });
+
+  const assets = toComparativeSection(columnsFor('asset'));
+  const liabilities = toComparativeSection(columnsFor('liability'));
+
+  return {
+    periods,
+    assets,
+    liabilities,
+    equity: toComparativeSection(columnsFor('equity')),
+    netWorth: Comparative.difference(assets.totals, liabilities.totals),
+    currency: baseCurrency,
+  };
+};
+
+export interface TagReportLine extends TagSummary {
+  color: string | null; // Null for names used on entries without a tag definition
+}
+
+export interface TagReportView {
+  lines: TagReportLine[];
+  currency: string;
+}
+
+// Spending and income per tag between two YYYY-MM-DD dates (inclusive), in the base currency.
+// Built from expenses and income like the server report, so ledger entries are not counted twice.
+export const getTagReport = (startDate: string, endDate: string): TagReportView => {
+  const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+  const colors = new Map(useTagStore.getState().tags.map(tag => [tag.name, tag.color]));
+
+  const inRange = (entry: { date: string; tags?: string[] }) =>
+    Boolean(entry.tags?.length) && entry.date >= startDate && entry.date <= endDate;
+  const toAmount = (kind: TaggedAmount['kind']) => (entry: { amount: number; currency: string; tags?: string[] }): TaggedAmount => ({
+    kind,
+    tags: entry.tags ?? [],
+    amountCents: Math.round(convertAmount(entry.amount, entry.currency, baseCurrency) * 100),
+  });
+
+  const summaries = Tags.summarize([
+    ...useExpenseStore.getState().expenses.filter(inRange).map(toAmount('expense')),
+    ...useIncomeStore.getState().incomes.filter(inRange).map(toAmount('income')),
+  ]);
+
+  return {
+    lines: summaries.map(summary => ({ ...summary, color: colors.get(summary.tag) ?? null })),
+    currency: baseCurrency,
+  };
+};
+
+// A posting's original amount in the given currency, positive for debits
+const originalDebitIn = (posting: Posting, currency: string): number => {
+  const { convertAmount } = useCurrencyStore.getState();
+  const amount = (posting.originalDebitAmount ?? posting.originalCreditAmount)!;
+  const inCurrency = amount.getCurrency() === currency
+    ? amount.toMajorUnits()
+    : convertAmount(amount.toMajorUnits(), amount.getCurrency(), currency);
+  return posting.originalDebitAmount ? inCurrency : -inCurrency;
+};
+
+// Where net worth balances and the ledger disagree. Each linked ledger balance is
+// totalled in the net worth account's currency from the original posting amounts,
+// so a foreign account compares without exchange-rate noise.
+export const getOpeningBalanceCheck = (): BalanceCheckLine[] => {
+  const { getAccount, transactions } = useLedgerStore.getState();
+  const postings = transactions.filter(tx => Reversal.isReported(tx)).flatMap(tx => tx.postings);
+
+  const ledgerBalanceOf = (ledgerAccountId: string, currency: string): number | null => {
+    const account = getAccount(ledgerAccountId);
+    if (!account) return null;
+
+    const sign = account.nature === 'asset' ? 1 : -1;
+    const total = postings
+      .filter(posting => posting.accountId === ledgerAccountId)
+      .reduce((sum, posting) => sum + originalDebitIn(posting, currency), 0);
+    return sign * Math.round(total * 100) || 0; // No negative zero for empty accounts
+  };
+
+  return OpeningBalances.compare(
+    useAccountStore.getState().accounts.map(account => ({
+      id: account.id,
+      name: account.name,
+      type: account.type,
+      currency: account.currency,
+      balanceCents: Math.round(account.balance * 100),
+      ledgerAccountId: account.ledgerAccountId,
+    })),
+    ledgerBalanceOf
+  );
+};
+
+// Charges and payments on a card's linked ledger account, in the card's currency.
+// Credits to the liability are charges; debits are payments and refunds.
+export const getCardActivity = (ledgerAccountId: string, currency: string): CardActivity[] =>
+  useLedgerStore.getState().transactions
+    .filter(tx => Reversal.isReported(tx))
+    .flatMap(tx => tx.postings
+      .filter(posting => posting.accountId === ledgerAccountId)
+      .map(posting => ({
+        date: toLocalDateString(tx.date),
+        amountCents: -Math.round(originalDebitIn(posting, currency) * 100),
+      })));
+
+// Latest statement for a credit card with terms and a linked ledger account, as of a YYYY-MM-DD date
+export const getCardStatement = (accountId: string, asOf: string): CardStatement | null => {
+  const card = useAccountStore.getState().accounts.find(account => account.id === accountId);
+  if (!card?.cardTerms || !card.ledgerAccountId || !useLedgerStore.getState().getAccount(card.ledgerAccountId)) {
+    return null;
+  }
+  return CardCycles.statement(card.cardTerms, getCardActivity(card.ledgerAccountId, card.currency), asOf);
+};
+
+// Liabilities as debts for the payoff planner, in the base currency. Rates come from
+// loan or card terms; a loan without a minimum payment uses its scheduled payment.
+export const getPayoffDebts = (): PayoffDebt[] => {
+  const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+  const toBaseCents = (amount: number, currency: string) => Math.round(convertAmount(amount, currency, baseCurrency) * 100);
+
+  return useAccountStore.getState().accounts
+    .filter(account => OpeningBalances.natureOf(account.type) === 'liability' && !account.excludeFromTotal && account.balance !== 0)
+    .map(account => {
+      const scheduled = account.loanTerms ? Amortization.schedule(account.loanTerms).paymentCents / 100 : 0;
+      return {
+        id: account.id,
+        name: account.name,
+        balanceCents: toBaseCents(Math.abs(account.balance), account.currency),
+        annualRate: account.loanTerms?.annualRate ?? account.cardTerms?.apr ?? 0,
+        minimumCents: toBaseCents(account.minMonthlyPayment || scheduled, account.currency),
+      };
+    });
+};
+
+// Positions in an investment or exchange account valued as of `asOf` (YYYY-MM-DD).
+// Prices quoted in another currency are converted into the account's currency.
+export const getHoldingValuations = (accountId: string, asOf: string): HoldingValuation[] => {
+  const account = useAccountStore.getState().accounts.find(item => item.id === accountId);
+  if (!account) return [];
+
+  const { convertAmount } = useCurrencyStore.getState();
+  const { prices, getTrades } = useHoldingStore.getState();
+  const points = prices.map(price => ({
+    symbol: price.symbol,
+    date: price.date,
+    price: price.currency === account.currency ? price.price : convertAmount(price.price, price.currency, account.currency),
+  }));
+
+  return Holdings.positions(getTrades(accountId), account.costBasisMethod ?? 'fifo')
+    .map(position => Holdings.value(position, Holdings.latestPrice(points, position.symbol, asOf)));
+};
+
+// Today's position for the net worth projection, in the base currency. Excluded
+// accounts are left out; debts pay their payoff planner minimums, and income and
+// expenses count only their recurring templates.
+export const getProjectionInput = (): ProjectionInput => {
+  const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+  const toBaseCents = (amount: number, currency: string) => Math.round(convertAmount(amount, currency, baseCurrency) * 100);
+
+  const assets = useAccountStore.getState().accounts
+    .filter(account => OpeningBalances.natureOf(account.type) === 'asset' && !account.excludeFromTotal && account.balance !== 0)
+    .map(account => ({
+      balanceCents: toBaseCents(account.balance, account.currency),
+      annualRate: account.estimatedYield ?? null,
+    }));
+
+  const monthlyIncomeCents = useIncomeStore.getState().incomes.reduce((sum, income) => {
+    const schedule = getIncomeSchedule(income);
+    return schedule ? sum + NetWorthProjection.monthlyCents(toBaseCents(income.amount, income.currency), schedule.frequency) : sum;
+  }, 0);
+  const monthlyExpenseCents = useExpenseStore.getState().expenses.reduce((sum, expense) => {
+    const schedule = getExpenseSchedule(expense);
+    return schedule ? sum + NetWorthProjection.monthlyCents(toBaseCents(expense.amount, expense.currency), schedule.frequency) : sum;
+  }, 0);
+
+  return {
+    assets,
+    debts: getPayoffDebts().map(debt => ({ balanceCents: debt.balanceCents, annualRate: debt.annualRate, paymentCents: debt.minimumCents })),
+    monthlyIncomeCents,
+    monthlyExpenseCents,
+  };
+};
+
 // Helper function moved from expense breakdown
 const getExpenseCategory = (accountName: string): string => {
   const name = accountName.toLowerCase();
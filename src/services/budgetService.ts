@@ -0,0 +1,159 @@
+/**
+ * Budget Service
+ * API service for budget CRUD operations with Supabase
+ */
+
+import { supabase, supabaseUntyped, getSessionUser } from '../lib/supabase';
+import type { Budget, BudgetScope, ExpenseRating } from '../types';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+export interface CreateBudgetData {
+  name: string;
+  scope: BudgetScope;
+  category?: string;
+  rating?: ExpenseRating;
+  monthlyLimit: number;
+  currency: string;
+  rollover?: boolean;
+  startMonth: string;
+}
+
+export interface UpdateBudgetData {
+  name?: string;
+  monthlyLimit?: number;
+  currency?: string;
+  rollover?: boolean;
+  startMonth?: string;
+}
+
+// Map database row to app Budget type
+function mapRowToBudget(row: Record<string, unknown>): Budget {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    scope: row.scope as BudgetScope,
+    category: (row.category as string) || undefined,
+    rating: (row.rating as ExpenseRating) || undefined,
+    monthlyLimit: Number(row.monthly_limit),
+    currency: (row.currency as string) || 'MXN',
+    rollover: Boolean(row.rollover),
+    startMonth: row.start_month as string,
+    created_at: row.created_at as string,
+  };
+}
+
+export const budgetService = {
+  /**
+   * Get all budgets for the current user
+   */
+  async getAll(): Promise<Budget[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] budgetService.getAll() - use localStorage');
+      return [];
+    }
+
+    const user = await getSessionUser();
+
+    const { data, error } = await supabase
+      .from('budgets')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('name', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch budgets: ${error.message}`);
+    }
+
+    return (data || []).map(mapRowToBudget);
+  },
+
+  /**
+   * Create a new budget
+   */
+  async create(budget: CreateBudgetData): Promise<Budget> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const insertData = {
+      user_id: user.id,
+      name: budget.name,
+      scope: budget.scope,
+      category: budget.scope === 'category' ? budget.category : null,
+      rating: budget.scope === 'rating' ? budget.rating : null,
+      monthly_limit: budget.monthlyLimit,
+      currency: budget.currency,
+      rollover: budget.rollover || false,
+      start_month: budget.startMonth,
+    };
+
+    const { data, error } = await supabaseUntyped
+      .from('budgets')
+      .insert(insertData)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create budget: ${error.message}`);
+    }
+
+    return mapRowToBudget(data);
+  },
+
+  /**
+   * Update an existing budget
+   */
+  async update(id: string, updates: UpdateBudgetData): Promise<Budget> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const updateData: Record<string, unknown> = {};
+    if (updates.name !== undefined) updateData.name = updates.name;
+    if (updates.monthlyLimit !== undefined) updateData.monthly_limit = updates.monthlyLimit;
+    if (updates.currency !== undefined) updateData.currency = updates.currency;
+    if (updates.rollover !== undefined) updateData.rollover = updates.rollover;
+    if (updates.startMonth !== undefined) updateData.start_month = updates.startMonth;
+
+    const { data, error } = await supabaseUntyped
+      .from('budgets')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to update budget: ${error.message}`);
+    }
+
+    return mapRowToBudget(data);
+  },
+
+  /**
+   * Delete a budget
+   */
+  async delete(id: string): Promise<void> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const { error } = await supabase
+      .from('budgets')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to delete budget: ${error.message}`);
+    }
+  },
+};
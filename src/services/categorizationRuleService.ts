@@ -0,0 +1,126 @@
+/**
+ * Categorization Rule Service
+ * API service for expense categorization rules via the /api/categorization-rules endpoints
+ */
+
+import { apiRequest } from '../lib/api';
+import type { CategorizationRule, ExpenseRating } from '../types';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+export type CreateCategorizationRuleData = Omit<CategorizationRule, 'id'>;
+
+export type UpdateCategorizationRuleData = Partial<CreateCategorizationRuleData>;
+
+export interface ApplyCategorizationRulesResult {
+  processed: number;
+  updated: number;
+}
+
+// Map API row to app CategorizationRule type
+function mapRowToCategorizationRule(row: Record<string, unknown>): CategorizationRule {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    priority: Number(row.priority),
+    enabled: Boolean(row.enabled),
+    descriptionPattern: (row.description_pattern as string) || null,
+    minAmount: row.min_amount != null ? Number(row.min_amount) : null,
+    maxAmount: row.max_amount != null ? Number(row.max_amount) : null,
+    currency: (row.currency as string) || null,
+    accountId: (row.account_id as string) || null,
+    category: (row.category as string) || null,
+    subcategory: (row.subcategory as string) || null,
+    rating: (row.rating as ExpenseRating) || null,
+    recurring: row.recurring != null ? Boolean(row.recurring) : null,
+  };
+}
+
+// Map app fields to API columns, leaving out fields that were not provided
+function mapRuleToBody(rule: UpdateCategorizationRuleData): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+  if (rule.name !== undefined) body.name = rule.name;
+  if (rule.priority !== undefined) body.priority = rule.priority;
+  if (rule.enabled !== undefined) body.enabled = rule.enabled;
+  if (rule.descriptionPattern !== undefined) body.description_pattern = rule.descriptionPattern;
+  if (rule.minAmount !== undefined) body.min_amount = rule.minAmount;
+  if (rule.maxAmount !== undefined) body.max_amount = rule.maxAmount;
+  if (rule.currency !== undefined) body.currency = rule.currency;
+  if (rule.accountId !== undefined) body.account_id = rule.accountId;
+  if (rule.category !== undefined) body.category = rule.category;
+  if (rule.subcategory !== undefined) body.subcategory = rule.subcategory;
+  if (rule.rating !== undefined) body.rating = rule.rating;
+  if (rule.recurring !== undefined) body.recurring = rule.recurring;
+  return body;
+}
+
+export const categorizationRuleService = {
+  /**
+   * Get all categorization rules, in the order they are applied
+   */
+  async getAll(): Promise<CategorizationRule[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] categorizationRuleService.getAll() - use localStorage');
+      return [];
+    }
+
+    const rows = await apiRequest<Record<string, unknown>[]>('/categorization-rules');
+    return rows.map(mapRowToCategorizationRule);
+  },
+
+  /**
+   * Create a categorization rule
+   */
+  async create(rule: CreateCategorizationRuleData): Promise<CategorizationRule> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>('/categorization-rules', {
+      method: 'POST',
+      body: mapRuleToBody(rule),
+    });
+    return mapRowToCategorizationRule(row);
+  },
+
+  /**
+   * Update a categorization rule
+   */
+  async update(id: string, updates: UpdateCategorizationRuleData): Promise<CategorizationRule> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/categorization-rules/${id}`, {
+      method: 'PUT',
+      body: mapRuleToBody(updates),
+    });
+    return mapRowToCategorizationRule(row);
+  },
+
+  /**
+   * Delete a categorization rule (already categorized expenses keep their category)
+   */
+  async delete(id: string): Promise<void> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    await apiRequest<void>(`/categorization-rules/${id}`, { method: 'DELETE' });
+  },
+
+  /**
+   * Re-run the rules over existing expenses on the server
+   */
+  async applyToHistory(options: { onlyUncategorized?: boolean } = {}): Promise<ApplyCategorizationRulesResult> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    return apiRequest<ApplyCategorizationRulesResult>('/categorization-rules/apply', {
+      method: 'POST',
+      body: options,
+    });
+  },
+};
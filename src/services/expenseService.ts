@@ -4,7 +4,7 @@
  */
 
 import { supabase, supabaseUntyped, getSessionUser } from '../lib/supabase';
-import type { Expense, ExpenseRating } from '../types';
+import type { Expense, ExpenseRating, ExpenseSplit } from '../types';
 
 // Dev mode configuration
 const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
@@ -16,6 +16,10 @@ export interface CreateExpenseData {
   rating: ExpenseRating;
   date?: string;
   recurring?: boolean;
+  category?: string;
+  subcategory?: string;
+  splits?: ExpenseSplit[];
+  tags?: string[];
 }
 
 export interface UpdateExpenseData {
@@ -25,6 +29,27 @@ export interface UpdateExpenseData {
   rating?: ExpenseRating;
   date?: string;
   recurring?: boolean;
+  category?: string;
+  subcategory?: string;
+  splits?: ExpenseSplit[];
+  tags?: string[];
+}
+
+// Split lines are stored as JSONB; an empty array means the expense is not split
+function mapRowToSplits(value: unknown): ExpenseSplit[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  return value.map((line: Record<string, unknown>) => ({
+    amount: Number(line.amount),
+    rating: line.rating as ExpenseRating,
+    category: (line.category as string) || undefined,
+    subcategory: (line.subcategory as string) || undefined,
+    note: (line.note as string) || undefined,
+  }));
+}
+
+// Tags are stored as a text array; an empty array means the expense is untagged
+function mapRowToTags(value: unknown): string[] | undefined {
+  return Array.isArray(value) && value.length > 0 ? (value as string[]) : undefined;
 }
 
 // Map database row to app Expense type
@@ -38,6 +63,11 @@ function mapRowToExpense(row: Record<string, unknown>): Expense {
     date: row.date as string,
     created_at: row.created_at as string,
     recurring: Boolean(row.recurring),
+    category: (row.category as string) || undefined,
+    subcategory: (row.subcategory as string) || undefined,
+    recurringSourceId: (row.recurring_source_id as string) || undefined,
+    splits: mapRowToSplits(row.splits),
+    tags: mapRowToTags(row.tags),
   };
 }
 
@@ -137,6 +167,10 @@ export const expenseService = {
       rating: expense.rating,
       date: expense.date || new Date().toISOString().split('T')[0],
       recurring: expense.recurring || false,
+      category: expense.category ?? null,
+      subcategory: expense.subcategory ?? null,
+      splits: expense.splits ?? [],
+      tags: expense.tags ?? [],
     };
 
     const { data, error } = await supabaseUntyped
@@ -169,6 +203,10 @@ export const expenseService = {
     if (updates.rating !== undefined) updateData.rating = updates.rating;
     if (updates.date !== undefined) updateData.date = updates.date;
     if (updates.recurring !== undefined) updateData.recurring = updates.recurring;
+    if (updates.category !== undefined) updateData.category = updates.category || null;
+    if (updates.subcategory !== undefined) updateData.subcategory = updates.subcategory || null;
+    if (updates.splits !== undefined) updateData.splits = updates.splits;
+    if (updates.tags !== undefined) updateData.tags = updates.tags;
 
     const { data, error } = await supabaseUntyped
       .from('expenses')
@@ -224,6 +262,10 @@ export const expenseService = {
       rating: expense.rating,
       date: expense.date || new Date().toISOString().split('T')[0],
       recurring: expense.recurring || false,
+      category: expense.category ?? null,
+      subcategory: expense.subcategory ?? null,
+      splits: expense.splits ?? [],
+      tags: expense.tags ?? [],
     }));
 
     const { data, error } = await supabaseUntyped
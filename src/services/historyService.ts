@@ -0,0 +1,37 @@
+/**
+ * History Service
+ * API service for record edit history via the /api/history endpoints
+ */
+
+import { apiRequest } from '../lib/api';
+import type { FieldChange, HistoryEntry, HistoryTable } from '../domain/history';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+// Map API row to a history entry
+function mapRowToEntry(row: Record<string, unknown>): HistoryEntry {
+  return {
+    id: row.id as string,
+    table: row.table_name as HistoryTable,
+    recordId: row.record_id as string,
+    changedBy: (row.changed_by as string | null) ?? null,
+    changedAt: row.created_at as string,
+    changes: (row.changes as FieldChange[]) || [],
+  };
+}
+
+export const historyService = {
+  /**
+   * Get the edits made to a record, newest first
+   */
+  async getForRecord(table: HistoryTable, recordId: string): Promise<HistoryEntry[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] historyService.getForRecord() - use localStorage');
+      return [];
+    }
+
+    const rows = await apiRequest<Record<string, unknown>[]>(`/history/${table}/${recordId}`);
+    return rows.map(mapRowToEntry);
+  },
+};
@@ -0,0 +1,201 @@
+/**
+ * Holding Service
+ * API service for investment trades and security prices with Supabase
+ */
+
+import { supabase, supabaseUntyped, getSessionUser } from '../lib/supabase';
+import type { InvestmentTrade, SecurityPrice } from '../types';
+import type { TradeKind } from '../domain/holdings';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+export type CreateTradeData = Omit<InvestmentTrade, 'id' | 'created_at'>;
+export type UpsertPriceData = Omit<SecurityPrice, 'id' | 'created_at'>;
+
+// Map database row to app InvestmentTrade type
+function mapRowToTrade(row: Record<string, unknown>): InvestmentTrade {
+  return {
+    id: row.id as string,
+    accountId: row.account_id as string,
+    symbol: row.symbol as string,
+    kind: row.kind as TradeKind,
+    date: row.trade_date as string,
+    quantity: Number(row.quantity) || 0,
+    price: Number(row.price) || 0,
+    fees: Number(row.fees) || 0,
+    amount: Number(row.amount) || 0,
+    transactionId: (row.transaction_id as string | null) ?? undefined,
+    created_at: row.created_at as string,
+  };
+}
+
+// Map database row to app SecurityPrice type
+function mapRowToPrice(row: Record<string, unknown>): SecurityPrice {
+  return {
+    id: row.id as string,
+    symbol: row.symbol as string,
+    date: row.price_date as string,
+    price: Number(row.price) || 0,
+    currency: (row.currency as string) || 'MXN',
+    created_at: row.created_at as string,
+  };
+}
+
+export const holdingService = {
+  /**
+   * Get all trades for the current user, oldest first
+   */
+  async getTrades(): Promise<InvestmentTrade[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] holdingService.getTrades() - use localStorage');
+      return [];
+    }
+
+    const user = await getSessionUser();
+
+    const { data, error } = await supabase
+      .from('investment_trades')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('trade_date', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch trades: ${error.message}`);
+    }
+
+    return (data || []).map(mapRowToTrade);
+  },
+
+  /**
+   * Record a trade
+   */
+  async createTrade(trade: CreateTradeData): Promise<InvestmentTrade> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const { data, error } = await supabaseUntyped
+      .from('investment_trades')
+      .insert({
+        user_id: user.id,
+        account_id: trade.accountId,
+        symbol: trade.symbol,
+        kind: trade.kind,
+        trade_date: trade.date,
+        quantity: trade.quantity,
+        price: trade.price,
+        fees: trade.fees,
+        amount: trade.amount,
+        transaction_id: trade.transactionId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create trade: ${error.message}`);
+    }
+
+    return mapRowToTrade(data);
+  },
+
+  /**
+   * Delete a trade
+   */
+  async deleteTrade(id: string): Promise<void> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const { error } = await supabase
+      .from('investment_trades')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to delete trade: ${error.message}`);
+    }
+  },
+
+  /**
+   * Get all security prices for the current user
+   */
+  async getPrices(): Promise<SecurityPrice[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] holdingService.getPrices() - use localStorage');
+      return [];
+    }
+
+    const user = await getSessionUser();
+
+    const { data, error } = await supabase
+      .from('security_prices')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('price_date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch prices: ${error.message}`);
+    }
+
+    return (data || []).map(mapRowToPrice);
+  },
+
+  /**
+   * Save prices, replacing any already stored for the same symbol and day
+   */
+  async upsertPrices(prices: UpsertPriceData[]): Promise<SecurityPrice[]> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const { data, error } = await supabaseUntyped
+      .from('security_prices')
+      .upsert(
+        prices.map((price) => ({
+          user_id: user.id,
+          symbol: price.symbol,
+          price_date: price.date,
+          price: price.price,
+          currency: price.currency,
+        })),
+        { onConflict: 'user_id,symbol,price_date' }
+      )
+      .select();
+
+    if (error) {
+      throw new Error(`Failed to save prices: ${error.message}`);
+    }
+
+    return (data || []).map(mapRowToPrice);
+  },
+
+  /**
+   * Delete a security price
+   */
+  async deletePrice(id: string): Promise<void> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const { error } = await supabase
+      .from('security_prices')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id);
+
+    if (error) {
+      throw new Error(`Failed to delete price: ${error.message}`);
+    }
+  },
+};
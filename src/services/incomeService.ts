@@ -15,6 +15,7 @@ export interface CreateIncomeData {
   currency: string;
   frequency: IncomeFrequency;
   date?: string;
+  tags?: string[];
 }
 
 export interface UpdateIncomeData {
@@ -23,6 +24,7 @@ export interface UpdateIncomeData {
   currency?: string;
   frequency?: IncomeFrequency;
   date?: string;
+  tags?: string[];
 }
 
 // Map database row to app Income type
@@ -35,6 +37,8 @@ function mapRowToIncome(row: Record<string, unknown>): Income {
     frequency: (row.frequency as IncomeFrequency) || 'one-time',
     date: row.date as string,
     created_at: row.created_at as string,
+    recurringSourceId: (row.recurring_source_id as string) || undefined,
+    tags: Array.isArray(row.tags) && row.tags.length > 0 ? (row.tags as string[]) : undefined,
   };
 }
 
@@ -133,6 +137,7 @@ export const incomeService = {
       currency: income.currency,
       frequency: income.frequency,
       date: income.date || new Date().toISOString().split('T')[0],
+      tags: income.tags ?? [],
     };
 
     const { data, error } = await supabaseUntyped
@@ -164,6 +169,7 @@ export const incomeService = {
     if (updates.currency !== undefined) updateData.currency = updates.currency;
     if (updates.frequency !== undefined) updateData.frequency = updates.frequency;
     if (updates.date !== undefined) updateData.date = updates.date;
+    if (updates.tags !== undefined) updateData.tags = updates.tags;
 
     const { data, error } = await supabaseUntyped
       .from('income')
@@ -218,6 +224,7 @@ export const incomeService = {
       currency: income.currency,
       frequency: income.frequency,
       date: income.date || new Date().toISOString().split('T')[0],
+      tags: income.tags ?? [],
     }));
 
     const { data, error } = await supabaseUntyped
@@ -12,6 +12,25 @@ export { netWorthAccountService } from './netWorthAccountService';
 export type { CreateAccountData, UpdateAccountData } from './netWorthAccountService';
 export { ledgerAccountService } from './ledgerAccountService';
 export type { CreateLedgerAccountData, UpdateLedgerAccountData } from './ledgerAccountService';
+export { budgetService } from './budgetService';
+export type { CreateBudgetData, UpdateBudgetData } from './budgetService';
+export { recurringService } from './recurringService';
+export type { CreateRecurringRuleData, UpdateRecurringRuleData, RecurringGenerateResult } from './recurringService';
+export { categorizationRuleService } from './categorizationRuleService';
+export type {
+  CreateCategorizationRuleData,
+  UpdateCategorizationRuleData,
+  ApplyCategorizationRulesResult,
+} from './categorizationRuleService';
+export { tagService } from './tagService';
+export type { UpdateTagData } from './tagService';
+export { holdingService } from './holdingService';
+export type { CreateTradeData, UpsertPriceData } from './holdingService';
+export { yieldAccrualService } from './yieldAccrualService';
+export type { CreateYieldAccrualData } from './yieldAccrualService';
+export { journalService } from './journalService';
+export { historyService } from './historyService';
+export { periodService } from './periodService';
 export { snapshotService } from './snapshotService';
 export type { AccountSnapshot, NetWorthSnapshot, CreateSnapshotData } from './snapshotService';
 export { migrationService, readLocalStorageData, checkExistingSupabaseData, migrateToSupabase, clearLocalStorageData } from './migrationService';
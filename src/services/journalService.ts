@@ -0,0 +1,318 @@
+/**
+ * Journal Service
+ * API service for the double-entry ledger via the /api/accounts and /api/transactions endpoints
+ */
+
+import { apiRequest } from '../lib/api';
+import { Money } from '../domain/money';
+import { parseLocalDate, toLocalDateString } from '../utils/dateFormat';
+import type { Account, AccountNature, Posting, Transaction, TransactionType } from '../domain/ledger';
+import type { Reconciliation } from '../domain/reconciliation';
+import type { FxRevaluationReport } from '../domain/fxRevaluation';
+import type { TransactionStatus } from '../domain/reversal';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+// The API caps page size at 100
+const PAGE_SIZE = 100;
+
+interface PaginatedRows {
+  data: Record<string, unknown>[];
+  pagination: { page: number; totalPages: number };
+}
+
+// Map API account row to domain Account
+function mapRowToAccount(row: Record<string, unknown>): Account {
+  return {
+    id: row.id as string,
+    code: row.code as string,
+    name: row.name as string,
+    nature: row.type as AccountNature,
+    parentId: (row.parent_id as string) || undefined,
+    isActive: row.is_active !== false,
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+// Map API posting row to domain Posting; rows without a booked amount were booked 1:1
+function mapRowToPosting(row: Record<string, unknown>, baseCurrency: string): Posting {
+  const original = Money.fromMinorUnits(Number(row.amount_cents), row.currency as string);
+  const booked = Money.fromMinorUnits(Number(row.booked_amount_cents ?? row.amount_cents), baseCurrency);
+  const isDebit = Boolean(row.is_debit);
+  return {
+    id: row.id as string,
+    accountId: row.account_id as string,
+    originalDebitAmount: isDebit ? original : null,
+    originalCreditAmount: isDebit ? null : original,
+    bookedDebitAmount: isDebit ? booked : null,
+    bookedCreditAmount: isDebit ? null : booked,
+    exchangeRate: row.exchange_rate != null ? Number(row.exchange_rate) : undefined,
+    reconciled: row.reconciled === true,
+    reconciledAt: row.reconciled_at ? new Date(row.reconciled_at as string) : undefined,
+  };
+}
+
+// Map API reconciliation row to domain Reconciliation
+function mapRowToReconciliation(row: Record<string, unknown>): Reconciliation {
+  return {
+    id: row.id as string,
+    accountId: row.account_id as string,
+    statementDate: row.statement_date as string,
+    statementBalanceCents: Number(row.statement_balance_cents),
+    postingIds: (row.posting_ids as string[] | undefined) ?? [],
+    createdAt: row.created_at as string,
+  };
+}
+
+// Map API transaction row (with nested postings) to domain Transaction
+function mapRowToTransaction(row: Record<string, unknown>): Transaction {
+  const postings = (row.postings as Record<string, unknown>[] | undefined) ?? [];
+  const baseCurrency = (row.base_currency as string) || (postings[0]?.currency as string) || 'USD';
+  return {
+    id: row.id as string,
+    date: parseLocalDate(row.date as string),
+    description: row.description as string,
+    memo: (row.memo as string) || undefined,
+    reference: (row.reference as string) || undefined,
+    tags: (row.tags as string[] | null) ?? [],
+    transactionType: (row.transaction_type as TransactionType) || undefined,
+    status: (row.status as TransactionStatus) || 'posted',
+    reversesId: (row.reverses_id as string) || undefined,
+    reversedById: (row.reversed_by_id as string) || undefined,
+    baseCurrency,
+    postings: postings.map((posting) => mapRowToPosting(posting, baseCurrency)),
+    createdAt: new Date(row.created_at as string),
+    updatedAt: new Date(row.updated_at as string),
+  };
+}
+
+// Map API revaluation report to domain FxRevaluationReport
+function mapRowToRevaluationReport(row: Record<string, unknown>): FxRevaluationReport {
+  const lines = (row.lines as Record<string, unknown>[] | undefined) ?? [];
+  return {
+    date: row.revaluation_date as string,
+    baseCurrency: row.base_currency as string,
+    totalAdjustmentCents: Number(row.total_adjustment_cents),
+    transactionId: (row.transaction_id as string) || null,
+    lines: lines.map((line) => ({
+      accountId: line.account_id as string,
+      currency: line.currency as string,
+      balanceCents: Number(line.balance_cents),
+      bookedBalanceCents: Number(line.booked_balance_cents),
+      rate: Number(line.rate),
+      revaluedCents: Number(line.revalued_cents),
+      adjustmentCents: Number(line.adjustment_cents),
+    })),
+  };
+}
+
+// Map domain Transaction to the POST /api/transactions body
+function mapTransactionToBody(transaction: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>): Record<string, unknown> {
+  return {
+    date: toLocalDateString(transaction.date),
+    description: transaction.description,
+    memo: transaction.memo,
+    reference: transaction.reference,
+    tags: transaction.tags ?? [],
+    base_currency: transaction.baseCurrency,
+    transaction_type: transaction.transactionType,
+    postings: transaction.postings.map((posting) => {
+      const original = posting.originalDebitAmount ?? posting.originalCreditAmount;
+      const booked = posting.bookedDebitAmount ?? posting.bookedCreditAmount;
+      return {
+        account_id: posting.accountId,
+        amount_cents: original?.getAmountMinor() ?? 0,
+        currency: original?.getCurrency() ?? transaction.baseCurrency,
+        is_debit: posting.originalDebitAmount !== null,
+        exchange_rate: posting.exchangeRate,
+        booked_amount_cents: booked?.getAmountMinor(),
+      };
+    }),
+  };
+}
+
+// Fetch every page of a paginated list endpoint
+async function fetchAllPages(path: string): Promise<Record<string, unknown>[]> {
+  const rows: Record<string, unknown>[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const separator = path.includes('?') ? '&' : '?';
+    const result = await apiRequest<PaginatedRows>(`${path}${separator}page=${page}&limit=${PAGE_SIZE}`);
+    rows.push(...result.data);
+    totalPages = result.pagination.totalPages;
+    page += 1;
+  } while (page <= totalPages);
+  return rows;
+}
+
+export const journalService = {
+  /**
+   * Get the chart of accounts used for journal postings
+   */
+  async getAccounts(): Promise<Account[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] journalService.getAccounts() - use localStorage');
+      return [];
+    }
+
+    const rows = await fetchAllPages('/accounts');
+    return rows.map(mapRowToAccount);
+  },
+
+  /**
+   * Add an account to the chart of accounts
+   */
+  async createAccount(account: Pick<Account, 'code' | 'name' | 'nature' | 'parentId'>): Promise<Account> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>('/accounts', {
+      method: 'POST',
+      body: {
+        code: account.code,
+        name: account.name,
+        type: account.nature,
+        parent_id: account.parentId ?? null,
+      },
+    });
+    return mapRowToAccount(row);
+  },
+
+  /**
+   * Move an account under another account, or to the top level when parentId is null
+   */
+  async moveAccount(accountId: string, parentId: string | null): Promise<Account> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/accounts/${accountId}`, {
+      method: 'PUT',
+      body: { parent_id: parentId },
+    });
+    return mapRowToAccount(row);
+  },
+
+  /**
+   * Get all journal transactions, newest first
+   */
+  async getAll(): Promise<Transaction[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] journalService.getAll() - use localStorage');
+      return [];
+    }
+
+    // Voided entries are kept so the journal can show reversal chains
+    const rows = await fetchAllPages('/transactions?include_voided=true');
+    return rows.map(mapRowToTransaction);
+  },
+
+  /**
+   * Post a balanced journal entry
+   */
+  async create(transaction: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>): Promise<Transaction> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>('/transactions', {
+      method: 'POST',
+      body: mapTransactionToBody(transaction),
+    });
+    return mapRowToTransaction(row);
+  },
+
+  /**
+   * Void a transaction; returns the offsetting entry
+   */
+  async void(id: string, reason?: string): Promise<Transaction> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/transactions/${id}/void`, {
+      method: 'POST',
+      body: { reason },
+    });
+    return mapRowToTransaction(row);
+  },
+
+  /**
+   * Reverse a transaction on a later date; returns the offsetting entry
+   */
+  async reverse(id: string, date: string, reason?: string): Promise<Transaction> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/transactions/${id}/reverse`, {
+      method: 'POST',
+      body: { date, reason },
+    });
+    return mapRowToTransaction(row);
+  },
+
+  /**
+   * Get an account's reconciliation history, newest statement first
+   */
+  async getReconciliations(accountId: string): Promise<Reconciliation[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] journalService.getReconciliations() - use localStorage');
+      return [];
+    }
+
+    const rows = await apiRequest<Record<string, unknown>[]>(`/accounts/${accountId}/reconciliations`);
+    return rows.map(mapRowToReconciliation);
+  },
+
+  /**
+   * Reconcile an account against a bank statement, marking the selected postings reconciled
+   */
+  async reconcile(
+    accountId: string,
+    data: { statementDate: string; statementBalanceCents: number; postingIds: string[] }
+  ): Promise<Reconciliation> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/accounts/${accountId}/reconciliations`, {
+      method: 'POST',
+      body: {
+        statement_date: data.statementDate,
+        statement_balance_cents: data.statementBalanceCents,
+        posting_ids: data.postingIds,
+      },
+    });
+    return mapRowToReconciliation(row);
+  },
+
+  /**
+   * Revalue foreign-currency balances at the rates for a date; a dry run only reports
+   */
+  async revalue(data: {
+    date: string;
+    baseCurrency: string;
+    gainLossAccountId: string;
+    dryRun: boolean;
+  }): Promise<FxRevaluationReport> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>('/fx-revaluations', {
+      method: 'POST',
+      body: {
+        date: data.date,
+        base_currency: data.baseCurrency,
+        gain_loss_account_id: data.gainLossAccountId,
+        dry_run: data.dryRun,
+      },
+    });
+    return mapRowToRevaluationReport(row);
+  },
+};
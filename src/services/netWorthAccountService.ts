@@ -5,6 +5,10 @@
 
 import { supabase, supabaseUntyped, getSessionUser } from '../lib/supabase';
 import type { Account, AccountType } from '../types';
+import type { LoanTerms } from '../domain/amortization';
+import type { CardTerms } from '../domain/cardCycles';
+import type { CostBasisMethod } from '../domain/holdings';
+import type { YieldTerms } from '../domain/yieldAccrual';
 
 // Dev mode configuration
 const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
@@ -36,6 +40,11 @@ export interface UpdateAccountData {
   lastUpdated?: string;
   minMonthlyPayment?: number;
   paymentToAvoidInterest?: number;
+  ledgerAccountId?: string;
+  loanTerms?: LoanTerms; // Present but undefined clears the terms
+  cardTerms?: CardTerms; // Likewise
+  costBasisMethod?: CostBasisMethod; // Likewise; unset means FIFO
+  yieldTerms?: YieldTerms; // Likewise
 }
 
 // Map database row to app Account type
@@ -55,6 +64,11 @@ function mapRowToAccount(row: Record<string, unknown>): Account {
     lastUpdated: row.last_updated as string | undefined,
     minMonthlyPayment: row.min_monthly_payment as number | undefined,
     paymentToAvoidInterest: row.payment_to_avoid_interest as number | undefined,
+    ledgerAccountId: (row.ledger_account_id as string | null) ?? undefined,
+    loanTerms: (row.loan_terms as LoanTerms | null) ?? undefined,
+    cardTerms: (row.card_terms as CardTerms | null) ?? undefined,
+    costBasisMethod: (row.cost_basis_method as CostBasisMethod | null) ?? undefined,
+    yieldTerms: (row.yield_terms as YieldTerms | null) ?? undefined,
   };
 }
 
@@ -172,6 +186,11 @@ export const netWorthAccountService = {
     if (updates.estimatedYield !== undefined) updateData.estimated_yield = updates.estimatedYield;
     if (updates.minMonthlyPayment !== undefined) updateData.min_monthly_payment = updates.minMonthlyPayment;
     if (updates.paymentToAvoidInterest !== undefined) updateData.payment_to_avoid_interest = updates.paymentToAvoidInterest;
+    if (updates.ledgerAccountId !== undefined) updateData.ledger_account_id = updates.ledgerAccountId;
+    if ('loanTerms' in updates) updateData.loan_terms = updates.loanTerms ?? null;
+    if ('cardTerms' in updates) updateData.card_terms = updates.cardTerms ?? null;
+    if ('costBasisMethod' in updates) updateData.cost_basis_method = updates.costBasisMethod ?? null;
+    if ('yieldTerms' in updates) updateData.yield_terms = updates.yieldTerms ?? null;
 
     const { data, error } = await supabaseUntyped
       .from('net_worth_accounts')
@@ -0,0 +1,72 @@
+/**
+ * Period Service
+ * API service for month-end close via the /api/periods endpoints
+ */
+
+import { apiRequest } from '../lib/api';
+import type { PeriodClose, PeriodCloseAction, PeriodCloseEvent } from '../domain/periodClose';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+// Map API period close row to domain PeriodClose
+function mapRowToPeriodClose(row: Record<string, unknown>): PeriodClose {
+  return {
+    id: row.id as string,
+    period: row.period as string,
+    closedAt: row.closed_at as string,
+  };
+}
+
+// Map API audit row to domain PeriodCloseEvent
+function mapRowToPeriodCloseEvent(row: Record<string, unknown>): PeriodCloseEvent {
+  return {
+    id: row.id as string,
+    period: row.period as string,
+    action: row.action as PeriodCloseAction,
+    reason: (row.reason as string) || undefined,
+    createdAt: row.created_at as string,
+  };
+}
+
+export const periodService = {
+  /**
+   * Get closed periods and the close/reopen audit trail
+   */
+  async getAll(): Promise<{ closes: PeriodClose[]; events: PeriodCloseEvent[] }> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] periodService.getAll() - use localStorage');
+      return { closes: [], events: [] };
+    }
+
+    const result = await apiRequest<{ closes: Record<string, unknown>[]; events: Record<string, unknown>[] }>('/periods');
+    return {
+      closes: result.closes.map(mapRowToPeriodClose),
+      events: result.events.map(mapRowToPeriodCloseEvent),
+    };
+  },
+
+  /**
+   * Close a month
+   */
+  async close(period: string): Promise<PeriodClose> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/periods/${period}/close`, { method: 'POST' });
+    return mapRowToPeriodClose(row);
+  },
+
+  /**
+   * Reopen a closed month, recording the reason; the period is repeated as the
+   * confirmation the API asks for
+   */
+  async reopen(period: string, reason: string): Promise<void> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    await apiRequest<void>(`/periods/${period}/reopen`, { method: 'POST', body: { reason, confirm_period: period } });
+  },
+};
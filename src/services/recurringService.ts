@@ -0,0 +1,212 @@
+/**
+ * Recurring Service
+ * API service for recurring rules via the /api/recurring endpoints
+ */
+
+import { apiRequest } from '../lib/api';
+import type { RecurringRule, RecurringKind, RecurrenceFrequency, ExpenseRating } from '../types';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+export interface CreateRecurringRuleData {
+  kind: RecurringKind;
+  sourceId?: string;
+  description: string;
+  amount: number;
+  currency: string;
+  rating?: ExpenseRating;
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number;
+  startDate: string;
+  endDate?: string;
+}
+
+export interface UpdateRecurringRuleData {
+  description?: string;
+  amount?: number;
+  currency?: string;
+  rating?: ExpenseRating;
+  frequency?: RecurrenceFrequency;
+  dayOfMonth?: number | null;
+  endDate?: string | null;
+}
+
+export interface RecurringGenerateResult {
+  expensesCreated: number;
+  incomeCreated: number;
+}
+
+// Map API row to app RecurringRule type
+function mapRowToRecurringRule(row: Record<string, unknown>): RecurringRule {
+  return {
+    id: row.id as string,
+    kind: row.kind as RecurringKind,
+    sourceId: (row.source_id as string) || undefined,
+    description: row.description as string,
+    amount: Number(row.amount),
+    currency: (row.currency as string) || 'MXN',
+    rating: (row.rating as ExpenseRating) || undefined,
+    frequency: row.frequency as RecurrenceFrequency,
+    dayOfMonth: row.day_of_month != null ? Number(row.day_of_month) : undefined,
+    startDate: row.start_date as string,
+    endDate: (row.end_date as string) || undefined,
+    skipDates: (row.skip_dates as string[]) || [],
+    paused: Boolean(row.paused),
+    lastGeneratedDate: (row.last_generated_date as string) || undefined,
+    created_at: row.created_at as string,
+  };
+}
+
+export const recurringService = {
+  /**
+   * Get recurring rules, optionally for one kind or source transaction
+   */
+  async getAll(filters: { kind?: RecurringKind; sourceId?: string } = {}): Promise<RecurringRule[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] recurringService.getAll() - recurring templates are local');
+      return [];
+    }
+
+    const params = new URLSearchParams();
+    if (filters.kind) params.set('kind', filters.kind);
+    if (filters.sourceId) params.set('source_id', filters.sourceId);
+    const query = params.toString();
+
+    const rows = await apiRequest<Record<string, unknown>[]>(`/recurring${query ? `?${query}` : ''}`);
+    return rows.map(mapRowToRecurringRule);
+  },
+
+  /**
+   * Create a recurring rule
+   */
+  async create(rule: CreateRecurringRuleData): Promise<RecurringRule> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>('/recurring', {
+      method: 'POST',
+      body: {
+        kind: rule.kind,
+        source_id: rule.sourceId,
+        description: rule.description,
+        amount: rule.amount,
+        currency: rule.currency,
+        rating: rule.rating,
+        frequency: rule.frequency,
+        day_of_month: rule.dayOfMonth,
+        start_date: rule.startDate,
+        end_date: rule.endDate,
+      },
+    });
+    return mapRowToRecurringRule(row);
+  },
+
+  /**
+   * Update a recurring rule
+   */
+  async update(id: string, updates: UpdateRecurringRuleData): Promise<RecurringRule> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const body: Record<string, unknown> = {};
+    if (updates.description !== undefined) body.description = updates.description;
+    if (updates.amount !== undefined) body.amount = updates.amount;
+    if (updates.currency !== undefined) body.currency = updates.currency;
+    if (updates.rating !== undefined) body.rating = updates.rating;
+    if (updates.frequency !== undefined) body.frequency = updates.frequency;
+    if (updates.dayOfMonth !== undefined) body.day_of_month = updates.dayOfMonth;
+    if (updates.endDate !== undefined) body.end_date = updates.endDate;
+
+    const row = await apiRequest<Record<string, unknown>>(`/recurring/${id}`, { method: 'PUT', body });
+    return mapRowToRecurringRule(row);
+  },
+
+  /**
+   * Delete a recurring rule (already generated transactions are kept)
+   */
+  async delete(id: string): Promise<void> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    await apiRequest<void>(`/recurring/${id}`, { method: 'DELETE' });
+  },
+
+  /**
+   * Skip a single occurrence of a rule
+   */
+  async skip(id: string, date: string): Promise<RecurringRule> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/recurring/${id}/skip`, { method: 'POST', body: { date } });
+    return mapRowToRecurringRule(row);
+  },
+
+  /**
+   * Pause or resume a rule
+   */
+  async setPaused(id: string, paused: boolean): Promise<RecurringRule> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/recurring/${id}/${paused ? 'pause' : 'resume'}`, {
+      method: 'POST',
+    });
+    return mapRowToRecurringRule(row);
+  },
+
+  /**
+   * Create, update or remove the rule backing a template expense/income.
+   * Pass null as the rule data when the transaction is no longer recurring.
+   */
+  async syncForSource(
+    kind: RecurringKind,
+    sourceId: string,
+    rule: Omit<CreateRecurringRuleData, 'kind' | 'sourceId'> | null
+  ): Promise<RecurringRule | null> {
+    if (DEV_MODE) {
+      return null;
+    }
+
+    const [existing] = await this.getAll({ kind, sourceId });
+
+    if (!rule) {
+      if (existing) await this.delete(existing.id);
+      return null;
+    }
+
+    if (!existing) {
+      return this.create({ ...rule, kind, sourceId });
+    }
+
+    return this.update(existing.id, {
+      description: rule.description,
+      amount: rule.amount,
+      currency: rule.currency,
+      rating: rule.rating,
+      frequency: rule.frequency,
+      dayOfMonth: rule.frequency === 'monthly' ? rule.dayOfMonth ?? null : null,
+    });
+  },
+
+  /**
+   * Materialize due occurrences up to today on the server
+   */
+  async generate(kind?: RecurringKind): Promise<RecurringGenerateResult> {
+    if (DEV_MODE) {
+      return { expensesCreated: 0, incomeCreated: 0 };
+    }
+
+    const result = await apiRequest<{ expenses_created: number; income_created: number }>('/recurring/generate', {
+      method: 'POST',
+      body: { kind, as_of: new Date().toISOString().split('T')[0] },
+    });
+    return { expensesCreated: result.expenses_created, incomeCreated: result.income_created };
+  },
+};
@@ -0,0 +1,87 @@
+/**
+ * Tag Service
+ * API service for tag management via the /api/tags endpoints
+ */
+
+import { apiRequest } from '../lib/api';
+import type { Tag } from '../types';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+export type UpdateTagData = Partial<Pick<Tag, 'name' | 'color'>>;
+
+// Map API row to app Tag type
+function mapRowToTag(row: Record<string, unknown>): Tag {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    color: row.color as string,
+    created_at: row.created_at as string,
+  };
+}
+
+export const tagService = {
+  /**
+   * Get all tags, by name
+   */
+  async getAll(): Promise<Tag[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] tagService.getAll() - use localStorage');
+      return [];
+    }
+
+    const rows = await apiRequest<Record<string, unknown>[]>('/tags');
+    return rows.map(mapRowToTag);
+  },
+
+  /**
+   * Create a tag
+   */
+  async create(tag: Pick<Tag, 'name' | 'color'>): Promise<Tag> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>('/tags', { method: 'POST', body: tag });
+    return mapRowToTag(row);
+  },
+
+  /**
+   * Rename or recolor a tag; the server rewrites the name on tagged entries
+   */
+  async update(id: string, updates: UpdateTagData): Promise<Tag> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/tags/${id}`, { method: 'PUT', body: updates });
+    return mapRowToTag(row);
+  },
+
+  /**
+   * Merge the source tags into the target tag
+   */
+  async merge(targetId: string, sourceIds: string[]): Promise<Tag> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const row = await apiRequest<Record<string, unknown>>(`/tags/${targetId}/merge`, {
+      method: 'POST',
+      body: { source_ids: sourceIds },
+    });
+    return mapRowToTag(row);
+  },
+
+  /**
+   * Delete a tag; it is removed from every entry
+   */
+  async delete(id: string): Promise<void> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    await apiRequest<void>(`/tags/${id}`, { method: 'DELETE' });
+  },
+};
@@ -0,0 +1,109 @@
+/**
+ * Yield Accrual Service
+ * API service for posted yield accruals with Supabase
+ */
+
+import { supabase, supabaseUntyped, getSessionUser } from '../lib/supabase';
+import type { YieldAccrual } from '../types';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+export type CreateYieldAccrualData = Omit<YieldAccrual, 'id' | 'created_at' | 'status'>;
+
+// Map database row to app YieldAccrual type
+function mapRowToAccrual(row: Record<string, unknown>): YieldAccrual {
+  return {
+    id: row.id as string,
+    accountId: row.account_id as string,
+    periodEnd: row.period_end as string,
+    amount: Number(row.amount) || 0,
+    currency: (row.currency as string) || 'MXN',
+    incomeId: (row.income_id as string | null) ?? undefined,
+    transactionId: (row.transaction_id as string | null) ?? undefined,
+    status: row.status as YieldAccrual['status'],
+    created_at: row.created_at as string,
+  };
+}
+
+export const yieldAccrualService = {
+  /**
+   * Get all accruals for the current user, oldest period first
+   */
+  async getAll(): Promise<YieldAccrual[]> {
+    if (DEV_MODE) {
+      console.log('[DEV MODE] yieldAccrualService.getAll() - use localStorage');
+      return [];
+    }
+
+    const user = await getSessionUser();
+
+    const { data, error } = await supabase
+      .from('yield_accruals')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('period_end', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to fetch yield accruals: ${error.message}`);
+    }
+
+    return (data || []).map(mapRowToAccrual);
+  },
+
+  /**
+   * Record a posted accrual
+   */
+  async create(accrual: CreateYieldAccrualData): Promise<YieldAccrual> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const { data, error } = await supabaseUntyped
+      .from('yield_accruals')
+      .insert({
+        user_id: user.id,
+        account_id: accrual.accountId,
+        period_end: accrual.periodEnd,
+        amount: accrual.amount,
+        currency: accrual.currency,
+        income_id: accrual.incomeId ?? null,
+        transaction_id: accrual.transactionId ?? null,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to create yield accrual: ${error.message}`);
+    }
+
+    return mapRowToAccrual(data);
+  },
+
+  /**
+   * Mark an accrual as undone; the row stays so the period is not accrued again
+   */
+  async markUndone(id: string): Promise<YieldAccrual> {
+    if (DEV_MODE) {
+      throw new Error('DEV_MODE: Use localStorage store instead');
+    }
+
+    const user = await getSessionUser();
+
+    const { data, error } = await supabaseUntyped
+      .from('yield_accruals')
+      .update({ status: 'undone' })
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to undo yield accrual: ${error.message}`);
+    }
+
+    return mapRowToAccrual(data);
+  },
+};
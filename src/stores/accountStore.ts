@@ -10,6 +10,11 @@ import {
   validateDayOfMonth,
 } from '../utils/sanitization';
 import { netWorthAccountService } from '../services/netWorthAccountService';
+import { useHistoryStore } from './historyStore';
+import { Amortization } from '../domain/amortization';
+import { CardCycles } from '../domain/cardCycles';
+import { COST_BASIS_METHODS, HOLDING_ACCOUNT_TYPES } from '../domain/holdings';
+import { YieldAccruals } from '../domain/yieldAccrual';
 
 // Dev mode configuration
 const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
@@ -17,6 +22,9 @@ const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_
 // Liability account types
 const LIABILITY_TYPES = ['loan', 'credit-card', 'mortgage'];
 
+// Account types that can carry loan terms
+const LOAN_TYPES = ['loan', 'mortgage'];
+
 /**
  * Validate and sanitize account data before storing
  */
@@ -147,6 +155,7 @@ interface AccountState {
   deleteAccount: (accountId: string) => Promise<void>;
   updateAccount: (accountId: string, updates: Partial<Omit<Account, 'id'>>) => Promise<Account>;
   toggleExcludeFromTotal: (accountId: string) => Promise<void>;
+  rollOverPaidStatus: (today: string) => Promise<void>;
   bulkImport: (accounts: Omit<Account, 'id'>[]) => Promise<Account[]>;
   clearError: () => void;
 }
@@ -316,8 +325,55 @@ export const useAccountStore = create<AccountState>()(
         if (updates.dueDate !== undefined) {
           validatedUpdates.dueDate = updates.dueDate;
         }
+        if (updates.ledgerAccountId !== undefined) {
+          validatedUpdates.ledgerAccountId = updates.ledgerAccountId;
+        }
+        // Passing loanTerms, cardTerms, costBasisMethod or yieldTerms as undefined clears them
+        const existing = get().accounts.find(a => a.id === accountId);
+        const type = validatedUpdates.type ?? existing?.type;
+        if ('loanTerms' in updates) {
+          if (updates.loanTerms) {
+            if (!type || !LOAN_TYPES.includes(type)) throw new Error('Loan terms only apply to loans and mortgages');
+            const error = Amortization.validate(updates.loanTerms);
+            if (error) throw new Error(error);
+          }
+          validatedUpdates.loanTerms = updates.loanTerms ?? undefined;
+        } else if (type && !LOAN_TYPES.includes(type) && existing?.loanTerms) {
+          // Terms belong to the account type; changing the type away drops them
+          validatedUpdates.loanTerms = undefined;
+        }
+        if ('cardTerms' in updates) {
+          if (updates.cardTerms) {
+            if (type !== 'credit-card') throw new Error('Card terms only apply to credit cards');
+            const error = CardCycles.validate(updates.cardTerms);
+            if (error) throw new Error(error);
+          }
+          validatedUpdates.cardTerms = updates.cardTerms ?? undefined;
+        } else if (type !== 'credit-card' && existing?.cardTerms) {
+          validatedUpdates.cardTerms = undefined;
+        }
+        if ('costBasisMethod' in updates) {
+          if (updates.costBasisMethod) {
+            if (!type || !HOLDING_ACCOUNT_TYPES.includes(type)) throw new Error('Cost basis only applies to investment and exchange accounts');
+            if (!COST_BASIS_METHODS.includes(updates.costBasisMethod)) throw new Error('Invalid cost basis method');
+          }
+          validatedUpdates.costBasisMethod = updates.costBasisMethod ?? undefined;
+        } else if (type && !HOLDING_ACCOUNT_TYPES.includes(type) && existing?.costBasisMethod) {
+          validatedUpdates.costBasisMethod = undefined;
+        }
+        if ('yieldTerms' in updates) {
+          if (updates.yieldTerms) {
+            if (!type || LIABILITY_TYPES.includes(type)) throw new Error('Yield terms only apply to asset accounts');
+            const error = YieldAccruals.validate(updates.yieldTerms);
+            if (error) throw new Error(error);
+          }
+          validatedUpdates.yieldTerms = updates.yieldTerms ?? undefined;
+        } else if (type && LIABILITY_TYPES.includes(type) && existing?.yieldTerms) {
+          validatedUpdates.yieldTerms = undefined;
+        }
 
         if (DEV_MODE) {
+          const previous = get().accounts.find(a => a.id === accountId);
           set((state) => ({
             accounts: state.accounts.map(account =>
               account.id === accountId
@@ -326,7 +382,8 @@ export const useAccountStore = create<AccountState>()(
             )
           }));
           const updated = get().accounts.find(a => a.id === accountId);
-          if (!updated) throw new Error('Account not found');
+          if (!previous || !updated) throw new Error('Account not found');
+          useHistoryStore.getState().recordChange('net_worth_accounts', accountId, previous, updated);
           return updated;
         }
 
@@ -366,6 +423,10 @@ export const useAccountStore = create<AccountState>()(
                 : a
             )
           }));
+          useHistoryStore.getState().recordChange('net_worth_accounts', accountId, account, {
+            ...account,
+            excludeFromTotal: !account.excludeFromTotal,
+          });
           return;
         }
 
@@ -391,6 +452,18 @@ export const useAccountStore = create<AccountState>()(
         }
       },
 
+      // Liabilities paid in an earlier month start the new month unpaid. Cards with
+      // terms follow their statement cycle instead, through the ledger's card sync.
+      rollOverPaidStatus: async (today) => {
+        const month = today.slice(0, 7);
+        const stale = get().accounts.filter(account =>
+          account.isPaidThisMonth && !account.cardTerms && (!account.lastPaidDate || account.lastPaidDate.slice(0, 7) < month)
+        );
+        for (const account of stale) {
+          await get().updateAccount(account.id, { isPaidThisMonth: false });
+        }
+      },
+
       bulkImport: async (accounts) => {
         const validatedAccounts = accounts.map(validateAccountData);
 
@@ -0,0 +1,236 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useCurrencyStore } from './currencyStore';
+import { useExpenseStore } from './expenseStore';
+import type { Budget, BudgetProgress, BudgetScope, ExpenseRating } from '../types';
+import { sanitizeDescription, validateAmount } from '../utils/sanitization';
+import { calculateBudgetProgress, toMonthKey } from '../utils/budgetUtils';
+import { budgetService } from '../services/budgetService';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const RATINGS: ExpenseRating[] = ['essential', 'discretionary', 'luxury'];
+
+export interface NewBudget {
+  name?: string;
+  scope: BudgetScope;
+  category?: string;
+  rating?: ExpenseRating;
+  monthlyLimit: number;
+  currency: string;
+  rollover?: boolean;
+  startMonth?: string;
+}
+
+export type BudgetUpdates = Partial<Pick<Budget, 'name' | 'monthlyLimit' | 'currency' | 'rollover' | 'startMonth'>>;
+
+type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface BudgetState {
+  budgets: Budget[];
+  loading: boolean;
+  error: string | null;
+  initializationStatus: InitializationStatus;
+  errorDetails: string | null;
+  isReady: () => boolean;
+  fetchAll: () => Promise<void>;
+  addBudget: (budget: NewBudget) => Promise<Budget>;
+  updateBudget: (id: string, updates: BudgetUpdates) => Promise<Budget>;
+  deleteBudget: (id: string) => Promise<void>;
+  getProgress: (month?: string) => BudgetProgress[];
+  clearError: () => void;
+}
+
+// Two budgets conflict when they target the same category (case-insensitive) or rating
+const isSameTarget = (a: Pick<Budget, 'scope' | 'category' | 'rating'>, b: Pick<Budget, 'scope' | 'category' | 'rating'>) => {
+  if (a.scope !== b.scope) return false;
+  if (a.scope === 'rating') return a.rating === b.rating;
+  return (a.category || '').trim().toLowerCase() === (b.category || '').trim().toLowerCase();
+};
+
+export const useBudgetStore = create<BudgetState>()(
+  persist(
+    (set, get) => ({
+      budgets: [],
+      loading: false,
+      error: null,
+      initializationStatus: 'idle' as InitializationStatus,
+      errorDetails: null,
+
+      isReady: () => get().initializationStatus === 'success',
+
+      fetchAll: async () => {
+        if (DEV_MODE) {
+          // In dev mode, data comes from localStorage via persist
+          set({ initializationStatus: 'success' });
+          return;
+        }
+
+        set({ initializationStatus: 'loading', loading: true, error: null, errorDetails: null });
+        try {
+          const budgets = await budgetService.getAll();
+          set({ budgets, loading: false, initializationStatus: 'success' });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to fetch budgets';
+          set({
+            error: message,
+            errorDetails: message,
+            loading: false,
+            initializationStatus: 'error',
+          });
+        }
+      },
+
+      addBudget: async (data: NewBudget) => {
+        const amountResult = validateAmount(String(data.monthlyLimit));
+        if (!amountResult.isValid) {
+          throw new Error('Invalid budget limit');
+        }
+
+        const category = data.scope === 'category' ? sanitizeDescription(data.category || '') : undefined;
+        if (data.scope === 'category' && !category) {
+          throw new Error('Category is required');
+        }
+        if (data.scope === 'rating' && (!data.rating || !RATINGS.includes(data.rating))) {
+          throw new Error('Rating is required');
+        }
+
+        const startMonth = data.startMonth || toMonthKey(new Date());
+        if (!MONTH_PATTERN.test(startMonth)) {
+          throw new Error('Invalid start month');
+        }
+
+        const budgetData = {
+          name: sanitizeDescription(data.name || '') || category || (data.rating as string),
+          scope: data.scope,
+          category,
+          rating: data.scope === 'rating' ? data.rating : undefined,
+          monthlyLimit: data.monthlyLimit,
+          currency: data.currency,
+          rollover: data.rollover || false,
+          startMonth,
+        };
+
+        if (get().budgets.some((budget) => isSameTarget(budget, budgetData))) {
+          throw new Error('A budget for this category already exists');
+        }
+
+        if (DEV_MODE) {
+          const newBudget: Budget = {
+            ...budgetData,
+            id: crypto.randomUUID(),
+            created_at: new Date().toISOString(),
+          };
+
+          set((state) => ({
+            budgets: [...state.budgets, newBudget],
+          }));
+
+          return newBudget;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          const newBudget = await budgetService.create(budgetData);
+          set((state) => ({
+            budgets: [...state.budgets, newBudget],
+            loading: false,
+          }));
+          return newBudget;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to add budget',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      updateBudget: async (id: string, updates: BudgetUpdates) => {
+        // Normalised on a copy; the caller's object is left as it was
+        const changes = { ...updates };
+        if (changes.name !== undefined) {
+          const sanitized = sanitizeDescription(changes.name);
+          if (!sanitized) throw new Error('Invalid name');
+          changes.name = sanitized;
+        }
+        if (changes.monthlyLimit !== undefined) {
+          const result = validateAmount(String(changes.monthlyLimit));
+          if (!result.isValid) throw new Error('Invalid budget limit');
+        }
+        if (changes.startMonth !== undefined && !MONTH_PATTERN.test(changes.startMonth)) {
+          throw new Error('Invalid start month');
+        }
+
+        if (DEV_MODE) {
+          const budget = get().budgets.find(b => b.id === id);
+          if (!budget) throw new Error('Budget not found');
+
+          const updatedBudget: Budget = { ...budget, ...changes };
+          set((state) => ({
+            budgets: state.budgets.map(b => b.id === id ? updatedBudget : b),
+          }));
+          return updatedBudget;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          const updatedBudget = await budgetService.update(id, changes);
+          set((state) => ({
+            budgets: state.budgets.map(b => b.id === id ? updatedBudget : b),
+            loading: false,
+          }));
+          return updatedBudget;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to update budget',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      deleteBudget: async (id: string) => {
+        if (DEV_MODE) {
+          set((state) => ({
+            budgets: state.budgets.filter((budget) => budget.id !== id),
+          }));
+          return;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          await budgetService.delete(id);
+          set((state) => ({
+            budgets: state.budgets.filter((budget) => budget.id !== id),
+            loading: false,
+          }));
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to delete budget',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      getProgress: (month?: string) => {
+        const targetMonth = month || toMonthKey(new Date());
+        const { convertAmount } = useCurrencyStore.getState();
+        const { expenses } = useExpenseStore.getState();
+
+        return get().budgets.map((budget) =>
+          calculateBudgetProgress(budget, expenses, targetMonth, convertAmount)
+        );
+      },
+
+      clearError: () => set({ error: null }),
+    }),
+    {
+      name: 'fintonico-budgets',
+      partialize: (state) => ({ budgets: state.budgets }),
+    }
+  )
+);
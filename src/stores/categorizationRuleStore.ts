@@ -0,0 +1,220 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { CategorizationRule } from '../types';
+import { sanitizeDescription, validateAmount } from '../utils/sanitization';
+import { CategorizationEngine, DEFAULT_CATEGORIZATION_RULES } from '../domain/categorization';
+import { categorizationRuleService } from '../services/categorizationRuleService';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+export type NewCategorizationRule = Omit<CategorizationRule, 'id' | 'priority' | 'enabled'> & {
+  priority?: number;
+  enabled?: boolean;
+};
+
+export type CategorizationRuleUpdates = Partial<Omit<CategorizationRule, 'id'>>;
+
+type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface CategorizationRuleState {
+  rules: CategorizationRule[];
+  loading: boolean;
+  error: string | null;
+  initializationStatus: InitializationStatus;
+  errorDetails: string | null;
+  isReady: () => boolean;
+  fetchAll: () => Promise<void>;
+  addRule: (rule: NewCategorizationRule) => Promise<CategorizationRule>;
+  updateRule: (id: string, updates: CategorizationRuleUpdates) => Promise<CategorizationRule>;
+  deleteRule: (id: string) => Promise<void>;
+  addDefaultRules: () => Promise<CategorizationRule[]>;
+  clearError: () => void;
+}
+
+// Trim empty text fields to null and validate the pattern and amount range
+const normalizeRule = <T extends Partial<Omit<CategorizationRule, 'id'>>>(rule: T): T => {
+  const text = (value: string | null | undefined) =>
+    value === undefined ? undefined : value?.trim() || null;
+  const currency = text(rule.currency);
+
+  const normalized = {
+    ...rule,
+    descriptionPattern: text(rule.descriptionPattern),
+    currency: currency ? currency.toUpperCase() : currency,
+    category: text(rule.category),
+    subcategory: text(rule.subcategory),
+  };
+
+  if (normalized.descriptionPattern) {
+    const patternError = CategorizationEngine.validatePattern(normalized.descriptionPattern);
+    if (patternError) throw new Error(`Invalid description pattern: ${patternError}`);
+  }
+  [normalized.minAmount, normalized.maxAmount].forEach((amount) => {
+    if (amount != null && !validateAmount(String(amount)).isValid) {
+      throw new Error('Invalid amount range');
+    }
+  });
+  if (normalized.minAmount != null && normalized.maxAmount != null && normalized.maxAmount < normalized.minAmount) {
+    throw new Error('Maximum amount must not be less than minimum amount');
+  }
+
+  return normalized;
+};
+
+export const useCategorizationRuleStore = create<CategorizationRuleState>()(
+  persist(
+    (set, get) => ({
+      rules: [],
+      loading: false,
+      error: null,
+      initializationStatus: 'idle' as InitializationStatus,
+      errorDetails: null,
+
+      isReady: () => get().initializationStatus === 'success',
+
+      fetchAll: async () => {
+        if (DEV_MODE) {
+          // In dev mode, data comes from localStorage via persist
+          set({ initializationStatus: 'success' });
+          return;
+        }
+
+        set({ initializationStatus: 'loading', loading: true, error: null, errorDetails: null });
+        try {
+          const rules = await categorizationRuleService.getAll();
+          set({ rules, loading: false, initializationStatus: 'success' });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to fetch categorization rules';
+          set({
+            error: message,
+            errorDetails: message,
+            loading: false,
+            initializationStatus: 'error',
+          });
+        }
+      },
+
+      addRule: async (data: NewCategorizationRule) => {
+        const name = sanitizeDescription(data.name);
+        if (!name) {
+          throw new Error('Rule name is required');
+        }
+
+        // New rules run after existing ones unless a priority is given
+        const lastPriority = get().rules.reduce((max, rule) => Math.max(max, rule.priority), 0);
+        const ruleData = normalizeRule({
+          ...data,
+          name,
+          priority: data.priority ?? lastPriority + 10,
+          enabled: data.enabled ?? true,
+        });
+
+        if (!CategorizationEngine.isComplete(ruleData)) {
+          throw new Error('A rule needs at least one condition and one action');
+        }
+
+        if (DEV_MODE) {
+          const newRule: CategorizationRule = { ...ruleData, id: crypto.randomUUID() };
+          set((state) => ({
+            rules: [...state.rules, newRule],
+          }));
+          return newRule;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          const newRule = await categorizationRuleService.create(ruleData);
+          set((state) => ({
+            rules: [...state.rules, newRule],
+            loading: false,
+          }));
+          return newRule;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to add categorization rule',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      updateRule: async (id: string, updates: CategorizationRuleUpdates) => {
+        const rule = get().rules.find(r => r.id === id);
+        if (!rule) throw new Error('Categorization rule not found');
+
+        if (updates.name !== undefined) {
+          const sanitized = sanitizeDescription(updates.name);
+          if (!sanitized) throw new Error('Rule name is required');
+          updates = { ...updates, name: sanitized };
+        }
+        const normalizedUpdates = normalizeRule(updates);
+        if (!CategorizationEngine.isComplete({ ...rule, ...normalizedUpdates })) {
+          throw new Error('A rule needs at least one condition and one action');
+        }
+
+        if (DEV_MODE) {
+          const updatedRule: CategorizationRule = { ...rule, ...normalizedUpdates };
+          set((state) => ({
+            rules: state.rules.map(r => r.id === id ? updatedRule : r),
+          }));
+          return updatedRule;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          const updatedRule = await categorizationRuleService.update(id, normalizedUpdates);
+          set((state) => ({
+            rules: state.rules.map(r => r.id === id ? updatedRule : r),
+            loading: false,
+          }));
+          return updatedRule;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to update categorization rule',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      deleteRule: async (id: string) => {
+        if (DEV_MODE) {
+          set((state) => ({
+            rules: state.rules.filter((rule) => rule.id !== id),
+          }));
+          return;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          await categorizationRuleService.delete(id);
+          set((state) => ({
+            rules: state.rules.filter((rule) => rule.id !== id),
+            loading: false,
+          }));
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to delete categorization rule',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      addDefaultRules: async () => {
+        const created: CategorizationRule[] = [];
+        for (const rule of DEFAULT_CATEGORIZATION_RULES) {
+          created.push(await get().addRule({ ...rule, priority: undefined }));
+        }
+        return created;
+      },
+
+      clearError: () => set({ error: null }),
+    }),
+    {
+      name: 'fintonico-categorization-rules',
+      partialize: (state) => ({ rules: state.rules }),
+    }
+  )
+);
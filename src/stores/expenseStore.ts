@@ -1,9 +1,24 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useCurrencyStore } from './currencyStore';
-import type { Expense, ExpenseRating } from '../types';
+import type { Expense, ExpenseRating, ExpenseSplit } from '../types';
 import { sanitizeDescription, validateAmount, validateDate } from '../utils/sanitization';
 import { expenseService } from '../services/expenseService';
+import { recurringService } from '../services/recurringService';
+import { categorizationRuleService } from '../services/categorizationRuleService';
+import { useCategorizationRuleStore } from './categorizationRuleStore';
+import { useHistoryStore } from './historyStore';
+import { CategorizationEngine } from '../domain/categorization';
+import { ExpenseSplitter } from '../domain/splits';
+import { Tags } from '../domain/tags';
+import {
+  getExpenseSchedule,
+  getExpenseRuleData,
+  getGeneratedThrough,
+  getDueOccurrences,
+  getOccurrenceId,
+} from '../utils/recurringUtils';
+import { partitionDuplicates, expenseToCandidate } from '../utils/duplicates';
 
 // Dev mode configuration
 const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
@@ -15,12 +30,21 @@ export interface NewExpense {
   rating: ExpenseRating;
   date?: string;
   recurring?: boolean;
+  category?: string;
+  subcategory?: string;
+  splits?: ExpenseSplit[];
+  tags?: string[];
 }
 
 type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
 
+export interface BulkImportOptions {
+  skipDuplicates?: boolean; // Leave out rows that look like existing expenses or earlier rows; by default every row is inserted
+}
+
 interface ExpenseState {
   expenses: Expense[];
+  recurringGeneratedThrough: Record<string, string>; // DEV_MODE: template id -> last generated date
   loading: boolean;
   error: string | null;
   initializationStatus: InitializationStatus;
@@ -30,15 +54,59 @@ interface ExpenseState {
   addExpense: (expense: NewExpense) => Promise<Expense>;
   updateExpense: (id: string, updates: Partial<NewExpense>) => Promise<Expense>;
   deleteExpense: (id: string) => Promise<void>;
-  bulkImport: (expenses: NewExpense[]) => Promise<Expense[]>;
+  bulkImport: (expenses: NewExpense[], options?: BulkImportOptions) => Promise<Expense[]>;
+  applyCategorizationRules: () => Promise<number>;
+  generateRecurring: (asOf?: string) => Promise<number>;
   getMonthlyTotal: () => number;
   clearError: () => void;
 }
 
+// Keep the server-side recurring rule in step with a template expense.
+// The expense itself is already saved, so a failed sync is logged rather than thrown.
+const syncRecurringRule = async (expense: Expense) => {
+  try {
+    await recurringService.syncForSource('expense', expense.id, getExpenseRuleData(expense));
+  } catch (error) {
+    console.error('Failed to sync recurring rule:', error);
+  }
+};
+
+// Fields the first matching categorization rule sets; a matching rule wins over the entered values
+const getRuleFields = (expense: Pick<Expense, 'what' | 'amount' | 'currency'>): Partial<NewExpense> => {
+  const result = CategorizationEngine.categorize(useCategorizationRuleStore.getState().rules, {
+    description: expense.what,
+    amount: expense.amount,
+    currency: expense.currency,
+  });
+  if (!result) return {};
+
+  return {
+    ...(result.category !== undefined && { category: result.category }),
+    ...(result.subcategory !== undefined && { subcategory: result.subcategory }),
+    ...(result.rating !== undefined && { rating: result.rating }),
+    ...(result.recurring !== undefined && { recurring: result.recurring }),
+  };
+};
+
+// Trim split line text and check the lines add up to the expense total
+const normalizeSplits = (total: number, splits: ExpenseSplit[]): ExpenseSplit[] => {
+  const normalized = splits.map((split) => ({
+    amount: split.amount,
+    rating: split.rating,
+    category: split.category?.trim() || undefined,
+    subcategory: split.subcategory?.trim() || undefined,
+    note: split.note?.trim() || undefined,
+  }));
+  const splitError = ExpenseSplitter.validate(total, normalized);
+  if (splitError) throw new Error(splitError);
+  return normalized;
+};
+
 export const useExpenseStore = create<ExpenseState>()(
   persist(
     (set, get) => ({
       expenses: [],
+      recurringGeneratedThrough: {},
       loading: false,
       error: null,
       initializationStatus: 'idle' as InitializationStatus,
@@ -83,7 +151,12 @@ export const useExpenseStore = create<ExpenseState>()(
           rating: data.rating,
           date: data.date || new Date().toISOString().split('T')[0],
           recurring: data.recurring || false,
+          category: data.category,
+          subcategory: data.subcategory,
+          splits: data.splits?.length ? normalizeSplits(data.amount, data.splits) : undefined,
+          tags: data.tags?.length ? Tags.normalizeList(data.tags) : undefined,
         };
+        Object.assign(expenseData, getRuleFields(expenseData));
 
         if (DEV_MODE) {
           // Local-only mode
@@ -108,6 +181,9 @@ export const useExpenseStore = create<ExpenseState>()(
             expenses: [newExpense, ...state.expenses],
             loading: false,
           }));
+          if (newExpense.recurring) {
+            await syncRecurringRule(newExpense);
+          }
           return newExpense;
         } catch (error) {
           set({
@@ -129,15 +205,26 @@ export const useExpenseStore = create<ExpenseState>()(
           const result = validateAmount(String(updates.amount));
           if (!result.isValid) throw new Error('Invalid amount');
         }
+        if (updates.tags !== undefined) {
+          updates = { ...updates, tags: Tags.normalizeList(updates.tags) };
+        }
+
+        // Existing split lines must still add up when only the amount changes
+        const existing = get().expenses.find(e => e.id === id);
+        // An empty list removes the split
+        if (existing && (updates.splits !== undefined || ExpenseSplitter.isSplit(existing))) {
+          const splits = updates.splits ?? existing.splits ?? [];
+          updates = { ...updates, splits: normalizeSplits(updates.amount ?? existing.amount, splits) };
+        }
 
         if (DEV_MODE) {
-          const expense = get().expenses.find(e => e.id === id);
-          if (!expense) throw new Error('Expense not found');
+          if (!existing) throw new Error('Expense not found');
 
-          const updatedExpense: Expense = { ...expense, ...updates };
+          const updatedExpense: Expense = { ...existing, ...updates };
           set((state) => ({
             expenses: state.expenses.map(e => e.id === id ? updatedExpense : e),
           }));
+          useHistoryStore.getState().recordChange('expenses', id, existing, updatedExpense);
           return updatedExpense;
         }
 
@@ -148,6 +235,9 @@ export const useExpenseStore = create<ExpenseState>()(
             expenses: state.expenses.map(e => e.id === id ? updatedExpense : e),
             loading: false,
           }));
+          if (updatedExpense.recurring || existing?.recurring) {
+            await syncRecurringRule(updatedExpense);
+          }
           return updatedExpense;
         } catch (error) {
           set({
@@ -162,6 +252,9 @@ export const useExpenseStore = create<ExpenseState>()(
         if (DEV_MODE) {
           set((state) => ({
             expenses: state.expenses.filter((expense) => expense.id !== id),
+            recurringGeneratedThrough: Object.fromEntries(
+              Object.entries(state.recurringGeneratedThrough).filter(([templateId]) => templateId !== id)
+            ),
           }));
           return;
         }
@@ -182,7 +275,7 @@ export const useExpenseStore = create<ExpenseState>()(
         }
       },
 
-      bulkImport: async (expenses: NewExpense[]) => {
+      bulkImport: async (expenses: NewExpense[], options: BulkImportOptions = {}) => {
         // Validate all expenses
         const validatedExpenses = expenses.map(data => {
           const sanitizedWhat = sanitizeDescription(data.what);
@@ -190,18 +283,26 @@ export const useExpenseStore = create<ExpenseState>()(
           if (!sanitizedWhat || !amountResult.isValid) {
             throw new Error(`Invalid expense data: ${data.what}`);
           }
-          return {
+          const expenseData = {
             what: sanitizedWhat,
             amount: data.amount,
             currency: data.currency,
             rating: data.rating,
             date: data.date || new Date().toISOString().split('T')[0],
             recurring: data.recurring || false,
+            category: data.category,
+            subcategory: data.subcategory,
           };
+          return { ...expenseData, ...getRuleFields(expenseData) };
         });
 
+        // Rows are only dropped when asked; the import preview flags duplicates for the user to resolve
+        const toInsert = options.skipDuplicates
+          ? partitionDuplicates(validatedExpenses, get().expenses.map(expenseToCandidate), expenseToCandidate).unique
+          : validatedExpenses;
+
         if (DEV_MODE) {
-          const newExpenses: Expense[] = validatedExpenses.map(data => ({
+          const newExpenses: Expense[] = toInsert.map(data => ({
             ...data,
             id: crypto.randomUUID(),
             created_at: new Date().toISOString(),
@@ -216,11 +317,12 @@ export const useExpenseStore = create<ExpenseState>()(
 
         set({ loading: true, error: null });
         try {
-          const newExpenses = await expenseService.bulkCreate(validatedExpenses);
+          const newExpenses = await expenseService.bulkCreate(toInsert);
           set((state) => ({
             expenses: [...newExpenses, ...state.expenses],
             loading: false,
           }));
+          await Promise.all(newExpenses.filter(e => e.recurring).map(syncRecurringRule));
           return newExpenses;
         } catch (error) {
           set({
@@ -231,6 +333,98 @@ export const useExpenseStore = create<ExpenseState>()(
         }
       },
 
+      applyCategorizationRules: async () => {
+        if (!DEV_MODE) {
+          // Supabase mode: the API server re-runs the rules, then we reload
+          set({ loading: true, error: null });
+          try {
+            const { updated } = await categorizationRuleService.applyToHistory();
+            set({ loading: false });
+            if (updated > 0) {
+              await get().fetchAll();
+            }
+            return updated;
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : 'Failed to apply categorization rules',
+              loading: false,
+            });
+            throw error;
+          }
+        }
+
+        let updated = 0;
+        const expenses = get().expenses.map((expense) => {
+          const fields = getRuleFields(expense);
+          const changed = (Object.keys(fields) as (keyof NewExpense)[]).some((key) => expense[key] !== fields[key]);
+          if (!changed) return expense;
+          updated++;
+          return { ...expense, ...fields };
+        });
+
+        if (updated > 0) {
+          set({ expenses });
+        }
+        return updated;
+      },
+
+      generateRecurring: async (asOf?: string) => {
+        const today = asOf || new Date().toISOString().split('T')[0];
+
+        if (!DEV_MODE) {
+          // Supabase mode: the API server materializes occurrences
+          try {
+            const { expensesCreated } = await recurringService.generate('expense');
+            if (expensesCreated > 0) {
+              await get().fetchAll();
+            }
+            return expensesCreated;
+          } catch (error) {
+            set({ error: error instanceof Error ? error.message : 'Failed to generate recurring expenses' });
+            return 0;
+          }
+        }
+
+        const { expenses } = get();
+        const generatedThrough = { ...get().recurringGeneratedThrough };
+        const existingIds = new Set(expenses.map(e => e.id));
+        const generated: Expense[] = [];
+
+        expenses.forEach((template) => {
+          const schedule = getExpenseSchedule(template);
+          if (!schedule) return;
+
+          const coveredThrough = getGeneratedThrough('expense', template, expenses);
+          const since = generatedThrough[template.id] > coveredThrough ? generatedThrough[template.id] : coveredThrough;
+
+          getDueOccurrences(schedule, since, today).forEach((date) => {
+            const id = getOccurrenceId('expense', template.id, date);
+            if (existingIds.has(id)) return;
+            generated.push({
+              id,
+              what: template.what,
+              amount: template.amount,
+              currency: template.currency,
+              rating: template.rating,
+              category: template.category,
+              date,
+              created_at: new Date().toISOString(),
+              recurring: false, // The generated instance is not recurring, only the template is
+              recurringSourceId: template.id,
+            });
+          });
+          if (today > since) {
+            generatedThrough[template.id] = today;
+          }
+        });
+
+        set((state) => ({
+          expenses: [...generated, ...state.expenses],
+          recurringGeneratedThrough: generatedThrough,
+        }));
+        return generated.length;
+      },
+
       getMonthlyTotal: () => {
         const now = new Date();
         const currentMonth = now.getMonth();
@@ -252,7 +446,10 @@ export const useExpenseStore = create<ExpenseState>()(
     }),
     {
       name: 'fintonico-expenses',
-      partialize: (state) => ({ expenses: state.expenses }),
+      partialize: (state) => ({
+        expenses: state.expenses,
+        recurringGeneratedThrough: state.recurringGeneratedThrough,
+      }),
       onRehydrateStorage: () => (state) => {
         if (state?.expenses) {
           // Validate and clean up any old data
@@ -275,6 +472,8 @@ export const useExpenseStore = create<ExpenseState>()(
               date: String(exp.date),
               created_at: String(exp.created_at || new Date().toISOString()),
               recurring: Boolean(exp.recurring),
+              category: exp.category ? String(exp.category) : undefined,
+              recurringSourceId: exp.recurringSourceId ? String(exp.recurringSourceId) : undefined,
             };
           });
         }
@@ -0,0 +1,79 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { RecordHistory } from '../domain/history';
+import type { HistoryEntry, HistoryTable } from '../domain/history';
+import { historyService } from '../services/historyService';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+// Local history is capped so localStorage does not grow without bound
+const MAX_LOCAL_ENTRIES = 500;
+
+interface HistoryState {
+  entries: HistoryEntry[];
+  loading: boolean;
+  error: string | null;
+  fetchHistory: (table: HistoryTable, recordId: string) => Promise<void>;
+  getHistory: (table: HistoryTable, recordId: string) => HistoryEntry[];
+  recordChange: (table: HistoryTable, recordId: string, before: object, after: object) => void;
+}
+
+const isRecord = (table: HistoryTable, recordId: string) => (entry: HistoryEntry) =>
+  entry.table === table && entry.recordId === recordId;
+
+export const useHistoryStore = create<HistoryState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      loading: false,
+      error: null,
+
+      // The database records edits; locally they are recorded by the stores as they happen
+      fetchHistory: async (table, recordId) => {
+        if (DEV_MODE) return;
+
+        set({ loading: true, error: null });
+        try {
+          const entries = await historyService.getForRecord(table, recordId);
+          set((state) => ({
+            entries: [...state.entries.filter((entry) => !isRecord(table, recordId)(entry)), ...entries],
+            loading: false,
+          }));
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to fetch history',
+            loading: false,
+          });
+        }
+      },
+
+      // Newest first; entries are appended in order, so reversing settles same-instant ties
+      getHistory: (table, recordId) =>
+        get().entries
+          .filter(isRecord(table, recordId))
+          .reverse()
+          .sort((a, b) => b.changedAt.localeCompare(a.changedAt)),
+
+      // Local mode only: keep the fields an edit changed, like the database trigger does
+      recordChange: (table, recordId, before, after) => {
+        const changes = RecordHistory.diff(before, after);
+        if (changes.length === 0) return;
+
+        const entry: HistoryEntry = {
+          id: crypto.randomUUID(),
+          table,
+          recordId,
+          changedBy: null,
+          changedAt: new Date().toISOString(),
+          changes,
+        };
+        set((state) => ({ entries: [...state.entries, entry].slice(-MAX_LOCAL_ENTRIES) }));
+      },
+    }),
+    {
+      name: 'fintonico-history',
+      partialize: (state) => (DEV_MODE ? { entries: state.entries } : {}),
+    }
+  )
+);
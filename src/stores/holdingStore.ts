@@ -0,0 +1,239 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { InvestmentTrade, SecurityPrice } from '../types';
+import { Holdings, HOLDING_ACCOUNT_TYPES } from '../domain/holdings';
+import type { CostBasisMethod, PricePoint, TradeInput } from '../domain/holdings';
+import { holdingService } from '../services/holdingService';
+import type { UpsertPriceData } from '../services/holdingService';
+import { useAccountStore } from './accountStore';
+import { useLedgerStore } from './ledgerStore';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export type NewTrade = Omit<TradeInput, 'fees' | 'amount'> & Partial<Pick<TradeInput, 'fees' | 'amount'>>;
+
+interface HoldingState {
+  trades: InvestmentTrade[];
+  prices: SecurityPrice[];
+  loading: boolean;
+  error: string | null;
+  initializationStatus: InitializationStatus;
+  errorDetails: string | null;
+  isReady: () => boolean;
+  fetchAll: () => Promise<void>;
+  getTrades: (accountId: string) => InvestmentTrade[];
+  // Records a trade and posts it to the ledger; cash moves through `cashAccountId`
+  addTrade: (accountId: string, trade: NewTrade, cashAccountId: string) => Promise<InvestmentTrade>;
+  // Deletes a trade and voids its ledger entry
+  deleteTrade: (id: string) => Promise<void>;
+  setCostBasisMethod: (accountId: string, method: CostBasisMethod) => Promise<void>;
+  // Saves prices, replacing any for the same symbol and day; returns how many were saved
+  savePrices: (prices: PricePoint[], currency: string) => Promise<number>;
+  deletePrice: (id: string) => Promise<void>;
+  clearError: () => void;
+}
+
+const holdingAccount = (accountId: string) => {
+  const account = useAccountStore.getState().accounts.find((item) => item.id === accountId);
+  if (!account) throw new Error('Account not found');
+  if (!HOLDING_ACCOUNT_TYPES.includes(account.type)) {
+    throw new Error('Holdings only apply to investment and exchange accounts');
+  }
+  return account;
+};
+
+// A trade cannot move under a sale that has already booked its gain
+const assertNotLocked = (trades: InvestmentTrade[], trade: TradeInput) => {
+  const sale = Holdings.lockingSale(trades, trade);
+  if (sale) {
+    throw new Error(`A later sale of ${sale.symbol} on ${sale.date} depends on this position; delete it first`);
+  }
+};
+
+export const useHoldingStore = create<HoldingState>()(
+  persist(
+    (set, get) => ({
+      trades: [],
+      prices: [],
+      loading: false,
+      error: null,
+      initializationStatus: 'idle' as InitializationStatus,
+      errorDetails: null,
+
+      isReady: () => get().initializationStatus === 'success',
+
+      fetchAll: async () => {
+        if (DEV_MODE) {
+          // In dev mode, data comes from localStorage via persist
+          set({ initializationStatus: 'success' });
+          return;
+        }
+
+        set({ initializationStatus: 'loading', loading: true, error: null, errorDetails: null });
+        try {
+          const [trades, prices] = await Promise.all([holdingService.getTrades(), holdingService.getPrices()]);
+          set({ trades, prices, loading: false, initializationStatus: 'success' });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to fetch holdings';
+          set({
+            error: message,
+            errorDetails: message,
+            loading: false,
+            initializationStatus: 'error',
+          });
+        }
+      },
+
+      getTrades: (accountId: string) => get().trades.filter((trade) => trade.accountId === accountId),
+
+      addTrade: async (accountId: string, data: NewTrade, cashAccountId: string) => {
+        const account = holdingAccount(accountId);
+        const trade: TradeInput = {
+          symbol: Holdings.normalizeSymbol(data.symbol),
+          kind: data.kind,
+          date: data.date,
+          quantity: data.kind === 'dividend' ? 0 : data.quantity,
+          price: data.kind === 'dividend' ? 0 : data.price,
+          fees: data.kind === 'dividend' ? 0 : data.fees ?? 0,
+          amount: data.kind === 'dividend' ? data.amount ?? 0 : 0,
+        };
+        const error = Holdings.validate(trade);
+        if (error) throw new Error(error);
+
+        const trades = get().getTrades(accountId);
+        assertNotLocked(trades, trade);
+        const sequenceError = Holdings.validateSequence([...trades, trade]);
+        if (sequenceError) throw new Error(sequenceError);
+
+        const effect = Holdings.effect(trades, trade, account.costBasisMethod ?? 'fifo');
+        const entry = await useLedgerStore.getState().postInvestmentTrade(accountId, trade, effect, cashAccountId);
+        const tradeData = { ...trade, accountId, transactionId: entry.id };
+
+        if (DEV_MODE) {
+          const newTrade: InvestmentTrade = { ...tradeData, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+          set((state) => ({ trades: [...state.trades, newTrade] }));
+          return newTrade;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          const newTrade = await holdingService.createTrade(tradeData);
+          set((state) => ({ trades: [...state.trades, newTrade], loading: false }));
+          return newTrade;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to add trade',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      deleteTrade: async (id: string) => {
+        const trade = get().trades.find((item) => item.id === id);
+        if (!trade) throw new Error('Trade not found');
+
+        const trades = get().getTrades(trade.accountId);
+        assertNotLocked(trades, trade);
+        const sequenceError = Holdings.validateSequence(trades.filter((item) => item.id !== id));
+        if (sequenceError) throw new Error(sequenceError);
+
+        const ledger = useLedgerStore.getState();
+        const entry = ledger.transactions.find((tx) => tx.id === trade.transactionId);
+        if (entry && entry.status !== 'voided' && !entry.reversedById) {
+          await ledger.voidTransaction(entry.id, 'Investment trade deleted');
+        }
+
+        if (!DEV_MODE) {
+          set({ loading: true, error: null });
+          try {
+            await holdingService.deleteTrade(id);
+            set({ loading: false });
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : 'Failed to delete trade',
+              loading: false,
+            });
+            throw error;
+          }
+        }
+
+        set((state) => ({ trades: state.trades.filter((item) => item.id !== id) }));
+      },
+
+      // Gains already booked used the current method, so it is fixed once anything is sold
+      setCostBasisMethod: async (accountId: string, method: CostBasisMethod) => {
+        const account = holdingAccount(accountId);
+        if ((account.costBasisMethod ?? 'fifo') === method) return;
+        if (get().getTrades(accountId).some((trade) => trade.kind === 'sell')) {
+          throw new Error('The cost basis method cannot change after a sale has been recorded');
+        }
+        await useAccountStore.getState().updateAccount(accountId, { costBasisMethod: method });
+      },
+
+      savePrices: async (points: PricePoint[], currency: string) => {
+        const prices: UpsertPriceData[] = points.map((point) => ({
+          symbol: Holdings.normalizeSymbol(point.symbol),
+          date: point.date,
+          price: point.price,
+          currency,
+        }));
+        for (const price of prices) {
+          const error = Holdings.validatePrice(price);
+          if (error) throw new Error(`${price.symbol || '?'} ${price.date}: ${error}`);
+        }
+        if (prices.length === 0) return 0;
+
+        let saved: SecurityPrice[];
+        if (DEV_MODE) {
+          const now = new Date().toISOString();
+          saved = prices.map((price) => ({ ...price, id: crypto.randomUUID(), created_at: now }));
+        } else {
+          set({ loading: true, error: null });
+          try {
+            saved = await holdingService.upsertPrices(prices);
+            set({ loading: false });
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : 'Failed to save prices',
+              loading: false,
+            });
+            throw error;
+          }
+        }
+
+        const key = (price: PricePoint) => `${price.symbol}|${price.date}`;
+        const replaced = new Set(saved.map(key));
+        set((state) => ({ prices: [...state.prices.filter((price) => !replaced.has(key(price))), ...saved] }));
+        return saved.length;
+      },
+
+      deletePrice: async (id: string) => {
+        if (!DEV_MODE) {
+          set({ loading: true, error: null });
+          try {
+            await holdingService.deletePrice(id);
+            set({ loading: false });
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : 'Failed to delete price',
+              loading: false,
+            });
+            throw error;
+          }
+        }
+
+        set((state) => ({ prices: state.prices.filter((price) => price.id !== id) }));
+      },
+
+      clearError: () => set({ error: null }),
+    }),
+    {
+      name: 'fintonico-holdings',
+      partialize: (state) => ({ trades: state.trades, prices: state.prices }),
+    }
+  )
+);
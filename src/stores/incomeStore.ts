@@ -1,9 +1,20 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { useCurrencyStore } from './currencyStore';
+import { useHistoryStore } from './historyStore';
 import type { Income, IncomeFrequency } from '../types';
 import { sanitizeDescription, validateAmount, validateDate } from '../utils/sanitization';
 import { incomeService } from '../services/incomeService';
+import { Tags } from '../domain/tags';
+import { recurringService } from '../services/recurringService';
+import {
+  getIncomeSchedule,
+  getIncomeRuleData,
+  getGeneratedThrough,
+  getDueOccurrences,
+  getOccurrenceId,
+} from '../utils/recurringUtils';
+import { partitionDuplicates, incomeToCandidate } from '../utils/duplicates';
 
 export type { IncomeFrequency } from '../types';
 
@@ -16,12 +27,18 @@ export interface NewIncome {
   currency: string;
   frequency: IncomeFrequency;
   date?: string;
+  tags?: string[];
 }
 
 type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
 
+export interface BulkImportOptions {
+  skipDuplicates?: boolean; // Leave out rows that look like existing income or earlier rows; by default every row is inserted
+}
+
 interface IncomeState {
   incomes: Income[];
+  recurringGeneratedThrough: Record<string, string>; // DEV_MODE: template id -> last generated date
   loading: boolean;
   error: string | null;
   initializationStatus: InitializationStatus;
@@ -31,15 +48,27 @@ interface IncomeState {
   addIncome: (income: NewIncome) => Promise<Income>;
   updateIncome: (id: string, updates: Partial<NewIncome>) => Promise<Income>;
   deleteIncome: (id: string) => Promise<void>;
-  bulkImport: (incomes: NewIncome[]) => Promise<Income[]>;
+  bulkImport: (incomes: NewIncome[], options?: BulkImportOptions) => Promise<Income[]>;
+  generateRecurring: (asOf?: string) => Promise<number>;
   getMonthlyTotal: () => number;
   clearError: () => void;
 }
 
+// Keep the server-side recurring rule in step with a template income.
+// The income itself is already saved, so a failed sync is logged rather than thrown.
+const syncRecurringRule = async (income: Income) => {
+  try {
+    await recurringService.syncForSource('income', income.id, getIncomeRuleData(income));
+  } catch (error) {
+    console.error('Failed to sync recurring rule:', error);
+  }
+};
+
 export const useIncomeStore = create<IncomeState>()(
   persist(
     (set, get) => ({
       incomes: [],
+      recurringGeneratedThrough: {},
       loading: false,
       error: null,
       initializationStatus: 'idle' as InitializationStatus,
@@ -82,6 +111,7 @@ export const useIncomeStore = create<IncomeState>()(
           currency: data.currency,
           frequency: data.frequency,
           date: data.date || new Date().toISOString().split('T')[0],
+          tags: data.tags?.length ? Tags.normalizeList(data.tags) : undefined,
         };
 
         if (DEV_MODE) {
@@ -105,6 +135,9 @@ export const useIncomeStore = create<IncomeState>()(
             incomes: [newIncome, ...state.incomes],
             loading: false,
           }));
+          if (getIncomeSchedule(newIncome)) {
+            await syncRecurringRule(newIncome);
+          }
           return newIncome;
         } catch (error) {
           set({
@@ -125,6 +158,9 @@ export const useIncomeStore = create<IncomeState>()(
           const result = validateAmount(String(updates.amount));
           if (!result.isValid) throw new Error('Invalid amount');
         }
+        if (updates.tags !== undefined) {
+          updates = { ...updates, tags: Tags.normalizeList(updates.tags) };
+        }
 
         if (DEV_MODE) {
           const income = get().incomes.find(i => i.id === id);
@@ -134,16 +170,21 @@ export const useIncomeStore = create<IncomeState>()(
           set((state) => ({
             incomes: state.incomes.map(i => i.id === id ? updatedIncome : i),
           }));
+          useHistoryStore.getState().recordChange('income', id, income, updatedIncome);
           return updatedIncome;
         }
 
         set({ loading: true, error: null });
         try {
+          const previous = get().incomes.find(i => i.id === id);
           const updatedIncome = await incomeService.update(id, updates);
           set((state) => ({
             incomes: state.incomes.map(i => i.id === id ? updatedIncome : i),
             loading: false,
           }));
+          if (getIncomeSchedule(updatedIncome) || (previous && getIncomeSchedule(previous))) {
+            await syncRecurringRule(updatedIncome);
+          }
           return updatedIncome;
         } catch (error) {
           set({
@@ -158,6 +199,9 @@ export const useIncomeStore = create<IncomeState>()(
         if (DEV_MODE) {
           set((state) => ({
             incomes: state.incomes.filter((income) => income.id !== id),
+            recurringGeneratedThrough: Object.fromEntries(
+              Object.entries(state.recurringGeneratedThrough).filter(([templateId]) => templateId !== id)
+            ),
           }));
           return;
         }
@@ -178,7 +222,7 @@ export const useIncomeStore = create<IncomeState>()(
         }
       },
 
-      bulkImport: async (incomes: NewIncome[]) => {
+      bulkImport: async (incomes: NewIncome[], options: BulkImportOptions = {}) => {
         const validatedIncomes = incomes.map(data => {
           const sanitizedSource = sanitizeDescription(data.source);
           const amountResult = validateAmount(String(data.amount));
@@ -194,8 +238,13 @@ export const useIncomeStore = create<IncomeState>()(
           };
         });
 
+        // Rows are only dropped when asked; the import preview flags duplicates for the user to resolve
+        const toInsert = options.skipDuplicates
+          ? partitionDuplicates(validatedIncomes, get().incomes.map(incomeToCandidate), incomeToCandidate).unique
+          : validatedIncomes;
+
         if (DEV_MODE) {
-          const newIncomes: Income[] = validatedIncomes.map(data => ({
+          const newIncomes: Income[] = toInsert.map(data => ({
             ...data,
             id: crypto.randomUUID(),
             created_at: new Date().toISOString(),
@@ -210,11 +259,12 @@ export const useIncomeStore = create<IncomeState>()(
 
         set({ loading: true, error: null });
         try {
-          const newIncomes = await incomeService.bulkCreate(validatedIncomes);
+          const newIncomes = await incomeService.bulkCreate(toInsert);
           set((state) => ({
             incomes: [...newIncomes, ...state.incomes],
             loading: false,
           }));
+          await Promise.all(newIncomes.filter(i => getIncomeSchedule(i)).map(syncRecurringRule));
           return newIncomes;
         } catch (error) {
           set({
@@ -225,6 +275,61 @@ export const useIncomeStore = create<IncomeState>()(
         }
       },
 
+      generateRecurring: async (asOf?: string) => {
+        const today = asOf || new Date().toISOString().split('T')[0];
+
+        if (!DEV_MODE) {
+          // Supabase mode: the API server materializes occurrences
+          try {
+            const { incomeCreated } = await recurringService.generate('income');
+            if (incomeCreated > 0) {
+              await get().fetchAll();
+            }
+            return incomeCreated;
+          } catch (error) {
+            set({ error: error instanceof Error ? error.message : 'Failed to generate recurring income' });
+            return 0;
+          }
+        }
+
+        const { incomes } = get();
+        const generatedThrough = { ...get().recurringGeneratedThrough };
+        const existingIds = new Set(incomes.map(i => i.id));
+        const generated: Income[] = [];
+
+        incomes.forEach((template) => {
+          const schedule = getIncomeSchedule(template);
+          if (!schedule) return;
+
+          const coveredThrough = getGeneratedThrough('income', template, incomes);
+          const since = generatedThrough[template.id] > coveredThrough ? generatedThrough[template.id] : coveredThrough;
+
+          getDueOccurrences(schedule, since, today).forEach((date) => {
+            const id = getOccurrenceId('income', template.id, date);
+            if (existingIds.has(id)) return;
+            generated.push({
+              id,
+              source: template.source,
+              amount: template.amount,
+              currency: template.currency,
+              frequency: 'one-time', // The generated instance is not recurring, only the template is
+              date,
+              created_at: new Date().toISOString(),
+              recurringSourceId: template.id,
+            });
+          });
+          if (today > since) {
+            generatedThrough[template.id] = today;
+          }
+        });
+
+        set((state) => ({
+          incomes: [...generated, ...state.incomes],
+          recurringGeneratedThrough: generatedThrough,
+        }));
+        return generated.length;
+      },
+
       getMonthlyTotal: () => {
         const now = new Date();
         const currentMonth = now.getMonth();
@@ -246,7 +351,10 @@ export const useIncomeStore = create<IncomeState>()(
     }),
     {
       name: 'fintonico-incomes',
-      partialize: (state) => ({ incomes: state.incomes }),
+      partialize: (state) => ({
+        incomes: state.incomes,
+        recurringGeneratedThrough: state.recurringGeneratedThrough,
+      }),
       onRehydrateStorage: () => (state) => {
         if (state?.incomes) {
           state.incomes = state.incomes.filter((income: unknown) => {
@@ -273,6 +381,7 @@ export const useIncomeStore = create<IncomeState>()(
               frequency: frequency as IncomeFrequency,
               date: String(inc.date),
               created_at: String(inc.created_at || new Date().toISOString()),
+              recurringSourceId: inc.recurringSourceId ? String(inc.recurringSourceId) : undefined,
             };
           });
         }
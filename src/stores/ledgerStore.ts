@@ -1,28 +1,103 @@
 // Ledger store - owns all transactions and postings for double-entry accounting
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import { CommonTransactions } from '../domain/ledger';
+import { CommonTransactions, TransactionBuilder } from '../domain/ledger';
+import { JournalEntry } from '../domain/journal';
+import { Reconciler } from '../domain/reconciliation';
+import { PeriodLock } from '../domain/periodClose';
+import { FxRevaluation } from '../domain/fxRevaluation';
+import { AccountTree } from '../domain/accountTree';
+import { Reversal } from '../domain/reversal';
+import { OpeningBalances, OPENING_BALANCE_CODE, OPENING_BALANCE_NAME } from '../domain/openingBalances';
+import { Amortization, INTEREST_EXPENSE_CODE, INTEREST_EXPENSE_NAME, LOAN_PAYMENT_TAG } from '../domain/amortization';
+import {
+  Holdings,
+  INVESTMENT_TRADE_TAG,
+  REALIZED_GAIN_CODE,
+  REALIZED_GAIN_NAME,
+  REALIZED_LOSS_CODE,
+  REALIZED_LOSS_NAME,
+} from '../domain/holdings';
+import { YieldAccruals, YIELD_ACCRUAL_TAG } from '../domain/yieldAccrual';
+import { journalService } from '../services/journalService';
+import { getCardStatement, getReconcilableItems } from '../selectors/finance';
 import { useCurrencyStore } from './currencyStore';
+import { usePeriodStore } from './periodStore';
+import { useAccountStore } from './accountStore';
+import { toLocalDateString } from '../utils/dateFormat';
 import type {
   Account,
   Transaction,
+  TransactionType,
   IncomeStatement,
   AccountNature,
 } from '../domain/ledger';
+import type { JournalEntryDraft } from '../domain/journal';
+import type { Reconciliation } from '../domain/reconciliation';
+import type { ForeignPosting, FxRevaluationReport } from '../domain/fxRevaluation';
+import type { ReversalKind } from '../domain/reversal';
+import type { OpeningBalanceItem } from '../domain/openingBalances';
+import type { TradeEffect, TradeInput } from '../domain/holdings';
+import type { AccrualLine } from '../domain/yieldAccrual';
 import { Money } from '../domain/money';
 
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
+
 interface LedgerState {
   // Core data
   accounts: Account[];
   transactions: Transaction[];
+  reconciliations: Reconciliation[];
+  initializationStatus: InitializationStatus;
+  errorDetails: string | null;
+
+  // Loading
+  fetchAll: () => Promise<void>;
 
   // Account operations
   getAccount: (id: string) => Account | undefined;
   getAccountsByNature: (nature: AccountNature) => Account[];
+  addAccount: (account: Pick<Account, 'code' | 'name' | 'nature' | 'parentId'>) => Promise<Account>;
+  moveAccount: (accountId: string, parentId: string | null) => Promise<void>;
 
   // Transaction operations
   addTransaction: (transaction: Omit<Transaction, 'id' | 'createdAt' | 'updatedAt'>) => void;
   getTransactions: (filters?: TransactionFilters) => Transaction[];
+  addJournalEntry: (draft: JournalEntryDraft) => Promise<Transaction>;
+
+  // Voids and reversals; both return the offsetting entry
+  voidTransaction: (id: string, reason?: string) => Promise<Transaction>;
+  reverseTransaction: (id: string, date: Date, reason?: string) => Promise<Transaction>;
+
+  // Brings net worth balances into the ledger as one entry dated `date` (YYYY-MM-DD)
+  postOpeningBalances: (date: string, netWorthAccountIds: string[]) => Promise<Transaction>;
+
+  // Posts one scheduled loan payment: principal against the loan, interest as an expense
+  postLoanPayment: (netWorthAccountId: string, period: number, cashAccountId: string) => Promise<Transaction>;
+
+  // Posts one investment trade: buys and sales move cost between cash and the holding account
+  postInvestmentTrade: (netWorthAccountId: string, trade: TradeInput, effect: TradeEffect, cashAccountId: string) => Promise<Transaction>;
+
+  // Posts one period's interest on an account as investment income
+  postYieldAccrual: (netWorthAccountId: string, line: AccrualLine) => Promise<Transaction>;
+
+  // Refreshes the statement-driven fields of credit cards with terms, as of `asOf` (YYYY-MM-DD)
+  syncCardStatements: (asOf: string) => Promise<void>;
+
+  // Bank reconciliation
+  fetchReconciliations: (accountId: string) => Promise<void>;
+  reconcileAccount: (
+    accountId: string,
+    statementDate: string,
+    statementBalanceCents: number,
+    postingIds: string[]
+  ) => Promise<Reconciliation>;
+
+  // FX revaluation
+  revalueForeignBalances: (date: string, gainLossAccountId: string, dryRun?: boolean) => Promise<FxRevaluationReport>;
 
   // Balance calculations
   getAccountBalance: (accountId: string, asOfDate?: Date) => Money;
@@ -41,15 +116,89 @@ interface LedgerState {
   clearAllData: () => void;
 }
 
-interface TransactionFilters {
+export interface TransactionFilters {
   dateFrom?: Date;
   dateTo?: Date;
   accountIds?: string[];
+  type?: TransactionType;
   description?: string;
   reference?: string;
-  tags?: string[];
+  tags?: string[]; // Entries carrying any of these tags
+  tag?: string;
+  includeVoided?: boolean; // Voided entries are left out unless asked for
 }
 
+// Post the entry that voids or reverses a transaction and link the two
+const postReversal = async (kind: ReversalKind, id: string, date: Date, reason?: string): Promise<Transaction> => {
+  const original = useLedgerStore.getState().transactions.find(tx => tx.id === id);
+  if (!original) {
+    throw new Error('Transaction not found');
+  }
+
+  const dateKey = toLocalDateString(date);
+  const error = Reversal.validate(
+    {
+      date: toLocalDateString(original.date),
+      status: original.status ?? 'posted',
+      reversesId: original.reversesId ?? null,
+      reversedById: original.reversedById ?? null,
+    },
+    kind,
+    dateKey
+  );
+  if (error) {
+    throw new Error(error);
+  }
+  if (kind === 'void' && Reconciler.isLocked(original)) {
+    throw new Error('Transaction has reconciled postings; reverse it instead of voiding');
+  }
+  if (usePeriodStore.getState().isClosed(dateKey)) {
+    throw new Error(`Period ${PeriodLock.periodOf(dateKey)} is closed`);
+  }
+
+  const now = new Date();
+  const reversal: Transaction = DEV_MODE
+    ? { ...Reversal.offset(original, kind, date, reason), id: crypto.randomUUID(), createdAt: now, updatedAt: now }
+    : kind === 'void'
+      ? await journalService.void(id, reason)
+      : await journalService.reverse(id, dateKey, reason);
+
+  useLedgerStore.setState(state => ({
+    transactions: [
+      ...state.transactions.map(tx =>
+        tx.id === id
+          ? { ...tx, status: kind === 'void' ? 'voided' as const : tx.status, reversedById: reversal.id, updatedAt: now }
+          : tx
+      ),
+      reversal,
+    ],
+  }));
+  return reversal;
+};
+
+// The ledger account mirroring a net worth account, created and linked on first use
+const ensureLinkedAccount = async (netWorthAccountId: string): Promise<Account> => {
+  const netWorth = useAccountStore.getState().accounts.find(account => account.id === netWorthAccountId);
+  if (!netWorth) {
+    throw new Error('Net worth account not found');
+  }
+
+  const { accounts, getAccount, addAccount } = useLedgerStore.getState();
+  const linked = netWorth.ledgerAccountId ? getAccount(netWorth.ledgerAccountId) : undefined;
+  if (linked) {
+    return linked;
+  }
+
+  const nature = OpeningBalances.natureOf(netWorth.type);
+  const account = await addAccount({
+    code: OpeningBalances.nextCode(accounts.map(item => item.code), nature),
+    name: netWorth.name,
+    nature,
+  });
+  await useAccountStore.getState().updateAccount(netWorth.id, { ledgerAccountId: account.id });
+  return account;
+};
+
 // Default accounts for chart of accounts
 const createDefaultAccounts = (): Account[] => {
   const now = new Date();
@@ -91,6 +240,29 @@ export const useLedgerStore = create<LedgerState>()(
     (set, get) => ({
       accounts: [],
       transactions: [],
+      reconciliations: [],
+      initializationStatus: 'idle' as InitializationStatus,
+      errorDetails: null,
+
+      fetchAll: async () => {
+        if (DEV_MODE) {
+          // In dev mode, data comes from localStorage via persist
+          set({ initializationStatus: 'success' });
+          return;
+        }
+
+        set({ initializationStatus: 'loading', errorDetails: null });
+        try {
+          const [accounts, transactions] = await Promise.all([
+            journalService.getAccounts(),
+            journalService.getAll(),
+          ]);
+          set({ accounts, transactions, initializationStatus: 'success' });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to fetch ledger';
+          set({ errorDetails: message, initializationStatus: 'error' });
+        }
+      },
 
       // Account operations
       getAccount: (id) => {
@@ -101,6 +273,44 @@ export const useLedgerStore = create<LedgerState>()(
         return get().accounts.filter(account => account.nature === nature && account.isActive);
       },
 
+      addAccount: async (data) => {
+        const { accounts } = get();
+        const error = AccountTree.validateCode(data.code, data.nature)
+          ?? (accounts.some(account => account.code === data.code) ? `Account with code '${data.code}' already exists` : null)
+          ?? AccountTree.validateParent(accounts, null, data.parentId, data.nature);
+        if (error) {
+          throw new Error(error);
+        }
+
+        const now = new Date();
+        const account: Account = DEV_MODE
+          ? { ...data, id: crypto.randomUUID(), isActive: true, createdAt: now, updatedAt: now }
+          : await journalService.createAccount(data);
+        set(state => ({ accounts: [...state.accounts, account] }));
+        return account;
+      },
+
+      // Re-parents an account; parentId null moves it to the top level
+      moveAccount: async (accountId, parentId) => {
+        const account = get().getAccount(accountId);
+        if (!account) {
+          throw new Error('Account not found');
+        }
+        const error = AccountTree.validateParent(get().accounts, accountId, parentId, account.nature);
+        if (error) {
+          throw new Error(error);
+        }
+
+        if (!DEV_MODE) {
+          await journalService.moveAccount(accountId, parentId);
+        }
+        set(state => ({
+          accounts: state.accounts.map(item =>
+            item.id === accountId ? { ...item, parentId: parentId ?? undefined, updatedAt: new Date() } : item
+          ),
+        }));
+      },
+
       // Transaction operations
       addTransaction: (transactionData) => {
         const transaction: Transaction = {
@@ -116,8 +326,354 @@ export const useLedgerStore = create<LedgerState>()(
         set(state => ({ transactions: [...state.transactions, transaction] }));
       },
 
+      addJournalEntry: async (draft) => {
+        const entry = JournalEntry.toTransaction(draft);
+
+        const date = toLocalDateString(entry.date);
+        if (usePeriodStore.getState().isClosed(date)) {
+          throw new Error(`Period ${PeriodLock.periodOf(date)} is closed`);
+        }
+
+        // The builder has already assigned local ids; the API assigns its own
+        const transaction = DEV_MODE ? entry : await journalService.create(entry);
+        set(state => ({ transactions: [...state.transactions, transaction] }));
+        return transaction;
+      },
+
+      // A void cancels on the original date
+      voidTransaction: (id, reason) => {
+        const original = get().transactions.find(tx => tx.id === id);
+        return postReversal('void', id, original?.date ?? new Date(), reason);
+      },
+
+      reverseTransaction: (id, date, reason) => postReversal('reverse', id, date, reason),
+
+      // Each balance goes on its account's normal side; the difference goes to opening balance equity
+      postOpeningBalances: async (date, netWorthAccountIds) => {
+        const selected = useAccountStore.getState().accounts.filter(
+          account => netWorthAccountIds.includes(account.id) && account.balance !== 0
+        );
+        if (selected.length === 0) {
+          throw new Error('Select at least one account with a balance');
+        }
+        if (usePeriodStore.getState().isClosed(date)) {
+          throw new Error(`Period ${PeriodLock.periodOf(date)} is closed`);
+        }
+
+        // Posting twice would double the balance, so linked accounts must still be empty
+        const posted = new Set(get().transactions.flatMap(tx => tx.postings.map(posting => posting.accountId)));
+        const alreadyPosted = selected.find(account => account.ledgerAccountId && posted.has(account.ledgerAccountId));
+        if (alreadyPosted) {
+          throw new Error(`Ledger account for '${alreadyPosted.name}' already has entries`);
+        }
+
+        const equity = get().accounts.find(account => account.code === OPENING_BALANCE_CODE)
+          ?? await get().addAccount({ code: OPENING_BALANCE_CODE, name: OPENING_BALANCE_NAME, nature: 'equity' });
+
+        const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+        const items: OpeningBalanceItem[] = [];
+        for (const account of selected) {
+          const ledgerAccount = await ensureLinkedAccount(account.id);
+          items.push({
+            ledgerAccountId: ledgerAccount.id,
+            nature: OpeningBalances.natureOf(account.type),
+            balanceCents: Math.round(account.balance * 100),
+            currency: account.currency,
+            exchangeRate: convertAmount(1, account.currency, baseCurrency),
+          });
+        }
+
+        const [year, month, day] = date.split('-').map(Number);
+        return get().addJournalEntry({
+          date: new Date(year, month - 1, day),
+          description: 'Opening balances',
+          transactionType: 'adjustment',
+          baseCurrency,
+          tags: ['opening-balance'],
+          lines: OpeningBalances.toJournalLines(items, equity.id, baseCurrency),
+        });
+      },
+
+      postLoanPayment: async (netWorthAccountId, period, cashAccountId) => {
+        const loan = useAccountStore.getState().accounts.find(account => account.id === netWorthAccountId);
+        if (!loan?.loanTerms) {
+          throw new Error('Account has no loan terms');
+        }
+        const row = Amortization.schedule(loan.loanTerms).rows.find(item => item.period === period);
+        if (!row) {
+          throw new Error(`Payment ${period} is not in the schedule`);
+        }
+        if (Amortization.postedPeriods(get().transactions, loan.id).has(period)) {
+          throw new Error(`Payment ${period} has already been posted`);
+        }
+        if (get().getAccount(cashAccountId)?.nature !== 'asset') {
+          throw new Error('Choose an asset account to pay from');
+        }
+        if (usePeriodStore.getState().isClosed(row.date)) {
+          throw new Error(`Period ${PeriodLock.periodOf(row.date)} is closed`);
+        }
+
+        const loanAccount = await ensureLinkedAccount(loan.id);
+        const interest = get().accounts.find(account => account.code === INTEREST_EXPENSE_CODE)
+          ?? await get().addAccount({ code: INTEREST_EXPENSE_CODE, name: INTEREST_EXPENSE_NAME, nature: 'expense' });
+
+        const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+        const isForeign = loan.currency.toUpperCase() !== baseCurrency.toUpperCase();
+        const [year, month, day] = row.date.split('-').map(Number);
+        const entry = await get().addJournalEntry({
+          date: new Date(year, month - 1, day),
+          description: `${loan.name} payment ${period}`,
+          reference: Amortization.reference(loan.id, period),
+          transactionType: 'expense',
+          baseCurrency,
+          tags: [LOAN_PAYMENT_TAG],
+          lines: Amortization.toJournalLines(
+            row,
+            { loanAccountId: loanAccount.id, interestAccountId: interest.id, cashAccountId },
+            loan.currency,
+            isForeign ? convertAmount(1, loan.currency, baseCurrency) : undefined
+          ),
+        });
+
+        // Keep the net worth balance in step with the ledger; liabilities are stored as negatives
+        const owedCents = Math.max(Math.round(Math.abs(loan.balance) * 100) - row.principalCents - row.extraCents, 0);
+        await useAccountStore.getState().updateAccount(loan.id, { balance: -owedCents / 100 || 0, lastPaidDate: row.date });
+        return entry;
+      },
+
+      postInvestmentTrade: async (netWorthAccountId, trade, effect, cashAccountId) => {
+        const holding = useAccountStore.getState().accounts.find(account => account.id === netWorthAccountId);
+        if (!holding) {
+          throw new Error('Net worth account not found');
+        }
+        if (get().getAccount(cashAccountId)?.nature !== 'asset') {
+          throw new Error('Choose an asset account for the cash side');
+        }
+        if (usePeriodStore.getState().isClosed(trade.date)) {
+          throw new Error(`Period ${PeriodLock.periodOf(trade.date)} is closed`);
+        }
+
+        const holdingAccount = await ensureLinkedAccount(holding.id);
+        if (holdingAccount.id === cashAccountId) {
+          throw new Error('The cash side must be a different account');
+        }
+        const findOrAdd = async (code: string, name: string, nature: AccountNature) =>
+          get().accounts.find(account => account.code === code) ?? await get().addAccount({ code, name, nature });
+        // Income and gain accounts are only set up once a trade needs them
+        const income = trade.kind === 'dividend'
+          ? get().getAccount('investment-income') ?? await findOrAdd('4003', 'Investment Income', 'income')
+          : undefined;
+        const gain = effect.gainCents > 0 ? await findOrAdd(REALIZED_GAIN_CODE, REALIZED_GAIN_NAME, 'income') : undefined;
+        const loss = effect.gainCents < 0 ? await findOrAdd(REALIZED_LOSS_CODE, REALIZED_LOSS_NAME, 'expense') : undefined;
+
+        const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+        const isForeign = holding.currency.toUpperCase() !== baseCurrency.toUpperCase();
+        const [year, month, day] = trade.date.split('-').map(Number);
+        return get().addJournalEntry({
+          date: new Date(year, month - 1, day),
+          description: trade.kind === 'dividend'
+            ? `${trade.symbol} dividend`
+            : `${trade.kind === 'buy' ? 'Buy' : 'Sell'} ${trade.quantity} ${trade.symbol}`,
+          transactionType: trade.kind === 'dividend' ? 'income' : 'transfer',
+          baseCurrency,
+          tags: [INVESTMENT_TRADE_TAG],
+          lines: Holdings.toJournalLines(
+            trade,
+            effect,
+            {
+              holdingAccountId: holdingAccount.id,
+              cashAccountId,
+              incomeAccountId: income?.id,
+              gainAccountId: gain?.id,
+              lossAccountId: loss?.id,
+            },
+            holding.currency,
+            isForeign ? convertAmount(1, holding.currency, baseCurrency) : undefined
+          ),
+        });
+      },
+
+      postYieldAccrual: async (netWorthAccountId, line) => {
+        const account = useAccountStore.getState().accounts.find(item => item.id === netWorthAccountId);
+        if (!account) {
+          throw new Error('Net worth account not found');
+        }
+        if (usePeriodStore.getState().isClosed(line.periodEnd)) {
+          throw new Error(`Period ${PeriodLock.periodOf(line.periodEnd)} is closed`);
+        }
+
+        const linked = await ensureLinkedAccount(account.id);
+        const income = get().getAccount('investment-income')
+          ?? get().accounts.find(item => item.code === '4003')
+          ?? await get().addAccount({ code: '4003', name: 'Investment Income', nature: 'income' });
+
+        const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+        const isForeign = account.currency.toUpperCase() !== baseCurrency.toUpperCase();
+        const [year, month, day] = line.periodEnd.split('-').map(Number);
+        return get().addJournalEntry({
+          date: new Date(year, month - 1, day),
+          description: `${account.name} interest`,
+          reference: YieldAccruals.reference(account.id, line.periodEnd),
+          transactionType: 'income',
+          baseCurrency,
+          tags: [YIELD_ACCRUAL_TAG],
+          lines: YieldAccruals.toJournalLines(
+            line.interestCents,
+            { accountId: linked.id, incomeAccountId: income.id },
+            account.currency,
+            isForeign ? convertAmount(1, account.currency, baseCurrency) : undefined
+          ),
+        });
+      },
+
+      syncCardStatements: async (asOf) => {
+        const cards = useAccountStore.getState().accounts.filter(account => account.type === 'credit-card');
+        for (const card of cards) {
+          const statement = getCardStatement(card.id, asOf);
+          if (!statement) continue;
+
+          const updates = {
+            paymentToAvoidInterest: statement.paymentToAvoidInterestCents / 100,
+            minMonthlyPayment: statement.minimumPaymentCents / 100,
+            dueDate: statement.cycle.due,
+            recurringDueDate: Number(statement.cycle.due.slice(8)),
+            isPaidThisMonth: statement.isPaid,
+            lastPaidDate: statement.lastPaymentDate ?? card.lastPaidDate,
+          };
+          // Only write when something moved, so the sync leaves no trace in the edit history
+          const changed = (Object.keys(updates) as Array<keyof typeof updates>).some(key => card[key] !== updates[key]);
+          if (changed) {
+            await useAccountStore.getState().updateAccount(card.id, updates);
+          }
+        }
+      },
+
+      fetchReconciliations: async (accountId) => {
+        if (DEV_MODE) return;
+
+        const reconciliations = await journalService.getReconciliations(accountId);
+        set(state => ({
+          reconciliations: [
+            ...state.reconciliations.filter(reconciliation => reconciliation.accountId !== accountId),
+            ...reconciliations,
+          ],
+        }));
+      },
+
+      // Clears the selected postings against a statement and locks them
+      reconcileAccount: async (accountId, statementDate, statementBalanceCents, postingIds) => {
+        const error = Reconciler.validate(getReconcilableItems(accountId), postingIds, statementDate, statementBalanceCents);
+        if (error) {
+          throw new Error(error);
+        }
+
+        const reconciliation: Reconciliation = DEV_MODE
+          ? {
+              id: crypto.randomUUID(),
+              accountId,
+              statementDate,
+              statementBalanceCents,
+              postingIds,
+              createdAt: new Date().toISOString(),
+            }
+          : await journalService.reconcile(accountId, { statementDate, statementBalanceCents, postingIds });
+
+        const cleared = new Set(reconciliation.postingIds);
+        const reconciledAt = new Date(reconciliation.createdAt);
+        set(state => ({
+          reconciliations: [...state.reconciliations, reconciliation],
+          transactions: state.transactions.map(transaction =>
+            transaction.postings.some(posting => cleared.has(posting.id))
+              ? {
+                  ...transaction,
+                  postings: transaction.postings.map(posting =>
+                    cleared.has(posting.id) ? { ...posting, reconciled: true, reconciledAt } : posting
+                  ),
+                }
+              : transaction
+          ),
+        }));
+        return reconciliation;
+      },
+
+      // Restates foreign-currency asset and liability balances at current rates
+      revalueForeignBalances: async (date, gainLossAccountId, dryRun = false) => {
+        const gainLoss = get().getAccount(gainLossAccountId);
+        if (!gainLoss || (gainLoss.nature !== 'income' && gainLoss.nature !== 'equity')) {
+          throw new Error('FX gain/loss account must be an income or equity account');
+        }
+
+        const { baseCurrency, convertAmount } = useCurrencyStore.getState();
+        if (!DEV_MODE) {
+          const report = await journalService.revalue({ date, baseCurrency, gainLossAccountId, dryRun });
+          if (report.transactionId) {
+            set({ transactions: await journalService.getAll() });
+          }
+          return report;
+        }
+
+        const monetary = new Set(
+          get().accounts
+            .filter(account => account.nature === 'asset' || account.nature === 'liability')
+            .map(account => account.id)
+        );
+        const foreignPostings: ForeignPosting[] = get().transactions
+          .filter(transaction => transaction.baseCurrency === baseCurrency && toLocalDateString(transaction.date) <= date)
+          .flatMap(transaction => transaction.postings)
+          .filter(posting => monetary.has(posting.accountId))
+          .map(posting => {
+            const original = (posting.originalDebitAmount ?? posting.originalCreditAmount)!;
+            const booked = posting.bookedDebitAmount ?? posting.bookedCreditAmount ?? original;
+            return {
+              accountId: posting.accountId,
+              currency: original.getCurrency(),
+              isDebit: posting.originalDebitAmount !== null,
+              amountCents: original.getAmountMinor(),
+              bookedCents: booked.getAmountMinor(),
+            };
+          });
+
+        const balances = FxRevaluation.balances(foreignPostings, baseCurrency);
+        const rates = Object.fromEntries(
+          [...new Set(balances.map(balance => balance.currency))].map(currency => [currency, convertAmount(1, currency, baseCurrency)])
+        );
+        const lines = FxRevaluation.revalue(balances, rates);
+        const report: FxRevaluationReport = {
+          date,
+          baseCurrency,
+          lines,
+          totalAdjustmentCents: FxRevaluation.totalAdjustment(lines),
+          transactionId: null,
+        };
+
+        const postings = FxRevaluation.toPostings(lines, gainLossAccountId, baseCurrency);
+        if (dryRun || postings.length === 0) {
+          return report;
+        }
+        if (usePeriodStore.getState().isClosed(date)) {
+          throw new Error(`Period ${PeriodLock.periodOf(date)} is closed`);
+        }
+
+        const [year, month, day] = date.split('-').map(Number);
+        const builder = new TransactionBuilder(`FX revaluation ${date}`, baseCurrency, new Date(year, month - 1, day))
+          .reference(`FX-${date}`)
+          .tags(['fx-revaluation']);
+        for (const posting of postings) {
+          const original = Money.fromMinorUnits(posting.amountCents, posting.currency);
+          const booked = Money.fromMinorUnits(posting.bookedCents, baseCurrency);
+          if (posting.isDebit) {
+            builder.debit(posting.accountId, original, booked, undefined, 'FX revaluation');
+          } else {
+            builder.credit(posting.accountId, original, booked, undefined, 'FX revaluation');
+          }
+        }
+        const transaction = { ...builder.build(), transactionType: 'adjustment' as const };
+        set(state => ({ transactions: [...state.transactions, transaction] }));
+        return { ...report, transactionId: transaction.id };
+      },
+
       getTransactions: (filters = {}) => {
-        let transactions = get().transactions;
+        let transactions = get().transactions.filter(tx => Reversal.isReported(tx, filters.includeVoided));
 
         if (filters.dateFrom) {
           transactions = transactions.filter(tx => tx.date >= filters.dateFrom!);
@@ -130,6 +686,9 @@ export const useLedgerStore = create<LedgerState>()(
             tx.postings.some(posting => filters.accountIds!.includes(posting.accountId))
           );
         }
+        if (filters.type) {
+          transactions = transactions.filter(tx => tx.transactionType === filters.type);
+        }
         if (filters.description) {
           transactions = transactions.filter(tx =>
             tx.description.toLowerCase().includes(filters.description!.toLowerCase())
@@ -145,6 +704,9 @@ export const useLedgerStore = create<LedgerState>()(
             filters.tags!.some(tag => tx.tags?.includes(tag))
           );
         }
+        if (filters.tag) {
+          transactions = transactions.filter(tx => tx.tags?.includes(filters.tag!));
+        }
 
         return transactions.sort((a, b) => {
           // Handle invalid dates gracefully
@@ -303,7 +865,8 @@ export const useLedgerStore = create<LedgerState>()(
         console.log('Clearing all ledger data...');
         set({
           accounts: [],
-          transactions: []
+          transactions: [],
+          reconciliations: []
         });
         // Clear all localStorage keys
         localStorage.removeItem('ledger-store'); // Zustand persist key
@@ -330,10 +893,10 @@ export const useLedgerStore = create<LedgerState>()(
         get().addTransaction(transaction);
       },
 
-      // Default accounts setup
+      // Default accounts setup; with a backend the chart of accounts comes from the API
       initializeDefaultAccounts: () => {
         const state = get();
-        if (state.accounts.length === 0) {
+        if (DEV_MODE && state.accounts.length === 0) {
           set({ accounts: createDefaultAccounts() });
         }
       },
@@ -341,6 +904,11 @@ export const useLedgerStore = create<LedgerState>()(
     {
       name: 'ledger-store',
       version: 1,
+      partialize: (state) => ({
+        accounts: state.accounts,
+        transactions: state.transactions,
+        reconciliations: state.reconciliations,
+      }),
       storage: {
         getItem: (name) => {
           try {
@@ -361,6 +929,7 @@ export const useLedgerStore = create<LedgerState>()(
               updatedAt: new Date(tx.updatedAt),
               postings: tx.postings.map((posting: any) => ({
                 ...posting,
+                reconciledAt: posting.reconciledAt ? new Date(posting.reconciledAt) : undefined,
                 originalDebitAmount: posting.originalDebitAmount 
                   ? Money.fromMinorUnits(posting.originalDebitAmount.amountMinor || posting.originalDebitAmount._amountMinor || 0, 
                                         posting.originalDebitAmount.currency || posting.originalDebitAmount._currency || 'USD')
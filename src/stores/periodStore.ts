@@ -0,0 +1,108 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { PeriodLock } from '../domain/periodClose';
+import type { PeriodClose, PeriodCloseEvent } from '../domain/periodClose';
+import { periodService } from '../services/periodService';
+import { useSnapshotStore } from './snapshotStore';
+import { getTodayLocalString } from '../utils/dateFormat';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
+
+export interface ClosePeriodOptions {
+  takeSnapshot?: boolean; // Record the month-end net worth snapshot before closing
+}
+
+interface PeriodState {
+  closes: PeriodClose[];
+  events: PeriodCloseEvent[];
+  initializationStatus: InitializationStatus;
+  errorDetails: string | null;
+  fetchAll: () => Promise<void>;
+  isClosed: (date: string) => boolean;
+  closePeriod: (period: string, options?: ClosePeriodOptions) => Promise<PeriodClose>;
+  reopenPeriod: (period: string, reason: string) => Promise<void>;
+}
+
+const newEvent = (period: string, action: PeriodCloseEvent['action'], reason?: string): PeriodCloseEvent => ({
+  id: crypto.randomUUID(),
+  period,
+  action,
+  reason,
+  createdAt: new Date().toISOString(),
+});
+
+export const usePeriodStore = create<PeriodState>()(
+  persist(
+    (set, get) => ({
+      closes: [],
+      events: [],
+      initializationStatus: 'idle' as InitializationStatus,
+      errorDetails: null,
+
+      fetchAll: async () => {
+        if (DEV_MODE) {
+          // In dev mode, data comes from localStorage via persist
+          set({ initializationStatus: 'success' });
+          return;
+        }
+
+        set({ initializationStatus: 'loading', errorDetails: null });
+        try {
+          const { closes, events } = await periodService.getAll();
+          set({ closes, events, initializationStatus: 'success' });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to fetch closed periods';
+          set({ errorDetails: message, initializationStatus: 'error' });
+        }
+      },
+
+      // Whether a YYYY-MM-DD date falls in a closed month
+      isClosed: (date) => {
+        return PeriodLock.findClosed(get().closes.map((close) => close.period), [date]) !== null;
+      },
+
+      closePeriod: async (period, options = {}) => {
+        const error = PeriodLock.validateClose(period, get().closes.map((close) => close.period), getTodayLocalString());
+        if (error) {
+          throw new Error(error);
+        }
+
+        if (options.takeSnapshot) {
+          await useSnapshotStore.getState().createSnapshot(period);
+        }
+
+        const close: PeriodClose = DEV_MODE
+          ? { id: crypto.randomUUID(), period, closedAt: new Date().toISOString() }
+          : await periodService.close(period);
+        set((state) => ({
+          closes: [...state.closes, close],
+          events: [newEvent(period, 'close'), ...state.events],
+        }));
+        return close;
+      },
+
+      reopenPeriod: async (period, reason) => {
+        const error = PeriodLock.validateReopen(period, get().closes.map((close) => close.period), reason);
+        if (error) {
+          throw new Error(error);
+        }
+
+        if (!DEV_MODE) {
+          await periodService.reopen(period, reason.trim());
+        }
+
+        set((state) => ({
+          closes: state.closes.filter((close) => close.period !== period),
+          events: [newEvent(period, 'reopen', reason.trim()), ...state.events],
+        }));
+      },
+    }),
+    {
+      name: 'fintonico-periods',
+      partialize: (state) => ({ closes: state.closes, events: state.events }),
+    }
+  )
+);
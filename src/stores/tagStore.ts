@@ -0,0 +1,214 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Tag } from '../types';
+import { Tags, TAG_COLORS } from '../domain/tags';
+import { tagService } from '../services/tagService';
+import type { UpdateTagData } from '../services/tagService';
+import { useExpenseStore } from './expenseStore';
+import { useIncomeStore } from './incomeStore';
+import { useLedgerStore } from './ledgerStore';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
+
+interface TagState {
+  tags: Tag[];
+  loading: boolean;
+  error: string | null;
+  initializationStatus: InitializationStatus;
+  errorDetails: string | null;
+  isReady: () => boolean;
+  fetchAll: () => Promise<void>;
+  getTagByName: (name: string) => Tag | undefined;
+  addTag: (name: string, color?: string) => Promise<Tag>;
+  updateTag: (id: string, updates: UpdateTagData) => Promise<Tag>;
+  mergeTags: (targetId: string, sourceIds: string[]) => Promise<Tag>;
+  deleteTag: (id: string) => Promise<void>;
+  clearError: () => void;
+}
+
+// Rewrite tag names on the locally held expenses, income and ledger transactions.
+// The server does the same for stored entries, so this keeps both in step without a refetch.
+const rewriteEntryTags = (from: string[], to: string | null) => {
+  const rewrite = <T extends { tags?: string[] }>(entry: T): T =>
+    entry.tags?.some((tag) => from.includes(tag)) ? { ...entry, tags: Tags.replace(entry.tags, from, to) } : entry;
+
+  useExpenseStore.setState((state) => ({ expenses: state.expenses.map(rewrite) }));
+  useIncomeStore.setState((state) => ({ incomes: state.incomes.map(rewrite) }));
+  useLedgerStore.setState((state) => ({ transactions: state.transactions.map(rewrite) }));
+};
+
+const validateColor = (color: string): string => {
+  if (!Tags.isValidColor(color)) throw new Error('Tag color must be a hex color like #3b82f6');
+  return color.toLowerCase();
+};
+
+export const useTagStore = create<TagState>()(
+  persist(
+    (set, get) => ({
+      tags: [],
+      loading: false,
+      error: null,
+      initializationStatus: 'idle' as InitializationStatus,
+      errorDetails: null,
+
+      isReady: () => get().initializationStatus === 'success',
+
+      fetchAll: async () => {
+        if (DEV_MODE) {
+          // In dev mode, data comes from localStorage via persist
+          set({ initializationStatus: 'success' });
+          return;
+        }
+
+        set({ initializationStatus: 'loading', loading: true, error: null, errorDetails: null });
+        try {
+          const tags = await tagService.getAll();
+          set({ tags, loading: false, initializationStatus: 'success' });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to fetch tags';
+          set({
+            error: message,
+            errorDetails: message,
+            loading: false,
+            initializationStatus: 'error',
+          });
+        }
+      },
+
+      getTagByName: (name: string) => {
+        const normalized = Tags.normalize(name);
+        return get().tags.find((tag) => tag.name === normalized);
+      },
+
+      addTag: async (rawName: string, color?: string) => {
+        const nameError = Tags.validateName(rawName);
+        if (nameError) throw new Error(nameError);
+
+        const name = Tags.normalize(rawName);
+        if (get().getTagByName(name)) {
+          throw new Error(`Tag '${name}' already exists`);
+        }
+        // New tags cycle through the palette unless a color is given
+        const tagData = { name, color: validateColor(color ?? TAG_COLORS[get().tags.length % TAG_COLORS.length]) };
+
+        if (DEV_MODE) {
+          const newTag: Tag = { ...tagData, id: crypto.randomUUID(), created_at: new Date().toISOString() };
+          set((state) => ({ tags: [...state.tags, newTag] }));
+          return newTag;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          const newTag = await tagService.create(tagData);
+          set((state) => ({ tags: [...state.tags, newTag], loading: false }));
+          return newTag;
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to add tag',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      updateTag: async (id: string, updates: UpdateTagData) => {
+        const tag = get().tags.find((t) => t.id === id);
+        if (!tag) throw new Error('Tag not found');
+
+        const normalizedUpdates: UpdateTagData = {};
+        if (updates.name !== undefined) {
+          const nameError = Tags.validateName(updates.name);
+          if (nameError) throw new Error(nameError);
+          normalizedUpdates.name = Tags.normalize(updates.name);
+          const existing = get().getTagByName(normalizedUpdates.name);
+          if (existing && existing.id !== id) {
+            throw new Error(`Tag '${normalizedUpdates.name}' already exists; merge the tags instead`);
+          }
+        }
+        if (updates.color !== undefined) {
+          normalizedUpdates.color = validateColor(updates.color);
+        }
+
+        let updatedTag: Tag;
+        if (DEV_MODE) {
+          updatedTag = { ...tag, ...normalizedUpdates };
+        } else {
+          set({ loading: true, error: null });
+          try {
+            updatedTag = await tagService.update(id, normalizedUpdates);
+            set({ loading: false });
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : 'Failed to update tag',
+              loading: false,
+            });
+            throw error;
+          }
+        }
+
+        set((state) => ({ tags: state.tags.map((t) => (t.id === id ? updatedTag : t)) }));
+        if (updatedTag.name !== tag.name) {
+          rewriteEntryTags([tag.name], updatedTag.name);
+        }
+        return updatedTag;
+      },
+
+      mergeTags: async (targetId: string, sourceIds: string[]) => {
+        const target = get().tags.find((t) => t.id === targetId);
+        if (!target) throw new Error('Tag not found');
+        const sources = get().tags.filter((t) => t.id !== targetId && sourceIds.includes(t.id));
+        if (sources.length === 0) throw new Error('Choose at least one other tag to merge');
+
+        if (!DEV_MODE) {
+          set({ loading: true, error: null });
+          try {
+            await tagService.merge(targetId, sources.map((source) => source.id));
+            set({ loading: false });
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : 'Failed to merge tags',
+              loading: false,
+            });
+            throw error;
+          }
+        }
+
+        const mergedIds = new Set(sources.map((source) => source.id));
+        set((state) => ({ tags: state.tags.filter((t) => !mergedIds.has(t.id)) }));
+        rewriteEntryTags(sources.map((source) => source.name), target.name);
+        return target;
+      },
+
+      deleteTag: async (id: string) => {
+        const tag = get().tags.find((t) => t.id === id);
+        if (!tag) throw new Error('Tag not found');
+
+        if (!DEV_MODE) {
+          set({ loading: true, error: null });
+          try {
+            await tagService.delete(id);
+            set({ loading: false });
+          } catch (error) {
+            set({
+              error: error instanceof Error ? error.message : 'Failed to delete tag',
+              loading: false,
+            });
+            throw error;
+          }
+        }
+
+        set((state) => ({ tags: state.tags.filter((t) => t.id !== id) }));
+        rewriteEntryTags([tag.name], null);
+      },
+
+      clearError: () => set({ error: null }),
+    }),
+    {
+      name: 'fintonico-tags',
+      partialize: (state) => ({ tags: state.tags }),
+    }
+  )
+);
@@ -0,0 +1,221 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { Income, YieldAccrual } from '../types';
+import { YieldAccruals, INVESTMENT_YIELD_PREFIX } from '../domain/yieldAccrual';
+import type { AccrualLine } from '../domain/yieldAccrual';
+import type { Transaction } from '../domain/ledger';
+import { yieldAccrualService } from '../services/yieldAccrualService';
+import type { CreateYieldAccrualData } from '../services/yieldAccrualService';
+import { useAccountStore } from './accountStore';
+import { useIncomeStore } from './incomeStore';
+import { useLedgerStore } from './ledgerStore';
+import { usePeriodStore } from './periodStore';
+
+// Dev mode configuration
+const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
+
+type InitializationStatus = 'idle' | 'loading' | 'success' | 'error';
+
+// Accruals due on one account
+export interface AccrualPreview {
+  accountId: string;
+  currency: string;
+  lines: AccrualLine[];
+}
+
+interface YieldAccrualState {
+  accruals: YieldAccrual[];
+  loading: boolean;
+  error: string | null;
+  initializationStatus: InitializationStatus;
+  errorDetails: string | null;
+  isReady: () => boolean;
+  fetchAll: () => Promise<void>;
+  getAccruals: (accountId: string) => YieldAccrual[];
+  // Accruals due up to `asOf` (YYYY-MM-DD) that have not been posted, for all accounts or the ones given
+  previewAccruals: (asOf: string, accountIds?: string[]) => AccrualPreview[];
+  // Posts what previewAccruals returns; returns how many accruals were posted
+  postAccruals: (asOf: string, accountIds?: string[]) => Promise<number>;
+  // Voids the entry, removes the income and takes the interest back off the balance
+  undoAccrual: (id: string) => Promise<void>;
+  clearError: () => void;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100);
+
+export const useYieldAccrualStore = create<YieldAccrualState>()(
+  persist(
+    (set, get) => ({
+      accruals: [],
+      loading: false,
+      error: null,
+      initializationStatus: 'idle' as InitializationStatus,
+      errorDetails: null,
+
+      isReady: () => get().initializationStatus === 'success',
+
+      fetchAll: async () => {
+        if (DEV_MODE) {
+          // In dev mode, data comes from localStorage via persist
+          set({ initializationStatus: 'success' });
+          return;
+        }
+
+        set({ initializationStatus: 'loading', loading: true, error: null, errorDetails: null });
+        try {
+          const accruals = await yieldAccrualService.getAll();
+          set({ accruals, loading: false, initializationStatus: 'success' });
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to fetch yield accruals';
+          set({
+            error: message,
+            errorDetails: message,
+            loading: false,
+            initializationStatus: 'error',
+          });
+        }
+      },
+
+      getAccruals: (accountId: string) => get().accruals.filter((accrual) => accrual.accountId === accountId),
+
+      // Undone periods count as accrued, so undoing is not reverted by the next run.
+      // Periods with an entry in the ledger count too, in case their record was never saved.
+      // Closed periods are skipped; their books cannot change.
+      previewAccruals: (asOf: string, accountIds?: string[]) => {
+        const { isClosed } = usePeriodStore.getState();
+        const { transactions } = useLedgerStore.getState();
+        return useAccountStore.getState().accounts
+          .filter((account) => account.yieldTerms && (!accountIds || accountIds.includes(account.id)))
+          .map((account) => {
+            const accruedThrough = [
+              ...get().getAccruals(account.id).map((accrual) => accrual.periodEnd),
+              ...YieldAccruals.postedPeriods(transactions, account.id),
+            ].reduce<string | null>((latest, periodEnd) => (!latest || periodEnd > latest ? periodEnd : latest), null);
+            const lines = YieldAccruals.plan(
+              account.yieldTerms!,
+              account.estimatedYield ?? 0,
+              roundCents(account.balance),
+              accruedThrough,
+              asOf
+            ).filter((line) => !isClosed(line.periodEnd));
+            return { accountId: account.id, currency: account.currency, lines };
+          })
+          .filter((preview) => preview.lines.length > 0);
+      },
+
+      // Each accrual is posted whole or not at all: when a step fails, the steps before it are taken back
+      postAccruals: async (asOf: string, accountIds?: string[]) => {
+        let posted = 0;
+        for (const preview of get().previewAccruals(asOf, accountIds)) {
+          for (const line of preview.lines) {
+            const account = useAccountStore.getState().accounts.find((item) => item.id === preview.accountId)!;
+            let entry: Transaction | null = null;
+            let income: Income | null = null;
+            let credited = false;
+            try {
+              entry = await useLedgerStore.getState().postYieldAccrual(account.id, line);
+              income = await useIncomeStore.getState().addIncome({
+                source: `${INVESTMENT_YIELD_PREFIX} ${account.name}`,
+                amount: line.interestCents / 100,
+                currency: account.currency,
+                frequency: 'one-time',
+                date: line.periodEnd,
+              });
+              await useAccountStore.getState().updateAccount(account.id, {
+                balance: (roundCents(account.balance) + line.interestCents) / 100,
+              });
+              credited = true;
+
+              const data: CreateYieldAccrualData = {
+                accountId: account.id,
+                periodEnd: line.periodEnd,
+                amount: line.interestCents / 100,
+                currency: account.currency,
+                incomeId: income.id,
+                transactionId: entry.id,
+              };
+              if (DEV_MODE) {
+                const accrual: YieldAccrual = { ...data, id: crypto.randomUUID(), status: 'posted', created_at: new Date().toISOString() };
+                set((state) => ({ accruals: [...state.accruals, accrual] }));
+              } else {
+                set({ loading: true, error: null });
+                const accrual = await yieldAccrualService.create(data);
+                set((state) => ({ accruals: [...state.accruals, accrual], loading: false }));
+              }
+            } catch (error) {
+              set({
+                error: error instanceof Error ? error.message : 'Failed to save yield accrual',
+                loading: false,
+              });
+              if (credited) {
+                await useAccountStore.getState().updateAccount(account.id, { balance: account.balance });
+              }
+              if (income) {
+                await useIncomeStore.getState().deleteIncome(income.id);
+              }
+              if (entry) {
+                await useLedgerStore.getState().voidTransaction(entry.id, 'Yield accrual could not be saved');
+              }
+              throw error;
+            }
+            posted++;
+          }
+        }
+        return posted;
+      },
+
+      // Later accruals were worked on the balance this one produced, so only the latest can go
+      undoAccrual: async (id: string) => {
+        const accrual = get().accruals.find((item) => item.id === id);
+        if (!accrual || accrual.status !== 'posted') throw new Error('Accrual not found');
+        const later = get().getAccruals(accrual.accountId)
+          .some((item) => item.status === 'posted' && item.periodEnd > accrual.periodEnd);
+        if (later) throw new Error('Only the latest accrual of an account can be undone');
+
+        const ledger = useLedgerStore.getState();
+        const entry = ledger.transactions.find((tx) => tx.id === accrual.transactionId);
+        if (entry && entry.status !== 'voided' && !entry.reversedById) {
+          await ledger.voidTransaction(entry.id, 'Yield accrual undone');
+        }
+        const incomes = useIncomeStore.getState();
+        if (accrual.incomeId && incomes.incomes.some((income) => income.id === accrual.incomeId)) {
+          await incomes.deleteIncome(accrual.incomeId);
+        }
+        const account = useAccountStore.getState().accounts.find((item) => item.id === accrual.accountId);
+        if (account) {
+          await useAccountStore.getState().updateAccount(account.id, {
+            balance: (roundCents(account.balance) - roundCents(accrual.amount)) / 100,
+          });
+        }
+
+        if (DEV_MODE) {
+          set((state) => ({
+            accruals: state.accruals.map((item) => (item.id === id ? { ...item, status: 'undone' } : item)),
+          }));
+          return;
+        }
+
+        set({ loading: true, error: null });
+        try {
+          const undone = await yieldAccrualService.markUndone(id);
+          set((state) => ({
+            accruals: state.accruals.map((item) => (item.id === id ? undone : item)),
+            loading: false,
+          }));
+        } catch (error) {
+          set({
+            error: error instanceof Error ? error.message : 'Failed to undo yield accrual',
+            loading: false,
+          });
+          throw error;
+        }
+      },
+
+      clearError: () => set({ error: null }),
+    }),
+    {
+      name: 'fintonico-yield-accruals',
+      partialize: (state) => ({ accruals: state.accruals }),
+    }
+  )
+);
@@ -0,0 +1,82 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AccountTree } from '../domain/accountTree';
+import type { TreeAccount } from '../domain/accountTree';
+import { useLedgerStore } from '../stores/ledgerStore';
+
+const accounts: TreeAccount[] = [
+  { id: 'bank', code: '1100', nature: 'asset' },
+  { id: 'savings', code: '1120', nature: 'asset', parentId: 'bank' },
+  { id: 'checking', code: '1110', nature: 'asset', parentId: 'bank' },
+  { id: 'emergency', code: '1121', nature: 'asset', parentId: 'savings' },
+  { id: 'cash', code: '1001', nature: 'asset' },
+  { id: 'card', code: '2001', nature: 'liability' },
+];
+
+describe('AccountTree', () => {
+  it('checks codes against the range of their nature', () => {
+    expect(AccountTree.validateCode('1100', 'asset')).toBeNull();
+    expect(AccountTree.validateCode('6100', 'expense')).toBeNull();
+    expect(AccountTree.validateCode('4100', 'asset')).toBe('Asset account codes must start with 1');
+    expect(AccountTree.validateCode('1100', 'expense')).toBe('Expense account codes must start with 5-9');
+    expect(AccountTree.validateCode('11A', 'asset')).toBe('Account code must be 4 to 10 digits');
+  });
+
+  it('rejects parents of another nature and moves that would create a loop', () => {
+    expect(AccountTree.validateParent(accounts, 'cash', 'bank', 'asset')).toBeNull();
+    expect(AccountTree.validateParent(accounts, 'card', 'bank', 'liability')).toBe('Parent account must have the same nature');
+    expect(AccountTree.validateParent(accounts, 'bank', 'emergency', 'asset'))
+      .toBe('An account cannot be moved under itself or one of its sub-accounts');
+    expect(AccountTree.validateParent(accounts, 'bank', 'missing', 'asset')).toBe('Parent account not found');
+  });
+
+  it('builds sorted trees, hides collapsed branches and rolls amounts up', () => {
+    const roots = AccountTree.build(accounts.filter((account) => account.nature === 'asset'));
+
+    expect(AccountTree.flatten(roots).map((node) => [node.account.id, node.depth])).toEqual([
+      ['cash', 0],
+      ['bank', 0],
+      ['checking', 1],
+      ['savings', 1],
+      ['emergency', 2],
+    ]);
+    expect(AccountTree.flatten(roots, new Set(['bank'])).map((node) => node.account.id)).toEqual(['cash', 'bank']);
+
+    const subtotals = AccountTree.rollup(roots, new Map([['checking', 100], ['savings', 50], ['emergency', 25], ['cash', 10]]));
+    expect(subtotals.get('savings')).toBe(75);
+    expect(subtotals.get('bank')).toBe(175);
+    expect(subtotals.get('cash')).toBe(10);
+  });
+});
+
+describe('ledger store account hierarchy', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('adds sub-accounts and re-parents them within the same nature', async () => {
+    const { addAccount, moveAccount } = useLedgerStore.getState();
+    const bank = await addAccount({ code: '1100', name: 'Bank Accounts', nature: 'asset' });
+
+    await moveAccount('checking', bank.id);
+    await moveAccount('savings', bank.id);
+    expect(useLedgerStore.getState().getAccount('checking')?.parentId).toBe(bank.id);
+
+    await moveAccount('savings', null);
+    expect(useLedgerStore.getState().getAccount('savings')?.parentId).toBeUndefined();
+
+    await expect(moveAccount('credit-card', bank.id)).rejects.toThrow('Parent account must have the same nature');
+    await expect(moveAccount(bank.id, 'checking')).rejects.toThrow('An account cannot be moved under itself');
+  });
+
+  it('rejects codes outside the nature range and duplicates', async () => {
+    const { addAccount } = useLedgerStore.getState();
+    await expect(addAccount({ code: '5100', name: 'Brokerage', nature: 'asset' }))
+      .rejects.toThrow('Asset account codes must start with 1');
+    await expect(addAccount({ code: '1001', name: 'Petty Cash', nature: 'asset' }))
+      .rejects.toThrow("Account with code '1001' already exists");
+  });
+});
@@ -0,0 +1,130 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Amortization, type LoanTerms } from '../domain/amortization';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useAccountStore } from '../stores/accountStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { usePeriodStore } from '../stores/periodStore';
+
+const carLoan: LoanTerms = { principal: 100000, annualRate: 12, termMonths: 12, startDate: '2026-01-15' };
+
+describe('Amortization', () => {
+  it('splits a level payment into interest and principal until the loan is paid off', () => {
+    const schedule = Amortization.schedule(carLoan);
+
+    expect(schedule.paymentCents).toBe(8884_88);
+    expect(schedule.rows).toHaveLength(12);
+    expect(schedule.rows[0]).toEqual({
+      period: 1,
+      date: '2026-02-15',
+      paymentCents: 8884_88,
+      interestCents: 1000_00,
+      principalCents: 7884_88,
+      extraCents: 0,
+      balanceCents: 92115_12,
+    });
+    expect(schedule.rows[11].balanceCents).toBe(0);
+    expect(schedule.rows.reduce((sum, row) => sum + row.principalCents, 0)).toBe(100000_00);
+    expect(schedule.totalPaidCents - schedule.totalInterestCents).toBe(100000_00);
+    expect(schedule.payoffDate).toBe('2027-01-15');
+  });
+
+  it('applies extra payments to principal and shortens the schedule', () => {
+    const schedule = Amortization.schedule({
+      principal: 1000,
+      annualRate: 0,
+      termMonths: 10,
+      startDate: '2026-01-31',
+      extraMonthly: 50,
+      extraPayments: [{ date: '2026-03-15', amount: 200 }],
+    });
+
+    expect(schedule.rows.map((row) => [row.date, row.extraCents, row.balanceCents])).toEqual([
+      ['2026-02-28', 50_00, 850_00],
+      ['2026-03-31', 250_00, 500_00],
+      ['2026-04-30', 50_00, 350_00],
+      ['2026-05-31', 50_00, 200_00],
+      ['2026-06-30', 50_00, 50_00],
+      ['2026-07-31', 0, 0],
+    ]);
+    expect(schedule.monthsSaved).toBe(4);
+  });
+
+  it('counts an extra payment made on the start date in the first period', () => {
+    const schedule = Amortization.schedule({
+      principal: 1000,
+      annualRate: 0,
+      termMonths: 10,
+      startDate: '2026-01-31',
+      extraPayments: [{ date: '2026-01-31', amount: 300 }],
+    });
+
+    expect(schedule.rows[0]).toMatchObject({ date: '2026-02-28', extraCents: 300_00, balanceCents: 600_00 });
+    expect(schedule.rows.reduce((sum, row) => sum + row.extraCents, 0)).toBe(300_00);
+  });
+
+  it('rejects terms that cannot produce a schedule', () => {
+    expect(Amortization.validate(carLoan)).toBeNull();
+    expect(Amortization.validate({ ...carLoan, principal: 0 })).toBe('Principal must be greater than zero');
+    expect(Amortization.validate({ ...carLoan, termMonths: 12.5 })).toBe('Term must be between 1 and 600 months');
+    expect(Amortization.validate({ ...carLoan, extraPayments: [{ date: '', amount: 10 }] }))
+      .toBe('Extra payments need a date and an amount greater than zero');
+  });
+
+  it('books principal against the loan and interest as an expense', () => {
+    const [row] = Amortization.schedule(carLoan).rows;
+    expect(Amortization.toJournalLines(row, { loanAccountId: 'loan', interestAccountId: 'interest', cashAccountId: 'cash' }, 'MXN'))
+      .toEqual([
+        { accountId: 'loan', side: 'debit', amount: 7884.88, currency: 'MXN', exchangeRate: undefined },
+        { accountId: 'interest', side: 'debit', amount: 1000, currency: 'MXN', exchangeRate: undefined },
+        { accountId: 'cash', side: 'credit', amount: 8884.88, currency: 'MXN', exchangeRate: undefined },
+      ]);
+  });
+});
+
+describe('posting loan payments', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    usePeriodStore.setState({ closes: [] });
+    useCurrencyStore.setState({ baseCurrency: 'MXN', exchangeRates: { MXN: 1, USD: 0.05 } });
+    useAccountStore.setState({
+      accounts: [
+        { id: 'nw-car', name: 'Car loan', type: 'loan', currency: 'MXN', balance: -100000, loanTerms: carLoan },
+        { id: 'nw-card', name: 'Amex', type: 'credit-card', currency: 'MXN', balance: -8000 },
+      ],
+    });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('posts a scheduled payment once and pays down the net worth balance', async () => {
+    const entry = await useLedgerStore.getState().postLoanPayment('nw-car', 1, 'checking');
+
+    const { accounts, getAccountBalance, postLoanPayment } = useLedgerStore.getState();
+    const loan = useAccountStore.getState().accounts.find((account) => account.id === 'nw-car')!;
+    const interest = accounts.find((account) => account.code === '5800')!;
+
+    expect(entry).toMatchObject({ description: 'Car loan payment 1', reference: 'loan:nw-car:1', tags: ['loan-payment'] });
+    expect(entry.date).toEqual(new Date(2026, 1, 15));
+    expect(interest).toMatchObject({ name: 'Interest Expense', nature: 'expense' });
+    expect(getAccountBalance(interest.id).toMajorUnits()).toBe(1000);
+    expect(getAccountBalance('checking').toMajorUnits()).toBe(-8884.88);
+    expect(loan).toMatchObject({ balance: -92115.12, lastPaidDate: '2026-02-15' });
+    expect(loan.ledgerAccountId).toBeDefined();
+
+    await expect(postLoanPayment('nw-car', 1, 'checking')).rejects.toThrow('Payment 1 has already been posted');
+    await expect(postLoanPayment('nw-car', 13, 'checking')).rejects.toThrow('Payment 13 is not in the schedule');
+    await expect(postLoanPayment('nw-car', 2, 'food')).rejects.toThrow('Choose an asset account to pay from');
+  });
+
+  it('keeps loan terms to loans and mortgages', async () => {
+    const { updateAccount } = useAccountStore.getState();
+
+    await expect(updateAccount('nw-card', { loanTerms: carLoan })).rejects.toThrow('Loan terms only apply to loans and mortgages');
+    await expect(updateAccount('nw-car', { loanTerms: { ...carLoan, annualRate: 120 } })).rejects.toThrow('Interest rate must be between 0 and 100');
+
+    await updateAccount('nw-car', { type: 'credit-card' });
+    expect(useAccountStore.getState().accounts[0].loanTerms).toBeUndefined();
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseBankStatement,
+  parseOFX,
+  parseCAMT053,
+  isBankStatementFile,
+  statementToExpenseRows,
+  statementToIncomeRows,
+} from '../utils/bankStatement';
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1>
+<STMTTRNRS>
+<STMTRS>
+<CURDEF>USD
+<BANKACCTFROM>
+<BANKID>121000248
+<ACCTID>000123456
+<ACCTTYPE>CHECKING
+</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250101
+<DTEND>20250131
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250105120000.000[-6:CST]
+<TRNAMT>-12.50
+<FITID>A1
+<NAME>STARBUCKS #123
+<MEMO>Card purchase
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250115
+<TRNAMT>2500.00
+<FITID>A2
+<NAME>ACME PAYROLL
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS>
+</STMTTRNRS>
+</BANKMSGSRSV1>
+</OFX>`;
+
+const OFX_XML = `<?xml version="1.0" encoding="UTF-8"?>
+<?OFX OFXHEADER="200" VERSION="220"?>
+<OFX>
+  <CREDITCARDMSGSRSV1><CCSTMTTRNRS><CCSTMTRS>
+    <CURDEF>MXN</CURDEF>
+    <CCACCTFROM><ACCTID>4111</ACCTID></CCACCTFROM>
+    <BANKTRANLIST>
+      <STMTTRN>
+        <TRNTYPE>DEBIT</TRNTYPE>
+        <DTPOSTED>20250210</DTPOSTED>
+        <TRNAMT>-899.00</TRNAMT>
+        <FITID>CC1</FITID>
+        <NAME>Tienda &amp; Cafe</NAME>
+      </STMTTRN>
+    </BANKTRANLIST>
+  </CCSTMTRS></CCSTMTTRNRS></CREDITCARDMSGSRSV1>
+</OFX>`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <GrpHdr><MsgId>MSG1</MsgId></GrpHdr>
+    <Stmt>
+      <Id>STMT1</Id>
+      <Acct>
+        <Id><IBAN>DE89370400440532013000</IBAN></Id>
+        <Ccy>EUR</Ccy>
+      </Acct>
+      <Ntry>
+        <Amt Ccy="EUR">45.90</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-03-02</Dt></BookgDt>
+        <AcctSvcrRef>REF-1</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>Stadtwerke</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>Strom Maerz</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">3200.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <Sts><Cd>BOOK</Cd></Sts>
+        <BookgDt><DtTm>2025-03-28T09:15:00</DtTm></BookgDt>
+        <NtryDtls><TxDtls>
+          <RltdPties><Dbtr><Nm>Employer GmbH</Nm></Dbtr></RltdPties>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="EUR">10.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-03-30</Dt></BookgDt>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('bankStatement', () => {
+  describe('parseOFX', () => {
+    it('reads SGML statements with unclosed tags', () => {
+      const { statement, errors } = parseOFX(OFX_SGML);
+
+      expect(errors).toEqual([]);
+      expect(statement?.accountId).toBe('000123456');
+      expect(statement?.lines).toEqual([
+        { date: '2025-01-05', amount: -12.5, currency: 'USD', description: 'STARBUCKS #123 - Card purchase', reference: 'A1' },
+        { date: '2025-01-15', amount: 2500, currency: 'USD', description: 'ACME PAYROLL', reference: 'A2' },
+      ]);
+    });
+
+    it('reads XML (OFX 2.x) credit card statements', () => {
+      const { statement } = parseOFX(OFX_XML);
+
+      expect(statement?.currency).toBe('MXN');
+      expect(statement?.lines[0]).toMatchObject({ date: '2025-02-10', amount: -899, description: 'Tienda & Cafe' });
+    });
+  });
+
+  describe('parseCAMT053', () => {
+    it('maps booked entries with sign, counterparty and remittance info', () => {
+      const { statement, errors } = parseCAMT053(CAMT);
+
+      expect(errors).toEqual([]);
+      expect(statement?.accountId).toBe('DE89370400440532013000');
+      expect(statement?.lines).toEqual([
+        { date: '2025-03-02', amount: -45.9, currency: 'EUR', description: 'Stadtwerke - Strom Maerz', reference: 'REF-1' },
+        { date: '2025-03-28', amount: 3200, currency: 'EUR', description: 'Employer GmbH', reference: undefined },
+      ]);
+    });
+
+    it('rejects XML that is not a statement', () => {
+      const { statement, errors } = parseCAMT053('<Document><Other/></Document>');
+
+      expect(statement).toBeNull();
+      expect(errors[0]).toContain('BkToCstmrStmt');
+    });
+  });
+
+  describe('parseBankStatement', () => {
+    it('detects the format from content', () => {
+      expect(parseBankStatement(OFX_SGML).statement?.format).toBe('ofx');
+      expect(parseBankStatement(CAMT).statement?.format).toBe('camt053');
+      expect(parseBankStatement('date,amount').statement).toBeNull();
+    });
+
+    it('recognizes statement file extensions', () => {
+      expect(isBankStatementFile('export.QFX')).toBe(true);
+      expect(isBankStatementFile('camt053.xml')).toBe(true);
+      expect(isBankStatementFile('expenses.xlsx')).toBe(false);
+    });
+  });
+
+  describe('row mapping', () => {
+    it('splits debits into expense rows and credits into income rows', () => {
+      const lines = parseOFX(OFX_SGML).statement!.lines;
+
+      expect(statementToExpenseRows(lines)).toEqual([
+        { date: '2025-01-05', description: 'STARBUCKS #123 - Card purchase', amount: '12.5', currency: 'USD', rating: 'discretionary', category: '', subcategory: '', recurring: 'false' },
+      ]);
+      expect(statementToIncomeRows(lines)).toEqual([
+        { date: '2025-01-15', source: 'ACME PAYROLL', amount: '2500', currency: 'USD', frequency: 'one-time' },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useBudgetStore } from '../stores/budgetStore';
+import { useExpenseStore } from '../stores/expenseStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import type { Expense } from '../types';
+
+const makeExpense = (overrides: Partial<Expense>): Expense => ({
+  id: crypto.randomUUID(),
+  what: 'Expense',
+  amount: 100,
+  currency: 'MXN',
+  rating: 'discretionary',
+  date: '2025-01-15',
+  created_at: '2025-01-15T00:00:00.000Z',
+  ...overrides,
+});
+
+const resetStores = () => {
+  localStorage.clear();
+  useBudgetStore.setState({ budgets: [], loading: false, error: null });
+  useExpenseStore.setState({ expenses: [], loading: false, error: null });
+  useCurrencyStore.setState({
+    baseCurrency: 'MXN',
+    enabledCurrencies: ['MXN', 'USD', 'EUR'],
+    exchangeRates: { MXN: 1, USD: 0.05, EUR: 0.045 },
+    lastUpdated: Date.now(),
+    loading: false,
+    error: null,
+  });
+};
+
+describe('budgetStore', () => {
+  beforeEach(() => {
+    resetStores();
+  });
+
+  describe('addBudget', () => {
+    it('adds a rating budget and defaults the name to the rating', async () => {
+      await useBudgetStore.getState().addBudget({
+        scope: 'rating',
+        rating: 'luxury',
+        monthlyLimit: 2000,
+        currency: 'MXN',
+        startMonth: '2025-01',
+      });
+
+      const budgets = useBudgetStore.getState().budgets;
+      expect(budgets).toHaveLength(1);
+      expect(budgets[0].name).toBe('luxury');
+      expect(budgets[0].rollover).toBe(false);
+      expect(budgets[0].category).toBeUndefined();
+    });
+
+    it('rejects a second budget for the same category', async () => {
+      const store = useBudgetStore.getState();
+      await store.addBudget({ scope: 'category', category: 'Groceries', monthlyLimit: 3000, currency: 'MXN' });
+
+      await expect(
+        store.addBudget({ scope: 'category', category: ' groceries ', monthlyLimit: 500, currency: 'MXN' })
+      ).rejects.toThrow('already exists');
+    });
+
+    it('rejects invalid limits and missing targets', async () => {
+      const store = useBudgetStore.getState();
+
+      await expect(
+        store.addBudget({ scope: 'rating', rating: 'essential', monthlyLimit: -10, currency: 'MXN' })
+      ).rejects.toThrow('Invalid budget limit');
+      await expect(
+        store.addBudget({ scope: 'category', monthlyLimit: 100, currency: 'MXN' })
+      ).rejects.toThrow('Category is required');
+      await expect(
+        store.addBudget({ scope: 'rating', rating: 'essential', monthlyLimit: 100, currency: 'MXN', startMonth: '2025-13' })
+      ).rejects.toThrow('Invalid start month');
+    });
+  });
+
+  describe('getProgress', () => {
+    it('sums matching expenses for the month in the budget currency', async () => {
+      useExpenseStore.setState({
+        expenses: [
+          makeExpense({ amount: 300, rating: 'discretionary' }),
+          makeExpense({ amount: 10, currency: 'USD', rating: 'discretionary' }),
+          makeExpense({ amount: 999, rating: 'essential' }),
+          makeExpense({ amount: 999, rating: 'discretionary', date: '2025-02-01' }),
+        ],
+      });
+      await useBudgetStore.getState().addBudget({
+        scope: 'rating',
+        rating: 'discretionary',
+        monthlyLimit: 1000,
+        currency: 'MXN',
+        startMonth: '2025-01',
+      });
+
+      const [progress] = useBudgetStore.getState().getProgress('2025-01');
+
+      expect(progress.spent).toBe(500);
+      expect(progress.limit).toBe(1000);
+      expect(progress.remaining).toBe(500);
+      expect(progress.percentUsed).toBe(50);
+    });
+
+    it('matches category budgets case-insensitively', async () => {
+      useExpenseStore.setState({
+        expenses: [
+          makeExpense({ amount: 200, category: 'groceries' }),
+          makeExpense({ amount: 50, category: 'Dining' }),
+          makeExpense({ amount: 75 }),
+        ],
+      });
+      await useBudgetStore.getState().addBudget({
+        scope: 'category',
+        category: 'Groceries',
+        monthlyLimit: 400,
+        currency: 'MXN',
+        startMonth: '2025-01',
+      });
+
+      const [progress] = useBudgetStore.getState().getProgress('2025-01');
+
+      expect(progress.spent).toBe(200);
+    });
+
+    it('rolls unspent amounts forward but never carries overspending', async () => {
+      useExpenseStore.setState({
+        expenses: [
+          makeExpense({ amount: 600, date: '2025-01-10' }),
+          makeExpense({ amount: 1500, date: '2025-02-10' }),
+          makeExpense({ amount: 100, date: '2025-03-10' }),
+          makeExpense({ amount: 400, date: '2025-04-10' }),
+        ],
+      });
+      await useBudgetStore.getState().addBudget({
+        scope: 'rating',
+        rating: 'discretionary',
+        monthlyLimit: 1000,
+        currency: 'MXN',
+        rollover: true,
+        startMonth: '2025-01',
+      });
+
+      const { getProgress } = useBudgetStore.getState();
+
+      // Jan: 400 unspent carries into Feb (limit 1400)
+      expect(getProgress('2025-02')[0].carriedOver).toBe(400);
+      expect(getProgress('2025-02')[0].remaining).toBe(-100);
+      // Feb overspent: March starts fresh
+      expect(getProgress('2025-03')[0].carriedOver).toBe(0);
+      // March left 900 unspent
+      expect(getProgress('2025-04')[0].limit).toBe(1900);
+    });
+
+    it('reports no limit before the start month', async () => {
+      await useBudgetStore.getState().addBudget({
+        scope: 'rating',
+        rating: 'essential',
+        monthlyLimit: 1000,
+        currency: 'MXN',
+        rollover: true,
+        startMonth: '2025-06',
+      });
+
+      const [progress] = useBudgetStore.getState().getProgress('2025-05');
+
+      expect(progress.limit).toBe(0);
+      expect(progress.carriedOver).toBe(0);
+    });
+  });
+
+  describe('updateBudget / deleteBudget', () => {
+    it('updates the limit and removes budgets', async () => {
+      const budget = await useBudgetStore.getState().addBudget({
+        scope: 'rating',
+        rating: 'essential',
+        monthlyLimit: 1000,
+        currency: 'MXN',
+      });
+
+      await useBudgetStore.getState().updateBudget(budget.id, { monthlyLimit: 1500, rollover: true });
+      expect(useBudgetStore.getState().budgets[0].monthlyLimit).toBe(1500);
+      expect(useBudgetStore.getState().budgets[0].rollover).toBe(true);
+
+      await useBudgetStore.getState().deleteBudget(budget.id);
+      expect(useBudgetStore.getState().budgets).toHaveLength(0);
+    });
+
+    it("trims the name without changing the caller's updates", async () => {
+      const budget = await useBudgetStore.getState().addBudget({
+        scope: 'category',
+        category: 'Dining',
+        monthlyLimit: 1000,
+        currency: 'MXN',
+      });
+      const updates = { name: '  Eating out  ' };
+
+      const updated = await useBudgetStore.getState().updateBudget(budget.id, updates);
+
+      expect(updated.name).toBe('Eating out');
+      expect(updates).toEqual({ name: '  Eating out  ' });
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CardCycles, type CardTerms } from '../domain/cardCycles';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useAccountStore } from '../stores/accountStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { usePeriodStore } from '../stores/periodStore';
+import { useHistoryStore } from '../stores/historyStore';
+
+const terms: CardTerms = { closingDay: 31, graceDays: 20, apr: 36, minPaymentPercent: 10 };
+
+describe('CardCycles', () => {
+  it('finds the latest closed cycle, closing short months on their last day', () => {
+    expect(CardCycles.cycleAsOf(terms, '2026-02-10')).toEqual({ start: '2026-01-01', closing: '2026-01-31', due: '2026-02-20' });
+    expect(CardCycles.cycleAsOf(terms, '2026-02-28')).toEqual({ start: '2026-02-01', closing: '2026-02-28', due: '2026-03-20' });
+    expect(CardCycles.cycleAsOf({ ...terms, closingDay: 15 }, '2026-01-10'))
+      .toEqual({ start: '2025-11-16', closing: '2025-12-15', due: '2026-01-04' });
+  });
+
+  it('works out what is due from the statement and the payments since closing', () => {
+    const statement = CardCycles.statement(terms, [
+      { date: '2026-01-05', amountCents: 1000_00 },
+      { date: '2026-01-20', amountCents: 500_00 },
+      { date: '2026-01-25', amountCents: -300_00 },
+      { date: '2026-02-03', amountCents: 200_00 },
+      { date: '2026-02-05', amountCents: -400_00 },
+    ], '2026-02-10');
+
+    expect(statement).toMatchObject({
+      statementCents: 1200_00,
+      paidCents: 400_00,
+      paymentToAvoidInterestCents: 800_00,
+      minimumPaymentCents: 0,
+      interestIfMinimumCents: 32_40,
+      currentBalanceCents: 1000_00,
+      isPaid: false,
+      lastPaymentDate: '2026-02-05',
+    });
+  });
+
+  it('raises the minimum to its floor without going past the balance', () => {
+    expect(CardCycles.minimumPaymentCents(10000_00, { ...terms, minPaymentFloor: 200 })).toBe(1000_00);
+    expect(CardCycles.minimumPaymentCents(1000_00, { ...terms, minPaymentFloor: 200 })).toBe(200_00);
+    expect(CardCycles.minimumPaymentCents(50_00, { ...terms, minPaymentFloor: 200 })).toBe(50_00);
+    expect(CardCycles.validate({ ...terms, closingDay: 0 })).toBe('Closing day must be between 1 and 31');
+  });
+});
+
+describe('syncing card statements', () => {
+  const post = (date: Date, debit: string, credit: string, amount: number) =>
+    useLedgerStore.getState().addJournalEntry({
+      date,
+      description: 'Card activity',
+      baseCurrency: 'MXN',
+      lines: [
+        { accountId: debit, side: 'debit', amount, currency: 'MXN' },
+        { accountId: credit, side: 'credit', amount, currency: 'MXN' },
+      ],
+    });
+
+  beforeEach(() => {
+    localStorage.clear();
+    usePeriodStore.setState({ closes: [] });
+    useHistoryStore.setState({ entries: [] });
+    useCurrencyStore.setState({ baseCurrency: 'MXN', exchangeRates: { MXN: 1 } });
+    useAccountStore.setState({
+      accounts: [
+        { id: 'nw-card', name: 'Amex', type: 'credit-card', currency: 'MXN', balance: -1500, ledgerAccountId: 'credit-card', cardTerms: terms },
+        { id: 'nw-loan', name: 'Car loan', type: 'loan', currency: 'MXN', balance: -9000, isPaidThisMonth: true, lastPaidDate: '2026-01-15' },
+      ],
+    });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('fills the payment fields and paid status from the ledger', async () => {
+    await post(new Date(2026, 0, 10), 'food', 'credit-card', 1500);
+    await post(new Date(2026, 1, 5), 'credit-card', 'checking', 1500);
+
+    await useLedgerStore.getState().syncCardStatements('2026-02-10');
+    const card = () => useAccountStore.getState().accounts.find((account) => account.id === 'nw-card')!;
+    expect(card()).toMatchObject({
+      paymentToAvoidInterest: 0,
+      minMonthlyPayment: 0,
+      dueDate: '2026-02-20',
+      recurringDueDate: 20,
+      isPaidThisMonth: true,
+      lastPaidDate: '2026-02-05',
+    });
+
+    // A new cycle closes with an unpaid charge
+    await post(new Date(2026, 1, 20), 'food', 'credit-card', 400);
+    await useLedgerStore.getState().syncCardStatements('2026-03-01');
+    expect(card()).toMatchObject({ paymentToAvoidInterest: 400, minMonthlyPayment: 40, dueDate: '2026-03-20', isPaidThisMonth: false });
+
+    const edits = useHistoryStore.getState().getHistory('net_worth_accounts', 'nw-card').length;
+    await useLedgerStore.getState().syncCardStatements('2026-03-01');
+    expect(useHistoryStore.getState().getHistory('net_worth_accounts', 'nw-card')).toHaveLength(edits);
+  });
+
+  it('starts other liabilities unpaid in a new month', async () => {
+    await useAccountStore.getState().rollOverPaidStatus('2026-01-31');
+    expect(useAccountStore.getState().accounts[1].isPaidThisMonth).toBe(true);
+
+    await useAccountStore.getState().rollOverPaidStatus('2026-02-01');
+    expect(useAccountStore.getState().accounts[1].isPaidThisMonth).toBe(false);
+  });
+});
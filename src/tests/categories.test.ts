@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { getCategoryOptions, getCategoryBreakdown, matchesCategoryFilter, UNCATEGORIZED } from '../utils/categoryUtils';
+import { normalizeExpenseRow, parseExpenseCSV } from '../utils/csv';
+import type { Expense } from '../types';
+
+const makeExpense = (overrides: Partial<Expense>): Expense => ({
+  id: crypto.randomUUID(),
+  what: 'Expense',
+  amount: 100,
+  currency: 'MXN',
+  rating: 'discretionary',
+  date: '2025-01-15',
+  created_at: '2025-01-15T00:00:00Z',
+  ...overrides,
+});
+
+// 1 USD = 20 MXN, everything else 1:1
+const convert = (amount: number, from: string, to: string) =>
+  from === to ? amount : from === 'USD' ? amount * 20 : amount / 20;
+
+describe('category utilities', () => {
+  it('collects categories and subcategories case-insensitively', () => {
+    const options = getCategoryOptions(
+      [
+        { category: 'Food', subcategory: 'Groceries' },
+        { category: 'food', subcategory: 'Restaurants' },
+        { category: 'Transport' },
+        { category: '  ' },
+      ],
+      [{ category: 'Food', subcategory: 'groceries' }, { category: 'Health', subcategory: null }]
+    );
+
+    expect(options).toEqual([
+      { category: 'Food', subcategories: ['Groceries', 'Restaurants'] },
+      { category: 'Health', subcategories: [] },
+      { category: 'Transport', subcategories: [] },
+    ]);
+  });
+
+  it('filters by category, subcategory and uncategorized', () => {
+    const groceries = { category: 'Food', subcategory: 'Groceries' };
+    const uncategorized = { category: undefined };
+
+    expect(matchesCategoryFilter(groceries, '')).toBe(true);
+    expect(matchesCategoryFilter(groceries, 'food')).toBe(true);
+    expect(matchesCategoryFilter(groceries, 'Food', 'Restaurants')).toBe(false);
+    expect(matchesCategoryFilter(groceries, UNCATEGORIZED)).toBe(false);
+    expect(matchesCategoryFilter(uncategorized, UNCATEGORIZED)).toBe(true);
+    expect(matchesCategoryFilter(uncategorized, 'Food')).toBe(false);
+  });
+
+  it('breaks spending down by category in the base currency, largest first', () => {
+    const breakdown = getCategoryBreakdown(
+      [
+        makeExpense({ category: 'Food', subcategory: 'Groceries', amount: 300 }),
+        makeExpense({ category: 'food', subcategory: 'Restaurants', amount: 10, currency: 'USD' }),
+        makeExpense({ category: 'Transport', amount: 150 }),
+        makeExpense({ amount: 50 }),
+      ],
+      convert,
+      'MXN'
+    );
+
+    expect(breakdown).toEqual([
+      {
+        category: 'Food',
+        amount: 500,
+        subcategories: [
+          { subcategory: 'Groceries', amount: 300 },
+          { subcategory: 'Restaurants', amount: 200 },
+        ],
+      },
+      { category: 'Transport', amount: 150, subcategories: [{ subcategory: null, amount: 150 }] },
+      { category: null, amount: 50, subcategories: [{ subcategory: null, amount: 50 }] },
+    ]);
+  });
+});
+
+describe('expense import rows', () => {
+  it('reads rating, category and subcategory columns', () => {
+    const { data, errors } = parseExpenseCSV(
+      'date,description,amount,currency,rating,category,subcategory,recurring\n' +
+      '2025-01-15,Groceries,150.00,MXN,essential,Food & Dining,Groceries,false'
+    );
+
+    expect(errors).toEqual([]);
+    expect(data[0]).toMatchObject({ rating: 'essential', category: 'Food & Dining', subcategory: 'Groceries' });
+  });
+
+  it('treats a rating in the category column of older files as the rating', () => {
+    expect(normalizeExpenseRow({ date: '2025-01-15', description: 'Rent', amount: '100', currency: 'MXN', category: 'Essential', recurring: 'true' }))
+      .toMatchObject({ rating: 'Essential', category: '', subcategory: '' });
+    expect(normalizeExpenseRow({ date: '2025-01-15', description: 'Rent', amount: '100', currency: 'MXN', category: 'Housing' }))
+      .toMatchObject({ rating: '', category: 'Housing' });
+  });
+
+  it('only requires the core columns', () => {
+    const { data, errors } = parseExpenseCSV('date,description,amount,currency\n2025-01-15,Coffee,3,USD');
+
+    expect(errors).toEqual([]);
+    expect(data[0]).toEqual({
+      date: '2025-01-15', description: 'Coffee', amount: '3', currency: 'USD',
+      rating: '', category: '', subcategory: '', recurring: '',
+    });
+  });
+});
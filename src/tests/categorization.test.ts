@@ -0,0 +1,124 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CategorizationEngine, DEFAULT_CATEGORIZATION_RULES } from '../domain/categorization';
+import type { CategorizationRule } from '../domain/categorization';
+import { useCategorizationRuleStore } from '../stores/categorizationRuleStore';
+import { useExpenseStore } from '../stores/expenseStore';
+
+const makeRule = (overrides: Partial<CategorizationRule> = {}): CategorizationRule => ({
+  id: 'rule-1',
+  name: 'Ride share',
+  priority: 10,
+  enabled: true,
+  descriptionPattern: 'uber|lyft',
+  category: 'Transportation',
+  subcategory: 'Ride Share',
+  ...overrides,
+});
+
+describe('CategorizationEngine', () => {
+  it('matches descriptions case-insensitively', () => {
+    const result = CategorizationEngine.categorize([makeRule()], { description: 'UBER *TRIP', amount: 80, currency: 'MXN' });
+
+    expect(result).toMatchObject({ ruleId: 'rule-1', category: 'Transportation', subcategory: 'Ride Share', confidence: 1 });
+    expect(result?.rating).toBeUndefined();
+  });
+
+  it('checks amount range, currency and account conditions', () => {
+    const rule = makeRule({ descriptionPattern: null, minAmount: 100, maxAmount: 500, currency: 'usd', accountId: 'card-1' });
+    const expense = { description: 'Anything', amount: 200, currency: 'USD', accountId: 'card-1' };
+
+    expect(CategorizationEngine.matches(rule, expense)).toBe(true);
+    expect(CategorizationEngine.matches(rule, { ...expense, amount: 501 })).toBe(false);
+    expect(CategorizationEngine.matches(rule, { ...expense, amount: 99 })).toBe(false);
+    expect(CategorizationEngine.matches(rule, { ...expense, currency: 'MXN' })).toBe(false);
+    expect(CategorizationEngine.matches(rule, { ...expense, accountId: 'cash' })).toBe(false);
+  });
+
+  it('applies the first enabled rule by priority', () => {
+    const rules = [
+      makeRule({ id: 'late', priority: 50, category: 'Travel' }),
+      makeRule({ id: 'disabled', priority: 1, enabled: false, category: 'Ignored' }),
+      makeRule({ id: 'early', priority: 20 }),
+    ];
+
+    expect(CategorizationEngine.categorize(rules, { description: 'Lyft', amount: 10, currency: 'MXN' })?.ruleId).toBe('early');
+  });
+
+  it('never matches an invalid pattern', () => {
+    expect(CategorizationEngine.validatePattern('(uber')).not.toBeNull();
+    expect(CategorizationEngine.matches(makeRule({ descriptionPattern: '(uber' }), { description: '(uber', amount: 1, currency: 'MXN' })).toBe(false);
+  });
+
+  it('rejects patterns that backtrack without bound', () => {
+    ['(a+)+$', '(a*)*b', '(?:\\w+\\s?)+$', '(ab{1,3})*', 'a*a*b', '.*.*=.*'].forEach((pattern) => {
+      expect(CategorizationEngine.validatePattern(pattern), pattern).not.toBeNull();
+    });
+    ['(coffee|tea)+', '\\d+\\.\\d+', '\\w+\\s+\\d+', 'uber|lyft', '[a+]+', '(ab)?c*'].forEach((pattern) => {
+      expect(CategorizationEngine.validatePattern(pattern), pattern).toBeNull();
+    });
+    expect(CategorizationEngine.matches(makeRule({ descriptionPattern: '(a+)+$' }), { description: 'a'.repeat(40) + '!', amount: 1, currency: 'MXN' })).toBe(false);
+  });
+
+  it('matches only the start of long descriptions', () => {
+    const rule = makeRule({ descriptionPattern: 'uber' });
+    expect(CategorizationEngine.matches(rule, { description: 'x'.repeat(600) + 'uber', amount: 1, currency: 'MXN' })).toBe(false);
+    expect(CategorizationEngine.matches(rule, { description: 'uber' + 'x'.repeat(600), amount: 1, currency: 'MXN' })).toBe(true);
+  });
+
+  it('ships complete, valid starter rules', () => {
+    DEFAULT_CATEGORIZATION_RULES.forEach((rule) => {
+      expect(CategorizationEngine.isComplete(rule)).toBe(true);
+      expect(CategorizationEngine.validatePattern(rule.descriptionPattern!)).toBeNull();
+    });
+  });
+});
+
+describe('categorization rules in the expense store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useExpenseStore.setState({ expenses: [], loading: false, error: null });
+    useCategorizationRuleStore.setState({ rules: [makeRule({ rating: 'essential' })], loading: false, error: null });
+  });
+
+  it('rejects rules without an action', async () => {
+    await expect(
+      useCategorizationRuleStore.getState().addRule({ name: 'No action', descriptionPattern: 'uber' })
+    ).rejects.toThrow('at least one condition and one action');
+  });
+
+  it('categorizes new expenses, overriding the entered rating', async () => {
+    const expense = await useExpenseStore.getState().addExpense({
+      what: 'Uber to airport',
+      amount: 300,
+      currency: 'MXN',
+      rating: 'discretionary',
+    });
+
+    expect(expense).toMatchObject({ category: 'Transportation', subcategory: 'Ride Share', rating: 'essential' });
+  });
+
+  it('categorizes imported expenses', async () => {
+    const imported = await useExpenseStore.getState().bulkImport([
+      { what: 'LYFT RIDE', amount: 90, currency: 'MXN', rating: 'discretionary', date: '2025-01-10' },
+      { what: 'Bakery', amount: 40, currency: 'MXN', rating: 'discretionary', date: '2025-01-10' },
+    ]);
+
+    expect(imported[0].category).toBe('Transportation');
+    expect(imported[1].category).toBeUndefined();
+  });
+
+  it('re-runs rules over existing expenses', async () => {
+    useCategorizationRuleStore.setState({ rules: [] });
+    await useExpenseStore.getState().addExpense({ what: 'Uber', amount: 50, currency: 'MXN', rating: 'discretionary' });
+    await useExpenseStore.getState().addExpense({ what: 'Bakery', amount: 40, currency: 'MXN', rating: 'discretionary' });
+
+    await useCategorizationRuleStore.getState().addRule({ name: 'Ride share', descriptionPattern: 'uber', category: 'Transportation' });
+
+    expect(await useExpenseStore.getState().applyCategorizationRules()).toBe(1);
+    expect(useExpenseStore.getState().expenses.find((e) => e.what === 'Uber')?.category).toBe('Transportation');
+    // Nothing changes on a second run
+    expect(await useExpenseStore.getState().applyCategorizationRules()).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Comparative } from '../domain/comparative';
+import { CommonTransactions } from '../domain/ledger';
+import { Money } from '../domain/money';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { getComparativeBalanceSheet, getComparativeIncomeStatement } from '../selectors/finance';
+
+describe('Comparative', () => {
+  it('builds calendar periods ending with the one that contains the end date', () => {
+    expect(Comparative.periods('2026-02-10', 'month', 3).map((period) => [period.label, period.startDate, period.endDate])).toEqual([
+      ['2025-12', '2025-12-01', '2025-12-31'],
+      ['2026-01', '2026-01-01', '2026-01-31'],
+      ['2026-02', '2026-02-01', '2026-02-28'],
+    ]);
+    expect(Comparative.periods('2026-05-20', 'quarter', 2).map((period) => period.label)).toEqual(['2026-Q1', '2026-Q2']);
+    expect(Comparative.periods('2026-05-20', 'year', 2)[0]).toEqual({ label: '2025', startDate: '2025-01-01', endDate: '2025-12-31' });
+    expect(Comparative.trailingTwelveMonths('2026-02-10')).toEqual({ label: 'TTM', startDate: '2025-03-01', endDate: '2026-02-28' });
+  });
+
+  it('measures variance against the size of the previous amount', () => {
+    expect(Comparative.variance(150, 100)).toEqual({ absoluteCents: 50, percent: 50 });
+    expect(Comparative.variance(-50, -100)).toEqual({ absoluteCents: 50, percent: 50 });
+    expect(Comparative.variance(100, 0)).toEqual({ absoluteCents: 100, percent: null });
+  });
+});
+
+describe('comparative statement selectors', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useCurrencyStore.setState({ baseCurrency: 'MXN' });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    const ledger = useLedgerStore.getState();
+    ledger.initializeDefaultAccounts();
+
+    const mxn = (amount: number) => Money.fromMajorUnits(amount, 'MXN');
+    useLedgerStore.setState({
+      transactions: [
+        CommonTransactions.salary('checking', 'salary', mxn(20000), 'MXN', new Date(2026, 0, 15)),
+        CommonTransactions.salary('checking', 'salary', mxn(25000), 'MXN', new Date(2026, 1, 15)),
+        CommonTransactions.expense('food', 'checking', mxn(4000), 'MXN', 'Groceries', new Date(2026, 1, 20)),
+      ],
+    });
+  });
+
+  it('lays out income and expenses per month with variance and trailing-twelve-month totals', () => {
+    const statement = getComparativeIncomeStatement('2026-02-28', 'month', 2);
+
+    expect(statement.periods.map((period) => period.label)).toEqual(['2026-01', '2026-02']);
+    expect(statement.income.lines).toEqual([
+      expect.objectContaining({
+        accountId: 'salary',
+        amounts: [20000_00, 25000_00],
+        variances: [null, { absoluteCents: 5000_00, percent: 25 }],
+        ttmCents: 45000_00,
+      }),
+    ]);
+    expect(statement.expenses.lines.map((line) => line.accountId)).toEqual(['food']);
+    expect(statement.netIncome.amounts).toEqual([20000_00, 21000_00]);
+    expect(statement.netIncome.ttmCents).toBe(41000_00);
+  });
+
+  it('compares balances as of each period end', () => {
+    const sheet = getComparativeBalanceSheet('2026-02-28', 'month', 2);
+
+    expect(sheet.assets.lines.map((line) => [line.accountId, line.amounts])).toEqual([['checking', [20000_00, 41000_00]]]);
+    expect(sheet.netWorth.variances[1]).toEqual({ absoluteCents: 21000_00, percent: 105 });
+  });
+});
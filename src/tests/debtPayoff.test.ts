@@ -0,0 +1,95 @@
+import './setupLocalStorage';
+
+import { describe, it, expect } from 'vitest';
+import { DebtPayoff, type PayoffDebt } from '../domain/debtPayoff';
+import { useAccountStore } from '../stores/accountStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { getPayoffDebts } from '../selectors/finance';
+import { exportPayoffScheduleToCSV } from '../utils/csv';
+
+const debt = (id: string, balance: number, annualRate: number, minimum: number): PayoffDebt => ({
+  id,
+  name: id.toUpperCase(),
+  balanceCents: balance * 100,
+  annualRate,
+  minimumCents: minimum * 100,
+});
+
+describe('DebtPayoff', () => {
+  it('orders debts by rate for avalanche and by balance for snowball', () => {
+    const debts = [debt('x', 5000, 25, 100), debt('y', 500, 10, 25), debt('z', 2000, 25, 50)];
+
+    expect(DebtPayoff.order(debts, 'avalanche')).toEqual(['z', 'x', 'y']);
+    expect(DebtPayoff.order(debts, 'snowball')).toEqual(['y', 'z', 'x']);
+    expect(DebtPayoff.order(debts, 'custom', ['y', 'gone'])).toEqual(['y', 'z', 'x']);
+  });
+
+  it('rolls the budget left after minimums onto the current target', () => {
+    const plan = DebtPayoff.plan([debt('a', 1000, 0, 100), debt('b', 300, 0, 50)], 250_00, 'snowball', '2026-11');
+
+    expect(plan.months.map((month) => month.payments.map((payment) => [payment.debtId, payment.paymentCents, payment.balanceCents])))
+      .toEqual([
+        [['b', 150_00, 150_00], ['a', 100_00, 900_00]],
+        [['b', 150_00, 0], ['a', 100_00, 800_00]],
+        [['a', 250_00, 550_00]],
+        [['a', 250_00, 300_00]],
+        [['a', 250_00, 50_00]],
+        [['a', 50_00, 0]],
+      ]);
+    expect(plan.debts.map((item) => [item.debtId, item.payoffMonth, item.payoffPeriod])).toEqual([
+      ['b', 2, '2026-12'],
+      ['a', 6, '2027-04'],
+    ]);
+    expect(plan).toMatchObject({ totalPaidCents: 1300_00, totalInterestCents: 0, payoffPeriod: '2027-04', isComplete: true });
+  });
+
+  it('costs less interest paying the highest rate first', () => {
+    const debts = [debt('card', 5000, 30, 150), debt('loan', 1000, 5, 50)];
+    const avalanche = DebtPayoff.plan(debts, 600_00, 'avalanche', '2026-01');
+    const snowball = DebtPayoff.plan(debts, 600_00, 'snowball', '2026-01');
+
+    expect(avalanche.months[0].payments[0]).toMatchObject({ debtId: 'card', interestCents: 125_00 });
+    expect(avalanche.isComplete && snowball.isComplete).toBe(true);
+    expect(avalanche.totalInterestCents).toBeLessThan(snowball.totalInterestCents);
+  });
+
+  it('flags budgets that cannot pay off the debts', () => {
+    expect(DebtPayoff.validate([], 100_00)).toBe('There are no debts to pay off');
+    expect(DebtPayoff.validate([debt('a', 1000, 10, 100), debt('b', 500, 10, 50)], 120_00))
+      .toBe('The monthly budget must cover every minimum payment');
+
+    const plan = DebtPayoff.plan([debt('a', 10000, 60, 100)], 100_00, 'avalanche', '2026-01');
+    expect(plan).toMatchObject({ isComplete: false, payoffPeriod: null });
+    expect(plan.debts[0].payoffMonth).toBeNull();
+  });
+
+  it('exports the schedule one row per debt and month', () => {
+    const plan = DebtPayoff.plan([debt('a', 150, 0, 100)], 100_00, 'avalanche', '2026-01');
+    expect(exportPayoffScheduleToCSV(plan).split('\n')).toEqual([
+      'month,period,debt,payment,interest,balance',
+      '1,2026-01,A,100.00,0.00,50.00',
+      '2,2026-02,A,50.00,0.00,0.00',
+    ]);
+  });
+});
+
+describe('payoff debts from net worth accounts', () => {
+  it('reads liabilities in the base currency with rates and minimums from their terms', () => {
+    useCurrencyStore.setState({ baseCurrency: 'MXN', exchangeRates: { MXN: 1, USD: 0.05 } });
+    useAccountStore.setState({
+      accounts: [
+        { id: 'car', name: 'Car loan', type: 'loan', currency: 'MXN', balance: -100000,
+          loanTerms: { principal: 100000, annualRate: 12, termMonths: 12, startDate: '2026-01-15' } },
+        { id: 'amex', name: 'Amex', type: 'credit-card', currency: 'USD', balance: -500, minMonthlyPayment: 25,
+          cardTerms: { closingDay: 5, graceDays: 20, apr: 40, minPaymentPercent: 5 } },
+        { id: 'old', name: 'Old card', type: 'credit-card', currency: 'MXN', balance: -300, excludeFromTotal: true },
+        { id: 'bank', name: 'Checking', type: 'bank', currency: 'MXN', balance: 5000 },
+      ],
+    });
+
+    expect(getPayoffDebts()).toEqual([
+      { id: 'car', name: 'Car loan', balanceCents: 100000_00, annualRate: 12, minimumCents: 8884_88 },
+      { id: 'amex', name: 'Amex', balanceCents: 10000_00, annualRate: 40, minimumCents: 500_00 },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeDescription,
+  descriptionSimilarity,
+  isLikelyDuplicate,
+  findDuplicate,
+  findDuplicateGroups,
+  partitionDuplicates,
+  expenseToCandidate,
+  incomeToCandidate,
+} from '../utils/duplicates';
+
+const entry = (date: string, description: string, amount = 85, currency = 'MXN') => ({
+  date,
+  description,
+  amount,
+  currency,
+});
+
+describe('duplicates', () => {
+  describe('descriptionSimilarity', () => {
+    it('ignores case, accents, punctuation and numeric tokens', () => {
+      expect(normalizeDescription('CAFÉ #123, Centro')).toBe('cafe centro');
+      expect(descriptionSimilarity('Café Centro', 'CAFE CENTRO 0042')).toBe(1);
+    });
+
+    it('tolerates typos, spacing and extra words', () => {
+      expect(descriptionSimilarity('Starbucks', 'STARBUCKS #123 CARD PURCHASE')).toBe(1);
+      expect(descriptionSimilarity('MercadoLibre', 'Mercado Libre')).toBe(1);
+      expect(descriptionSimilarity('Amazn Prime', 'Amazon Prime')).toBeGreaterThan(0.75);
+      expect(descriptionSimilarity('Uber', 'Rent')).toBeLessThan(0.5);
+    });
+  });
+
+  describe('isLikelyDuplicate', () => {
+    it('requires same amount and currency within the date tolerance', () => {
+      const base = entry('2025-01-05', 'Starbucks');
+
+      expect(isLikelyDuplicate(base, entry('2025-01-07', 'STARBUCKS 123'))).toBe(true);
+      expect(isLikelyDuplicate(base, entry('2025-01-08', 'Starbucks'))).toBe(false);
+      expect(isLikelyDuplicate(base, entry('2025-01-05', 'Starbucks', 86))).toBe(false);
+      expect(isLikelyDuplicate(base, entry('2025-01-05', 'Starbucks', 85, 'USD'))).toBe(false);
+      expect(isLikelyDuplicate(base, entry('2025-01-05', 'Oxxo'))).toBe(false);
+    });
+
+    it('honors custom tolerances', () => {
+      expect(isLikelyDuplicate(entry('2025-01-05', 'Gym'), entry('2025-01-09', 'Gym'), { dateToleranceDays: 5 })).toBe(true);
+    });
+  });
+
+  describe('findDuplicate', () => {
+    it('maps entries through the candidate function', () => {
+      const expenses = [
+        { id: 'e1', what: 'Rent', amount: 10000, currency: 'MXN', date: '2025-01-01' },
+        { id: 'e2', what: 'Starbucks', amount: 85, currency: 'MXN', date: '2025-01-05' },
+      ];
+
+      const match = findDuplicate(incomeToCandidate({ source: 'starbucks', amount: 85, currency: 'mxn', date: '2025-01-04' }), expenses, expenseToCandidate);
+
+      expect(match?.id).toBe('e2');
+    });
+  });
+
+  describe('findDuplicateGroups', () => {
+    it('groups duplicates oldest first and lists the newest groups first', () => {
+      const groups = findDuplicateGroups(
+        [
+          { ...entry('2025-01-06', 'STARBUCKS #1'), id: 'a' },
+          { ...entry('2025-03-01', 'Gym', 500), id: 'b' },
+          { ...entry('2025-01-05', 'Starbucks'), id: 'c' },
+          { ...entry('2025-03-01', 'GYM MEMBERSHIP', 500), id: 'd' },
+          { ...entry('2025-02-05', 'Starbucks'), id: 'e' },
+        ],
+        (item) => item
+      );
+
+      expect(groups.map((group) => group.map((item) => item.id))).toEqual([['b', 'd'], ['c', 'a']]);
+    });
+  });
+
+  describe('partitionDuplicates', () => {
+    it('separates rows that repeat existing entries or earlier rows in the batch', () => {
+      const batch = [
+        entry('2025-01-05', 'Starbucks'),
+        entry('2025-01-10', 'Uber', 120),
+        entry('2025-01-10', 'UBER TRIP', 120),
+      ];
+
+      const { unique, duplicates } = partitionDuplicates(batch, [entry('2025-01-04', 'STARBUCKS')], (item) => item);
+
+      expect(unique).toEqual([batch[1]]);
+      expect(duplicates).toEqual([batch[0], batch[2]]);
+    });
+  });
+});
@@ -435,4 +435,34 @@ describe('expenseStore', () => {
       expect(expenses[0].amount).toBe(9.99);
     });
   });
+
+  describe('bulkImport', () => {
+    it('inserts every row unless asked to skip duplicates', async () => {
+      await useExpenseStore.getState().addExpense({
+        what: 'Starbucks', amount: 85, currency: 'MXN', rating: 'discretionary', date: '2025-01-05',
+      });
+
+      const imported = await useExpenseStore.getState().bulkImport([
+        { what: 'STARBUCKS #123', amount: 85, currency: 'MXN', rating: 'discretionary', date: '2025-01-06' },
+      ]);
+
+      expect(imported.map((e) => e.what)).toEqual(['STARBUCKS #123']);
+      expect(useExpenseStore.getState().expenses).toHaveLength(2);
+    });
+
+    it('skips rows that duplicate existing expenses or earlier rows when skipDuplicates is set', async () => {
+      await useExpenseStore.getState().addExpense({
+        what: 'Starbucks', amount: 85, currency: 'MXN', rating: 'discretionary', date: '2025-01-05',
+      });
+
+      const imported = await useExpenseStore.getState().bulkImport([
+        { what: 'STARBUCKS #123', amount: 85, currency: 'MXN', rating: 'discretionary', date: '2025-01-06' },
+        { what: 'Rent', amount: 10000, currency: 'MXN', rating: 'essential', date: '2025-01-01' },
+        { what: 'Rent', amount: 10000, currency: 'MXN', rating: 'essential', date: '2025-01-01' },
+      ], { skipDuplicates: true });
+
+      expect(imported.map((e) => e.what)).toEqual(['Rent']);
+      expect(useExpenseStore.getState().expenses).toHaveLength(2);
+    });
+  });
 });
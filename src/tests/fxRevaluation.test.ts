@@ -0,0 +1,78 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FxRevaluation } from '../domain/fxRevaluation';
+import { TransactionBuilder } from '../domain/ledger';
+import { Money } from '../domain/money';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { usePeriodStore } from '../stores/periodStore';
+
+describe('FxRevaluation', () => {
+  it('restates foreign balances and offsets the net to the gain/loss account', () => {
+    const balances = FxRevaluation.balances([
+      { accountId: 'savings', currency: 'USD', isDebit: true, amountCents: 100_00, bookedCents: 1_700_00 },
+      { accountId: 'savings', currency: 'USD', isDebit: false, amountCents: 20_00, bookedCents: 340_00 },
+      { accountId: 'card', currency: 'USD', isDebit: false, amountCents: 50_00, bookedCents: 850_00 },
+      { accountId: 'checking', currency: 'MXN', isDebit: true, amountCents: 500_00, bookedCents: 500_00 },
+    ], 'MXN');
+    expect(balances).toEqual([
+      { accountId: 'savings', currency: 'USD', balanceCents: 80_00, bookedBalanceCents: 1_360_00 },
+      { accountId: 'card', currency: 'USD', balanceCents: -50_00, bookedBalanceCents: -850_00 },
+    ]);
+
+    const lines = FxRevaluation.revalue(balances, { USD: 18 });
+    expect(lines.map((line) => line.adjustmentCents)).toEqual([80_00, -50_00]);
+    expect(FxRevaluation.totalAdjustment(lines)).toBe(30_00);
+
+    expect(FxRevaluation.toPostings(lines, 'fx-gain', 'MXN')).toEqual([
+      { accountId: 'savings', currency: 'USD', isDebit: true, amountCents: 0, bookedCents: 80_00 },
+      { accountId: 'card', currency: 'USD', isDebit: false, amountCents: 0, bookedCents: 50_00 },
+      { accountId: 'fx-gain', currency: 'MXN', isDebit: false, amountCents: 30_00, bookedCents: 30_00 },
+    ]);
+  });
+
+  it('skips currencies without a rate and has nothing to post when already current', () => {
+    const balances = [{ accountId: 'savings', currency: 'EUR', balanceCents: 10_00, bookedBalanceCents: 200_00 }];
+    expect(FxRevaluation.revalue(balances, {})).toEqual([]);
+    expect(FxRevaluation.toPostings(FxRevaluation.revalue(balances, { EUR: 20 }), 'fx-gain', 'MXN')).toEqual([]);
+  });
+});
+
+describe('ledger store FX revaluation', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    usePeriodStore.setState({ closes: [], events: [] });
+    useCurrencyStore.setState({ baseCurrency: 'MXN', exchangeRates: { MXN: 1, USD: 0.05 } });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+
+    // 100 USD deposited at 17 MXN; the store's rate is now 20
+    const deposit = new TransactionBuilder('USD deposit', 'MXN', new Date(2026, 2, 1))
+      .debit('savings', Money.fromMajorUnits(100, 'USD'), Money.fromMajorUnits(1700, 'MXN'), 17)
+      .credit('salary', Money.fromMajorUnits(1700, 'MXN'), Money.fromMajorUnits(1700, 'MXN'))
+      .build();
+    useLedgerStore.setState({ transactions: [deposit] });
+  });
+
+  it('previews, then posts the unrealized gain so a second run finds nothing to adjust', async () => {
+    const { revalueForeignBalances } = useLedgerStore.getState();
+
+    const preview = await revalueForeignBalances('2026-03-31', 'fx-gain', true);
+    expect(preview.totalAdjustmentCents).toBe(300_00);
+    expect(preview.transactionId).toBeNull();
+    expect(useLedgerStore.getState().transactions).toHaveLength(1);
+
+    const posted = await revalueForeignBalances('2026-03-31', 'fx-gain');
+    expect(posted.transactionId).not.toBeNull();
+    expect(useLedgerStore.getState().getAccountBalance('savings').getAmountMinor()).toBe(2000_00);
+
+    const again = await revalueForeignBalances('2026-03-31', 'fx-gain', true);
+    expect(again.totalAdjustmentCents).toBe(0);
+  });
+
+  it('rejects a gain/loss account that is not income or equity', async () => {
+    await expect(useLedgerStore.getState().revalueForeignBalances('2026-03-31', 'checking'))
+      .rejects.toThrow('FX gain/loss account must be an income or equity account');
+  });
+});
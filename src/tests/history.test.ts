@@ -0,0 +1,109 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecordHistory, type HistoryEntry } from '../domain/history';
+import { useHistoryStore } from '../stores/historyStore';
+import { useExpenseStore } from '../stores/expenseStore';
+import { useAccountStore } from '../stores/accountStore';
+import type { Expense } from '../types';
+
+const entry = (id: string, changes: HistoryEntry['changes']): HistoryEntry => ({
+  id,
+  table: 'expenses',
+  recordId: 'e1',
+  changedBy: null,
+  changedAt: '2026-03-01T10:00:00.000Z',
+  changes,
+});
+
+const groceries: Expense = {
+  id: 'e1',
+  what: 'Groceries',
+  amount: 450,
+  currency: 'MXN',
+  rating: 'essential',
+  date: '2026-03-10',
+  created_at: '2026-03-10T12:00:00.000Z',
+};
+
+describe('RecordHistory', () => {
+  it('lists changed fields and skips bookkeeping ones', () => {
+    expect(RecordHistory.diff(
+      { what: 'Groceries', amount: 450, category: undefined, lastUpdated: '2026-03-01' },
+      { what: 'Groceries', amount: 500, category: 'Food', lastUpdated: '2026-03-02' }
+    )).toEqual([
+      { field: 'amount', before: 450, after: 500 },
+      { field: 'category', before: null, after: 'Food' },
+    ]);
+  });
+
+  it('reads trigger changes by field name', () => {
+    expect(RecordHistory.fromColumns({
+      payment_to_avoid_interest: { before: null, after: 2500 },
+      updated_at: { before: 'a', after: 'b' },
+    })).toEqual([{ field: 'paymentToAvoidInterest', before: null, after: 2500 }]);
+  });
+
+  it('lists only the postings an edit changed', () => {
+    const food = { id: 'p1', accountId: 'food', amountCents: 450_00, isDebit: true };
+    const card = { id: 'p2', accountId: 'card', amountCents: 450_00, isDebit: false };
+
+    expect(RecordHistory.diff(
+      { description: 'Market', postings: [food, card] },
+      { description: 'Market', postings: [{ ...food, accountId: 'dining' }, card] }
+    )).toEqual([{ field: 'postings', before: [food], after: [{ ...food, accountId: 'dining' }] }]);
+
+    expect(RecordHistory.fromColumns({
+      postings: { before: [{ id: 'p1', account_id: 'food', amount_cents: 45000 }], after: [] },
+    })).toEqual([{ field: 'postings', before: [{ id: 'p1', accountId: 'food', amountCents: 45000 }], after: [] }]);
+    expect(RecordHistory.restorePatch([entry('h1', [{ field: 'postings', before: [food], after: [] }])], 'h1')).toEqual({});
+  });
+
+  it('restores the values from before an edit, undoing every later one', () => {
+    const history = [
+      entry('h3', [{ field: 'amount', before: 500, after: 520 }]),
+      entry('h2', [{ field: 'amount', before: 450, after: 500 }, { field: 'what', before: 'Groceries', after: 'Market' }]),
+      entry('h1', [{ field: 'category', before: null, after: 'Food' }]),
+    ];
+
+    expect(RecordHistory.restorePatch(history, 'h3')).toEqual({ amount: 500 });
+    expect(RecordHistory.restorePatch(history, 'h2')).toEqual({ amount: 450, what: 'Groceries' });
+    expect(RecordHistory.restorePatch(history, 'h1')).toEqual({ amount: 450, what: 'Groceries', category: null });
+    expect(RecordHistory.restorePatch(history, 'missing')).toBeNull();
+  });
+});
+
+describe('local edit history', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useHistoryStore.setState({ entries: [] });
+    useExpenseStore.setState({ expenses: [groceries] });
+    useAccountStore.setState({
+      accounts: [{ id: 'nw-1', name: 'Savings', type: 'bank', currency: 'MXN', balance: 1000 }],
+    });
+  });
+
+  it('records each expense edit and restores an earlier version', async () => {
+    await useExpenseStore.getState().updateExpense('e1', { amount: 500 });
+    await useExpenseStore.getState().updateExpense('e1', { what: 'Market', category: 'Food' });
+
+    const history = useHistoryStore.getState().getHistory('expenses', 'e1');
+    expect(history.map((item) => item.changes.map((change) => change.field))).toEqual([['category', 'what'], ['amount']]);
+
+    await useExpenseStore.getState().updateExpense('e1', RecordHistory.restorePatch(history, history[1].id)!);
+
+    expect(useExpenseStore.getState().expenses[0]).toMatchObject({ what: 'Groceries', amount: 450 });
+    expect(useHistoryStore.getState().getHistory('expenses', 'e1')).toHaveLength(3);
+  });
+
+  it('records net worth account edits without the last-updated stamp', async () => {
+    await useAccountStore.getState().updateAccount('nw-1', { balance: 1200 });
+    await useAccountStore.getState().toggleExcludeFromTotal('nw-1');
+
+    const history = useHistoryStore.getState().getHistory('net_worth_accounts', 'nw-1');
+    expect(history.map((item) => item.changes)).toEqual([
+      [{ field: 'excludeFromTotal', before: null, after: true }],
+      [{ field: 'balance', before: 1000, after: 1200 }],
+    ]);
+  });
+});
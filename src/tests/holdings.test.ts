@@ -0,0 +1,125 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Holdings, type TradeInput } from '../domain/holdings';
+import { useHoldingStore } from '../stores/holdingStore';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useAccountStore } from '../stores/accountStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { usePeriodStore } from '../stores/periodStore';
+import { useHistoryStore } from '../stores/historyStore';
+import { getHoldingValuations } from '../selectors/finance';
+import { parsePriceCSV } from '../utils/csv';
+
+const buy = (date: string, quantity: number, price: number, fees = 0): TradeInput =>
+  ({ symbol: 'VOO', kind: 'buy', date, quantity, price, fees, amount: 0 });
+const sell = (date: string, quantity: number, price: number, fees = 0): TradeInput =>
+  ({ symbol: 'VOO', kind: 'sell', date, quantity, price, fees, amount: 0 });
+
+describe('Holdings', () => {
+  const trades = [buy('2026-01-10', 10, 100, 5), buy('2026-02-10', 10, 130), sell('2026-03-10', 15, 150, 10)];
+
+  it('takes cost out of sales lot by lot under FIFO', () => {
+    const [position] = Holdings.positions(trades, 'fifo');
+    expect(position).toMatchObject({
+      quantity: 5,
+      costBasisCents: 650_00,
+      lots: [{ date: '2026-02-10', quantity: 5, costCents: 650_00 }],
+      // 2240 proceeds less 1005 for the first lot and 650 for half the second
+      realizedGainCents: 585_00,
+    });
+  });
+
+  it('takes cost out at the pooled average under average cost', () => {
+    const [position] = Holdings.positions(trades, 'average');
+    expect(position).toMatchObject({ quantity: 5, costBasisCents: 576_25, realizedGainCents: 511_25 });
+    expect(Holdings.effect(trades.slice(0, 2), trades[2], 'average'))
+      .toEqual({ cashCents: 2240_00, basisCents: 1728_75, gainCents: 511_25, incomeCents: 0 });
+  });
+
+  it('rejects sales of more than is held at the time', () => {
+    expect(Holdings.validateSequence([buy('2026-02-01', 1, 10), sell('2026-01-15', 1, 12)]))
+      .toBe('Cannot sell 1 VOO on 2026-01-15; only 0 held');
+    expect(Holdings.validateSequence([buy('2026-01-01', 0.1, 10), buy('2026-01-02', 0.2, 10), sell('2026-01-03', 0.3, 12)]))
+      .toBeNull();
+    expect(Holdings.lockingSale(trades, buy('2026-01-20', 1, 120))).toBe(trades[2]);
+    expect(Holdings.lockingSale(trades, buy('2026-04-01', 1, 120))).toBeNull();
+  });
+
+  it('values positions with the latest price on or before the date', () => {
+    const [position] = Holdings.positions(trades, 'fifo');
+    const prices = [
+      { symbol: 'VOO', date: '2026-03-31', price: 160 },
+      { symbol: 'VOO', date: '2026-04-30', price: 170 },
+    ];
+    expect(Holdings.value(position, Holdings.latestPrice(prices, 'VOO', '2026-04-15')))
+      .toMatchObject({ marketValueCents: 800_00, unrealizedGainCents: 150_00 });
+    expect(Holdings.value(position, Holdings.latestPrice(prices, 'VOO', '2026-03-01')))
+      .toMatchObject({ price: null, marketValueCents: null, unrealizedGainCents: null });
+  });
+
+  it('reads prices from CSV and reports bad rows', () => {
+    expect(parsePriceCSV('symbol,date,price\nvoo,2026-03-31,"1,160.50"\nBTC,2026-03-31,n/a')).toEqual({
+      data: [{ symbol: 'voo', date: '2026-03-31', price: 1160.5 }],
+      errors: ["Row 3: Invalid price 'n/a'"],
+    });
+  });
+});
+
+describe('posting trades', () => {
+  const balanceOf = (code: string) => {
+    const ledger = useLedgerStore.getState();
+    const account = ledger.accounts.find((item) => item.code === code)!;
+    return ledger.getAccountBalance(account.id).getAmountMajor();
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    usePeriodStore.setState({ closes: [] });
+    useHistoryStore.setState({ entries: [] });
+    useCurrencyStore.setState({ baseCurrency: 'MXN', exchangeRates: { MXN: 1 } });
+    useAccountStore.setState({
+      accounts: [{ id: 'nw-broker', name: 'Broker', type: 'investment', currency: 'MXN', balance: 0 }],
+    });
+    useHoldingStore.setState({ trades: [], prices: [] });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('carries positions at cost and books gains, losses and dividends', async () => {
+    const { addTrade } = useHoldingStore.getState();
+    await addTrade('nw-broker', { symbol: 'voo', kind: 'buy', date: '2026-01-10', quantity: 10, price: 100, fees: 5 }, 'checking');
+    await addTrade('nw-broker', { symbol: 'VOO', kind: 'sell', date: '2026-02-10', quantity: 4, price: 120 }, 'checking');
+    await addTrade('nw-broker', { symbol: 'VOO', kind: 'sell', date: '2026-03-10', quantity: 2, price: 90 }, 'checking');
+    await addTrade('nw-broker', { symbol: 'VOO', kind: 'dividend', date: '2026-03-20', quantity: 0, price: 0, amount: 12 }, 'checking');
+
+    const linked = useAccountStore.getState().accounts[0].ledgerAccountId!;
+    const ledger = useLedgerStore.getState();
+    // 1005 bought, 402 and 201 of cost sold
+    expect(ledger.getAccountBalance(linked).getAmountMajor()).toBe(402);
+    expect(balanceOf('1002')).toBe(-1005 + 480 + 180 + 12);
+    expect(balanceOf('4100')).toBe(78);
+    expect(balanceOf('5810')).toBe(21);
+    expect(balanceOf('4003')).toBe(12);
+
+    await expect(addTrade('nw-broker', { symbol: 'VOO', kind: 'buy', date: '2026-02-01', quantity: 1, price: 100 }, 'checking'))
+      .rejects.toThrow('A later sale of VOO on 2026-03-10 depends on this position; delete it first');
+    await expect(useHoldingStore.getState().setCostBasisMethod('nw-broker', 'average'))
+      .rejects.toThrow('The cost basis method cannot change after a sale has been recorded');
+  });
+
+  it('voids the entry when a trade is deleted and values what is left', async () => {
+    const { addTrade, deleteTrade, savePrices } = useHoldingStore.getState();
+    await addTrade('nw-broker', { symbol: 'BTC', kind: 'buy', date: '2026-01-10', quantity: 0.5, price: 1000000 }, 'checking');
+    const second = await addTrade('nw-broker', { symbol: 'BTC', kind: 'buy', date: '2026-01-20', quantity: 0.25, price: 1200000 }, 'checking');
+
+    await deleteTrade(second.id);
+    expect(useLedgerStore.getState().transactions.find((tx) => tx.id === second.transactionId)?.status).toBe('voided');
+    expect(balanceOf('1002')).toBe(-500000);
+
+    expect(await savePrices([{ symbol: 'btc', date: '2026-02-01', price: 1100000 }], 'MXN')).toBe(1);
+    expect(getHoldingValuations('nw-broker', '2026-02-15')).toMatchObject([
+      { symbol: 'BTC', quantity: 0.5, costBasisCents: 500000_00, marketValueCents: 550000_00, unrealizedGainCents: 50000_00 },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { JournalEntry } from '../domain/journal';
+import type { JournalEntryDraft } from '../domain/journal';
+import { Money } from '../domain/money';
+import { useLedgerStore } from '../stores/ledgerStore';
+
+const makeDraft = (overrides: Partial<JournalEntryDraft> = {}): JournalEntryDraft => ({
+  date: new Date(2026, 2, 10),
+  description: 'Pay rent from savings',
+  baseCurrency: 'MXN',
+  lines: [
+    { accountId: 'housing', side: 'debit', amount: 12000, currency: 'MXN' },
+    { accountId: 'savings', side: 'credit', amount: 12000, currency: 'MXN' },
+  ],
+  ...overrides,
+});
+
+describe('JournalEntry', () => {
+  it('balances lines on their booked amounts', () => {
+    const lines = [
+      { accountId: 'shopping', side: 'debit' as const, amount: 100, currency: 'USD', exchangeRate: 17.5 },
+      { accountId: 'credit-card', side: 'credit' as const, amount: 1750, currency: 'MXN' },
+    ];
+
+    const balance = JournalEntry.balance(lines, 'MXN');
+    expect(balance.isBalanced).toBe(true);
+    expect(balance.debits.toMajorUnits()).toBe(1750);
+
+    const unbalanced = JournalEntry.balance([lines[0], { ...lines[1], amount: 1700 }], 'MXN');
+    expect(unbalanced.isBalanced).toBe(false);
+    expect(unbalanced.difference.toMajorUnits()).toBe(50);
+  });
+
+  it('reports what is wrong with a draft', () => {
+    expect(JournalEntry.validate(makeDraft())).toEqual([]);
+
+    const errors = JournalEntry.validate(makeDraft({
+      description: ' ',
+      lines: [
+        { accountId: '', side: 'debit', amount: 0, currency: 'MXN' },
+        { accountId: 'savings', side: 'credit', amount: 10, currency: 'USD' },
+      ],
+    }));
+    expect(errors).toEqual([
+      'Description is required',
+      'Line 1 needs an account',
+      'Line 1 needs a positive amount',
+      'Line 2 needs an exchange rate to MXN',
+    ]);
+
+    const unbalanced = makeDraft();
+    unbalanced.lines[1] = { ...unbalanced.lines[1], amount: 11000 };
+    expect(JournalEntry.validate(unbalanced).join(' ')).toMatch(/balance/i);
+  });
+
+  it('builds a transaction keeping original and booked amounts', () => {
+    const transaction = JournalEntry.toTransaction(makeDraft({
+      memo: 'March',
+      reference: 'INV-42',
+      tags: ['rent'],
+      lines: [
+        { accountId: 'housing', side: 'debit', amount: 500, currency: 'USD', exchangeRate: 17 },
+        { accountId: 'savings', side: 'credit', amount: 8500, currency: 'MXN' },
+      ],
+    }));
+
+    expect(transaction).toMatchObject({ memo: 'March', reference: 'INV-42', tags: ['rent'], transactionType: 'adjustment' });
+    const [debit, credit] = transaction.postings;
+    expect(debit.originalDebitAmount?.getCurrency()).toBe('USD');
+    expect(debit.bookedDebitAmount?.toMajorUnits()).toBe(8500);
+    expect(debit.exchangeRate).toBe(17);
+    expect(credit.exchangeRate).toBeUndefined();
+  });
+});
+
+describe('journal entries in the ledger store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('posts a journal entry and filters the journal by type and account', async () => {
+    const { addJournalEntry, addExpenseTransaction } = useLedgerStore.getState();
+    await addJournalEntry(makeDraft({ transactionType: 'transfer' }));
+    addExpenseTransaction('Lunch', Money.fromMajorUnits(200, 'MXN'), 'food', 'cash', new Date(2026, 2, 11));
+
+    const { getTransactions } = useLedgerStore.getState();
+    expect(getTransactions()).toHaveLength(2);
+    expect(getTransactions({ type: 'transfer' }).map((tx) => tx.description)).toEqual(['Pay rent from savings']);
+    expect(getTransactions({ accountIds: ['food'] }).map((tx) => tx.description)).toEqual(['Lunch']);
+  });
+
+  it('rejects an unbalanced entry without posting it', async () => {
+    const draft = makeDraft();
+    draft.lines[1] = { ...draft.lines[1], amount: 100 };
+
+    await expect(useLedgerStore.getState().addJournalEntry(draft)).rejects.toThrow('Invalid journal entry');
+    expect(useLedgerStore.getState().transactions).toHaveLength(0);
+  });
+});
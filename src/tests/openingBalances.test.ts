@@ -0,0 +1,112 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { OpeningBalances } from '../domain/openingBalances';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useAccountStore } from '../stores/accountStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { usePeriodStore } from '../stores/periodStore';
+import { getOpeningBalanceCheck } from '../selectors/finance';
+import type { Account } from '../types';
+
+const netWorthAccounts: Account[] = [
+  { id: 'nw-bank', name: 'BBVA Checking', type: 'bank', currency: 'MXN', balance: 50000 },
+  { id: 'nw-usd', name: 'Wise USD', type: 'bank', currency: 'USD', balance: 1000 },
+  { id: 'nw-card', name: 'Amex', type: 'credit-card', currency: 'MXN', balance: -8000 },
+  { id: 'nw-empty', name: 'Old wallet', type: 'cash', currency: 'MXN', balance: 0 },
+];
+
+describe('OpeningBalances', () => {
+  it('picks the next free code in the nature range', () => {
+    expect(OpeningBalances.nextCode(['1001', '1002', '1200', '2001'], 'asset')).toBe('1003');
+    expect(OpeningBalances.nextCode(['1001', '2001', '2002'], 'liability')).toBe('2003');
+  });
+
+  it('puts each balance on its normal side and the difference in equity', () => {
+    const lines = OpeningBalances.toJournalLines([
+      { ledgerAccountId: 'bank', nature: 'asset', balanceCents: 500_00, currency: 'MXN' },
+      { ledgerAccountId: 'usd', nature: 'asset', balanceCents: 10_00, currency: 'USD', exchangeRate: 20 },
+      { ledgerAccountId: 'card', nature: 'liability', balanceCents: -150_00, currency: 'MXN' },
+      { ledgerAccountId: 'empty', nature: 'asset', balanceCents: 0, currency: 'MXN' },
+    ], 'equity', 'MXN');
+
+    expect(lines).toEqual([
+      { accountId: 'bank', side: 'debit', amount: 500, currency: 'MXN', exchangeRate: undefined },
+      { accountId: 'usd', side: 'debit', amount: 10, currency: 'USD', exchangeRate: 20 },
+      { accountId: 'card', side: 'credit', amount: 150, currency: 'MXN', exchangeRate: undefined },
+      { accountId: 'equity', side: 'credit', amount: 550, currency: 'MXN' },
+    ]);
+  });
+
+  it('reports unlinked, matching and diverging accounts, largest gap first', () => {
+    const ledger: Record<string, number> = { 'l-bank': 500_00, 'l-card': 120_00 };
+    const lines = OpeningBalances.compare([
+      { id: 'bank', name: 'Bank', type: 'bank', currency: 'MXN', balanceCents: 500_00, ledgerAccountId: 'l-bank' },
+      { id: 'card', name: 'Card', type: 'credit-card', currency: 'MXN', balanceCents: -150_00, ledgerAccountId: 'l-card' },
+      { id: 'house', name: 'House', type: 'property', currency: 'MXN', balanceCents: 10_00 },
+    ], (id) => ledger[id] ?? null);
+
+    expect(lines.map((line) => [line.accountId, line.status, line.differenceCents])).toEqual([
+      ['card', 'diverged', 30_00],
+      ['house', 'unlinked', 10_00],
+      ['bank', 'matched', 0],
+    ]);
+  });
+});
+
+describe('posting opening balances', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    usePeriodStore.setState({ closes: [] });
+    useCurrencyStore.setState({ baseCurrency: 'MXN', exchangeRates: { MXN: 1, USD: 0.05 } });
+    useAccountStore.setState({ accounts: netWorthAccounts });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('creates and links ledger accounts and balances the entry against equity', async () => {
+    const entry = await useLedgerStore.getState().postOpeningBalances('2026-01-01', ['nw-bank', 'nw-usd', 'nw-card', 'nw-empty']);
+
+    const { accounts, getAccountBalance } = useLedgerStore.getState();
+    const linked = Object.fromEntries(useAccountStore.getState().accounts.map((account) => [account.id, account.ledgerAccountId]));
+    const byId = (id?: string) => accounts.find((account) => account.id === id);
+
+    expect(byId(linked['nw-bank'])).toMatchObject({ code: '1004', name: 'BBVA Checking', nature: 'asset' });
+    expect(byId(linked['nw-card'])).toMatchObject({ code: '2003', nature: 'liability' });
+    expect(linked['nw-empty']).toBeUndefined();
+    expect(entry).toMatchObject({ description: 'Opening balances', transactionType: 'adjustment' });
+    expect(entry.date).toEqual(new Date(2026, 0, 1));
+
+    const equity = accounts.find((account) => account.code === '3000')!;
+    // 50,000 + 1,000 USD at 20 - 8,000 owed
+    expect(getAccountBalance(equity.id, new Date(2026, 0, 31)).toMajorUnits()).toBe(62000);
+    expect(getOpeningBalanceCheck().map((line) => [line.accountId, line.status])).toEqual([
+      ['nw-card', 'matched'],
+      ['nw-bank', 'matched'],
+      ['nw-empty', 'unlinked'],
+      ['nw-usd', 'matched'],
+    ]);
+  });
+
+  it('refuses to post a second time or into a closed period', async () => {
+    await useLedgerStore.getState().postOpeningBalances('2026-01-01', ['nw-bank']);
+
+    await expect(useLedgerStore.getState().postOpeningBalances('2026-01-01', ['nw-bank']))
+      .rejects.toThrow("Ledger account for 'BBVA Checking' already has entries");
+    await expect(useLedgerStore.getState().postOpeningBalances('2026-01-01', ['nw-empty']))
+      .rejects.toThrow('Select at least one account with a balance');
+
+    usePeriodStore.setState({ closes: [{ id: 'close-1', period: '2025-12', closedAt: '2026-01-05T00:00:00.000Z' }] });
+    await expect(useLedgerStore.getState().postOpeningBalances('2025-12-31', ['nw-card']))
+      .rejects.toThrow('Period 2025-12 is closed');
+  });
+
+  it('flags accounts whose balance moved after the opening entry', async () => {
+    await useLedgerStore.getState().postOpeningBalances('2026-01-01', ['nw-bank']);
+    await useAccountStore.getState().updateAccount('nw-bank', { balance: 48500 });
+
+    const bank = getOpeningBalanceCheck().find((line) => line.accountId === 'nw-bank');
+
+    expect(bank).toMatchObject({ status: 'diverged', netWorthCents: 48500_00, ledgerCents: 50000_00, differenceCents: -1500_00 });
+  });
+});
@@ -0,0 +1,63 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PeriodLock } from '../domain/periodClose';
+import { usePeriodStore } from '../stores/periodStore';
+import { useLedgerStore } from '../stores/ledgerStore';
+
+describe('PeriodLock', () => {
+  it('finds the closed period a date falls in', () => {
+    expect(PeriodLock.findClosed(['2026-02', '2026-03'], ['2026-04-01', '2026-03-31'])).toBe('2026-03');
+    expect(PeriodLock.findClosed(['2026-02'], ['2026-03-01'])).toBeNull();
+  });
+
+  it('only closes months that have ended and reopens with a reason', () => {
+    expect(PeriodLock.validateClose('2026-03', [], '2026-04-01')).toBeNull();
+    expect(PeriodLock.validateClose('2026-04', [], '2026-04-30')).toBe('Only months that have ended can be closed');
+    expect(PeriodLock.validateClose('2026-03', ['2026-03'], '2026-04-01')).toBe('Period 2026-03 is already closed');
+    expect(PeriodLock.validateClose('2026-13', [], '2026-04-01')).toBe('Period must be YYYY-MM');
+
+    expect(PeriodLock.validateReopen('2026-03', ['2026-03'], 'Late card statement')).toBeNull();
+    expect(PeriodLock.validateReopen('2026-03', ['2026-03'], ' ')).toBe('A reason is required to reopen a period');
+    expect(PeriodLock.validateReopen('2026-02', ['2026-03'], 'Typo')).toBe('Period 2026-02 is not closed');
+  });
+});
+
+describe('period store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 3, 15));
+    usePeriodStore.setState({ closes: [], events: [] });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('blocks journal entries in a closed month until it is reopened', async () => {
+    const draft = {
+      date: new Date(2026, 2, 20),
+      description: 'Late utility bill',
+      baseCurrency: 'MXN',
+      lines: [
+        { accountId: 'utilities', side: 'debit' as const, amount: 800, currency: 'MXN' },
+        { accountId: 'checking', side: 'credit' as const, amount: 800, currency: 'MXN' },
+      ],
+    };
+
+    await usePeriodStore.getState().closePeriod('2026-03');
+    expect(usePeriodStore.getState().isClosed('2026-03-20')).toBe(true);
+    await expect(useLedgerStore.getState().addJournalEntry(draft)).rejects.toThrow('Period 2026-03 is closed');
+
+    await usePeriodStore.getState().reopenPeriod('2026-03', 'Bill arrived after close');
+    await expect(useLedgerStore.getState().addJournalEntry(draft)).resolves.toBeDefined();
+
+    expect(usePeriodStore.getState().events.map((event) => [event.action, event.reason])).toEqual([
+      ['reopen', 'Bill arrived after close'],
+      ['close', undefined],
+    ]);
+  });
+});
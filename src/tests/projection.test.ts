@@ -0,0 +1,112 @@
+import './setupLocalStorage';
+
+import { describe, it, expect } from 'vitest';
+import { NetWorthProjection, type ProjectionAssumptions, type ProjectionInput } from '../domain/projection';
+import { useAccountStore } from '../stores/accountStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { useIncomeStore } from '../stores/incomeStore';
+import { useExpenseStore } from '../stores/expenseStore';
+import { getProjectionInput } from '../selectors/finance';
+
+const flat: ProjectionAssumptions = { years: 1, growthRate: 0, inflationRate: 0, spread: 0 };
+const input = (overrides: Partial<ProjectionInput>): ProjectionInput => ({
+  assets: [],
+  debts: [],
+  monthlyIncomeCents: 0,
+  monthlyExpenseCents: 0,
+  ...overrides,
+});
+
+describe('NetWorthProjection', () => {
+  it('saves recurring income less expenses month by month', () => {
+    const points = NetWorthProjection.project(
+      input({ assets: [{ balanceCents: 100000_00, annualRate: null }], monthlyIncomeCents: 5000_00, monthlyExpenseCents: 3000_00 }),
+      flat,
+      '2026-10'
+    );
+
+    expect(points).toHaveLength(12);
+    expect(points[0].period).toBe('2026-11');
+    expect(points[11]).toMatchObject({ period: '2027-10', netWorthCents: 124000_00, pessimisticCents: 124000_00, optimisticCents: 124000_00 });
+  });
+
+  it('pays debts down out of savings until they are cleared', () => {
+    const points = NetWorthProjection.project(
+      input({ assets: [{ balanceCents: 5000_00, annualRate: null }], debts: [{ balanceCents: 1200_00, annualRate: 0, paymentCents: 100_00 }] }),
+      { ...flat, years: 2 },
+      '2026-10'
+    );
+
+    expect(points.every((point) => point.netWorthCents === 3800_00)).toBe(true);
+    expect(points[0]).toMatchObject({ assetCents: 4900_00, liabilityCents: 1100_00 });
+    expect(points[23]).toMatchObject({ assetCents: 3800_00, liabilityCents: 0 });
+  });
+
+  it('grows assets at their yield or the growth rate and spreads the scenarios around it', () => {
+    const [first] = NetWorthProjection.project(
+      input({ assets: [{ balanceCents: 120000_00, annualRate: 12 }, { balanceCents: 10000_00, annualRate: null }] }),
+      { ...flat, growthRate: 6, spread: 12 },
+      '2026-10'
+    );
+
+    expect(first).toMatchObject({
+      netWorthCents: 121200_00 + 10050_00,
+      optimisticCents: 122400_00 + 10150_00,
+      pessimisticCents: 120000_00 + 9950_00,
+    });
+  });
+
+  it('raises recurring amounts with inflation each year', () => {
+    const points = NetWorthProjection.project(input({ monthlyIncomeCents: 1000_00 }), { ...flat, years: 2, inflationRate: 12 }, '2026-10');
+
+    expect(points[11].netWorthCents).toBe(12000_00);
+    expect(points[12].netWorthCents).toBe(13120_00);
+  });
+
+  it('turns recurrences into monthly amounts and checks the assumptions', () => {
+    expect(NetWorthProjection.monthlyCents(100_00, 'weekly')).toBe(433_33);
+    expect(NetWorthProjection.monthlyCents(100_00, 'bi-weekly')).toBe(216_67);
+    expect(NetWorthProjection.validate({ ...flat, years: 31 })).toBe('Years must be between 1 and 30');
+    expect(NetWorthProjection.validate({ ...flat, spread: -1 })).toBe('Spread must be between 0 and 100');
+    expect(NetWorthProjection.validate(flat)).toBeNull();
+  });
+});
+
+describe('getProjectionInput', () => {
+  it('takes balances, yields including zero, debts and recurring templates in the base currency', () => {
+    useCurrencyStore.setState({ baseCurrency: 'MXN', exchangeRates: { MXN: 1 } });
+    useAccountStore.setState({
+      accounts: [
+        { id: 'savings', name: 'Savings', type: 'bank', currency: 'MXN', balance: 50000, estimatedYield: 8 },
+        { id: 'cash', name: 'Cash', type: 'cash', currency: 'MXN', balance: 2000 },
+        { id: 'safe', name: 'Safe', type: 'cash', currency: 'MXN', balance: 1000, estimatedYield: 0 },
+        { id: 'hidden', name: 'Hidden', type: 'cash', currency: 'MXN', balance: 9000, excludeFromTotal: true },
+        { id: 'car', name: 'Car', type: 'loan', currency: 'MXN', balance: -60000, minMonthlyPayment: 3000 },
+      ],
+    });
+    useIncomeStore.setState({
+      incomes: [
+        { id: 'salary', source: 'Salary', amount: 30000, currency: 'MXN', frequency: 'monthly', date: '2026-01-01', created_at: '' },
+        { id: 'bonus', source: 'Bonus', amount: 10000, currency: 'MXN', frequency: 'one-time', date: '2026-03-01', created_at: '' },
+        { id: 'yield', source: 'Investment yield: Savings', amount: 300, currency: 'MXN', frequency: 'monthly', date: '2026-01-31', created_at: '' },
+      ],
+    });
+    useExpenseStore.setState({
+      expenses: [
+        { id: 'rent', what: 'Rent', amount: 12000, currency: 'MXN', rating: 'essential', date: '2026-01-01', created_at: '', recurring: true },
+        { id: 'dinner', what: 'Dinner', amount: 800, currency: 'MXN', rating: 'discretionary', date: '2026-01-05', created_at: '' },
+      ],
+    });
+
+    expect(getProjectionInput()).toEqual({
+      assets: [
+        { balanceCents: 50000_00, annualRate: 8 },
+        { balanceCents: 2000_00, annualRate: null },
+        { balanceCents: 1000_00, annualRate: 0 },
+      ],
+      debts: [{ balanceCents: 60000_00, annualRate: 0, paymentCents: 3000_00 }],
+      monthlyIncomeCents: 30000_00,
+      monthlyExpenseCents: 12000_00,
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Reconciler } from '../domain/reconciliation';
+import type { ReconcilableItem } from '../domain/reconciliation';
+import { Money } from '../domain/money';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { getReconcilableItems } from '../selectors/finance';
+
+const items: ReconcilableItem[] = [
+  { id: 'opening', date: '2026-02-27', amountCents: 50000, reconciled: true },
+  { id: 'rent', date: '2026-03-04', amountCents: -12000, reconciled: false },
+  { id: 'fee', date: '2026-03-20', amountCents: -3000, reconciled: false },
+  { id: 'april', date: '2026-04-02', amountCents: -1000, reconciled: false },
+];
+
+describe('Reconciler', () => {
+  it('adds selected postings to the previously reconciled balance', () => {
+    expect(Reconciler.status(items, [], 35000)).toEqual({
+      clearedBalanceCents: 50000, differenceCents: -15000, isBalanced: false,
+    });
+    expect(Reconciler.status(items, ['rent', 'fee'], 35000)).toMatchObject({ differenceCents: 0, isBalanced: true });
+  });
+
+  it('rejects statements that do not balance or postings that cannot be cleared', () => {
+    expect(Reconciler.validate(items, ['rent', 'fee'], '2026-03-31', 35000)).toBeNull();
+    expect(Reconciler.validate(items, ['rent'], '2026-03-31', 35000)).toBe('Cleared balance differs from the statement by -30.00');
+    expect(Reconciler.validate(items, ['opening'], '2026-03-31', 50000)).toMatch(/already reconciled/);
+    expect(Reconciler.validate(items, ['april'], '2026-03-31', 49000)).toMatch(/on or before the statement date/);
+    expect(Reconciler.validate(items, ['unknown'], '2026-03-31', 50000)).toMatch(/belong to the account/);
+    expect(Reconciler.validate(items, [], '', 50000)).toBe('A statement date is required');
+  });
+
+  it('locks transactions that have a reconciled posting', () => {
+    expect(Reconciler.isLocked({ postings: [{ reconciled: false }, { reconciled: true }] })).toBe(true);
+    expect(Reconciler.isLocked({ postings: [{ reconciled: false }, { reconciled: null }] })).toBe(false);
+  });
+});
+
+describe('ledger store reconciliation', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useCurrencyStore.setState({ baseCurrency: 'MXN' });
+    useLedgerStore.setState({ accounts: [], transactions: [], reconciliations: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('marks cleared postings reconciled and records the statement', async () => {
+    const { addIncomeTransaction, addExpenseTransaction, reconcileAccount } = useLedgerStore.getState();
+    addIncomeTransaction('Salary', Money.fromMajorUnits(1000, 'MXN'), 'checking', 'salary', new Date(2026, 2, 1));
+    addExpenseTransaction('Groceries', Money.fromMajorUnits(250, 'MXN'), 'food', 'checking', new Date(2026, 2, 3));
+
+    const [salary, groceries] = getReconcilableItems('checking');
+    await expect(reconcileAccount('checking', '2026-03-31', 75000, [salary.id])).rejects.toThrow(/differs/);
+
+    const reconciliation = await reconcileAccount('checking', '2026-03-31', 75000, [salary.id, groceries.id]);
+
+    expect(reconciliation).toMatchObject({ accountId: 'checking', statementBalanceCents: 75000 });
+    expect(useLedgerStore.getState().reconciliations).toHaveLength(1);
+    expect(getReconcilableItems('checking').every((item) => item.reconciled)).toBe(true);
+    await expect(reconcileAccount('checking', '2026-04-30', 75000, [salary.id])).rejects.toThrow(/already reconciled/);
+  });
+});
@@ -0,0 +1,132 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { RecurrenceCalculator } from '../domain/recurrence';
+import { excludeProjectedOccurrences, getGeneratedThrough } from '../utils/recurringUtils';
+import { useExpenseStore } from '../stores/expenseStore';
+import { useIncomeStore } from '../stores/incomeStore';
+import type { Expense, Income } from '../types';
+
+describe('RecurrenceCalculator', () => {
+  it('steps weekly and bi-weekly schedules from the start date', () => {
+    expect(
+      RecurrenceCalculator.occurrencesBetween({ frequency: 'weekly', startDate: '2025-01-06' }, '2025-01-01', '2025-01-31')
+    ).toEqual(['2025-01-06', '2025-01-13', '2025-01-20', '2025-01-27']);
+    expect(
+      RecurrenceCalculator.occurrencesBetween({ frequency: 'bi-weekly', startDate: '2025-01-06' }, '2025-01-10', '2025-02-28')
+    ).toEqual(['2025-01-20', '2025-02-03', '2025-02-17']);
+  });
+
+  it('clamps monthly day-of-month to the end of short months', () => {
+    expect(
+      RecurrenceCalculator.occurrencesBetween({ frequency: 'monthly', startDate: '2024-01-31' }, '2024-01-01', '2024-04-30')
+    ).toEqual(['2024-01-31', '2024-02-29', '2024-03-31', '2024-04-30']);
+  });
+
+  it('starts next month when the day-of-month is before the start date', () => {
+    expect(RecurrenceCalculator.nthOccurrence({ frequency: 'monthly', startDate: '2025-01-20', dayOfMonth: 5 }, 0))
+      .toBe('2025-02-05');
+  });
+
+  it('honours skipped dates, end date and pause', () => {
+    const schedule = {
+      frequency: 'monthly' as const,
+      startDate: '2025-01-15',
+      endDate: '2025-04-15',
+      skipDates: ['2025-02-15'],
+    };
+
+    expect(RecurrenceCalculator.occurrencesBetween(schedule, '2025-01-01', '2025-12-31'))
+      .toEqual(['2025-01-15', '2025-03-15', '2025-04-15']);
+    expect(RecurrenceCalculator.nextOccurrence(schedule, '2025-04-15')).toBeNull();
+    expect(RecurrenceCalculator.occurrencesBetween({ ...schedule, paused: true }, '2025-01-01', '2025-12-31'))
+      .toEqual([]);
+  });
+
+  it('crosses year boundaries', () => {
+    expect(RecurrenceCalculator.nextOccurrence({ frequency: 'monthly', startDate: '2024-11-30' }, '2024-12-30'))
+      .toBe('2025-01-30');
+    expect(RecurrenceCalculator.dayAfter('2024-12-31')).toBe('2025-01-01');
+  });
+});
+
+describe('recurringUtils', () => {
+  it('treats entries from the old monthly generator as covering their whole month', () => {
+    const template = { id: 'tpl', date: '2025-01-15' };
+    const entries = [template, { id: 'recurring-expense-tpl-2025-2', date: '2025-03-01' }];
+
+    expect(getGeneratedThrough('expense', template, entries)).toBe('2025-03-31');
+  });
+
+  it('excludes generated occurrences only while their template is recurring', () => {
+    const entries = [
+      { id: 'tpl', recurring: true },
+      { id: 'gen', recurring: false, recurringSourceId: 'tpl' },
+      { id: 'orphan', recurring: false, recurringSourceId: 'gone' },
+    ];
+
+    expect(excludeProjectedOccurrences(entries, (e) => e.recurring).map((e) => e.id)).toEqual(['tpl', 'orphan']);
+  });
+});
+
+describe('generateRecurring (local mode)', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useExpenseStore.setState({ expenses: [], recurringGeneratedThrough: {}, loading: false, error: null });
+    useIncomeStore.setState({ incomes: [], recurringGeneratedThrough: {}, loading: false, error: null });
+  });
+
+  const rent: Expense = {
+    id: 'rent',
+    what: 'Rent',
+    amount: 10000,
+    currency: 'MXN',
+    rating: 'essential',
+    date: '2025-01-05',
+    created_at: '2025-01-05T00:00:00.000Z',
+    recurring: true,
+  };
+
+  it('creates one expense per due occurrence and is idempotent', async () => {
+    useExpenseStore.setState({ expenses: [rent] });
+
+    expect(await useExpenseStore.getState().generateRecurring('2025-03-10')).toBe(2);
+    expect(await useExpenseStore.getState().generateRecurring('2025-03-10')).toBe(0);
+
+    const generated = useExpenseStore.getState().expenses.filter((e) => e.recurringSourceId === 'rent');
+    expect(generated.map((e) => e.date).sort()).toEqual(['2025-02-05', '2025-03-05']);
+    expect(generated.every((e) => !e.recurring)).toBe(true);
+  });
+
+  it('does not regenerate occurrences the user deleted', async () => {
+    useExpenseStore.setState({ expenses: [rent] });
+    await useExpenseStore.getState().generateRecurring('2025-02-10');
+
+    const [occurrence] = useExpenseStore.getState().expenses.filter((e) => e.recurringSourceId === 'rent');
+    await useExpenseStore.getState().deleteExpense(occurrence.id);
+
+    expect(await useExpenseStore.getState().generateRecurring('2025-02-20')).toBe(0);
+  });
+
+  it('generates bi-weekly income but skips one-time entries and investment yields', async () => {
+    const base: Omit<Income, 'id' | 'source' | 'frequency'> = {
+      amount: 5000,
+      currency: 'MXN',
+      date: '2025-01-03',
+      created_at: '2025-01-03T00:00:00.000Z',
+    };
+    useIncomeStore.setState({
+      incomes: [
+        { ...base, id: 'salary', source: 'Salary', frequency: 'bi-weekly' },
+        { ...base, id: 'bonus', source: 'Bonus', frequency: 'one-time' },
+        { ...base, id: 'yield', source: 'Investment yield: CETES', frequency: 'monthly' },
+      ],
+    });
+
+    expect(await useIncomeStore.getState().generateRecurring('2025-02-01')).toBe(2);
+
+    const generated = useIncomeStore.getState().incomes.filter((i) => i.recurringSourceId);
+    expect(generated.map((i) => i.date).sort()).toEqual(['2025-01-17', '2025-01-31']);
+    expect(generated.every((i) => i.recurringSourceId === 'salary' && i.frequency === 'one-time')).toBe(true);
+  });
+});
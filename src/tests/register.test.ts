@@ -0,0 +1,90 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AccountRegister } from '../domain/register';
+import type { RegisterMovement } from '../domain/register';
+import { Money } from '../domain/money';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useAccountStore } from '../stores/accountStore';
+import { useSnapshotStore } from '../stores/snapshotStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { getLedgerAccountRegister, getNetWorthAccountRegister } from '../selectors/finance';
+import type { NetWorthSnapshot } from '../stores/snapshotStore';
+
+const movement = (id: string, date: string, amountCents: number): RegisterMovement => ({
+  id, date, description: id, amountCents,
+});
+
+describe('AccountRegister', () => {
+  it('signs postings by the account nature', () => {
+    expect(AccountRegister.signedAmount('asset', true, 500)).toBe(500);
+    expect(AccountRegister.signedAmount('asset', false, 500)).toBe(-500);
+    expect(AccountRegister.signedAmount('liability', false, 500)).toBe(500);
+    expect(AccountRegister.signedAmount('income', true, 500)).toBe(-500);
+  });
+
+  it('runs the balance forward from the opening balance of the range', () => {
+    const register = AccountRegister.build([
+      movement('rent', '2026-03-01', -12000),
+      movement('salary', '2026-02-28', 40000),
+      movement('refund', '2026-03-15', 500),
+      movement('later', '2026-04-02', 9999),
+    ], { from: '2026-03-01', to: '2026-03-31' });
+
+    expect(register.openingBalanceCents).toBe(40000);
+    expect(register.entries.map((entry) => [entry.id, entry.balanceCents])).toEqual([
+      ['rent', 28000],
+      ['refund', 28500],
+    ]);
+    expect(register).toMatchObject({ closingBalanceCents: 28500, increasesCents: 500, decreasesCents: 12000 });
+  });
+});
+
+describe('account register selectors', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useCurrencyStore.setState({ baseCurrency: 'MXN' });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('lists every posting to a ledger account with a running balance', () => {
+    const { addIncomeTransaction, addExpenseTransaction } = useLedgerStore.getState();
+    addIncomeTransaction('Salary', Money.fromMajorUnits(1000, 'MXN'), 'checking', 'salary', new Date(2026, 2, 1));
+    addExpenseTransaction('Groceries', Money.fromMajorUnits(250.5, 'MXN'), 'food', 'checking', new Date(2026, 2, 3));
+
+    const register = getLedgerAccountRegister('checking');
+
+    expect(register.currency).toBe('MXN');
+    expect(register.entries.map((entry) => [entry.date, entry.amountCents, entry.balanceCents])).toEqual([
+      ['2026-03-01', 100000, 100000],
+      ['2026-03-03', -25050, 74950],
+    ]);
+    expect(getLedgerAccountRegister('checking', { from: '2026-03-02' }).openingBalanceCents).toBe(100000);
+  });
+
+  it('builds a net-worth account history from snapshots and the current balance', () => {
+    const snapshot = (monthEndLocal: string, balance: number): NetWorthSnapshot => ({
+      monthEndLocal,
+      netWorthBase: balance,
+      totalsByNature: { asset: balance, liability: 0, income: 0, expense: 0, equity: 0 },
+      accountSnapshots: [{
+        accountId: 'acc-1', balance, balanceBase: balance, accountName: 'Savings', accountType: 'bank', currency: 'USD', nature: 'asset',
+      }],
+      createdAt: `${monthEndLocal}-28T00:00:00.000Z`,
+    });
+    useSnapshotStore.setState({ snapshots: [snapshot('2026-02', 500), snapshot('2026-01', 300)] });
+    useAccountStore.setState({
+      accounts: [{ id: 'acc-1', name: 'Savings', type: 'bank', currency: 'USD', balance: 650, lastUpdated: '2026-03-10' }],
+    });
+
+    const register = getNetWorthAccountRegister('acc-1');
+
+    expect(register.currency).toBe('USD');
+    expect(register.entries.map((entry) => [entry.date, entry.source, entry.amountCents, entry.balanceCents])).toEqual([
+      ['2026-01-31', 'snapshot', 30000, 30000],
+      ['2026-02-28', 'snapshot', 20000, 50000],
+      ['2026-03-10', 'current', 15000, 65000],
+    ]);
+  });
+});
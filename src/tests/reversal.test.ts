@@ -0,0 +1,98 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Reversal } from '../domain/reversal';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { usePeriodStore } from '../stores/periodStore';
+import type { JournalEntryDraft } from '../domain/journal';
+
+const rentDraft: JournalEntryDraft = {
+  date: new Date(2026, 2, 10),
+  description: 'Pay rent from savings',
+  baseCurrency: 'MXN',
+  tags: ['home'],
+  lines: [
+    { accountId: 'housing', side: 'debit', amount: 12000, currency: 'MXN' },
+    { accountId: 'savings', side: 'credit', amount: 12000, currency: 'MXN' },
+  ],
+};
+
+const balanceOf = (accountId: string, asOf: Date) =>
+  useLedgerStore.getState().getAccountBalance(accountId, asOf).toMajorUnits();
+
+describe('Reversal', () => {
+  const posted = { date: '2026-03-10', status: 'posted' as const, reversesId: null, reversedById: null };
+
+  it('allows cancelling a posted entry once, and never into the past', () => {
+    expect(Reversal.validate(posted, 'void', '2026-03-10')).toBeNull();
+    expect(Reversal.validate(posted, 'reverse', '2026-04-01')).toBeNull();
+    expect(Reversal.validate(posted, 'reverse', '2026-03-01')).toBe('A reversal cannot be dated before the original transaction');
+    expect(Reversal.validate({ ...posted, status: 'voided' }, 'void', '2026-03-10')).toBe('Transaction is already voided');
+    expect(Reversal.validate({ ...posted, reversedById: 'tx-2' }, 'reverse', '2026-04-01')).toBe('Transaction has already been reversed');
+    expect(Reversal.validate({ ...posted, reversesId: 'tx-0' }, 'void', '2026-03-10'))
+      .toBe('A reversing entry cannot itself be voided or reversed');
+  });
+
+  it('follows the links from any entry in the chain, original first', () => {
+    const entries = [
+      { id: 'reversal', reversesId: 'original' },
+      { id: 'other' },
+      { id: 'original', reversedById: 'reversal' },
+    ];
+
+    expect(Reversal.chain(entries, 'reversal').map((entry) => entry.id)).toEqual(['original', 'reversal']);
+    expect(Reversal.chain(entries, 'other').map((entry) => entry.id)).toEqual(['other']);
+  });
+});
+
+describe('voiding and reversing in the ledger store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+    usePeriodStore.setState({ closes: [] });
+  });
+
+  it('voids with an offsetting entry and hides both unless asked for', async () => {
+    const original = await useLedgerStore.getState().addJournalEntry(rentDraft);
+
+    const reversal = await useLedgerStore.getState().voidTransaction(original.id, 'Entered twice');
+
+    const { getTransactions, transactions } = useLedgerStore.getState();
+    expect(reversal).toMatchObject({ description: 'Void: Pay rent from savings', memo: 'Entered twice', status: 'voided', reversesId: original.id });
+    expect(reversal.date).toEqual(original.date);
+    expect(reversal.postings[0].bookedCreditAmount?.toMajorUnits()).toBe(12000);
+    expect(transactions.find((tx) => tx.id === original.id)).toMatchObject({ status: 'voided', reversedById: reversal.id });
+    expect(getTransactions()).toHaveLength(0);
+    expect(getTransactions({ includeVoided: true })).toHaveLength(2);
+    expect(balanceOf('housing', new Date(2026, 11, 31))).toBe(0);
+
+    await expect(useLedgerStore.getState().voidTransaction(original.id)).rejects.toThrow('Transaction is already voided');
+    await expect(useLedgerStore.getState().reverseTransaction(reversal.id, new Date(2026, 3, 1)))
+      .rejects.toThrow('Transaction is already voided');
+  });
+
+  it('reverses on a later date so the original counts until then', async () => {
+    const original = await useLedgerStore.getState().addJournalEntry(rentDraft);
+
+    const reversal = await useLedgerStore.getState().reverseTransaction(original.id, new Date(2026, 3, 1));
+
+    expect(reversal).toMatchObject({ description: 'Reversal: Pay rent from savings', status: 'posted', tags: ['home'] });
+    expect(useLedgerStore.getState().getTransactions()).toHaveLength(2);
+    expect(balanceOf('housing', new Date(2026, 2, 31))).toBe(12000);
+    expect(balanceOf('housing', new Date(2026, 3, 30))).toBe(0);
+    expect(Reversal.chain(useLedgerStore.getState().transactions, reversal.id).map((tx) => tx.id)).toEqual([original.id, reversal.id]);
+  });
+
+  it('does not void reconciled entries', async () => {
+    const original = await useLedgerStore.getState().addJournalEntry(rentDraft);
+    useLedgerStore.setState((state) => ({
+      transactions: state.transactions.map((tx) => ({
+        ...tx,
+        postings: tx.postings.map((posting) => ({ ...posting, reconciled: posting.accountId === 'savings' })),
+      })),
+    }));
+
+    await expect(useLedgerStore.getState().voidTransaction(original.id)).rejects.toThrow(/reverse it instead/);
+  });
+});
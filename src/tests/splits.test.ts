@@ -0,0 +1,101 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ExpenseSplitter } from '../domain/splits';
+import type { ExpenseSplit } from '../domain/splits';
+import { useExpenseStore } from '../stores/expenseStore';
+import { useCategorizationRuleStore } from '../stores/categorizationRuleStore';
+import { getCategoryBreakdown } from '../utils/categoryUtils';
+import type { Expense } from '../types';
+
+const identity = (amount: number) => amount;
+
+const groceries: ExpenseSplit[] = [
+  { amount: 70.1, rating: 'essential', category: 'Food', subcategory: 'Groceries' },
+  { amount: 29.9, rating: 'luxury', category: 'Household', note: 'Candles' },
+];
+
+const makeExpense = (overrides: Partial<Expense> = {}): Expense => ({
+  id: 'exp-1',
+  what: 'Supermarket',
+  amount: 100,
+  currency: 'MXN',
+  rating: 'discretionary',
+  date: '2026-03-10',
+  created_at: '2026-03-10T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('ExpenseSplitter', () => {
+  it('validates that lines add up to the total without float drift', () => {
+    expect(ExpenseSplitter.validate(100, groceries)).toBeNull();
+    expect(ExpenseSplitter.validate(100, [])).toBeNull();
+    expect(ExpenseSplitter.validate(100, [groceries[0]])).toContain('at least 2 lines');
+    expect(ExpenseSplitter.validate(100, [groceries[0], { ...groceries[1], amount: 0 }])).toContain('positive amount');
+    expect(ExpenseSplitter.validate(101, groceries)).toContain('add up');
+    expect(ExpenseSplitter.remaining(101, groceries)).toBe(1);
+  });
+
+  it('expands a split expense into one entry per line', () => {
+    const lines = ExpenseSplitter.expand(makeExpense({ splits: groceries }));
+
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ id: 'exp-1', amount: 70.1, rating: 'essential', category: 'Food', subcategory: 'Groceries' });
+    expect(lines[1]).toMatchObject({ amount: 29.9, rating: 'luxury', category: 'Household', subcategory: undefined });
+    expect(ExpenseSplitter.expand(makeExpense())).toEqual([makeExpense()]);
+    expect(ExpenseSplitter.toCents(groceries)).toEqual([7010, 2990]);
+  });
+
+  it('breaks categories down by split line', () => {
+    const expenses = ExpenseSplitter.expandAll([
+      makeExpense({ splits: groceries }),
+      makeExpense({ id: 'exp-2', amount: 30, category: 'Food' }),
+    ]);
+    const breakdown = getCategoryBreakdown(expenses, identity, 'MXN');
+
+    expect(breakdown.map((item) => [item.category, item.amount])).toEqual([
+      ['Food', 100.1],
+      ['Household', 29.9],
+    ]);
+  });
+});
+
+describe('split expenses in the expense store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useExpenseStore.setState({ expenses: [], loading: false, error: null });
+    useCategorizationRuleStore.setState({ rules: [], loading: false, error: null });
+  });
+
+  it('adds an expense with split lines', async () => {
+    const expense = await useExpenseStore.getState().addExpense({
+      what: 'Supermarket', amount: 100, currency: 'MXN', rating: 'discretionary', splits: groceries,
+    });
+
+    expect(expense.splits).toHaveLength(2);
+    expect(expense.splits?.[1]).toMatchObject({ note: 'Candles', subcategory: undefined });
+  });
+
+  it('rejects lines that do not add up to the total', async () => {
+    await expect(
+      useExpenseStore.getState().addExpense({
+        what: 'Supermarket', amount: 120, currency: 'MXN', rating: 'discretionary', splits: groceries,
+      })
+    ).rejects.toThrow('add up');
+    expect(useExpenseStore.getState().expenses).toHaveLength(0);
+  });
+
+  it('keeps split lines in step with the total on update', async () => {
+    const { id } = await useExpenseStore.getState().addExpense({
+      what: 'Supermarket', amount: 100, currency: 'MXN', rating: 'discretionary', splits: groceries,
+    });
+    const { updateExpense } = useExpenseStore.getState();
+
+    await expect(updateExpense(id, { amount: 90 })).rejects.toThrow('add up');
+    await updateExpense(id, { amount: 90, splits: [{ ...groceries[0], amount: 60.1 }, groceries[1]] });
+    expect(useExpenseStore.getState().expenses[0]).toMatchObject({ amount: 90 });
+
+    const unsplit = await updateExpense(id, { splits: [] });
+    expect(ExpenseSplitter.isSplit(unsplit)).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Tags } from '../domain/tags';
+import { JournalEntry } from '../domain/journal';
+import { useTagStore } from '../stores/tagStore';
+import { useExpenseStore } from '../stores/expenseStore';
+import { useIncomeStore } from '../stores/incomeStore';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { getTagReport } from '../selectors/finance';
+import type { Expense, Income } from '../types';
+
+const makeExpense = (id: string, amount: number, tags: string[], date = '2026-03-10'): Expense => ({
+  id,
+  what: `Expense ${id}`,
+  amount,
+  currency: 'MXN',
+  rating: 'discretionary',
+  date,
+  created_at: `${date}T12:00:00.000Z`,
+  tags,
+});
+
+const makeIncome = (id: string, amount: number, tags: string[]): Income => ({
+  id,
+  source: `Income ${id}`,
+  amount,
+  currency: 'MXN',
+  frequency: 'one-time',
+  date: '2026-03-15',
+  created_at: '2026-03-15T12:00:00.000Z',
+  tags,
+});
+
+describe('Tags', () => {
+  it('normalizes names and validates them', () => {
+    expect(Tags.normalize('  Japan   Trip ')).toBe('japan trip');
+    expect(Tags.normalizeList(['Food', 'food ', ' ', 'Home'])).toEqual(['food', 'home']);
+    expect(Tags.validateName('   ')).toBe('Tag name is required');
+    expect(Tags.validateName('x'.repeat(51))).toBe('Tag names can be at most 50 characters');
+    expect(Tags.validateName('renovation')).toBeNull();
+  });
+
+  it('replaces names in place without duplicates, or drops them', () => {
+    expect(Tags.replace(['vacation', 'food', 'japan trip'], ['vacation'], 'japan trip')).toEqual(['japan trip', 'food']);
+    expect(Tags.replace(['vacation', 'food'], ['vacation'], null)).toEqual(['food']);
+  });
+
+  it('totals each tag, counting multi-tagged entries toward every tag', () => {
+    const summaries = Tags.summarize([
+      { tags: ['trip', 'food'], kind: 'expense', amountCents: 5000 },
+      { tags: ['trip'], kind: 'expense', amountCents: 20000 },
+      { tags: ['trip'], kind: 'income', amountCents: 3000 },
+    ]);
+
+    expect(summaries).toEqual([
+      { tag: 'trip', expenseCents: 25000, incomeCents: 3000, netCents: -22000, entryCount: 3 },
+      { tag: 'food', expenseCents: 5000, incomeCents: 0, netCents: -5000, entryCount: 1 },
+    ]);
+  });
+});
+
+describe('tag store', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useTagStore.setState({ tags: [] });
+    useCurrencyStore.setState({ baseCurrency: 'MXN' });
+    useExpenseStore.setState({
+      expenses: [makeExpense('e1', 100, ['vacation', 'food']), makeExpense('e2', 50, ['home'])],
+    });
+    useIncomeStore.setState({ incomes: [makeIncome('i1', 30, ['vacation'])] });
+    useLedgerStore.setState({
+      transactions: [
+        JournalEntry.toTransaction({
+          date: new Date(2026, 2, 10),
+          description: 'Hotel',
+          baseCurrency: 'MXN',
+          tags: ['vacation'],
+          lines: [
+            { accountId: 'shopping', side: 'debit', amount: 100, currency: 'MXN' },
+            { accountId: 'cash', side: 'credit', amount: 100, currency: 'MXN' },
+          ],
+        }),
+      ],
+    });
+  });
+
+  it('rejects duplicate names in any case', async () => {
+    await useTagStore.getState().addTag('Vacation');
+
+    await expect(useTagStore.getState().addTag(' vacation ')).rejects.toThrow("Tag 'vacation' already exists");
+  });
+
+  it('renames the tag on every expense, income and ledger entry', async () => {
+    const tag = await useTagStore.getState().addTag('vacation');
+    await useTagStore.getState().addTag('japan trip');
+
+    await expect(useTagStore.getState().updateTag(tag.id, { name: 'Japan Trip' })).rejects.toThrow(/merge the tags instead/);
+    await useTagStore.getState().updateTag(tag.id, { name: 'Holidays' });
+
+    expect(useExpenseStore.getState().expenses[0].tags).toEqual(['holidays', 'food']);
+    expect(useIncomeStore.getState().incomes[0].tags).toEqual(['holidays']);
+    expect(useLedgerStore.getState().transactions[0].tags).toEqual(['holidays']);
+    expect(useLedgerStore.getState().getTransactions({ tag: 'holidays' })).toHaveLength(1);
+  });
+
+  it('merges tags into the target and removes the sources', async () => {
+    const vacation = await useTagStore.getState().addTag('vacation');
+    const food = await useTagStore.getState().addTag('food');
+    const trip = await useTagStore.getState().addTag('trip');
+
+    await useTagStore.getState().mergeTags(trip.id, [vacation.id, food.id]);
+
+    expect(useTagStore.getState().tags.map((tag) => tag.name)).toEqual(['trip']);
+    expect(useExpenseStore.getState().expenses[0].tags).toEqual(['trip']);
+    expect(useLedgerStore.getState().transactions[0].tags).toEqual(['trip']);
+  });
+
+  it('reports tagged expenses and income in the base currency', async () => {
+    await useTagStore.getState().addTag('vacation', '#ef4444');
+    useExpenseStore.setState((state) => ({ expenses: [...state.expenses, makeExpense('e3', 999, ['vacation'], '2026-04-01')] }));
+
+    const report = getTagReport('2026-03-01', '2026-03-31');
+
+    expect(report.currency).toBe('MXN');
+    expect(report.lines.map((line) => [line.tag, line.color, line.expenseCents, line.incomeCents])).toEqual([
+      ['food', null, 10000, 0],
+      ['vacation', '#ef4444', 10000, 3000],
+      ['home', null, 5000, 0],
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import './setupLocalStorage';
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { YieldAccruals, type YieldTerms } from '../domain/yieldAccrual';
+import { useYieldAccrualStore } from '../stores/yieldAccrualStore';
+import { useLedgerStore } from '../stores/ledgerStore';
+import { useAccountStore } from '../stores/accountStore';
+import { useIncomeStore } from '../stores/incomeStore';
+import { useCurrencyStore } from '../stores/currencyStore';
+import { usePeriodStore } from '../stores/periodStore';
+import { useHistoryStore } from '../stores/historyStore';
+import { getIncomeSchedule } from '../utils/recurringUtils';
+
+const compound: YieldTerms = { method: 'compound', frequency: 'monthly', startDate: '2026-01-01' };
+
+describe('YieldAccruals', () => {
+  it('ends periods on calendar month, quarter and year ends', () => {
+    expect(YieldAccruals.periodEnds(compound, null, '2026-03-30')).toEqual(['2026-01-31', '2026-02-28']);
+    expect(YieldAccruals.periodEnds({ ...compound, frequency: 'quarterly', startDate: '2026-02-10' }, null, '2026-12-31'))
+      .toEqual(['2026-03-31', '2026-06-30', '2026-09-30', '2026-12-31']);
+    expect(YieldAccruals.periodEnds({ ...compound, frequency: 'annually' }, '2026-12-31', '2028-06-01')).toEqual(['2027-12-31']);
+  });
+
+  it('compounds on the balance and prorates a partial first period', () => {
+    const lines = YieldAccruals.plan({ ...compound, startDate: '2026-01-17' }, 12, 10000_00, null, '2026-03-31');
+    expect(lines).toEqual([
+      // 15 of 31 days at 1% a month
+      { periodEnd: '2026-01-31', baseCents: 10000_00, interestCents: 48_39, balanceCents: 10048_39 },
+      { periodEnd: '2026-02-28', baseCents: 10048_39, interestCents: 100_48, balanceCents: 10148_87 },
+      { periodEnd: '2026-03-31', baseCents: 10148_87, interestCents: 101_49, balanceCents: 10250_36 },
+    ]);
+  });
+
+  it('pays simple interest on the principal only', () => {
+    const terms: YieldTerms = { method: 'simple', frequency: 'quarterly', startDate: '2026-01-01', principal: 5000 };
+    expect(YieldAccruals.plan(terms, 8, 5200_00, null, '2026-06-30').map((line) => line.interestCents)).toEqual([100_00, 100_00]);
+    expect(YieldAccruals.validate({ ...terms, principal: undefined })).toBe('Principal must be greater than zero');
+    expect(YieldAccruals.plan(terms, 0, 5200_00, null, '2026-06-30')).toEqual([]);
+  });
+});
+
+describe('posting accruals', () => {
+  const incomeBalance = () => {
+    const ledger = useLedgerStore.getState();
+    return ledger.getAccountBalance('investment-income').getAmountMajor();
+  };
+
+  beforeEach(() => {
+    localStorage.clear();
+    usePeriodStore.setState({ closes: [] });
+    useHistoryStore.setState({ entries: [] });
+    useCurrencyStore.setState({ baseCurrency: 'MXN', exchangeRates: { MXN: 1 } });
+    useAccountStore.setState({
+      accounts: [{ id: 'nw-savings', name: 'Savings', type: 'bank', currency: 'MXN', balance: 12000, estimatedYield: 6, yieldTerms: compound }],
+    });
+    useIncomeStore.setState({ incomes: [] });
+    useYieldAccrualStore.setState({ accruals: [] });
+    useLedgerStore.setState({ accounts: [], transactions: [] });
+    useLedgerStore.getState().initializeDefaultAccounts();
+  });
+
+  it('credits each period once as income and grows the balance', async () => {
+    const { previewAccruals, postAccruals } = useYieldAccrualStore.getState();
+    expect(previewAccruals('2026-02-15')).toEqual([
+      { accountId: 'nw-savings', currency: 'MXN', lines: [expect.objectContaining({ periodEnd: '2026-01-31', interestCents: 60_00 })] },
+    ]);
+
+    expect(await postAccruals('2026-02-28')).toBe(2);
+    expect(await postAccruals('2026-02-28')).toBe(0);
+
+    expect(useAccountStore.getState().accounts[0].balance).toBe(12120.3);
+    expect(incomeBalance()).toBe(120.3);
+    const incomes = useIncomeStore.getState().incomes;
+    expect(incomes.map((income) => [income.source, income.amount, income.date]).sort()).toEqual([
+      ['Investment yield: Savings', 60, '2026-01-31'],
+      ['Investment yield: Savings', 60.3, '2026-02-28'],
+    ]);
+    expect(getIncomeSchedule(incomes[0])).toBeNull();
+  });
+
+  it('undoes only the latest accrual and does not post it again', async () => {
+    const { postAccruals, undoAccrual } = useYieldAccrualStore.getState();
+    await postAccruals('2026-02-28');
+    const [first, second] = useYieldAccrualStore.getState().accruals;
+
+    await expect(undoAccrual(first.id)).rejects.toThrow('Only the latest accrual of an account can be undone');
+    await undoAccrual(second.id);
+
+    expect(useLedgerStore.getState().transactions.find((tx) => tx.id === second.transactionId)?.status).toBe('voided');
+    expect(useAccountStore.getState().accounts[0].balance).toBe(12060);
+    expect(useIncomeStore.getState().incomes).toHaveLength(1);
+    expect(incomeBalance()).toBe(60);
+    expect(await postAccruals('2026-02-28')).toBe(0);
+  });
+
+  it('takes a failed accrual back whole so the next run posts it again', async () => {
+    const addIncome = useIncomeStore.getState().addIncome;
+    useIncomeStore.setState({ addIncome: () => Promise.reject(new Error('Income store offline')) });
+
+    await expect(useYieldAccrualStore.getState().postAccruals('2026-02-15')).rejects.toThrow('Income store offline');
+    expect(useLedgerStore.getState().transactions.every((tx) => tx.status === 'voided')).toBe(true);
+    expect(useAccountStore.getState().accounts[0].balance).toBe(12000);
+    expect(incomeBalance()).toBe(0);
+
+    useIncomeStore.setState({ addIncome });
+    expect(await useYieldAccrualStore.getState().postAccruals('2026-02-15')).toBe(1);
+  });
+
+  it('does not post a period again when its ledger entry is already there', async () => {
+    const [line] = useYieldAccrualStore.getState().previewAccruals('2026-02-15')[0].lines;
+    await useLedgerStore.getState().postYieldAccrual('nw-savings', line);
+
+    expect(useYieldAccrualStore.getState().previewAccruals('2026-02-15')).toEqual([]);
+    expect(await useYieldAccrualStore.getState().postAccruals('2026-02-15')).toBe(0);
+  });
+});
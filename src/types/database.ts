@@ -4,6 +4,9 @@ export type AccountType = 'cash' | 'bank' | 'exchange' | 'investment' | 'propert
 export type ExpenseRating = 'essential' | 'discretionary' | 'luxury';
 export type IncomeFrequency = 'one-time' | 'weekly' | 'bi-weekly' | 'monthly';
 export type AccountNature = 'asset' | 'liability';
+export type BudgetScope = 'category' | 'rating';
+export type RecurringKind = 'expense' | 'income';
+export type RecurringFrequency = 'weekly' | 'bi-weekly' | 'monthly';
 
 export type Database = {
   public: {
@@ -17,6 +20,7 @@ export type Database = {
           type: 'asset' | 'liability' | 'equity' | 'income' | 'expense';
           code: string;
           currency: string;
+          parent_id: string | null;
           is_active: boolean;
           created_at: string;
           updated_at: string;
@@ -28,6 +32,7 @@ export type Database = {
           type: 'asset' | 'liability' | 'equity' | 'income' | 'expense';
           code: string;
           currency?: string;
+          parent_id?: string | null;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -39,6 +44,7 @@ export type Database = {
           type?: 'asset' | 'liability' | 'equity' | 'income' | 'expense';
           code?: string;
           currency?: string;
+          parent_id?: string | null;
           is_active?: boolean;
           created_at?: string;
           updated_at?: string;
@@ -62,6 +68,11 @@ export type Database = {
           last_updated: string | null;
           min_monthly_payment: number | null;
           payment_to_avoid_interest: number | null;
+          ledger_account_id: string | null;
+          loan_terms: Json | null;
+          card_terms: Json | null;
+          cost_basis_method: 'fifo' | 'average' | null;
+          yield_terms: Json | null;
           created_at: string;
           updated_at: string;
         };
@@ -81,6 +92,11 @@ export type Database = {
           last_updated?: string | null;
           min_monthly_payment?: number | null;
           payment_to_avoid_interest?: number | null;
+          ledger_account_id?: string | null;
+          loan_terms?: Json | null;
+          card_terms?: Json | null;
+          cost_basis_method?: 'fifo' | 'average' | null;
+          yield_terms?: Json | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -100,6 +116,11 @@ export type Database = {
           last_updated?: string | null;
           min_monthly_payment?: number | null;
           payment_to_avoid_interest?: number | null;
+          ledger_account_id?: string | null;
+          loan_terms?: Json | null;
+          card_terms?: Json | null;
+          cost_basis_method?: 'fifo' | 'average' | null;
+          yield_terms?: Json | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -219,7 +240,14 @@ export type Database = {
           date: string;
           description: string;
           memo: string | null;
+          reference: string | null;
+          tags: string[];
+          base_currency: string | null;
           transaction_type: 'income' | 'expense' | 'transfer' | 'adjustment' | null;
+          status: 'posted' | 'voided';
+          voided_at: string | null;
+          reverses_id: string | null;
+          reversed_by_id: string | null;
           created_at: string;
           updated_at: string;
         };
@@ -229,7 +257,14 @@ export type Database = {
           date: string;
           description: string;
           memo?: string | null;
+          reference?: string | null;
+          tags?: string[];
+          base_currency?: string | null;
           transaction_type?: 'income' | 'expense' | 'transfer' | 'adjustment' | null;
+          status?: 'posted' | 'voided';
+          voided_at?: string | null;
+          reverses_id?: string | null;
+          reversed_by_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -239,7 +274,14 @@ export type Database = {
           date?: string;
           description?: string;
           memo?: string | null;
+          reference?: string | null;
+          tags?: string[];
+          base_currency?: string | null;
           transaction_type?: 'income' | 'expense' | 'transfer' | 'adjustment' | null;
+          status?: 'posted' | 'voided';
+          voided_at?: string | null;
+          reverses_id?: string | null;
+          reversed_by_id?: string | null;
           created_at?: string;
           updated_at?: string;
         };
@@ -251,7 +293,12 @@ export type Database = {
           account_id: string;
           amount_cents: number;
           currency: string;
+          exchange_rate: number | null;
+          booked_amount_cents: number | null;
           is_debit: boolean;
+          reconciled: boolean;
+          reconciled_at: string | null;
+          reconciliation_id: string | null;
           created_at: string;
         };
         Insert: {
@@ -260,7 +307,12 @@ export type Database = {
           account_id: string;
           amount_cents: number;
           currency: string;
+          exchange_rate?: number | null;
+          booked_amount_cents?: number | null;
           is_debit: boolean;
+          reconciled?: boolean;
+          reconciled_at?: string | null;
+          reconciliation_id?: string | null;
           created_at?: string;
         };
         Update: {
@@ -269,7 +321,12 @@ export type Database = {
           account_id?: string;
           amount_cents?: number;
           currency?: string;
+          exchange_rate?: number | null;
+          booked_amount_cents?: number | null;
           is_debit?: boolean;
+          reconciled?: boolean;
+          reconciled_at?: string | null;
+          reconciliation_id?: string | null;
           created_at?: string;
         };
       };
@@ -288,6 +345,10 @@ export type Database = {
           category: string | null;
           is_recurring: boolean;
           recurrence_interval: 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null;
+          recurring_rule_id: string | null;
+          recurring_source_id: string | null;
+          occurrence_date: string | null;
+          tags: string[];
           created_at: string;
           updated_at: string;
         };
@@ -304,6 +365,10 @@ export type Database = {
           category?: string | null;
           is_recurring?: boolean;
           recurrence_interval?: 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null;
+          recurring_rule_id?: string | null;
+          recurring_source_id?: string | null;
+          occurrence_date?: string | null;
+          tags?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -320,6 +385,10 @@ export type Database = {
           category?: string | null;
           is_recurring?: boolean;
           recurrence_interval?: 'weekly' | 'biweekly' | 'monthly' | 'yearly' | null;
+          recurring_rule_id?: string | null;
+          recurring_source_id?: string | null;
+          occurrence_date?: string | null;
+          tags?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -340,6 +409,11 @@ export type Database = {
           subcategory: string | null;
           confidence: number | null;
           explanation: string | null;
+          splits: Json;
+          recurring_rule_id: string | null;
+          recurring_source_id: string | null;
+          occurrence_date: string | null;
+          tags: string[];
           created_at: string;
           updated_at: string;
         };
@@ -357,6 +431,11 @@ export type Database = {
           subcategory?: string | null;
           confidence?: number | null;
           explanation?: string | null;
+          splits?: Json;
+          recurring_rule_id?: string | null;
+          recurring_source_id?: string | null;
+          occurrence_date?: string | null;
+          tags?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -374,6 +453,11 @@ export type Database = {
           subcategory?: string | null;
           confidence?: number | null;
           explanation?: string | null;
+          splits?: Json;
+          recurring_rule_id?: string | null;
+          recurring_source_id?: string | null;
+          occurrence_date?: string | null;
+          tags?: string[];
           created_at?: string;
           updated_at?: string;
         };
@@ -507,6 +591,468 @@ export type Database = {
           created_at?: string;
         };
       };
+      // Budgets (from migration 009)
+      budgets: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          scope: BudgetScope;
+          category: string | null;
+          rating: ExpenseRating | null;
+          monthly_limit: number;
+          currency: string;
+          rollover: boolean;
+          start_month: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          scope: BudgetScope;
+          category?: string | null;
+          rating?: ExpenseRating | null;
+          monthly_limit: number;
+          currency?: string;
+          rollover?: boolean;
+          start_month: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          scope?: BudgetScope;
+          category?: string | null;
+          rating?: ExpenseRating | null;
+          monthly_limit?: number;
+          currency?: string;
+          rollover?: boolean;
+          start_month?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      // Recurring rules (from migration 010)
+      recurring_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          kind: RecurringKind;
+          source_id: string | null;
+          description: string;
+          amount: number;
+          currency: string;
+          rating: ExpenseRating | null;
+          frequency: RecurringFrequency;
+          day_of_month: number | null;
+          start_date: string;
+          end_date: string | null;
+          skip_dates: string[];
+          paused: boolean;
+          last_generated_date: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          kind: RecurringKind;
+          source_id?: string | null;
+          description: string;
+          amount: number;
+          currency?: string;
+          rating?: ExpenseRating | null;
+          frequency: RecurringFrequency;
+          day_of_month?: number | null;
+          start_date: string;
+          end_date?: string | null;
+          skip_dates?: string[];
+          paused?: boolean;
+          last_generated_date?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          kind?: RecurringKind;
+          source_id?: string | null;
+          description?: string;
+          amount?: number;
+          currency?: string;
+          rating?: ExpenseRating | null;
+          frequency?: RecurringFrequency;
+          day_of_month?: number | null;
+          start_date?: string;
+          end_date?: string | null;
+          skip_dates?: string[];
+          paused?: boolean;
+          last_generated_date?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      // Categorization rules (from migration 011)
+      categorization_rules: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          priority: number;
+          enabled: boolean;
+          description_pattern: string | null;
+          min_amount: number | null;
+          max_amount: number | null;
+          currency: string | null;
+          account_id: string | null;
+          category: string | null;
+          subcategory: string | null;
+          rating: ExpenseRating | null;
+          recurring: boolean | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          priority?: number;
+          enabled?: boolean;
+          description_pattern?: string | null;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          currency?: string | null;
+          account_id?: string | null;
+          category?: string | null;
+          subcategory?: string | null;
+          rating?: ExpenseRating | null;
+          recurring?: boolean | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          priority?: number;
+          enabled?: boolean;
+          description_pattern?: string | null;
+          min_amount?: number | null;
+          max_amount?: number | null;
+          currency?: string | null;
+          account_id?: string | null;
+          category?: string | null;
+          subcategory?: string | null;
+          rating?: ExpenseRating | null;
+          recurring?: boolean | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      // Bank statement reconciliations (from migration 014)
+      reconciliations: {
+        Row: {
+          id: string;
+          user_id: string;
+          account_id: string;
+          statement_date: string;
+          statement_balance_cents: number;
+          posting_count: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          account_id: string;
+          statement_date: string;
+          statement_balance_cents: number;
+          posting_count?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          account_id?: string;
+          statement_date?: string;
+          statement_balance_cents?: number;
+          posting_count?: number;
+          created_at?: string;
+        };
+      };
+      // Closed ledger periods (from migration 015)
+      period_closes: {
+        Row: {
+          id: string;
+          user_id: string;
+          period: string;
+          closed_by: string | null;
+          closed_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          period: string;
+          closed_by?: string | null;
+          closed_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          period?: string;
+          closed_by?: string | null;
+          closed_at?: string;
+        };
+      };
+      // Period close and reopen audit trail (from migration 015)
+      period_close_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          period: string;
+          action: 'close' | 'reopen';
+          reason: string | null;
+          actor_id: string | null;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          period: string;
+          action: 'close' | 'reopen';
+          reason?: string | null;
+          actor_id?: string | null;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          period?: string;
+          action?: 'close' | 'reopen';
+          reason?: string | null;
+          actor_id?: string | null;
+          created_at?: string;
+        };
+      };
+      // FX revaluation runs (from migration 016)
+      fx_revaluations: {
+        Row: {
+          id: string;
+          user_id: string;
+          revaluation_date: string;
+          base_currency: string;
+          gain_loss_account_id: string;
+          transaction_id: string | null;
+          total_adjustment_cents: number;
+          lines: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          revaluation_date: string;
+          base_currency: string;
+          gain_loss_account_id: string;
+          transaction_id?: string | null;
+          total_adjustment_cents?: number;
+          lines?: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          revaluation_date?: string;
+          base_currency?: string;
+          gain_loss_account_id?: string;
+          transaction_id?: string | null;
+          total_adjustment_cents?: number;
+          lines?: Json;
+          created_at?: string;
+        };
+      };
+      // Transaction tags (from migration 018)
+      tags: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          color: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          color?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          color?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      // Field-level edit history, written by trigger (from migration 021)
+      record_history: {
+        Row: {
+          id: string;
+          user_id: string;
+          table_name: 'expenses' | 'income' | 'net_worth_accounts' | 'transactions';
+          record_id: string;
+          changed_by: string | null;
+          changes: Json;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          table_name: 'expenses' | 'income' | 'net_worth_accounts' | 'transactions';
+          record_id: string;
+          changed_by?: string | null;
+          changes: Json;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          table_name?: 'expenses' | 'income' | 'net_worth_accounts' | 'transactions';
+          record_id?: string;
+          changed_by?: string | null;
+          changes?: Json;
+          created_at?: string;
+        };
+      };
+      // Buy, sell and dividend trades inside investment accounts (from migration 024)
+      investment_trades: {
+        Row: {
+          id: string;
+          user_id: string;
+          account_id: string;
+          symbol: string;
+          kind: 'buy' | 'sell' | 'dividend';
+          trade_date: string;
+          quantity: number;
+          price: number;
+          fees: number;
+          amount: number;
+          transaction_id: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          account_id: string;
+          symbol: string;
+          kind: 'buy' | 'sell' | 'dividend';
+          trade_date: string;
+          quantity?: number;
+          price?: number;
+          fees?: number;
+          amount?: number;
+          transaction_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          account_id?: string;
+          symbol?: string;
+          kind?: 'buy' | 'sell' | 'dividend';
+          trade_date?: string;
+          quantity?: number;
+          price?: number;
+          fees?: number;
+          amount?: number;
+          transaction_id?: string | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      // Security prices by day (from migration 024)
+      security_prices: {
+        Row: {
+          id: string;
+          user_id: string;
+          symbol: string;
+          price_date: string;
+          price: number;
+          currency: string;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          symbol: string;
+          price_date: string;
+          price: number;
+          currency?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          symbol?: string;
+          price_date?: string;
+          price?: number;
+          currency?: string;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      // Interest credited to interest-bearing accounts (from migration 025)
+      yield_accruals: {
+        Row: {
+          id: string;
+          user_id: string;
+          account_id: string;
+          period_end: string;
+          amount: number;
+          currency: string;
+          income_id: string | null;
+          transaction_id: string | null;
+          status: 'posted' | 'undone';
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          account_id: string;
+          period_end: string;
+          amount: number;
+          currency?: string;
+          income_id?: string | null;
+          transaction_id?: string | null;
+          status?: 'posted' | 'undone';
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          account_id?: string;
+          period_end?: string;
+          amount?: number;
+          currency?: string;
+          income_id?: string | null;
+          transaction_id?: string | null;
+          status?: 'posted' | 'undone';
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
     };
     Functions: {
       validate_transaction_balance: {
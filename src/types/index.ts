@@ -1,5 +1,15 @@
+import type { RecurrenceFrequency } from '../domain/recurrence';
+import type { ExpenseSplit } from '../domain/splits';
+import type { LoanTerms } from '../domain/amortization';
+import type { CardTerms } from '../domain/cardCycles';
+import type { CostBasisMethod, TradeInput, PricePoint } from '../domain/holdings';
+import type { YieldTerms } from '../domain/yieldAccrual';
+
 // Re-export admin types
 export * from './admin';
+export type { RecurrenceFrequency } from '../domain/recurrence';
+export type { CategorizationRule } from '../domain/categorization';
+export type { ExpenseSplit } from '../domain/splits';
 
 export interface Currency {
   code: string;
@@ -25,6 +35,11 @@ export interface Expense {
   date: string;
   created_at: string;
   recurring?: boolean;
+  category?: string;
+  subcategory?: string;
+  splits?: ExpenseSplit[];            // Lines with their own amount/rating/category; they sum to amount
+  recurringSourceId?: string;        // Template this entry was generated from
+  tags?: string[];                   // Tag names, see Tag
 }
 
 export interface Income {
@@ -35,6 +50,8 @@ export interface Income {
   frequency: IncomeFrequency;
   date: string;
   created_at: string;
+  recurringSourceId?: string;        // Template this entry was generated from
+  tags?: string[];                   // Tag names, see Tag
 }
 
 // Net Worth Account - for tracking personal assets and liabilities
@@ -54,6 +71,41 @@ export interface Account {
   // Liability-specific fields
   minMonthlyPayment?: number;        // Minimum required monthly payment
   paymentToAvoidInterest?: number;   // Amount to pay to avoid interest charges
+  ledgerAccountId?: string;          // Ledger account that mirrors this one
+  loanTerms?: LoanTerms;             // Loans and mortgages: terms behind the amortization schedule
+  cardTerms?: CardTerms;             // Credit cards: statement cycle and interest terms
+  costBasisMethod?: CostBasisMethod; // Investment and exchange accounts: how sales take cost out; FIFO when unset
+  yieldTerms?: YieldTerms;           // Assets: how interest at the estimated yield is credited; no accrual when unset
+}
+
+// Investment trade - a buy, sell or dividend inside an investment or exchange account;
+// holdings are replayed from these, see Holdings
+export interface InvestmentTrade extends TradeInput {
+  id: string;
+  accountId: string;                 // Net worth account holding the position
+  transactionId?: string;            // Journal entry the trade posted
+  created_at: string;
+}
+
+// Security price - what one unit of a symbol was worth on a day
+export interface SecurityPrice extends PricePoint {
+  id: string;
+  currency: string;
+  created_at: string;
+}
+
+// Yield accrual - interest credited to an account for one period; undone accruals
+// are kept so the period is not accrued again
+export interface YieldAccrual {
+  id: string;
+  accountId: string;
+  periodEnd: string;                 // YYYY-MM-DD
+  amount: number;                    // Major units, in the account's currency
+  currency: string;
+  incomeId?: string;                 // Income recorded for it
+  transactionId?: string;            // Journal entry it posted
+  status: 'posted' | 'undone';
+  created_at: string;
 }
 
 // Ledger Account - for reference/lookup of bank accounts
@@ -65,3 +117,61 @@ export interface LedgerAccount {
   normalBalance: LedgerAccountNormalBalance;
   isActive: boolean;
 }
+
+// Tag - a named, colored label for grouping entries (a trip, a renovation);
+// entries store the name, so renaming or merging a tag rewrites them
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;                     // Hex color, e.g. #3b82f6
+  created_at: string;
+}
+
+// Budget scope - a budget limits either a free-form category or an expense rating
+export type BudgetScope = 'category' | 'rating';
+
+// Budget - monthly spending limit, optionally rolling unspent amounts forward
+export interface Budget {
+  id: string;
+  name: string;
+  scope: BudgetScope;
+  category?: string;                 // Set when scope is 'category'
+  rating?: ExpenseRating;            // Set when scope is 'rating'
+  monthlyLimit: number;
+  currency: string;
+  rollover: boolean;                 // Carry unspent amounts into the next month
+  startMonth: string;                // YYYY-MM, first month the budget applies to
+  created_at: string;
+}
+
+// Spent-vs-limit figures for a budget in a given month
+export interface BudgetProgress {
+  budget: Budget;
+  month: string;                     // YYYY-MM
+  limit: number;                     // monthlyLimit + carriedOver
+  carriedOver: number;
+  spent: number;
+  remaining: number;
+  percentUsed: number;
+}
+
+// Recurring rules - server-side schedules that materialize expenses and income
+export type RecurringKind = 'expense' | 'income';
+
+export interface RecurringRule {
+  id: string;
+  kind: RecurringKind;
+  sourceId?: string;                 // Template expense/income the rule was created from
+  description: string;               // Expense "what" or income "source"
+  amount: number;
+  currency: string;
+  rating?: ExpenseRating;            // Expenses only
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number;               // Monthly only
+  startDate: string;
+  endDate?: string;
+  skipDates: string[];
+  paused: boolean;
+  lastGeneratedDate?: string;        // Occurrences up to this date have been generated
+  created_at: string;
+}
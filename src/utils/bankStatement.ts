@@ -0,0 +1,305 @@
+/**
+ * Bank Statement Import Utilities
+ * Parses OFX/QFX and ISO 20022 CAMT.053 bank exports into statement lines
+ * that can be previewed and imported as expenses or income
+ */
+
+export type BankStatementFormat = 'ofx' | 'camt053';
+
+export interface BankStatementLine {
+  date: string; // Booking date (YYYY-MM-DD)
+  amount: number; // Signed: negative for debits, positive for credits
+  currency: string;
+  description: string;
+  reference?: string; // Bank transaction id (OFX FITID / CAMT AcctSvcrRef)
+}
+
+export interface BankStatement {
+  format: BankStatementFormat;
+  accountId?: string;
+  currency: string;
+  lines: BankStatementLine[];
+}
+
+const BANK_STATEMENT_EXTENSIONS = ['.ofx', '.qfx', '.xml'];
+
+/**
+ * Whether a file name looks like a supported bank statement export
+ */
+export const isBankStatementFile = (fileName: string): boolean => {
+  const lower = fileName.toLowerCase();
+  return BANK_STATEMENT_EXTENSIONS.some((ext) => lower.endsWith(ext));
+};
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+
+const cleanText = (value: string): string => decodeEntities(value).replace(/\s+/g, ' ').trim();
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+// ============================================
+// OFX / QFX
+// ============================================
+
+// OFX 1.x is SGML (leaf tags are often left unclosed), OFX 2.x is XML.
+// Reading a leaf value up to the next tag or line break handles both.
+const getOFXValue = (block: string, tag: string): string | undefined => {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  return match ? cleanText(match[1]) || undefined : undefined;
+};
+
+// OFX dates look like 20250131, 20250131120000 or 20250131120000.000[-6:CST]
+const parseOFXDate = (value: string | undefined): string | null => {
+  const match = value && /^(\d{4})(\d{2})(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/**
+ * Parse an OFX or QFX statement (bank or credit card)
+ */
+export const parseOFX = (content: string): { statement: BankStatement | null; errors: string[] } => {
+  const errors: string[] = [];
+
+  if (!/<OFX>/i.test(content)) {
+    return { statement: null, errors: ['Not an OFX file: missing <OFX> element'] };
+  }
+
+  const currency = (getOFXValue(content, 'CURDEF') || 'MXN').toUpperCase();
+  const accountId = getOFXValue(content, 'ACCTID');
+  const lines: BankStatementLine[] = [];
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) || [];
+  blocks.forEach((block, index) => {
+    const date = parseOFXDate(getOFXValue(block, 'DTPOSTED'));
+    const amount = parseFloat((getOFXValue(block, 'TRNAMT') || '').replace(',', '.'));
+
+    if (!date || isNaN(amount)) {
+      errors.push(`Transaction ${index + 1}: missing or invalid date/amount`);
+      return;
+    }
+
+    const name = getOFXValue(block, 'NAME');
+    const memo = getOFXValue(block, 'MEMO');
+    const description = [name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' - ');
+
+    // Foreign-currency lines carry their own <CURRENCY><CURSYM>
+    const lineCurrency = getOFXValue(block, 'CURSYM');
+
+    lines.push({
+      date,
+      amount: roundAmount(amount),
+      currency: (lineCurrency || currency).toUpperCase(),
+      description: description || getOFXValue(block, 'TRNTYPE') || 'Bank transaction',
+      reference: getOFXValue(block, 'FITID'),
+    });
+  });
+
+  if (blocks.length === 0) {
+    errors.push('No transactions found in OFX file');
+  }
+
+  return { statement: { format: 'ofx', accountId, currency, lines }, errors };
+};
+
+// ============================================
+// CAMT.053 (ISO 20022 Bank-to-Customer Statement)
+// ============================================
+
+interface XMLNode {
+  name: string; // Local name, namespace prefix stripped
+  attributes: Record<string, string>;
+  children: XMLNode[];
+  text: string;
+}
+
+// Minimal XML reader: enough structure for CAMT documents without a DOM
+const parseXML = (content: string): XMLNode => {
+  const root: XMLNode = { name: '#root', attributes: {}, children: [], text: '' };
+  const stack: XMLNode[] = [root];
+  const tokenPattern = /<!\[CDATA\[([\s\S]*?)\]\]>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/([^\s>]+)\s*>|<([^\s/>]+)([^>]*?)(\/?)>|([^<]+)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = tokenPattern.exec(content)) !== null) {
+    const current = stack[stack.length - 1];
+    const [, cdata, closing, opening, rawAttributes, selfClosing, text] = match;
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closing) {
+      if (stack.length > 1) stack.pop();
+    } else if (opening) {
+      const attributes: Record<string, string> = {};
+      for (const attr of rawAttributes.matchAll(/([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+        attributes[attr[1].replace(/^.*:/, '')] = decodeEntities(attr[3] ?? attr[4] ?? '');
+      }
+      const node: XMLNode = { name: opening.replace(/^.*:/, ''), attributes, children: [], text: '' };
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    } else if (text !== undefined) {
+      current.text += text;
+    }
+  }
+
+  return root;
+};
+
+const child = (node: XMLNode | undefined, ...path: string[]): XMLNode | undefined =>
+  path.reduce<XMLNode | undefined>((current, name) => current?.children.find((c) => c.name === name), node);
+
+const children = (node: XMLNode | undefined, name: string): XMLNode[] =>
+  node ? node.children.filter((c) => c.name === name) : [];
+
+const textOf = (node: XMLNode | undefined): string | undefined => {
+  const value = node ? cleanText(node.text) : '';
+  return value || undefined;
+};
+
+const findFirst = (node: XMLNode, name: string): XMLNode | undefined => {
+  for (const c of node.children) {
+    if (c.name === name) return c;
+    const found = findFirst(c, name);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// Dates may be <Dt>2025-01-31</Dt> or <DtTm>2025-01-31T10:00:00</DtTm>
+const camtDate = (node: XMLNode | undefined): string | undefined =>
+  (textOf(child(node, 'Dt')) || textOf(child(node, 'DtTm')))?.slice(0, 10);
+
+// Best human-readable description: remittance info, counterparty, then free text
+const camtDescription = (entry: XMLNode, isCredit: boolean): string | undefined => {
+  const details = child(entry, 'NtryDtls', 'TxDtls');
+  const remittance = children(child(details, 'RmtInf'), 'Ustrd').map(textOf).filter(Boolean).join(' ');
+  const parties = child(details, 'RltdPties');
+  // Credits come from the debtor, debits go to the creditor
+  const counterparty = isCredit
+    ? textOf(child(parties, 'Dbtr', 'Nm')) || textOf(child(parties, 'Dbtr', 'Pty', 'Nm'))
+    : textOf(child(parties, 'Cdtr', 'Nm')) || textOf(child(parties, 'Cdtr', 'Pty', 'Nm'));
+
+  return [counterparty, remittance].filter(Boolean).join(' - ')
+    || textOf(child(entry, 'AddtlNtryInf'))
+    || textOf(child(details, 'AddtlTxInf'));
+};
+
+/**
+ * Parse a CAMT.053 statement. Pending entries are left out; only booked
+ * entries are final.
+ */
+export const parseCAMT053 = (content: string): { statement: BankStatement | null; errors: string[] } => {
+  const errors: string[] = [];
+  const document = parseXML(content);
+  const statementNode = findFirst(document, 'BkToCstmrStmt');
+
+  if (!statementNode) {
+    return { statement: null, errors: ['Not a CAMT.053 file: missing BkToCstmrStmt element'] };
+  }
+
+  const statements = children(statementNode, 'Stmt');
+  const firstAccount = child(statements[0], 'Acct');
+  const currency = (textOf(child(firstAccount, 'Ccy')) || 'MXN').toUpperCase();
+  const accountId = textOf(child(firstAccount, 'Id', 'IBAN')) || textOf(child(firstAccount, 'Id', 'Othr', 'Id'));
+  const lines: BankStatementLine[] = [];
+  let entryNumber = 0;
+
+  statements.forEach((stmt) => {
+    children(stmt, 'Ntry').forEach((entry) => {
+      entryNumber++;
+      const status = textOf(child(entry, 'Sts', 'Cd')) || textOf(child(entry, 'Sts'));
+      if (status && status !== 'BOOK') return;
+
+      const amountNode = child(entry, 'Amt');
+      const amount = parseFloat(textOf(amountNode) || '');
+      const date = camtDate(child(entry, 'BookgDt')) || camtDate(child(entry, 'ValDt'));
+      const indicator = textOf(child(entry, 'CdtDbtInd'));
+
+      if (!date || isNaN(amount) || (indicator !== 'CRDT' && indicator !== 'DBIT')) {
+        errors.push(`Entry ${entryNumber}: missing or invalid date, amount or credit/debit indicator`);
+        return;
+      }
+
+      const isCredit = indicator === 'CRDT';
+      lines.push({
+        date,
+        amount: roundAmount(isCredit ? amount : -amount),
+        currency: (amountNode?.attributes.Ccy || currency).toUpperCase(),
+        description: camtDescription(entry, isCredit) || 'Bank transaction',
+        reference: textOf(child(entry, 'AcctSvcrRef')) || textOf(child(entry, 'NtryRef')),
+      });
+    });
+  });
+
+  if (entryNumber === 0) {
+    errors.push('No entries found in CAMT.053 file');
+  }
+
+  return { statement: { format: 'camt053', accountId, currency, lines }, errors };
+};
+
+// ============================================
+// Detection & mapping
+// ============================================
+
+/**
+ * Detect the statement format from its content and parse it
+ */
+export const parseBankStatement = (content: string): { statement: BankStatement | null; errors: string[] } => {
+  if (/<OFX>/i.test(content) || /^\s*OFXHEADER:/i.test(content)) {
+    return parseOFX(content);
+  }
+  if (/BkToCstmrStmt/.test(content)) {
+    return parseCAMT053(content);
+  }
+  return { statement: null, errors: ['Unrecognized bank statement format (expected OFX, QFX or CAMT.053)'] };
+};
+
+/**
+ * Read and parse a bank statement file
+ */
+export const readBankStatementFile = async (
+  file: File
+): Promise<{ statement: BankStatement | null; errors: string[] }> => {
+  try {
+    return parseBankStatement(await file.text());
+  } catch (error) {
+    return { statement: null, errors: [error instanceof Error ? error.message : 'Failed to read file'] };
+  }
+};
+
+/**
+ * Debit lines as rows in the expense import template
+ */
+export const statementToExpenseRows = (lines: BankStatementLine[]): Record<string, string>[] =>
+  lines
+    .filter((line) => line.amount < 0)
+    .map((line) => ({
+      date: line.date,
+      description: line.description,
+      amount: String(Math.abs(line.amount)),
+      currency: line.currency,
+      rating: 'discretionary',
+      category: '',
+      subcategory: '',
+      recurring: 'false',
+    }));
+
+/**
+ * Credit lines as rows in the income import template
+ */
+export const statementToIncomeRows = (lines: BankStatementLine[]): Record<string, string>[] =>
+  lines
+    .filter((line) => line.amount > 0)
+    .map((line) => ({
+      date: line.date,
+      source: line.description,
+      amount: String(line.amount),
+      currency: line.currency,
+      frequency: 'one-time',
+    }));
@@ -0,0 +1,71 @@
+import type { Budget, BudgetProgress, Expense } from '../types';
+import { ExpenseSplitter } from '../domain/splits';
+
+type ConvertFn = (amount: number, fromCurrency: string, toCurrency: string) => number;
+
+// Format a date as a YYYY-MM month key
+export const toMonthKey = (date: Date): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+// Move a YYYY-MM month key forward or backward by a number of months
+export const shiftMonthKey = (month: string, delta: number): string => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return toMonthKey(new Date(year, monthIndex - 1 + delta, 1));
+};
+
+// Whether an expense counts against a budget's category or rating
+export const expenseMatchesBudget = (expense: Expense, budget: Budget): boolean => {
+  if (budget.scope === 'rating') {
+    return expense.rating === budget.rating;
+  }
+  if (!expense.category || !budget.category) return false;
+  return expense.category.trim().toLowerCase() === budget.category.trim().toLowerCase();
+};
+
+// Total spent against a budget in a month, converted to the budget currency.
+// Each line of a split expense counts against its own category and rating.
+export const getBudgetSpent = (
+  budget: Budget,
+  expenses: Expense[],
+  month: string,
+  convert: ConvertFn
+): number => {
+  return ExpenseSplitter.expandAll(expenses)
+    .filter((expense) => expense.date.startsWith(month) && expenseMatchesBudget(expense, budget))
+    .reduce((total, expense) => total + convert(expense.amount, expense.currency, budget.currency), 0);
+};
+
+/**
+ * Calculate spent-vs-limit for a budget in a month.
+ * With rollover enabled, unspent amounts from every month since startMonth
+ * carry forward; overspending never carries a negative balance.
+ */
+export const calculateBudgetProgress = (
+  budget: Budget,
+  expenses: Expense[],
+  month: string,
+  convert: ConvertFn
+): BudgetProgress => {
+  let carriedOver = 0;
+
+  if (budget.rollover && budget.startMonth < month) {
+    for (let m = budget.startMonth; m < month; m = shiftMonthKey(m, 1)) {
+      const available = budget.monthlyLimit + carriedOver;
+      carriedOver = Math.max(0, available - getBudgetSpent(budget, expenses, m, convert));
+    }
+  }
+
+  const limit = month < budget.startMonth ? 0 : budget.monthlyLimit + carriedOver;
+  const spent = getBudgetSpent(budget, expenses, month, convert);
+
+  return {
+    budget,
+    month,
+    limit,
+    carriedOver,
+    spent,
+    remaining: limit - spent,
+    percentUsed: limit > 0 ? (spent / limit) * 100 : spent > 0 ? 100 : 0,
+  };
+};
@@ -0,0 +1,92 @@
+import type { Expense } from '../types';
+
+type ConvertFn = (amount: number, fromCurrency: string, toCurrency: string) => number;
+
+// Filter value that selects expenses without a category
+export const UNCATEGORIZED = '__uncategorized__';
+
+export interface CategoryOption {
+  category: string;
+  subcategories: string[];
+}
+
+export interface CategoryBreakdownItem {
+  category: string | null; // null groups uncategorized expenses
+  amount: number;
+  subcategories: { subcategory: string | null; amount: number }[];
+}
+
+// Categories are free-form text, so compare them case-insensitively
+const sameCategory = (a: string | null | undefined, b: string | null | undefined): boolean =>
+  (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase();
+
+// Known categories and their subcategories, sorted by name.
+// The first spelling seen wins when the same category is typed differently.
+export const getCategoryOptions = (
+  expenses: Pick<Expense, 'category' | 'subcategory'>[],
+  extra: { category?: string | null; subcategory?: string | null }[] = []
+): CategoryOption[] => {
+  const options: CategoryOption[] = [];
+
+  [...expenses, ...extra].forEach(({ category, subcategory }) => {
+    if (!category?.trim()) return;
+    let option = options.find((o) => sameCategory(o.category, category));
+    if (!option) {
+      option = { category: category.trim(), subcategories: [] };
+      options.push(option);
+    }
+    if (subcategory?.trim() && !option.subcategories.some((s) => sameCategory(s, subcategory))) {
+      option.subcategories.push(subcategory.trim());
+    }
+  });
+
+  return options
+    .map((option) => ({ ...option, subcategories: [...option.subcategories].sort((a, b) => a.localeCompare(b)) }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+};
+
+// Whether an expense passes a category (and optional subcategory) filter.
+// An empty filter matches everything; UNCATEGORIZED matches expenses without a category.
+export const matchesCategoryFilter = (
+  expense: Pick<Expense, 'category' | 'subcategory'>,
+  category: string,
+  subcategory = ''
+): boolean => {
+  if (!category) return true;
+  if (category === UNCATEGORIZED) return !expense.category?.trim();
+  if (!sameCategory(expense.category, category)) return false;
+  return !subcategory || sameCategory(expense.subcategory, subcategory);
+};
+
+// Spending per category and subcategory in the base currency, largest first
+export const getCategoryBreakdown = (
+  expenses: Expense[],
+  convert: ConvertFn,
+  baseCurrency: string
+): CategoryBreakdownItem[] => {
+  const items: CategoryBreakdownItem[] = [];
+
+  expenses.forEach((expense) => {
+    const amount = convert(expense.amount, expense.currency, baseCurrency);
+    const category = expense.category?.trim() || null;
+    const subcategory = category ? expense.subcategory?.trim() || null : null;
+
+    let item = items.find((i) => sameCategory(i.category, category));
+    if (!item) {
+      item = { category, amount: 0, subcategories: [] };
+      items.push(item);
+    }
+    item.amount += amount;
+
+    let sub = item.subcategories.find((s) => sameCategory(s.subcategory, subcategory));
+    if (!sub) {
+      sub = { subcategory, amount: 0 };
+      item.subcategories.push(sub);
+    }
+    sub.amount += amount;
+  });
+
+  return items
+    .map((item) => ({ ...item, subcategories: [...item.subcategories].sort((a, b) => b.amount - a.amount) }))
+    .sort((a, b) => b.amount - a.amount);
+};
@@ -3,6 +3,9 @@
  * Handles parsing and generating CSV files for data import/export
  */
 
+import type { PayoffPlan } from '../domain/debtPayoff';
+import type { PricePoint } from '../domain/holdings';
+
 // Escape a value for CSV (handle commas, quotes, newlines)
 const escapeCSVValue = (value: string | number | boolean | undefined | null): string => {
   if (value === undefined || value === null) return '';
@@ -172,11 +175,37 @@ export interface ExpenseCSVRow {
   description: string;
   amount: string;
   currency: string;
+  rating: string;
   category: string;
+  subcategory: string;
   recurring: string;
 }
 
-export const EXPENSE_CSV_HEADERS = ['date', 'description', 'amount', 'currency', 'category', 'recurring'];
+export const EXPENSE_CSV_HEADERS = ['date', 'description', 'amount', 'currency', 'rating', 'category', 'subcategory', 'recurring'];
+
+// Rating, category, subcategory and recurring are optional columns
+export const EXPENSE_REQUIRED_HEADERS = ['date', 'description', 'amount', 'currency'];
+
+const EXPENSE_RATINGS = ['essential', 'discretionary', 'luxury'];
+
+/**
+ * Fill in optional expense columns. Files exported before categories existed
+ * have no rating column and carry the rating in the category column.
+ */
+export const normalizeExpenseRow = (row: Record<string, string>): ExpenseCSVRow => {
+  const legacyRating = !('rating' in row) && EXPENSE_RATINGS.includes(row.category?.toLowerCase().trim() ?? '');
+
+  return {
+    date: row.date ?? '',
+    description: row.description ?? '',
+    amount: row.amount ?? '',
+    currency: row.currency ?? '',
+    rating: legacyRating ? row.category : row.rating ?? '',
+    category: legacyRating ? '' : row.category ?? '',
+    subcategory: row.subcategory ?? '',
+    recurring: row.recurring ?? '',
+  };
+};
 
 export const exportExpensesToCSV = (
   expenses: Array<{
@@ -185,6 +214,8 @@ export const exportExpensesToCSV = (
     amount: number;
     currency: string;
     rating: string;
+    category?: string;
+    subcategory?: string;
     recurring?: boolean;
   }>
 ): string => {
@@ -194,7 +225,9 @@ export const exportExpensesToCSV = (
       description: e.what,
       amount: e.amount,
       currency: e.currency,
-      category: e.rating,
+      rating: e.rating,
+      category: e.category ?? '',
+      subcategory: e.subcategory ?? '',
       recurring: e.recurring ? 'true' : 'false',
     })),
     [
@@ -202,7 +235,9 @@ export const exportExpensesToCSV = (
       { key: 'description', header: 'description' },
       { key: 'amount', header: 'amount' },
       { key: 'currency', header: 'currency' },
+      { key: 'rating', header: 'rating' },
       { key: 'category', header: 'category' },
+      { key: 'subcategory', header: 'subcategory' },
       { key: 'recurring', header: 'recurring' },
     ]
   );
@@ -211,9 +246,9 @@ export const exportExpensesToCSV = (
 export const parseExpenseCSV = (
   csvString: string
 ): { data: ExpenseCSVRow[]; errors: string[] } => {
-  const result = parseCSV(csvString, EXPENSE_CSV_HEADERS);
+  const result = parseCSV(csvString, EXPENSE_REQUIRED_HEADERS);
   return {
-    data: result.data as unknown as ExpenseCSVRow[],
+    data: result.data.map(normalizeExpenseRow),
     errors: result.errors,
   };
 };
@@ -459,6 +494,60 @@ export const parseLedgerAccountCSV = (
   };
 };
 
+// ============================================
+// Debt payoff schedule export
+// ============================================
+
+export const exportPayoffScheduleToCSV = (plan: PayoffPlan): string => {
+  const names = new Map(plan.debts.map((debt) => [debt.debtId, debt.name]));
+  return generateCSV(
+    plan.months.flatMap((month) =>
+      month.payments.map((payment) => ({
+        month: month.month,
+        period: month.period,
+        debt: names.get(payment.debtId) ?? payment.debtId,
+        payment: (payment.paymentCents / 100).toFixed(2),
+        interest: (payment.interestCents / 100).toFixed(2),
+        balance: (payment.balanceCents / 100).toFixed(2),
+      }))
+    ),
+    [
+      { key: 'month', header: 'month' },
+      { key: 'period', header: 'period' },
+      { key: 'debt', header: 'debt' },
+      { key: 'payment', header: 'payment' },
+      { key: 'interest', header: 'interest' },
+      { key: 'balance', header: 'balance' },
+    ]
+  );
+};
+
+// ============================================
+// Security price import
+// ============================================
+
+export const PRICE_CSV_HEADERS = ['symbol', 'date', 'price'];
+
+// Rows with a non-numeric price are reported and skipped; the store validates the rest
+export const parsePriceCSV = (
+  csvString: string
+): { data: PricePoint[]; errors: string[] } => {
+  const result = parseCSV(csvString, PRICE_CSV_HEADERS);
+  const errors = [...result.errors];
+  const data: PricePoint[] = [];
+
+  result.data.forEach((row, index) => {
+    const price = parseFloat(row.price.replace(/[$,]/g, ''));
+    if (!Number.isFinite(price)) {
+      errors.push(`Row ${index + 2}: Invalid price '${row.price}'`);
+      return;
+    }
+    data.push({ symbol: row.symbol, date: row.date.trim(), price });
+  });
+
+  return { data, errors };
+};
+
 // ============================================
 // CSV Template Generators
 // ============================================
@@ -480,18 +569,20 @@ export const getCSVTemplateInfo = (type: CSVTemplateType): CSVTemplateInfo => {
     case 'expenses':
       return {
         headers: EXPENSE_CSV_HEADERS,
-        description: 'Import your expenses with date, description, amount, currency, category, and recurring status.',
+        description: 'Import your expenses with date, description, amount, currency, rating, category, subcategory, and recurring status.',
         exampleRows: [
-          ['2025-01-15', 'Groceries', '150.00', 'MXN', 'essential', 'false'],
-          ['2025-01-16', 'Netflix Subscription', '199.00', 'MXN', 'discretionary', 'true'],
-          ['2025-01-20', 'New Headphones', '2500.00', 'MXN', 'luxury', 'false'],
+          ['2025-01-15', 'Groceries', '150.00', 'MXN', 'essential', 'Food & Dining', 'Groceries', 'false'],
+          ['2025-01-16', 'Netflix Subscription', '199.00', 'MXN', 'discretionary', 'Entertainment', 'Streaming', 'true'],
+          ['2025-01-20', 'New Headphones', '2500.00', 'MXN', 'luxury', 'Shopping', '', 'false'],
         ],
         notes: [
           'date: YYYY-MM-DD format (e.g., 2025-01-15)',
           'description: Text description of the expense',
           'amount: Positive number (e.g., 150.00)',
           'currency: MXN, USD, EUR, etc.',
-          'category: essential, discretionary, or luxury',
+          'rating: essential, discretionary, or luxury (optional, defaults to discretionary)',
+          'category: Free-form category, e.g. Food & Dining (optional)',
+          'subcategory: Free-form subcategory within the category (optional)',
           'recurring: true or false',
         ],
       };
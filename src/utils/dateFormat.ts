@@ -12,14 +12,15 @@ export const formatDate = (dateString: string): string => {
   });
 };
 
-export const getTodayLocalString = (): string => {
-  const today = new Date();
-  const year = today.getFullYear();
-  const month = String(today.getMonth() + 1).padStart(2, '0');
-  const day = String(today.getDate()).padStart(2, '0');
+export const toLocalDateString = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
   return `${year}-${month}-${day}`;
 };
 
+export const getTodayLocalString = (): string => toLocalDateString(new Date());
+
 export const parseLocalDate = (dateString: string): Date => {
   // Parse the date as local time to avoid timezone issues
   const [year, month, day] = dateString.split('-').map(Number);
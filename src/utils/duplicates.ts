@@ -0,0 +1,217 @@
+/**
+ * Duplicate Detection Utilities
+ * Fingerprints expenses/income by date, amount and currency and compares
+ * descriptions fuzzily, so bank exports ("STARBUCKS #123 CARD PURCHASE") still
+ * match manually entered rows ("Starbucks")
+ */
+
+export interface DuplicateCandidate {
+  date: string; // YYYY-MM-DD
+  amount: number;
+  currency: string;
+  description: string;
+}
+
+export interface DuplicateOptions {
+  dateToleranceDays?: number; // Posting dates often lag the purchase by a day or two
+  minSimilarity?: number; // 0..1 description similarity needed to call it a duplicate
+}
+
+const DEFAULT_OPTIONS: Required<DuplicateOptions> = {
+  dateToleranceDays: 2,
+  minSimilarity: 0.75,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Lowercase, strip accents and punctuation, and drop purely numeric tokens
+ * (store numbers, card suffixes, references)
+ */
+export const normalizeDescription = (description: string): string =>
+  description
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter((token) => token && !/^\d+$/.test(token))
+    .join(' ');
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+};
+
+/**
+ * Description similarity from 0 to 1: the better of character-bigram overlap
+ * (typos, spacing) and word containment (one description extends the other)
+ */
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const left = normalizeDescription(a);
+  const right = normalizeDescription(b);
+  if (left === right) return 1;
+  if (!left || !right) return 0;
+
+  const leftTokens = new Set(left.split(' '));
+  const rightTokens = new Set(right.split(' '));
+  const sharedTokens = [...leftTokens].filter((token) => rightTokens.has(token)).length;
+  const containment = sharedTokens / Math.min(leftTokens.size, rightTokens.size);
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  const remaining = [...rightBigrams];
+  let sharedBigrams = 0;
+  leftBigrams.forEach((gram) => {
+    const index = remaining.indexOf(gram);
+    if (index !== -1) {
+      sharedBigrams++;
+      remaining.splice(index, 1);
+    }
+  });
+  const dice = leftBigrams.length + rightBigrams.length > 0
+    ? (2 * sharedBigrams) / (leftBigrams.length + rightBigrams.length)
+    : 0;
+
+  return Math.max(dice, containment);
+};
+
+/**
+ * Exact part of the fingerprint: same currency and amount (to the cent)
+ */
+export const getFingerprint = (candidate: DuplicateCandidate): string =>
+  `${candidate.currency.toUpperCase()}|${Math.round(Math.abs(candidate.amount) * 100)}`;
+
+const asIs = (candidate: DuplicateCandidate): DuplicateCandidate => candidate;
+
+const daysApart = (a: string, b: string): number =>
+  Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / DAY_MS;
+
+/**
+ * Whether two entries are likely the same transaction
+ */
+export const isLikelyDuplicate = (
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  options: DuplicateOptions = {}
+): boolean => {
+  const { dateToleranceDays, minSimilarity } = { ...DEFAULT_OPTIONS, ...options };
+  return getFingerprint(a) === getFingerprint(b)
+    && daysApart(a.date, b.date) <= dateToleranceDays
+    && descriptionSimilarity(a.description, b.description) >= minSimilarity;
+};
+
+/**
+ * First existing entry that a candidate likely duplicates, or undefined
+ */
+export const findDuplicate = <T>(
+  candidate: DuplicateCandidate,
+  existing: T[],
+  toCandidate: (entry: T) => DuplicateCandidate,
+  options: DuplicateOptions = {}
+): T | undefined => {
+  const fingerprint = getFingerprint(candidate);
+  return existing.find((entry) => {
+    const other = toCandidate(entry);
+    return getFingerprint(other) === fingerprint && isLikelyDuplicate(candidate, other, options);
+  });
+};
+
+/**
+ * Groups of two or more entries that likely duplicate each other, oldest first
+ */
+export const findDuplicateGroups = <T>(
+  entries: T[],
+  toCandidate: (entry: T) => DuplicateCandidate,
+  options: DuplicateOptions = {}
+): T[][] => {
+  // Only entries sharing a fingerprint can match, so compare within buckets
+  const buckets = new Map<string, { entry: T; candidate: DuplicateCandidate }[]>();
+  entries.forEach((entry) => {
+    const candidate = toCandidate(entry);
+    const key = getFingerprint(candidate);
+    buckets.set(key, [...(buckets.get(key) || []), { entry, candidate }]);
+  });
+
+  const groups: { date: string; entries: T[] }[] = [];
+  buckets.forEach((bucket) => {
+    const sorted = [...bucket].sort((a, b) => a.candidate.date.localeCompare(b.candidate.date));
+    const assigned = new Set<number>();
+
+    sorted.forEach((item, i) => {
+      if (assigned.has(i)) return;
+      const group = [item];
+      for (let j = i + 1; j < sorted.length; j++) {
+        if (!assigned.has(j) && group.some((member) => isLikelyDuplicate(member.candidate, sorted[j].candidate, options))) {
+          group.push(sorted[j]);
+          assigned.add(j);
+        }
+      }
+      if (group.length > 1) {
+        groups.push({ date: item.candidate.date, entries: group.map((member) => member.entry) });
+      }
+    });
+  });
+
+  // Most recent groups first
+  return groups
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map((group) => group.entries);
+};
+
+/**
+ * Split a batch into rows to insert and rows that duplicate existing entries
+ * or an earlier row in the same batch
+ */
+export const partitionDuplicates = <T>(
+  batch: T[],
+  existing: DuplicateCandidate[],
+  toCandidate: (entry: T) => DuplicateCandidate,
+  options: DuplicateOptions = {}
+): { unique: T[]; duplicates: T[] } => {
+  const unique: T[] = [];
+  const duplicates: T[] = [];
+  const accepted: DuplicateCandidate[] = [];
+
+  batch.forEach((entry) => {
+    const candidate = toCandidate(entry);
+    if (findDuplicate(candidate, existing, asIs, options) || findDuplicate(candidate, accepted, asIs, options)) {
+      duplicates.push(entry);
+    } else {
+      unique.push(entry);
+      accepted.push(candidate);
+    }
+  });
+
+  return { unique, duplicates };
+};
+
+const today = (): string => new Date().toISOString().split('T')[0];
+
+/**
+ * Expense (or new expense row) as a duplicate candidate
+ */
+export const expenseToCandidate = (
+  expense: { what: string; amount: number; currency: string; date?: string }
+): DuplicateCandidate => ({
+  date: expense.date || today(),
+  amount: expense.amount,
+  currency: expense.currency,
+  description: expense.what,
+});
+
+/**
+ * Income (or new income row) as a duplicate candidate
+ */
+export const incomeToCandidate = (
+  income: { source: string; amount: number; currency: string; date?: string }
+): DuplicateCandidate => ({
+  date: income.date || today(),
+  amount: income.amount,
+  currency: income.currency,
+  description: income.source,
+});
@@ -1,128 +1,133 @@
-import type { Expense } from '../types';
-import type { Income } from '../types';
-
-// Recurring utils only work with localStorage (DEV_MODE).
-// In production, recurring transactions should be handled server-side or via Supabase.
-const DEV_MODE = !import.meta.env.VITE_SUPABASE_URL || import.meta.env.VITE_DEV_MODE === 'true';
-
-export const generateRecurringTransactions = () => {
-  if (!DEV_MODE) return; // Skip in production - localStorage won't have Supabase data
-
-  const currentDate = new Date();
-  const currentYear = currentDate.getFullYear();
-  const currentMonth = currentDate.getMonth();
-  const firstDayOfMonth = new Date(currentYear, currentMonth, 1).toISOString().split('T')[0];
-
-  // Generate recurring expenses
-  generateRecurringExpenses(firstDayOfMonth, currentYear, currentMonth);
-
-  // Generate recurring income (for non-investment income)
-  generateRecurringIncome(firstDayOfMonth, currentYear, currentMonth);
+import type { Expense, Income, RecurringKind } from '../types';
+import type { CreateRecurringRuleData } from '../services/recurringService';
+import { RecurrenceCalculator, type RecurrenceSchedule } from '../domain/recurrence';
+import { INVESTMENT_YIELD_PREFIX } from '../domain/yieldAccrual';
+
+// Template expenses/incomes are the recurrence rules: each template is its own
+// first occurrence, and later occurrences are materialized as separate entries
+// (locally in DEV_MODE, by the API server via /api/recurring otherwise).
+
+type RecurringRuleData = Omit<CreateRecurringRuleData, 'kind' | 'sourceId'>;
+
+const dayOfMonth = (date: string): number => Number(date.split('-')[2]);
+
+/**
+ * Whether an entry is a generated occurrence rather than a template
+ * (the old generator copied templates under `recurring-<kind>-` ids)
+ */
+export const isGeneratedOccurrence = (entry: { id: string; recurringSourceId?: string }): boolean =>
+  !!entry.recurringSourceId || entry.id.startsWith('recurring-');
+
+/**
+ * Schedule for a recurring expense template (monthly on its date), or null
+ */
+export const getExpenseSchedule = (expense: Expense): RecurrenceSchedule | null => {
+  if (!expense.recurring || isGeneratedOccurrence(expense)) return null;
+  return { frequency: 'monthly', startDate: expense.date, dayOfMonth: dayOfMonth(expense.date) };
 };
 
-const generateRecurringExpenses = (firstDayOfMonth: string, currentYear: number, currentMonth: number) => {
-  try {
-    // Get expenses from localStorage
-    const savedExpenses = localStorage.getItem('fintonico-expenses');
-    const expenses: Expense[] = savedExpenses ? JSON.parse(savedExpenses) : [];
-
-    // Find recurring expenses (template expenses)
-    const recurringExpenses = expenses.filter(expense => expense.recurring);
-
-    if (recurringExpenses.length === 0) return;
-
-    // Check if we already have generated expenses for this month
-    const monthPrefix = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
-    const existingMonthlyExpenses = expenses.filter(expense =>
-      expense.date.startsWith(monthPrefix) &&
-      expense.id.startsWith('recurring-expense-')
-    );
-
-    // Generate new recurring expenses for this month
-    const newRecurringExpenses = recurringExpenses
-      .filter(recurringExpense => {
-        // Check if this specific recurring expense was already generated this month
-        return !existingMonthlyExpenses.some(existing =>
-          existing.id.includes(recurringExpense.id) && existing.id.includes(`${currentYear}-${currentMonth}`)
-        );
-      })
-      .map(recurringExpense => ({
-        ...recurringExpense,
-        id: `recurring-expense-${recurringExpense.id}-${currentYear}-${currentMonth}`,
-        date: firstDayOfMonth,
-        created_at: new Date().toISOString(),
-        recurring: false // The generated instance is not recurring, only the template is
-      }));
-
-    if (newRecurringExpenses.length > 0) {
-      const allExpenses = [...newRecurringExpenses, ...expenses];
-      localStorage.setItem('fintonico-expenses', JSON.stringify(allExpenses));
-    }
-  } catch (err) {
-    console.error('Failed to generate recurring expenses:', err);
-  }
+/**
+ * Schedule for a recurring income template, or null.
+ * Investment yields are credited by the yield accrual job instead.
+ */
+export const getIncomeSchedule = (income: Income): RecurrenceSchedule | null => {
+  if (income.frequency === 'one-time' || income.source.startsWith(INVESTMENT_YIELD_PREFIX)) return null;
+  if (isGeneratedOccurrence(income)) return null;
+  return {
+    frequency: income.frequency,
+    startDate: income.date,
+    dayOfMonth: income.frequency === 'monthly' ? dayOfMonth(income.date) : null,
+  };
 };
 
-const generateRecurringIncome = (firstDayOfMonth: string, currentYear: number, currentMonth: number) => {
-  try {
-    // Get incomes from localStorage
-    const savedIncomes = localStorage.getItem('fintonico-incomes');
-    const incomes: Income[] = savedIncomes ? JSON.parse(savedIncomes) : [];
-
-    // Find recurring monthly income (excluding investment yields which are handled separately)
-    const recurringIncomes = incomes.filter(income =>
-      income.frequency === 'monthly' &&
-      !income.source.startsWith('Investment yield:')
-    );
-
-    if (recurringIncomes.length === 0) return;
-
-    // Check if we already have generated incomes for this month
-    const monthPrefix = `${currentYear}-${String(currentMonth + 1).padStart(2, '0')}`;
-    const existingMonthlyIncomes = incomes.filter(income =>
-      income.date.startsWith(monthPrefix) &&
-      income.id.startsWith('recurring-income-')
-    );
+/**
+ * Rule data for the server-side rule backing an expense template
+ */
+export const getExpenseRuleData = (expense: Expense): RecurringRuleData | null => {
+  const schedule = getExpenseSchedule(expense);
+  if (!schedule) return null;
+  return {
+    description: expense.what,
+    amount: expense.amount,
+    currency: expense.currency,
+    rating: expense.rating,
+    frequency: schedule.frequency,
+    dayOfMonth: schedule.dayOfMonth ?? undefined,
+    startDate: schedule.startDate,
+  };
+};
 
-    // Generate new recurring incomes for this month
-    const newRecurringIncomes = recurringIncomes
-      .filter(recurringIncome => {
-        // Check if this specific recurring income was already generated this month
-        return !existingMonthlyIncomes.some(existing =>
-          existing.id.includes(recurringIncome.id) && existing.id.includes(`${currentYear}-${currentMonth}`)
-        );
-      })
-      .map(recurringIncome => ({
-        ...recurringIncome,
-        id: `recurring-income-${recurringIncome.id}-${currentYear}-${currentMonth}`,
-        date: firstDayOfMonth,
-        created_at: new Date().toISOString(),
-      }));
+/**
+ * Rule data for the server-side rule backing an income template
+ */
+export const getIncomeRuleData = (income: Income): RecurringRuleData | null => {
+  const schedule = getIncomeSchedule(income);
+  if (!schedule) return null;
+  return {
+    description: income.source,
+    amount: income.amount,
+    currency: income.currency,
+    frequency: schedule.frequency,
+    dayOfMonth: schedule.dayOfMonth ?? undefined,
+    startDate: schedule.startDate,
+  };
+};
 
-    if (newRecurringIncomes.length > 0) {
-      const allIncomes = [...newRecurringIncomes, ...incomes];
-      localStorage.setItem('fintonico-incomes', JSON.stringify(allIncomes));
+/**
+ * Deterministic id for a locally generated occurrence, so regeneration is idempotent
+ */
+export const getOccurrenceId = (kind: RecurringKind, templateId: string, date: string): string =>
+  `recurring-${kind}-${templateId}-${date}`;
+
+/**
+ * Latest date already covered for a template: its own date, any generated
+ * occurrence, or a whole month for entries from the old once-per-month generator
+ * (ids like `recurring-expense-<id>-<year>-<monthIndex>`).
+ */
+export const getGeneratedThrough = (
+  kind: RecurringKind,
+  template: { id: string; date: string },
+  entries: Array<{ id: string; date: string; recurringSourceId?: string }>
+): string => {
+  const legacyPrefix = `recurring-${kind}-${template.id}-`;
+  const legacyPattern = /^(\d{4})-(\d{1,2})$/;
+
+  return entries.reduce((latest, entry) => {
+    let covered: string | null = null;
+    if (entry.recurringSourceId === template.id) {
+      covered = entry.date;
+    } else if (entry.id.startsWith(legacyPrefix)) {
+      const legacy = legacyPattern.exec(entry.id.slice(legacyPrefix.length));
+      if (legacy) {
+        const monthEnd = new Date(Date.UTC(Number(legacy[1]), Number(legacy[2]) + 1, 0));
+        covered = monthEnd.toISOString().split('T')[0];
+      }
     }
-  } catch (err) {
-    console.error('Failed to generate recurring income:', err);
-  }
+    return covered && covered > latest ? covered : latest;
+  }, template.date);
 };
 
-// Function to check if we need to generate recurring transactions
-export const checkAndGenerateRecurring = () => {
-  if (!DEV_MODE) return; // Skip in production
-
-  try {
-    const lastCheck = localStorage.getItem('fintonico-last-recurring-check');
-    const currentMonth = new Date().getMonth();
-    const currentYear = new Date().getFullYear();
-    const currentMonthKey = `${currentYear}-${currentMonth}`;
+/**
+ * Occurrence dates after `generatedThrough` up to and including `asOf`
+ */
+export const getDueOccurrences = (
+  schedule: RecurrenceSchedule,
+  generatedThrough: string,
+  asOf: string
+): string[] => {
+  const from = RecurrenceCalculator.dayAfter(generatedThrough);
+  if (from > asOf) return [];
+  return RecurrenceCalculator.occurrencesBetween(schedule, from, asOf);
+};
 
-    if (lastCheck !== currentMonthKey) {
-      generateRecurringTransactions();
-      localStorage.setItem('fintonico-last-recurring-check', currentMonthKey);
-    }
-  } catch (err) {
-    console.error('Failed to check/generate recurring transactions:', err);
-  }
+/**
+ * Drop generated occurrences whose template is still recurring; views already
+ * project the template into every period, so counting both would double up.
+ */
+export const excludeProjectedOccurrences = <T extends { id: string; recurringSourceId?: string }>(
+  entries: T[],
+  isTemplate: (entry: T) => boolean
+): T[] => {
+  const templateIds = new Set(entries.filter(isTemplate).map((entry) => entry.id));
+  return entries.filter((entry) => !entry.recurringSourceId || !templateIds.has(entry.recurringSourceId));
 };
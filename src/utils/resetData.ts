@@ -5,6 +5,10 @@ import { useAccountStore } from '../stores/accountStore';
 import { useCurrencyStore } from '../stores/currencyStore';
 import { useLedgerAccountStore } from '../stores/ledgerAccountStore';
 import { useSnapshotStore } from '../stores/snapshotStore';
+import { useBudgetStore } from '../stores/budgetStore';
+import { useCategorizationRuleStore } from '../stores/categorizationRuleStore';
+import { useHoldingStore } from '../stores/holdingStore';
+import { useYieldAccrualStore } from '../stores/yieldAccrualStore';
 
 const PERSIST_KEYS = [
   'fintonico-currency',
@@ -15,17 +19,25 @@ const PERSIST_KEYS = [
   'ledger-store',
   'fintonico-ledger',
   'fintonico-ledger-accounts',
+  'fintonico-budgets',
+  'fintonico-categorization-rules',
+  'fintonico-holdings',
+  'fintonico-yield-accruals',
 ];
 
 export const clearMockData = async (): Promise<void> => {
   const ledger = useLedgerStore.getState();
   ledger.clearAllData();
 
-  useExpenseStore.setState({ expenses: [], loading: false });
-  useIncomeStore.setState({ incomes: [], loading: false });
+  useExpenseStore.setState({ expenses: [], recurringGeneratedThrough: {}, loading: false });
+  useIncomeStore.setState({ incomes: [], recurringGeneratedThrough: {}, loading: false });
   useAccountStore.setState({ accounts: [] });
   useLedgerAccountStore.setState({ accounts: [] });
   useSnapshotStore.setState({ snapshots: [] });
+  useBudgetStore.setState({ budgets: [] });
+  useCategorizationRuleStore.setState({ rules: [] });
+  useHoldingStore.setState({ trades: [], prices: [] });
+  useYieldAccrualStore.setState({ accruals: [] });
 
   useCurrencyStore.setState((state) => ({
     ...state,
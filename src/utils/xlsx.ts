@@ -17,10 +17,12 @@ export type {
 // Import constants and helpers from csv.ts
 import {
   EXPENSE_CSV_HEADERS,
+  EXPENSE_REQUIRED_HEADERS,
   INCOME_CSV_HEADERS,
   ACCOUNT_CSV_HEADERS,
   LEDGER_ACCOUNT_CSV_HEADERS,
   inferNatureFromType,
+  normalizeExpenseRow,
   type CSVTemplateType,
 } from './csv';
 
@@ -192,7 +194,9 @@ export interface ExpenseXLSXRow {
   description: string;
   amount: string;
   currency: string;
+  rating: string;
   category: string;
+  subcategory: string;
   recurring: string;
 }
 
@@ -207,10 +211,10 @@ export const parseExpenseXLSX = async (
     return { data: [], errors: result.errors };
   }
 
-  // Validate required columns
+  // Only require core fields - rating, category and subcategory are optional
   const firstRow = result.data[0];
   if (firstRow) {
-    const missingHeaders = EXPENSE_XLSX_HEADERS.filter(
+    const missingHeaders = EXPENSE_REQUIRED_HEADERS.filter(
       (h) => !(h in firstRow)
     );
     if (missingHeaders.length > 0) {
@@ -220,7 +224,7 @@ export const parseExpenseXLSX = async (
   }
 
   return {
-    data: result.data as unknown as ExpenseXLSXRow[],
+    data: result.data.map(normalizeExpenseRow),
     errors: result.errors,
   };
 };
@@ -419,18 +423,20 @@ export const getXLSXTemplateInfo = (type: XLSXTemplateType): XLSXTemplateInfo =>
     case 'expenses':
       return {
         headers: EXPENSE_XLSX_HEADERS,
-        description: 'Import your expenses with date, description, amount, currency, category, and recurring status.',
+        description: 'Import your expenses with date, description, amount, currency, rating, category, subcategory, and recurring status.',
         exampleRows: [
-          ['2025-01-15', 'Groceries', 150.00, 'MXN', 'essential', 'false'],
-          ['2025-01-16', 'Netflix Subscription', 199.00, 'MXN', 'discretionary', 'true'],
-          ['2025-01-20', 'New Headphones', 2500.00, 'MXN', 'luxury', 'false'],
+          ['2025-01-15', 'Groceries', 150.00, 'MXN', 'essential', 'Food & Dining', 'Groceries', 'false'],
+          ['2025-01-16', 'Netflix Subscription', 199.00, 'MXN', 'discretionary', 'Entertainment', 'Streaming', 'true'],
+          ['2025-01-20', 'New Headphones', 2500.00, 'MXN', 'luxury', 'Shopping', '', 'false'],
         ],
         notes: [
           'date: YYYY-MM-DD format (e.g., 2025-01-15)',
           'description: Text description of the expense',
           'amount: Positive number (e.g., 150.00)',
           'currency: MXN, USD, EUR, etc.',
-          'category: essential, discretionary, or luxury',
+          'rating: essential, discretionary, or luxury (optional, defaults to discretionary)',
+          'category: Free-form category, e.g. Food & Dining (optional)',
+          'subcategory: Free-form subcategory within the category (optional)',
           'recurring: true or false',
         ],
       };
@@ -0,0 +1,59 @@
+-- Budgets: monthly spending limits per category or expense rating
+-- Migration: 009_budgets.sql
+
+-- ============================================
+-- 1. CREATE BUDGETS TABLE
+-- A budget targets either a category or a rating, never both
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.budgets (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('category', 'rating')),
+  category TEXT,
+  rating TEXT CHECK (rating IN ('essential', 'discretionary', 'luxury')),
+  monthly_limit DECIMAL(12, 2) NOT NULL CHECK (monthly_limit > 0),
+  currency TEXT NOT NULL DEFAULT 'MXN',
+  rollover BOOLEAN NOT NULL DEFAULT false,
+  start_month TEXT NOT NULL CHECK (start_month ~ '^\d{4}-(0[1-9]|1[0-2])$'), -- YYYY-MM
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT budgets_scope_target_check CHECK (
+    (scope = 'category' AND category IS NOT NULL AND rating IS NULL) OR
+    (scope = 'rating' AND rating IS NOT NULL AND category IS NULL)
+  )
+);
+
+CREATE INDEX idx_budgets_user_id ON public.budgets(user_id);
+CREATE UNIQUE INDEX idx_budgets_user_category ON public.budgets(user_id, category) WHERE scope = 'category';
+CREATE UNIQUE INDEX idx_budgets_user_rating ON public.budgets(user_id, rating) WHERE scope = 'rating';
+
+ALTER TABLE public.budgets ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own budgets"
+  ON public.budgets FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own budgets"
+  ON public.budgets FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own budgets"
+  ON public.budgets FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own budgets"
+  ON public.budgets FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all budgets"
+  ON public.budgets FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_budgets_updated_at
+  BEFORE UPDATE ON public.budgets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,124 @@
+-- Recurring rules: server-side schedules for recurring expenses and income
+-- Migration: 010_recurring_rules.sql
+
+-- ============================================
+-- 1. CREATE RECURRING_RULES TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.recurring_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('expense', 'income')),
+  source_id UUID, -- Template expense/income row the rule was created from
+  description TEXT NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'MXN',
+  rating TEXT CHECK (rating IN ('essential', 'discretionary', 'luxury')),
+  frequency TEXT NOT NULL CHECK (frequency IN ('weekly', 'bi-weekly', 'monthly')),
+  day_of_month INTEGER CHECK (day_of_month >= 1 AND day_of_month <= 31),
+  start_date DATE NOT NULL,
+  end_date DATE,
+  skip_dates DATE[] NOT NULL DEFAULT '{}',
+  paused BOOLEAN NOT NULL DEFAULT false,
+  last_generated_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT recurring_rules_expense_rating_check CHECK (kind = 'income' OR rating IS NOT NULL),
+  CONSTRAINT recurring_rules_end_after_start_check CHECK (end_date IS NULL OR end_date >= start_date)
+);
+
+CREATE INDEX idx_recurring_rules_user_id ON public.recurring_rules(user_id);
+CREATE UNIQUE INDEX idx_recurring_rules_source ON public.recurring_rules(user_id, kind, source_id) WHERE source_id IS NOT NULL;
+
+ALTER TABLE public.recurring_rules ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own recurring rules"
+  ON public.recurring_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own recurring rules"
+  ON public.recurring_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own recurring rules"
+  ON public.recurring_rules FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own recurring rules"
+  ON public.recurring_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all recurring rules"
+  ON public.recurring_rules FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_recurring_rules_updated_at
+  BEFORE UPDATE ON public.recurring_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- 2. LINK GENERATED ROWS TO THEIR RULE
+-- One row per (rule, occurrence) makes generation idempotent
+-- ============================================
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS recurring_rule_id UUID REFERENCES public.recurring_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS recurring_source_id UUID,
+ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+ALTER TABLE public.expenses DROP CONSTRAINT IF EXISTS expenses_recurring_occurrence_key;
+ALTER TABLE public.expenses ADD CONSTRAINT expenses_recurring_occurrence_key
+  UNIQUE (recurring_rule_id, occurrence_date);
+
+ALTER TABLE public.income
+ADD COLUMN IF NOT EXISTS recurring_rule_id UUID REFERENCES public.recurring_rules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS recurring_source_id UUID,
+ADD COLUMN IF NOT EXISTS occurrence_date DATE;
+
+ALTER TABLE public.income DROP CONSTRAINT IF EXISTS income_recurring_occurrence_key;
+ALTER TABLE public.income ADD CONSTRAINT income_recurring_occurrence_key
+  UNIQUE (recurring_rule_id, occurrence_date);
+
+-- ============================================
+-- 3. REMOVE RULES WHEN THEIR TEMPLATE IS DELETED
+-- ============================================
+CREATE OR REPLACE FUNCTION public.delete_recurring_rules_for_source()
+RETURNS TRIGGER AS $$
+BEGIN
+  DELETE FROM public.recurring_rules
+  WHERE source_id = OLD.id
+    AND kind = CASE WHEN TG_TABLE_NAME = 'expenses' THEN 'expense' ELSE 'income' END;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER delete_expense_recurring_rules
+  AFTER DELETE ON public.expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_recurring_rules_for_source();
+
+CREATE TRIGGER delete_income_recurring_rules
+  AFTER DELETE ON public.income
+  FOR EACH ROW
+  EXECUTE FUNCTION public.delete_recurring_rules_for_source();
+
+-- ============================================
+-- 4. BACKFILL RULES FOR EXISTING TEMPLATES
+-- The template row is the first occurrence, so generation resumes after it
+-- ============================================
+INSERT INTO public.recurring_rules (user_id, kind, source_id, description, amount, currency, rating, frequency, day_of_month, start_date, last_generated_date)
+SELECT user_id, 'expense', id, what, amount, currency, rating, 'monthly', EXTRACT(DAY FROM date)::INTEGER, date, date
+FROM public.expenses
+WHERE recurring = true
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.recurring_rules (user_id, kind, source_id, description, amount, currency, frequency, day_of_month, start_date, last_generated_date)
+SELECT user_id, 'income', id, source, amount, currency, frequency,
+  CASE WHEN frequency = 'monthly' THEN EXTRACT(DAY FROM date)::INTEGER END, date, date
+FROM public.income
+WHERE frequency IN ('weekly', 'bi-weekly', 'monthly')
+  AND source NOT LIKE 'Investment yield:%'
+  AND amount > 0
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,91 @@
+-- Categorization rules: user-editable rules that set category, subcategory,
+-- rating and recurring flag on matching expenses
+-- Migration: 011_categorization_rules.sql
+
+-- ============================================
+-- 1. CREATE CATEGORIZATION_RULES TABLE
+-- Every condition is optional but a rule needs at least one, plus one action
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.categorization_rules (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  priority INTEGER NOT NULL DEFAULT 100, -- Lower runs first; the first match wins
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Conditions
+  description_pattern TEXT CHECK (char_length(description_pattern) <= 200), -- Case-insensitive regex
+  min_amount DECIMAL(12, 2),
+  max_amount DECIMAL(12, 2),
+  currency TEXT,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE, -- Funding account
+  -- Actions
+  category TEXT,
+  subcategory TEXT,
+  rating TEXT CHECK (rating IN ('essential', 'discretionary', 'luxury')),
+  recurring BOOLEAN,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT categorization_rules_condition_check CHECK (
+    description_pattern IS NOT NULL OR min_amount IS NOT NULL OR max_amount IS NOT NULL
+    OR currency IS NOT NULL OR account_id IS NOT NULL
+  ),
+  CONSTRAINT categorization_rules_action_check CHECK (
+    category IS NOT NULL OR subcategory IS NOT NULL OR rating IS NOT NULL OR recurring IS NOT NULL
+  ),
+  CONSTRAINT categorization_rules_amount_range_check CHECK (
+    min_amount IS NULL OR max_amount IS NULL OR max_amount >= min_amount
+  )
+);
+
+CREATE INDEX idx_categorization_rules_user_priority ON public.categorization_rules(user_id, priority);
+
+ALTER TABLE public.categorization_rules ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own categorization rules"
+  ON public.categorization_rules FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own categorization rules"
+  ON public.categorization_rules FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own categorization rules"
+  ON public.categorization_rules FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own categorization rules"
+  ON public.categorization_rules FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all categorization rules"
+  ON public.categorization_rules FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_categorization_rules_updated_at
+  BEFORE UPDATE ON public.categorization_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- 2. SEED EXISTING USERS
+-- The keyword groups the API used to hardcode become editable starter rules
+-- ============================================
+INSERT INTO public.categorization_rules (user_id, name, priority, description_pattern, category, subcategory, rating)
+SELECT users.id, defaults.name, defaults.priority, defaults.pattern, defaults.category, defaults.subcategory, defaults.rating
+FROM auth.users AS users
+CROSS JOIN (VALUES
+  ('Coffee', 10, 'coffee|starbucks|dunkin', 'Food & Dining', 'Coffee & Tea', NULL),
+  ('Ride share', 20, 'uber|lyft|taxi', 'Transportation', 'Ride Share', NULL),
+  ('Retail', 30, 'amazon|walmart|target', 'Shopping', 'General', NULL),
+  ('Restaurants', 40, 'restaurant|food|lunch|dinner', 'Food & Dining', 'Restaurants', NULL),
+  ('Housing', 50, 'rent|mortgage', 'Bills & Utilities', 'Rent/Mortgage', 'essential'),
+  ('Fitness', 60, 'gym|fitness', 'Healthcare', 'Fitness', NULL),
+  ('Utilities', 70, 'electric|gas|water|utility', 'Bills & Utilities', 'Utilities', 'essential'),
+  ('Groceries', 80, 'grocery|supermarket|market', 'Food & Dining', 'Groceries', 'essential')
+) AS defaults(name, priority, pattern, category, subcategory, rating)
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.categorization_rules existing WHERE existing.user_id = users.id
+);
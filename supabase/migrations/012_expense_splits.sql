@@ -0,0 +1,32 @@
+-- Split expenses: divide one expense into lines with their own amount, rating and category
+-- Migration: 012_expense_splits.sql
+
+-- ============================================
+-- 1. ADD SPLITS COLUMN TO EXPENSES
+-- Each line: {"amount": 120.50, "rating": "essential", "category": "...", "subcategory": "...", "note": "..."}
+-- An empty array means the expense is not split
+-- ============================================
+
+ALTER TABLE public.expenses
+ADD COLUMN IF NOT EXISTS splits JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+-- ============================================
+-- 2. SPLIT CONSTRAINTS
+-- Lines must add up to the expense amount
+-- ============================================
+
+CREATE OR REPLACE FUNCTION public.expense_splits_total(splits JSONB)
+RETURNS DECIMAL(12, 2)
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(SUM((line->>'amount')::DECIMAL(12, 2)), 0)
+  FROM jsonb_array_elements(splits) AS line;
+$$;
+
+ALTER TABLE public.expenses DROP CONSTRAINT IF EXISTS expenses_splits_check;
+ALTER TABLE public.expenses ADD CONSTRAINT expenses_splits_check
+  CHECK (
+    jsonb_typeof(splits) = 'array'
+    AND (jsonb_array_length(splits) = 0 OR public.expense_splits_total(splits) = amount)
+  );
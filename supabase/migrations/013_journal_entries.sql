@@ -0,0 +1,27 @@
+-- Journal entries: reference, tags and multi-currency booking on ledger transactions
+-- Migration: 013_journal_entries.sql
+
+-- ============================================
+-- 1. TRANSACTION HEADER FIELDS
+-- ============================================
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS reference TEXT; -- Invoice #, check #, etc.
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS base_currency TEXT; -- Currency of booked amounts
+
+CREATE INDEX IF NOT EXISTS idx_transactions_tags ON public.transactions USING GIN (tags);
+
+-- ============================================
+-- 2. BOOKED AMOUNTS ON POSTINGS
+-- Postings keep the transacted amount and currency; the booked amount is the
+-- base currency value at the rate used on the transaction date. Transactions
+-- balance on booked amounts.
+-- ============================================
+ALTER TABLE public.postings ADD COLUMN IF NOT EXISTS exchange_rate DECIMAL(20, 10); -- Base units per posting currency unit
+ALTER TABLE public.postings ADD COLUMN IF NOT EXISTS booked_amount_cents BIGINT;
+
+-- Existing postings were booked in their own currency
+UPDATE public.postings SET booked_amount_cents = amount_cents WHERE booked_amount_cents IS NULL;
+
+ALTER TABLE public.postings DROP CONSTRAINT IF EXISTS postings_exchange_rate_check;
+ALTER TABLE public.postings ADD CONSTRAINT postings_exchange_rate_check
+  CHECK (exchange_rate IS NULL OR exchange_rate > 0);
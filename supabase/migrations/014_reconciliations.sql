@@ -0,0 +1,51 @@
+-- Bank reconciliation: statement reconciliations per account and the postings
+-- they cleared
+-- Migration: 014_reconciliations.sql
+
+-- ============================================
+-- 1. CREATE RECONCILIATIONS TABLE
+-- One row per completed statement; cleared postings point back to it
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.reconciliations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES public.accounts(id) ON DELETE CASCADE NOT NULL,
+  statement_date DATE NOT NULL,
+  statement_balance_cents BIGINT NOT NULL,
+  posting_count INTEGER NOT NULL DEFAULT 0 CHECK (posting_count >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_reconciliations_account_date ON public.reconciliations(account_id, statement_date DESC);
+
+ALTER TABLE public.reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own reconciliations"
+  ON public.reconciliations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own reconciliations"
+  ON public.reconciliations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all reconciliations"
+  ON public.reconciliations FOR SELECT
+  USING (public.is_admin());
+
+-- ============================================
+-- 2. RECONCILED FLAG ON POSTINGS
+-- Reconciled postings are locked: their transactions can no longer be edited
+-- or deleted
+-- ============================================
+ALTER TABLE public.postings ADD COLUMN IF NOT EXISTS reconciled BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE public.postings ADD COLUMN IF NOT EXISTS reconciled_at TIMESTAMPTZ;
+ALTER TABLE public.postings ADD COLUMN IF NOT EXISTS reconciliation_id UUID
+  REFERENCES public.reconciliations(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_postings_reconciliation ON public.postings(reconciliation_id);
+
+ALTER TABLE public.postings DROP CONSTRAINT IF EXISTS postings_reconciled_check;
+ALTER TABLE public.postings ADD CONSTRAINT postings_reconciled_check
+  CHECK (reconciled = (reconciled_at IS NOT NULL));
@@ -0,0 +1,70 @@
+-- Month-end close: closed ledger periods and an audit trail of closes and
+-- reopens
+-- Migration: 015_period_closes.sql
+
+-- ============================================
+-- 1. CREATE PERIOD_CLOSES TABLE
+-- One row per closed month; transactions dated in it cannot be created,
+-- edited or deleted. Reopening deletes the row.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.period_closes (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  period TEXT NOT NULL CHECK (period ~ '^\d{4}-(0[1-9]|1[0-2])$'), -- YYYY-MM
+  closed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  closed_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT period_closes_user_period_unique UNIQUE (user_id, period)
+);
+
+ALTER TABLE public.period_closes ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own period closes"
+  ON public.period_closes FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own period closes"
+  ON public.period_closes FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own period closes"
+  ON public.period_closes FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all period closes"
+  ON public.period_closes FOR SELECT
+  USING (public.is_admin());
+
+-- ============================================
+-- 2. CREATE PERIOD_CLOSE_EVENTS TABLE
+-- Append-only audit trail; a reopen must give a reason
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.period_close_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  period TEXT NOT NULL CHECK (period ~ '^\d{4}-(0[1-9]|1[0-2])$'),
+  action TEXT NOT NULL CHECK (action IN ('close', 'reopen')),
+  reason TEXT CHECK (char_length(reason) <= 500),
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT period_close_events_reason_check CHECK (action = 'close' OR reason IS NOT NULL)
+);
+
+CREATE INDEX idx_period_close_events_user_created ON public.period_close_events(user_id, created_at DESC);
+
+ALTER TABLE public.period_close_events ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own period close events"
+  ON public.period_close_events FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own period close events"
+  ON public.period_close_events FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all period close events"
+  ON public.period_close_events FOR SELECT
+  USING (public.is_admin());
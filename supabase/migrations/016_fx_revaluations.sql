@@ -0,0 +1,38 @@
+-- FX revaluation: runs that restate foreign-currency balances at current rates
+-- and the adjusting entry each one posted
+-- Migration: 016_fx_revaluations.sql
+
+-- ============================================
+-- 1. CREATE FX_REVALUATIONS TABLE
+-- Revaluation postings carry a zero foreign amount and move only the booked
+-- (base currency) value; lines keeps the report of what was revalued
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.fx_revaluations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  revaluation_date DATE NOT NULL,
+  base_currency TEXT NOT NULL,
+  gain_loss_account_id UUID REFERENCES public.accounts(id) ON DELETE RESTRICT NOT NULL,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE CASCADE,
+  total_adjustment_cents BIGINT NOT NULL DEFAULT 0,
+  lines JSONB NOT NULL DEFAULT '[]',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_fx_revaluations_user_date ON public.fx_revaluations(user_id, revaluation_date DESC);
+
+ALTER TABLE public.fx_revaluations ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own fx revaluations"
+  ON public.fx_revaluations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own fx revaluations"
+  ON public.fx_revaluations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all fx revaluations"
+  ON public.fx_revaluations FOR SELECT
+  USING (public.is_admin());
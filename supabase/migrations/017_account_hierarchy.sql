@@ -0,0 +1,16 @@
+-- Hierarchical chart of accounts: accounts can nest under a parent account of
+-- the same type so reports can roll balances up into subtotals
+-- Migration: 017_account_hierarchy.sql
+
+-- ============================================
+-- 1. PARENT ACCOUNT
+-- Deleting a parent promotes its sub-accounts to the top level
+-- ============================================
+ALTER TABLE public.accounts ADD COLUMN IF NOT EXISTS parent_id UUID
+  REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_accounts_parent ON public.accounts(parent_id);
+
+ALTER TABLE public.accounts DROP CONSTRAINT IF EXISTS accounts_parent_not_self_check;
+ALTER TABLE public.accounts ADD CONSTRAINT accounts_parent_not_self_check
+  CHECK (parent_id IS NULL OR parent_id <> id);
@@ -0,0 +1,57 @@
+-- Tags: named, colored labels for grouping transactions, expenses and income
+-- across accounts and categories (a trip, a home renovation)
+-- Migration: 018_tags.sql
+
+-- ============================================
+-- 1. CREATE TAGS TABLE
+-- Entries store tag names; renaming or merging a tag rewrites those names
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.tags (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50), -- Lower case, single-spaced
+  color TEXT NOT NULL DEFAULT '#6b7280' CHECK (color ~* '^#[0-9a-f]{6}$'),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT tags_user_name_unique UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own tags"
+  ON public.tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+  ON public.tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+  ON public.tags FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+  ON public.tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all tags"
+  ON public.tags FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_tags_updated_at
+  BEFORE UPDATE ON public.tags
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- 2. TAGS ON EXPENSES AND INCOME
+-- Transactions already carry tags (migration 013)
+-- ============================================
+ALTER TABLE public.expenses ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE public.income ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_expenses_tags ON public.expenses USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_income_tags ON public.income USING GIN (tags);
@@ -0,0 +1,28 @@
+-- Void and reverse transactions instead of deleting them: an offsetting
+-- transaction cancels the original and both stay linked for the audit trail
+-- Migration: 019_transaction_reversals.sql
+
+-- ============================================
+-- 1. STATUS
+-- A voided transaction and the entry that voids it are both 'voided'
+-- ============================================
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'posted';
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS voided_at TIMESTAMPTZ;
+
+ALTER TABLE public.transactions DROP CONSTRAINT IF EXISTS transactions_status_check;
+ALTER TABLE public.transactions ADD CONSTRAINT transactions_status_check
+  CHECK (status IN ('posted', 'voided'));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_status ON public.transactions(user_id, status);
+
+-- ============================================
+-- 2. REVERSAL LINKS
+-- The offsetting entry points at the original and the original at it
+-- ============================================
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS reverses_id UUID
+  REFERENCES public.transactions(id) ON DELETE RESTRICT;
+ALTER TABLE public.transactions ADD COLUMN IF NOT EXISTS reversed_by_id UUID
+  REFERENCES public.transactions(id) ON DELETE RESTRICT;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transactions_reverses ON public.transactions(reverses_id)
+  WHERE reverses_id IS NOT NULL;
@@ -0,0 +1,14 @@
+-- Opening balances: link each net worth account to the ledger account that
+-- mirrors it, so the opening-balance entry and the consistency check can match them
+-- Migration: 020_opening_balances.sql
+
+-- ============================================
+-- 1. LEDGER LINK
+-- Cleared when the ledger account is deleted; the net worth account stays
+-- ============================================
+ALTER TABLE public.net_worth_accounts ADD COLUMN IF NOT EXISTS ledger_account_id UUID
+  REFERENCES public.accounts(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_net_worth_accounts_ledger_account
+  ON public.net_worth_accounts(ledger_account_id)
+  WHERE ledger_account_id IS NOT NULL;
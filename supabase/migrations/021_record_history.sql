@@ -0,0 +1,80 @@
+-- Record history: every edit to a user's expenses, income, net worth accounts
+-- and ledger transactions keeps the changed fields with their before and after
+-- values, so a record can be traced and restored to an earlier version
+-- Migration: 021_record_history.sql
+
+-- ============================================
+-- 1. CREATE RECORD HISTORY TABLE
+-- One row per edit; changes holds {column: {before, after}} for changed columns only
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.record_history (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  table_name TEXT NOT NULL CHECK (table_name IN ('expenses', 'income', 'net_worth_accounts', 'transactions')),
+  record_id UUID NOT NULL, -- No foreign key: history outlives deleted records
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  changes JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_record_history_record
+  ON public.record_history(user_id, table_name, record_id, created_at DESC);
+
+ALTER TABLE public.record_history ENABLE ROW LEVEL SECURITY;
+
+-- Users read their own history; only the trigger writes it
+CREATE POLICY "Users can view their own record history"
+  ON public.record_history FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ============================================
+-- 2. RECORD CHANGES ON UPDATE
+-- Bookkeeping columns that change on every write are left out. Writes through
+-- the API server run as the service role, so the owner is recorded as the editor.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.record_field_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  old_row JSONB := to_jsonb(OLD);
+  new_row JSONB := to_jsonb(NEW);
+  changed JSONB := '{}'::jsonb;
+  col TEXT;
+BEGIN
+  FOR col IN SELECT jsonb_object_keys(new_row) LOOP
+    IF col NOT IN ('id', 'user_id', 'created_at', 'updated_at', 'last_updated', 'amount_cents', 'voided_at')
+       AND (old_row -> col) IS DISTINCT FROM (new_row -> col) THEN
+      changed := changed || jsonb_build_object(col, jsonb_build_object('before', old_row -> col, 'after', new_row -> col));
+    END IF;
+  END LOOP;
+
+  IF changed <> '{}'::jsonb THEN
+    INSERT INTO public.record_history (user_id, table_name, record_id, changed_by, changes)
+    VALUES (NEW.user_id, TG_TABLE_NAME, NEW.id, COALESCE(auth.uid(), NEW.user_id), changed);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_expenses_history ON public.expenses;
+CREATE TRIGGER record_expenses_history
+  AFTER UPDATE ON public.expenses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_field_changes();
+
+DROP TRIGGER IF EXISTS record_income_history ON public.income;
+CREATE TRIGGER record_income_history
+  AFTER UPDATE ON public.income
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_field_changes();
+
+DROP TRIGGER IF EXISTS record_net_worth_accounts_history ON public.net_worth_accounts;
+CREATE TRIGGER record_net_worth_accounts_history
+  AFTER UPDATE ON public.net_worth_accounts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_field_changes();
+
+DROP TRIGGER IF EXISTS record_transactions_history ON public.transactions;
+CREATE TRIGGER record_transactions_history
+  AFTER UPDATE ON public.transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_field_changes();
@@ -0,0 +1,15 @@
+-- Loan terms: principal, rate, term, start date and extra payments for loan and
+-- mortgage accounts, from which the app builds the amortization schedule
+-- Migration: 022_loan_terms.sql
+
+-- ============================================
+-- 1. LOAN TERMS
+-- {principal, annualRate, termMonths, startDate, extraMonthly?, extraPayments?}
+-- Null for accounts without terms; payments posted to the ledger carry a
+-- 'loan:<account id>:<period>' reference, so nothing else is stored here
+-- ============================================
+ALTER TABLE public.net_worth_accounts ADD COLUMN IF NOT EXISTS loan_terms JSONB;
+
+ALTER TABLE public.net_worth_accounts DROP CONSTRAINT IF EXISTS net_worth_accounts_loan_terms_check;
+ALTER TABLE public.net_worth_accounts ADD CONSTRAINT net_worth_accounts_loan_terms_check
+  CHECK (loan_terms IS NULL OR (type IN ('loan', 'mortgage') AND jsonb_typeof(loan_terms) = 'object'));
@@ -0,0 +1,16 @@
+-- Card terms: statement closing day, grace period, APR and minimum payment rule
+-- for credit card accounts, from which the app works out each statement cycle
+-- Migration: 023_card_terms.sql
+
+-- ============================================
+-- 1. CARD TERMS
+-- {closingDay, graceDays, apr, minPaymentPercent, minPaymentFloor?}
+-- Null for cards without terms; statement balances come from the linked
+-- ledger account, and the app keeps payment_to_avoid_interest,
+-- min_monthly_payment and is_paid_this_month in step with them
+-- ============================================
+ALTER TABLE public.net_worth_accounts ADD COLUMN IF NOT EXISTS card_terms JSONB;
+
+ALTER TABLE public.net_worth_accounts DROP CONSTRAINT IF EXISTS net_worth_accounts_card_terms_check;
+ALTER TABLE public.net_worth_accounts ADD CONSTRAINT net_worth_accounts_card_terms_check
+  CHECK (card_terms IS NULL OR (type = 'credit-card' AND jsonb_typeof(card_terms) = 'object'));
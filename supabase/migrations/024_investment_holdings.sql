@@ -0,0 +1,118 @@
+-- Investment holdings: securities and crypto positions inside investment and
+-- exchange accounts, built from buy/sell/dividend trades and valued with
+-- manually entered or imported prices
+-- Migration: 024_investment_holdings.sql
+
+-- ============================================
+-- 1. COST BASIS METHOD
+-- How sells take cost out of a position: first-in first-out lots, or the
+-- average cost of everything held
+-- ============================================
+ALTER TABLE public.net_worth_accounts ADD COLUMN IF NOT EXISTS cost_basis_method TEXT;
+
+ALTER TABLE public.net_worth_accounts DROP CONSTRAINT IF EXISTS net_worth_accounts_cost_basis_method_check;
+ALTER TABLE public.net_worth_accounts ADD CONSTRAINT net_worth_accounts_cost_basis_method_check
+  CHECK (cost_basis_method IS NULL OR (type IN ('investment', 'exchange') AND cost_basis_method IN ('fifo', 'average')));
+
+-- ============================================
+-- 2. CREATE INVESTMENT TRADES TABLE
+-- Positions, lots and realized gains are replayed from these rows; each
+-- trade posts one journal entry
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.investment_trades (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES public.net_worth_accounts(id) ON DELETE CASCADE NOT NULL,
+  symbol TEXT NOT NULL CHECK (char_length(symbol) BETWEEN 1 AND 20), -- Upper case
+  kind TEXT NOT NULL CHECK (kind IN ('buy', 'sell', 'dividend')),
+  trade_date DATE NOT NULL,
+  quantity DECIMAL(24, 8) NOT NULL DEFAULT 0 CHECK (quantity >= 0), -- Zero for dividends
+  price DECIMAL(20, 8) NOT NULL DEFAULT 0 CHECK (price >= 0), -- Per unit, in the account currency
+  fees DECIMAL(14, 2) NOT NULL DEFAULT 0 CHECK (fees >= 0),
+  amount DECIMAL(14, 2) NOT NULL DEFAULT 0 CHECK (amount >= 0), -- Dividends only
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT investment_trades_kind_fields CHECK (
+    (kind = 'dividend' AND amount > 0) OR (kind <> 'dividend' AND quantity > 0)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_investment_trades_account ON public.investment_trades (account_id, trade_date);
+
+ALTER TABLE public.investment_trades ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own investment trades"
+  ON public.investment_trades FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own investment trades"
+  ON public.investment_trades FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own investment trades"
+  ON public.investment_trades FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own investment trades"
+  ON public.investment_trades FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all investment trades"
+  ON public.investment_trades FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_investment_trades_updated_at
+  BEFORE UPDATE ON public.investment_trades
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================
+-- 3. CREATE SECURITY PRICES TABLE
+-- One price per symbol and day; positions are valued with the latest price
+-- on or before the valuation date
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.security_prices (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  symbol TEXT NOT NULL CHECK (char_length(symbol) BETWEEN 1 AND 20),
+  price_date DATE NOT NULL,
+  price DECIMAL(20, 8) NOT NULL CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'MXN',
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT security_prices_user_symbol_date_unique UNIQUE (user_id, symbol, price_date)
+);
+
+ALTER TABLE public.security_prices ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own security prices"
+  ON public.security_prices FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own security prices"
+  ON public.security_prices FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own security prices"
+  ON public.security_prices FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own security prices"
+  ON public.security_prices FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all security prices"
+  ON public.security_prices FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_security_prices_updated_at
+  BEFORE UPDATE ON public.security_prices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
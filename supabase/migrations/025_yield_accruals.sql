@@ -0,0 +1,60 @@
+-- Yield accruals: interest credited to interest-bearing accounts at the end of
+-- each accrual period, recorded as income and added to the account balance
+-- Migration: 025_yield_accruals.sql
+
+-- ============================================
+-- 1. YIELD TERMS
+-- {method: simple|compound, frequency: monthly|quarterly|annually, startDate, principal?}
+-- The rate is the account's estimated_yield; null for accounts that do not accrue
+-- ============================================
+ALTER TABLE public.net_worth_accounts ADD COLUMN IF NOT EXISTS yield_terms JSONB;
+
+ALTER TABLE public.net_worth_accounts DROP CONSTRAINT IF EXISTS net_worth_accounts_yield_terms_check;
+ALTER TABLE public.net_worth_accounts ADD CONSTRAINT net_worth_accounts_yield_terms_check
+  CHECK (yield_terms IS NULL OR (type NOT IN ('loan', 'credit-card', 'mortgage') AND jsonb_typeof(yield_terms) = 'object'));
+
+-- ============================================
+-- 2. CREATE YIELD_ACCRUALS TABLE
+-- One row per account and period end. Undoing an accrual keeps the row as
+-- 'undone' so the period is not accrued again.
+-- ============================================
+CREATE TABLE IF NOT EXISTS public.yield_accruals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES public.net_worth_accounts(id) ON DELETE CASCADE NOT NULL,
+  period_end DATE NOT NULL,
+  amount DECIMAL(14, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL DEFAULT 'MXN',
+  income_id UUID REFERENCES public.income(id) ON DELETE SET NULL,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'posted' CHECK (status IN ('posted', 'undone')),
+  created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+  CONSTRAINT yield_accruals_account_period_unique UNIQUE (account_id, period_end)
+);
+
+ALTER TABLE public.yield_accruals ENABLE ROW LEVEL SECURITY;
+
+-- User policies
+CREATE POLICY "Users can view their own yield accruals"
+  ON public.yield_accruals FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own yield accruals"
+  ON public.yield_accruals FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own yield accruals"
+  ON public.yield_accruals FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Admin policies
+CREATE POLICY "Admins can view all yield accruals"
+  ON public.yield_accruals FOR SELECT
+  USING (public.is_admin());
+
+CREATE TRIGGER update_yield_accruals_updated_at
+  BEFORE UPDATE ON public.yield_accruals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,60 @@
+-- Posting history: edits to a transaction's postings are recorded in the
+-- transaction's history, so a changed amount or account can be traced like a
+-- changed description
+-- Migration: 026_posting_history.sql
+
+-- ============================================
+-- 1. RECORD POSTING CHANGES ON UPDATE
+-- Kept as a 'postings' change on the parent transaction: {before: [posting],
+-- after: [posting]}. Only the columns that carry the entry are compared. An
+-- edit that replaces a transaction's postings deletes and inserts them; the
+-- API server records that as one change with the old and the new lines, so
+-- deletes and inserts are not recorded here.
+-- ============================================
+CREATE OR REPLACE FUNCTION public.record_posting_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+  owner_id UUID;
+  before_posting JSONB;
+  after_posting JSONB;
+BEGIN
+  SELECT user_id INTO owner_id FROM public.transactions WHERE id = OLD.transaction_id;
+  IF owner_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  before_posting := jsonb_build_object(
+    'id', OLD.id, 'account_id', OLD.account_id, 'amount_cents', OLD.amount_cents,
+    'booked_amount_cents', OLD.booked_amount_cents, 'currency', OLD.currency,
+    'is_debit', OLD.is_debit, 'exchange_rate', OLD.exchange_rate, 'reconciled', OLD.reconciled
+  );
+
+  after_posting := jsonb_build_object(
+    'id', NEW.id, 'account_id', NEW.account_id, 'amount_cents', NEW.amount_cents,
+    'booked_amount_cents', NEW.booked_amount_cents, 'currency', NEW.currency,
+    'is_debit', NEW.is_debit, 'exchange_rate', NEW.exchange_rate, 'reconciled', NEW.reconciled
+  );
+  IF after_posting = before_posting THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.record_history (user_id, table_name, record_id, changed_by, changes)
+  VALUES (
+    owner_id,
+    'transactions',
+    OLD.transaction_id,
+    COALESCE(auth.uid(), owner_id),
+    jsonb_build_object('postings', jsonb_build_object(
+      'before', jsonb_build_array(before_posting),
+      'after', jsonb_build_array(after_posting)
+    ))
+  );
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_postings_history ON public.postings;
+CREATE TRIGGER record_postings_history
+  AFTER UPDATE ON public.postings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_posting_changes();
@@ -0,0 +1,10 @@
+-- Budget categories are matched ignoring case and surrounding spaces, so
+-- "Dining" and " dining" are the same budget; the unique index agrees
+-- Migration: 027_budget_category_case.sql
+
+-- ============================================
+-- 1. ONE CATEGORY BUDGET PER NORMALIZED NAME
+-- ============================================
+DROP INDEX IF EXISTS public.idx_budgets_user_category;
+CREATE UNIQUE INDEX idx_budgets_user_category
+  ON public.budgets(user_id, lower(btrim(category))) WHERE scope = 'category';